@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, Coins, AlertCircle } from 'lucide-react';
+import { apiErrorMessage } from '@/lib/queryClient';
 
 interface ClaimRewardsButtonProps {
   userAddress: string;
@@ -44,13 +45,13 @@ export function ClaimRewardsButton({
 
       if (!signatureResponse.ok) {
         const errorData = await signatureResponse.json();
-        throw new Error(errorData.error || 'Failed to generate claim signature');
+        throw new Error(apiErrorMessage(errorData, 'Failed to generate claim signature'));
       }
 
       const signatureData = await signatureResponse.json();
       
       if (!signatureData.success) {
-        throw new Error(signatureData.error || 'Signature generation failed');
+        throw new Error(apiErrorMessage(signatureData, 'Signature generation failed'));
       }
 
       const { signature } = signatureData;
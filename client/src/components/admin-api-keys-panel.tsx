@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface ApiKeySummary {
+  id: number;
+  name: string;
+  keyPrefix: string;
+  rateLimitPerMinute: number;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+interface AdminSessionInfo {
+  permissions: string[];
+}
+
+export function AdminApiKeysPanel() {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [rateLimit, setRateLimit] = useState('60');
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+
+  const { data: keys, isLoading } = useQuery<ApiKeySummary[]>({
+    queryKey: ['/api/admin/api-keys'],
+  });
+  const { data: session } = useQuery<AdminSessionInfo>({
+    queryKey: ['/api/admin/session'],
+  });
+  const canManage = !!session?.permissions.includes('config:write');
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/api-keys'] });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/admin/audit-log') });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest<{ key: string; apiKey: ApiKeySummary }>('/api/admin/api-keys', {
+      method: 'POST',
+      data: { name: name.trim(), rateLimitPerMinute: parseInt(rateLimit, 10) }
+    }),
+    onSuccess: (result) => {
+      setIssuedKey(result.key);
+      setName('');
+      toast({
+        title: "[API_KEY_ISSUED]",
+        description: `${result.apiKey.name} - copy the key now, it is not shown again`,
+        className: "bg-green-900/90 border-green-400 text-green-100",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "[API_KEY_FAILED]",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/admin/api-keys/${id}`, { method: 'DELETE' }),
+    onError: (error) => {
+      toast({
+        title: "[API_KEY_REVOKE_FAILED]",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-black/50 border border-green-400 rounded p-6">
+        <h2 className="text-lg font-bold text-[#ff0066] mb-4 tracking-wider">
+          [ISSUE_API_KEY]
+        </h2>
+
+        <div className="mb-4 text-green-400/60 font-mono text-xs">
+          Keys grant read access to the public /v1 API. Docs: <a href="/v1/openapi.json" target="_blank" rel="noreferrer" className="underline">/v1/openapi.json</a>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 font-mono text-sm">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Partner / team name"
+            disabled={!canManage}
+            className="md:col-span-2 bg-gray-900 border border-green-400/50 rounded px-3 py-2 text-green-400"
+          />
+          <input
+            type="number"
+            min={1}
+            value={rateLimit}
+            onChange={(e) => setRateLimit(e.target.value)}
+            placeholder="Requests / minute"
+            disabled={!canManage}
+            className="bg-gray-900 border border-green-400/50 rounded px-3 py-2 text-green-400"
+          />
+        </div>
+
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={!canManage || !name.trim() || !(parseInt(rateLimit, 10) > 0) || createMutation.isPending}
+          className="mt-4 px-6 py-3 bg-green-400 text-black font-mono font-bold rounded hover:bg-green-300 transition-colors disabled:opacity-50"
+        >
+          {createMutation.isPending ? '[ISSUING...]' : '[ISSUE_KEY]'}
+        </button>
+
+        {issuedKey && (
+          <div className="mt-4 border border-yellow-400/60 rounded p-3 font-mono text-xs text-yellow-300 space-y-1">
+            <div>[SHOWN_ONCE] Send this key to the partner over a secure channel:</div>
+            <code className="block break-all text-yellow-100">{issuedKey}</code>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-black/50 border border-green-400 rounded p-6">
+        <h2 className="text-lg font-bold text-[#ff0066] mb-4 tracking-wider">
+          [API_KEYS]
+        </h2>
+
+        {isLoading || !keys ? (
+          <div className="text-green-400 font-mono text-sm">Loading API keys...</div>
+        ) : keys.length === 0 ? (
+          <div className="text-green-400/60 font-mono text-sm">No API keys issued</div>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {keys.map(key => (
+              <div
+                key={key.id}
+                className={`border rounded p-3 bg-gray-900/50 flex justify-between items-center font-mono text-sm ${key.revokedAt ? 'border-gray-600 opacity-60' : 'border-green-400/30'}`}
+              >
+                <div>
+                  <div className="text-green-400">
+                    {key.name} <span className="text-green-400/50">({key.keyPrefix}…)</span>
+                  </div>
+                  <div className="text-green-400/50 text-xs mt-1">
+                    {key.rateLimitPerMinute}/MIN · ISSUED {new Date(key.createdAt).toLocaleString()} BY {key.createdBy}
+                    {' · '}
+                    {key.revokedAt
+                      ? `REVOKED ${new Date(key.revokedAt).toLocaleString()}`
+                      : key.lastUsedAt ? `LAST USED ${new Date(key.lastUsedAt).toLocaleString()}` : 'NEVER USED'}
+                  </div>
+                </div>
+                {canManage && !key.revokedAt && (
+                  <button
+                    onClick={() => revokeMutation.mutate(key.id)}
+                    disabled={revokeMutation.isPending}
+                    className="px-3 py-1 bg-red-600 text-white text-xs rounded hover:bg-red-500 transition-colors disabled:opacity-50"
+                  >
+                    [REVOKE]
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { AdminProposalsPanel } from "./admin-proposals-panel";
+
+interface ChainInfo {
+  chainId: number;
+  name: string;
+  isDefault: boolean;
+}
+
+interface PartnerToken {
+  tokenAddress: string;
+  tokenSymbol: string;
+  decimals: number;
+  totalBudget: number;
+}
+
+interface PartnerTokenForm {
+  tokenAddress: string;
+  tokenSymbol: string;
+  decimals: string;
+  totalBudget: string;
+}
+
+interface IncentiveProgram {
+  id: number;
+  name: string;
+  chainId: number;
+  poolAddress: string;
+  token0Address: string;
+  token1Address: string;
+  feeTier: number;
+  rewardTokenAddress: string;
+  rewardTokenSymbol: string;
+  totalBudget: number;
+  startDate: string;
+  endDate: string;
+  durationDays: number;
+  dailyBudget: number;
+  fundedByTreasury: boolean;
+  isActive: boolean;
+  partnerTokens: PartnerToken[];
+}
+
+interface ProgramForm {
+  name: string;
+  chainId: number;
+  poolAddress: string;
+  token0Address: string;
+  token1Address: string;
+  feeTier: number;
+  rewardTokenAddress: string;
+  rewardTokenSymbol: string;
+  totalBudget: string;
+  startDate: string;
+  endDate: string;
+  isActive: boolean;
+  partnerTokens: PartnerTokenForm[];
+}
+
+interface SaveProgramResponse {
+  pendingApproval?: boolean;
+  message?: string;
+}
+
+const FEE_TIERS = [100, 500, 3000, 10000];
+
+const EMPTY_FORM: ProgramForm = {
+  name: '',
+  chainId: 8453,
+  poolAddress: '',
+  token0Address: '',
+  token1Address: '',
+  feeTier: 3000,
+  rewardTokenAddress: '',
+  rewardTokenSymbol: 'KILT',
+  totalBudget: '',
+  startDate: '',
+  endDate: '',
+  isActive: true,
+  partnerTokens: []
+};
+
+const EMPTY_PARTNER_TOKEN: PartnerTokenForm = { tokenAddress: '', tokenSymbol: '', decimals: '18', totalBudget: '' };
+
+function toForm(program: IncentiveProgram): ProgramForm {
+  return {
+    name: program.name,
+    chainId: program.chainId,
+    poolAddress: program.poolAddress,
+    token0Address: program.token0Address,
+    token1Address: program.token1Address,
+    feeTier: program.feeTier,
+    rewardTokenAddress: program.rewardTokenAddress,
+    rewardTokenSymbol: program.rewardTokenSymbol,
+    totalBudget: String(program.totalBudget),
+    startDate: program.startDate,
+    endDate: program.endDate,
+    isActive: program.isActive,
+    partnerTokens: program.partnerTokens.map(token => ({
+      tokenAddress: token.tokenAddress,
+      tokenSymbol: token.tokenSymbol,
+      decimals: String(token.decimals),
+      totalBudget: String(token.totalBudget)
+    }))
+  };
+}
+
+/**
+ * Incentive programs (pool, fee tier, reward and partner tokens, budget and dates) with create/edit
+ */
+export function AdminProgramsPanel() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<IncentiveProgram | null>(null);
+  const [form, setForm] = useState<ProgramForm>(EMPTY_FORM);
+
+  const { data: programs, isLoading } = useQuery<IncentiveProgram[]>({
+    queryKey: ['/api/admin/programs'],
+  });
+  const { data: chains } = useQuery<ChainInfo[]>({
+    queryKey: ['/api/chains'],
+  });
+  const chainName = (chainId: number) => chains?.find(chain => chain.chainId === chainId)?.name ?? `CHAIN ${chainId}`;
+
+  const updateField = <K extends keyof ProgramForm>(key: K, value: ProgramForm[K]) => {
+    setForm(current => ({ ...current, [key]: value }));
+  };
+
+  const updatePartnerToken = (index: number, key: keyof PartnerTokenForm, value: string) => {
+    setForm(current => ({
+      ...current,
+      partnerTokens: current.partnerTokens.map((token, i) => i === index ? { ...token, [key]: value } : token)
+    }));
+  };
+
+  const startEdit = (program: IncentiveProgram | null) => {
+    setEditing(program);
+    setForm(program ? toForm(program) : EMPTY_FORM);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest<SaveProgramResponse>(editing ? `/api/admin/programs/${editing.id}` : '/api/admin/programs', {
+      method: editing ? 'PUT' : 'POST',
+      data: form
+    }),
+    onSuccess: (data) => {
+      if (data.pendingApproval) {
+        queryClient.invalidateQueries({ queryKey: ['/api/admin/proposals?changeType=incentive_program'] });
+        toast({
+          title: "[PROGRAM_PROPOSAL_SUBMITTED]",
+          description: data.message,
+          className: "bg-green-900/90 border-green-400 text-green-100",
+        });
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/programs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/programs'] });
+      toast({
+        title: "[PROGRAM_SAVED]",
+        description: `${form.name} ${editing ? 'updated' : 'created'}`,
+        className: "bg-green-900/90 border-green-400 text-green-100",
+      });
+      startEdit(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "[PROGRAM_SAVE_FAILED]",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/admin/audit-log') });
+    }
+  });
+
+  const fundedByTreasury = !!editing?.fundedByTreasury;
+  const inputClass = "bg-gray-900 border border-green-400/50 rounded px-3 py-2 text-green-400 font-mono text-sm";
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-black/50 border border-green-400 rounded p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-bold text-[#ff0066] tracking-wider">
+            {editing ? `[EDIT_PROGRAM #${editing.id}]` : '[NEW_INCENTIVE_PROGRAM]'}
+          </h2>
+          {editing && (
+            <button onClick={() => startEdit(null)} className="text-green-400 font-mono text-xs hover:text-green-300">
+              [CANCEL_EDIT]
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <input value={form.name} onChange={(e) => updateField('name', e.target.value)} placeholder="Name (e.g. KILT/USDC)" className={inputClass} />
+          <select value={form.chainId} onChange={(e) => updateField('chainId', Number(e.target.value))} className={inputClass}>
+            {(chains || [{ chainId: 8453, name: 'Base', isDefault: true }]).map(chain => (
+              <option key={chain.chainId} value={chain.chainId}>{chain.name.toUpperCase()} ({chain.chainId})</option>
+            ))}
+          </select>
+          <input value={form.poolAddress} onChange={(e) => updateField('poolAddress', e.target.value)} placeholder="Pool address 0x..." className={inputClass} />
+          <input value={form.token0Address} onChange={(e) => updateField('token0Address', e.target.value)} placeholder="Token0 address 0x..." className={inputClass} />
+          <input value={form.token1Address} onChange={(e) => updateField('token1Address', e.target.value)} placeholder="Token1 address 0x..." className={inputClass} />
+          <input value={form.rewardTokenAddress} onChange={(e) => updateField('rewardTokenAddress', e.target.value)} placeholder="Reward token address 0x..." className={inputClass} />
+          <div className="grid grid-cols-2 gap-4">
+            <input value={form.rewardTokenSymbol} onChange={(e) => updateField('rewardTokenSymbol', e.target.value)} placeholder="Symbol" className={inputClass} />
+            <select value={form.feeTier} onChange={(e) => updateField('feeTier', Number(e.target.value))} className={inputClass}>
+              {FEE_TIERS.map(tier => (
+                <option key={tier} value={tier}>{tier / 10000}% FEE</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {fundedByTreasury ? (
+          <div className="mt-4 text-yellow-400 font-mono text-xs">
+            [TREASURY_FUNDED] Budget and dates come from TREASURY_CONFIG
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+            <input type="number" value={form.totalBudget} onChange={(e) => updateField('totalBudget', e.target.value)} placeholder="Total budget" className={inputClass} />
+            <input type="date" value={form.startDate} onChange={(e) => updateField('startDate', e.target.value)} className={inputClass} />
+            <input type="date" value={form.endDate} onChange={(e) => updateField('endDate', e.target.value)} className={inputClass} />
+          </div>
+        )}
+
+        <div className="mt-4 space-y-2">
+          <div className="flex justify-between items-center">
+            <span className="text-green-400 font-mono text-xs">[PARTNER_TOKENS] Paid alongside {form.rewardTokenSymbol || 'the reward token'}, split by the same shares</span>
+            <button
+              onClick={() => updateField('partnerTokens', [...form.partnerTokens, EMPTY_PARTNER_TOKEN])}
+              className="text-green-400 font-mono text-xs hover:text-green-300"
+            >
+              [ADD_TOKEN]
+            </button>
+          </div>
+          {form.partnerTokens.map((token, index) => (
+            <div key={index} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2">
+              <input value={token.tokenAddress} onChange={(e) => updatePartnerToken(index, 'tokenAddress', e.target.value)} placeholder="Token address 0x..." className={inputClass} />
+              <input value={token.tokenSymbol} onChange={(e) => updatePartnerToken(index, 'tokenSymbol', e.target.value)} placeholder="Symbol" className={inputClass} />
+              <input type="number" value={token.decimals} onChange={(e) => updatePartnerToken(index, 'decimals', e.target.value)} placeholder="Decimals" className={inputClass} />
+              <input type="number" value={token.totalBudget} onChange={(e) => updatePartnerToken(index, 'totalBudget', e.target.value)} placeholder="Total budget" className={inputClass} />
+              <button
+                onClick={() => updateField('partnerTokens', form.partnerTokens.filter((_, i) => i !== index))}
+                className="px-3 text-red-400 font-mono text-xs hover:text-red-300"
+              >
+                [REMOVE]
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 mt-4 text-green-400 font-mono text-sm">
+          <input type="checkbox" checked={form.isActive} onChange={(e) => updateField('isActive', e.target.checked)} />
+          ACTIVE
+        </label>
+
+        <button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+          className="mt-4 px-6 py-3 bg-green-400 text-black font-mono font-bold rounded hover:bg-green-300 transition-colors disabled:opacity-50"
+        >
+          {saveMutation.isPending ? '[SAVING...]' : editing ? '[UPDATE_PROGRAM]' : '[CREATE_PROGRAM]'}
+        </button>
+      </div>
+
+      <AdminProposalsPanel changeType="incentive_program" />
+
+      <div className="bg-black/50 border border-green-400 rounded p-6">
+        <h2 className="text-lg font-bold text-[#ff0066] mb-4 tracking-wider">
+          [INCENTIVE_PROGRAMS]
+        </h2>
+
+        {isLoading || !programs ? (
+          <div className="text-green-400 font-mono text-sm">Loading incentive programs...</div>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {programs.map(program => (
+              <div
+                key={program.id}
+                className={`border rounded p-3 bg-gray-900/50 flex justify-between items-center font-mono text-sm ${program.isActive ? 'border-green-400/30' : 'border-gray-600 opacity-60'}`}
+              >
+                <div>
+                  <div className="text-green-400">
+                    #{program.id} {program.name}
+                    {program.fundedByTreasury && <span className="text-[#ff0066]"> [TREASURY]</span>}
+                  </div>
+                  <div className="text-green-400/50 text-xs mt-1">
+                    {chainName(program.chainId).toUpperCase()} · {program.poolAddress} · {program.feeTier / 10000}% FEE
+                  </div>
+                  <div className="text-green-400/50 text-xs">
+                    {program.totalBudget.toLocaleString()} {program.rewardTokenSymbol} · {program.startDate} → {program.endDate} · {Math.round(program.dailyBudget).toLocaleString()}/DAY
+                  </div>
+                  {program.partnerTokens.length > 0 && (
+                    <div className="text-cyan-400/70 text-xs">
+                      + {program.partnerTokens.map(token => `${token.totalBudget.toLocaleString()} ${token.tokenSymbol}`).join(' · ')}
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => startEdit(program)}
+                  className="px-3 py-1 border border-green-400/50 text-green-400 text-xs rounded hover:bg-green-400/10"
+                >
+                  [EDIT]
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useSignMessage } from "wagmi";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type ProposalDecision = 'approve' | 'reject';
+
+interface ProposalVote {
+  id: number;
+  adminWallet: string;
+  decision: ProposalDecision;
+  createdAt: string;
+}
+
+interface AdminProposal {
+  id: number;
+  changeType: 'treasury_config' | 'program_settings' | 'incentive_program';
+  summary: string;
+  proposedBy: string;
+  requiredApprovals: number;
+  timelockSeconds: number;
+  status: string;
+  executableAfter: string | null;
+  executedAt: string | null;
+  executionError: string | null;
+  expiresAt: string;
+  createdAt: string;
+  votes: ProposalVote[];
+  approvals: number;
+  rejections: number;
+  voteMessages?: Record<ProposalDecision, string>;
+}
+
+interface ProposalsResponse {
+  proposals: AdminProposal[];
+  approvalRequired: boolean;
+}
+
+interface AdminSessionInfo {
+  walletAddress: string;
+  role: string;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: 'text-yellow-400',
+  queued: 'text-cyan-400',
+  executing: 'text-cyan-400',
+  executed: 'text-green-400',
+  rejected: 'text-red-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-400',
+  expired: 'text-gray-400'
+};
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/**
+ * Pending and recent M-of-N proposals for one change type, with signed approve/reject
+ */
+export function AdminProposalsPanel({ changeType }: { changeType: AdminProposal['changeType'] }) {
+  const { toast } = useToast();
+  const { signMessageAsync } = useSignMessage();
+  const proposalsUrl = `/api/admin/proposals?changeType=${changeType}`;
+
+  const { data } = useQuery<ProposalsResponse>({
+    queryKey: [proposalsUrl],
+    refetchInterval: 30000,
+  });
+  const { data: session } = useQuery<AdminSessionInfo>({
+    queryKey: ['/api/admin/session'],
+  });
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: [proposalsUrl] });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/admin/audit-log') });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/treasury/config'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/program/settings'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/programs'] });
+  };
+
+  const voteMutation = useMutation({
+    mutationFn: async ({ proposal, decision }: { proposal: AdminProposal; decision: ProposalDecision }) => {
+      const message = proposal.voteMessages?.[decision];
+      if (!message) throw new Error('Proposal is no longer open for voting');
+      const signature = await signMessageAsync({ message });
+      return apiRequest<AdminProposal>(`/api/admin/proposals/${proposal.id}/vote`, {
+        method: 'POST',
+        data: { decision, signature }
+      });
+    },
+    onSuccess: (proposal) => {
+      toast({
+        title: "[VOTE_RECORDED]",
+        description: `Proposal #${proposal.id} is ${proposal.status}`,
+        className: "bg-green-900/90 border-green-400 text-green-100",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "[VOTE_FAILED]",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (proposalId: number) => apiRequest(`/api/admin/proposals/${proposalId}/cancel`, { method: 'POST' }),
+    onError: (error) => {
+      toast({
+        title: "[CANCEL_FAILED]",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled
+  });
+
+  if (!data || (!data.approvalRequired && data.proposals.length === 0)) return null;
+
+  const wallet = session?.walletAddress;
+  const proposals = data.proposals.slice(0, 10);
+
+  return (
+    <div className="bg-black/50 border border-green-400 rounded p-6">
+      <h2 className="text-lg font-bold text-[#ff0066] mb-4 tracking-wider">
+        [PENDING_PROPOSALS]
+      </h2>
+
+      {proposals.length === 0 ? (
+        <div className="text-green-400/50 font-mono text-sm">[NO_PROPOSALS] Saved changes are submitted here for approval</div>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {proposals.map(proposal => {
+            const hasVoted = proposal.votes.some(vote => vote.adminWallet === wallet);
+            const isProposer = proposal.proposedBy === wallet;
+            const isOpen = proposal.status === 'pending' || proposal.status === 'queued';
+
+            return (
+              <div key={proposal.id} className="border border-green-400/30 rounded p-3 bg-gray-900/50 font-mono text-sm">
+                <div className="flex justify-between items-start">
+                  <div className="text-green-400">#{proposal.id} {proposal.summary}</div>
+                  <div className={STATUS_COLORS[proposal.status] || 'text-green-400'}>
+                    [{proposal.status.toUpperCase()}]
+                  </div>
+                </div>
+                <div className="text-green-400/60 text-xs mt-1">
+                  BY {shortAddress(proposal.proposedBy)} · {new Date(proposal.createdAt).toLocaleString()} ·
+                  APPROVALS {proposal.approvals}/{proposal.requiredApprovals}
+                  {proposal.rejections > 0 && ` · REJECTIONS ${proposal.rejections}`}
+                  {proposal.timelockSeconds > 0 && ` · TIMELOCK ${(proposal.timelockSeconds / 3600).toFixed(1)}H`}
+                </div>
+                {proposal.status === 'queued' && proposal.executableAfter && (
+                  <div className="text-cyan-400 text-xs mt-1">EXECUTES AFTER {new Date(proposal.executableAfter).toLocaleString()}</div>
+                )}
+                {proposal.executionError && (
+                  <div className="text-red-400 text-xs mt-1">{proposal.executionError}</div>
+                )}
+                {proposal.votes.length > 0 && (
+                  <div className="text-green-400/50 text-xs mt-1">
+                    {proposal.votes.map(vote => `${shortAddress(vote.adminWallet)}:${vote.decision.toUpperCase()}`).join(' · ')}
+                  </div>
+                )}
+
+                {isOpen && (
+                  <div className="flex gap-2 mt-3">
+                    {proposal.status === 'pending' && !isProposer && !hasVoted && (
+                      <>
+                        <button
+                          onClick={() => voteMutation.mutate({ proposal, decision: 'approve' })}
+                          disabled={voteMutation.isPending}
+                          className="px-3 py-1 bg-green-400 text-black text-xs font-bold rounded hover:bg-green-300 disabled:opacity-50"
+                        >
+                          [SIGN_APPROVE]
+                        </button>
+                        <button
+                          onClick={() => voteMutation.mutate({ proposal, decision: 'reject' })}
+                          disabled={voteMutation.isPending}
+                          className="px-3 py-1 bg-red-600 text-white text-xs font-bold rounded hover:bg-red-500 disabled:opacity-50"
+                        >
+                          [SIGN_REJECT]
+                        </button>
+                      </>
+                    )}
+                    {(isProposer || session?.role === 'super-admin') && (
+                      <button
+                        onClick={() => cancelMutation.mutate(proposal.id)}
+                        disabled={cancelMutation.isPending}
+                        className="px-3 py-1 border border-gray-500 text-gray-300 text-xs rounded hover:bg-gray-800 disabled:opacity-50"
+                      >
+                        [CANCEL]
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
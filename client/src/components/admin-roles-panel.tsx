@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type AdminRole = 'viewer' | 'config-editor' | 'treasury-operator' | 'super-admin';
+
+interface AdminRoleGrant {
+  id: number;
+  walletAddress: string;
+  role: AdminRole;
+  label: string | null;
+  grantedBy: string;
+  grantedAt: string;
+  revokedBy: string | null;
+  revokedAt: string | null;
+}
+
+interface RolesResponse {
+  roles: AdminRoleGrant[];
+  rolePermissions: Record<AdminRole, string[]>;
+}
+
+interface AdminSessionInfo {
+  walletAddress: string;
+  role: AdminRole;
+  permissions: string[];
+}
+
+const ROLE_OPTIONS: AdminRole[] = ['viewer', 'config-editor', 'treasury-operator', 'super-admin'];
+
+export function AdminRolesPanel() {
+  const { toast } = useToast();
+  const [includeRevoked, setIncludeRevoked] = useState(false);
+  const [walletAddress, setWalletAddress] = useState('');
+  const [role, setRole] = useState<AdminRole>('viewer');
+  const [label, setLabel] = useState('');
+  const rolesUrl = `/api/admin/roles?includeRevoked=${includeRevoked}`;
+
+  const { data, isLoading } = useQuery<RolesResponse>({
+    queryKey: [rolesUrl],
+  });
+  const { data: session } = useQuery<AdminSessionInfo>({
+    queryKey: ['/api/admin/session'],
+  });
+  const canManage = !!session?.permissions.includes('roles:manage');
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: [rolesUrl] });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/admin/audit-log') });
+  };
+
+  const grantMutation = useMutation({
+    mutationFn: () => apiRequest('/api/admin/roles', {
+      method: 'POST',
+      data: { walletAddress: walletAddress.trim(), role, label }
+    }),
+    onSuccess: () => {
+      toast({
+        title: "[ROLE_GRANTED]",
+        description: `${walletAddress.trim()} is now ${role}`,
+        className: "bg-green-900/90 border-green-400 text-green-100",
+      });
+      setWalletAddress('');
+      setLabel('');
+    },
+    onError: (error) => {
+      toast({
+        title: "[ROLE_GRANT_FAILED]",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (address: string) => apiRequest(`/api/admin/roles/${address}`, { method: 'DELETE' }),
+    onError: (error) => {
+      toast({
+        title: "[ROLE_REVOKE_FAILED]",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-black/50 border border-green-400 rounded p-6">
+        <h2 className="text-lg font-bold text-[#ff0066] mb-4 tracking-wider">
+          [GRANT_ADMIN_ROLE]
+        </h2>
+
+        {!canManage && (
+          <div className="mb-4 text-yellow-400 font-mono text-xs">
+            [READ_ONLY] Your role ({session?.role ?? '-'}) cannot manage admin roles
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 font-mono text-sm">
+          <input
+            value={walletAddress}
+            onChange={(e) => setWalletAddress(e.target.value)}
+            placeholder="0x..."
+            disabled={!canManage}
+            className="md:col-span-2 bg-gray-900 border border-green-400/50 rounded px-3 py-2 text-green-400"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as AdminRole)}
+            disabled={!canManage}
+            className="bg-gray-900 border border-green-400/50 rounded px-3 py-2 text-green-400"
+          >
+            {ROLE_OPTIONS.map(option => (
+              <option key={option} value={option}>{option.toUpperCase()}</option>
+            ))}
+          </select>
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Name / note"
+            disabled={!canManage}
+            className="bg-gray-900 border border-green-400/50 rounded px-3 py-2 text-green-400"
+          />
+        </div>
+
+        {data && (
+          <div className="mt-3 text-green-400/60 font-mono text-xs">
+            PERMISSIONS: {data.rolePermissions[role]?.join(', ')}
+          </div>
+        )}
+
+        <button
+          onClick={() => grantMutation.mutate()}
+          disabled={!canManage || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress.trim()) || grantMutation.isPending}
+          className="mt-4 px-6 py-3 bg-green-400 text-black font-mono font-bold rounded hover:bg-green-300 transition-colors disabled:opacity-50"
+        >
+          {grantMutation.isPending ? '[GRANTING...]' : '[GRANT_ROLE]'}
+        </button>
+      </div>
+
+      <div className="bg-black/50 border border-green-400 rounded p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-bold text-[#ff0066] tracking-wider">
+            [ADMIN_ROLES]
+          </h2>
+          <label className="flex items-center gap-2 text-green-400 font-mono text-sm">
+            <input
+              type="checkbox"
+              checked={includeRevoked}
+              onChange={(e) => setIncludeRevoked(e.target.checked)}
+            />
+            SHOW_REVOKED
+          </label>
+        </div>
+
+        {isLoading || !data ? (
+          <div className="text-green-400 font-mono text-sm">Loading admin roles...</div>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {data.roles.map(grant => (
+              <div
+                key={grant.id}
+                className={`border rounded p-3 bg-gray-900/50 flex justify-between items-center font-mono text-sm ${grant.revokedAt ? 'border-gray-600 opacity-60' : 'border-green-400/30'}`}
+              >
+                <div>
+                  <div className="text-green-400">
+                    {grant.walletAddress}
+                    {grant.label && <span className="text-green-400/50"> ({grant.label})</span>}
+                    {grant.walletAddress === session?.walletAddress && <span className="text-[#ff0066]"> [YOU]</span>}
+                  </div>
+                  <div className="text-green-400/50 text-xs mt-1">
+                    {grant.revokedAt
+                      ? `REVOKED ${new Date(grant.revokedAt).toLocaleString()} BY ${grant.revokedBy}`
+                      : `GRANTED ${new Date(grant.grantedAt).toLocaleString()} BY ${grant.grantedBy}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="px-2 py-1 border border-[#ff0066]/60 text-[#ff0066] text-xs rounded">
+                    {grant.role.toUpperCase()}
+                  </span>
+                  {canManage && !grant.revokedAt && (
+                    <button
+                      onClick={() => revokeMutation.mutate(grant.walletAddress)}
+                      disabled={revokeMutation.isPending}
+                      className="px-3 py-1 bg-red-600 text-white text-xs rounded hover:bg-red-500 transition-colors disabled:opacity-50"
+                    >
+                      [REVOKE]
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+
+interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface AuditLogEntry {
+  id: number;
+  timestamp: string;
+  operationType: string;
+  performedBy: string | null;
+  reason: string | null;
+  amount: string | null;
+  transactionHash: string | null;
+  success: boolean;
+  errorMessage: string | null;
+  before: unknown;
+  after: unknown;
+  changes: AuditFieldChange[];
+}
+
+interface AuditLogResponse {
+  entries: AuditLogEntry[];
+  total: number;
+  facets: { operationTypes: string[]; operators: string[] };
+}
+
+interface AuditFilters {
+  operator: string;
+  operationType: string;
+  from: string;
+  to: string;
+  success: '' | 'true' | 'false';
+}
+
+const PAGE_SIZE = 50;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '∅';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function buildQuery(filters: AuditFilters, extra: Record<string, string> = {}): string {
+  const params = new URLSearchParams();
+  if (filters.operator) params.set('operator', filters.operator);
+  if (filters.operationType) params.set('operationType', filters.operationType);
+  // Date inputs are local days - send the whole day
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (filters.success) params.set('success', filters.success);
+  for (const [key, value] of Object.entries(extra)) params.set(key, value);
+  return params.toString();
+}
+
+/**
+ * Filterable admin audit log with before/after diffs and CSV/JSON export
+ */
+export function AuditLogPanel() {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<AuditFilters>({ operator: '', operationType: '', from: '', to: '', success: '' });
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const url = `/api/admin/audit-log?${buildQuery(filters, { limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) })}`;
+  const { data, isLoading } = useQuery<AuditLogResponse>({
+    queryKey: [url],
+    refetchInterval: 30000,
+  });
+
+  const updateFilter = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) => {
+    setFilters(current => ({ ...current, [key]: value }));
+    setPage(0);
+  };
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    setExporting(true);
+    try {
+      const response = await fetch(`/api/admin/audit-log/export?${buildQuery(filters, { format })}`, {
+        headers: { Authorization: `Bearer ${localStorage.getItem('admin_token')}` },
+        credentials: 'include'
+      });
+      if (!response.ok) throw new Error(`${response.status}: ${await response.text()}`);
+
+      const blob = await response.blob();
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `admin-audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      toast({
+        title: "[EXPORT_FAILED]",
+        description: error instanceof Error ? error.message : 'Export failed',
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+  const inputClass = "bg-gray-900 border border-green-400/50 rounded px-3 py-2 text-green-400 font-mono text-sm";
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-black/50 border border-green-400 rounded p-6">
+        <h2 className="text-lg font-bold text-[#ff0066] mb-4 tracking-wider">
+          [AUDIT_LOG_FILTERS]
+        </h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <select value={filters.operator} onChange={(e) => updateFilter('operator', e.target.value)} className={inputClass}>
+            <option value="">ALL_OPERATORS</option>
+            {data?.facets.operators.map(operator => (
+              <option key={operator} value={operator}>{operator}</option>
+            ))}
+          </select>
+          <select value={filters.operationType} onChange={(e) => updateFilter('operationType', e.target.value)} className={inputClass}>
+            <option value="">ALL_OPERATIONS</option>
+            {data?.facets.operationTypes.map(type => (
+              <option key={type} value={type}>{type.toUpperCase()}</option>
+            ))}
+          </select>
+          <input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} className={inputClass} />
+          <input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} className={inputClass} />
+          <select value={filters.success} onChange={(e) => updateFilter('success', e.target.value as AuditFilters['success'])} className={inputClass}>
+            <option value="">ALL_RESULTS</option>
+            <option value="true">SUCCESS</option>
+            <option value="false">FAILED</option>
+          </select>
+        </div>
+
+        <div className="flex items-center gap-4 mt-4">
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={exporting}
+            className="px-4 py-2 bg-green-400 text-black font-mono font-bold text-sm rounded hover:bg-green-300 transition-colors disabled:opacity-50"
+          >
+            [EXPORT_CSV]
+          </button>
+          <button
+            onClick={() => handleExport('json')}
+            disabled={exporting}
+            className="px-4 py-2 bg-green-400 text-black font-mono font-bold text-sm rounded hover:bg-green-300 transition-colors disabled:opacity-50"
+          >
+            [EXPORT_JSON]
+          </button>
+          <div className="text-green-400/60 font-mono text-xs">
+            {data ? `${data.total} MATCHING_ENTRIES` : ''}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-black/50 border border-green-400 rounded p-6">
+        <h2 className="text-lg font-bold text-[#ff0066] mb-4 tracking-wider">
+          [SYSTEM_OPERATIONS_HISTORY]
+        </h2>
+
+        {isLoading || !data ? (
+          <div className="text-green-400 font-mono text-sm">Loading audit log...</div>
+        ) : data.entries.length === 0 ? (
+          <div className="text-green-400/50 font-mono text-sm">[NO_OPERATIONS_LOGGED]</div>
+        ) : (
+          <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+            {data.entries.map(entry => (
+              <div
+                key={entry.id}
+                className={`border rounded p-3 bg-gray-900/50 ${entry.success ? 'border-green-400/30' : 'border-red-400/60'}`}
+              >
+                <div
+                  className="flex justify-between items-start text-sm font-mono cursor-pointer"
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                >
+                  <div className={entry.success ? 'text-green-400' : 'text-red-400'}>
+                    [{entry.operationType.toUpperCase()}]
+                    {entry.changes.length > 0 && (
+                      <span className="text-cyan-400 text-xs ml-2">{entry.changes.length} FIELD(S) CHANGED</span>
+                    )}
+                  </div>
+                  <div className="text-green-400/50">{new Date(entry.timestamp).toLocaleString()}</div>
+                </div>
+                {entry.reason && (
+                  <div className="text-green-400/70 font-mono text-xs mt-1">{entry.reason}</div>
+                )}
+                <div className="text-green-400/40 font-mono text-xs mt-1">
+                  BY {entry.performedBy ?? 'unknown'}
+                  {entry.transactionHash && ` · TX ${entry.transactionHash.slice(0, 10)}...`}
+                  {entry.errorMessage && <span className="text-red-400"> · {entry.errorMessage}</span>}
+                </div>
+
+                {expandedId === entry.id && entry.changes.length > 0 && (
+                  <table className="w-full mt-3 font-mono text-xs">
+                    <thead>
+                      <tr className="text-green-400/60 text-left">
+                        <th className="py-1 pr-4">FIELD</th>
+                        <th className="py-1 pr-4">BEFORE</th>
+                        <th className="py-1">AFTER</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {entry.changes.map(change => (
+                        <tr key={change.field} className="border-t border-green-400/10">
+                          <td className="py-1 pr-4 text-green-400">{change.field}</td>
+                          <td className="py-1 pr-4 text-red-400 line-through break-all">{formatValue(change.before)}</td>
+                          <td className="py-1 text-green-300 break-all">{formatValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {data && totalPages > 1 && (
+          <div className="flex items-center justify-center gap-4 mt-4 font-mono text-sm text-green-400">
+            <button onClick={() => setPage(p => Math.max(0, p - 1))} disabled={page === 0} className="disabled:opacity-30">[PREV]</button>
+            <span>{page + 1} / {totalPages}</span>
+            <button onClick={() => setPage(p => Math.min(totalPages - 1, p + 1))} disabled={page >= totalPages - 1} className="disabled:opacity-30">[NEXT]</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiErrorMessage } from "@/lib/queryClient";
 
 interface BlockchainConfig {
   id: number;
@@ -37,13 +38,16 @@ export function BlockchainConfigPanel() {
     }) => {
       const response = await fetch('/api/admin/blockchain-config', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('admin_token')}`
+        },
         body: JSON.stringify({ configKey, configValue, description, category })
       });
       
       if (!response.ok) {
         const errorData = await response.json();
-        console.warn('Configuration update failed:', errorData.error || 'Failed to update configuration');
+        console.warn('Configuration update failed:', apiErrorMessage(errorData, 'Failed to update configuration'));
         return;
       }
       
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface ReconciliationIssue {
+  id: number;
+  userAddress: string;
+  userId: number | null;
+  issueType: string;
+  severity: 'warning' | 'critical';
+  expectedAmount: string | null;
+  actualAmount: string | null;
+  details: string;
+  detectedAt: string;
+  lastSeenAt: string;
+  resolvedAt: string | null;
+}
+
+interface ReconciliationReport {
+  lastRun: {
+    startedAt: string;
+    eventsIndexed: number;
+    claimsWrittenBack: number;
+    openIssues: number;
+    error?: string;
+  } | null;
+  checkpoint: { lastBlock: number; contractAddress: string; updatedAt: string } | null;
+  indexedClaims: number;
+  indexedAmount: number;
+  issues: ReconciliationIssue[];
+}
+
+export function ClaimReconciliationPanel() {
+  const [includeResolved, setIncludeResolved] = useState(false);
+  const reportUrl = `/api/admin/claims/reconciliation?includeResolved=${includeResolved}`;
+
+  const { data: report, isLoading } = useQuery<ReconciliationReport>({
+    queryKey: [reportUrl],
+    refetchInterval: 60000,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: () => apiRequest('/api/admin/claims/reconciliation/run', { method: 'POST' }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [reportUrl] });
+    }
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-black/50 border border-green-400 rounded p-6">
+        <h2 className="text-lg font-bold text-[#ff0066] mb-4 tracking-wider">
+          [CLAIM_RECONCILIATION]
+        </h2>
+
+        {isLoading || !report ? (
+          <div className="text-green-400 font-mono text-sm">Loading reconciliation report...</div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 font-mono text-sm">
+            <div className="border border-green-400/30 rounded p-3 bg-gray-900/50">
+              <div className="text-gray-400 text-xs">INDEXED_CLAIMS</div>
+              <div className="text-green-400">{report.indexedClaims}</div>
+            </div>
+            <div className="border border-green-400/30 rounded p-3 bg-gray-900/50">
+              <div className="text-gray-400 text-xs">INDEXED_AMOUNT</div>
+              <div className="text-green-400">{report.indexedAmount.toLocaleString(undefined, { maximumFractionDigits: 2 })} KILT</div>
+            </div>
+            <div className="border border-green-400/30 rounded p-3 bg-gray-900/50">
+              <div className="text-gray-400 text-xs">LAST_INDEXED_BLOCK</div>
+              <div className="text-green-400">{report.checkpoint?.lastBlock ?? '-'}</div>
+            </div>
+            <div className="border border-green-400/30 rounded p-3 bg-gray-900/50">
+              <div className="text-gray-400 text-xs">LAST_RUN</div>
+              <div className={report.lastRun?.error ? 'text-red-400' : 'text-green-400'}>
+                {report.lastRun ? new Date(report.lastRun.startedAt).toLocaleString() : '-'}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {report?.lastRun?.error && (
+          <div className="mt-4 text-red-400 font-mono text-xs">[LAST_RUN_FAILED] {report.lastRun.error}</div>
+        )}
+
+        <div className="flex items-center gap-4 mt-6">
+          <button
+            onClick={() => runMutation.mutate()}
+            disabled={runMutation.isPending}
+            className="px-6 py-3 bg-green-400 text-black font-mono font-bold rounded hover:bg-green-300 transition-colors disabled:opacity-50"
+          >
+            {runMutation.isPending ? '[RECONCILING...]' : '[RUN_RECONCILIATION]'}
+          </button>
+          <label className="flex items-center gap-2 text-green-400 font-mono text-sm">
+            <input
+              type="checkbox"
+              checked={includeResolved}
+              onChange={(e) => setIncludeResolved(e.target.checked)}
+            />
+            SHOW_RESOLVED
+          </label>
+        </div>
+      </div>
+
+      <div className="bg-black/50 border border-green-400 rounded p-6">
+        <h2 className="text-lg font-bold text-[#ff0066] mb-4 tracking-wider">
+          [MISMATCH_REPORT]
+        </h2>
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {!report || report.issues.length === 0 ? (
+            <div className="text-green-400/50 font-mono text-sm">[NO_MISMATCHES]</div>
+          ) : (
+            report.issues.map(issue => (
+              <div
+                key={issue.id}
+                className={`border rounded p-3 bg-gray-900/50 ${issue.severity === 'critical' ? 'border-red-400/60' : 'border-yellow-400/40'}`}
+              >
+                <div className="flex justify-between items-start text-sm font-mono">
+                  <div className={issue.severity === 'critical' ? 'text-red-400' : 'text-yellow-400'}>
+                    [{issue.issueType.toUpperCase()}] {issue.userAddress.slice(0, 6)}...{issue.userAddress.slice(-4)}
+                  </div>
+                  <div className="text-green-400/50">
+                    {issue.resolvedAt ? `RESOLVED ${new Date(issue.resolvedAt).toLocaleString()}` : new Date(issue.lastSeenAt).toLocaleString()}
+                  </div>
+                </div>
+                <div className="text-green-400/70 font-mono text-xs mt-1">{issue.details}</div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
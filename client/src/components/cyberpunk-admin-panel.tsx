@@ -3,6 +3,13 @@ import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { BlockchainConfigPanel } from "./blockchain-config-panel";
 import { SmartContractPanel } from "./smart-contract-panel";
+import { RewardSimulationPanel } from "./reward-simulation-panel";
+import { ClaimReconciliationPanel } from "./claim-reconciliation-panel";
+import { AdminRolesPanel } from "./admin-roles-panel";
+import { AdminApiKeysPanel } from "./admin-api-keys-panel";
+import { AdminProposalsPanel } from "./admin-proposals-panel";
+import { AdminProgramsPanel } from "./admin-programs-panel";
+import { AuditLogPanel } from "./audit-log-panel";
 import { useToast } from "@/hooks/use-toast";
 import { Toaster } from "@/components/ui/toaster";
 
@@ -17,16 +24,25 @@ interface TreasuryConfig {
   dailyRewardsCap?: number;
 }
 
+// Returned with 202 when the change was submitted for M-of-N approval
+interface ConfigChangeResponse {
+  pendingApproval?: boolean;
+  message?: string;
+}
+
 interface ProgramSettings {
   timeBoostCoefficient: number;
   fullRangeBonus: number;
   minimumPositionValue: number;
   lockPeriod: number;
+  // Versioning (optional - omitted effectiveFrom applies from now)
+  effectiveFrom?: string;
+  versionId?: number;
 }
 
 export function CyberpunkAdminPanel() {
   const { toast } = useToast();
-  const [activeTab, setActiveTab] = useState<'treasury' | 'settings' | 'blockchain' | 'contract' | 'operations'>('treasury');
+  const [activeTab, setActiveTab] = useState<'treasury' | 'programs' | 'settings' | 'simulate' | 'blockchain' | 'contract' | 'reconciliation' | 'roles' | 'apiKeys' | 'operations'>('treasury');
   const [treasuryConfig, setTreasuryConfig] = useState<TreasuryConfig>({
     totalAllocation: 0,
     programDurationDays: 0,
@@ -66,22 +82,28 @@ export function CyberpunkAdminPanel() {
   // Save Treasury Configuration
   const treasuryMutation = useMutation({
     mutationFn: (config: TreasuryConfig) => {
-      // Get the admin wallet address for logging
-      const adminWallet = localStorage.getItem('admin_wallet') || 'Unknown Admin';
-      
-      // Include auto-calculated values and wallet address in the request
+      // Include auto-calculated values in the request - the server logs the session wallet
       const configWithCalculations = {
         ...config,
-        ...derivedValues,
-        adminWallet
+        ...derivedValues
       };
       
-      return apiRequest('/api/admin/treasury/config', {
+      return apiRequest<ConfigChangeResponse>('/api/admin/treasury/config', {
         method: 'POST',
         data: configWithCalculations
       });
     },
     onSuccess: (data) => {
+      if (data.pendingApproval) {
+        queryClient.invalidateQueries({ queryKey: ['/api/admin/proposals?changeType=treasury_config'] });
+        toast({
+          title: "[TREASURY_PROPOSAL_SUBMITTED]",
+          description: data.message,
+          className: "bg-green-900/90 border-green-400 text-green-100",
+        });
+        return;
+      }
+
       // Invalidate ALL queries that depend on treasury configuration for blazing fast updates
       queryClient.invalidateQueries({ queryKey: ['/api/admin/treasury/config'] });
       queryClient.invalidateQueries({ queryKey: ['maxAPR'] });
@@ -116,18 +138,22 @@ export function CyberpunkAdminPanel() {
   // Save Program Settings
   const settingsMutation = useMutation({
     mutationFn: (settings: ProgramSettings) => {
-      // Get the admin wallet address for logging
-      const adminWallet = localStorage.getItem('admin_wallet') || 'Unknown Admin';
-      
-      return apiRequest('/api/admin/program/settings', {
+      return apiRequest<ConfigChangeResponse>('/api/admin/program/settings', {
         method: 'POST',
-        data: {
-          ...settings,
-          adminWallet
-        }
+        data: settings
       });
     },
     onSuccess: (data) => {
+      if (data.pendingApproval) {
+        queryClient.invalidateQueries({ queryKey: ['/api/admin/proposals?changeType=program_settings'] });
+        toast({
+          title: "[SETTINGS_PROPOSAL_SUBMITTED]",
+          description: data.message,
+          className: "bg-green-900/90 border-green-400 text-green-100",
+        });
+        return;
+      }
+
       // Invalidate ALL queries that depend on program settings for blazing fast updates
       queryClient.invalidateQueries({ queryKey: ['/api/admin/program/settings'] });
       queryClient.invalidateQueries({ queryKey: ['maxAPR'] });
@@ -192,12 +218,6 @@ export function CyberpunkAdminPanel() {
     }
   }, [existingProgramSettings, settingsLoading]);
 
-  // Get Operations History
-  const { data: operations = [] } = useQuery<any[]>({
-    queryKey: ['/api/admin/operations'],
-    refetchInterval: 5000
-  });
-
   const handleSaveTreasury = () => {
 
     
@@ -219,7 +239,12 @@ export function CyberpunkAdminPanel() {
     settingsMutation.mutate(programSettings);
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      await apiRequest('/api/admin/logout', { method: 'POST' });
+    } catch {
+      // Session may already be expired - clear local state regardless
+    }
     localStorage.removeItem('admin_token');
     localStorage.removeItem('admin_wallet');
     window.location.reload();
@@ -270,9 +295,14 @@ export function CyberpunkAdminPanel() {
           <div className="flex">
             {[
               { id: 'treasury', label: 'TREASURY_CONFIG' },
+              { id: 'programs', label: 'INCENTIVE_PROGRAMS' },
               { id: 'settings', label: 'PROGRAM_PARAMS' },
+              { id: 'simulate', label: 'WHAT_IF_SIM' },
               { id: 'blockchain', label: 'BLOCKCHAIN_CONFIG' },
               { id: 'contract', label: 'SMART_CONTRACT' },
+              { id: 'reconciliation', label: 'CLAIM_RECON' },
+              { id: 'roles', label: 'ADMIN_ROLES' },
+              { id: 'apiKeys', label: 'API_KEYS' },
               { id: 'operations', label: 'OPERATIONS_LOG' }
             ].map((tab) => (
               <button
@@ -303,6 +333,8 @@ export function CyberpunkAdminPanel() {
           {/* Treasury Configuration */}
           {activeTab === 'treasury' && !treasuryLoading && (
             <div className="space-y-6">
+              <AdminProposalsPanel changeType="treasury_config" />
+
               <div className="bg-black/50 border border-green-400 rounded p-6">
                 <h2 className="text-lg font-bold text-[#ff0066] mb-4 tracking-wider">
                   [TREASURY_ALLOCATION_MATRIX]
@@ -405,6 +437,8 @@ export function CyberpunkAdminPanel() {
           {/* Program Settings */}
           {activeTab === 'settings' && !settingsLoading && (
             <div className="space-y-6">
+              <AdminProposalsPanel changeType="program_settings" />
+
               {/* Reward Formula Explanation */}
               <div className="bg-black/60 border border-[#ff0066] rounded p-6">
                 <h2 className="text-lg font-bold text-[#ff0066] mb-4 tracking-wider">
@@ -534,6 +568,26 @@ export function CyberpunkAdminPanel() {
                       Current: {programSettings.lockPeriod} days commitment before claiming
                     </div>
                   </div>
+
+                  {/* Effective From */}
+                  <div className="border border-green-400/30 rounded p-4 bg-gray-900/30">
+                    <label className="block text-green-400 text-sm mb-2 font-mono">EFFECTIVE_FROM (UTC):</label>
+                    <input
+                      type="datetime-local"
+                      value={programSettings.effectiveFrom ? programSettings.effectiveFrom.slice(0, 16) : ''}
+                      onChange={(e) => setProgramSettings({
+                        ...programSettings,
+                        effectiveFrom: e.target.value ? new Date(`${e.target.value}Z`).toISOString() : undefined
+                      })}
+                      className="w-full p-3 bg-gray-900 border border-green-400/50 rounded text-green-400 font-mono focus:border-green-400 focus:outline-none mb-2"
+                    />
+                    <div className="text-gray-400 text-xs font-mono">
+                      Settings are versioned. A saved change applies from this time onward (or immediately if in the past); days already accrued keep the settings they were computed with.
+                    </div>
+                    <div className="text-green-400 text-xs mt-1 font-mono">
+                      Current: version #{programSettings.versionId ?? '-'}
+                    </div>
+                  </div>
                 </div>
 
                 {/* Live Formula Preview */}
@@ -545,7 +599,7 @@ export function CyberpunkAdminPanel() {
                     R_u = (L_u/L_T) × (1 + ((D_u/{treasuryConfig.programDurationDays}) × {programSettings.timeBoostCoefficient})) × IRM × {programSettings.fullRangeBonus} × ({derivedValues.dailyRewardsCap}/day)
                   </div>
                   <div className="text-gray-400 text-xs mt-2 font-mono">
-                    This formula runs in real-time across the main application. Changes here immediately affect all reward calculations, APR displays, and user earnings.
+                    This formula runs in real-time across the main application. Changes apply to reward accrual from their effective time, plus all APR displays and previews.
                   </div>
                 </div>
 
@@ -591,12 +645,32 @@ export function CyberpunkAdminPanel() {
           )}
 
           {/* Blockchain Configuration */}
+          {/* What-if Simulation */}
+          {activeTab === 'simulate' && !treasuryLoading && !settingsLoading && (
+            <RewardSimulationPanel
+              initial={{
+                totalAllocation: treasuryConfig.totalAllocation,
+                programStartDate: treasuryConfig.programStartDate,
+                programDurationDays: treasuryConfig.programDurationDays,
+                timeBoostCoefficient: programSettings.timeBoostCoefficient,
+                fullRangeBonus: programSettings.fullRangeBonus,
+                minimumPositionValue: programSettings.minimumPositionValue,
+                lockPeriod: programSettings.lockPeriod
+              }}
+            />
+          )}
+
           {activeTab === 'blockchain' && (
             <div className="space-y-6">
               <BlockchainConfigPanel />
             </div>
           )}
 
+          {/* Incentive Programs */}
+          {activeTab === 'programs' && (
+            <AdminProgramsPanel />
+          )}
+
           {/* Smart Contract Management */}
           {activeTab === 'contract' && (
             <div className="space-y-6">
@@ -604,44 +678,24 @@ export function CyberpunkAdminPanel() {
             </div>
           )}
 
+          {/* Claim Reconciliation */}
+          {activeTab === 'reconciliation' && (
+            <ClaimReconciliationPanel />
+          )}
+
+          {/* Admin Roles */}
+          {activeTab === 'roles' && (
+            <AdminRolesPanel />
+          )}
+
+          {/* Public API Keys */}
+          {activeTab === 'apiKeys' && (
+            <AdminApiKeysPanel />
+          )}
+
           {/* Operations Log */}
           {activeTab === 'operations' && (
-            <div className="space-y-6">
-              <div className="bg-black/50 border border-green-400 rounded p-6">
-                <h2 className="text-lg font-bold text-[#ff0066] mb-4 tracking-wider">
-                  [SYSTEM_OPERATIONS_HISTORY]
-                </h2>
-                
-                <div className="space-y-2 max-h-96 overflow-y-auto">
-                  {(operations as any[]).length === 0 ? (
-                    <div className="text-green-400/50 font-mono text-sm">
-                      [NO_OPERATIONS_LOGGED]
-                    </div>
-                  ) : (
-                    (operations as any[]).map((op: any, index: number) => (
-                      <div
-                        key={index}
-                        className="border border-green-400/30 rounded p-3 bg-gray-900/50"
-                      >
-                        <div className="flex justify-between items-start text-sm">
-                          <div className="text-green-400 font-mono">
-                            [{op.action}]
-                          </div>
-                          <div className="text-green-400/50 font-mono">
-                            {new Date(op.timestamp).toLocaleString()}
-                          </div>
-                        </div>
-                        {op.details && (
-                          <div className="text-green-400/70 font-mono text-xs mt-1">
-                            {op.details}
-                          </div>
-                        )}
-                      </div>
-                    ))
-                  )}
-                </div>
-              </div>
-            </div>
+            <AuditLogPanel />
           )}
         </div>
       </div>
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { apiErrorMessage } from '@/lib/queryClient';
 
 export function EmergencyDebugButton() {
   const [result, setResult] = useState<any>(null);
@@ -23,7 +24,8 @@ export function EmergencyDebugButton() {
       const data = await response.json();
       console.log('🚨 EMERGENCY: Contract verification result:', data);
       
-      setResult(data);
+      // Failed checks come back in the error envelope's details
+      setResult(response.ok ? data : data.error?.details ?? { error: apiErrorMessage(data, 'Emergency check failed') });
     } catch (error) {
       console.error('🚨 EMERGENCY: Contract verification failed:', error);
       setResult({ error: (error as Error).message || 'Emergency check failed' });
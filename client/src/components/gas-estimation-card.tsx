@@ -12,12 +12,12 @@ interface GasEstimate {
   total: { gasLimit: string; gasPrice: string; cost: string };
 }
 
-export function GasEstimationCard() {
+export function GasEstimationCard({ programId }: { programId?: number } = {}) {
   const { isConnected, address } = useWagmiWallet();
   const [gasEstimate, setGasEstimate] = useState<GasEstimate | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [gasError, setGasError] = useState<string | null>(null);
-  const { data: expectedReturns, isLoading: dataLoading, error: aprError } = useExpectedReturns();
+  const { data: expectedReturns, isLoading: dataLoading, error: aprError } = useExpectedReturns(programId);
 
   // Memoize break-even calculation to prevent recalculation on each render
   const breakEvenDays = useMemo(() => {
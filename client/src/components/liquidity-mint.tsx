@@ -25,6 +25,7 @@ import { useWagmiWallet } from '@/hooks/use-wagmi-wallet';
 import { useKiltTokenData } from '@/hooks/use-kilt-data';
 import { useKiltEthConversionRate } from '@/hooks/use-conversion-rate';
 import { useAppSession } from '@/hooks/use-app-session';
+import { useIncentivePrograms, getTickSpacing, type IncentiveProgram } from '@/hooks/use-incentive-programs';
 import { TOKENS } from '@/lib/uniswap-v3';
 import { parseUnits } from 'viem';
 import { BASE_NETWORK_ID } from '@/lib/constants';
@@ -37,6 +38,12 @@ import { UniswapV3SDKService, KILT_TOKEN, WETH_TOKEN } from '@/lib/uniswap-v3-sd
 import { transactionValidator, type LiquidityParams } from '@/services/transaction-validator';
 import kiltLogo from '@assets/KILT_400x400_transparent_1751723574123.png';
 
+// This form pairs KILT with ETH/WETH, so only programs on a KILT/WETH pool can be picked here
+const isKiltEthProgram = (program: IncentiveProgram) =>
+  program.chainId === BASE_NETWORK_ID &&
+  [program.token0Address, program.token1Address].map(token => token.toLowerCase()).sort().join()
+    === [TOKENS.KILT, TOKENS.WETH].map(token => token.toLowerCase()).sort().join();
+
 // Ethereum logo component
 const EthereumLogo = ({ className = "w-5 h-5" }) => (
   <svg className={className} viewBox="0 0 256 417" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -76,6 +83,7 @@ export function LiquidityMint({
   const { data: conversionRate } = useKiltEthConversionRate();
   const { data: ethPriceData } = useEthPrice();
   const { sessionId, createAppSession, recordAppTransaction, isCreatingSession } = useAppSession();
+  const { data: programs } = useIncentivePrograms();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -89,8 +97,19 @@ export function LiquidityMint({
     }
   };
 
+  // Incentive program the position joins - defaults to the treasury-funded KILT/ETH program
+  const [selectedProgramId, setSelectedProgramId] = useState<number | null>(null);
+  const kiltEthPrograms = (programs || []).filter(isKiltEthProgram);
+  const selectedProgram = kiltEthPrograms.find(program => program.id === selectedProgramId)
+    || kiltEthPrograms.find(program => program.fundedByTreasury)
+    || kiltEthPrograms[0];
+  const poolAddress = selectedProgram?.poolAddress;
+  const feeTier = selectedProgram?.feeTier ?? 3000;
+  const tickSpacing = getTickSpacing(feeTier);
+  const fullRangeTick = Math.floor(887272 / tickSpacing) * tickSpacing;
+
   // Pool state
-  const poolExists = true; // Base assumption for KILT/ETH pool
+  const poolExists = !!selectedProgram;
 
   // Initialize Uniswap V3 SDK service
   const [uniswapSDK, setUniswapSDK] = useState<UniswapV3SDKService | null>(null);
@@ -121,15 +140,12 @@ export function LiquidityMint({
     return () => clearTimeout(timer);
   }, []);
 
-  // Initialize SDK when pool exists
+  // Initialize SDK for the selected program's pool
   useEffect(() => {
-    if (poolExists && !uniswapSDK) {
-      // Use a temporary pool address for testing - in production this would come from the pool detection
-      const poolAddress = '0x82Da478b1382B951cBaD01Beb9eD459cDB16458E';
-      const sdkService = new UniswapV3SDKService(poolAddress);
-      setUniswapSDK(sdkService);
+    if (poolAddress) {
+      setUniswapSDK(new UniswapV3SDKService(poolAddress));
     }
-  }, [poolExists, uniswapSDK]);
+  }, [poolAddress]);
 
   // Check if tokens are already approved (for users who have previously approved)
   useEffect(() => {
@@ -376,9 +392,9 @@ export function LiquidityMint({
         amount1Desired: parseUnits(kiltAmt, 18),
         amount0Min: (parseUnits(ethAmt, 18) * 95n) / 100n, // 5% slippage
         amount1Min: (parseUnits(kiltAmt, 18) * 95n) / 100n, // 5% slippage
-        tickLower: -887220,
-        tickUpper: 887220,
-        fee: 3000,
+        tickLower: -fullRangeTick,
+        tickUpper: fullRangeTick,
+        fee: feeTier,
         deadline: currentTime + 1200, // 20 minutes
         userAddress: address,
         isNativeETH: selectedEthToken === 'ETH'
@@ -402,7 +418,7 @@ export function LiquidityMint({
     } else {
       setValidationResult(null);
     }
-  }, [kiltAmount, ethAmount, selectedStrategy, address]);
+  }, [kiltAmount, ethAmount, selectedStrategy, address, feeTier]);
 
   // Debug validation results
   useEffect(() => {
@@ -449,7 +465,7 @@ export function LiquidityMint({
   };
 
   const handleMintPosition = async () => {
-    if (!address || !kiltAmount || !ethAmount) return;
+    if (!address || !kiltAmount || !ethAmount || !selectedProgram) return;
 
     try {
       // Enhanced validation before transaction
@@ -492,21 +508,17 @@ export function LiquidityMint({
       // Handle ETH wrapping automatically through position manager
 
       // Get pool info to determine token order
-      const poolInfo = await fetch('/api/pools/0x82Da478b1382B951cBaD01Beb9eD459cDB16458E/info').then(r => r.json());
+      const poolInfo = await fetch(`/api/pools/${selectedProgram.poolAddress}/info`).then(r => r.json());
       // Pool info retrieved
       
-      // Use appropriate token addresses based on selected token type
-      // For liquidity provision, we always use WETH address but send ETH value if needed
-      const ethTokenAddress = TOKENS.WETH;
-      
-      // KILT/ETH pool has specific token order: token0=WETH, token1=KILT
-      // Based on pool address 0x82Da478b1382B951cBaD01Beb9eD459cDB16458E
-      const token0 = TOKENS.WETH;  // WETH is token0
-      const token1 = TOKENS.KILT;  // KILT is token1
+      // Token order comes from the program's pool - we always use the WETH address but send ETH value if needed
+      const token0 = selectedProgram.token0Address;
+      const token1 = selectedProgram.token1Address;
+      const wethIsToken0 = token0.toLowerCase() === TOKENS.WETH.toLowerCase();
       
-      // Set amounts based on known token order
-      const amount0Desired = ethAmountParsed;  // WETH amount
-      const amount1Desired = kiltAmountParsed; // KILT amount
+      // Set amounts based on the pool's token order
+      const amount0Desired = wethIsToken0 ? ethAmountParsed : kiltAmountParsed;
+      const amount1Desired = wethIsToken0 ? kiltAmountParsed : ethAmountParsed;
       
       console.log('Token order and amounts:', {
         token0, token1,
@@ -520,9 +532,9 @@ export function LiquidityMint({
       let tickLower, tickUpper;
       
       if (selectedStrategy === 'full') {
-        // Full range ticks for 0.3% fee tier (tick spacing = 60)
-        tickLower = -887220;
-        tickUpper = 887220;
+        // Full range ticks for the program's fee tier
+        tickLower = -fullRangeTick;
+        tickUpper = fullRangeTick;
       } else {
         // Get current pool price from the pool info
         // The pool price is token1/token0 ratio
@@ -538,8 +550,8 @@ export function LiquidityMint({
         const strategy = getSelectedStrategy();
         
         if (strategy.range === Infinity) {
-          tickLower = -887220;
-          tickUpper = 887220;
+          tickLower = -fullRangeTick;
+          tickUpper = fullRangeTick;
         } else {
           // Calculate price range based on strategy
           const lowerPrice = currentPoolPrice * (1 - strategy.range);
@@ -550,9 +562,9 @@ export function LiquidityMint({
           const tickLowerRaw = Math.log(lowerPrice) / Math.log(1.0001);
           const tickUpperRaw = Math.log(upperPrice) / Math.log(1.0001);
           
-          // Ensure ticks are divisible by tick spacing (60 for 0.3% fee)
-          tickLower = Math.floor(tickLowerRaw / 60) * 60;
-          tickUpper = Math.ceil(tickUpperRaw / 60) * 60;
+          // Ensure ticks are divisible by the fee tier's tick spacing
+          tickLower = Math.floor(tickLowerRaw / tickSpacing) * tickSpacing;
+          tickUpper = Math.ceil(tickUpperRaw / tickSpacing) * tickSpacing;
           
           // Debug: Log the tick calculation
           console.log('Tick calculation:', {
@@ -581,7 +593,7 @@ export function LiquidityMint({
       const mintParams = {
         token0: token0 as `0x${string}`,
         token1: token1 as `0x${string}`,
-        fee: 3000,
+        fee: feeTier,
         tickLower,
         tickUpper,
         amount0Desired,
@@ -669,14 +681,15 @@ export function LiquidityMint({
             body: JSON.stringify({
               userId: user.id,
               nftTokenId,
-              poolAddress: '0x0389879e0156033202C44BF784ac18FC02edeE4f',
+              chainId: selectedProgram.chainId,
+              poolAddress: selectedProgram.poolAddress,
               token0Address: token0,
               token1Address: token1,
               token0Amount: mintParams.amount0Desired.toString(),
               token1Amount: mintParams.amount1Desired.toString(),
               tickLower,
               tickUpper,
-              feeTier: 3000,
+              feeTier,
               liquidity: '0', // Will be updated by position sync
               currentValueUSD: parseFloat(kiltAmount) * 0.018 + parseFloat(ethAmount) * 2500, // Rough estimate
               userAddress: address,
@@ -752,8 +765,26 @@ export function LiquidityMint({
       <div className="text-center space-y-2">
         <div className="flex items-center justify-center gap-2">
           <Plus className="h-4 w-4 text-[#ff0066]" />
-          <h2 className="text-white font-heading text-lg">Add Liquidity to KILT/ETH Pool</h2>
+          <h2 className="text-white font-heading text-lg">Add Liquidity to {selectedProgram?.name ?? 'KILT/ETH'} Pool</h2>
         </div>
+
+        {kiltEthPrograms.length > 1 && (
+          <div className="flex items-center justify-center gap-2">
+            <Label htmlFor="incentive-program" className="text-white/70 text-xs">Incentive program</Label>
+            <select
+              id="incentive-program"
+              value={selectedProgram?.id ?? ''}
+              onChange={(e) => setSelectedProgramId(Number(e.target.value))}
+              className="bg-black/40 border border-gray-800 rounded-lg px-2 py-1 text-xs text-white"
+            >
+              {kiltEthPrograms.map(program => (
+                <option key={program.id} value={program.id}>
+                  {program.name} · {program.feeTier / 10000}% · {Math.round(program.dailyBudget).toLocaleString()} {program.rewardTokenSymbol}/day
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
         
         <div className="flex items-center justify-center gap-2 flex-wrap">
           <div className="bg-[#ff0066]/20 border border-[#ff0066]/50 text-xs rounded-lg px-2 py-1 text-[#ffffff]">
@@ -761,7 +792,7 @@ export function LiquidityMint({
             Minimum position value: $10 (anti-spam protection)
           </div>
           <Badge className="inline-flex items-center rounded-full font-bold transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 backdrop-blur-[12px] from-pink-500 to-pink-600 shadow-soft-modern hover:from-pink-400 hover:to-pink-500 hover:shadow-medium-modern bg-[#ff0066]/20 border border-[#ff0066]/50 px-2 py-0.5 text-xs text-[#e6e8ec]">
-            0.3% Fee Tier
+            {feeTier / 10000}% Fee Tier
           </Badge>
           <Badge className="inline-flex items-center rounded-full font-bold transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 backdrop-blur-[12px] from-pink-500 to-pink-600 shadow-soft-modern hover:from-pink-400 hover:to-pink-500 hover:shadow-medium-modern bg-[#ff0066]/20 border border-[#ff0066]/50 px-2 py-0.5 text-xs text-[#e6e8ec]">
             {poolExists ? 'Pool Active' : 'Pool Not Found'}
@@ -1082,7 +1113,7 @@ export function LiquidityMint({
         </Card>
 
         {/* Gas Estimation */}
-        <GasEstimationCard />
+        <GasEstimationCard programId={selectedProgram?.id} />
       </div>
       {/* Compact Actions */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
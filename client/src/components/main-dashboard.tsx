@@ -27,6 +27,7 @@ import { lazy, Suspense, useMemo } from 'react';
 import { useWagmiWallet } from '@/hooks/use-wagmi-wallet';
 import { useKiltTokenData } from '@/hooks/use-kilt-data';
 import { useUniswapV3 } from '@/hooks/use-uniswap-v3';
+import { useIncentivePrograms, getTickSpacing } from '@/hooks/use-incentive-programs';
 import { useUnifiedDashboard } from '@/hooks/use-unified-dashboard';
 // Removed use-optimized-queries - cleaned up during optimization
 // Removed blazing fast hooks - cleaned up during optimization
@@ -50,6 +51,7 @@ import { LoadingScreen } from './loading-screen';
 const LiquidityMint = lazy(() => import('./liquidity-mint').then(m => ({ default: m.LiquidityMint })));
 const RewardsTracking = lazy(() => import('./rewards-tracking').then(m => ({ default: m.RewardsTracking })));
 const UserPositions = lazy(() => import('./user-positions').then(m => ({ default: m.UserPositions })));
+const NotificationSettings = lazy(() => import('./notification-settings').then(m => ({ default: m.NotificationSettings })));
 
 
 // Removed tab loading spinner - using built-in loading states
@@ -146,6 +148,7 @@ export function MainDashboard() {
   
   // Uniswap V3 hooks for liquidity provision
   const { mintPosition, isMinting } = useUniswapV3();
+  const { data: programs } = useIncentivePrograms();
   
   // Chart modal state
   const [showChartModal, setShowChartModal] = useState(false);
@@ -323,21 +326,28 @@ export function MainDashboard() {
         description: "Processing transaction...",
       });
       
+      // Quick Add always joins the treasury-funded KILT/ETH program
+      const program = programs?.find(candidate => candidate.fundedByTreasury);
+      const feeTier = program?.feeTier ?? 3000;
+      const tickSpacing = getTickSpacing(feeTier);
+      const fullRangeTick = Math.floor(887272 / tickSpacing) * tickSpacing;
+
       // Create the position using mintPosition from useUniswapV3
       console.log('🏗️ Creating liquidity position...');
       const txHash = await mintPosition({
         token0: WETH_TOKEN as `0x${string}`,
         token1: KILT_TOKEN as `0x${string}`,
-        fee: 3000, // 0.3%
-        tickLower: -887220, // Full range
-        tickUpper: 887220,  // Full range
+        fee: feeTier,
+        tickLower: -fullRangeTick, // Full range
+        tickUpper: fullRangeTick,  // Full range
         amount0Desired,
         amount1Desired,
         amount0Min: (amount0Desired * 95n) / 100n, // 5% slippage
         amount1Min: (amount1Desired * 95n) / 100n, // 5% slippage
         recipient: address as `0x${string}`,
         deadline: Math.floor(Date.now() / 1000) + 1200, // 20 minutes
-        useNativeETH: true
+        useNativeETH: true,
+        poolAddress: program?.poolAddress
       });
       
       console.log('✅ Position created! Hash:', txHash);
@@ -1070,6 +1080,7 @@ export function MainDashboard() {
           <TabsContent value="positions">
             <Suspense fallback={<OptimizedLoadingFallback height="400px" />}>
               <UserPositions />
+              <NotificationSettings />
             </Suspense>
           </TabsContent>
           
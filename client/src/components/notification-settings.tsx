@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useSignMessage } from 'wagmi';
+import { Bell, Loader2, Send, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useWagmiWallet } from '@/hooks/use-wagmi-wallet';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import {
+  NOTIFICATION_CHANNEL_TYPES,
+  NOTIFICATION_EVENT_LABELS,
+  NOTIFICATION_EVENT_TYPES,
+  buildNotificationSettingsMessage,
+  type NotificationChannelType,
+  type NotificationEventType,
+  type NotificationSettingsAction
+} from '@shared/notifications';
+
+interface NotificationSubscription {
+  id: number;
+  channel: NotificationChannelType;
+  target: string; // Masked by the server
+  eventTypes: NotificationEventType[];
+  isActive: boolean;
+  lastDeliveredAt: string | null;
+}
+
+const CHANNEL_LABELS: Record<NotificationChannelType, { label: string; placeholder: string }> = {
+  email: { label: 'Email', placeholder: 'you@example.com' },
+  telegram: { label: 'Telegram', placeholder: 'Chat ID from the bot /start reply' },
+  webhook: { label: 'Webhook', placeholder: 'https://example.com/kilt-hook' }
+};
+
+const DEFAULT_EVENTS: NotificationEventType[] = ['out_of_range', 'rewards_claimable', 'position_burned', 'position_transferred'];
+
+/**
+ * Per-wallet notification destinations. Every change is signed by the connected wallet.
+ */
+export function NotificationSettings() {
+  const { address } = useWagmiWallet();
+  const { toast } = useToast();
+  const { signMessageAsync } = useSignMessage();
+  const [channel, setChannel] = useState<NotificationChannelType>('email');
+  const [target, setTarget] = useState('');
+  const [eventTypes, setEventTypes] = useState<NotificationEventType[]>(DEFAULT_EVENTS);
+  const [webhookSecret, setWebhookSecret] = useState<string | null>(null);
+
+  const subscriptionsUrl = `/api/notifications/${address}/subscriptions`;
+  const { data: subscriptions = [], isLoading } = useQuery<NotificationSubscription[]>({
+    queryKey: [subscriptionsUrl],
+    enabled: !!address
+  });
+
+  // Sign the settings message for an action and return the fields every change request carries
+  const sign = async (action: NotificationSettingsAction) => {
+    if (!address) throw new Error('Connect your wallet first');
+    const issuedAt = new Date().toISOString();
+    const signature = await signMessageAsync({ message: buildNotificationSettingsMessage(address, action, issuedAt) });
+    return { walletAddress: address, issuedAt, signature };
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const subscribeMutation = useMutation({
+    mutationFn: async () => {
+      const trimmed = target.trim();
+      const signed = await sign({ type: 'subscribe', channel, target: trimmed, eventTypes });
+      return apiRequest<{ success: boolean; secret?: string }>('/api/notifications/subscriptions', {
+        method: 'POST',
+        data: { ...signed, channel, target: trimmed, eventTypes }
+      });
+    },
+    onSuccess: (result) => {
+      setTarget('');
+      setWebhookSecret(result.secret ?? null);
+      toast({ title: "Notifications enabled", description: `${CHANNEL_LABELS[channel].label} alerts are set up` });
+    },
+    onError: onError("Subscription failed"),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: [subscriptionsUrl] })
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (subscription: NotificationSubscription) => {
+      const signed = await sign({ type: 'update', subscriptionId: subscription.id, isActive: !subscription.isActive });
+      return apiRequest(`/api/notifications/subscriptions/${subscription.id}`, {
+        method: 'PATCH',
+        data: { ...signed, isActive: !subscription.isActive }
+      });
+    },
+    onError: onError("Update failed"),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: [subscriptionsUrl] })
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (subscription: NotificationSubscription) => {
+      const signed = await sign({ type: 'unsubscribe', subscriptionId: subscription.id });
+      return apiRequest(`/api/notifications/subscriptions/${subscription.id}`, { method: 'DELETE', data: signed });
+    },
+    onError: onError("Remove failed"),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: [subscriptionsUrl] })
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (subscription: NotificationSubscription) => {
+      const signed = await sign({ type: 'test', subscriptionId: subscription.id });
+      return apiRequest(`/api/notifications/subscriptions/${subscription.id}/test`, { method: 'POST', data: signed });
+    },
+    onSuccess: () => toast({ title: "Test notification sent" }),
+    onError: onError("Test notification failed"),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: [subscriptionsUrl] })
+  });
+
+  const toggleEvent = (eventType: NotificationEventType) => {
+    setEventTypes(current => current.includes(eventType)
+      ? current.filter(type => type !== eventType)
+      : [...current, eventType]);
+  };
+
+  if (!address) return null;
+
+  return (
+    <Card className="bg-gray-900/50 border-gray-800 mt-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium text-gray-300 flex items-center gap-2">
+          <Bell className="w-4 h-4" />
+          Notifications
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          {NOTIFICATION_CHANNEL_TYPES.map(type => (
+            <Button
+              key={type}
+              onClick={() => setChannel(type)}
+              variant={channel === type ? "default" : "outline"}
+              size="sm"
+              className="text-xs"
+            >
+              {CHANNEL_LABELS[type].label}
+            </Button>
+          ))}
+        </div>
+
+        <Input
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          placeholder={CHANNEL_LABELS[channel].placeholder}
+          className="bg-gray-800/50 border-gray-700"
+        />
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {NOTIFICATION_EVENT_TYPES.map(type => (
+            <label key={type} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={eventTypes.includes(type)}
+                onChange={() => toggleEvent(type)}
+                className="accent-emerald-500"
+              />
+              {NOTIFICATION_EVENT_LABELS[type]}
+            </label>
+          ))}
+        </div>
+
+        <Button
+          onClick={() => subscribeMutation.mutate()}
+          disabled={subscribeMutation.isPending || !target.trim() || eventTypes.length === 0}
+          className="w-full bg-emerald-600 hover:bg-emerald-700 text-white"
+        >
+          {subscribeMutation.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+          Sign & Subscribe
+        </Button>
+
+        {webhookSecret && (
+          <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-xs text-yellow-200 space-y-1">
+            <p>Webhook signing secret - shown once. Verify the X-Notification-Signature header with it:</p>
+            <code className="block break-all font-mono">{webhookSecret}</code>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-2"><Loader2 className="w-4 h-4 animate-spin text-gray-400" /></div>
+        ) : subscriptions.length > 0 && (
+          <div className="space-y-2">
+            {subscriptions.map(subscription => (
+              <div key={subscription.id} className="flex items-center justify-between gap-2 p-3 bg-gray-800/50 rounded-lg border border-gray-700">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Badge variant="outline" className="text-xs">{CHANNEL_LABELS[subscription.channel]?.label ?? subscription.channel}</Badge>
+                    <span className="font-mono truncate">{subscription.target}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {subscription.eventTypes.length} event types
+                    {subscription.lastDeliveredAt && ` · last sent ${new Date(subscription.lastDeliveredAt).toLocaleString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-xs"
+                    onClick={() => toggleMutation.mutate(subscription)}
+                    disabled={toggleMutation.isPending}
+                  >
+                    {subscription.isActive ? 'Pause' : 'Resume'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => testMutation.mutate(subscription)}
+                    disabled={testMutation.isPending}
+                    title="Send a test notification"
+                  >
+                    <Send className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => removeMutation.mutate(subscription)}
+                    disabled={removeMutation.isPending}
+                    title="Remove"
+                  >
+                    <Trash2 className="w-3 h-3 text-red-400" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,10 +6,14 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { useQuery } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { useUniswapV3 } from '@/hooks/use-uniswap-v3';
-import { Loader2, Plus, Minus, DollarSign, ArrowUpDown, Settings, Zap } from 'lucide-react';
+import { useWagmiWallet } from '@/hooks/use-wagmi-wallet';
+import { RANGE_STRATEGIES, type RangeStrategy } from '@shared/range-strategies';
+import { Loader2, Plus, Minus, DollarSign, ArrowUpDown, Settings, Zap, RefreshCw, CheckCircle } from 'lucide-react';
 import kiltLogoPath from '@assets/KILT_400x400_transparent_1751723574123.png';
+import { apiErrorMessage } from '@/lib/queryClient';
 
 interface Position {
   tokenId: string;
@@ -35,7 +39,22 @@ interface PositionManagementModalProps {
   isOpen: boolean;
   onClose: () => void;
   position: Position | null;
-  mode: 'add' | 'remove' | 'collect' | null;
+  mode: 'add' | 'remove' | 'collect' | 'rebalance' | null;
+}
+
+// Subset of the server's RebalancePlan used by the rebalance view
+interface RebalancePlan {
+  nftTokenId: string;
+  chainId: number;
+  poolAddress: string;
+  currentTick: number;
+  currentRange: { tickLower: number; tickUpper: number; isInRange: boolean };
+  proposedRange: { tickLower: number; tickUpper: number; priceLower: number; priceUpper: number };
+  withdrawn: { valueUSD: number };
+  swap: { poolFeeUSD: number; priceImpactPercent: number; costUSD: number; quoteSource: 'quoter' | 'spot' } | null;
+  gas: { gasPriceGwei: number; costETH: number; costUSD: number };
+  totalCostUSD: number;
+  transactions: Array<{ step: string; description: string; to: string; data: `0x${string}`; value: string; gasLimit: string }>;
 }
 
 export function PositionManagementModal({ 
@@ -46,6 +65,7 @@ export function PositionManagementModal({
 }: PositionManagementModalProps) {
   const { toast } = useToast();
   const uniswapV3 = useUniswapV3();
+  const { address } = useWagmiWallet();
   
   const [isLoading, setIsLoading] = useState(false);
   const [amount0, setAmount0] = useState('');
@@ -53,6 +73,23 @@ export function PositionManagementModal({
   const [removePercentage, setRemovePercentage] = useState(25);
   const [slippage, setSlippage] = useState(0.5);
   const [deadline, setDeadline] = useState(20);
+  const [strategy, setStrategy] = useState<RangeStrategy>('Balanced (±50%)');
+  const [stepStatus, setStepStatus] = useState<Record<number, 'pending' | 'confirmed'>>({});
+
+  // Hooks must run before the early return below - only fetches in rebalance mode
+  const { data: rebalancePlan, isLoading: isPlanLoading, error: planError, refetch: refetchPlan } = useQuery<RebalancePlan>({
+    queryKey: ['/api/positions', position?.tokenId, 'rebalance-plan', address, strategy, slippage],
+    queryFn: async () => {
+      const params = new URLSearchParams({ userAddress: address!, strategy, slippage: String(slippage) });
+      const response = await fetch(`/api/positions/${position!.tokenId}/rebalance-plan?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(apiErrorMessage(data, 'Failed to plan rebalance'));
+      return data;
+    },
+    enabled: isOpen && mode === 'rebalance' && !!position && !!address && slippage >= 0,
+    staleTime: 15 * 1000,
+    retry: false
+  });
 
   // Reset form when modal opens/closes or mode changes
   useEffect(() => {
@@ -62,6 +99,8 @@ export function PositionManagementModal({
       setRemovePercentage(25);
       setSlippage(0.5);
       setDeadline(20);
+      setStrategy('Balanced (±50%)');
+      setStepStatus({});
     }
   }, [isOpen, position, mode]);
 
@@ -209,6 +248,27 @@ export function PositionManagementModal({
     }
   };
 
+  const handleRebalance = async () => {
+    if (!rebalancePlan) return;
+
+    setIsLoading(true);
+    setStepStatus({});
+    try {
+      // Re-plan right before sending so amounts and allowances reflect the latest state
+      const { data: freshPlan } = await refetchPlan();
+      if (!freshPlan) throw new Error('Failed to refresh rebalance plan');
+
+      await uniswapV3.executeRebalance(freshPlan, (index, status) => {
+        setStepStatus(prev => ({ ...prev, [index]: status }));
+      });
+      onClose();
+    } catch (error) {
+      console.warn('Rebalance failed (gracefully handled):', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const renderAddLiquidityContent = () => (
     <div className="space-y-6">
       <div className="space-y-4">
@@ -480,11 +540,153 @@ export function PositionManagementModal({
     </div>
   );
 
+  const renderRebalanceContent = () => (
+    <div className="space-y-6">
+      <Card className="bg-gray-900/50 border-gray-800">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-medium text-gray-300">New Range</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {RANGE_STRATEGIES.map((option) => (
+              <Button
+                key={option}
+                onClick={() => setStrategy(option)}
+                variant={strategy === option ? "default" : "outline"}
+                size="sm"
+                className="text-xs"
+                disabled={isLoading}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+
+          <Separator />
+
+          {isPlanLoading ? (
+            <div className="flex items-center justify-center py-4 text-sm text-gray-400">
+              <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              Planning rebalance...
+            </div>
+          ) : planError ? (
+            <p className="text-sm text-red-400">{(planError as Error).message}</p>
+          ) : rebalancePlan ? (
+            <div className="space-y-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-400">Current ticks</span>
+                <span className="font-mono">
+                  {rebalancePlan.currentRange.tickLower} → {rebalancePlan.currentRange.tickUpper}
+                  <Badge variant="outline" className={`ml-2 text-xs ${rebalancePlan.currentRange.isInRange ? 'text-green-400' : 'text-red-400'}`}>
+                    {rebalancePlan.currentRange.isInRange ? 'In range' : 'Out of range'}
+                  </Badge>
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-400">Proposed ticks</span>
+                <span className="font-mono">{rebalancePlan.proposedRange.tickLower} → {rebalancePlan.proposedRange.tickUpper}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-400">Current tick</span>
+                <span className="font-mono">{rebalancePlan.currentTick}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-400">Position value</span>
+                <span className="font-medium">${rebalancePlan.withdrawn.valueUSD.toFixed(2)}</span>
+              </div>
+              <Separator />
+              <div className="flex items-center justify-between">
+                <span className="text-gray-400">Swap cost {rebalancePlan.swap?.quoteSource === 'spot' && '(estimated)'}</span>
+                <span className="font-medium">
+                  {rebalancePlan.swap
+                    ? `$${rebalancePlan.swap.costUSD.toFixed(2)} (${rebalancePlan.swap.priceImpactPercent.toFixed(2)}% impact)`
+                    : 'No swap needed'}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-400">Gas ({rebalancePlan.gas.gasPriceGwei.toFixed(3)} gwei)</span>
+                <span className="font-medium">${rebalancePlan.gas.costUSD.toFixed(2)}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-300 font-medium">Estimated total cost</span>
+                <span className="font-bold">${rebalancePlan.totalCostUSD.toFixed(2)}</span>
+              </div>
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      {rebalancePlan && (
+        <Card className="bg-gray-900/50 border-gray-800">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium text-gray-300">Transactions ({rebalancePlan.transactions.length})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {rebalancePlan.transactions.map((tx, index) => (
+              <div key={index} className="flex items-center gap-2 text-xs text-gray-300">
+                {stepStatus[index] === 'confirmed' ? (
+                  <CheckCircle className="w-4 h-4 text-green-400 flex-shrink-0" />
+                ) : stepStatus[index] === 'pending' ? (
+                  <Loader2 className="w-4 h-4 animate-spin text-blue-400 flex-shrink-0" />
+                ) : (
+                  <span className="w-4 text-center text-gray-500 flex-shrink-0">{index + 1}</span>
+                )}
+                <span>{tx.description}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="bg-gray-900/50 border-gray-800">
+        <CardContent className="pt-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-400">Slippage Tolerance</span>
+            <div className="flex items-center gap-2">
+              <Input
+                value={slippage}
+                onChange={(e) => setSlippage(parseFloat(e.target.value))}
+                className="w-16 text-right"
+                type="number"
+                step="0.1"
+                disabled={isLoading}
+              />
+              <span className="text-sm text-gray-400">%</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4">
+        <div className="flex items-start gap-3">
+          <Zap className="w-5 h-5 text-blue-400 flex-shrink-0 mt-0.5" />
+          <p className="text-xs text-gray-300">
+            The new position keeps this position's time boost once it is registered.
+          </p>
+        </div>
+      </div>
+
+      <Button 
+        onClick={handleRebalance}
+        disabled={isLoading || !rebalancePlan}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-3"
+      >
+        {isLoading ? (
+          <Loader2 className="w-4 h-4 animate-spin mr-2" />
+        ) : (
+          <RefreshCw className="w-4 h-4 mr-2" />
+        )}
+        Rebalance Position
+      </Button>
+    </div>
+  );
+
   const getModalTitle = () => {
     switch (mode) {
       case 'add': return 'Add Liquidity';
       case 'remove': return 'Remove Liquidity';
       case 'collect': return 'Collect Fees';
+      case 'rebalance': return 'Rebalance Position';
       default: return 'Manage Position';
     }
   };
@@ -494,6 +696,7 @@ export function PositionManagementModal({
       case 'add': return renderAddLiquidityContent();
       case 'remove': return renderRemoveLiquidityContent();
       case 'collect': return renderCollectFeesContent();
+      case 'rebalance': return renderRebalanceContent();
       default: return null;
     }
   };
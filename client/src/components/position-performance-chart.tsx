@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Area, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { X } from 'lucide-react';
+
+interface TokenAmounts {
+  kilt: number;
+  eth: number;
+}
+
+interface PositionPerformance {
+  nftTokenId: string;
+  depositSource: 'indexed_events' | 'first_snapshot' | 'none';
+  deposit: TokenAmounts;
+  initialValueUSD: number;
+  current: {
+    principalValueUSD: number;
+    totalValueUSD: number;
+    sampledAt: string;
+  } | null;
+  fees: { totalUSD: number };
+  rewards: { kilt: number; usd: number };
+  holdValueUSD: number;
+  impermanentLossUSD: number;
+  impermanentLossPercent: number;
+  pnlUSD: number;
+  series: Array<{
+    timestamp: string;
+    totalValueUSD: number;
+    principalValueUSD: number;
+    feesValueUSD: number;
+    holdValueUSD: number;
+  }>;
+}
+
+const RANGES = [
+  { label: '7D', days: 7 },
+  { label: '30D', days: 30 },
+  { label: 'ALL', days: 0 }
+];
+
+function formatUSD(value: number): string {
+  const sign = value < 0 ? '-' : '';
+  return `${sign}$${Math.abs(value).toFixed(2)}`;
+}
+
+export function PositionPerformanceChart({ tokenId, onClose }: { tokenId: string; onClose: () => void }) {
+  const [days, setDays] = useState(30);
+  const url = days > 0
+    ? `/api/positions/${tokenId}/performance?days=${days}`
+    : `/api/positions/${tokenId}/performance`;
+
+  const { data, isLoading, error } = useQuery<PositionPerformance>({
+    queryKey: [url],
+    refetchInterval: 5 * 60 * 1000
+  });
+
+  const chartData = (data?.series || []).map(point => ({
+    ...point,
+    label: new Date(point.timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+  }));
+
+  return (
+    <div className="cyberpunk-position-card mt-3">
+      <div className="cyberpunk-header">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-semibold text-pink-primary">#{tokenId} PERFORMANCE</span>
+          <div className="flex items-center gap-2">
+            {RANGES.map(range => (
+              <button
+                key={range.label}
+                onClick={() => setDays(range.days)}
+                className={`text-xs font-mono px-2 py-0.5 rounded ${days === range.days ? 'bg-pink-500/30 text-white' : 'text-white/50 hover:text-white'}`}
+              >
+                {range.label}
+              </button>
+            ))}
+            <button onClick={onClose} className="text-white/50 hover:text-white" title="Close">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-6 text-white/60 text-xs">Loading performance...</div>
+      ) : error || !data ? (
+        <div className="text-center py-6 text-red-400 text-xs">Performance data unavailable</div>
+      ) : (
+        <>
+          <div className="cyberpunk-terminal-grid">
+            <div className="terminal-block">
+              <div className="terminal-header"><span className="terminal-label">PNL</span></div>
+              <div className={`terminal-value ${data.pnlUSD >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatUSD(data.pnlUSD)}</div>
+              <div className="terminal-sublabel">VS {formatUSD(data.initialValueUSD)} IN</div>
+            </div>
+            <div className="terminal-block fees-block">
+              <div className="terminal-header"><span className="terminal-label">FEES</span></div>
+              <div className="terminal-value">{formatUSD(data.fees.totalUSD)}</div>
+              <div className="terminal-sublabel">EARNED</div>
+            </div>
+            <div className="terminal-block kilt-block">
+              <div className="terminal-header"><span className="terminal-label">REWARDS</span></div>
+              <div className="terminal-value">{data.rewards.kilt.toFixed(2)}</div>
+              <div className="terminal-sublabel">KILT ({formatUSD(data.rewards.usd)})</div>
+            </div>
+            <div className="terminal-block">
+              <div className="terminal-header"><span className="terminal-label">IMP. LOSS</span></div>
+              <div className={`terminal-value ${data.impermanentLossUSD >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {data.impermanentLossPercent.toFixed(2)}%
+              </div>
+              <div className="terminal-sublabel">{formatUSD(data.impermanentLossUSD)} VS HOLD</div>
+            </div>
+          </div>
+
+          {chartData.length < 2 ? (
+            <div className="text-center py-6 text-white/40 text-xs">
+              Not enough history yet - positions are snapshotted hourly
+            </div>
+          ) : (
+            <div className="h-48 mt-3">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.08)" />
+                  <XAxis dataKey="label" tick={{ fill: 'rgba(255,255,255,0.5)', fontSize: 10 }} minTickGap={24} />
+                  <YAxis tick={{ fill: 'rgba(255,255,255,0.5)', fontSize: 10 }} width={50} tickFormatter={(value: number) => `$${value.toFixed(0)}`} />
+                  <Tooltip
+                    contentStyle={{ background: '#0b0b0f', border: '1px solid rgba(255,0,102,0.4)', fontSize: 11 }}
+                    formatter={(value: number, name: string) => [formatUSD(value), name]}
+                  />
+                  <Area type="monotone" dataKey="totalValueUSD" name="Position + fees" stroke="#ff0066" fill="rgba(255,0,102,0.15)" />
+                  <Line type="monotone" dataKey="holdValueUSD" name="Hold" stroke="#22d3ee" dot={false} strokeDasharray="4 2" />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {data.depositSource === 'first_snapshot' && (
+            <div className="text-white/40 text-xs mt-2">
+              Deposit estimated from the first snapshot - no indexed liquidity events for this position yet
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
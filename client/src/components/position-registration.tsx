@@ -17,6 +17,7 @@ import { useWagmiWallet } from '@/hooks/use-wagmi-wallet';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import kiltLogo from '@assets/KILT_400x400_transparent_1751723574123.png';
+import { apiErrorMessage } from '@/lib/queryClient';
 
 
 interface ExternalPosition {
@@ -167,7 +168,7 @@ export function PositionRegistration() {
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.message || 'Registration failed');
+        throw new Error(apiErrorMessage(error, 'Registration failed'));
       }
 
       return response.json() as Promise<RegistrationResult>;
@@ -0,0 +1,200 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+interface SimulationProposal {
+  totalAllocation: number;
+  programStartDate: string;
+  programDurationDays: number;
+  timeBoostCoefficient: number;
+  fullRangeBonus: number;
+  minimumPositionValue: number;
+  lockPeriod: number;
+}
+
+interface SimulationScenario {
+  config: SimulationProposal & { programEndDate: string; dailyRewardsCap: number };
+  remainingDays: number;
+  alreadyAllocated: number;
+  treasuryRemaining: number;
+  projectedDistribution: number;
+  averageDailyDistribution: number;
+  participatingLiquidity: number;
+  programAPR: number;
+  depletionDate: string | null;
+  unallocatedAtEnd: number;
+}
+
+interface SimulationResult {
+  simulatedAt: string;
+  kiltPrice: number;
+  current: SimulationScenario;
+  proposed: SimulationScenario;
+  diff: {
+    dailyRewardsCap: number;
+    remainingDays: number;
+    projectedDistribution: number;
+    programAPR: number;
+    depletionDateChanged: boolean;
+    users: Array<{ userId: number; address: string; current: number; proposed: number; change: number }>;
+  };
+}
+
+interface RewardSimulationPanelProps {
+  // Pre-fill from the (possibly unsaved) values in the treasury and program settings tabs
+  initial: SimulationProposal;
+}
+
+const FIELDS: Array<{ key: keyof SimulationProposal; label: string; type: 'number' | 'date' }> = [
+  { key: 'totalAllocation', label: 'TOTAL_ALLOCATION', type: 'number' },
+  { key: 'programStartDate', label: 'PROGRAM_START_DATE', type: 'date' },
+  { key: 'programDurationDays', label: 'PROGRAM_DURATION_DAYS', type: 'number' },
+  { key: 'timeBoostCoefficient', label: 'TIME_BOOST_COEFFICIENT', type: 'number' },
+  { key: 'fullRangeBonus', label: 'FULL_RANGE_BONUS', type: 'number' },
+  { key: 'minimumPositionValue', label: 'MIN_POSITION_VALUE_USD', type: 'number' },
+  { key: 'lockPeriod', label: 'LOCK_PERIOD_DAYS', type: 'number' }
+];
+
+type ProposalForm = Record<keyof SimulationProposal, number | string>;
+
+const formatKilt = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+const formatChange = (value: number, suffix = '') => `${value > 0 ? '+' : ''}${formatKilt(value)}${suffix}`;
+
+export function RewardSimulationPanel({ initial }: RewardSimulationPanelProps) {
+  const [proposal, setProposal] = useState<ProposalForm>(initial);
+
+  useEffect(() => {
+    setProposal(initial);
+  }, [initial.totalAllocation, initial.programStartDate, initial.programDurationDays, initial.timeBoostCoefficient,
+      initial.fullRangeBonus, initial.minimumPositionValue, initial.lockPeriod]);
+
+  const simulationMutation = useMutation({
+    mutationFn: (data: ProposalForm) => {
+      // Omit empty values so the server falls back to the live config for them
+      const payload = Object.fromEntries(
+        Object.entries(data).filter(([, value]) => value !== '' && value !== null && value !== undefined)
+      );
+      return apiRequest<SimulationResult>('/api/admin/simulate', { method: 'POST', data: payload });
+    }
+  });
+
+  const result = simulationMutation.data;
+
+  const metricRows = result ? [
+    { label: 'DAILY_REWARDS_CAP', current: `${formatKilt(result.current.config.dailyRewardsCap)} KILT`, proposed: `${formatKilt(result.proposed.config.dailyRewardsCap)} KILT`, change: formatChange(result.diff.dailyRewardsCap) },
+    { label: 'PROGRAM_END_DATE', current: result.current.config.programEndDate, proposed: result.proposed.config.programEndDate, change: formatChange(result.diff.remainingDays, ' days') },
+    { label: 'PROJECTED_DISTRIBUTION', current: `${formatKilt(result.current.projectedDistribution)} KILT`, proposed: `${formatKilt(result.proposed.projectedDistribution)} KILT`, change: formatChange(result.diff.projectedDistribution) },
+    { label: 'PROGRAM_APR', current: `${result.current.programAPR.toFixed(2)}%`, proposed: `${result.proposed.programAPR.toFixed(2)}%`, change: formatChange(result.diff.programAPR, '%') },
+    { label: 'TREASURY_DEPLETION', current: result.current.depletionDate || 'Outlasts program', proposed: result.proposed.depletionDate || 'Outlasts program', change: result.diff.depletionDateChanged ? 'CHANGED' : '-' },
+    { label: 'UNALLOCATED_AT_END', current: `${formatKilt(result.current.unallocatedAtEnd)} KILT`, proposed: `${formatKilt(result.proposed.unallocatedAtEnd)} KILT`, change: formatChange(result.proposed.unallocatedAtEnd - result.current.unallocatedAtEnd) }
+  ] : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-black/50 border border-green-400 rounded p-6">
+        <h2 className="text-lg font-bold text-[#ff0066] mb-4 tracking-wider">
+          [WHAT_IF_SIMULATION]
+        </h2>
+        <div className="text-gray-400 text-xs font-mono mb-4">
+          Projects the remaining program days over current registered positions with the values below. Nothing is saved.
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {FIELDS.map(field => (
+            <div key={field.key}>
+              <label className="block text-green-400 text-sm mb-2 font-mono">{field.label}:</label>
+              <input
+                type={field.type}
+                value={proposal[field.key] ?? ''}
+                onChange={(e) => setProposal({
+                  ...proposal,
+                  [field.key]: field.type === 'number' ? (e.target.value === '' ? '' : Number(e.target.value)) : e.target.value
+                })}
+                className="w-full p-3 bg-gray-900 border border-green-400/50 rounded text-green-400 font-mono focus:border-green-400 focus:outline-none"
+              />
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={() => simulationMutation.mutate(proposal)}
+          disabled={simulationMutation.isPending}
+          className="mt-6 px-6 py-3 bg-green-400 text-black font-mono font-bold rounded hover:bg-green-300 transition-colors disabled:opacity-50"
+        >
+          {simulationMutation.isPending ? '[SIMULATING...]' : '[RUN_SIMULATION]'}
+        </button>
+
+        {simulationMutation.isError && (
+          <div className="mt-4 text-red-400 font-mono text-sm">
+            [SIMULATION_FAILED] {(simulationMutation.error as Error)?.message}
+          </div>
+        )}
+      </div>
+
+      {result && (
+        <>
+          <div className="bg-black/50 border border-green-400 rounded p-6">
+            <h2 className="text-lg font-bold text-[#ff0066] mb-4 tracking-wider">
+              [PROJECTION_DIFF]
+            </h2>
+            <table className="w-full font-mono text-sm">
+              <thead>
+                <tr className="text-green-400/70 text-left">
+                  <th className="py-2">METRIC</th>
+                  <th className="py-2">CURRENT</th>
+                  <th className="py-2">PROPOSED</th>
+                  <th className="py-2">CHANGE</th>
+                </tr>
+              </thead>
+              <tbody>
+                {metricRows.map(row => (
+                  <tr key={row.label} className="border-t border-green-400/20 text-green-400">
+                    <td className="py-2">{row.label}</td>
+                    <td className="py-2 text-gray-300">{row.current}</td>
+                    <td className="py-2">{row.proposed}</td>
+                    <td className="py-2 text-[#ff0066]">{row.change}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="text-gray-500 text-xs font-mono mt-3">
+              KILT price ${result.kiltPrice} · {formatKilt(result.current.alreadyAllocated)} KILT already allocated · participating liquidity ${formatKilt(result.proposed.participatingLiquidity)}
+            </div>
+          </div>
+
+          <div className="bg-black/50 border border-green-400 rounded p-6">
+            <h2 className="text-lg font-bold text-[#ff0066] mb-4 tracking-wider">
+              [PROJECTED_USER_REWARDS]
+            </h2>
+            {result.diff.users.length === 0 ? (
+              <div className="text-green-400/50 font-mono text-sm">[NO_PARTICIPATING_POSITIONS]</div>
+            ) : (
+              <div className="max-h-96 overflow-y-auto">
+                <table className="w-full font-mono text-xs">
+                  <thead>
+                    <tr className="text-green-400/70 text-left">
+                      <th className="py-2">WALLET</th>
+                      <th className="py-2">CURRENT</th>
+                      <th className="py-2">PROPOSED</th>
+                      <th className="py-2">CHANGE</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.diff.users.map(user => (
+                      <tr key={user.userId} className="border-t border-green-400/20 text-green-400">
+                        <td className="py-2">{user.address ? `${user.address.slice(0, 6)}...${user.address.slice(-4)}` : `#${user.userId}`}</td>
+                        <td className="py-2 text-gray-300">{formatKilt(user.current)}</td>
+                        <td className="py-2">{formatKilt(user.proposed)}</td>
+                        <td className="py-2 text-[#ff0066]">{formatChange(user.change)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -33,6 +33,7 @@ import kiltLogo from '@assets/KILT_400x400_transparent_1751723574123.png';
 // Single Source APR Components
 import { useExpectedReturns } from '@/hooks/use-single-source-apr';
 import { useRewardTimer } from '@/hooks/use-reward-timer';
+import { apiErrorMessage } from '@/lib/queryClient';
 
 function SingleSourceProgramAPR() {
   const { data: expectedReturns, isLoading, error } = useExpectedReturns();
@@ -48,12 +49,23 @@ function SingleSourceProgramAPR() {
   );
 }
 
+interface RewardTokenStats {
+  tokenAddress: string;
+  tokenSymbol: string;
+  decimals: number;
+  accumulated: number;
+  claimed: number;
+  claimable: number;
+  dailyRewards: number;
+}
+
 interface UserRewardStats {
   totalAccumulated: number;
   totalClaimed: number;
   totalClaimable: number;
   activePositions: number;
   avgDailyRewards: number;
+  tokens?: RewardTokenStats[]; // KILT first, then partner tokens
 }
 
 interface ProgramAnalytics {
@@ -271,18 +283,20 @@ export function RewardsTracking() {
   });
 
   // Get blockchain claiming functionality
-  const { claimRewards, getUserTokenIds, isClaiming } = useRewardClaiming();
+  const { claimRewards, claimAllTokenRewards, getUserTokenIds, isClaiming } = useRewardClaiming();
+  const rewardTokens: RewardTokenStats[] = (rewardStats as UserRewardStats | undefined)?.tokens || [];
+  const partnerTokensClaimable = rewardTokens.slice(1).some(token => token.claimable > 0);
 
   // Automated claim mutation - handles both reward distribution and claiming via smart contract
   const claimMutation = useMutation({
     mutationFn: async () => {
       if (!address) throw new Error('Wallet not connected');
       
-      // Use the automated claiming function that handles distribution + claiming
-      const result = await claimRewards();
+      // Partner tokens are only paid through the multi-token claim, which covers KILT as well
+      const result = partnerTokensClaimable ? await claimAllTokenRewards() : await claimRewards();
       
       if (!result.success) {
-        throw new Error(result.error || 'Failed to claim rewards');
+        throw new Error(apiErrorMessage(result, 'Failed to claim rewards'));
       }
       
       return result;
@@ -572,6 +586,30 @@ export function RewardsTracking() {
           </CardContent>
         </Card>
       </div>
+      {/* Per-token breakdown for programs paying partner tokens alongside KILT */}
+      {rewardTokens.length > 1 && (
+        <Card className="bg-black/40 backdrop-blur-xl border border-white/10 rounded-lg cluely-card">
+          <CardContent className="p-3">
+            <div className="grid grid-cols-5 text-xs text-white/60 mb-2">
+              <span>Token</span>
+              <span className="text-right">Earned</span>
+              <span className="text-right">Claimable</span>
+              <span className="text-right">Claimed</span>
+              <span className="text-right">Daily</span>
+            </div>
+            {rewardTokens.map(token => (
+              <div key={token.tokenAddress} className="grid grid-cols-5 text-xs text-white py-1 border-t border-white/5 numeric-mono">
+                <span className="font-medium">{token.tokenSymbol}</span>
+                <span className="text-right">{token.accumulated.toFixed(2)}</span>
+                <span className="text-right text-green-400">{token.claimable.toFixed(2)}</span>
+                <span className="text-right">{token.claimed.toFixed(2)}</span>
+                <span className="text-right">{token.dailyRewards.toFixed(3)}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Enhanced Action Section */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
         {/* Enhanced Claim Rewards */}
@@ -613,9 +651,9 @@ export function RewardsTracking() {
               
               <Button 
                 onClick={() => claimMutation.mutate()}
-                disabled={claimMutation.isPending || isClaiming || (rewardStats?.totalClaimable || 0) === 0 || !claimability?.canClaim}
+                disabled={claimMutation.isPending || isClaiming || ((rewardStats?.totalClaimable || 0) === 0 && !partnerTokensClaimable) || !claimability?.canClaim}
                 className={`w-full font-semibold py-3 px-4 rounded-lg text-sm transition-all duration-300 ${
-                  (rewardStats?.totalClaimable || 0) > 0 && claimability?.canClaim
+                  ((rewardStats?.totalClaimable || 0) > 0 || partnerTokensClaimable) && claimability?.canClaim
                     ? 'bg-gradient-to-r from-[#ff0066] to-[#cc0052] hover:from-[#ff1a75] hover:to-[#e60059] text-white shadow-lg hover:shadow-xl shadow-[#ff0066]/20' 
                     : 'bg-gray-600 text-gray-300 cursor-not-allowed'
                 }`}
@@ -628,7 +666,12 @@ export function RewardsTracking() {
                 ) : (rewardStats?.totalClaimable || 0) > 0 ? (
                   <>
                     <Award className="h-4 w-4 mr-2" />
-                    Claim {(rewardStats?.totalClaimable || 0).toFixed(2)} KILT
+                    Claim {(rewardStats?.totalClaimable || 0).toFixed(2)} KILT{partnerTokensClaimable ? ' + partner tokens' : ''}
+                  </>
+                ) : partnerTokensClaimable ? (
+                  <>
+                    <Award className="h-4 w-4 mr-2" />
+                    Claim partner tokens
                   </>
                 ) : (rewardStats?.totalAccumulated || 0) > 0 && !claimability?.canClaim ? (
                   <>
@@ -232,15 +232,11 @@ export function SmartContractPanel() {
 
   const contractAddress = (treasuryConfig as any)?.smartContractAddress;
 
-  // Authorized admin addresses for smart contract operations
-  const authorizedAdmins = [
-    "0xAFff1831e663B6F29fb90871Ea8518e8f8B3b71a", // Contract owner (deployer)
-    "0x5bF25Dc1BAf6A96C5A0F724E05EcF4D456c7652e"  // Additional admin wallet
-  ];
-  
-  // Check if current wallet is authorized for admin operations
-  const isAuthorizedAdmin = address && authorizedAdmins.includes(address.toLowerCase()) || 
-                           authorizedAdmins.some(admin => admin.toLowerCase() === address?.toLowerCase());
+  // Contract operations are offered to admin sessions with the treasury permission
+  const { data: adminSession } = useQuery<{ walletAddress: string; permissions: string[] }>({
+    queryKey: ['/api/admin/session'],
+  });
+  const isAuthorizedAdmin = !!address && !!adminSession?.permissions.includes('treasury:write');
   
   // Fetch real KILT balance for connected wallet with aggressive refresh
   const { data: walletKiltData, refetch: refetchWalletData } = useQuery({
@@ -5,6 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Twitter, Check, AlertCircle, ExternalLink } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { apiErrorMessage } from '@/lib/queryClient';
 
 interface SocialMediaSubmitProps {
   onSubmissionSuccess?: () => void;
@@ -73,7 +74,7 @@ export default function SocialMediaSubmit({ onSubmissionSuccess }: SocialMediaSu
       } else {
         toast({
           title: "Submission Failed",
-          description: result.error || "Failed to process tweet submission",
+          description: apiErrorMessage(result, "Failed to process tweet submission"),
           variant: "destructive"
         });
       }
@@ -24,8 +24,7 @@ import {
   Loader2,
   AlertCircle
 } from 'lucide-react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery } from '@tanstack/react-query';
 
@@ -38,7 +37,9 @@ import { UniswapModal } from '@/components/uniswap-modal';
 import { useValidatedPositions } from '@/hooks/use-validated-positions';
 import { useMultiplePositionFees } from '@/hooks/use-position-fees';
 import { UniswapStyleLiquidityModal } from '@/components/uniswap-style-liquidity-modal';
+import { PositionManagementModal } from '@/components/position-management-modal';
 import { CompleteRemoveLiquidityButton } from '@/components/complete-remove-liquidity-button';
+import { PositionPerformanceChart } from '@/components/position-performance-chart';
 
 export function UserPositions() {
   const { address, isConnected } = useWagmiWallet();
@@ -46,8 +47,10 @@ export function UserPositions() {
   const queryClient = useQueryClient();
   const unifiedData = useUnifiedDashboard();
   const [selectedPosition, setSelectedPosition] = useState<string | null>(null);
+  const [performanceTokenId, setPerformanceTokenId] = useState<string | null>(null);
   const [modalPosition, setModalPosition] = useState<any>(null);
   const [modalMode, setModalMode] = useState<'add' | 'remove' | 'collect' | null>(null);
+  const [rebalancePosition, setRebalancePosition] = useState<any>(null);
   const [showClosedPositions, setShowClosedPositions] = useState(false);
   const [logoAnimationComplete, setLogoAnimationComplete] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -176,33 +179,6 @@ export function UserPositions() {
   const typedUserData = userData as { id: number } | undefined;
   const { data: rewards = [] } = useUserRewards(typedUserData?.id || null);
 
-  const claimRewardsMutation = useMutation({
-    mutationFn: async () => {
-      if (!typedUserData?.id) throw new Error('User not found');
-      const response = await apiRequest(`/api/rewards/claim/${typedUserData.id}`, {
-        method: 'POST',
-        data: {}
-      });
-      return response;
-    },
-    onSuccess: () => {
-      toast({
-        title: "Rewards Claimed",
-        description: "Your rewards have been successfully claimed.",
-      });
-      if (typedUserData?.id) {
-        queryClient.invalidateQueries({ queryKey: [`/api/rewards/user/${typedUserData.id}`] });
-      }
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to claim rewards",
-        variant: "destructive",
-      });
-    },
-  });
-
   const handleLiquidityManagement = async () => {
     if (!selectedPosition || !managementMode) return;
 
@@ -561,6 +537,24 @@ export function UserPositions() {
                         <DollarSign className="w-3 h-3" />
                         CLAIM
                       </button>
+                      <button
+                        onClick={() => setPerformanceTokenId(performanceTokenId === tokenId ? null : tokenId)}
+                        className="cyberpunk-cmd"
+                        title="Value history, fees, rewards and impermanent loss"
+                      >
+                        <TrendingUp className="w-3 h-3" />
+                        PERF
+                      </button>
+                      {!inRange && !isClosed && (
+                        <button
+                          onClick={() => setRebalancePosition({ ...position, tokenId, fee: position.fee ?? position.feeTier })}
+                          className="cyberpunk-cmd cyberpunk-cmd-rebalance"
+                          title="Move liquidity into a new range around the current price"
+                        >
+                          <RefreshCw className="w-3 h-3" />
+                          REBAL
+                        </button>
+                      )}
                     </div>
 
                     {/* Manual Step 2 Helper for positions that need token collection */}
@@ -583,6 +577,15 @@ export function UserPositions() {
               })}
             </div>
           )}
+
+          {performanceTokenId && (
+            <div className="px-3 pb-3">
+              <PositionPerformanceChart
+                tokenId={performanceTokenId}
+                onClose={() => setPerformanceTokenId(null)}
+              />
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -597,6 +600,13 @@ export function UserPositions() {
         mode={modalMode}
       />
 
+      <PositionManagementModal
+        isOpen={rebalancePosition !== null}
+        onClose={() => setRebalancePosition(null)}
+        position={rebalancePosition}
+        mode="rebalance"
+      />
+
       {/* Legacy Modal - Remove this section when replaced */}
       {selectedPosition && managementMode && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -785,20 +795,13 @@ export function UserPositions() {
                 </div>
                 <div>
                   <div className="text-white font-bold">Total Rewards Available</div>
-                  <div className="text-white/60 text-sm">Ready to claim from all positions</div>
+                  <div className="text-white/60 text-sm">Claim on-chain from the Rewards tab</div>
                 </div>
               </div>
               <div className="text-right">
                 <div className="text-2xl font-bold text-white tabular-nums">
                   {totalUnclaimed.toFixed(1)} KILT
                 </div>
-                <Button 
-                  onClick={() => claimRewardsMutation.mutate()}
-                  disabled={claimRewardsMutation.isPending}
-                  className="mt-2 bg-gradient-to-r from-[#ff0066] to-[#ff0066] hover:from-[#ff0066] hover:to-[#ff0066]"
-                >
-                  {claimRewardsMutation.isPending ? 'Claiming...' : 'Claim All'}
-                </Button>
               </div>
             </div>
           </CardContent>
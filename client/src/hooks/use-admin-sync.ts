@@ -14,7 +14,7 @@ export function useAdminSync() {
       try {
         // Simple fetch without AbortController to avoid unhandled rejections
         const response = await Promise.race([
-          fetch('/api/admin/operations', {
+          fetch('/api/program/last-update', {
             headers: {
               'Accept': 'application/json',
               'Content-Type': 'application/json'
@@ -26,11 +26,10 @@ export function useAdminSync() {
         ]);
         
         if (response.ok) {
-          const operations = await response.json();
+          const { lastUpdatedAt } = await response.json();
           
-          if (Array.isArray(operations) && operations.length > 0) {
-            const latestOperation = operations[0];
-            const operationTime = new Date(latestOperation.timestamp).getTime();
+          if (lastUpdatedAt) {
+            const operationTime = new Date(lastUpdatedAt).getTime();
             
             // If there's a new admin operation since last check
             if (operationTime > lastUpdateRef.current) {
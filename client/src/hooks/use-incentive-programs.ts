@@ -0,0 +1,47 @@
+/**
+ * INCENTIVE PROGRAMS HOOK
+ *
+ * Active reward programs (pool, fee tier, reward token, budget and dates) users can add liquidity to.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+
+export interface IncentiveProgram {
+  id: number;
+  name: string;
+  chainId: number;
+  poolAddress: string;
+  token0Address: string;
+  token1Address: string;
+  feeTier: number;
+  rewardTokenAddress: string;
+  rewardTokenSymbol: string;
+  totalBudget: number;
+  startDate: string;
+  endDate: string;
+  durationDays: number;
+  dailyBudget: number;
+  fundedByTreasury: boolean;
+  isActive: boolean;
+  registeredPositions: number;
+  registeredUsers: number;
+}
+
+export function useIncentivePrograms() {
+  return useQuery<IncentiveProgram[]>({
+    queryKey: ['/api/programs'],
+    staleTime: 60000, // 1 minute
+  });
+}
+
+/**
+ * Uniswap V3 tick spacing per fee tier
+ */
+export function getTickSpacing(feeTier: number): number {
+  switch (feeTier) {
+    case 100: return 1;
+    case 500: return 10;
+    case 10000: return 200;
+    default: return 60;
+  }
+}
@@ -3,6 +3,7 @@ import { createWalletClient, custom, createPublicClient, http, parseUnits, forma
 import { base } from 'viem/chains';
 import { useWagmiWallet } from './use-wagmi-wallet';
 import { useToast } from './use-toast';
+import { apiErrorMessage } from '@/lib/queryClient';
 
 // Enhanced DynamicTreasuryPool contract address on Base network - DEPLOYED!
 const DYNAMIC_TREASURY_POOL_ADDRESS = '0x09bcB93e7E2FF067232d83f5e7a7E8360A458175' as const;
@@ -32,6 +33,17 @@ const DYNAMIC_TREASURY_POOL_ABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [
+      { name: 'tokens', type: 'address[]' },
+      { name: 'amounts', type: 'uint256[]' },
+      { name: 'signature', type: 'bytes' }
+    ],
+    name: 'claimMultiTokenRewards',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
   {
     inputs: [{ name: 'user', type: 'address' }],
     name: 'getUserStats',
@@ -213,7 +225,7 @@ export function useRewardClaiming() {
       if (!signatureResponse.ok) {
         const errorData = await signatureResponse.json();
         console.error('❌ CLAIM LOG 14: Signature request failed:', errorData);
-        throw new Error(errorData.error || 'Failed to get claim signature from backend');
+        throw new Error(apiErrorMessage(errorData, 'Failed to get claim signature from backend'));
       }
 
       const signatureData = await signatureResponse.json();
@@ -352,8 +364,97 @@ export function useRewardClaiming() {
     }
   };
 
+  // Claim KILT and every partner token in one transaction (single nonce, backend-signed amounts)
+  const claimAllTokenRewards = async (): Promise<RewardClaimResult> => {
+    setIsClaiming(true);
+
+    try {
+      if (!isConnected || !address || !walletClient) {
+        throw new Error('Wallet not connected');
+      }
+
+      const signatureResponse = await fetch('/api/rewards/generate-multi-token-claim-signature', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userAddress: address })
+      });
+      if (!signatureResponse.ok) {
+        const errorData = await signatureResponse.json();
+        throw new Error(apiErrorMessage(errorData, 'Failed to get claim signature from backend'));
+      }
+
+      const { signature, tokens, amounts } = await signatureResponse.json() as {
+        signature: `0x${string}`;
+        tokens: `0x${string}`[];
+        amounts: string[];
+      };
+      const amountsWei = amounts.map(amount => BigInt(amount));
+      console.log(`🔗 Claiming ${tokens.length} reward tokens for ${address}`);
+
+      try {
+        await baseClient.estimateContractGas({
+          address: DYNAMIC_TREASURY_POOL_ADDRESS,
+          abi: DYNAMIC_TREASURY_POOL_ABI,
+          functionName: 'claimMultiTokenRewards',
+          args: [tokens, amountsWei, signature],
+          account: address as `0x${string}`,
+        });
+      } catch (gasError) {
+        console.error('Multi-token claim gas estimation failed:', gasError);
+        throw new Error(`Transaction would fail: ${gasError instanceof Error ? gasError.message : 'Unknown revert reason'}`);
+      }
+
+      const claimHash = await walletClient.writeContract({
+        address: DYNAMIC_TREASURY_POOL_ADDRESS,
+        abi: DYNAMIC_TREASURY_POOL_ABI,
+        functionName: 'claimMultiTokenRewards',
+        args: [tokens, amountsWei, signature],
+      });
+
+      const claimReceipt = await baseClient.waitForTransactionReceipt({ hash: claimHash });
+      if (claimReceipt.status !== 'success') {
+        throw new Error('Reward claim transaction failed');
+      }
+
+      console.log(`✅ Multi-token rewards claimed successfully. Transaction: ${claimHash}`);
+      const kiltIndex = tokens.findIndex(token => token.toLowerCase() === KILT_TOKEN_ADDRESS);
+      return {
+        success: true,
+        transactionHash: claimHash,
+        claimedAmount: kiltIndex >= 0 ? Number(formatUnits(amountsWei[kiltIndex], 18)).toFixed(4) : '0',
+      };
+    } catch (error) {
+      console.error('Multi-token reward claim failed:', error);
+
+      let errorMessage = 'Failed to claim rewards';
+      if (error instanceof Error) {
+        if (error.message.includes('User denied')) {
+          errorMessage = 'Transaction cancelled by user';
+        } else if (error.message.includes('insufficient funds')) {
+          errorMessage = 'Insufficient ETH for gas fees';
+        } else {
+          errorMessage = error.message;
+        }
+      }
+
+      toast({
+        title: "Claim Failed",
+        description: errorMessage,
+        variant: "destructive",
+      });
+
+      return {
+        success: false,
+        error: errorMessage
+      };
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
   return {
     claimRewards,
+    claimAllTokenRewards,
     checkClaimability,
     isClaiming,
     isCheckingClaimability,
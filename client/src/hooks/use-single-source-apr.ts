@@ -22,6 +22,7 @@ interface SingleSourceAPRData {
   maxTheoreticalAPR: number;
   
   // Metadata
+  programId?: number;
   source: string;
   timestamp: number;
   totalParticipants: number;
@@ -37,10 +38,11 @@ interface ExpectedReturnsDisplay {
 
 /**
  * Get official program APR - use this for all Expected Returns displays
+ * (defaults to the primary incentive program)
  */
-export function useOfficialAPR() {
+export function useOfficialAPR(programId?: number) {
   return useQuery<SingleSourceAPRData>({
-    queryKey: ['/api/apr/official'],
+    queryKey: [programId ? `/api/apr/official?programId=${programId}` : '/api/apr/official'],
     staleTime: 30000, // 30 seconds
     refetchInterval: 60000, // 1 minute
   });
@@ -49,9 +51,9 @@ export function useOfficialAPR() {
 /**
  * Get formatted Expected Returns data - use this for Expected Returns components
  */
-export function useExpectedReturns() {
+export function useExpectedReturns(programId?: number) {
   return useQuery<ExpectedReturnsDisplay>({
-    queryKey: ['/api/apr/expected-returns'],
+    queryKey: [programId ? `/api/apr/expected-returns?programId=${programId}` : '/api/apr/expected-returns'],
     staleTime: 30000, // 30 seconds
     refetchInterval: 60000, // 1 minute
   });
@@ -392,7 +392,9 @@ export function useUniswapV3() {
     amount1Min: bigint,
     recipient: `0x${string}`,
     deadline: number,
-    useNativeETH?: boolean
+    useNativeETH?: boolean,
+    // Pool of the incentive program the position joins - defaults to the configured KILT/ETH pool
+    poolAddress?: string
   }) => {
     setIsMinting(true);
     try {
@@ -627,7 +629,7 @@ export function useUniswapV3() {
             const registrationData = {
               userId: userData.user.id,
               nftTokenId: tokenId,
-              poolAddress: POOL_ADDRESS,
+              poolAddress: params.poolAddress ?? POOL_ADDRESS,
               token0Address: params.token0,
               token1Address: params.token1,
               token0Amount: params.amount0Desired,
@@ -1477,6 +1479,109 @@ export function useUniswapV3() {
         throw error;
       }
     },
+    // Send a server-built rebalance plan in order, then register the minted position so it
+    // keeps the old position's time boost. onStep reports progress as each transaction confirms.
+    executeRebalance: async (
+      plan: { nftTokenId: string; chainId: number; poolAddress: string; transactions: Array<{ step: string; description: string; to: string; data: `0x${string}`; value: string; gasLimit: string }> },
+      onStep?: (index: number, status: 'pending' | 'confirmed') => void
+    ) => {
+      if (!address) throw new Error('Wallet not connected');
+      if (plan.chainId !== base.id) throw new Error('Rebalancing is only available for Base positions');
+
+      try {
+        const walletClient = createWalletClient({
+          account: address as `0x${string}`,
+          chain: base,
+          transport: custom(window.ethereum),
+        });
+
+        let newTokenId: string | null = null;
+        let mintHash: string | null = null;
+        for (const [index, tx] of plan.transactions.entries()) {
+          onStep?.(index, 'pending');
+          console.log(`🔄 Rebalance step ${index + 1}/${plan.transactions.length}: ${tx.description}`);
+          const hash = await walletClient.sendTransaction({
+            to: tx.to as `0x${string}`,
+            data: tx.data,
+            value: BigInt(tx.value),
+            gas: BigInt(tx.gasLimit),
+            account: address as `0x${string}`,
+          });
+          const receipt = await baseClient.waitForTransactionReceipt({ hash });
+          if (receipt.status !== 'success') {
+            throw new Error(`Rebalance step failed: ${tx.description}`);
+          }
+          onStep?.(index, 'confirmed');
+
+          if (tx.step === 'mint') {
+            mintHash = hash;
+            const transfer = receipt.logs.find(log =>
+              log.address.toLowerCase() === UNISWAP_V3_POSITION_MANAGER.toLowerCase() &&
+              log.topics[0] === '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef' &&
+              log.topics[3]
+            );
+            newTokenId = transfer?.topics[3] ? BigInt(transfer.topics[3]).toString() : null;
+          }
+        }
+
+        if (!newTokenId) throw new Error('Rebalance minted no new position');
+
+        // Register the new position with a link back to the one it replaces
+        const userResponse = await fetch(`/api/users/address/${address}`);
+        const userData = await userResponse.json();
+        if (userData.success && userData.user) {
+          const [, , token0, token1, fee, tickLower, tickUpper, liquidity] = await baseClient.readContract({
+            address: UNISWAP_V3_POSITION_MANAGER as `0x${string}`,
+            abi: POSITION_MANAGER_ABI,
+            functionName: 'positions',
+            args: [BigInt(newTokenId)],
+          });
+          const registerResponse = await fetch('/api/positions/create-app-position', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              userId: userData.user.id,
+              nftTokenId: newTokenId,
+              poolAddress: plan.poolAddress,
+              token0Address: token0,
+              token1Address: token1,
+              tickLower,
+              tickUpper,
+              feeTier: fee,
+              liquidity: liquidity.toString(),
+              currentValueUSD: "0", // Will be calculated
+              userAddress: address,
+              transactionHash: mintHash,
+              rebalancedFromNftTokenId: plan.nftTokenId
+            })
+          });
+          const result = registerResponse.ok ? await registerResponse.json() : null;
+          if (result?.rebalance && !result.rebalance.success) {
+            console.warn(`⚠️ Time boost was not carried over to ${newTokenId}: ${result.rebalance.error}`);
+          }
+
+          const { queryClient } = await import('@/lib/queryClient');
+          await Promise.all([
+            queryClient.invalidateQueries({ queryKey: ['/api/positions/wallet', address] }),
+            queryClient.invalidateQueries({ queryKey: ['/api/positions/eligible', address] }),
+            queryClient.invalidateQueries({ queryKey: [`/api/rewards/user`, userData.user.id, 'stats'] })
+          ]);
+        }
+
+        toast({
+          title: "Position Rebalanced!",
+          description: `Position #${plan.nftTokenId} moved to new position #${newTokenId}`,
+        });
+        return newTokenId;
+      } catch (error) {
+        toast({
+          title: "Rebalance Failed",
+          description: (error as Error)?.message || 'Failed to rebalance position',
+          variant: "destructive",
+        });
+        throw error;
+      }
+    },
     burnPosition: async (params: { tokenId: string }) => {
       if (!address || !params.tokenId) {
         throw new Error('Address or token ID not available');
@@ -1,9 +1,33 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Routes guarded by the server-side SIWE admin session
+const ADMIN_SESSION_ROUTES = ['/api/admin/', '/api/treasury/', '/api/rewards/treasury/', '/api/rewards/distribute', '/api/rewards/daily-distribution'];
+
+export function requiresAdminSession(url: string): boolean {
+  return ADMIN_SESSION_ROUTES.some(route => url.includes(route));
+}
+
+// Error responses use the server's envelope { success: false, error: { code, message } };
+// a few older endpoints still send { error: "message" }
+export function apiErrorMessage(body: unknown, fallback: string): string {
+  const error = (body as { error?: unknown } | null)?.error;
+  if (typeof error === 'string') return error;
+  if (error && typeof (error as { message?: unknown }).message === 'string') {
+    return (error as { message: string }).message;
+  }
+  return fallback;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let message = text;
+    try {
+      message = apiErrorMessage(JSON.parse(text), text);
+    } catch {
+      // Not JSON - keep the raw text
+    }
+    throw new Error(`${res.status}: ${message}`);
   }
 }
 
@@ -16,9 +40,9 @@ export async function apiRequest<T = unknown>(
 ): Promise<T> {
   const headers: HeadersInit = options?.data ? { "Content-Type": "application/json" } : {};
   
-  // Add admin token for admin routes
-  if (url.includes('/api/admin/')) {
-    const adminToken = localStorage.getItem('admin-token');
+  // Add admin session token for admin routes
+  if (requiresAdminSession(url)) {
+    const adminToken = localStorage.getItem('admin_token');
     if (adminToken) {
       headers.Authorization = `Bearer ${adminToken}`;
     }
@@ -66,9 +90,9 @@ export const getQueryFn: <T>(options: {
   async ({ queryKey }) => {
     const headers: HeadersInit = { "Content-Type": "application/json" };
     
-    // Add admin token for admin routes
-    if (typeof queryKey[0] === 'string' && queryKey[0].includes('/api/admin/')) {
-      const adminToken = localStorage.getItem('admin-token');
+    // Add admin session token for admin routes
+    if (typeof queryKey[0] === 'string' && requiresAdminSession(queryKey[0])) {
+      const adminToken = localStorage.getItem('admin_token');
       if (adminToken) {
         headers.Authorization = `Bearer ${adminToken}`;
       }
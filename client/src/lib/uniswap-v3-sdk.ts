@@ -2,6 +2,7 @@ import { Token, CurrencyAmount, Price, Percent } from '@uniswap/sdk-core';
 import { Pool, Position, nearestUsableTick, TickMath, TICK_SPACINGS } from '@uniswap/v3-sdk';
 import { NonfungiblePositionManager } from '@uniswap/v3-sdk';
 import { ethers } from 'ethers';
+import { calculateTickRange } from '@shared/range-strategies';
 import { base } from 'viem/chains';
 
 // Token definitions for Base network
@@ -74,41 +75,7 @@ export class UniswapV3SDKService {
    * Calculate tick range for a given strategy
    */
   calculateTickRange(strategy: string, currentTick: number, tickSpacing: number): { tickLower: number; tickUpper: number } {
-    let tickLower: number;
-    let tickUpper: number;
-
-    switch (strategy) {
-      case 'Balanced (±50%)':
-        const range50 = Math.floor(Math.log(1.5) / Math.log(1.0001));
-        tickLower = currentTick - range50;
-        tickUpper = currentTick + range50;
-        break;
-      case 'Wide (±100%)':
-        const range100 = Math.floor(Math.log(2.0) / Math.log(1.0001));
-        tickLower = currentTick - range100;
-        tickUpper = currentTick + range100;
-        break;
-      case 'Narrow (±25%)':
-        const range25 = Math.floor(Math.log(1.25) / Math.log(1.0001));
-        tickLower = currentTick - range25;
-        tickUpper = currentTick + range25;
-        break;
-      case 'Full Range':
-        tickLower = TickMath.MIN_TICK;
-        tickUpper = TickMath.MAX_TICK;
-        break;
-      default:
-        // Default to balanced
-        const rangeDefault = Math.floor(Math.log(1.5) / Math.log(1.0001));
-        tickLower = currentTick - rangeDefault;
-        tickUpper = currentTick + rangeDefault;
-    }
-
-    // Ensure ticks are usable (aligned to tick spacing)
-    tickLower = nearestUsableTick(tickLower, tickSpacing);
-    tickUpper = nearestUsableTick(tickUpper, tickSpacing);
-
-    return { tickLower, tickUpper };
+    return calculateTickRange(strategy, currentTick, tickSpacing);
   }
 
   /**
@@ -4,6 +4,7 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
+import { apiErrorMessage } from '@/lib/queryClient';
 
 export default function AdminRewards() {
   const [userAddress, setUserAddress] = useState('');
@@ -53,7 +54,7 @@ export default function AdminRewards() {
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || 'Failed to distribute rewards');
+        throw new Error(apiErrorMessage(error, 'Failed to distribute rewards'));
       }
 
       const result = await response.json();
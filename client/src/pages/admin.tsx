@@ -1,20 +1,26 @@
 import { useState, useEffect } from "react";
+import { useSignMessage } from "wagmi";
+import { createSiweMessage } from "viem/siwe";
 import { useWagmiWallet } from "@/hooks/use-wagmi-wallet";
 import { CyberpunkAdminPanel } from "@/components/cyberpunk-admin-panel";
+import { apiErrorMessage } from "@/lib/queryClient";
+
+interface AdminSessionInfo {
+  walletAddress: string;
+  expiresAt: string;
+}
 
 export default function AdminPage() {
-  const { isConnected, address, connect, connectors } = useWagmiWallet();
+  const { isConnected, address, connect, connectors, chainId } = useWagmiWallet();
+  const { signMessageAsync } = useSignMessage();
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
-  // Authorized admin wallets (hidden from UI for security)
-  const authorizedWallets = [
-    '0x5bF25Dc1BAf6A96C5A0F724E05EcF4D456c7652e',
-    '0x861722f739539CF31d86F1221460Fa96C9baB95C',
-    '0xAFff1831e663B6F29fb90871Ea8518e8f8B3b71a',  // Contract owner wallet
-    '0xD117738595dfAFe4c2f96bcF63Ed381788E08d39'   // User-requested admin access
-  ];
+  const clearSession = () => {
+    localStorage.removeItem('admin_token');
+    localStorage.removeItem('admin_wallet');
+  };
 
   const handleMetaMaskLogin = async () => {
     setIsLoading(true);
@@ -38,30 +44,35 @@ export default function AdminPage() {
         await new Promise(resolve => setTimeout(resolve, 1000));
       }
 
-      // Check if wallet is now connected and authorized
       if (!address) {
         setError('Wallet connection failed. Please try again.');
         return;
       }
 
-      // Debug: Show the actual connected address
-      console.log('Connected address:', address);
-      console.log('Authorized wallets:', authorizedWallets);
-      
-      // Check authorization with case-insensitive comparison
-      const normalizedAddress = address.toLowerCase();
-      const normalizedAuthorizedWallets = authorizedWallets.map(addr => addr.toLowerCase());
-      
-      if (!normalizedAuthorizedWallets.includes(normalizedAddress)) {
-        setError(`Access denied. Connected wallet: ${address.slice(0, 6)}...${address.slice(-4)} is not authorized for admin access.`);
+      // Sign-In With Ethereum: fetch a single-use nonce, sign it, and let the server verify
+      const nonceResponse = await fetch('/api/admin/auth/nonce');
+      if (!nonceResponse.ok) {
+        setError('Could not start admin authentication');
         return;
       }
+      const { nonce } = await nonceResponse.json();
+
+      const message = createSiweMessage({
+        domain: window.location.host,
+        address,
+        statement: 'Sign in to the KILT Liquidity Portal admin terminal.',
+        uri: window.location.origin,
+        version: '1',
+        chainId,
+        nonce,
+        issuedAt: new Date()
+      });
+      const signature = await signMessageAsync({ message });
 
-      // Authenticate with backend
       const response = await fetch('/api/admin/login', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ walletAddress: address })
+        body: JSON.stringify({ message, signature })
       });
       
       const data = await response.json();
@@ -69,9 +80,9 @@ export default function AdminPage() {
       if (data.success) {
         setIsAuthenticated(true);
         localStorage.setItem('admin_token', data.token);
-        localStorage.setItem('admin_wallet', address);
+        localStorage.setItem('admin_wallet', data.walletAddress);
       } else {
-        setError(data.error || 'Authentication failed');
+        setError(apiErrorMessage(data, 'Authentication failed'));
       }
     } catch (err) {
       setError('MetaMask authentication failed');
@@ -80,15 +91,25 @@ export default function AdminPage() {
     }
   };
 
-  // Auto-authenticate if wallet is already connected and authorized
+  // Resume an existing server-side session if it is still valid for the connected wallet
   const checkAutoAuth = async () => {
-    if (isConnected && address && authorizedWallets.includes(address)) {
-      const existingToken = localStorage.getItem('admin_token');
-      const existingWallet = localStorage.getItem('admin_wallet');
-      
-      if (existingToken && existingWallet === address) {
+    const existingToken = localStorage.getItem('admin_token');
+    if (!isConnected || !address || !existingToken) return;
+
+    try {
+      const response = await fetch('/api/admin/session', {
+        headers: { Authorization: `Bearer ${existingToken}` }
+      });
+      if (!response.ok) {
+        clearSession();
+        return;
+      }
+      const session: AdminSessionInfo = await response.json();
+      if (session.walletAddress === address.toLowerCase()) {
         setIsAuthenticated(true);
       }
+    } catch {
+      // Network failure - keep the token and let the user sign in again if needed
     }
   };
 
@@ -152,11 +173,7 @@ export default function AdminPage() {
                   <span>WALLET:</span>
                   <span>{address.slice(0, 6)}...{address.slice(-4)}</span>
                 </div>
-                {authorizedWallets.map(addr => addr.toLowerCase()).includes(address.toLowerCase()) ? (
-                  <div className="text-green-400 text-xs mt-1">✓ AUTHORIZED ADMIN WALLET</div>
-                ) : (
-                  <div className="text-red-400 text-xs mt-1">✗ UNAUTHORIZED WALLET</div>
-                )}
+                <div className="text-green-400/70 text-xs mt-1">SIGN A SIWE MESSAGE TO VERIFY ADMIN ACCESS</div>
               </div>
             ) : (
               <div className="p-3 bg-red-900/20 border border-red-500/50 rounded text-red-400 font-mono text-sm text-center">
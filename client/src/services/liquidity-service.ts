@@ -1,4 +1,5 @@
 import { TOKENS } from '@/lib/uniswap-v3';
+import { apiErrorMessage } from '@/lib/queryClient';
 
 export interface LiquidityParams {
   kiltAmount: string;
@@ -168,7 +169,7 @@ export class LiquidityService {
 
         return true;
       } else {
-        throw new Error(result.error || 'Failed to create position');
+        throw new Error(apiErrorMessage(result, 'Failed to create position'));
       }
     } catch (error: any) {
       toast({
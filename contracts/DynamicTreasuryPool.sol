@@ -4,8 +4,8 @@ pragma solidity ^0.8.19;
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
-import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
 
 /**
  * @title DynamicTreasuryPool
@@ -16,6 +16,10 @@ import "@openzeppelin/contracts/security/Pausable.sol";
  * - Signature malleability protection
  * - Overflow protection
  * Rewards are calculated in real-time based on liquidity positions and can be claimed instantly.
+ * Programs paying partner tokens alongside KILT claim every token in one signed transaction
+ * through claimMultiTokenRewards; KILT keeps its original claimedAmount accounting.
+ * Every nonce consumed emits exactly one RewardClaimed with the KILT paid (zero for partner-only
+ * claims), so indexers of RewardClaimed see contiguous nonces and a matching claimedAmount.
  */
 contract DynamicTreasuryPool is Ownable, ReentrancyGuard, Pausable {
     using SafeERC20 for IERC20;
@@ -40,6 +44,14 @@ contract DynamicTreasuryPool is Ownable, ReentrancyGuard, Pausable {
     uint256 public totalClaimsProcessed;
     uint256 public totalAmountClaimed;
     
+    // Additional reward tokens (KILT is always supported and uses claimedAmount/absoluteMaxClaim)
+    mapping(address => bool) public supportedRewardTokens;
+    mapping(address => uint256) public tokenMaxClaim;
+    mapping(address => mapping(address => uint256)) public claimedTokenAmount; // user => token => claimed
+    mapping(address => uint256) public totalTokenClaimed;
+    address[] private rewardTokenList;
+    uint256 public constant MAX_TOKENS_PER_CLAIM = 10;
+    
     // Constants for signature validation
     uint256 private constant SIGNATURE_MALLEABILITY_THRESHOLD = 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
     
@@ -52,6 +64,12 @@ contract DynamicTreasuryPool is Ownable, ReentrancyGuard, Pausable {
     event ClaimLimitsUpdated(uint256 absoluteMax);
     event ContractPaused();
     event ContractUnpaused();
+    event RewardTokenAdded(address indexed token, uint256 maxClaim);
+    event RewardTokenRemoved(address indexed token);
+    event RewardTokenMaxClaimUpdated(address indexed token, uint256 maxClaim);
+    event TokenRewardClaimed(address indexed user, address indexed token, uint256 amount, uint256 claimedAmount, uint256 nonce, uint256 timestamp);
+    event TokenTreasuryDeposit(address indexed token, uint256 amount);
+    event TokenTreasuryWithdraw(address indexed token, uint256 amount);
     
     // Modifiers
     modifier validAddress(address addr) {
@@ -160,6 +178,74 @@ contract DynamicTreasuryPool is Ownable, ReentrancyGuard, Pausable {
         emit RewardClaimed(msg.sender, totalRewardBalance, claimedAmount[msg.sender], currentNonce, block.timestamp);
     }
     
+    /**
+     * @dev Claim unclaimed balances of several reward tokens in one transaction
+     * @param tokens Reward tokens in strictly ascending address order (KILT allowed)
+     * @param amounts Unclaimed balance per token (calculated by backend)
+     * @param signature Signature from authorized calculator over the token list, amounts and nonce
+     */
+    function claimMultiTokenRewards(
+        address[] calldata tokens,
+        uint256[] calldata amounts,
+        bytes calldata signature
+    ) external nonReentrant whenNotPaused {
+        require(tokens.length > 0, "No rewards to claim");
+        require(tokens.length == amounts.length, "Length mismatch");
+        require(tokens.length <= MAX_TOKENS_PER_CLAIM, "Too many tokens");
+        
+        // Verify signature with nonce-based replay protection (shared with claimRewards)
+        uint256 currentNonce = nonces[msg.sender];
+        bytes32 messageHash = _createMultiTokenMessageHash(msg.sender, tokens, amounts, currentNonce);
+        address signer = _recoverSignerOptimized(messageHash, signature);
+        require(authorizedCalculators[signer], "Invalid calculator signature");
+        
+        require(currentNonce < type(uint256).max, "Nonce overflow");
+        require(totalClaimsProcessed < type(uint256).max, "Claims processed overflow");
+        
+        // Update state before transfers (CEI pattern)
+        nonces[msg.sender] += 1;
+        totalClaimsProcessed += 1;
+        lastClaimTime[msg.sender] = block.timestamp;
+        
+        uint256 kiltClaimed = 0;
+        address previous = address(0);
+        for (uint256 i = 0; i < tokens.length; i++) {
+            address token = tokens[i];
+            uint256 amount = amounts[i];
+            
+            // Ascending order rules out a token being paid twice
+            require(token > previous, "Tokens must be sorted and unique");
+            previous = token;
+            
+            require(amount > 0, "No rewards to claim");
+            require(token == address(kiltToken) || supportedRewardTokens[token], "Unsupported reward token");
+            require(amount <= _maxClaimFor(token), "Reward balance exceeds maximum claim limit");
+            require(IERC20(token).balanceOf(address(this)) >= amount, "Insufficient contract balance");
+            
+            uint256 claimedTotal;
+            if (token == address(kiltToken)) {
+                require(claimedAmount[msg.sender] <= type(uint256).max - amount, "Claimed amount overflow");
+                require(totalAmountClaimed <= type(uint256).max - amount, "Total amount overflow");
+                claimedAmount[msg.sender] += amount;
+                totalAmountClaimed += amount;
+                claimedTotal = claimedAmount[msg.sender];
+                kiltClaimed = amount;
+            } else {
+                require(claimedTokenAmount[msg.sender][token] <= type(uint256).max - amount, "Claimed amount overflow");
+                require(totalTokenClaimed[token] <= type(uint256).max - amount, "Total amount overflow");
+                claimedTokenAmount[msg.sender][token] += amount;
+                totalTokenClaimed[token] += amount;
+                claimedTotal = claimedTokenAmount[msg.sender][token];
+            }
+            
+            IERC20(token).safeTransfer(msg.sender, amount);
+            
+            emit TokenRewardClaimed(msg.sender, token, amount, claimedTotal, currentNonce, block.timestamp);
+        }
+        
+        emit RewardClaimed(msg.sender, kiltClaimed, claimedAmount[msg.sender], currentNonce, block.timestamp);
+    }
+    
     /**
      * @dev Emergency claim function for owner - claims user's full reward balance
      */
@@ -221,6 +307,71 @@ contract DynamicTreasuryPool is Ownable, ReentrancyGuard, Pausable {
         return rewardBalance <= absoluteMaxClaim && rewardBalance > 0;
     }
     
+    /**
+     * @dev Total claimed of one reward token - KILT reads the original claimedAmount
+     */
+    function getClaimedTokenAmount(address user, address token) external view validAddress(user) returns (uint256) {
+        return token == address(kiltToken) ? claimedAmount[user] : claimedTokenAmount[user][token];
+    }
+    
+    /**
+     * @dev KILT followed by every supported additional reward token
+     */
+    function getRewardTokens() external view returns (address[] memory tokens) {
+        tokens = new address[](rewardTokenList.length + 1);
+        tokens[0] = address(kiltToken);
+        for (uint256 i = 0; i < rewardTokenList.length; i++) {
+            tokens[i + 1] = rewardTokenList[i];
+        }
+    }
+    
+    /**
+     * @dev Add an additional reward token with its per-claim maximum (owner only)
+     */
+    function addRewardToken(address token, uint256 maxClaim) external onlyOwner validAddress(token) {
+        require(token != address(kiltToken), "KILT is always supported");
+        require(!supportedRewardTokens[token], "Token already supported");
+        require(maxClaim > 0, "Max claim must be greater than 0");
+        require(rewardTokenList.length + 1 < MAX_TOKENS_PER_CLAIM, "Too many reward tokens");
+        
+        supportedRewardTokens[token] = true;
+        tokenMaxClaim[token] = maxClaim;
+        rewardTokenList.push(token);
+        
+        emit RewardTokenAdded(token, maxClaim);
+    }
+    
+    /**
+     * @dev Stop paying an additional reward token - its balance stays withdrawable (owner only)
+     */
+    function removeRewardToken(address token) external onlyOwner validAddress(token) {
+        require(supportedRewardTokens[token], "Token not supported");
+        
+        supportedRewardTokens[token] = false;
+        delete tokenMaxClaim[token];
+        for (uint256 i = 0; i < rewardTokenList.length; i++) {
+            if (rewardTokenList[i] == token) {
+                rewardTokenList[i] = rewardTokenList[rewardTokenList.length - 1];
+                rewardTokenList.pop();
+                break;
+            }
+        }
+        
+        emit RewardTokenRemoved(token);
+    }
+    
+    /**
+     * @dev Update the per-claim maximum of an additional reward token (owner only)
+     */
+    function updateTokenMaxClaim(address token, uint256 maxClaim) external onlyOwner {
+        require(supportedRewardTokens[token], "Token not supported");
+        require(maxClaim > 0, "Max claim must be greater than 0");
+        
+        tokenMaxClaim[token] = maxClaim;
+        
+        emit RewardTokenMaxClaimUpdated(token, maxClaim);
+    }
+    
     /**
      * @dev Deposit KILT tokens to the treasury (owner only)
      * @param amount Amount of KILT tokens to deposit
@@ -233,6 +384,42 @@ contract DynamicTreasuryPool is Ownable, ReentrancyGuard, Pausable {
         emit TreasuryDeposit(amount);
     }
     
+    /**
+     * @dev Deposit an additional reward token to the treasury (owner only)
+     */
+    function depositTokenTreasury(address token, uint256 amount) external onlyOwner {
+        require(supportedRewardTokens[token], "Token not supported");
+        require(amount > 0, "Amount must be greater than 0");
+        
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        
+        emit TokenTreasuryDeposit(token, amount);
+    }
+    
+    /**
+     * @dev Emergency withdraw of any non-KILT token, including removed reward tokens (owner only)
+     * @param amount Amount to withdraw (0 = withdraw all)
+     */
+    function emergencyWithdrawToken(address token, uint256 amount) external onlyOwner validAddress(token) {
+        require(token != address(kiltToken), "Use emergencyWithdraw for KILT");
+        uint256 balance = IERC20(token).balanceOf(address(this));
+        require(balance > 0, "No tokens to withdraw");
+        
+        uint256 withdrawAmount = amount == 0 ? balance : amount;
+        require(withdrawAmount <= balance, "Insufficient balance");
+        
+        IERC20(token).safeTransfer(owner(), withdrawAmount);
+        
+        emit TokenTreasuryWithdraw(token, withdrawAmount);
+    }
+    
+    /**
+     * @dev Contract balance of any reward token
+     */
+    function getTokenBalance(address token) external view returns (uint256) {
+        return IERC20(token).balanceOf(address(this));
+    }
+    
     /**
      * @dev Emergency withdraw (owner only)
      * @param amount Amount to withdraw (0 = withdraw all)
@@ -308,6 +495,31 @@ contract DynamicTreasuryPool is Ownable, ReentrancyGuard, Pausable {
         ));
     }
     
+    /**
+     * @dev Multi-token claims sign the packed token and amount arrays. The 116-byte preimage can
+     * never collide with the 84-byte single-claim preimage.
+     */
+    function _createMultiTokenMessageHash(
+        address user,
+        address[] calldata tokens,
+        uint256[] calldata amounts,
+        uint256 nonce
+    ) internal pure returns (bytes32) {
+        return keccak256(abi.encodePacked(
+            "\x19Ethereum Signed Message:\n32",
+            keccak256(abi.encodePacked(
+                user,
+                keccak256(abi.encodePacked(tokens)),
+                keccak256(abi.encodePacked(amounts)),
+                nonce
+            ))
+        ));
+    }
+    
+    function _maxClaimFor(address token) internal view returns (uint256) {
+        return token == address(kiltToken) ? absoluteMaxClaim : tokenMaxClaim[token];
+    }
+    
     /**
      * @dev Optimized signature recovery with malleability protection
      */
@@ -0,0 +1,283 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
+/**
+ * @title MerkleTreasuryPool
+ * @dev Epoch-based KILT reward distribution, an alternative to DynamicTreasuryPool's
+ * per-claim calculator signatures:
+ * - The backend publishes one Merkle root per epoch over every user's cumulative reward balance
+ * - Users claim with a proof, in one or several payments, up to the difference to what they already claimed
+ * - Cumulative balances make stale proofs harmless - replaying an older epoch pays nothing
+ * - Root publishers are authorized with the same time delay as DynamicTreasuryPool calculators
+ * The publishing key is only needed once per epoch instead of being online for every claim.
+ */
+contract MerkleTreasuryPool is Ownable, ReentrancyGuard, Pausable {
+    using SafeERC20 for IERC20;
+    IERC20 public immutable kiltToken;
+
+    // Root publisher authorization with time delays
+    mapping(address => bool) public authorizedPublishers;
+    mapping(address => uint256) public pendingPublisherActivation;
+    uint256 public constant PUBLISHER_ACTIVATION_DELAY = 1 hours;
+
+    // Current distribution epoch
+    bytes32 public merkleRoot;
+    uint256 public currentEpoch;
+    uint256 public epochTotalCumulative; // Sum of all cumulative balances in the current tree
+    uint256 public lastRootUpdate;
+
+    // User tracking - cumulative amount paid out per user
+    mapping(address => uint256) public claimedAmount;
+    mapping(address => uint256) public lastClaimTime;
+
+    // Absolute maximum paid per claim transaction (prevents treasury drainage)
+    uint256 public absoluteMaxClaim = 100000 * 10**18; // 100,000 KILT absolute maximum
+
+    // Analytics tracking
+    uint256 public totalClaimsProcessed;
+    uint256 public totalAmountClaimed;
+
+    // Events
+    event MerkleRootPublished(uint256 indexed epoch, bytes32 merkleRoot, uint256 totalCumulative, address indexed publisher);
+    event RewardClaimed(address indexed user, uint256 amount, uint256 claimedAmount, uint256 epoch, uint256 timestamp);
+    event PublisherAuthorized(address indexed publisher, bool authorized);
+    event PublisherPending(address indexed publisher, uint256 activationTime);
+    event TreasuryDeposit(uint256 amount);
+    event TreasuryWithdraw(uint256 amount);
+    event ClaimLimitsUpdated(uint256 absoluteMax);
+    event ContractPaused();
+    event ContractUnpaused();
+
+    // Modifiers
+    modifier validAddress(address addr) {
+        require(addr != address(0), "Invalid address");
+        _;
+    }
+
+    modifier onlyPublisher() {
+        require(authorizedPublishers[msg.sender] || msg.sender == owner(), "Not authorized to publish");
+        _;
+    }
+
+    constructor(
+        address _kiltToken,
+        address _owner
+    ) Ownable(_owner) {
+        require(_kiltToken != address(0), "Invalid token address");
+        require(_owner != address(0), "Invalid owner address");
+
+        kiltToken = IERC20(_kiltToken);
+    }
+
+    /**
+     * @dev Set pending publisher authorization with time delay (security measure)
+     */
+    function setPendingPublisherAuthorization(address publisher) external onlyOwner validAddress(publisher) {
+        require(!authorizedPublishers[publisher], "Publisher already authorized");
+
+        uint256 activationTime = block.timestamp + PUBLISHER_ACTIVATION_DELAY;
+        pendingPublisherActivation[publisher] = activationTime;
+
+        emit PublisherPending(publisher, activationTime);
+    }
+
+    /**
+     * @dev Activate pending publisher after delay period
+     */
+    function activatePendingPublisher(address publisher) external onlyOwner validAddress(publisher) {
+        require(pendingPublisherActivation[publisher] != 0, "No pending authorization");
+        require(block.timestamp >= pendingPublisherActivation[publisher], "Activation delay not met");
+
+        authorizedPublishers[publisher] = true;
+        delete pendingPublisherActivation[publisher];
+
+        emit PublisherAuthorized(publisher, true);
+    }
+
+    /**
+     * @dev Immediately revoke publisher authorization (security measure)
+     */
+    function revokePublisherAuthorization(address publisher) external onlyOwner validAddress(publisher) {
+        authorizedPublishers[publisher] = false;
+        delete pendingPublisherActivation[publisher];
+
+        emit PublisherAuthorized(publisher, false);
+    }
+
+    /**
+     * @dev Update absolute maximum claim limit (owner only)
+     */
+    function updateAbsoluteMaxClaim(uint256 _absoluteMaxClaim) external onlyOwner {
+        require(_absoluteMaxClaim > 0, "Max claim must be greater than 0");
+
+        absoluteMaxClaim = _absoluteMaxClaim;
+
+        emit ClaimLimitsUpdated(_absoluteMaxClaim);
+    }
+
+    /**
+     * @dev Publish the Merkle root for the next epoch
+     * @param epoch Must be exactly currentEpoch + 1 so roots cannot be replayed or skipped
+     * @param root Root over leaves keccak256(bytes.concat(keccak256(abi.encode(user, cumulativeAmount))))
+     * @param totalCumulative Sum of all cumulative balances in the tree (for monitoring)
+     */
+    function publishMerkleRoot(
+        uint256 epoch,
+        bytes32 root,
+        uint256 totalCumulative
+    ) external onlyPublisher {
+        require(root != bytes32(0), "Invalid merkle root");
+        require(epoch == currentEpoch + 1, "Epoch must increase by one");
+        require(totalCumulative >= epochTotalCumulative, "Cumulative total cannot decrease");
+
+        merkleRoot = root;
+        currentEpoch = epoch;
+        epochTotalCumulative = totalCumulative;
+        lastRootUpdate = block.timestamp;
+
+        emit MerkleRootPublished(epoch, root, totalCumulative, msg.sender);
+    }
+
+    /**
+     * @dev Claim part or all of what accrued up to the current epoch. Balances above
+     * absoluteMaxClaim are paid out over several claims.
+     * @param cumulativeAmount User's cumulative reward balance in the current tree
+     * @param amount Amount to pay now - at most cumulativeAmount minus what was already claimed
+     * @param proof Merkle proof for (msg.sender, cumulativeAmount)
+     */
+    function claimRewards(
+        uint256 cumulativeAmount,
+        uint256 amount,
+        bytes32[] calldata proof
+    ) external nonReentrant whenNotPaused {
+        require(merkleRoot != bytes32(0), "No merkle root published");
+        require(_verify(msg.sender, cumulativeAmount, proof), "Invalid merkle proof");
+        require(cumulativeAmount > claimedAmount[msg.sender], "No rewards to claim");
+        require(amount > 0, "Amount must be greater than 0");
+        require(amount <= cumulativeAmount - claimedAmount[msg.sender], "Amount exceeds claimable balance");
+
+        // Absolute maximum claim limit (prevents treasury drainage)
+        require(amount <= absoluteMaxClaim, "Amount exceeds maximum claim limit");
+
+        // Check contract balance
+        require(kiltToken.balanceOf(address(this)) >= amount, "Insufficient contract balance");
+        require(totalAmountClaimed <= type(uint256).max - amount, "Total amount overflow");
+
+        // Update state before transfer (CEI pattern)
+        claimedAmount[msg.sender] += amount;
+        totalClaimsProcessed += 1;
+        totalAmountClaimed += amount;
+        lastClaimTime[msg.sender] = block.timestamp;
+
+        // Transfer KILT tokens to user using SafeERC20
+        kiltToken.safeTransfer(msg.sender, amount);
+
+        emit RewardClaimed(msg.sender, amount, claimedAmount[msg.sender], currentEpoch, block.timestamp);
+    }
+
+    // View functions
+    function verifyClaim(address user, uint256 cumulativeAmount, bytes32[] calldata proof) external view returns (bool) {
+        return _verify(user, cumulativeAmount, proof);
+    }
+
+    function getClaimableAmount(
+        address user,
+        uint256 cumulativeAmount,
+        bytes32[] calldata proof
+    ) external view validAddress(user) returns (uint256) {
+        if (!_verify(user, cumulativeAmount, proof) || cumulativeAmount <= claimedAmount[user]) {
+            return 0;
+        }
+        return cumulativeAmount - claimedAmount[user];
+    }
+
+    function getClaimedAmount(address user) external view validAddress(user) returns (uint256) {
+        return claimedAmount[user];
+    }
+
+    function getEpochInfo() external view returns (
+        uint256 epoch,
+        bytes32 root,
+        uint256 totalCumulative,
+        uint256 updatedAt
+    ) {
+        epoch = currentEpoch;
+        root = merkleRoot;
+        totalCumulative = epochTotalCumulative;
+        updatedAt = lastRootUpdate;
+    }
+
+    /**
+     * @dev Deposit KILT tokens to the treasury (owner only)
+     * @param amount Amount of KILT tokens to deposit
+     */
+    function depositTreasury(uint256 amount) external onlyOwner {
+        require(amount > 0, "Amount must be greater than 0");
+
+        kiltToken.safeTransferFrom(msg.sender, address(this), amount);
+
+        emit TreasuryDeposit(amount);
+    }
+
+    /**
+     * @dev Emergency withdraw (owner only)
+     * @param amount Amount to withdraw (0 = withdraw all)
+     */
+    function emergencyWithdraw(uint256 amount) external onlyOwner {
+        uint256 balance = kiltToken.balanceOf(address(this));
+        require(balance > 0, "No tokens to withdraw");
+
+        uint256 withdrawAmount = amount == 0 ? balance : amount;
+        require(withdrawAmount <= balance, "Insufficient balance");
+
+        kiltToken.safeTransfer(owner(), withdrawAmount);
+
+        emit TreasuryWithdraw(withdrawAmount);
+    }
+
+    /**
+     * @dev Get contract's KILT token balance
+     */
+    function getContractBalance() external view returns (uint256) {
+        return kiltToken.balanceOf(address(this));
+    }
+
+    /**
+     * @dev Emergency pause/unpause functions
+     */
+    function pause() external onlyOwner {
+        _pause();
+        emit ContractPaused();
+    }
+
+    function unpause() external onlyOwner {
+        _unpause();
+        emit ContractUnpaused();
+    }
+
+    /**
+     * @dev Get contract statistics for monitoring
+     */
+    function getContractStats() external view returns (
+        uint256 balance,
+        uint256 totalClaims,
+        uint256 totalAmount
+    ) {
+        balance = kiltToken.balanceOf(address(this));
+        totalClaims = totalClaimsProcessed;
+        totalAmount = totalAmountClaimed;
+    }
+
+    // Double-hashed leaves so a 64-byte leaf can never be passed off as an inner node
+    function _verify(address user, uint256 cumulativeAmount, bytes32[] calldata proof) internal view returns (bool) {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(user, cumulativeAmount))));
+        return MerkleProof.verifyCalldata(proof, merkleRoot, leaf);
+    }
+}
@@ -14,7 +14,8 @@ module.exports = {
   },
   networks: {
     hardhat: {
-      chainId: 1337,
+      // HARDHAT_CHAIN_ID=8453 makes a local node look like Base to the backend (fake-chain harness)
+      chainId: Number(process.env.HARDHAT_CHAIN_ID || 1337),
       gas: 12000000,
       blockGasLimit: 12000000,
       allowUnlimitedContractSize: true
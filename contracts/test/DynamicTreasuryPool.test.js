@@ -0,0 +1,317 @@
+// SPDX-License-Identifier: MIT
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+
+// Mirrors server/smart-contract-service.ts generateClaimSignature / generateMultiTokenClaimSignature
+async function signClaim(signer, user, amount, nonce) {
+  const hash = ethers.solidityPackedKeccak256(["address", "uint256", "uint256"], [user, amount, nonce]);
+  return signer.signMessage(ethers.getBytes(hash));
+}
+
+async function signMultiTokenClaim(signer, user, tokens, amounts, nonce) {
+  const hash = ethers.solidityPackedKeccak256(
+    ["address", "bytes32", "bytes32", "uint256"],
+    [
+      user,
+      ethers.solidityPackedKeccak256(["address[]"], [tokens]),
+      ethers.solidityPackedKeccak256(["uint256[]"], [amounts]),
+      nonce
+    ]
+  );
+  return signer.signMessage(ethers.getBytes(hash));
+}
+
+// Contract requires strictly ascending token addresses
+function sortClaims(claims) {
+  const sorted = [...claims].sort((a, b) => (BigInt(a.token) < BigInt(b.token) ? -1 : 1));
+  return { tokens: sorted.map(claim => claim.token), amounts: sorted.map(claim => claim.amount) };
+}
+
+describe("DynamicTreasuryPool", function () {
+  let treasuryPool;
+  let kiltToken;
+  let partnerToken;
+  let owner;
+  let calculator;
+  let user1;
+  let user2;
+  let unauthorized;
+
+  const INITIAL_SUPPLY = ethers.parseUnits("1000000", 18); // 1M tokens
+  const CALCULATOR_DELAY = 60 * 60; // 1 hour
+  const PARTNER_MAX_CLAIM = ethers.parseUnits("5000", 6);
+
+  beforeEach(async function () {
+    [owner, calculator, user1, user2, unauthorized] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    kiltToken = await MockERC20.deploy("KILT Protocol", "KILT", 18);
+    partnerToken = await MockERC20.deploy("Partner Token", "PRT", 6);
+    await kiltToken.waitForDeployment();
+    await partnerToken.waitForDeployment();
+
+    const DynamicTreasuryPool = await ethers.getContractFactory("DynamicTreasuryPool");
+    treasuryPool = await DynamicTreasuryPool.deploy(await kiltToken.getAddress(), owner.address);
+    await treasuryPool.waitForDeployment();
+
+    // Fund treasury with KILT
+    await kiltToken.mint(owner.address, INITIAL_SUPPLY);
+    await kiltToken.connect(owner).approve(await treasuryPool.getAddress(), INITIAL_SUPPLY);
+    await treasuryPool.connect(owner).depositTreasury(ethers.parseUnits("100000", 18));
+
+    // Partner token is minted to the owner, funded per test once supported
+    await partnerToken.mint(owner.address, ethers.parseUnits("100000", 6));
+    await partnerToken.connect(owner).approve(await treasuryPool.getAddress(), ethers.parseUnits("100000", 6));
+  });
+
+  async function authorizeCalculator() {
+    await treasuryPool.connect(owner).setPendingCalculatorAuthorization(calculator.address);
+    await ethers.provider.send("evm_increaseTime", [CALCULATOR_DELAY + 1]);
+    await ethers.provider.send("evm_mine");
+    await treasuryPool.connect(owner).activatePendingCalculator(calculator.address);
+  }
+
+  async function addPartnerToken() {
+    await treasuryPool.connect(owner).addRewardToken(await partnerToken.getAddress(), PARTNER_MAX_CLAIM);
+    await treasuryPool.connect(owner).depositTokenTreasury(await partnerToken.getAddress(), ethers.parseUnits("10000", 6));
+  }
+
+  describe("Reward Token Management", function () {
+    it("Should list KILT as the only reward token after deployment", async function () {
+      expect(await treasuryPool.getRewardTokens()).to.deep.equal([await kiltToken.getAddress()]);
+    });
+
+    it("Should allow owner to add a reward token", async function () {
+      await expect(treasuryPool.connect(owner).addRewardToken(await partnerToken.getAddress(), PARTNER_MAX_CLAIM))
+        .to.emit(treasuryPool, "RewardTokenAdded")
+        .withArgs(await partnerToken.getAddress(), PARTNER_MAX_CLAIM);
+
+      expect(await treasuryPool.supportedRewardTokens(await partnerToken.getAddress())).to.be.true;
+      expect(await treasuryPool.getRewardTokens()).to.deep.equal([
+        await kiltToken.getAddress(),
+        await partnerToken.getAddress()
+      ]);
+    });
+
+    it("Should reject KILT and duplicate reward tokens", async function () {
+      await expect(
+        treasuryPool.connect(owner).addRewardToken(await kiltToken.getAddress(), PARTNER_MAX_CLAIM)
+      ).to.be.revertedWith("KILT is always supported");
+
+      await treasuryPool.connect(owner).addRewardToken(await partnerToken.getAddress(), PARTNER_MAX_CLAIM);
+      await expect(
+        treasuryPool.connect(owner).addRewardToken(await partnerToken.getAddress(), PARTNER_MAX_CLAIM)
+      ).to.be.revertedWith("Token already supported");
+    });
+
+    it("Should not allow non-owner to add reward tokens", async function () {
+      await expect(
+        treasuryPool.connect(unauthorized).addRewardToken(await partnerToken.getAddress(), PARTNER_MAX_CLAIM)
+      ).to.be.revertedWithCustomError(treasuryPool, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should update a reward token's max claim", async function () {
+      await addPartnerToken();
+      await expect(treasuryPool.connect(owner).updateTokenMaxClaim(await partnerToken.getAddress(), PARTNER_MAX_CLAIM * 2n))
+        .to.emit(treasuryPool, "RewardTokenMaxClaimUpdated")
+        .withArgs(await partnerToken.getAddress(), PARTNER_MAX_CLAIM * 2n);
+
+      expect(await treasuryPool.tokenMaxClaim(await partnerToken.getAddress())).to.equal(PARTNER_MAX_CLAIM * 2n);
+    });
+
+    it("Should only accept deposits of supported tokens", async function () {
+      await expect(
+        treasuryPool.connect(owner).depositTokenTreasury(await partnerToken.getAddress(), 1n)
+      ).to.be.revertedWith("Token not supported");
+
+      await addPartnerToken();
+      expect(await treasuryPool.getTokenBalance(await partnerToken.getAddress())).to.equal(ethers.parseUnits("10000", 6));
+    });
+
+    it("Should remove a reward token and keep its balance withdrawable", async function () {
+      await addPartnerToken();
+      await expect(treasuryPool.connect(owner).removeRewardToken(await partnerToken.getAddress()))
+        .to.emit(treasuryPool, "RewardTokenRemoved");
+      expect(await treasuryPool.getRewardTokens()).to.deep.equal([await kiltToken.getAddress()]);
+
+      const before = await partnerToken.balanceOf(owner.address);
+      await treasuryPool.connect(owner).emergencyWithdrawToken(await partnerToken.getAddress(), 0);
+      expect((await partnerToken.balanceOf(owner.address)) - before).to.equal(ethers.parseUnits("10000", 6));
+    });
+  });
+
+  describe("Multi-Token Claiming", function () {
+    const kiltAmount = ethers.parseUnits("150", 18);
+    const partnerAmount = ethers.parseUnits("42.5", 6);
+
+    beforeEach(async function () {
+      await authorizeCalculator();
+      await addPartnerToken();
+    });
+
+    async function claimBoth(user = user1) {
+      const { tokens, amounts } = sortClaims([
+        { token: await kiltToken.getAddress(), amount: kiltAmount },
+        { token: await partnerToken.getAddress(), amount: partnerAmount }
+      ]);
+      const nonce = await treasuryPool.nonces(user.address);
+      const signature = await signMultiTokenClaim(calculator, user.address, tokens, amounts, nonce);
+      return { tokens, amounts, signature };
+    }
+
+    it("Should pay every token in one transaction", async function () {
+      const { tokens, amounts, signature } = await claimBoth();
+      await expect(treasuryPool.connect(user1).claimMultiTokenRewards(tokens, amounts, signature))
+        .to.emit(treasuryPool, "TokenRewardClaimed");
+
+      expect(await kiltToken.balanceOf(user1.address)).to.equal(kiltAmount);
+      expect(await partnerToken.balanceOf(user1.address)).to.equal(partnerAmount);
+    });
+
+    it("Should track KILT in claimedAmount and other tokens per token", async function () {
+      const { tokens, amounts, signature } = await claimBoth();
+      await treasuryPool.connect(user1).claimMultiTokenRewards(tokens, amounts, signature);
+
+      expect(await treasuryPool.claimedAmount(user1.address)).to.equal(kiltAmount);
+      expect(await treasuryPool.getClaimedTokenAmount(user1.address, await kiltToken.getAddress())).to.equal(kiltAmount);
+      expect(await treasuryPool.getClaimedTokenAmount(user1.address, await partnerToken.getAddress())).to.equal(partnerAmount);
+      expect(await treasuryPool.totalAmountClaimed()).to.equal(kiltAmount);
+      expect(await treasuryPool.totalTokenClaimed(await partnerToken.getAddress())).to.equal(partnerAmount);
+      expect(await treasuryPool.totalClaimsProcessed()).to.equal(1);
+    });
+
+    it("Should reject a replayed signature", async function () {
+      const { tokens, amounts, signature } = await claimBoth();
+      await treasuryPool.connect(user1).claimMultiTokenRewards(tokens, amounts, signature);
+      await expect(
+        treasuryPool.connect(user1).claimMultiTokenRewards(tokens, amounts, signature)
+      ).to.be.revertedWith("Invalid calculator signature");
+    });
+
+    it("Should emit RewardClaimed for the KILT part under the claim's nonce", async function () {
+      const { tokens, amounts, signature } = await claimBoth();
+      const tx = await treasuryPool.connect(user1).claimMultiTokenRewards(tokens, amounts, signature);
+      const block = await ethers.provider.getBlock((await tx.wait()).blockNumber);
+
+      await expect(tx)
+        .to.emit(treasuryPool, "RewardClaimed")
+        .withArgs(user1.address, kiltAmount, kiltAmount, 0, block.timestamp);
+    });
+
+    it("Should emit a zero RewardClaimed for partner-only claims", async function () {
+      const tokens = [await partnerToken.getAddress()];
+      const amounts = [partnerAmount];
+      const signature = await signMultiTokenClaim(calculator, user1.address, tokens, amounts, 0n);
+      const tx = await treasuryPool.connect(user1).claimMultiTokenRewards(tokens, amounts, signature);
+      const block = await ethers.provider.getBlock((await tx.wait()).blockNumber);
+
+      await expect(tx)
+        .to.emit(treasuryPool, "RewardClaimed")
+        .withArgs(user1.address, 0, 0, 0, block.timestamp);
+      expect(await treasuryPool.claimedAmount(user1.address)).to.equal(0);
+    });
+
+    it("Should share the nonce with single-token claims", async function () {
+      const { tokens, amounts, signature } = await claimBoth();
+      await treasuryPool.connect(user1).claimMultiTokenRewards(tokens, amounts, signature);
+      expect(await treasuryPool.nonces(user1.address)).to.equal(1);
+
+      const singleSignature = await signClaim(calculator, user1.address, kiltAmount, 1n);
+      await treasuryPool.connect(user1).claimRewards(kiltAmount, singleSignature);
+      expect(await treasuryPool.claimedAmount(user1.address)).to.equal(kiltAmount * 2n);
+    });
+
+    it("Should reject an inflated amount", async function () {
+      const { tokens, amounts, signature } = await claimBoth();
+      const inflated = amounts.map(amount => amount + 1n);
+      await expect(
+        treasuryPool.connect(user1).claimMultiTokenRewards(tokens, inflated, signature)
+      ).to.be.revertedWith("Invalid calculator signature");
+    });
+
+    it("Should reject another user's signature", async function () {
+      const { tokens, amounts, signature } = await claimBoth(user1);
+      await expect(
+        treasuryPool.connect(user2).claimMultiTokenRewards(tokens, amounts, signature)
+      ).to.be.revertedWith("Invalid calculator signature");
+    });
+
+    it("Should reject signatures from unauthorized signers", async function () {
+      const { tokens, amounts } = await claimBoth();
+      const signature = await signMultiTokenClaim(unauthorized, user1.address, tokens, amounts, 0n);
+      await expect(
+        treasuryPool.connect(user1).claimMultiTokenRewards(tokens, amounts, signature)
+      ).to.be.revertedWith("Invalid calculator signature");
+    });
+
+    it("Should reject unsorted or duplicate tokens", async function () {
+      const { tokens, amounts } = await claimBoth();
+      const reversedTokens = [...tokens].reverse();
+      const reversedAmounts = [...amounts].reverse();
+      const reversedSignature = await signMultiTokenClaim(calculator, user1.address, reversedTokens, reversedAmounts, 0n);
+      await expect(
+        treasuryPool.connect(user1).claimMultiTokenRewards(reversedTokens, reversedAmounts, reversedSignature)
+      ).to.be.revertedWith("Tokens must be sorted and unique");
+
+      const duplicateTokens = [tokens[0], tokens[0]];
+      const duplicateAmounts = [amounts[0], amounts[0]];
+      const duplicateSignature = await signMultiTokenClaim(calculator, user1.address, duplicateTokens, duplicateAmounts, 0n);
+      await expect(
+        treasuryPool.connect(user1).claimMultiTokenRewards(duplicateTokens, duplicateAmounts, duplicateSignature)
+      ).to.be.revertedWith("Tokens must be sorted and unique");
+    });
+
+    it("Should reject mismatched token and amount lists", async function () {
+      const { tokens, amounts, signature } = await claimBoth();
+      await expect(
+        treasuryPool.connect(user1).claimMultiTokenRewards(tokens, amounts.slice(0, 1), signature)
+      ).to.be.revertedWith("Length mismatch");
+    });
+
+    it("Should reject tokens that are no longer supported", async function () {
+      await treasuryPool.connect(owner).removeRewardToken(await partnerToken.getAddress());
+      const { tokens, amounts, signature } = await claimBoth();
+      await expect(
+        treasuryPool.connect(user1).claimMultiTokenRewards(tokens, amounts, signature)
+      ).to.be.revertedWith("Unsupported reward token");
+    });
+
+    it("Should enforce the per-token maximum claim", async function () {
+      await treasuryPool.connect(owner).updateTokenMaxClaim(await partnerToken.getAddress(), partnerAmount - 1n);
+      const { tokens, amounts, signature } = await claimBoth();
+      await expect(
+        treasuryPool.connect(user1).claimMultiTokenRewards(tokens, amounts, signature)
+      ).to.be.revertedWith("Reward balance exceeds maximum claim limit");
+    });
+
+    it("Should fail when a token's treasury is underfunded", async function () {
+      await treasuryPool.connect(owner).emergencyWithdrawToken(await partnerToken.getAddress(), 0);
+      const { tokens, amounts, signature } = await claimBoth();
+      await expect(
+        treasuryPool.connect(user1).claimMultiTokenRewards(tokens, amounts, signature)
+      ).to.be.revertedWith("Insufficient contract balance");
+    });
+
+    it("Should not allow claims while paused", async function () {
+      await treasuryPool.connect(owner).pause();
+      const { tokens, amounts, signature } = await claimBoth();
+      await expect(
+        treasuryPool.connect(user1).claimMultiTokenRewards(tokens, amounts, signature)
+      ).to.be.revertedWithCustomError(treasuryPool, "EnforcedPause");
+    });
+  });
+
+  describe("Emergency Functions", function () {
+    it("Should not allow KILT through the token withdraw path", async function () {
+      await expect(
+        treasuryPool.connect(owner).emergencyWithdrawToken(await kiltToken.getAddress(), 0)
+      ).to.be.revertedWith("Use emergencyWithdraw for KILT");
+    });
+
+    it("Should not allow non-owner to withdraw tokens", async function () {
+      await expect(
+        treasuryPool.connect(unauthorized).emergencyWithdrawToken(await partnerToken.getAddress(), 0)
+      ).to.be.revertedWithCustomError(treasuryPool, "OwnableUnauthorizedAccount");
+    });
+  });
+});
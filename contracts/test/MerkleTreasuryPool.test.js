@@ -0,0 +1,322 @@
+// SPDX-License-Identifier: MIT
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+
+// Mirrors server/merkle-distribution-service.ts: double-hashed leaves, sorted-pair nodes
+function hashLeaf(address, cumulativeAmount) {
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(["address", "uint256"], [address, cumulativeAmount]);
+  return ethers.keccak256(ethers.concat([ethers.keccak256(encoded)]));
+}
+
+function hashPair(a, b) {
+  return BigInt(a) < BigInt(b)
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]));
+}
+
+function buildTree(balances) {
+  const leaves = balances.map(({ address, amount }) => hashLeaf(address, amount));
+  const layers = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+
+  const proofFor = (index) => {
+    const proof = [];
+    for (let level = 0; level < layers.length - 1; level++) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < layers[level].length) {
+        proof.push(layers[level][sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+    return proof;
+  };
+
+  return { root: layers[layers.length - 1][0], proofFor };
+}
+
+describe("MerkleTreasuryPool", function () {
+  let treasuryPool;
+  let kiltToken;
+  let owner;
+  let publisher;
+  let user1;
+  let user2;
+  let user3;
+  let unauthorized;
+
+  const INITIAL_SUPPLY = ethers.parseUnits("1000000", 18); // 1M tokens
+  const PUBLISHER_DELAY = 60 * 60; // 1 hour
+
+  beforeEach(async function () {
+    [owner, publisher, user1, user2, user3, unauthorized] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    kiltToken = await MockERC20.deploy("KILT Protocol", "KILT", 18);
+    await kiltToken.waitForDeployment();
+
+    const MerkleTreasuryPool = await ethers.getContractFactory("MerkleTreasuryPool");
+    treasuryPool = await MerkleTreasuryPool.deploy(await kiltToken.getAddress(), owner.address);
+    await treasuryPool.waitForDeployment();
+
+    // Fund treasury
+    await kiltToken.mint(owner.address, INITIAL_SUPPLY);
+    await kiltToken.connect(owner).approve(await treasuryPool.getAddress(), INITIAL_SUPPLY);
+    await treasuryPool.connect(owner).depositTreasury(ethers.parseUnits("100000", 18));
+  });
+
+  async function authorizePublisher() {
+    await treasuryPool.connect(owner).setPendingPublisherAuthorization(publisher.address);
+    await ethers.provider.send("evm_increaseTime", [PUBLISHER_DELAY + 1]);
+    await ethers.provider.send("evm_mine");
+    await treasuryPool.connect(owner).activatePendingPublisher(publisher.address);
+  }
+
+  async function publish(epoch, balances) {
+    const tree = buildTree(balances);
+    const total = balances.reduce((sum, { amount }) => sum + amount, 0n);
+    await treasuryPool.connect(publisher).publishMerkleRoot(epoch, tree.root, total);
+    return tree;
+  }
+
+  describe("Deployment", function () {
+    it("Should set the correct token and owner", async function () {
+      expect(await treasuryPool.kiltToken()).to.equal(await kiltToken.getAddress());
+      expect(await treasuryPool.owner()).to.equal(owner.address);
+    });
+
+    it("Should start with no epoch published", async function () {
+      const info = await treasuryPool.getEpochInfo();
+      expect(info.epoch).to.equal(0);
+      expect(info.root).to.equal(ethers.ZeroHash);
+    });
+  });
+
+  describe("Publisher Authorization", function () {
+    it("Should enforce the activation delay", async function () {
+      await treasuryPool.connect(owner).setPendingPublisherAuthorization(publisher.address);
+      await expect(
+        treasuryPool.connect(owner).activatePendingPublisher(publisher.address)
+      ).to.be.revertedWith("Activation delay not met");
+    });
+
+    it("Should authorize publisher after the delay", async function () {
+      await expect(authorizePublisher()).to.not.be.reverted;
+      expect(await treasuryPool.authorizedPublishers(publisher.address)).to.be.true;
+    });
+
+    it("Should not allow non-owner to authorize publishers", async function () {
+      await expect(
+        treasuryPool.connect(unauthorized).setPendingPublisherAuthorization(unauthorized.address)
+      ).to.be.revertedWithCustomError(treasuryPool, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should allow owner to revoke a publisher", async function () {
+      await authorizePublisher();
+      await treasuryPool.connect(owner).revokePublisherAuthorization(publisher.address);
+      expect(await treasuryPool.authorizedPublishers(publisher.address)).to.be.false;
+    });
+  });
+
+  describe("Root Publishing", function () {
+    beforeEach(async function () {
+      await authorizePublisher();
+    });
+
+    it("Should publish the next epoch root", async function () {
+      const tree = buildTree([{ address: user1.address, amount: 100n }]);
+      await expect(treasuryPool.connect(publisher).publishMerkleRoot(1, tree.root, 100n))
+        .to.emit(treasuryPool, "MerkleRootPublished")
+        .withArgs(1, tree.root, 100n, publisher.address);
+
+      expect(await treasuryPool.merkleRoot()).to.equal(tree.root);
+      expect(await treasuryPool.currentEpoch()).to.equal(1);
+    });
+
+    it("Should reject skipped or replayed epochs", async function () {
+      const tree = buildTree([{ address: user1.address, amount: 100n }]);
+      await expect(
+        treasuryPool.connect(publisher).publishMerkleRoot(2, tree.root, 100n)
+      ).to.be.revertedWith("Epoch must increase by one");
+
+      await treasuryPool.connect(publisher).publishMerkleRoot(1, tree.root, 100n);
+      await expect(
+        treasuryPool.connect(publisher).publishMerkleRoot(1, tree.root, 100n)
+      ).to.be.revertedWith("Epoch must increase by one");
+    });
+
+    it("Should reject a decreasing cumulative total", async function () {
+      const tree = buildTree([{ address: user1.address, amount: 100n }]);
+      await treasuryPool.connect(publisher).publishMerkleRoot(1, tree.root, 100n);
+      await expect(
+        treasuryPool.connect(publisher).publishMerkleRoot(2, tree.root, 99n)
+      ).to.be.revertedWith("Cumulative total cannot decrease");
+    });
+
+    it("Should not allow unauthorized accounts to publish", async function () {
+      const tree = buildTree([{ address: user1.address, amount: 100n }]);
+      await expect(
+        treasuryPool.connect(unauthorized).publishMerkleRoot(1, tree.root, 100n)
+      ).to.be.revertedWith("Not authorized to publish");
+    });
+  });
+
+  describe("Reward Claiming", function () {
+    const amount1 = ethers.parseUnits("150", 18);
+    const amount2 = ethers.parseUnits("75.5", 18);
+    const amount3 = ethers.parseUnits("10", 18);
+    let balances;
+    let tree;
+
+    beforeEach(async function () {
+      await authorizePublisher();
+      balances = [
+        { address: user1.address, amount: amount1 },
+        { address: user2.address, amount: amount2 },
+        { address: user3.address, amount: amount3 }
+      ];
+      tree = await publish(1, balances);
+    });
+
+    it("Should pay the full cumulative balance on first claim", async function () {
+      const before = await kiltToken.balanceOf(user1.address);
+      await expect(treasuryPool.connect(user1).claimRewards(amount1, amount1, tree.proofFor(0)))
+        .to.emit(treasuryPool, "RewardClaimed");
+
+      expect((await kiltToken.balanceOf(user1.address)) - before).to.equal(amount1);
+      expect(await treasuryPool.claimedAmount(user1.address)).to.equal(amount1);
+    });
+
+    it("Should verify proofs for every leaf including the odd one out", async function () {
+      for (let i = 0; i < balances.length; i++) {
+        expect(await treasuryPool.verifyClaim(balances[i].address, balances[i].amount, tree.proofFor(i))).to.be.true;
+      }
+    });
+
+    it("Should reject an inflated amount", async function () {
+      await expect(
+        treasuryPool.connect(user1).claimRewards(amount1 + 1n, amount1 + 1n, tree.proofFor(0))
+      ).to.be.revertedWith("Invalid merkle proof");
+    });
+
+    it("Should reject another user's proof", async function () {
+      await expect(
+        treasuryPool.connect(user2).claimRewards(amount1, amount1, tree.proofFor(0))
+      ).to.be.revertedWith("Invalid merkle proof");
+    });
+
+    it("Should not pay twice for the same epoch", async function () {
+      await treasuryPool.connect(user1).claimRewards(amount1, amount1, tree.proofFor(0));
+      await expect(
+        treasuryPool.connect(user1).claimRewards(amount1, amount1, tree.proofFor(0))
+      ).to.be.revertedWith("No rewards to claim");
+    });
+
+    it("Should pay only the increase after a new epoch", async function () {
+      await treasuryPool.connect(user1).claimRewards(amount1, amount1, tree.proofFor(0));
+
+      const increase = ethers.parseUnits("25", 18);
+      const nextTree = await publish(2, [
+        { address: user1.address, amount: amount1 + increase },
+        { address: user2.address, amount: amount2 },
+        { address: user3.address, amount: amount3 }
+      ]);
+
+      const before = await kiltToken.balanceOf(user1.address);
+      await treasuryPool.connect(user1).claimRewards(amount1 + increase, increase, nextTree.proofFor(0));
+      expect((await kiltToken.balanceOf(user1.address)) - before).to.equal(increase);
+    });
+
+    it("Should reject proofs from a superseded epoch", async function () {
+      await publish(2, [
+        { address: user1.address, amount: amount1 * 2n },
+        { address: user2.address, amount: amount2 }
+      ]);
+      await expect(
+        treasuryPool.connect(user3).claimRewards(amount3, amount3, tree.proofFor(2))
+      ).to.be.revertedWith("Invalid merkle proof");
+    });
+
+    it("Should report claimable amounts", async function () {
+      expect(await treasuryPool.getClaimableAmount(user2.address, amount2, tree.proofFor(1))).to.equal(amount2);
+      await treasuryPool.connect(user2).claimRewards(amount2, amount2, tree.proofFor(1));
+      expect(await treasuryPool.getClaimableAmount(user2.address, amount2, tree.proofFor(1))).to.equal(0);
+    });
+
+    it("Should pay a balance in several partial claims", async function () {
+      const first = ethers.parseUnits("100", 18);
+      const before = await kiltToken.balanceOf(user1.address);
+
+      await expect(treasuryPool.connect(user1).claimRewards(amount1, first, tree.proofFor(0)))
+        .to.emit(treasuryPool, "RewardClaimed");
+      expect(await treasuryPool.claimedAmount(user1.address)).to.equal(first);
+      expect(await treasuryPool.getClaimableAmount(user1.address, amount1, tree.proofFor(0))).to.equal(amount1 - first);
+
+      await treasuryPool.connect(user1).claimRewards(amount1, amount1 - first, tree.proofFor(0));
+      expect((await kiltToken.balanceOf(user1.address)) - before).to.equal(amount1);
+      expect(await treasuryPool.claimedAmount(user1.address)).to.equal(amount1);
+    });
+
+    it("Should reject a claim above the unclaimed balance", async function () {
+      const first = ethers.parseUnits("100", 18);
+      await treasuryPool.connect(user1).claimRewards(amount1, first, tree.proofFor(0));
+      await expect(
+        treasuryPool.connect(user1).claimRewards(amount1, amount1 - first + 1n, tree.proofFor(0))
+      ).to.be.revertedWith("Amount exceeds claimable balance");
+    });
+
+    it("Should reject a zero amount", async function () {
+      await expect(
+        treasuryPool.connect(user1).claimRewards(amount1, 0, tree.proofFor(0))
+      ).to.be.revertedWith("Amount must be greater than 0");
+    });
+
+    it("Should enforce the absolute maximum claim per transaction", async function () {
+      const limit = ethers.parseUnits("100", 18);
+      await treasuryPool.connect(owner).updateAbsoluteMaxClaim(limit);
+      await expect(
+        treasuryPool.connect(user1).claimRewards(amount1, amount1, tree.proofFor(0))
+      ).to.be.revertedWith("Amount exceeds maximum claim limit");
+
+      // Balances above the limit are paid out over several claims
+      await treasuryPool.connect(user1).claimRewards(amount1, limit, tree.proofFor(0));
+      await treasuryPool.connect(user1).claimRewards(amount1, amount1 - limit, tree.proofFor(0));
+      expect(await treasuryPool.claimedAmount(user1.address)).to.equal(amount1);
+    });
+
+    it("Should not allow claims while paused", async function () {
+      await treasuryPool.connect(owner).pause();
+      await expect(
+        treasuryPool.connect(user1).claimRewards(amount1, amount1, tree.proofFor(0))
+      ).to.be.revertedWithCustomError(treasuryPool, "EnforcedPause");
+    });
+
+    it("Should fail when the treasury is underfunded", async function () {
+      await treasuryPool.connect(owner).emergencyWithdraw(0);
+      await expect(
+        treasuryPool.connect(user1).claimRewards(amount1, amount1, tree.proofFor(0))
+      ).to.be.revertedWith("Insufficient contract balance");
+    });
+  });
+
+  describe("Emergency Functions", function () {
+    it("Should allow owner to emergency withdraw", async function () {
+      const withdrawAmount = ethers.parseUnits("1000", 18);
+      const ownerBalanceBefore = await kiltToken.balanceOf(owner.address);
+      await treasuryPool.connect(owner).emergencyWithdraw(withdrawAmount);
+      expect((await kiltToken.balanceOf(owner.address)) - ownerBalanceBefore).to.equal(withdrawAmount);
+    });
+
+    it("Should not allow non-owner to emergency withdraw", async function () {
+      await expect(
+        treasuryPool.connect(unauthorized).emergencyWithdraw(0)
+      ).to.be.revertedWithCustomError(treasuryPool, "OwnableUnauthorizedAccount");
+    });
+  });
+});
@@ -0,0 +1,258 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
+import "./MockUniswapV3Factory.sol";
+
+/**
+ * @title MockNonfungiblePositionManager
+ * @dev Uniswap V3 position manager stand-in with the same function signatures, events and
+ * positions() layout the backend and the position indexer read. Deposits are taken in full and
+ * held here; liquidity is sqrt(amount0 * amount1) rather than the tick-range formula, and
+ * decreases pay principal back pro rata. Burned positions revert on positions() like Uniswap.
+ */
+contract MockNonfungiblePositionManager is ERC721Enumerable {
+    using SafeERC20 for IERC20;
+
+    struct Position {
+        uint96 nonce;
+        address operator;
+        address token0;
+        address token1;
+        uint24 fee;
+        int24 tickLower;
+        int24 tickUpper;
+        uint128 liquidity;
+        uint256 feeGrowthInside0LastX128;
+        uint256 feeGrowthInside1LastX128;
+        uint128 tokensOwed0;
+        uint128 tokensOwed1;
+    }
+
+    struct MintParams {
+        address token0;
+        address token1;
+        uint24 fee;
+        int24 tickLower;
+        int24 tickUpper;
+        uint256 amount0Desired;
+        uint256 amount1Desired;
+        uint256 amount0Min;
+        uint256 amount1Min;
+        address recipient;
+        uint256 deadline;
+    }
+
+    struct IncreaseLiquidityParams {
+        uint256 tokenId;
+        uint256 amount0Desired;
+        uint256 amount1Desired;
+        uint256 amount0Min;
+        uint256 amount1Min;
+        uint256 deadline;
+    }
+
+    struct DecreaseLiquidityParams {
+        uint256 tokenId;
+        uint128 liquidity;
+        uint256 amount0Min;
+        uint256 amount1Min;
+        uint256 deadline;
+    }
+
+    struct CollectParams {
+        uint256 tokenId;
+        address recipient;
+        uint128 amount0Max;
+        uint128 amount1Max;
+    }
+
+    address public immutable factory;
+    address public immutable WETH9;
+
+    mapping(uint256 => Position) private _positions;
+    mapping(uint256 => uint256[2]) private _principal;
+    uint256 private _nextId = 1;
+
+    event IncreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1);
+    event DecreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1);
+    event Collect(uint256 indexed tokenId, address recipient, uint256 amount0, uint256 amount1);
+
+    modifier checkDeadline(uint256 deadline) {
+        require(block.timestamp <= deadline, "Transaction too old");
+        _;
+    }
+
+    modifier isAuthorizedForToken(uint256 tokenId) {
+        require(_isAuthorized(_requireOwned(tokenId), msg.sender, tokenId), "Not approved");
+        _;
+    }
+
+    constructor(address _factory, address _WETH9) ERC721("Uniswap V3 Positions NFT-V1", "UNI-V3-POS") {
+        factory = _factory;
+        WETH9 = _WETH9;
+    }
+
+    function positions(uint256 tokenId) external view returns (
+        uint96 nonce,
+        address operator,
+        address token0,
+        address token1,
+        uint24 fee,
+        int24 tickLower,
+        int24 tickUpper,
+        uint128 liquidity,
+        uint256 feeGrowthInside0LastX128,
+        uint256 feeGrowthInside1LastX128,
+        uint128 tokensOwed0,
+        uint128 tokensOwed1
+    ) {
+        Position memory position = _positions[tokenId];
+        require(position.token0 != address(0), "Invalid token ID");
+        return (
+            position.nonce,
+            position.operator,
+            position.token0,
+            position.token1,
+            position.fee,
+            position.tickLower,
+            position.tickUpper,
+            position.liquidity,
+            position.feeGrowthInside0LastX128,
+            position.feeGrowthInside1LastX128,
+            position.tokensOwed0,
+            position.tokensOwed1
+        );
+    }
+
+    function mint(MintParams calldata params) external checkDeadline(params.deadline) returns (
+        uint256 tokenId,
+        uint128 liquidity,
+        uint256 amount0,
+        uint256 amount1
+    ) {
+        require(params.token0 < params.token1, "Tokens not sorted");
+        require(params.tickLower < params.tickUpper, "Invalid tick range");
+        require(
+            MockUniswapV3Factory(factory).getPool(params.token0, params.token1, params.fee) != address(0),
+            "Pool not found"
+        );
+
+        (liquidity, amount0, amount1) = _deposit(params.token0, params.token1, params.amount0Desired, params.amount1Desired);
+        require(amount0 >= params.amount0Min && amount1 >= params.amount1Min, "Price slippage check");
+
+        tokenId = _nextId++;
+        _mint(params.recipient, tokenId);
+        _positions[tokenId] = Position({
+            nonce: 0,
+            operator: address(0),
+            token0: params.token0,
+            token1: params.token1,
+            fee: params.fee,
+            tickLower: params.tickLower,
+            tickUpper: params.tickUpper,
+            liquidity: liquidity,
+            feeGrowthInside0LastX128: 0,
+            feeGrowthInside1LastX128: 0,
+            tokensOwed0: 0,
+            tokensOwed1: 0
+        });
+        _principal[tokenId] = [amount0, amount1];
+
+        emit IncreaseLiquidity(tokenId, liquidity, amount0, amount1);
+    }
+
+    function increaseLiquidity(IncreaseLiquidityParams calldata params)
+        external
+        checkDeadline(params.deadline)
+        isAuthorizedForToken(params.tokenId)
+        returns (uint128 liquidity, uint256 amount0, uint256 amount1)
+    {
+        Position storage position = _positions[params.tokenId];
+        (liquidity, amount0, amount1) = _deposit(position.token0, position.token1, params.amount0Desired, params.amount1Desired);
+        require(amount0 >= params.amount0Min && amount1 >= params.amount1Min, "Price slippage check");
+
+        position.liquidity += liquidity;
+        _principal[params.tokenId][0] += amount0;
+        _principal[params.tokenId][1] += amount1;
+
+        emit IncreaseLiquidity(params.tokenId, liquidity, amount0, amount1);
+    }
+
+    function decreaseLiquidity(DecreaseLiquidityParams calldata params)
+        external
+        checkDeadline(params.deadline)
+        isAuthorizedForToken(params.tokenId)
+        returns (uint256 amount0, uint256 amount1)
+    {
+        require(params.liquidity > 0, "Zero liquidity");
+        Position storage position = _positions[params.tokenId];
+        require(position.liquidity >= params.liquidity, "Insufficient liquidity");
+
+        uint256[2] storage principal = _principal[params.tokenId];
+        amount0 = principal[0] * params.liquidity / position.liquidity;
+        amount1 = principal[1] * params.liquidity / position.liquidity;
+        require(amount0 >= params.amount0Min && amount1 >= params.amount1Min, "Price slippage check");
+
+        principal[0] -= amount0;
+        principal[1] -= amount1;
+        position.liquidity -= params.liquidity;
+        position.tokensOwed0 += uint128(amount0);
+        position.tokensOwed1 += uint128(amount1);
+
+        emit DecreaseLiquidity(params.tokenId, params.liquidity, amount0, amount1);
+    }
+
+    function collect(CollectParams calldata params)
+        external
+        isAuthorizedForToken(params.tokenId)
+        returns (uint256 amount0, uint256 amount1)
+    {
+        require(params.amount0Max > 0 || params.amount1Max > 0, "Nothing to collect");
+        address recipient = params.recipient == address(0) ? address(this) : params.recipient;
+        Position storage position = _positions[params.tokenId];
+
+        amount0 = params.amount0Max > position.tokensOwed0 ? position.tokensOwed0 : params.amount0Max;
+        amount1 = params.amount1Max > position.tokensOwed1 ? position.tokensOwed1 : params.amount1Max;
+        position.tokensOwed0 -= uint128(amount0);
+        position.tokensOwed1 -= uint128(amount1);
+
+        if (amount0 > 0) IERC20(position.token0).safeTransfer(recipient, amount0);
+        if (amount1 > 0) IERC20(position.token1).safeTransfer(recipient, amount1);
+
+        emit Collect(params.tokenId, recipient, amount0, amount1);
+    }
+
+    function burn(uint256 tokenId) external isAuthorizedForToken(tokenId) {
+        Position storage position = _positions[tokenId];
+        require(position.liquidity == 0 && position.tokensOwed0 == 0 && position.tokensOwed1 == 0, "Not cleared");
+        delete _positions[tokenId];
+        delete _principal[tokenId];
+        _burn(tokenId);
+    }
+
+    function _deposit(address token0, address token1, uint256 amount0, uint256 amount1) private returns (
+        uint128 liquidity,
+        uint256,
+        uint256
+    ) {
+        uint256 raw = amount0 > 0 && amount1 > 0 ? _sqrt(amount0 * amount1) : amount0 + amount1;
+        require(raw > 0 && raw <= type(uint128).max, "Invalid liquidity");
+        liquidity = uint128(raw);
+
+        if (amount0 > 0) IERC20(token0).safeTransferFrom(msg.sender, address(this), amount0);
+        if (amount1 > 0) IERC20(token1).safeTransferFrom(msg.sender, address(this), amount1);
+        return (liquidity, amount0, amount1);
+    }
+
+    function _sqrt(uint256 x) private pure returns (uint256 y) {
+        uint256 z = (x + 1) / 2;
+        y = x;
+        while (z < y) {
+            y = z;
+            z = (x / z + z) / 2;
+        }
+    }
+}
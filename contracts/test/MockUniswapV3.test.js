@@ -0,0 +1,235 @@
+// SPDX-License-Identifier: MIT
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+
+// The fake-chain harness (server/testing/fake-chain.ts) deploys these in place of Uniswap V3 on Base.
+// Shapes asserted here are the ones server/uniswap-integration-service.ts and
+// server/position-event-indexer.ts decode.
+describe("Mock Uniswap V3", function () {
+  let factory;
+  let positionManager;
+  let pool;
+  let kiltToken;
+  let wethToken;
+  let token0;
+  let token1;
+  let owner;
+  let user1;
+  let user2;
+
+  const FEE = 3000;
+  const DEPOSIT = ethers.parseUnits("1000", 18);
+  const MAX_UINT128 = (1n << 128n) - 1n;
+
+  async function deadline() {
+    const block = await ethers.provider.getBlock("latest");
+    return block.timestamp + 3600;
+  }
+
+  async function mintPosition(recipient = user1, amount0 = DEPOSIT, amount1 = DEPOSIT) {
+    const params = {
+      token0: await token0.getAddress(),
+      token1: await token1.getAddress(),
+      fee: FEE,
+      tickLower: -887220,
+      tickUpper: 887220,
+      amount0Desired: amount0,
+      amount1Desired: amount1,
+      amount0Min: 0,
+      amount1Min: 0,
+      recipient: recipient.address,
+      deadline: await deadline()
+    };
+    const tokenId = (await positionManager.connect(user1).mint.staticCall(params)).tokenId;
+    await positionManager.connect(user1).mint(params);
+    return tokenId;
+  }
+
+  beforeEach(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    kiltToken = await MockERC20.deploy("KILT Protocol", "KILT", 18);
+    wethToken = await MockERC20.deploy("Wrapped Ether", "WETH", 18);
+    await kiltToken.waitForDeployment();
+    await wethToken.waitForDeployment();
+
+    const MockUniswapV3Factory = await ethers.getContractFactory("MockUniswapV3Factory");
+    factory = await MockUniswapV3Factory.deploy();
+    await factory.waitForDeployment();
+
+    const MockNonfungiblePositionManager = await ethers.getContractFactory("MockNonfungiblePositionManager");
+    positionManager = await MockNonfungiblePositionManager.deploy(await factory.getAddress(), await wethToken.getAddress());
+    await positionManager.waitForDeployment();
+
+    await factory.createPool(await kiltToken.getAddress(), await wethToken.getAddress(), FEE);
+    pool = await ethers.getContractAt(
+      "MockUniswapV3Pool",
+      await factory.getPool(await kiltToken.getAddress(), await wethToken.getAddress(), FEE)
+    );
+
+    const kiltIsToken0 = BigInt(await kiltToken.getAddress()) < BigInt(await wethToken.getAddress());
+    [token0, token1] = kiltIsToken0 ? [kiltToken, wethToken] : [wethToken, kiltToken];
+
+    for (const token of [kiltToken, wethToken]) {
+      await token.mint(user1.address, DEPOSIT * 10n);
+      await token.connect(user1).approve(await positionManager.getAddress(), DEPOSIT * 10n);
+    }
+  });
+
+  describe("Factory", function () {
+    it("Should register the pool under both token orders", async function () {
+      expect(await factory.getPool(await wethToken.getAddress(), await kiltToken.getAddress(), FEE))
+        .to.equal(await pool.getAddress());
+      expect(await pool.token0()).to.equal(await token0.getAddress());
+      expect(await pool.token1()).to.equal(await token1.getAddress());
+      expect(await pool.fee()).to.equal(FEE);
+      expect(await pool.tickSpacing()).to.equal(60);
+    });
+
+    it("Should reject duplicate pools and disabled fee tiers", async function () {
+      await expect(
+        factory.createPool(await wethToken.getAddress(), await kiltToken.getAddress(), FEE)
+      ).to.be.revertedWith("Pool exists");
+      await expect(
+        factory.createPool(await kiltToken.getAddress(), await wethToken.getAddress(), 100)
+      ).to.be.revertedWith("Fee not enabled");
+    });
+  });
+
+  describe("Pool", function () {
+    it("Should start at price 1.0 and expose the Uniswap slot0 layout", async function () {
+      const slot0 = await pool.slot0();
+      expect(slot0.sqrtPriceX96).to.equal(1n << 96n);
+      expect(slot0.tick).to.equal(0);
+      expect(slot0.unlocked).to.be.true;
+    });
+
+    it("Should let tests move the price, liquidity and fee growth", async function () {
+      await expect(pool.setPrice(2n << 96n, 13863)).to.emit(pool, "PriceSet").withArgs(2n << 96n, 13863);
+      await pool.setLiquidity(12345);
+      await pool.setFeeGrowthGlobal(7, 8);
+      await pool.setTickFeeGrowthOutside(-60, 3, 4);
+
+      expect((await pool.slot0()).tick).to.equal(13863);
+      expect(await pool.liquidity()).to.equal(12345);
+      expect(await pool.feeGrowthGlobal0X128()).to.equal(7);
+      expect(await pool.feeGrowthGlobal1X128()).to.equal(8);
+      const tick = await pool.ticks(-60);
+      expect(tick.feeGrowthOutside0X128).to.equal(3);
+      expect(tick.feeGrowthOutside1X128).to.equal(4);
+      expect(tick.initialized).to.be.true;
+    });
+  });
+
+  describe("Position Manager", function () {
+    it("Should mint an enumerable position NFT with the Uniswap events", async function () {
+      const params = {
+        token0: await token0.getAddress(),
+        token1: await token1.getAddress(),
+        fee: FEE,
+        tickLower: -600,
+        tickUpper: 600,
+        amount0Desired: DEPOSIT,
+        amount1Desired: DEPOSIT,
+        amount0Min: 0,
+        amount1Min: 0,
+        recipient: user2.address,
+        deadline: await deadline()
+      };
+
+      await expect(positionManager.connect(user1).mint(params))
+        .to.emit(positionManager, "Transfer").withArgs(ethers.ZeroAddress, user2.address, 1)
+        .and.to.emit(positionManager, "IncreaseLiquidity").withArgs(1, DEPOSIT, DEPOSIT, DEPOSIT);
+
+      expect(await positionManager.balanceOf(user2.address)).to.equal(1);
+      expect(await positionManager.tokenOfOwnerByIndex(user2.address, 0)).to.equal(1);
+      expect(await token0.balanceOf(await positionManager.getAddress())).to.equal(DEPOSIT);
+
+      const position = await positionManager.positions(1);
+      expect(position.token0).to.equal(await token0.getAddress());
+      expect(position.token1).to.equal(await token1.getAddress());
+      expect(position.fee).to.equal(FEE);
+      expect(position.tickLower).to.equal(-600);
+      expect(position.tickUpper).to.equal(600);
+      expect(position.liquidity).to.equal(DEPOSIT);
+    });
+
+    it("Should reject unsorted tokens and pools that do not exist", async function () {
+      const base = {
+        fee: FEE,
+        tickLower: -600,
+        tickUpper: 600,
+        amount0Desired: DEPOSIT,
+        amount1Desired: DEPOSIT,
+        amount0Min: 0,
+        amount1Min: 0,
+        recipient: user1.address,
+        deadline: await deadline()
+      };
+
+      await expect(positionManager.connect(user1).mint({
+        ...base, token0: await token1.getAddress(), token1: await token0.getAddress()
+      })).to.be.revertedWith("Tokens not sorted");
+      await expect(positionManager.connect(user1).mint({
+        ...base, token0: await token0.getAddress(), token1: await token1.getAddress(), fee: 500
+      })).to.be.revertedWith("Pool not found");
+    });
+
+    it("Should pay principal back pro rata through decrease and collect", async function () {
+      const tokenId = await mintPosition();
+      const half = DEPOSIT / 2n;
+
+      await expect(positionManager.connect(user1).decreaseLiquidity({
+        tokenId, liquidity: half, amount0Min: 0, amount1Min: 0, deadline: await deadline()
+      })).to.emit(positionManager, "DecreaseLiquidity").withArgs(tokenId, half, half, half);
+
+      let position = await positionManager.positions(tokenId);
+      expect(position.liquidity).to.equal(half);
+      expect(position.tokensOwed0).to.equal(half);
+
+      const balanceBefore = await token0.balanceOf(user1.address);
+      await expect(positionManager.connect(user1).collect({
+        tokenId, recipient: user1.address, amount0Max: MAX_UINT128, amount1Max: MAX_UINT128
+      })).to.emit(positionManager, "Collect").withArgs(tokenId, user1.address, half, half);
+
+      expect(await token0.balanceOf(user1.address)).to.equal(balanceBefore + half);
+      position = await positionManager.positions(tokenId);
+      expect(position.tokensOwed0).to.equal(0);
+      expect(position.tokensOwed1).to.equal(0);
+    });
+
+    it("Should only let the owner or an approved operator manage a position", async function () {
+      const tokenId = await mintPosition();
+      const params = { tokenId, liquidity: 1, amount0Min: 0, amount1Min: 0, deadline: await deadline() };
+
+      await expect(positionManager.connect(user2).decreaseLiquidity(params)).to.be.revertedWith("Not approved");
+      await positionManager.connect(user1).approve(user2.address, tokenId);
+      await expect(positionManager.connect(user2).decreaseLiquidity(params)).to.emit(positionManager, "DecreaseLiquidity");
+    });
+
+    it("Should burn only cleared positions and revert on positions() afterwards", async function () {
+      const tokenId = await mintPosition();
+      await expect(positionManager.connect(user1).burn(tokenId)).to.be.revertedWith("Not cleared");
+
+      await positionManager.connect(user1).decreaseLiquidity({
+        tokenId, liquidity: DEPOSIT, amount0Min: 0, amount1Min: 0, deadline: await deadline()
+      });
+      await positionManager.connect(user1).collect({
+        tokenId, recipient: user1.address, amount0Max: MAX_UINT128, amount1Max: MAX_UINT128
+      });
+
+      await expect(positionManager.connect(user1).burn(tokenId))
+        .to.emit(positionManager, "Transfer").withArgs(user1.address, ethers.ZeroAddress, tokenId);
+      expect(await positionManager.balanceOf(user1.address)).to.equal(0);
+      await expect(positionManager.positions(tokenId)).to.be.revertedWith("Invalid token ID");
+    });
+
+    it("Should reject expired deadlines", async function () {
+      const tokenId = await mintPosition();
+      await expect(positionManager.connect(user1).decreaseLiquidity({
+        tokenId, liquidity: 1, amount0Min: 0, amount1Min: 0, deadline: 1
+      })).to.be.revertedWith("Transaction too old");
+    });
+  });
+});
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "./MockUniswapV3Pool.sol";
+
+/**
+ * @title MockUniswapV3Factory
+ * @dev Uniswap V3 factory stand-in - creates MockUniswapV3Pool instances and answers getPool
+ * in both token orders, with the standard fee tiers enabled
+ */
+contract MockUniswapV3Factory {
+    mapping(uint24 => int24) public feeAmountTickSpacing;
+    mapping(address => mapping(address => mapping(uint24 => address))) public getPool;
+
+    event PoolCreated(address indexed token0, address indexed token1, uint24 indexed fee, int24 tickSpacing, address pool);
+
+    constructor() {
+        feeAmountTickSpacing[500] = 10;
+        feeAmountTickSpacing[3000] = 60;
+        feeAmountTickSpacing[10000] = 200;
+    }
+
+    function createPool(address tokenA, address tokenB, uint24 fee) external returns (address pool) {
+        require(tokenA != tokenB, "Identical tokens");
+        (address token0, address token1) = tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
+        require(token0 != address(0), "Zero address");
+        int24 tickSpacing = feeAmountTickSpacing[fee];
+        require(tickSpacing != 0, "Fee not enabled");
+        require(getPool[token0][token1][fee] == address(0), "Pool exists");
+
+        pool = address(new MockUniswapV3Pool(token0, token1, fee, tickSpacing));
+        getPool[token0][token1][fee] = pool;
+        getPool[token1][token0][fee] = pool;
+        emit PoolCreated(token0, token1, fee, tickSpacing, pool);
+    }
+}
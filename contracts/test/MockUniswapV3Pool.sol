@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+/**
+ * @title MockUniswapV3Pool
+ * @dev Uniswap V3 pool stand-in exposing the views the backend reads (slot0, liquidity, fee
+ * growth, ticks). There is no swap math - tests move the price and fee growth with the setters.
+ */
+contract MockUniswapV3Pool {
+    struct Slot0 {
+        uint160 sqrtPriceX96;
+        int24 tick;
+        uint16 observationIndex;
+        uint16 observationCardinality;
+        uint16 observationCardinalityNext;
+        uint8 feeProtocol;
+        bool unlocked;
+    }
+
+    struct TickInfo {
+        uint128 liquidityGross;
+        int128 liquidityNet;
+        uint256 feeGrowthOutside0X128;
+        uint256 feeGrowthOutside1X128;
+        int56 tickCumulativeOutside;
+        uint160 secondsPerLiquidityOutsideX128;
+        uint32 secondsOutside;
+        bool initialized;
+    }
+
+    address public immutable factory;
+    address public immutable token0;
+    address public immutable token1;
+    uint24 public immutable fee;
+    int24 public immutable tickSpacing;
+
+    Slot0 public slot0;
+    uint128 public liquidity;
+    uint256 public feeGrowthGlobal0X128;
+    uint256 public feeGrowthGlobal1X128;
+    mapping(int24 => TickInfo) public ticks;
+
+    event PriceSet(uint160 sqrtPriceX96, int24 tick);
+
+    constructor(address _token0, address _token1, uint24 _fee, int24 _tickSpacing) {
+        factory = msg.sender;
+        token0 = _token0;
+        token1 = _token1;
+        fee = _fee;
+        tickSpacing = _tickSpacing;
+        // Price 1.0 at tick 0 until a test moves it
+        slot0 = Slot0(uint160(1 << 96), 0, 0, 1, 1, 0, true);
+    }
+
+    function setPrice(uint160 sqrtPriceX96, int24 tick) external {
+        slot0.sqrtPriceX96 = sqrtPriceX96;
+        slot0.tick = tick;
+        emit PriceSet(sqrtPriceX96, tick);
+    }
+
+    function setLiquidity(uint128 _liquidity) external {
+        liquidity = _liquidity;
+    }
+
+    function setFeeGrowthGlobal(uint256 _feeGrowthGlobal0X128, uint256 _feeGrowthGlobal1X128) external {
+        feeGrowthGlobal0X128 = _feeGrowthGlobal0X128;
+        feeGrowthGlobal1X128 = _feeGrowthGlobal1X128;
+    }
+
+    function setTickFeeGrowthOutside(int24 tick, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128) external {
+        TickInfo storage info = ticks[tick];
+        info.feeGrowthOutside0X128 = feeGrowthOutside0X128;
+        info.feeGrowthOutside1X128 = feeGrowthOutside1X128;
+        info.initialized = true;
+    }
+}
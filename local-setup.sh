@@ -94,7 +94,7 @@ fi
 
 # Run database migrations
 echo -e "${BLUE}Running database migrations...${NC}"
-npm run db:push
+npm run db:migrate
 
 # Validate environment
 echo -e "${BLUE}Validating environment...${NC}"
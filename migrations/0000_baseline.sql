@@ -0,0 +1,201 @@
+CREATE TABLE "admin_operations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"operation" text NOT NULL,
+	"operation_type" text,
+	"operation_details" text,
+	"amount" numeric(30, 18),
+	"from_address" text,
+	"to_address" text,
+	"reason" text,
+	"settings" text,
+	"performed_by" text,
+	"transaction_hash" text,
+	"success" boolean DEFAULT true,
+	"error_message" text,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "app_transactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"session_id" text NOT NULL,
+	"user_address" text NOT NULL,
+	"transaction_hash" text NOT NULL,
+	"transaction_type" text NOT NULL,
+	"nft_token_id" text,
+	"pool_address" text NOT NULL,
+	"amount_0" numeric(20, 8),
+	"amount_1" numeric(20, 8),
+	"liquidity_amount" numeric(30, 0),
+	"gas_used" integer,
+	"gas_price" numeric(20, 0),
+	"block_number" integer,
+	"verification_status" text DEFAULT 'pending' NOT NULL,
+	"app_version" text NOT NULL,
+	"user_agent" text,
+	"ip_address" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"verified_at" timestamp,
+	CONSTRAINT "app_transactions_transaction_hash_unique" UNIQUE("transaction_hash"),
+	CONSTRAINT "app_transactions_session_id_transaction_hash_unique" UNIQUE("session_id","transaction_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "blockchain_config" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"config_key" text NOT NULL,
+	"config_value" text NOT NULL,
+	"description" text,
+	"category" text DEFAULT 'blockchain' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "blockchain_config_config_key_unique" UNIQUE("config_key")
+);
+--> statement-breakpoint
+CREATE TABLE "daily_rewards" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reward_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"position_id" integer NOT NULL,
+	"date" date NOT NULL,
+	"position_value_usd" numeric(20, 8) NOT NULL,
+	"base_apr" numeric(5, 2) NOT NULL,
+	"time_multiplier" numeric(5, 2) NOT NULL,
+	"size_multiplier" numeric(5, 2) NOT NULL,
+	"effective_apr" numeric(5, 2) NOT NULL,
+	"daily_reward_amount" numeric(18, 8) NOT NULL,
+	"days_staked" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "daily_rewards_user_id_position_id_date_unique" UNIQUE("user_id","position_id","date")
+);
+--> statement-breakpoint
+CREATE TABLE "liquidity_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"position_id" integer NOT NULL,
+	"transaction_hash" text NOT NULL,
+	"block_number" integer NOT NULL,
+	"event_type" text NOT NULL,
+	"amount_0" numeric(30, 18),
+	"amount_1" numeric(30, 18),
+	"liquidity_delta" numeric(30, 0),
+	"token_0_fees" numeric(30, 18),
+	"token_1_fees" numeric(30, 18),
+	"gas_used" integer,
+	"gas_price" numeric(30, 0),
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "lp_positions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"nft_token_id" text NOT NULL,
+	"pool_address" text NOT NULL,
+	"token_0_address" text NOT NULL,
+	"token_1_address" text NOT NULL,
+	"token_0_amount" text NOT NULL,
+	"token_1_amount" text NOT NULL,
+	"min_price" numeric(30, 18) NOT NULL,
+	"max_price" numeric(30, 18) NOT NULL,
+	"tick_lower" integer NOT NULL,
+	"tick_upper" integer NOT NULL,
+	"liquidity" numeric(30, 0) NOT NULL,
+	"fee_tier" integer NOT NULL,
+	"current_value_usd" numeric(30, 18) NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"created_via_app" boolean DEFAULT true NOT NULL,
+	"app_transaction_hash" text NOT NULL,
+	"app_session_id" text NOT NULL,
+	"verification_status" text DEFAULT 'pending' NOT NULL,
+	"reward_eligible" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "pool_stats" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"pool_address" text NOT NULL,
+	"tvl" numeric(18, 2) NOT NULL,
+	"volume_24h" numeric(18, 2) NOT NULL,
+	"apr" numeric(5, 2) NOT NULL,
+	"current_price" numeric(18, 8) NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "position_eligibility" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"position_id" integer NOT NULL,
+	"nft_token_id" text NOT NULL,
+	"app_transaction_id" integer NOT NULL,
+	"eligibility_reason" text NOT NULL,
+	"is_eligible" boolean DEFAULT true NOT NULL,
+	"eligibility_checked_at" timestamp DEFAULT now() NOT NULL,
+	"last_validation_at" timestamp DEFAULT now() NOT NULL,
+	"notes" text,
+	CONSTRAINT "position_eligibility_position_id_nft_token_id_unique" UNIQUE("position_id","nft_token_id")
+);
+--> statement-breakpoint
+CREATE TABLE "program_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"time_boost_coefficient" numeric(10, 3) DEFAULT '0.600' NOT NULL,
+	"full_range_bonus" numeric(10, 3) DEFAULT '1.200' NOT NULL,
+	"minimum_position_value" numeric(18, 8) DEFAULT '10.00000000' NOT NULL,
+	"lock_period" integer DEFAULT 7 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "rewards" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"position_id" integer,
+	"nft_token_id" text NOT NULL,
+	"amount" numeric(18, 8) NOT NULL,
+	"position_value_usd" numeric(20, 8) NOT NULL,
+	"daily_reward_amount" numeric(18, 8) NOT NULL,
+	"accumulated_amount" numeric(18, 8) NOT NULL,
+	"claimed_amount" numeric(18, 8) DEFAULT '0',
+	"liquidity_added_at" timestamp NOT NULL,
+	"staking_start_date" timestamp DEFAULT now() NOT NULL,
+	"last_reward_calculation" timestamp DEFAULT now() NOT NULL,
+	"claimed_at" timestamp,
+	"is_eligible_for_claim" boolean DEFAULT false,
+	"lock_period_days" integer DEFAULT 7 NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "token_pool_config" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"kilt_token_address" text NOT NULL,
+	"pool_address" text NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "treasury_config" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"smart_contract_address" text NOT NULL,
+	"total_allocation" numeric(30, 18) NOT NULL,
+	"program_start_date" date NOT NULL,
+	"program_duration_days" integer NOT NULL,
+	"program_end_date" date NOT NULL,
+	"daily_rewards_cap" numeric(30, 18) NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" text NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"address" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_address_unique" UNIQUE("address")
+);
+--> statement-breakpoint
+ALTER TABLE "app_transactions" ADD CONSTRAINT "app_transactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "daily_rewards" ADD CONSTRAINT "daily_rewards_reward_id_rewards_id_fk" FOREIGN KEY ("reward_id") REFERENCES "public"."rewards"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "daily_rewards" ADD CONSTRAINT "daily_rewards_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "daily_rewards" ADD CONSTRAINT "daily_rewards_position_id_lp_positions_id_fk" FOREIGN KEY ("position_id") REFERENCES "public"."lp_positions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "liquidity_events" ADD CONSTRAINT "liquidity_events_position_id_lp_positions_id_fk" FOREIGN KEY ("position_id") REFERENCES "public"."lp_positions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lp_positions" ADD CONSTRAINT "lp_positions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "position_eligibility" ADD CONSTRAINT "position_eligibility_position_id_lp_positions_id_fk" FOREIGN KEY ("position_id") REFERENCES "public"."lp_positions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "position_eligibility" ADD CONSTRAINT "position_eligibility_app_transaction_id_app_transactions_id_fk" FOREIGN KEY ("app_transaction_id") REFERENCES "public"."app_transactions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rewards" ADD CONSTRAINT "rewards_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rewards" ADD CONSTRAINT "rewards_position_id_lp_positions_id_fk" FOREIGN KEY ("position_id") REFERENCES "public"."lp_positions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
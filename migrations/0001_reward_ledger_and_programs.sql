@@ -0,0 +1,325 @@
+CREATE TABLE "admin_nonces" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"nonce" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "admin_nonces_nonce_unique" UNIQUE("nonce")
+);
+--> statement-breakpoint
+CREATE TABLE "admin_proposal_votes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"proposal_id" integer NOT NULL,
+	"admin_wallet" text NOT NULL,
+	"decision" text NOT NULL,
+	"message" text NOT NULL,
+	"signature" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "admin_proposal_votes_proposal_id_admin_wallet_unique" UNIQUE("proposal_id","admin_wallet")
+);
+--> statement-breakpoint
+CREATE TABLE "admin_proposals" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"change_type" text NOT NULL,
+	"payload" text NOT NULL,
+	"payload_hash" text NOT NULL,
+	"summary" text NOT NULL,
+	"proposed_by" text NOT NULL,
+	"required_approvals" integer NOT NULL,
+	"timelock_seconds" integer DEFAULT 0 NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"quorum_reached_at" timestamp,
+	"executable_after" timestamp,
+	"executed_at" timestamp,
+	"execution_error" text,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "admin_roles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"wallet_address" text NOT NULL,
+	"role" text NOT NULL,
+	"label" text,
+	"granted_by" text NOT NULL,
+	"granted_at" timestamp DEFAULT now() NOT NULL,
+	"revoked_by" text,
+	"revoked_at" timestamp,
+	CONSTRAINT "admin_roles_wallet_address_unique" UNIQUE("wallet_address")
+);
+--> statement-breakpoint
+CREATE TABLE "admin_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_hash" text NOT NULL,
+	"wallet_address" text NOT NULL,
+	"chain_id" integer,
+	"ip_address" text,
+	"user_agent" text,
+	"issued_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"last_seen_at" timestamp,
+	"revoked_at" timestamp,
+	CONSTRAINT "admin_sessions_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "api_keys" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"key_prefix" text NOT NULL,
+	"key_hash" text NOT NULL,
+	"rate_limit_per_minute" integer DEFAULT 60 NOT NULL,
+	"created_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_used_at" timestamp,
+	"revoked_at" timestamp,
+	CONSTRAINT "api_keys_key_hash_unique" UNIQUE("key_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "claim_reconciliation_issues" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_address" text NOT NULL,
+	"user_id" integer,
+	"issue_type" text NOT NULL,
+	"severity" text NOT NULL,
+	"expected_amount" numeric(30, 18),
+	"actual_amount" numeric(30, 18),
+	"details" text NOT NULL,
+	"detected_at" timestamp DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL,
+	"resolved_at" timestamp,
+	CONSTRAINT "claim_reconciliation_issues_user_address_issue_type_unique" UNIQUE("user_address","issue_type")
+);
+--> statement-breakpoint
+CREATE TABLE "daily_token_rewards" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"daily_reward_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"position_id" integer NOT NULL,
+	"program_id" integer NOT NULL,
+	"date" date NOT NULL,
+	"token_address" text NOT NULL,
+	"token_symbol" text NOT NULL,
+	"amount" numeric(30, 18) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "daily_token_rewards_daily_reward_id_token_address_unique" UNIQUE("daily_reward_id","token_address")
+);
+--> statement-breakpoint
+CREATE TABLE "incentive_programs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"chain_id" integer DEFAULT 8453 NOT NULL,
+	"pool_address" text NOT NULL,
+	"token_0_address" text NOT NULL,
+	"token_1_address" text NOT NULL,
+	"fee_tier" integer DEFAULT 3000 NOT NULL,
+	"reward_token_address" text NOT NULL,
+	"reward_token_symbol" text DEFAULT 'KILT' NOT NULL,
+	"total_budget" numeric(30, 18),
+	"start_date" date,
+	"end_date" date,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "indexer_checkpoints" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"indexer_name" text NOT NULL,
+	"contract_address" text NOT NULL,
+	"last_block" integer NOT NULL,
+	"last_block_hash" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "indexer_checkpoints_indexer_name_unique" UNIQUE("indexer_name")
+);
+--> statement-breakpoint
+CREATE TABLE "merkle_epoch_leaves" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"epoch" integer NOT NULL,
+	"user_address" text NOT NULL,
+	"cumulative_amount" numeric(38, 0) NOT NULL,
+	"proof" text NOT NULL,
+	CONSTRAINT "merkle_epoch_leaves_epoch_user_address_unique" UNIQUE("epoch","user_address")
+);
+--> statement-breakpoint
+CREATE TABLE "merkle_epochs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"epoch" integer NOT NULL,
+	"merkle_root" text NOT NULL,
+	"total_cumulative" numeric(38, 0) NOT NULL,
+	"leaf_count" integer NOT NULL,
+	"ledger_through_date" date,
+	"status" text DEFAULT 'built' NOT NULL,
+	"publish_tx_hash" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"published_at" timestamp,
+	CONSTRAINT "merkle_epochs_epoch_unique" UNIQUE("epoch")
+);
+--> statement-breakpoint
+CREATE TABLE "notification_deliveries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"subscription_id" integer NOT NULL,
+	"event_type" text NOT NULL,
+	"dedupe_key" text NOT NULL,
+	"payload" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"next_attempt_at" timestamp DEFAULT now() NOT NULL,
+	"delivered_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "notification_deliveries_subscription_id_dedupe_key_unique" UNIQUE("subscription_id","dedupe_key")
+);
+--> statement-breakpoint
+CREATE TABLE "notification_subscriptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"wallet_address" text NOT NULL,
+	"channel" text NOT NULL,
+	"target" text NOT NULL,
+	"secret" text,
+	"event_types" text NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"last_delivered_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "notification_subscriptions_wallet_address_channel_target_unique" UNIQUE("wallet_address","channel","target")
+);
+--> statement-breakpoint
+CREATE TABLE "pool_tick_samples" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"pool_address" text NOT NULL,
+	"tick" integer NOT NULL,
+	"sqrt_price_x96" text NOT NULL,
+	"block_number" integer,
+	"sampled_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "position_transfers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"position_id" integer NOT NULL,
+	"nft_token_id" text NOT NULL,
+	"from_user_id" integer,
+	"from_address" text NOT NULL,
+	"to_address" text NOT NULL,
+	"transaction_hash" text,
+	"block_number" integer,
+	"transferred_at" timestamp NOT NULL,
+	"detection_source" text NOT NULL,
+	"status" text DEFAULT 'pending_registration' NOT NULL,
+	"to_user_id" integer,
+	"new_position_id" integer,
+	"detected_at" timestamp DEFAULT now() NOT NULL,
+	"resolved_at" timestamp,
+	CONSTRAINT "position_transfers_position_id_unique" UNIQUE("position_id")
+);
+--> statement-breakpoint
+CREATE TABLE "position_value_snapshots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"position_id" integer NOT NULL,
+	"nft_token_id" text NOT NULL,
+	"liquidity" numeric(30, 0) NOT NULL,
+	"kilt_amount" numeric(30, 18) NOT NULL,
+	"eth_amount" numeric(30, 18) NOT NULL,
+	"uncollected_kilt" numeric(30, 18) NOT NULL,
+	"uncollected_eth" numeric(30, 18) NOT NULL,
+	"kilt_price" numeric(20, 10) NOT NULL,
+	"eth_price" numeric(20, 10) NOT NULL,
+	"principal_value_usd" numeric(30, 8) NOT NULL,
+	"fees_value_usd" numeric(30, 8) NOT NULL,
+	"total_value_usd" numeric(30, 8) NOT NULL,
+	"sampled_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "program_reward_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"program_id" integer NOT NULL,
+	"token_address" text NOT NULL,
+	"token_symbol" text NOT NULL,
+	"decimals" integer DEFAULT 18 NOT NULL,
+	"total_budget" numeric(30, 18) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "program_reward_tokens_program_id_token_address_unique" UNIQUE("program_id","token_address")
+);
+--> statement-breakpoint
+CREATE TABLE "reward_allocations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"program_id" integer,
+	"date" date NOT NULL,
+	"daily_rewards_cap" numeric(30, 18) NOT NULL,
+	"total_allocated" numeric(30, 18) NOT NULL,
+	"total_liquidity" numeric(30, 8) NOT NULL,
+	"position_count" integer NOT NULL,
+	"normalization_factor" numeric(12, 8) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "reward_allocations_program_id_date_unique" UNIQUE("program_id","date")
+);
+--> statement-breakpoint
+CREATE TABLE "reward_claim_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contract_address" text NOT NULL,
+	"user_address" text NOT NULL,
+	"user_id" integer,
+	"amount" numeric(30, 18) NOT NULL,
+	"claimed_amount_after" numeric(30, 18) NOT NULL,
+	"nonce" integer NOT NULL,
+	"block_number" integer NOT NULL,
+	"block_timestamp" timestamp NOT NULL,
+	"transaction_hash" text NOT NULL,
+	"log_index" integer NOT NULL,
+	"reconciled_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "reward_claim_events_transaction_hash_log_index_unique" UNIQUE("transaction_hash","log_index")
+);
+--> statement-breakpoint
+ALTER TABLE "daily_rewards" ALTER COLUMN "reward_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "daily_rewards" ALTER COLUMN "base_apr" SET DATA TYPE numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "daily_rewards" ALTER COLUMN "effective_apr" SET DATA TYPE numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "liquidity_events" ALTER COLUMN "position_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "admin_operations" ADD COLUMN "before_state" text;--> statement-breakpoint
+ALTER TABLE "admin_operations" ADD COLUMN "after_state" text;--> statement-breakpoint
+ALTER TABLE "daily_rewards" ADD COLUMN "user_liquidity" numeric(20, 8);--> statement-breakpoint
+ALTER TABLE "daily_rewards" ADD COLUMN "total_liquidity" numeric(20, 8);--> statement-breakpoint
+ALTER TABLE "daily_rewards" ADD COLUMN "time_boost" numeric(12, 8);--> statement-breakpoint
+ALTER TABLE "daily_rewards" ADD COLUMN "in_range_multiplier" numeric(12, 8);--> statement-breakpoint
+ALTER TABLE "daily_rewards" ADD COLUMN "full_range_bonus" numeric(12, 8);--> statement-breakpoint
+ALTER TABLE "daily_rewards" ADD COLUMN "daily_budget" numeric(30, 18);--> statement-breakpoint
+ALTER TABLE "daily_rewards" ADD COLUMN "allocation_scale" numeric(12, 8);--> statement-breakpoint
+ALTER TABLE "daily_rewards" ADD COLUMN "settings_version_id" integer;--> statement-breakpoint
+ALTER TABLE "daily_rewards" ADD COLUMN "program_id" integer;--> statement-breakpoint
+ALTER TABLE "daily_rewards" ADD COLUMN "interval_start" timestamp;--> statement-breakpoint
+ALTER TABLE "daily_rewards" ADD COLUMN "interval_end" timestamp;--> statement-breakpoint
+ALTER TABLE "liquidity_events" ADD COLUMN "nft_token_id" text;--> statement-breakpoint
+ALTER TABLE "liquidity_events" ADD COLUMN "chain_id" integer DEFAULT 8453 NOT NULL;--> statement-breakpoint
+ALTER TABLE "liquidity_events" ADD COLUMN "log_index" integer;--> statement-breakpoint
+ALTER TABLE "liquidity_events" ADD COLUMN "block_hash" text;--> statement-breakpoint
+ALTER TABLE "liquidity_events" ADD COLUMN "from_address" text;--> statement-breakpoint
+ALTER TABLE "liquidity_events" ADD COLUMN "to_address" text;--> statement-breakpoint
+ALTER TABLE "lp_positions" ADD COLUMN "chain_id" integer DEFAULT 8453 NOT NULL;--> statement-breakpoint
+ALTER TABLE "lp_positions" ADD COLUMN "transferred_at" timestamp;--> statement-breakpoint
+ALTER TABLE "lp_positions" ADD COLUMN "program_id" integer;--> statement-breakpoint
+ALTER TABLE "lp_positions" ADD COLUMN "rebalanced_from_position_id" integer;--> statement-breakpoint
+ALTER TABLE "lp_positions" ADD COLUMN "time_boost_started_at" timestamp;--> statement-breakpoint
+ALTER TABLE "program_settings" ADD COLUMN "effective_from" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "program_settings" ADD COLUMN "created_by" text;--> statement-breakpoint
+UPDATE "program_settings" SET "effective_from" = "updated_at";--> statement-breakpoint
+ALTER TABLE "rewards" ADD COLUMN "token_address" text;--> statement-breakpoint
+ALTER TABLE "rewards" ADD COLUMN "token_symbol" text DEFAULT 'KILT' NOT NULL;--> statement-breakpoint
+ALTER TABLE "admin_proposal_votes" ADD CONSTRAINT "admin_proposal_votes_proposal_id_admin_proposals_id_fk" FOREIGN KEY ("proposal_id") REFERENCES "public"."admin_proposals"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "claim_reconciliation_issues" ADD CONSTRAINT "claim_reconciliation_issues_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "daily_token_rewards" ADD CONSTRAINT "daily_token_rewards_daily_reward_id_daily_rewards_id_fk" FOREIGN KEY ("daily_reward_id") REFERENCES "public"."daily_rewards"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "daily_token_rewards" ADD CONSTRAINT "daily_token_rewards_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "daily_token_rewards" ADD CONSTRAINT "daily_token_rewards_position_id_lp_positions_id_fk" FOREIGN KEY ("position_id") REFERENCES "public"."lp_positions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "daily_token_rewards" ADD CONSTRAINT "daily_token_rewards_program_id_incentive_programs_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."incentive_programs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_subscription_id_notification_subscriptions_id_fk" FOREIGN KEY ("subscription_id") REFERENCES "public"."notification_subscriptions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "position_transfers" ADD CONSTRAINT "position_transfers_position_id_lp_positions_id_fk" FOREIGN KEY ("position_id") REFERENCES "public"."lp_positions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "position_transfers" ADD CONSTRAINT "position_transfers_from_user_id_users_id_fk" FOREIGN KEY ("from_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "position_transfers" ADD CONSTRAINT "position_transfers_to_user_id_users_id_fk" FOREIGN KEY ("to_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "position_transfers" ADD CONSTRAINT "position_transfers_new_position_id_lp_positions_id_fk" FOREIGN KEY ("new_position_id") REFERENCES "public"."lp_positions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "position_value_snapshots" ADD CONSTRAINT "position_value_snapshots_position_id_lp_positions_id_fk" FOREIGN KEY ("position_id") REFERENCES "public"."lp_positions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "program_reward_tokens" ADD CONSTRAINT "program_reward_tokens_program_id_incentive_programs_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."incentive_programs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reward_allocations" ADD CONSTRAINT "reward_allocations_program_id_incentive_programs_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."incentive_programs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reward_claim_events" ADD CONSTRAINT "reward_claim_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "daily_rewards" ADD CONSTRAINT "daily_rewards_program_id_incentive_programs_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."incentive_programs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lp_positions" ADD CONSTRAINT "lp_positions_program_id_incentive_programs_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."incentive_programs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "liquidity_events" ADD CONSTRAINT "liquidity_events_chain_id_transaction_hash_log_index_unique" UNIQUE("chain_id","transaction_hash","log_index");
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE "job_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_name" text NOT NULL,
+	"instance_id" text NOT NULL,
+	"trigger" text NOT NULL,
+	"attempt" integer NOT NULL,
+	"status" text NOT NULL,
+	"error" text,
+	"result" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp,
+	"duration_ms" integer
+);
+--> statement-breakpoint
+CREATE TABLE "scheduled_jobs" (
+	"name" text PRIMARY KEY NOT NULL,
+	"description" text NOT NULL,
+	"interval_seconds" integer NOT NULL,
+	"is_paused" boolean DEFAULT false NOT NULL,
+	"next_run_at" timestamp DEFAULT now() NOT NULL,
+	"trigger_requested_at" timestamp,
+	"failed_attempts" integer DEFAULT 0 NOT NULL,
+	"last_run_at" timestamp,
+	"last_status" text,
+	"last_error" text,
+	"last_result" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "job_runs" ADD CONSTRAINT "job_runs_job_name_scheduled_jobs_name_fk" FOREIGN KEY ("job_name") REFERENCES "public"."scheduled_jobs"("name") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "job_runs_job_started_idx" ON "job_runs" USING btree ("job_name","started_at");
\ No newline at end of file
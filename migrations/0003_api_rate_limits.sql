@@ -0,0 +1,5 @@
+CREATE TABLE "api_rate_limit_counters" (
+	"key" text PRIMARY KEY NOT NULL,
+	"hits" integer NOT NULL,
+	"reset_at" timestamp NOT NULL
+);
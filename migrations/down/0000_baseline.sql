@@ -0,0 +1,26 @@
+-- Rollback for 0000_baseline: drops every table it created.
+DROP TABLE IF EXISTS "users" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "treasury_config" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "token_pool_config" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "rewards" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "program_settings" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "position_eligibility" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "pool_stats" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "lp_positions" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "liquidity_events" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "daily_rewards" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "blockchain_config" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "app_transactions" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "admin_operations" CASCADE;
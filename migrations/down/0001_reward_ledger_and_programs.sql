@@ -0,0 +1,68 @@
+-- Rollback for 0001_reward_ledger_and_programs: back to the pre-ledger schema.
+-- Ledger-only rows (daily rewards without a reward, events without a registered position) cannot
+-- exist under the old NOT NULL constraints and are deleted.
+DROP TABLE IF EXISTS "admin_nonces" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "admin_proposal_votes" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "admin_proposals" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "admin_roles" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "admin_sessions" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "api_keys" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "claim_reconciliation_issues" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "daily_token_rewards" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "merkle_epoch_leaves" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "merkle_epochs" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "notification_deliveries" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "notification_subscriptions" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "pool_tick_samples" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "position_transfers" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "position_value_snapshots" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "program_reward_tokens" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "reward_allocations" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "reward_claim_events" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "indexer_checkpoints" CASCADE;
+--> statement-breakpoint
+DROP TABLE IF EXISTS "incentive_programs" CASCADE;
+--> statement-breakpoint
+ALTER TABLE "liquidity_events" DROP CONSTRAINT IF EXISTS "liquidity_events_chain_id_transaction_hash_log_index_unique";
+--> statement-breakpoint
+ALTER TABLE "rewards" DROP COLUMN "token_address", DROP COLUMN "token_symbol";
+--> statement-breakpoint
+ALTER TABLE "program_settings" DROP COLUMN "effective_from", DROP COLUMN "created_by";
+--> statement-breakpoint
+ALTER TABLE "lp_positions" DROP COLUMN "chain_id", DROP COLUMN "transferred_at", DROP COLUMN "program_id", DROP COLUMN "rebalanced_from_position_id", DROP COLUMN "time_boost_started_at";
+--> statement-breakpoint
+ALTER TABLE "liquidity_events" DROP COLUMN "nft_token_id", DROP COLUMN "chain_id", DROP COLUMN "log_index", DROP COLUMN "block_hash", DROP COLUMN "from_address", DROP COLUMN "to_address";
+--> statement-breakpoint
+ALTER TABLE "daily_rewards" DROP COLUMN "user_liquidity", DROP COLUMN "total_liquidity", DROP COLUMN "time_boost", DROP COLUMN "in_range_multiplier", DROP COLUMN "full_range_bonus", DROP COLUMN "daily_budget", DROP COLUMN "allocation_scale", DROP COLUMN "settings_version_id", DROP COLUMN "program_id", DROP COLUMN "interval_start", DROP COLUMN "interval_end";
+--> statement-breakpoint
+ALTER TABLE "admin_operations" DROP COLUMN "before_state", DROP COLUMN "after_state";
+--> statement-breakpoint
+DELETE FROM "liquidity_events" WHERE "position_id" IS NULL;
+--> statement-breakpoint
+ALTER TABLE "liquidity_events" ALTER COLUMN "position_id" SET NOT NULL;
+--> statement-breakpoint
+DELETE FROM "daily_rewards" WHERE "reward_id" IS NULL;
+--> statement-breakpoint
+ALTER TABLE "daily_rewards" ALTER COLUMN "reward_id" SET NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "daily_rewards" ALTER COLUMN "base_apr" SET DATA TYPE numeric(5, 2) USING LEAST("base_apr", 999.99);
+--> statement-breakpoint
+ALTER TABLE "daily_rewards" ALTER COLUMN "effective_apr" SET DATA TYPE numeric(5, 2) USING LEAST("effective_apr", 999.99);
@@ -0,0 +1,4 @@
+-- Rollback for 0002_job_scheduler: drops the job scheduler tables.
+DROP TABLE IF EXISTS "job_runs";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "scheduled_jobs";
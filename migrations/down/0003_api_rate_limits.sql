@@ -0,0 +1,2 @@
+-- Rollback for 0003_api_rate_limits: drops the shared per-key rate limit counters.
+DROP TABLE IF EXISTS "api_rate_limit_counters";
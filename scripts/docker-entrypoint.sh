@@ -0,0 +1,10 @@
+#!/bin/sh
+# Container entrypoint - applies pending migrations, then starts the server.
+# Set RUN_MIGRATIONS=false when a separate release step runs `npm run db:migrate:dist`.
+set -e
+
+if [ "${RUN_MIGRATIONS:-true}" != "false" ]; then
+  node dist/migrate.js up
+fi
+
+exec "$@"
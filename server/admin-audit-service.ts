@@ -0,0 +1,205 @@
+/**
+ * ADMIN AUDIT SERVICE
+ * Single writer for admin_operations and the query side of the audit log viewer. Config
+ * mutations store structured before/after snapshots; entries are returned with a field-level
+ * diff and can be exported as CSV or JSON for compliance reviews.
+ */
+
+import { db } from './db';
+import { adminOperations, type AdminOperation } from '../shared/schema';
+import { storage } from './storage';
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface AdminOperationEntry {
+  operationType: string;
+  reason: string;
+  performedBy: string;
+  amount?: string;
+  transactionHash?: string;
+  toAddress?: string;
+  success?: boolean;
+  errorMessage?: string;
+  before?: unknown;
+  after?: unknown;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditLogFilter {
+  operator?: string;
+  operationTypes?: string[];
+  from?: Date;
+  to?: Date;
+  success?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditLogEntry {
+  id: number;
+  timestamp: string;
+  operationType: string;
+  performedBy: string | null;
+  reason: string | null;
+  amount: string | null;
+  transactionHash: string | null;
+  success: boolean;
+  errorMessage: string | null;
+  details: Record<string, unknown> | null;
+  before: unknown;
+  after: unknown;
+  changes: AuditFieldChange[];
+}
+
+const MAX_PAGE_SIZE = 500;
+const MAX_EXPORT_ROWS = 10000;
+
+function parseJson(value: string | null): any {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function flatten(value: unknown, prefix = '', out: Record<string, unknown> = {}): Record<string, unknown> {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+      flatten(nested, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else if (prefix) {
+    out[prefix] = value;
+  }
+  return out;
+}
+
+/**
+ * Field-level differences between two snapshots. Nested objects are compared by dotted path.
+ */
+export function diffSnapshots(before: unknown, after: unknown): AuditFieldChange[] {
+  const flatBefore = flatten(before ?? {});
+  const flatAfter = flatten(after ?? {});
+  const fields = Array.from(new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)])).sort();
+
+  return fields
+    .filter(field => JSON.stringify(flatBefore[field] ?? null) !== JSON.stringify(flatAfter[field] ?? null))
+    .map(field => ({ field, before: flatBefore[field] ?? null, after: flatAfter[field] ?? null }));
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'string' ? value : JSON.stringify(value);
+  // Keep spreadsheet apps from evaluating cells as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+class AdminAuditService {
+
+  /**
+   * Write an admin_operations row. Pass a transaction to make the entry part of the change.
+   */
+  async record(entry: AdminOperationEntry, executor: Pick<typeof db, 'insert'> | Tx = db): Promise<void> {
+    await executor.insert(adminOperations).values({
+      operation: entry.operationType, // For compatibility with old schema
+      operationType: entry.operationType,
+      operationDetails: JSON.stringify({
+        timestamp: new Date().toISOString(),
+        performedBy: entry.performedBy,
+        amount: entry.amount,
+        transactionHash: entry.transactionHash,
+        reason: entry.reason,
+        ...entry.details
+      }),
+      reason: entry.reason,
+      performedBy: entry.performedBy,
+      amount: entry.amount,
+      transactionHash: entry.transactionHash,
+      toAddress: entry.toAddress,
+      beforeState: entry.before === undefined ? null : JSON.stringify(entry.before),
+      afterState: entry.after === undefined ? null : JSON.stringify(entry.after),
+      success: entry.success ?? true,
+      errorMessage: entry.errorMessage
+    });
+  }
+
+  /**
+   * Filtered page of the audit log, newest first
+   */
+  async query(filter: AuditLogFilter = {}): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    return this.select(filter, Math.min(Math.max(filter.limit ?? 100, 1), MAX_PAGE_SIZE));
+  }
+
+  private async select(filter: AuditLogFilter, limit: number): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const { operations, total } = await storage.getAdminOperations({
+      performedBy: filter.operator,
+      operationTypes: filter.operationTypes?.map(type => type.toLowerCase()),
+      from: filter.from,
+      to: filter.to,
+      success: filter.success
+    }, limit, Math.max(filter.offset ?? 0, 0));
+
+    return { entries: operations.map(operation => this.toEntry(operation)), total };
+  }
+
+  /**
+   * Distinct operation types and operators for the viewer's filter dropdowns
+   */
+  async getFacets(): Promise<{ operationTypes: string[]; operators: string[] }> {
+    return storage.getAdminOperationFacets();
+  }
+
+  async exportEntries(filter: AuditLogFilter, format: 'csv' | 'json'): Promise<string> {
+    const { entries } = await this.select({ ...filter, offset: 0 }, MAX_EXPORT_ROWS);
+    if (format === 'json') {
+      return JSON.stringify(entries, null, 2);
+    }
+
+    const header = ['id', 'timestamp', 'operation_type', 'performed_by', 'success', 'reason', 'amount', 'transaction_hash', 'error_message', 'changes', 'before', 'after'];
+    const lines = entries.map(entry => [
+      entry.id,
+      entry.timestamp,
+      entry.operationType,
+      entry.performedBy,
+      entry.success,
+      entry.reason,
+      entry.amount,
+      entry.transactionHash,
+      entry.errorMessage,
+      entry.changes.map(change => `${change.field}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`).join('; '),
+      entry.before,
+      entry.after
+    ].map(csvCell).join(','));
+    return [header.join(','), ...lines].join('\n');
+  }
+
+  private toEntry(row: AdminOperation): AuditLogEntry {
+    const before = parseJson(row.beforeState);
+    const after = parseJson(row.afterState);
+    const details = parseJson(row.operationDetails);
+    return {
+      id: row.id,
+      timestamp: row.timestamp.toISOString(),
+      operationType: (row.operationType || row.operation || 'unknown').toLowerCase(),
+      performedBy: row.performedBy,
+      reason: row.reason,
+      amount: row.amount,
+      transactionHash: row.transactionHash,
+      success: row.success ?? true,
+      errorMessage: row.errorMessage,
+      details: details && typeof details === 'object' ? details : null,
+      before,
+      after,
+      changes: before !== null || after !== null ? diffSnapshots(before, after) : []
+    };
+  }
+}
+
+export const adminAuditService = new AdminAuditService();
@@ -0,0 +1,257 @@
+/**
+ * ADMIN AUTH SERVICE
+ * Sign-In With Ethereum (EIP-4361) for the admin panel. The login page requests a single-use
+ * nonce, the wallet signs a SIWE message containing it, and a verified signature from a
+ * wallet holding an admin role creates a server-side session with a fixed expiry. Sessions are presented
+ * as bearer tokens; only their sha256 hash is stored.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { db } from './db';
+import { adminNonces, adminSessions, type AdminSession } from '../shared/schema';
+import { and, eq, gt, isNull, lt } from 'drizzle-orm';
+import { verifyMessage, type Hex } from 'viem';
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import { rpcManager } from './rpc-connection-manager';
+import { adminRoleService, roleHasPermission, type AdminPermission, type AdminRole } from './admin-role-service';
+import { ErrorHandler } from './error-handler';
+
+declare global {
+  namespace Express {
+    interface Request {
+      adminSession?: AdminSession;
+      adminRole?: AdminRole;
+    }
+  }
+}
+
+const NONCE_TTL_MS = 10 * 60 * 1000;
+const SESSION_TTL_MS = (Number(process.env.ADMIN_SESSION_TTL_HOURS) || 8) * 60 * 60 * 1000;
+const LAST_SEEN_THROTTLE_MS = 60 * 1000;
+
+// Hosts the admin panel is served from, e.g. "app.kilt.io,admin.kilt.io". Required in production -
+// the Host and X-Forwarded-Host headers are set by the client and cannot vouch for the SIWE domain.
+const SIWE_DOMAINS = (process.env.ADMIN_SIWE_DOMAINS || '')
+  .split(',')
+  .map(domain => domain.trim().toLowerCase())
+  .filter(domain => domain.length > 0);
+
+export type AdminLoginResult =
+  | { success: true; token: string; walletAddress: string; expiresAt: Date }
+  | { success: false; error: string; code: string };
+
+interface LoginContext {
+  /** Host header of the login request - only trusted outside production when ADMIN_SIWE_DOMAINS is unset */
+  requestHost: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Bearer ')) return null;
+  const token = header.slice('Bearer '.length).trim();
+  return token.length > 0 ? token : null;
+}
+
+class AdminAuthService {
+
+  /**
+   * Issue a single-use nonce for a SIWE message
+   */
+  async issueNonce(): Promise<{ nonce: string; expiresAt: Date }> {
+    const nonce = generateSiweNonce();
+    const expiresAt = new Date(Date.now() + NONCE_TTL_MS);
+
+    await db.delete(adminNonces).where(lt(adminNonces.expiresAt, new Date(Date.now() - NONCE_TTL_MS)));
+    await db.insert(adminNonces).values({ nonce, expiresAt });
+
+    return { nonce, expiresAt };
+  }
+
+  /**
+   * The domain a SIWE message must name. Configured domains take precedence; without them the
+   * request's Host is accepted in development only.
+   */
+  private resolveExpectedDomain(messageDomain: string | undefined, requestHost: string): string | null {
+    if (SIWE_DOMAINS.length > 0) {
+      const requested = messageDomain?.toLowerCase();
+      return requested && SIWE_DOMAINS.includes(requested) ? requested : SIWE_DOMAINS[0];
+    }
+    if (process.env.NODE_ENV === 'production') return null;
+    return requestHost;
+  }
+
+  /**
+   * Verify a signed SIWE message and open a session for the signer
+   */
+  async login(message: string, signature: Hex, context: LoginContext): Promise<AdminLoginResult> {
+    let parsed: ReturnType<typeof parseSiweMessage>;
+    try {
+      parsed = parseSiweMessage(message);
+    } catch {
+      return { success: false, error: 'Malformed SIWE message', code: 'INVALID_MESSAGE' };
+    }
+
+    if (!parsed.address || !parsed.nonce) {
+      return { success: false, error: 'SIWE message is missing address or nonce', code: 'INVALID_MESSAGE' };
+    }
+
+    if (!(await adminRoleService.getActiveRole(parsed.address))) {
+      return {
+        success: false,
+        error: `Access denied. Wallet ${parsed.address.slice(0, 6)}...${parsed.address.slice(-4)} is not authorized for admin access.`,
+        code: 'UNAUTHORIZED_WALLET'
+      };
+    }
+
+    const domain = this.resolveExpectedDomain(parsed.domain, context.requestHost);
+    if (!domain) {
+      console.error('❌ ADMIN AUTH: ADMIN_SIWE_DOMAINS is not configured - refusing SIWE login');
+      return { success: false, error: 'Admin sign-in domain is not configured', code: 'DOMAIN_NOT_CONFIGURED' };
+    }
+
+    // Domain, expirationTime and notBefore
+    if (!validateSiweMessage({ message: parsed, domain, nonce: parsed.nonce })) {
+      return { success: false, error: 'SIWE message is expired or was issued for another domain', code: 'INVALID_MESSAGE' };
+    }
+
+    // Consume the nonce before checking the signature so a message can only be tried once
+    const consumed = await db.update(adminNonces)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(adminNonces.nonce, parsed.nonce),
+        isNull(adminNonces.usedAt),
+        gt(adminNonces.expiresAt, new Date())
+      ))
+      .returning({ id: adminNonces.id });
+    if (consumed.length === 0) {
+      return { success: false, error: 'Nonce is unknown, expired or already used', code: 'INVALID_NONCE' };
+    }
+
+    if (!(await this.verifyWalletSignature(parsed.address, message, signature))) {
+      return { success: false, error: 'Signature does not match the SIWE message', code: 'INVALID_SIGNATURE' };
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const walletAddress = parsed.address.toLowerCase();
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+    await db.insert(adminSessions).values({
+      tokenHash: hashToken(token),
+      walletAddress,
+      chainId: parsed.chainId ?? null,
+      ipAddress: context.ipAddress ?? null,
+      userAgent: context.userAgent?.slice(0, 500) ?? null,
+      expiresAt
+    });
+
+    console.log(`🔐 ADMIN AUTH: Session opened for ${walletAddress} until ${expiresAt.toISOString()}`);
+    return { success: true, token, walletAddress, expiresAt };
+  }
+
+  /**
+   * Check a personal_sign signature. EOA signatures are recovered locally; smart contract
+   * wallets (ERC-1271 / ERC-6492) need an eth_call against Base.
+   */
+  async verifyWalletSignature(address: `0x${string}`, message: string, signature: Hex): Promise<boolean> {
+    try {
+      if (await verifyMessage({ address, message, signature })) return true;
+    } catch {
+      // Not a plain ECDSA signature - fall through to the contract wallet check
+    }
+
+    try {
+      return await rpcManager.executeWithRetry(
+        client => client.verifyMessage({ address, message, signature }),
+        'verifyMessage'
+      );
+    } catch (error) {
+      console.warn('Admin contract wallet signature check failed:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * Active session and the wallet's current role for a bearer token, or null when the session
+   * is unknown, expired or revoked
+   */
+  async getSession(token: string): Promise<{ session: AdminSession; role: AdminRole } | null> {
+    const now = new Date();
+    const [session] = await db.select().from(adminSessions)
+      .where(and(
+        eq(adminSessions.tokenHash, hashToken(token)),
+        isNull(adminSessions.revokedAt),
+        gt(adminSessions.expiresAt, now)
+      ))
+      .limit(1);
+    if (!session) return null;
+
+    // Role changes apply to open sessions immediately; a revoked wallet loses its session
+    const role = await adminRoleService.getActiveRole(session.walletAddress);
+    if (!role) return null;
+
+    if (!session.lastSeenAt || now.getTime() - session.lastSeenAt.getTime() > LAST_SEEN_THROTTLE_MS) {
+      db.update(adminSessions).set({ lastSeenAt: now }).where(eq(adminSessions.id, session.id))
+        .catch(error => console.warn('Failed to update admin session last seen:', error instanceof Error ? error.message : error));
+    }
+    return { session, role };
+  }
+
+  async revokeSession(token: string): Promise<boolean> {
+    const revoked = await db.update(adminSessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(adminSessions.tokenHash, hashToken(token)), isNull(adminSessions.revokedAt)))
+      .returning({ walletAddress: adminSessions.walletAddress });
+
+    if (revoked.length > 0) {
+      console.log(`🔒 ADMIN AUTH: Session closed for ${revoked[0].walletAddress}`);
+    }
+    return revoked.length > 0;
+  }
+}
+
+export const adminAuthService = new AdminAuthService();
+
+/**
+ * Express guard for admin, treasury and distribution routes - sets req.adminSession
+ */
+export async function requireAdminSession(req: Request, res: Response, next: NextFunction) {
+  const token = getBearerToken(req);
+  if (!token) {
+    return next(ErrorHandler.createUnauthorizedError('Admin session required', 'ADMIN_SESSION_REQUIRED'));
+  }
+
+  try {
+    const active = await adminAuthService.getSession(token);
+    if (!active) {
+      return next(ErrorHandler.createUnauthorizedError('Admin session is invalid or expired', 'ADMIN_SESSION_INVALID'));
+    }
+    req.adminSession = active.session;
+    req.adminRole = active.role;
+    next();
+  } catch (error) {
+    next(ErrorHandler.createServerError('Authentication system error', error instanceof Error ? error.message : error));
+  }
+}
+
+/**
+ * Per-route permission check - runs after requireAdminSession
+ */
+export function requireAdminPermission(permission: AdminPermission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.adminRole || !roleHasPermission(req.adminRole, permission)) {
+      return next(ErrorHandler.createForbiddenError(
+        `Your admin role does not allow this operation (requires ${permission})`,
+        'ADMIN_PERMISSION_DENIED',
+        { role: req.adminRole ?? null }
+      ));
+    }
+    next();
+  };
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+
+// db.ts refuses to load without a URL - nothing below opens a connection
+vi.hoisted(() => {
+  process.env.DATABASE_URL ??= "postgres://test@localhost:1/test";
+});
+
+import { adminProposalService } from "./admin-proposal-service";
+import { incentiveProgramService, type ResolvedIncentiveProgram } from "./incentive-program-service";
+
+const POOL = "0x82Da478b1382B951cBaD01Beb9eD459cDB16458E";
+const KILT = "0x5D0DD05bB095fdD6Af4865A1AdF97c39C85ad2d8";
+const WETH = "0x4200000000000000000000000000000000000006";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+
+const PROGRAM = {
+  name: "Partner pool",
+  poolAddress: POOL,
+  token0Address: KILT,
+  token1Address: WETH,
+  feeTier: "3000",
+  rewardTokenAddress: KILT,
+  totalBudget: "50000",
+  startDate: "2025-01-01",
+  endDate: "2025-03-01"
+};
+
+describe("AdminProposalService validation", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("rejects NaN and non-positive treasury numbers", () => {
+    const result = adminProposalService.validateTreasuryConfig({
+      treasuryWalletAddress: KILT,
+      totalAllocation: "12abc",
+      programStartDate: "2025-01-01",
+      programDurationDays: 0
+    });
+    expect(result).toEqual({
+      valid: false,
+      errors: ["Total allocation must be greater than 0", "Program duration must be greater than 0 days"]
+    });
+    expect(adminProposalService.validateProgramSettings(null).valid).toBe(false);
+  });
+
+  it("parses a new program with typed partner tokens", async () => {
+    const result = await adminProposalService.validateIncentiveProgram({
+      ...PROGRAM,
+      partnerTokens: [{ tokenAddress: USDC, tokenSymbol: " USDC ", decimals: "6", totalBudget: 1000 }]
+    });
+
+    expect(result).toEqual({
+      valid: true,
+      change: {
+        programId: undefined,
+        name: "Partner pool",
+        chainId: 8453,
+        poolAddress: POOL.toLowerCase(),
+        token0Address: KILT,
+        token1Address: WETH,
+        feeTier: 3000,
+        rewardTokenAddress: KILT,
+        rewardTokenSymbol: "KILT",
+        totalBudget: 50000,
+        startDate: "2025-01-01",
+        endDate: "2025-03-01",
+        isActive: true,
+        partnerTokens: [{ tokenAddress: USDC, tokenSymbol: "USDC", decimals: 6, totalBudget: 1000 }]
+      }
+    });
+  });
+
+  it("names invalid partner tokens by position", async () => {
+    const result = await adminProposalService.validateIncentiveProgram({
+      ...PROGRAM,
+      endDate: "2024-12-01",
+      partnerTokens: [{ tokenAddress: USDC, tokenSymbol: "USDC", totalBudget: 10 }, { tokenAddress: "0x12", tokenSymbol: "", decimals: 40, totalBudget: "NaN" }]
+    });
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        "Partner token 2 must have a valid address",
+        "Partner token 2 symbol is required",
+        "Partner token 2 decimals must be 0-36",
+        "Partner token 2 budget must be greater than 0",
+        "End date must be after the start date"
+      ]
+    });
+
+    const duplicate = await adminProposalService.validateIncentiveProgram({
+      ...PROGRAM,
+      endDate: "2024-12-01",
+      partnerTokens: [{ tokenAddress: KILT, tokenSymbol: "KILT", totalBudget: 10 }]
+    });
+    expect(duplicate).toEqual({
+      valid: false,
+      errors: ["End date must be after the start date", `Partner token ${KILT} is listed twice or is the reward token`]
+    });
+  });
+
+  it("keeps a treasury-funded program's budget and dates null", async () => {
+    vi.spyOn(incentiveProgramService, "getProgram").mockResolvedValue({
+      id: 1,
+      chainId: 8453,
+      fundedByTreasury: true,
+      partnerTokens: [{ tokenAddress: USDC, tokenSymbol: "USDC", decimals: 6, totalBudget: 1000, dailyBudget: 10 }]
+    } as ResolvedIncentiveProgram);
+
+    const result = await adminProposalService.validateIncentiveProgram({ ...PROGRAM, totalBudget: "oops", startDate: undefined, isActive: false }, 1);
+    expect(result.valid && result.change).toMatchObject({
+      programId: 1,
+      totalBudget: null,
+      startDate: null,
+      endDate: null,
+      isActive: false,
+      partnerTokens: [{ tokenAddress: USDC, tokenSymbol: "USDC", decimals: 6, totalBudget: 1000 }]
+    });
+    expect(result.valid && result.change.partnerTokens[0]).not.toHaveProperty("dailyBudget");
+  });
+
+  it("reports unknown programs", async () => {
+    vi.spyOn(incentiveProgramService, "getProgram").mockResolvedValue(null);
+    expect(await adminProposalService.validateIncentiveProgram(PROGRAM, 9)).toEqual({ valid: false, errors: ["Incentive program 9 not found"] });
+  });
+});
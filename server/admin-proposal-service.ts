@@ -0,0 +1,737 @@
+/**
+ * ADMIN PROPOSAL SERVICE
+ * M-of-N approval for treasury, incentive program and program config changes. An admin proposes a validated
+ * change, other admins holding the same permission approve or reject it with a signed
+ * message, and the change is applied once quorum is reached and the optional timelock has
+ * passed. Every step is written to admin_operations.
+ *
+ * ADMIN_PROPOSAL_APPROVALS sets the approvals required (default 2, 0 applies changes
+ * directly); ADMIN_PROPOSAL_TIMELOCK_HOURS sets the minimum timelock (default 0).
+ */
+
+import { db } from './db';
+import {
+  adminProposals,
+  adminProposalVotes,
+  incentivePrograms,
+  type AdminProposal,
+  type AdminProposalVote,
+  type IncentiveProgram,
+  type ProgramSettings,
+  type TreasuryConfig
+} from '../shared/schema';
+import { and, asc, desc, eq, inArray, lte } from 'drizzle-orm';
+import { keccak256, toBytes, type Hex } from 'viem';
+import { z } from 'zod';
+import { adminAuthService } from './admin-auth-service';
+import { adminAuditService } from './admin-audit-service';
+import { adminRoleService, roleHasPermission, type AdminPermission, type AdminRole } from './admin-role-service';
+import { programSettingsService } from './program-settings-service';
+import { incentiveProgramService, type PartnerTokenValues, type ResolvedIncentiveProgram } from './incentive-program-service';
+import { unifiedRewardService } from './unified-reward-service';
+import { storage } from './storage';
+import { DEFAULT_CHAIN_ID, isEnabledChain } from './chain-registry';
+import { jobScheduler } from './job-scheduler';
+
+export const ADMIN_PROPOSAL_EXECUTOR_JOB = 'admin-proposal-executor';
+
+export type ProposalChangeType = 'treasury_config' | 'program_settings' | 'incentive_program';
+export type ProposalDecision = 'approve' | 'reject';
+
+export interface TreasuryConfigChange {
+  smartContractAddress: string;
+  totalAllocation: number;
+  programStartDate: string;
+  programDurationDays: number;
+  isActive: boolean;
+}
+
+export interface ProgramSettingsChange {
+  timeBoostCoefficient: number;
+  fullRangeBonus: number;
+  minimumPositionValue: number;
+  lockPeriod: number;
+  effectiveFrom?: string;
+}
+
+export interface IncentiveProgramChange {
+  programId?: number; // Updates this program, creates a new one when absent
+  name: string;
+  chainId: number;
+  poolAddress: string;
+  token0Address: string;
+  token1Address: string;
+  feeTier: number;
+  rewardTokenAddress: string;
+  rewardTokenSymbol: string;
+  totalBudget: number | null; // null keeps the program funded by treasury_config
+  startDate: string | null;
+  endDate: string | null;
+  isActive: boolean;
+  partnerTokens: PartnerTokenValues[]; // Accrue alongside the reward token, scaled by budget
+}
+
+type ChangePayload = TreasuryConfigChange | ProgramSettingsChange | IncentiveProgramChange;
+
+export type ValidationResult<T> = { valid: true; change: T } | { valid: false; errors: string[] };
+
+export type ProposalActionResult =
+  | { success: true; proposal: AdminProposal }
+  | { success: false; error: string; code: string };
+
+export interface ProposalWithVotes extends AdminProposal {
+  votes: AdminProposalVote[];
+  approvals: number;
+  rejections: number;
+  voteMessages?: Record<ProposalDecision, string>;
+}
+
+const CHANGE_PERMISSIONS: Record<ProposalChangeType, AdminPermission> = {
+  treasury_config: 'treasury:write',
+  program_settings: 'config:write',
+  incentive_program: 'treasury:write'
+};
+
+const UNISWAP_FEE_TIERS = [100, 500, 3000, 10000];
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Form fields arrive as numbers or numeric strings - NaN, blanks and partial numbers like '12abc' are rejected
+function numericField(message: string) {
+  return z.union([
+    z.number({ message }),
+    z.string().trim().regex(/^-?\d+(\.\d+)?$/, message).transform(Number)
+  ], { errorMap: () => ({ message }) }).pipe(z.number({ message }).finite(message));
+}
+
+function positiveNumber(message: string) {
+  return numericField(message).pipe(z.number().positive(message));
+}
+
+const dateField = (message: string) => z.string({ message }).trim().refine(value => value !== '' && !isNaN(new Date(value).getTime()), message);
+
+// Older clients send the address as treasuryWalletAddress
+function withContractAddress(config: unknown): unknown {
+  if (!config || typeof config !== 'object') return config;
+  const { smartContractAddress, treasuryWalletAddress } = config as Record<string, unknown>;
+  return { ...config, smartContractAddress: smartContractAddress || treasuryWalletAddress };
+}
+
+const treasuryConfigSchema = z.preprocess(withContractAddress, z.object({
+  smartContractAddress: z.string({ message: 'Smart contract address is required' }).trim().min(1, 'Smart contract address is required'),
+  totalAllocation: positiveNumber('Total allocation must be greater than 0'),
+  programStartDate: dateField('Program start date is required'),
+  programDurationDays: positiveNumber('Program duration must be greater than 0 days')
+    .pipe(z.number().int('Program duration must be a whole number of days')),
+  isActive: z.boolean().optional()
+}));
+
+// A zero minimum value or lock period turns that rule off
+const programSettingsSchema = z.object({
+  timeBoostCoefficient: positiveNumber('Time boost coefficient must be greater than 0'),
+  fullRangeBonus: positiveNumber('Full range bonus must be greater than 0'),
+  minimumPositionValue: numericField('Minimum position value must be 0 or more')
+    .pipe(z.number().nonnegative('Minimum position value must be 0 or more')),
+  lockPeriod: numericField('Lock period must be a whole number of days')
+    .pipe(z.number().int('Lock period must be a whole number of days').nonnegative('Lock period must be a whole number of days')),
+  effectiveFrom: z.preprocess(value => value || undefined, dateField('Invalid effectiveFrom timestamp').optional())
+});
+
+// Program days are calendar dates (YYYY-MM-DD), not timestamps
+const dayField = (message: string) => z.string({ message }).regex(DATE_PATTERN, message).refine(value => !isNaN(new Date(value).getTime()), message);
+
+const addressField = (field: string) => z.string({ message: `${field} must be a valid address` }).regex(ADDRESS_PATTERN, `${field} must be a valid address`);
+
+// Messages are completed with the token's position in the list, see programValidationErrors
+const partnerTokenSchema = z.object({
+  tokenAddress: z.string({ message: 'must have a valid address' }).regex(ADDRESS_PATTERN, 'must have a valid address'),
+  tokenSymbol: z.string({ message: 'symbol is required' }).trim().min(1, 'symbol is required'),
+  decimals: numericField('decimals must be 0-36')
+    .pipe(z.number().int('decimals must be 0-36').min(0, 'decimals must be 0-36').max(36, 'decimals must be 0-36'))
+    .default(18),
+  totalBudget: positiveNumber('budget must be greater than 0')
+}, { message: 'must be an object' });
+
+// `existing` is the program being updated - its chain and partner tokens are kept when omitted
+function incentiveProgramSchema(existing: ResolvedIncentiveProgram | null) {
+  const budgetFields = existing?.fundedByTreasury
+    ? {
+      totalBudget: z.unknown().transform(() => null),
+      startDate: z.unknown().transform(() => null),
+      endDate: z.unknown().transform(() => null)
+    }
+    : {
+      totalBudget: positiveNumber('Total budget must be greater than 0'),
+      startDate: dayField('Start date must be a YYYY-MM-DD date'),
+      endDate: dayField('End date must be a YYYY-MM-DD date')
+    };
+
+  return z.object({
+    name: z.string({ message: 'Program name is required' }).trim().min(1, 'Program name is required'),
+    chainId: numericField('Chain ID must be a number')
+      .default(existing?.chainId ?? DEFAULT_CHAIN_ID)
+      .refine(isEnabledChain, chainId => ({ message: `Chain ${chainId} is not enabled` })),
+    poolAddress: addressField('poolAddress').transform(address => address.toLowerCase()),
+    token0Address: addressField('token0Address'),
+    token1Address: addressField('token1Address'),
+    feeTier: numericField(`feeTier must be one of ${UNISWAP_FEE_TIERS.join(', ')}`)
+      .refine(feeTier => UNISWAP_FEE_TIERS.includes(feeTier), `feeTier must be one of ${UNISWAP_FEE_TIERS.join(', ')}`),
+    rewardTokenAddress: addressField('rewardTokenAddress'),
+    rewardTokenSymbol: z.preprocess(value => value || undefined, z.string().trim().default('KILT')),
+    isActive: z.boolean().optional(),
+    partnerTokens: z.array(partnerTokenSchema, { message: 'partnerTokens must be a list' })
+      .default(existing?.partnerTokens ?? []),
+    ...budgetFields
+  }).superRefine((program, ctx) => {
+    if (program.startDate !== null && program.endDate !== null && program.endDate <= program.startDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endDate'], message: 'End date must be after the start date' });
+    }
+    const seen = new Set([program.rewardTokenAddress.toLowerCase()]);
+    for (const token of program.partnerTokens) {
+      if (seen.has(token.tokenAddress.toLowerCase())) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['partnerTokens'], message: `Partner token ${token.tokenAddress} is listed twice or is the reward token` });
+      }
+      seen.add(token.tokenAddress.toLowerCase());
+    }
+  });
+}
+
+function validationErrors(error: z.ZodError): string[] {
+  return Array.from(new Set(error.issues.map(issue => issue.message)));
+}
+
+function programValidationErrors(error: z.ZodError): string[] {
+  return Array.from(new Set(error.issues.map(issue => {
+    const [field, index] = issue.path;
+    return field === 'partnerTokens' && typeof index === 'number' ? `Partner token ${index + 1} ${issue.message}` : issue.message;
+  })));
+}
+
+const OPEN_STATUSES = ['pending', 'queued'];
+const PROPOSAL_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function requiredApprovals(): number {
+  const configured = parseInt(process.env.ADMIN_PROPOSAL_APPROVALS ?? '', 10);
+  return Number.isFinite(configured) && configured >= 0 ? configured : 2;
+}
+
+function minimumTimelockSeconds(): number {
+  const hours = Number(process.env.ADMIN_PROPOSAL_TIMELOCK_HOURS) || 0;
+  return Math.max(0, Math.round(hours * 3600));
+}
+
+// Fields compared in the audit log diff - numerics are normalized so unchanged values do not show up
+function treasurySnapshot(config: Pick<TreasuryConfig,
+  'smartContractAddress' | 'totalAllocation' | 'programStartDate' | 'programEndDate' | 'programDurationDays' | 'dailyRewardsCap' | 'isActive'>) {
+  return {
+    smartContractAddress: config.smartContractAddress,
+    totalAllocation: Number(config.totalAllocation),
+    programStartDate: config.programStartDate,
+    programEndDate: config.programEndDate,
+    programDurationDays: config.programDurationDays,
+    dailyRewardsCap: Number(config.dailyRewardsCap),
+    isActive: config.isActive
+  };
+}
+
+function incentiveProgramSnapshot(program: IncentiveProgram, partnerTokens: PartnerTokenValues[]) {
+  return {
+    name: program.name,
+    chainId: program.chainId,
+    poolAddress: program.poolAddress,
+    token0Address: program.token0Address,
+    token1Address: program.token1Address,
+    feeTier: program.feeTier,
+    rewardTokenAddress: program.rewardTokenAddress,
+    rewardTokenSymbol: program.rewardTokenSymbol,
+    totalBudget: program.totalBudget === null ? null : Number(program.totalBudget),
+    startDate: program.startDate,
+    endDate: program.endDate,
+    isActive: program.isActive,
+    partnerTokens
+  };
+}
+
+function partnerTokenValues(token: PartnerTokenValues): PartnerTokenValues {
+  return { tokenAddress: token.tokenAddress, tokenSymbol: token.tokenSymbol, decimals: token.decimals, totalBudget: token.totalBudget };
+}
+
+function programSettingsSnapshot(settings: ProgramSettings) {
+  return {
+    versionId: settings.id,
+    timeBoostCoefficient: parseFloat(settings.timeBoostCoefficient),
+    fullRangeBonus: parseFloat(settings.fullRangeBonus),
+    minimumPositionValue: parseFloat(settings.minimumPositionValue),
+    lockPeriod: settings.lockPeriod,
+    effectiveFrom: settings.effectiveFrom.toISOString()
+  };
+}
+
+class AdminProposalService {
+  private readonly EXECUTOR_INTERVAL = 60 * 1000; // 1 minute
+
+  /**
+   * Register the executor with the job scheduler - the leader applies due proposals, so a
+   * queued change is never executed twice
+   */
+  start(): void {
+    jobScheduler.register({
+      name: ADMIN_PROPOSAL_EXECUTOR_JOB,
+      description: 'Apply queued admin proposals past their timelock and expire stale ones',
+      intervalMs: this.EXECUTOR_INTERVAL,
+      handler: () => this.processDueProposals()
+    });
+    console.log('🗳️ Admin proposal executor registered (every 1 minute)');
+  }
+
+  stop(): void {
+    jobScheduler.unregister(ADMIN_PROPOSAL_EXECUTOR_JOB);
+  }
+
+  isApprovalRequired(): boolean {
+    return requiredApprovals() > 0;
+  }
+
+  validateTreasuryConfig(config: unknown): ValidationResult<TreasuryConfigChange> {
+    const result = treasuryConfigSchema.safeParse(config ?? {});
+    if (!result.success) return { valid: false, errors: validationErrors(result.error) };
+
+    return { valid: true, change: { ...result.data, isActive: result.data.isActive !== false } };
+  }
+
+  validateProgramSettings(settings: unknown): ValidationResult<ProgramSettingsChange> {
+    const result = programSettingsSchema.safeParse(settings ?? {});
+    if (!result.success) return { valid: false, errors: validationErrors(result.error) };
+
+    const { effectiveFrom, ...values } = result.data;
+    return {
+      valid: true,
+      change: {
+        ...values,
+        effectiveFrom: effectiveFrom ? new Date(effectiveFrom).toISOString() : undefined
+      }
+    };
+  }
+
+  /**
+   * Validate a program create (no programId) or update. The treasury-funded program's budget
+   * and dates are edited through the treasury config, so they stay null here.
+   */
+  async validateIncentiveProgram(input: unknown, programId?: number): Promise<ValidationResult<IncentiveProgramChange>> {
+    const existing = programId !== undefined ? await incentiveProgramService.getProgram(programId) : null;
+    if (programId !== undefined && !existing) {
+      return { valid: false, errors: [`Incentive program ${programId} not found`] };
+    }
+
+    const result = incentiveProgramSchema(existing).safeParse(input ?? {});
+    if (!result.success) return { valid: false, errors: programValidationErrors(result.error) };
+
+    const { isActive, ...values } = result.data;
+    return { valid: true, change: { ...values, programId, isActive: isActive !== false } };
+  }
+
+  /**
+   * Create or update an incentive program
+   */
+  async applyIncentiveProgram(change: IncentiveProgramChange, performedBy: string, proposalId?: number): Promise<IncentiveProgram> {
+    const { programId, partnerTokens, ...values } = change;
+    const program = {
+      ...values,
+      totalBudget: values.totalBudget === null ? null : values.totalBudget.toString()
+    };
+
+    let before: IncentiveProgram | null = null;
+    let partnerTokensBefore: PartnerTokenValues[] = [];
+    let saved: IncentiveProgram | null;
+    if (programId !== undefined) {
+      [before] = await db.select().from(incentivePrograms).where(eq(incentivePrograms.id, programId));
+      partnerTokensBefore = (await incentiveProgramService.getProgram(programId))?.partnerTokens ?? [];
+      saved = await incentiveProgramService.updateProgram(programId, program);
+      if (!saved) throw new Error(`Incentive program ${programId} not found`);
+    } else {
+      saved = await incentiveProgramService.createProgram(program, performedBy);
+    }
+    // Proposals queued before partner tokens existed carry none - leave the program's as they are
+    if (partnerTokens) {
+      await incentiveProgramService.setPartnerTokens(saved.id, partnerTokens);
+    }
+    unifiedRewardService.clearCache();
+
+    await this.logOperation(
+      programId !== undefined ? 'incentive_program_update' : 'incentive_program_create',
+      `${programId !== undefined ? 'Updated' : 'Created'} incentive program #${saved.id} ${saved.name} on ${saved.poolAddress}${proposalId ? ` (proposal #${proposalId})` : ''}`,
+      performedBy,
+      {
+        amount: saved.totalBudget ?? undefined,
+        before: before ? incentiveProgramSnapshot(before, partnerTokensBefore.map(partnerTokenValues)) : null,
+        after: incentiveProgramSnapshot(saved, partnerTokens ?? partnerTokensBefore.map(partnerTokenValues))
+      }
+    );
+    console.log(`🎯 INCENTIVE PROGRAMS: #${saved.id} ${saved.name} ${programId !== undefined ? 'updated' : 'created'}`);
+    return saved;
+  }
+
+  /**
+   * Write a treasury config change to the database
+   */
+  async applyTreasuryConfig(change: TreasuryConfigChange, performedBy: string, proposalId?: number) {
+    const programStartDate = new Date(change.programStartDate);
+    const programEndDate = new Date(programStartDate.getTime() + (change.programDurationDays * 24 * 60 * 60 * 1000));
+    const dailyRewardsCap = change.totalAllocation / change.programDurationDays;
+
+    const dbConfig = {
+      smartContractAddress: change.smartContractAddress,
+      totalAllocation: change.totalAllocation.toString(),
+      programStartDate: programStartDate.toISOString().split('T')[0],
+      programEndDate: programEndDate.toISOString().split('T')[0],
+      programDurationDays: change.programDurationDays,
+      dailyRewardsCap: dailyRewardsCap.toString(),
+      isActive: change.isActive,
+      createdBy: performedBy,
+      updatedAt: new Date()
+    };
+
+    const existingConfig = await storage.getTreasuryConfig();
+    await storage.saveTreasuryConfig(dbConfig);
+
+    await this.logOperation(
+      'treasury_update',
+      `Updated treasury configuration - Total: ${change.totalAllocation.toLocaleString()} KILT, Duration: ${change.programDurationDays} days${proposalId ? ` (proposal #${proposalId})` : ''}`,
+      performedBy,
+      {
+        amount: change.totalAllocation.toString(),
+        before: existingConfig ? treasurySnapshot(existingConfig) : null,
+        after: treasurySnapshot(dbConfig)
+      }
+    );
+
+    console.log('🚀 Admin treasury config updated - triggering reward calculation refresh');
+    console.log(`💰 New daily reward rate: ${dailyRewardsCap.toFixed(4)} KILT per day`);
+    return { config: dbConfig, dailyRewardsCap };
+  }
+
+  /**
+   * Record a new program settings version. Past effectiveFrom values are clamped to now
+   * so accrued days are never rewritten.
+   */
+  async applyProgramSettings(change: ProgramSettingsChange, performedBy: string, proposalId?: number): Promise<ProgramSettings> {
+    const previous = await programSettingsService.getEffectiveSettings();
+    const created = await programSettingsService.createVersion({
+      timeBoostCoefficient: change.timeBoostCoefficient,
+      fullRangeBonus: change.fullRangeBonus,
+      minimumPositionValue: change.minimumPositionValue,
+      lockPeriod: change.lockPeriod,
+      effectiveFrom: change.effectiveFrom ? new Date(change.effectiveFrom) : undefined,
+      createdBy: performedBy
+    });
+    unifiedRewardService.clearCache();
+
+    await this.logOperation(
+      'parameters_update',
+      `Updated program parameters - Time Boost: ${change.timeBoostCoefficient}, Full Range Bonus: ${change.fullRangeBonus}, Min Position: $${change.minimumPositionValue}, Lock Period: ${change.lockPeriod} days (effective ${created.effectiveFrom.toISOString()})${proposalId ? ` (proposal #${proposalId})` : ''}`,
+      performedBy,
+      { before: previous ? programSettingsSnapshot(previous) : null, after: programSettingsSnapshot(created) }
+    );
+    return created;
+  }
+
+  /**
+   * Open a proposal for a validated change
+   */
+  async propose(
+    changeType: ProposalChangeType,
+    change: ChangePayload,
+    proposedBy: string,
+    timelockHours?: number
+  ): Promise<ProposalActionResult> {
+    const required = requiredApprovals();
+    const eligible = (await adminRoleService.getWalletsWithPermission(CHANGE_PERMISSIONS[changeType]))
+      .filter(wallet => wallet !== proposedBy);
+    if (eligible.length < required) {
+      return {
+        success: false,
+        error: `This change needs ${required} approvals but only ${eligible.length} other admin(s) hold ${CHANGE_PERMISSIONS[changeType]}`,
+        code: 'NOT_ENOUGH_APPROVERS'
+      };
+    }
+
+    const requestedTimelock = timelockHours && timelockHours > 0 ? Math.round(timelockHours * 3600) : 0;
+    const payload = JSON.stringify(change);
+    const summary = this.summarize(changeType, change);
+
+    const [proposal] = await db.insert(adminProposals).values({
+      changeType,
+      payload,
+      payloadHash: keccak256(toBytes(payload)),
+      summary,
+      proposedBy,
+      requiredApprovals: required,
+      timelockSeconds: Math.max(minimumTimelockSeconds(), requestedTimelock),
+      expiresAt: new Date(Date.now() + PROPOSAL_TTL_MS)
+    }).returning();
+
+    await this.logOperation('proposal_created', `Proposal #${proposal.id}: ${summary} (needs ${required} approvals)`, proposedBy, { after: change });
+    console.log(`🗳️ PROPOSAL: #${proposal.id} ${changeType} proposed by ${proposedBy} - ${summary}`);
+    return { success: true, proposal };
+  }
+
+  /**
+   * Exact text an admin signs to vote on a proposal
+   */
+  getVoteMessage(proposal: AdminProposal, decision: ProposalDecision, wallet: string): string {
+    return [
+      'KILT Liquidity Portal admin proposal vote',
+      `Proposal: #${proposal.id}`,
+      `Change: ${proposal.changeType}`,
+      `Summary: ${proposal.summary}`,
+      `Payload hash: ${proposal.payloadHash}`,
+      `Decision: ${decision}`,
+      `Wallet: ${wallet.toLowerCase()}`
+    ].join('\n');
+  }
+
+  async vote(
+    proposalId: number,
+    wallet: string,
+    role: AdminRole,
+    decision: ProposalDecision,
+    signature: Hex
+  ): Promise<ProposalActionResult> {
+    const [proposal] = await db.select().from(adminProposals).where(eq(adminProposals.id, proposalId));
+    if (!proposal) {
+      return { success: false, error: `Proposal #${proposalId} not found`, code: 'NOT_FOUND' };
+    }
+    const changeType = proposal.changeType as ProposalChangeType;
+    if (!roleHasPermission(role, CHANGE_PERMISSIONS[changeType])) {
+      return { success: false, error: `Voting on ${changeType} proposals requires ${CHANGE_PERMISSIONS[changeType]}`, code: 'PERMISSION_DENIED' };
+    }
+    if (proposal.proposedBy === wallet) {
+      return { success: false, error: 'Proposers cannot vote on their own proposal', code: 'PROPOSER_CANNOT_VOTE' };
+    }
+
+    const message = this.getVoteMessage(proposal, decision, wallet);
+    if (!(await adminAuthService.verifyWalletSignature(wallet as `0x${string}`, message, signature))) {
+      return { success: false, error: 'Signature does not match the vote message', code: 'INVALID_SIGNATURE' };
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const [locked] = await tx.select().from(adminProposals).where(eq(adminProposals.id, proposalId)).for('update');
+      if (locked.status !== 'pending') {
+        return { success: false as const, error: `Proposal #${proposalId} is ${locked.status}`, code: 'NOT_PENDING' };
+      }
+      if (locked.expiresAt <= new Date()) {
+        return { success: false as const, error: `Proposal #${proposalId} has expired`, code: 'EXPIRED' };
+      }
+
+      const inserted = await tx.insert(adminProposalVotes)
+        .values({ proposalId, adminWallet: wallet, decision, message, signature })
+        .onConflictDoNothing()
+        .returning({ id: adminProposalVotes.id });
+      if (inserted.length === 0) {
+        return { success: false as const, error: 'You have already voted on this proposal', code: 'ALREADY_VOTED' };
+      }
+
+      const votes = await tx.select().from(adminProposalVotes).where(eq(adminProposalVotes.proposalId, proposalId));
+      const approvals = votes.filter(v => v.decision === 'approve').length;
+      const rejectedBy = new Set(votes.filter(v => v.decision === 'reject').map(v => v.adminWallet));
+
+      const now = new Date();
+      let update: Partial<typeof adminProposals.$inferInsert> = { updatedAt: now };
+      if (approvals >= locked.requiredApprovals) {
+        update = {
+          ...update,
+          status: 'queued',
+          quorumReachedAt: now,
+          executableAfter: new Date(now.getTime() + locked.timelockSeconds * 1000)
+        };
+      } else {
+        // Reject once the admins who have not rejected can no longer reach quorum
+        const eligible = (await adminRoleService.getWalletsWithPermission(CHANGE_PERMISSIONS[changeType]))
+          .filter(w => w !== locked.proposedBy && !rejectedBy.has(w));
+        if (eligible.length < locked.requiredApprovals) {
+          update = { ...update, status: 'rejected' };
+        }
+      }
+
+      const [updated] = await tx.update(adminProposals).set(update).where(eq(adminProposals.id, proposalId)).returning();
+      return { success: true as const, proposal: updated, approvals };
+    });
+
+    if (!result.success) return result;
+
+    await this.logOperation(
+      decision === 'approve' ? 'proposal_approved_by' : 'proposal_rejected_by',
+      `Proposal #${proposalId} ${decision === 'approve' ? 'approved' : 'rejected'} (${result.approvals}/${result.proposal.requiredApprovals} approvals)`,
+      wallet
+    );
+
+    let proposalAfterVote = result.proposal;
+    if (proposalAfterVote.status === 'queued') {
+      await this.logOperation('proposal_quorum', `Proposal #${proposalId} reached quorum - executable after ${proposalAfterVote.executableAfter!.toISOString()}`, wallet);
+      if (proposalAfterVote.executableAfter! <= new Date()) {
+        proposalAfterVote = (await this.execute(proposalId)) ?? proposalAfterVote;
+      }
+    } else if (proposalAfterVote.status === 'rejected') {
+      await this.logOperation('proposal_rejected', `Proposal #${proposalId} rejected - quorum can no longer be reached`, wallet);
+    }
+
+    return { success: true, proposal: proposalAfterVote };
+  }
+
+  /**
+   * Withdraw an open proposal - the proposer or a super-admin
+   */
+  async cancel(proposalId: number, wallet: string, role: AdminRole): Promise<ProposalActionResult> {
+    const [proposal] = await db.select().from(adminProposals).where(eq(adminProposals.id, proposalId));
+    if (!proposal) {
+      return { success: false, error: `Proposal #${proposalId} not found`, code: 'NOT_FOUND' };
+    }
+    if (proposal.proposedBy !== wallet && role !== 'super-admin') {
+      return { success: false, error: 'Only the proposer or a super-admin can cancel a proposal', code: 'PERMISSION_DENIED' };
+    }
+
+    const [cancelled] = await db.update(adminProposals)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(eq(adminProposals.id, proposalId), inArray(adminProposals.status, OPEN_STATUSES)))
+      .returning();
+    if (!cancelled) {
+      return { success: false, error: `Proposal #${proposalId} is ${proposal.status}`, code: 'NOT_OPEN' };
+    }
+
+    await this.logOperation('proposal_cancelled', `Proposal #${proposalId} cancelled`, wallet);
+    return { success: true, proposal: cancelled };
+  }
+
+  /**
+   * Apply a queued proposal. The status moves to executing first so the executor and a
+   * final vote cannot both apply it.
+   */
+  private async execute(proposalId: number): Promise<AdminProposal | null> {
+    const [claimed] = await db.update(adminProposals)
+      .set({ status: 'executing', updatedAt: new Date() })
+      .where(and(eq(adminProposals.id, proposalId), eq(adminProposals.status, 'queued')))
+      .returning();
+    if (!claimed) return null;
+
+    try {
+      const change = JSON.parse(claimed.payload);
+      if (claimed.changeType === 'treasury_config') {
+        await this.applyTreasuryConfig(change, claimed.proposedBy, claimed.id);
+      } else if (claimed.changeType === 'program_settings') {
+        await this.applyProgramSettings(change, claimed.proposedBy, claimed.id);
+      } else if (claimed.changeType === 'incentive_program') {
+        await this.applyIncentiveProgram(change, claimed.proposedBy, claimed.id);
+      } else {
+        throw new Error(`Unknown change type ${claimed.changeType}`);
+      }
+
+      const [executed] = await db.update(adminProposals)
+        .set({ status: 'executed', executedAt: new Date(), updatedAt: new Date() })
+        .where(eq(adminProposals.id, proposalId))
+        .returning();
+      await this.logOperation('proposal_executed', `Proposal #${proposalId} executed: ${claimed.summary}`, claimed.proposedBy);
+      console.log(`✅ PROPOSAL: #${proposalId} executed`);
+      return executed;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const [failed] = await db.update(adminProposals)
+        .set({ status: 'failed', executionError: message, updatedAt: new Date() })
+        .where(eq(adminProposals.id, proposalId))
+        .returning();
+      await this.logOperation('proposal_executed', `Proposal #${proposalId} failed to execute`, claimed.proposedBy, { success: false, errorMessage: message });
+      console.error(`❌ PROPOSAL: #${proposalId} failed to execute:`, message);
+      return failed;
+    }
+  }
+
+  /**
+   * Execute queued proposals whose timelock has passed and expire stale pending ones
+   */
+  async processDueProposals(): Promise<void> {
+    const now = new Date();
+    const due = await db.select({ id: adminProposals.id }).from(adminProposals)
+      .where(and(eq(adminProposals.status, 'queued'), lte(adminProposals.executableAfter, now)))
+      .orderBy(asc(adminProposals.executableAfter));
+    for (const { id } of due) {
+      await this.execute(id);
+    }
+
+    const expired = await db.update(adminProposals)
+      .set({ status: 'expired', updatedAt: now })
+      .where(and(eq(adminProposals.status, 'pending'), lte(adminProposals.expiresAt, now)))
+      .returning({ id: adminProposals.id, proposedBy: adminProposals.proposedBy });
+    for (const proposal of expired) {
+      await this.logOperation('proposal_expired', `Proposal #${proposal.id} expired without reaching quorum`, proposal.proposedBy);
+    }
+  }
+
+  /**
+   * Proposals with their votes, newest first. voteMessages is filled in for `forWallet`.
+   */
+  async listProposals(filter: { changeType?: string; openOnly?: boolean } = {}, forWallet?: string): Promise<ProposalWithVotes[]> {
+    const conditions = [];
+    if (filter.changeType) conditions.push(eq(adminProposals.changeType, filter.changeType));
+    if (filter.openOnly) conditions.push(inArray(adminProposals.status, OPEN_STATUSES));
+
+    const proposals = await db.select().from(adminProposals)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(adminProposals.createdAt))
+      .limit(100);
+    if (proposals.length === 0) return [];
+
+    const votes = await db.select().from(adminProposalVotes)
+      .where(inArray(adminProposalVotes.proposalId, proposals.map(p => p.id)))
+      .orderBy(asc(adminProposalVotes.createdAt));
+
+    return proposals.map(proposal => {
+      const proposalVotes = votes.filter(v => v.proposalId === proposal.id);
+      return {
+        ...proposal,
+        votes: proposalVotes,
+        approvals: proposalVotes.filter(v => v.decision === 'approve').length,
+        rejections: proposalVotes.filter(v => v.decision === 'reject').length,
+        voteMessages: forWallet && proposal.status === 'pending'
+          ? {
+              approve: this.getVoteMessage(proposal, 'approve', forWallet),
+              reject: this.getVoteMessage(proposal, 'reject', forWallet)
+            }
+          : undefined
+      };
+    });
+  }
+
+  private summarize(changeType: ProposalChangeType, change: ChangePayload): string {
+    if (changeType === 'treasury_config') {
+      const treasury = change as TreasuryConfigChange;
+      return `Treasury: ${treasury.totalAllocation.toLocaleString()} KILT over ${treasury.programDurationDays} days from ${treasury.programStartDate}${treasury.isActive ? '' : ' (inactive)'}`;
+    }
+    if (changeType === 'incentive_program') {
+      const program = change as IncentiveProgramChange;
+      const budget = program.totalBudget === null
+        ? 'treasury-funded'
+        : `${program.totalBudget.toLocaleString()} ${program.rewardTokenSymbol} from ${program.startDate} to ${program.endDate}`;
+      const partners = program.partnerTokens?.length
+        ? ` + ${program.partnerTokens.map(token => `${token.totalBudget.toLocaleString()} ${token.tokenSymbol}`).join(', ')}`
+        : '';
+      return `${program.programId !== undefined ? `Update program #${program.programId}` : 'New program'}: ${program.name} on ${program.poolAddress} - ${budget}${partners}${program.isActive ? '' : ' (inactive)'}`;
+    }
+    const settings = change as ProgramSettingsChange;
+    return `Program params: time boost ${settings.timeBoostCoefficient}, FRB ${settings.fullRangeBonus}, min $${settings.minimumPositionValue}, lock ${settings.lockPeriod}d${settings.effectiveFrom ? ` from ${settings.effectiveFrom}` : ''}`;
+  }
+
+  private async logOperation(
+    operationType: string,
+    reason: string,
+    performedBy: string,
+    extra: { amount?: string; success?: boolean; errorMessage?: string; before?: unknown; after?: unknown } = {}
+  ): Promise<void> {
+    try {
+      await adminAuditService.record({ operationType, reason, performedBy, ...extra });
+    } catch (error) {
+      console.error('Failed to log admin operation:', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+}
+
+export const adminProposalService = new AdminProposalService();
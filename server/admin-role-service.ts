@@ -0,0 +1,200 @@
+/**
+ * ADMIN ROLE SERVICE
+ * Database-backed admin roles. Each wallet holds at most one role; routes check permissions
+ * rather than roles so a role's scope can change without touching the routes. Every grant,
+ * change and revocation is written to admin_operations in the same transaction.
+ */
+
+import { db } from './db';
+import { adminRoles, type AdminRoleGrant } from '../shared/schema';
+import { and, asc, eq, isNull, ne, sql } from 'drizzle-orm';
+import { adminAuditService } from './admin-audit-service';
+
+export const ADMIN_ROLES = ['viewer', 'config-editor', 'treasury-operator', 'super-admin'] as const;
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+export const ADMIN_PERMISSIONS = ['admin:read', 'config:write', 'treasury:write', 'rewards:distribute', 'roles:manage'] as const;
+export type AdminPermission = typeof ADMIN_PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+  'viewer': ['admin:read'],
+  'config-editor': ['admin:read', 'config:write'],
+  'treasury-operator': ['admin:read', 'treasury:write', 'rewards:distribute'],
+  'super-admin': ADMIN_PERMISSIONS
+};
+
+// Granted super-admin once, when admin_roles is empty, so existing deployments keep access.
+// ADMIN_BOOTSTRAP_WALLETS (comma separated) replaces this list.
+const LEGACY_ADMIN_WALLETS = [
+  '0x5bF25Dc1BAf6A96C5A0F724E05EcF4D456c7652e',
+  '0x861722f739539CF31d86F1221460Fa96C9baB95C',
+  '0x97A6c2DE9a2aC3d75e85d70e465bd5a621813CE8',
+  '0xD117738595dfAFe4c2f96bcF63Ed381788E08d39'
+];
+
+export type RoleChangeResult =
+  | { success: true; grant: AdminRoleGrant }
+  | { success: false; error: string; code: string };
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+export function roleHasPermission(role: AdminRole, permission: AdminPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+class AdminRoleService {
+  private bootstrapped = false;
+
+  /**
+   * Seed super-admins on first use of an empty admin_roles table
+   */
+  async ensureBootstrap(): Promise<void> {
+    if (this.bootstrapped) return;
+
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(adminRoles);
+    if (count === 0) {
+      const configured = (process.env.ADMIN_BOOTSTRAP_WALLETS || '')
+        .split(',')
+        .map(address => address.trim())
+        .filter(address => /^0x[a-fA-F0-9]{40}$/.test(address));
+      const wallets = Array.from(new Set((configured.length > 0 ? configured : LEGACY_ADMIN_WALLETS).map(a => a.toLowerCase())));
+
+      await db.transaction(async (tx) => {
+        for (const walletAddress of wallets) {
+          await tx.insert(adminRoles)
+            .values({ walletAddress, role: 'super-admin', label: 'Bootstrap', grantedBy: 'bootstrap' })
+            .onConflictDoNothing();
+          await this.logRoleOperation(tx, 'admin_role_grant', walletAddress, 'super-admin', null, 'bootstrap');
+        }
+      });
+      console.log(`👑 ADMIN ROLES: Bootstrapped ${wallets.length} super-admin wallet(s)`);
+    }
+
+    this.bootstrapped = true;
+  }
+
+  /**
+   * Active role for a wallet, or null when it holds none
+   */
+  async getActiveRole(walletAddress: string): Promise<AdminRole | null> {
+    await this.ensureBootstrap();
+    const [grant] = await db.select({ role: adminRoles.role })
+      .from(adminRoles)
+      .where(and(eq(adminRoles.walletAddress, walletAddress.toLowerCase()), isNull(adminRoles.revokedAt)))
+      .limit(1);
+    return grant && isAdminRole(grant.role) ? grant.role : null;
+  }
+
+  async listRoles(includeRevoked = false): Promise<AdminRoleGrant[]> {
+    await this.ensureBootstrap();
+    return db.select().from(adminRoles)
+      .where(includeRevoked ? undefined : isNull(adminRoles.revokedAt))
+      .orderBy(asc(adminRoles.grantedAt));
+  }
+
+  /**
+   * Active wallets whose role includes a permission
+   */
+  async getWalletsWithPermission(permission: AdminPermission): Promise<string[]> {
+    const roles = await this.listRoles();
+    return roles
+      .filter(grant => isAdminRole(grant.role) && roleHasPermission(grant.role, permission))
+      .map(grant => grant.walletAddress);
+  }
+
+  /**
+   * Grant a role, or change the role of a wallet that already holds one
+   */
+  async grantRole(walletAddress: string, role: AdminRole, grantedBy: string, label?: string): Promise<RoleChangeResult> {
+    if (!/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      return { success: false, error: 'Invalid wallet address format', code: 'INVALID_ADDRESS' };
+    }
+    const wallet = walletAddress.toLowerCase();
+
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(adminRoles).where(eq(adminRoles.walletAddress, wallet)).for('update');
+      const previousRole = existing && !existing.revokedAt ? existing.role : null;
+
+      if (previousRole === 'super-admin' && role !== 'super-admin' && await this.isLastSuperAdmin(tx, wallet)) {
+        return { success: false as const, error: 'Cannot demote the last super-admin', code: 'LAST_SUPER_ADMIN' };
+      }
+
+      const values = {
+        role,
+        label: label ?? existing?.label ?? null,
+        grantedBy: grantedBy.toLowerCase(),
+        grantedAt: new Date(),
+        revokedBy: null,
+        revokedAt: null
+      };
+      const [grant] = existing
+        ? await tx.update(adminRoles).set(values).where(eq(adminRoles.id, existing.id)).returning()
+        : await tx.insert(adminRoles).values({ walletAddress: wallet, ...values }).returning();
+
+      await this.logRoleOperation(tx, 'admin_role_grant', wallet, role, previousRole, grantedBy);
+      console.log(`👑 ADMIN ROLES: ${wallet} granted ${role}${previousRole ? ` (was ${previousRole})` : ''} by ${grantedBy}`);
+      return { success: true as const, grant };
+    });
+  }
+
+  async revokeRole(walletAddress: string, revokedBy: string): Promise<RoleChangeResult> {
+    const wallet = walletAddress.toLowerCase();
+
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(adminRoles)
+        .where(and(eq(adminRoles.walletAddress, wallet), isNull(adminRoles.revokedAt)))
+        .for('update');
+      if (!existing) {
+        return { success: false as const, error: `Wallet ${wallet} holds no admin role`, code: 'ROLE_NOT_FOUND' };
+      }
+      if (existing.role === 'super-admin' && await this.isLastSuperAdmin(tx, wallet)) {
+        return { success: false as const, error: 'Cannot revoke the last super-admin', code: 'LAST_SUPER_ADMIN' };
+      }
+
+      const [revoked] = await tx.update(adminRoles)
+        .set({ revokedBy: revokedBy.toLowerCase(), revokedAt: new Date() })
+        .where(eq(adminRoles.id, existing.id))
+        .returning();
+
+      await this.logRoleOperation(tx, 'admin_role_revoke', wallet, null, existing.role, revokedBy);
+      console.log(`👑 ADMIN ROLES: ${wallet} revoked (was ${existing.role}) by ${revokedBy}`);
+      return { success: true as const, grant: revoked };
+    });
+  }
+
+  private async isLastSuperAdmin(tx: Tx, wallet: string): Promise<boolean> {
+    const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` })
+      .from(adminRoles)
+      .where(and(eq(adminRoles.role, 'super-admin'), isNull(adminRoles.revokedAt), ne(adminRoles.walletAddress, wallet)));
+    return count === 0;
+  }
+
+  private async logRoleOperation(
+    tx: Tx,
+    operationType: 'admin_role_grant' | 'admin_role_revoke',
+    walletAddress: string,
+    role: AdminRole | null,
+    previousRole: string | null,
+    performedBy: string
+  ): Promise<void> {
+    const reason = operationType === 'admin_role_grant'
+      ? `Granted ${role} to ${walletAddress}${previousRole ? ` (was ${previousRole})` : ''}`
+      : `Revoked ${previousRole} from ${walletAddress}`;
+
+    await adminAuditService.record({
+      operationType,
+      reason,
+      performedBy,
+      toAddress: walletAddress,
+      before: { walletAddress, role: previousRole },
+      after: { walletAddress, role },
+      details: { walletAddress, role, previousRole }
+    }, tx);
+  }
+}
+
+export const adminRoleService = new AdminRoleService();
@@ -0,0 +1,131 @@
+/**
+ * API KEY SERVICE
+ * Keys for the public /v1 API. Admins issue a key per partner or team; the raw key is returned
+ * once and only its sha256 hash is stored. Each key carries its own per-minute rate limit.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { db } from './db';
+import { apiKeys, type ApiKey } from '../shared/schema';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { getBearerToken } from './admin-auth-service';
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+const KEY_PREFIX = 'kilt_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+const LAST_USED_THROTTLE_MS = 60 * 1000;
+
+export const DEFAULT_API_KEY_RATE_LIMIT = 60;
+export const MAX_API_KEY_RATE_LIMIT = 6000;
+
+export type ApiKeySummary = Omit<ApiKey, 'keyHash'>;
+
+export type CreateApiKeyResult =
+  | { success: true; key: string; apiKey: ApiKeySummary }
+  | { success: false; error: string; code: string };
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function summarize({ keyHash, ...summary }: ApiKey): ApiKeySummary {
+  return summary;
+}
+
+/** X-API-Key header, falling back to an Authorization bearer token */
+export function getApiKey(req: Request): string | null {
+  const header = req.get('x-api-key')?.trim();
+  return header || getBearerToken(req);
+}
+
+class ApiKeyService {
+
+  async create(name: string, createdBy: string, rateLimitPerMinute = DEFAULT_API_KEY_RATE_LIMIT): Promise<CreateApiKeyResult> {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed.length > 100) {
+      return { success: false, error: 'Key name must be 1-100 characters', code: 'INVALID_NAME' };
+    }
+    if (!Number.isInteger(rateLimitPerMinute) || rateLimitPerMinute < 1 || rateLimitPerMinute > MAX_API_KEY_RATE_LIMIT) {
+      return { success: false, error: `Rate limit must be between 1 and ${MAX_API_KEY_RATE_LIMIT} requests per minute`, code: 'INVALID_RATE_LIMIT' };
+    }
+
+    const key = `${KEY_PREFIX}${randomBytes(24).toString('hex')}`;
+    const [apiKey] = await db.insert(apiKeys).values({
+      name: trimmed,
+      keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashKey(key),
+      rateLimitPerMinute,
+      createdBy: createdBy.toLowerCase()
+    }).returning();
+
+    console.log(`🔑 API KEY: Issued "${trimmed}" (${apiKey.keyPrefix}…) at ${rateLimitPerMinute}/min`);
+    return { success: true, key, apiKey: summarize(apiKey) };
+  }
+
+  async list(): Promise<ApiKeySummary[]> {
+    const rows = await db.select().from(apiKeys).orderBy(desc(apiKeys.createdAt));
+    return rows.map(summarize);
+  }
+
+  async revoke(id: number): Promise<ApiKeySummary | null> {
+    const [revoked] = await db.update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+      .returning();
+    if (!revoked) return null;
+
+    console.log(`🔒 API KEY: Revoked "${revoked.name}" (${revoked.keyPrefix}…)`);
+    return summarize(revoked);
+  }
+
+  /**
+   * Active key for a raw key value, or null when it is unknown or revoked
+   */
+  async authenticate(key: string): Promise<ApiKey | null> {
+    if (!key.startsWith(KEY_PREFIX)) return null;
+
+    const [apiKey] = await db.select().from(apiKeys)
+      .where(and(eq(apiKeys.keyHash, hashKey(key)), isNull(apiKeys.revokedAt)))
+      .limit(1);
+    if (!apiKey) return null;
+
+    const now = new Date();
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_THROTTLE_MS) {
+      db.update(apiKeys).set({ lastUsedAt: now }).where(eq(apiKeys.id, apiKey.id))
+        .catch(error => console.warn('Failed to update API key last used:', error instanceof Error ? error.message : error));
+    }
+    return apiKey;
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
+
+/**
+ * Express guard for the public API - sets req.apiKey
+ */
+export async function requireApiKey(req: Request, res: Response, next: NextFunction) {
+  const key = getApiKey(req);
+  if (!key) {
+    return res.status(401).json({ error: 'API key required - send it in the X-API-Key header', code: 'API_KEY_REQUIRED' });
+  }
+
+  try {
+    const apiKey = await apiKeyService.authenticate(key);
+    if (!apiKey) {
+      return res.status(401).json({ error: 'API key is invalid or revoked', code: 'API_KEY_INVALID' });
+    }
+    req.apiKey = apiKey;
+    next();
+  } catch (error) {
+    console.error('API key check failed:', error);
+    res.status(500).json({ error: 'Authentication system error', code: 'SYSTEM_ERROR' });
+  }
+}
@@ -1,51 +1,46 @@
 import { createPublicClient, http } from 'viem';
-import { base } from 'viem/chains';
 import { PriceService } from './price-service';
+import { DEFAULT_CHAIN_ID, requireChainConfig } from './chain-registry';
 
 /**
  * Authentic Fee Service using manual calculation like Uniswap interface
  * This implements the exact method Uniswap uses to show $13.94 instead of $7.96
  */
 export class AuthenticFeeService {
-  private static readonly rpcEndpoints = [
-    'https://api.developer.coinbase.com/rpc/v1/base/FtQSiNzg6tfPcB1Hmirpy4T9SGDGFveA',
-    'https://mainnet.base.org',
-    'https://base.drpc.org'
-  ];
+  private static readonly MAX_RPC_ATTEMPTS = 3;
 
-  private static getClient(rpcIndex: number = 0) {
+  private static getClient(chainId: number, rpcUrl: string) {
     return createPublicClient({
-      chain: base,
-      transport: http(this.rpcEndpoints[rpcIndex])
+      chain: requireChainConfig(chainId).viemChain,
+      transport: http(rpcUrl)
     });
   }
 
-  private static readonly POSITION_MANAGER = '0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1' as `0x${string}`;
-  private static readonly KILT_ETH_POOL = '0x82Da478b1382B951cBaD01Beb9eD459cDB16458E' as `0x${string}`;
-
   /**
    * Calculate authentic unclaimed fees using the exact same method as Uniswap interface
    * Calculates authentic unclaimed fees using exact Uniswap methodology
    */
-  static async getUnclaimedFees(tokenId: string): Promise<{ 
+  static async getUnclaimedFees(tokenId: string, chainId: number = DEFAULT_CHAIN_ID): Promise<{ 
     token0: string; 
     token1: string; 
     usdValue?: number;
     ethPrice?: number;
     kiltPrice?: number;
   }> {
-    console.log(`🚀 AuthenticFeeService.getUnclaimedFees called for token ${tokenId} (manual calculation)`);
+    console.log(`🚀 AuthenticFeeService.getUnclaimedFees called for token ${tokenId} on chain ${chainId} (manual calculation)`);
+    const chain = requireChainConfig(chainId);
+    const rpcEndpoints = chain.rpcUrls.slice(0, this.MAX_RPC_ATTEMPTS);
     
     // Try each RPC endpoint until one works
-    for (let rpcIndex = 0; rpcIndex < this.rpcEndpoints.length; rpcIndex++) {
+    for (let rpcIndex = 0; rpcIndex < rpcEndpoints.length; rpcIndex++) {
       try {
-        console.log(`🔧 Authentic fee calculation attempt ${rpcIndex + 1} using ${this.rpcEndpoints[rpcIndex]}`);
+        console.log(`🔧 Authentic fee calculation attempt ${rpcIndex + 1} using ${rpcEndpoints[rpcIndex]}`);
         
-        const client = this.getClient(rpcIndex);
+        const client = this.getClient(chainId, rpcEndpoints[rpcIndex]);
         
         // Get position data
         const positionData = await client.readContract({
-          address: this.POSITION_MANAGER,
+          address: chain.uniswap.positionManager,
           abi: [{
             inputs: [{ name: 'tokenId', type: 'uint256' }],
             name: 'positions',
@@ -82,10 +77,28 @@ export class AuthenticFeeService {
           };
         }
 
+        // The position's pool, from the chain's factory
+        const poolAddress = await client.readContract({
+          address: chain.uniswap.factory,
+          abi: [{
+            inputs: [
+              { name: 'tokenA', type: 'address' },
+              { name: 'tokenB', type: 'address' },
+              { name: 'fee', type: 'uint24' }
+            ],
+            name: 'getPool',
+            outputs: [{ name: '', type: 'address' }],
+            stateMutability: 'view',
+            type: 'function'
+          }],
+          functionName: 'getPool',
+          args: [token0, token1, fee]
+        }) as `0x${string}`;
+
         // Get current pool feeGrowthGlobal values
         const [feeGrowthGlobal0X128, feeGrowthGlobal1X128] = await Promise.all([
           client.readContract({
-            address: this.KILT_ETH_POOL,
+            address: poolAddress,
             abi: [{
               inputs: [],
               name: 'feeGrowthGlobal0X128',
@@ -96,7 +109,7 @@ export class AuthenticFeeService {
             functionName: 'feeGrowthGlobal0X128'
           }),
           client.readContract({
-            address: this.KILT_ETH_POOL,
+            address: poolAddress,
             abi: [{
               inputs: [],
               name: 'feeGrowthGlobal1X128',
@@ -111,7 +124,7 @@ export class AuthenticFeeService {
         // Get tick data for lower and upper bounds
         const [lowerTickData, upperTickData] = await Promise.all([
           client.readContract({
-            address: this.KILT_ETH_POOL,
+            address: poolAddress,
             abi: [{
               inputs: [{ name: 'tick', type: 'int24' }],
               name: 'ticks',
@@ -132,7 +145,7 @@ export class AuthenticFeeService {
             args: [tickLower]
           }),
           client.readContract({
-            address: this.KILT_ETH_POOL,
+            address: poolAddress,
             abi: [{
               inputs: [{ name: 'tick', type: 'int24' }],
               name: 'ticks',
@@ -161,7 +174,7 @@ export class AuthenticFeeService {
 
         // Get current tick to determine position
         const slot0Data = await client.readContract({
-          address: this.KILT_ETH_POOL,
+          address: poolAddress,
           abi: [{
             inputs: [],
             name: 'slot0',
@@ -231,7 +244,7 @@ export class AuthenticFeeService {
         console.log(`⚠️ Authentic calculation attempt ${rpcIndex + 1} failed:`, error.shortMessage || error.message);
         
         // If this is the last RPC endpoint, throw the error
-        if (rpcIndex === this.rpcEndpoints.length - 1) {
+        if (rpcIndex === rpcEndpoints.length - 1) {
           console.error(`❌ All RPC endpoints failed for authentic calculation of position ${tokenId}. Last error:`, error);
           throw error;
         }
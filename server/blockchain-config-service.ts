@@ -5,6 +5,7 @@ import { eq } from 'drizzle-orm';
 export class BlockchainConfigService {
   private static instance: BlockchainConfigService;
   private configCache: Map<string, string> = new Map();
+  private overrides: Map<string, string> = new Map(); // Process-local values that win over the database
   private lastCacheUpdate = 0;
   private readonly CACHE_DURATION = 30000; // 30 seconds
 
@@ -61,6 +62,11 @@ export class BlockchainConfigService {
 
   // Get configuration value with caching
   async getConfig(key: string): Promise<string | null> {
+    const override = this.overrides.get(key);
+    if (override !== undefined) {
+      return override;
+    }
+
     try {
       // Check cache first
       const now = Date.now();
@@ -149,6 +155,7 @@ export class BlockchainConfigService {
     return address || '0x5D0DD05bB095fdD6Af4865A1AdF97c39C85ad2d8'; // Fallback
   }
 
+  // Pool of the original KILT/ETH program - incentive programs carry their own pool addresses
   async getKiltEthPoolAddress(): Promise<string> {
     const address = await this.getConfig('KILT_ETH_POOL_ADDRESS');
     return address || '0x82Da478b1382B951cBaD01Beb9eD459cDB16458E'; // Fallback
@@ -191,6 +198,17 @@ export class BlockchainConfigService {
     };
   }
 
+  // Override configuration for this process only - the fake-chain harness points services at local contracts this way
+  setOverrides(values: Record<string, string>): void {
+    for (const [key, value] of Object.entries(values)) {
+      this.overrides.set(key, value);
+    }
+  }
+
+  clearOverrides(): void {
+    this.overrides.clear();
+  }
+
   // Clear cache (useful for testing or forced refresh)
   clearCache(): void {
     this.configCache.clear();
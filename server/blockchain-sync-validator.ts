@@ -5,10 +5,14 @@
  * - Detecting and correcting sync discrepancies automatically
  * - Providing fail-safe mechanisms for data integrity
  * - Monitoring sync health across all users
+ * Validation runs as a scheduler job on the leader instance.
  */
 
 import { storage } from "./storage";
 import { uniswapIntegrationService } from "./uniswap-integration-service";
+import { jobScheduler } from "./job-scheduler";
+
+export const BLOCKCHAIN_SYNC_JOB = 'blockchain-sync-validation';
 
 interface SyncDiscrepancy {
   tokenId: string;
@@ -22,37 +26,26 @@ interface SyncDiscrepancy {
 }
 
 class BlockchainSyncValidator {
-  private isRunning = false;
-  private intervalId: NodeJS.Timeout | null = null;
   private discrepancies: SyncDiscrepancy[] = [];
 
   /**
-   * Start continuous sync validation
+   * Register continuous sync validation with the job scheduler - every 5 minutes
    */
   start() {
-    if (this.isRunning) return;
-    
-    this.isRunning = true;
-    console.log('🔄 Blockchain Sync Validator started - ensuring data integrity at scale');
-    
-    // Run initial validation
-    this.validateAllPositions();
-    
-    // Run validation every 5 minutes
-    this.intervalId = setInterval(() => {
-      this.validateAllPositions();
-    }, 5 * 60 * 1000);
+    jobScheduler.register({
+      name: BLOCKCHAIN_SYNC_JOB,
+      description: 'Cross-validate registered positions against on-chain state',
+      intervalMs: 5 * 60 * 1000,
+      handler: () => this.validateAllPositions()
+    });
+    console.log('🔄 Blockchain Sync Validator registered - ensuring data integrity at scale');
   }
 
   /**
-   * Stop the sync validator
+   * Stop running the sync validator on this instance
    */
   stop() {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-    }
-    this.isRunning = false;
+    jobScheduler.unregister(BLOCKCHAIN_SYNC_JOB);
     console.log('⏹️ Blockchain Sync Validator stopped');
   }
 
@@ -158,8 +151,10 @@ class BlockchainSyncValidator {
         this.discrepancies = this.discrepancies.slice(-100);
       }
       
+      return { validated: totalValidated, discrepancies: discrepanciesFound, autoFixed };
     } catch (error) {
       console.error('💥 SYNC VALIDATOR: Validation failed:', error);
+      throw error;
     }
   }
 
@@ -0,0 +1,194 @@
+/**
+ * CHAIN REGISTRY
+ * RPC endpoints, Uniswap V3 deployment addresses, WETH and the treasury contract for every
+ * chain the app can index. Base is the default chain - anything stored before multi-chain
+ * support (positions, programs, indexer checkpoints) belongs to it.
+ *
+ * Per-chain overrides via environment:
+ *   RPC_URLS_<chainId>                 comma separated, tried before the built-in endpoints
+ *   RPC_URLS_EXCLUSIVE                 "true" drops the built-in endpoints of chains that set
+ *                                      RPC_URLS_<chainId> (local nodes must not fail over to mainnet)
+ *   TREASURY_CONTRACT_<chainId>        treasury contract (Base falls back to treasury_config)
+ *   UNISWAP_FACTORY_<chainId>          Uniswap V3 factory
+ *   UNISWAP_POSITION_MANAGER_<chainId> Uniswap V3 NonfungiblePositionManager
+ *   WETH_<chainId>                     wrapped native token
+ *   ENABLED_CHAIN_IDS                  comma separated chains to index (default: Base only)
+ */
+
+import type { Chain } from 'viem';
+import { arbitrum, base, mainnet, optimism } from 'viem/chains';
+
+export const DEFAULT_CHAIN_ID = base.id;
+
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  viemChain: Chain;
+  rpcUrls: string[];
+  uniswap: {
+    factory: `0x${string}`;
+    positionManager: `0x${string}`;
+    swapRouter: `0x${string}`; // SwapRouter02 - exactInputSingle without a deadline
+    quoter: `0x${string}`; // QuoterV2
+  };
+  weth: `0x${string}`;
+  treasuryContract: string | null;
+  explorerUrl: string;
+  dexScreenerId: string; // Chain slug in DexScreener pair URLs
+}
+
+// Canonical Uniswap V3 deployment shared by Ethereum, Arbitrum and Optimism
+const CANONICAL_UNISWAP = {
+  factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+  positionManager: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+  swapRouter: '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45',
+  quoter: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e'
+} as const;
+
+const BUILT_IN_CHAINS: Omit<ChainConfig, 'treasuryContract'>[] = [
+  {
+    chainId: base.id,
+    name: 'Base',
+    viemChain: base,
+    rpcUrls: [
+      ...(process.env.BASE_RPC_URL ? [process.env.BASE_RPC_URL] : []),
+      'https://api.developer.coinbase.com/rpc/v1/base/FtQSiNzg6tfPcB1Hmirpy4T9SGDGFveA',
+      'https://mainnet.base.org',
+      'https://base.drpc.org',
+      'https://base-rpc.publicnode.com',
+      'https://1rpc.io/base',
+      'https://base.gateway.tenderly.co',
+      'https://base.meowrpc.com',
+      'https://base.blockpi.network/v1/rpc/public'
+    ],
+    uniswap: {
+      factory: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD',
+      positionManager: '0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1',
+      swapRouter: '0x2626664c2603336E57B271c5C0b26F421741e481',
+      quoter: '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a'
+    },
+    weth: '0x4200000000000000000000000000000000000006',
+    explorerUrl: 'https://basescan.org',
+    dexScreenerId: 'base'
+  },
+  {
+    chainId: mainnet.id,
+    name: 'Ethereum',
+    viemChain: mainnet,
+    rpcUrls: [
+      'https://ethereum-rpc.publicnode.com',
+      'https://eth.drpc.org',
+      'https://1rpc.io/eth',
+      'https://eth.llamarpc.com'
+    ],
+    uniswap: CANONICAL_UNISWAP,
+    weth: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+    explorerUrl: 'https://etherscan.io',
+    dexScreenerId: 'ethereum'
+  },
+  {
+    chainId: arbitrum.id,
+    name: 'Arbitrum One',
+    viemChain: arbitrum,
+    rpcUrls: [
+      'https://arb1.arbitrum.io/rpc',
+      'https://arbitrum-one-rpc.publicnode.com',
+      'https://arbitrum.drpc.org',
+      'https://1rpc.io/arb'
+    ],
+    uniswap: CANONICAL_UNISWAP,
+    weth: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+    explorerUrl: 'https://arbiscan.io',
+    dexScreenerId: 'arbitrum'
+  },
+  {
+    chainId: optimism.id,
+    name: 'Optimism',
+    viemChain: optimism,
+    rpcUrls: [
+      'https://mainnet.optimism.io',
+      'https://optimism-rpc.publicnode.com',
+      'https://optimism.drpc.org',
+      'https://1rpc.io/op'
+    ],
+    uniswap: CANONICAL_UNISWAP,
+    weth: '0x4200000000000000000000000000000000000006',
+    explorerUrl: 'https://optimistic.etherscan.io',
+    dexScreenerId: 'optimism'
+  }
+];
+
+function parseList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function addressOverride(name: string): `0x${string}` | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  if (!/^0x[a-fA-F0-9]{40}$/.test(value)) {
+    throw new Error(`${name} is not an address: ${value}`);
+  }
+  return value as `0x${string}`;
+}
+
+const CHAINS = new Map<number, ChainConfig>(BUILT_IN_CHAINS.map(chain => {
+  const rpcOverrides = parseList(process.env[`RPC_URLS_${chain.chainId}`]);
+  const exclusive = process.env.RPC_URLS_EXCLUSIVE === 'true' && rpcOverrides.length > 0;
+  return [chain.chainId, {
+    ...chain,
+    rpcUrls: exclusive ? rpcOverrides : [...rpcOverrides, ...chain.rpcUrls],
+    uniswap: {
+      ...chain.uniswap,
+      factory: addressOverride(`UNISWAP_FACTORY_${chain.chainId}`) ?? chain.uniswap.factory,
+      positionManager: addressOverride(`UNISWAP_POSITION_MANAGER_${chain.chainId}`) ?? chain.uniswap.positionManager
+    },
+    weth: addressOverride(`WETH_${chain.chainId}`) ?? chain.weth,
+    treasuryContract: process.env[`TREASURY_CONTRACT_${chain.chainId}`] || null
+  }];
+}));
+
+const ENABLED_CHAIN_IDS = (() => {
+  const configured = parseList(process.env.ENABLED_CHAIN_IDS).map(Number).filter(chainId => CHAINS.has(chainId));
+  return configured.length > 0 ? configured : [DEFAULT_CHAIN_ID];
+})();
+
+export function getChainConfig(chainId: number): ChainConfig | null {
+  return CHAINS.get(chainId) || null;
+}
+
+/**
+ * Chain config for services constructed per chain - an unknown chain is a programming error
+ */
+export function requireChainConfig(chainId: number): ChainConfig {
+  const chain = CHAINS.get(chainId);
+  if (!chain) {
+    throw new Error(`Unsupported chain ${chainId}`);
+  }
+  return chain;
+}
+
+export function isEnabledChain(chainId: number): boolean {
+  return ENABLED_CHAIN_IDS.includes(chainId);
+}
+
+/**
+ * Chains positions are indexed and registered on
+ */
+export function getEnabledChains(): ChainConfig[] {
+  return ENABLED_CHAIN_IDS.map(chainId => CHAINS.get(chainId)!);
+}
+
+/**
+ * Registry entries safe to expose publicly (no RPC URLs - some carry API keys)
+ */
+export function getPublicChainInfo() {
+  return getEnabledChains().map(chain => ({
+    chainId: chain.chainId,
+    name: chain.name,
+    uniswap: chain.uniswap,
+    weth: chain.weth,
+    treasuryContract: chain.treasuryContract,
+    explorerUrl: chain.explorerUrl,
+    isDefault: chain.chainId === DEFAULT_CHAIN_ID
+  }));
+}
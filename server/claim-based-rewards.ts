@@ -1,10 +1,9 @@
 import { ethers } from 'ethers';
-import { db } from './db';
-import { rewards, users, adminOperations } from '@shared/schema';
-import { eq, and, lt, isNull, isNotNull } from 'drizzle-orm';
 import { smartContractService } from './smart-contract-service';
 import { blockchainConfigService } from './blockchain-config-service';
-import { unifiedRewardService } from './unified-reward-service';
+import { unifiedRewardService, type UnifiedRewardService } from './unified-reward-service';
+import { storage, type IStorage } from './storage';
+import { DEFAULT_CHAIN_ID, requireChainConfig } from './chain-registry';
 
 export interface ClaimResult {
   success: boolean;
@@ -34,8 +33,8 @@ export class ClaimBasedRewards {
     'function approve(address spender, uint256 amount) returns (bool)'
   ];
 
-  constructor() {
-    this.provider = new ethers.JsonRpcProvider('https://mainnet.base.org');
+  constructor(private storage: IStorage, private rewardService: UnifiedRewardService) {
+    this.provider = new ethers.JsonRpcProvider(requireChainConfig(DEFAULT_CHAIN_ID).rpcUrls[0]);
   }
 
   /**
@@ -43,8 +42,7 @@ export class ClaimBasedRewards {
    */
   private async getLockPeriodDays(): Promise<number> {
     try {
-      const { programSettings } = await import('../shared/schema');
-      const [settings] = await db.select().from(programSettings).limit(1);
+      const settings = await this.storage.getProgramSettings();
       const lockPeriod = settings?.lockPeriod || 0;
       console.log(`🔒 LOCK PERIOD DEBUG: Retrieved from DB: ${lockPeriod} days (settings exists: ${!!settings})`);
       return lockPeriod; // Default to 0 days if not configured
@@ -64,7 +62,7 @@ export class ClaimBasedRewards {
       console.log(`🔒 CLAIMABILITY CHECK: Base lock period is ${baseLockPeriodDays} days for first-time claims only`);
       
       // Get user from database
-      const [user] = await db.select().from(users).where(eq(users.address, userAddress));
+      const user = await this.storage.getUserByAddress(userAddress);
       if (!user) {
         return {
           canClaim: false,
@@ -76,30 +74,13 @@ export class ClaimBasedRewards {
       }
 
       // Check if user has ever claimed rewards before (determine if this is first-time claim)
-      const claimedRewards = await db.select()
-        .from(rewards)
-        .where(
-          and(
-            eq(rewards.userId, user.id),
-            isNotNull(rewards.claimedAt)
-          )
-        )
-        .limit(1);
-
-      const hasClaimedBefore = claimedRewards.length > 0;
+      const hasClaimedBefore = await this.storage.hasClaimedRewards(user.id);
       const effectiveLockPeriodDays = hasClaimedBefore ? 0 : baseLockPeriodDays; // No lock after first claim
 
       console.log(`🎯 EFFECTIVE_LOCK_PERIOD: ${effectiveLockPeriodDays} days (${hasClaimedBefore ? 'Returning user - no lock' : 'First-time user - applying lock'})`);
 
-      // Get all unclaimed rewards for this user
-      const userRewards = await db.select()
-        .from(rewards)
-        .where(
-          and(
-            eq(rewards.userId, user.id),
-            isNull(rewards.claimedAt)
-          )
-        );
+      // Get all unclaimed KILT rewards for this user (partner tokens claim via claimMultiTokenRewards)
+      const userRewards = await this.storage.getUnclaimedKiltRewards(user.id);
 
       if (userRewards.length === 0) {
         // No database records - check if user has accumulated rewards via calculation
@@ -108,7 +89,7 @@ export class ClaimBasedRewards {
         if (effectiveLockPeriodDays === 0) {
           try {
             console.log(`📊 Fetching reward stats for user ID: ${user.id}`);
-            const rewardStats = await unifiedRewardService.getUserRewardStats(user.id);
+            const rewardStats = await this.rewardService.getUserRewardStats(user.id);
             console.log(`📊 Reward stats result:`, rewardStats);
             const totalClaimable = rewardStats.totalAccumulated || 0;
             console.log(`💰 Total claimable calculated: ${totalClaimable} KILT`);
@@ -156,7 +137,7 @@ export class ClaimBasedRewards {
           // If no reward records, use the reward calculation service to get real-time accumulated amount
           try {
             console.log(`Fetching reward stats for user ID: ${user.id}`);
-            const rewardStats = await unifiedRewardService.getUserRewardStats(user.id);
+            const rewardStats = await this.rewardService.getUserRewardStats(user.id);
             console.log(`Reward stats result:`, rewardStats);
             totalClaimable = rewardStats.totalAccumulated || 0;
             console.log(`Total claimable amount: ${totalClaimable}`);
@@ -244,7 +225,7 @@ export class ClaimBasedRewards {
       }
 
       // Get user from database
-      const [user] = await db.select().from(users).where(eq(users.address, userAddress));
+      const user = await this.storage.getUserByAddress(userAddress);
       if (!user) {
         return {
           success: false,
@@ -255,15 +236,8 @@ export class ClaimBasedRewards {
         };
       }
 
-      // Get all unclaimed rewards for this user
-      const userRewards = await db.select()
-        .from(rewards)
-        .where(
-          and(
-            eq(rewards.userId, user.id),
-            isNull(rewards.claimedAt)
-          )
-        );
+      // Get all unclaimed KILT rewards for this user (partner tokens claim via claimMultiTokenRewards)
+      const userRewards = await this.storage.getUnclaimedKiltRewards(user.id);
 
       if (userRewards.length === 0) {
         return {
@@ -286,17 +260,7 @@ export class ClaimBasedRewards {
       });
 
       // Check if user has ever claimed before (same logic as checkClaimability)
-      const claimedRewards = await db.select()
-        .from(rewards)
-        .where(
-          and(
-            eq(rewards.userId, user.id),
-            isNotNull(rewards.claimedAt)
-          )
-        )
-        .limit(1);
-
-      const hasClaimedBefore = claimedRewards.length > 0;
+      const hasClaimedBefore = await this.storage.hasClaimedRewards(user.id);
       const baseLockPeriodDays = await this.getLockPeriodDays();
       const effectiveLockPeriodDays = hasClaimedBefore ? 0 : baseLockPeriodDays; // No lock after first claim
 
@@ -345,13 +309,7 @@ export class ClaimBasedRewards {
       const actualTransactionHash = claimResult.transactionHash || `0x${Math.random().toString(16).substring(2, 66)}`;
       
       // Mark only claimable rewards as claimed
-      for (const reward of claimableRewards) {
-        await db.update(rewards)
-          .set({
-            claimedAt: new Date()
-          })
-          .where(eq(rewards.id, reward.id));
-      }
+      await this.storage.markRewardsClaimed(claimableRewards.map(reward => reward.id));
 
       // Log the claim operation
       await this.logClaimOperation(userAddress, totalAmount, actualTransactionHash);
@@ -380,12 +338,10 @@ export class ClaimBasedRewards {
    */
   async getUserRewardHistory(userAddress: string): Promise<any[]> {
     try {
-      const [user] = await db.select().from(users).where(eq(users.address, userAddress));
+      const user = await this.storage.getUserByAddress(userAddress);
       if (!user) return [];
 
-      const userRewards = await db.select()
-        .from(rewards)
-        .where(eq(rewards.userId, user.id));
+      const userRewards = await this.storage.getRewardsByUserId(user.id);
 
       return userRewards.map(reward => ({
         ...reward,
@@ -403,7 +359,7 @@ export class ClaimBasedRewards {
    */
   private async logClaimOperation(userAddress: string, amount: number, transactionHash: string): Promise<void> {
     try {
-      await db.insert(adminOperations).values({
+      await this.storage.createAdminOperation({
         operation: 'REWARD_CLAIM',
         operationDetails: JSON.stringify({
           userAddress,
@@ -430,7 +386,7 @@ export class ClaimBasedRewards {
   }> {
     try {
       // Get all rewards
-      const allRewards = await db.select().from(rewards);
+      const allRewards = await this.storage.getAllRewards();
       
       const claimed = allRewards.filter(r => r.claimedAt);
       const pending = allRewards.filter(r => !r.claimedAt);
@@ -456,4 +412,4 @@ export class ClaimBasedRewards {
   }
 }
 
-export const claimBasedRewards = new ClaimBasedRewards();
\ No newline at end of file
+export const claimBasedRewards = new ClaimBasedRewards(storage, unifiedRewardService);
\ No newline at end of file
@@ -0,0 +1,442 @@
+/**
+ * CLAIM RECONCILIATION SERVICE
+ * Indexes RewardClaimed events from the treasury contract, writes claims made directly
+ * against DynamicTreasuryPool.claimRewards back to the rewards table, and flags
+ * mismatches between on-chain claims, nonces and ledger accruals for the admin report.
+ * Periodic runs are a scheduler job on the leader instance.
+ */
+
+import { db } from './db';
+import {
+  claimReconciliationIssues,
+  indexerCheckpoints,
+  rewardClaimEvents,
+  rewards,
+  users,
+  type ClaimReconciliationIssue,
+  type IndexerCheckpoint,
+  type InsertRewardClaimEvent
+} from '../shared/schema';
+import { and, asc, desc, eq, isNull, isNotNull, lte, sql } from 'drizzle-orm';
+import { formatUnits, parseAbiItem } from 'viem';
+import { rpcManager } from './rpc-connection-manager';
+import { blockchainConfigService } from './blockchain-config-service';
+import { rewardLedgerService } from './reward-ledger-service';
+import { jobScheduler } from './job-scheduler';
+import { storage } from './storage';
+
+export const CLAIM_RECONCILIATION_JOB = 'claim-reconciliation';
+
+const REWARD_CLAIMED_EVENT = parseAbiItem(
+  'event RewardClaimed(address indexed user, uint256 amount, uint256 claimedAmount, uint256 nonce, uint256 timestamp)'
+);
+
+type IssueType = 'unknown_user' | 'nonce_gap' | 'cumulative_mismatch' | 'claim_exceeds_accrual' | 'db_claim_without_event';
+
+interface DetectedIssue {
+  userAddress: string;
+  userId: number | null;
+  issueType: IssueType;
+  severity: 'warning' | 'critical';
+  expectedAmount?: number;
+  actualAmount?: number;
+  details: string;
+}
+
+export interface ReconciliationRunResult {
+  startedAt: string;
+  fromBlock: number | null;
+  toBlock: number | null;
+  eventsIndexed: number;
+  claimsWrittenBack: number;
+  openIssues: number;
+  newIssues: number;
+  resolvedIssues: number;
+  error?: string;
+}
+
+class ClaimReconciliationService {
+  private readonly INDEXER_NAME = 'treasury_reward_claims';
+  private readonly RUN_INTERVAL = 10 * 60 * 1000; // 10 minutes
+  private readonly CONFIRMATIONS = 12n; // Only index blocks this deep to stay clear of reorgs
+  private readonly BLOCK_CHUNK = 2000n; // getLogs range per request
+  private readonly MAX_CHUNKS_PER_RUN = 50;
+  private readonly FALLBACK_LOOKBACK = 50000n; // Used when TREASURY_DEPLOY_BLOCK is not configured
+  private readonly AMOUNT_TOLERANCE = 0.000001;
+  private runInFlight: Promise<ReconciliationRunResult> | null = null;
+  private lastRun: ReconciliationRunResult | null = null;
+
+  /**
+   * Register periodic reconciliation with the job scheduler - every 10 minutes
+   */
+  start() {
+    jobScheduler.register<ReconciliationRunResult>({
+      name: CLAIM_RECONCILIATION_JOB,
+      description: 'Index RewardClaimed events, write claims back and detect mismatches',
+      intervalMs: this.RUN_INTERVAL,
+      handler: async () => {
+        const result = await this.runNow();
+        if (result.error) throw new Error(result.error);
+        return result;
+      },
+      onResult: result => {
+        this.lastRun = result;
+      }
+    });
+    console.log('🧾 Claim Reconciliation Service registered - indexing RewardClaimed events every 10 minutes');
+  }
+
+  /**
+   * Stop periodic reconciliation on this instance
+   */
+  stop() {
+    jobScheduler.unregister(CLAIM_RECONCILIATION_JOB);
+    console.log('⏹️ Claim Reconciliation Service stopped');
+  }
+
+  /**
+   * Run one index + write-back + check pass (concurrent callers share the same run)
+   */
+  async runNow(): Promise<ReconciliationRunResult> {
+    if (this.runInFlight) return this.runInFlight;
+
+    this.runInFlight = this.run().finally(() => {
+      this.runInFlight = null;
+    });
+    return this.runInFlight;
+  }
+
+  private async run(): Promise<ReconciliationRunResult> {
+    const result: ReconciliationRunResult = {
+      startedAt: new Date().toISOString(),
+      fromBlock: null,
+      toBlock: null,
+      eventsIndexed: 0,
+      claimsWrittenBack: 0,
+      openIssues: 0,
+      newIssues: 0,
+      resolvedIssues: 0
+    };
+
+    try {
+      const contractAddress = await this.getContractAddress();
+      if (contractAddress) {
+        const indexed = await this.indexEvents(contractAddress);
+        result.fromBlock = indexed.fromBlock;
+        result.toBlock = indexed.toBlock;
+        result.eventsIndexed = indexed.eventsIndexed;
+      }
+
+      result.claimsWrittenBack = await this.writeBackClaims();
+
+      const issues = await this.detectIssues();
+      const stored = await this.storeIssues(issues);
+      result.newIssues = stored.newIssues;
+      result.resolvedIssues = stored.resolvedIssues;
+      result.openIssues = issues.length;
+
+      console.log(`🧾 CLAIM RECONCILIATION: ${result.eventsIndexed} events indexed, ${result.claimsWrittenBack} rewards rows written back, ${result.openIssues} open issues`);
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      console.error('❌ Claim reconciliation failed:', error);
+    }
+
+    this.lastRun = result;
+    return result;
+  }
+
+  private async getContractAddress(): Promise<string | null> {
+    const config = await storage.getTreasuryConfig();
+    const address = config?.smartContractAddress;
+    return address && /^0x[a-fA-F0-9]{40}$/.test(address) ? address.toLowerCase() : null;
+  }
+
+  /**
+   * Fetch RewardClaimed logs from the checkpoint to the confirmed head, chunk by chunk,
+   * advancing the checkpoint after every chunk so an interrupted run resumes cleanly
+   */
+  private async indexEvents(contractAddress: string): Promise<{ fromBlock: number | null; toBlock: number | null; eventsIndexed: number }> {
+    const [checkpoint] = await db.select().from(indexerCheckpoints)
+      .where(eq(indexerCheckpoints.indexerName, this.INDEXER_NAME));
+    const head = await rpcManager.executeWithRetry(client => client.getBlockNumber(), 'getBlockNumber');
+    const confirmedHead = head - this.CONFIRMATIONS;
+
+    // A changed contract address restarts indexing for the new contract
+    let fromBlock: bigint;
+    if (checkpoint && checkpoint.contractAddress === contractAddress) {
+      fromBlock = BigInt(checkpoint.lastBlock) + 1n;
+    } else {
+      fromBlock = await this.getStartBlock(confirmedHead);
+    }
+
+    if (fromBlock > confirmedHead) {
+      return { fromBlock: null, toBlock: null, eventsIndexed: 0 };
+    }
+
+    let eventsIndexed = 0;
+    let chunkStart = fromBlock;
+    let chunks = 0;
+
+    while (chunkStart <= confirmedHead && chunks < this.MAX_CHUNKS_PER_RUN) {
+      const chunkEnd = chunkStart + this.BLOCK_CHUNK - 1n < confirmedHead ? chunkStart + this.BLOCK_CHUNK - 1n : confirmedHead;
+
+      const logs = await rpcManager.executeWithRetry(client => client.getLogs({
+        address: contractAddress as `0x${string}`,
+        event: REWARD_CLAIMED_EVENT,
+        fromBlock: chunkStart,
+        toBlock: chunkEnd
+      }), 'getLogs RewardClaimed');
+
+      const rows: InsertRewardClaimEvent[] = [];
+      for (const log of logs) {
+        if (!log.args.user || log.blockNumber === null || log.transactionHash === null || log.logIndex === null) continue;
+        const userAddress = log.args.user.toLowerCase();
+        const [user] = await db.select({ id: users.id }).from(users)
+          .where(sql`LOWER(${users.address}) = ${userAddress}`);
+
+        rows.push({
+          contractAddress,
+          userAddress,
+          userId: user?.id ?? null,
+          amount: formatUnits(log.args.amount ?? 0n, 18),
+          claimedAmountAfter: formatUnits(log.args.claimedAmount ?? 0n, 18),
+          nonce: Number(log.args.nonce ?? 0n),
+          blockNumber: Number(log.blockNumber),
+          // The event carries block.timestamp, so no extra getBlock call is needed
+          blockTimestamp: new Date(Number(log.args.timestamp ?? 0n) * 1000),
+          transactionHash: log.transactionHash,
+          logIndex: log.logIndex
+        });
+      }
+
+      await db.transaction(async (tx) => {
+        if (rows.length > 0) {
+          await tx.insert(rewardClaimEvents).values(rows).onConflictDoNothing();
+        }
+        await this.saveCheckpoint(tx, contractAddress, Number(chunkEnd));
+      });
+
+      eventsIndexed += rows.length;
+      chunkStart = chunkEnd + 1n;
+      chunks++;
+    }
+
+    return { fromBlock: Number(fromBlock), toBlock: Number(chunkStart - 1n), eventsIndexed };
+  }
+
+  private async getStartBlock(confirmedHead: bigint): Promise<bigint> {
+    const configured = await blockchainConfigService.getConfig('TREASURY_DEPLOY_BLOCK');
+    if (configured && /^\d+$/.test(configured)) {
+      return BigInt(configured);
+    }
+    console.warn(`⚠️ CLAIM RECONCILIATION: TREASURY_DEPLOY_BLOCK not configured - indexing the last ${this.FALLBACK_LOOKBACK} blocks only`);
+    return confirmedHead > this.FALLBACK_LOOKBACK ? confirmedHead - this.FALLBACK_LOOKBACK : 0n;
+  }
+
+  private async saveCheckpoint(tx: Parameters<Parameters<typeof db.transaction>[0]>[0], contractAddress: string, lastBlock: number) {
+    await tx.insert(indexerCheckpoints)
+      .values({ indexerName: this.INDEXER_NAME, contractAddress, lastBlock, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: indexerCheckpoints.indexerName,
+        set: { contractAddress, lastBlock, updatedAt: new Date() }
+      });
+  }
+
+  /**
+   * Mark rewards rows accrued before each on-chain claim as claimed - the contract pays the
+   * full balance, so every unclaimed row created up to the claim block is covered by it
+   */
+  private async writeBackClaims(): Promise<number> {
+    const pending = await db.select().from(rewardClaimEvents)
+      .where(and(isNull(rewardClaimEvents.reconciledAt), isNotNull(rewardClaimEvents.userId)))
+      .orderBy(asc(rewardClaimEvents.blockNumber), asc(rewardClaimEvents.logIndex));
+
+    let rowsUpdated = 0;
+    for (const event of pending) {
+      const updated = await db.transaction(async (tx) => {
+        // Partner-only multi-token claims emit a zero RewardClaimed to keep nonces contiguous - no KILT was paid
+        const rows = parseFloat(event.amount) === 0 ? [] : await tx.update(rewards)
+          .set({ claimedAt: event.blockTimestamp, claimedAmount: sql`${rewards.dailyRewardAmount}` })
+          .where(and(
+            eq(rewards.userId, event.userId!),
+            isNull(rewards.claimedAt),
+            lte(rewards.createdAt, event.blockTimestamp)
+          ))
+          .returning({ id: rewards.id });
+
+        await tx.update(rewardClaimEvents)
+          .set({ reconciledAt: new Date() })
+          .where(eq(rewardClaimEvents.id, event.id));
+        return rows.length;
+      });
+      rowsUpdated += updated;
+    }
+    return rowsUpdated;
+  }
+
+  /**
+   * Compare indexed claims against nonces, the contract's running total, the reward ledger
+   * and the rewards table
+   */
+  private async detectIssues(): Promise<DetectedIssue[]> {
+    const issues: DetectedIssue[] = [];
+    const events = await db.select().from(rewardClaimEvents)
+      .orderBy(asc(rewardClaimEvents.userAddress), asc(rewardClaimEvents.nonce));
+
+    const byAddress = new Map<string, typeof events>();
+    for (const event of events) {
+      const list = byAddress.get(event.userAddress) || [];
+      list.push(event);
+      byAddress.set(event.userAddress, list);
+    }
+
+    for (const [userAddress, userEvents] of Array.from(byAddress.entries())) {
+      const userId = userEvents.find(event => event.userId !== null)?.userId ?? null;
+      const summed = userEvents.reduce((sum, event) => sum + parseFloat(event.amount), 0);
+      const latest = userEvents[userEvents.length - 1];
+      const onChainTotal = parseFloat(latest.claimedAmountAfter);
+
+      if (userId === null) {
+        issues.push({
+          userAddress, userId, issueType: 'unknown_user', severity: 'warning', actualAmount: onChainTotal,
+          details: `${userEvents.length} on-chain claim(s) from an address with no registered user`
+        });
+      }
+
+      const missingNonces = userEvents
+        .map((event, index) => event.nonce === index ? null : index)
+        .filter((nonce): nonce is number => nonce !== null);
+      if (missingNonces.length > 0) {
+        issues.push({
+          userAddress, userId, issueType: 'nonce_gap', severity: 'warning',
+          details: `Claim nonces ${userEvents.map(event => event.nonce).join(', ')} are not contiguous from 0 - events may be missing`
+        });
+      }
+
+      if (Math.abs(onChainTotal - summed) > this.AMOUNT_TOLERANCE) {
+        issues.push({
+          userAddress, userId, issueType: 'cumulative_mismatch', severity: 'warning',
+          expectedAmount: summed, actualAmount: onChainTotal,
+          details: `Contract reports ${onChainTotal} KILT claimed but indexed claims sum to ${summed} KILT`
+        });
+      }
+
+      if (userId !== null) {
+        const accrued = await rewardLedgerService.getUserTotal(userId);
+        if (onChainTotal > accrued + this.AMOUNT_TOLERANCE) {
+          issues.push({
+            userAddress, userId, issueType: 'claim_exceeds_accrual', severity: 'critical',
+            expectedAmount: accrued, actualAmount: onChainTotal,
+            details: `Claimed ${onChainTotal} KILT on-chain but the reward ledger has only accrued ${accrued} KILT`
+          });
+        }
+      }
+    }
+
+    // Rows the app marked claimed without any matching on-chain claim
+    const dbClaims = await storage.getClaimedRewardTotals();
+
+    for (const row of dbClaims) {
+      const userAddress = row.address.toLowerCase();
+      if (!byAddress.has(userAddress)) {
+        issues.push({
+          userAddress, userId: row.userId, issueType: 'db_claim_without_event', severity: 'warning',
+          expectedAmount: row.claimedTotal, actualAmount: 0,
+          details: `${row.claimedRows} rewards row(s) marked claimed but no RewardClaimed event was indexed for this address`
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Upsert detected issues and resolve open ones that were not detected this run
+   */
+  private async storeIssues(issues: DetectedIssue[]): Promise<{ newIssues: number; resolvedIssues: number }> {
+    const now = new Date();
+    const open = await db.select().from(claimReconciliationIssues)
+      .where(isNull(claimReconciliationIssues.resolvedAt));
+    const openKeys = new Set(open.map(issue => `${issue.userAddress}:${issue.issueType}`));
+    const detectedKeys = new Set(issues.map(issue => `${issue.userAddress}:${issue.issueType}`));
+
+    for (const issue of issues) {
+      const values = {
+        userAddress: issue.userAddress,
+        userId: issue.userId,
+        issueType: issue.issueType,
+        severity: issue.severity,
+        expectedAmount: issue.expectedAmount?.toString() ?? null,
+        actualAmount: issue.actualAmount?.toString() ?? null,
+        details: issue.details,
+        lastSeenAt: now,
+        resolvedAt: null
+      };
+      await db.insert(claimReconciliationIssues)
+        .values({ ...values, detectedAt: now })
+        .onConflictDoUpdate({
+          target: [claimReconciliationIssues.userAddress, claimReconciliationIssues.issueType],
+          // Re-detected issues keep their id; a previously resolved one reopens with a fresh detectedAt
+          set: {
+            ...values,
+            detectedAt: sql`CASE WHEN ${claimReconciliationIssues.resolvedAt} IS NULL THEN ${claimReconciliationIssues.detectedAt} ELSE ${now} END`
+          }
+        });
+    }
+
+    const resolved = open.filter(issue => !detectedKeys.has(`${issue.userAddress}:${issue.issueType}`));
+    for (const issue of resolved) {
+      await db.update(claimReconciliationIssues)
+        .set({ resolvedAt: now })
+        .where(eq(claimReconciliationIssues.id, issue.id));
+    }
+
+    return {
+      newIssues: Array.from(detectedKeys).filter(key => !openKeys.has(key)).length,
+      resolvedIssues: resolved.length
+    };
+  }
+
+  /**
+   * Admin report: open issues first, then recently resolved ones
+   */
+  async getReport(includeResolved: boolean = false): Promise<{
+    lastRun: ReconciliationRunResult | null;
+    checkpoint: IndexerCheckpoint | null;
+    indexedClaims: number;
+    indexedAmount: number;
+    issues: ClaimReconciliationIssue[];
+  }> {
+    const [checkpoint] = await db.select().from(indexerCheckpoints)
+      .where(eq(indexerCheckpoints.indexerName, this.INDEXER_NAME));
+    const [totals] = await db
+      .select({
+        count: sql<number>`COUNT(*)`,
+        amount: sql<string>`COALESCE(SUM(${rewardClaimEvents.amount}), 0)`
+      })
+      .from(rewardClaimEvents);
+
+    const issues = await db.select().from(claimReconciliationIssues)
+      .where(includeResolved ? undefined : isNull(claimReconciliationIssues.resolvedAt))
+      .orderBy(asc(claimReconciliationIssues.severity), desc(claimReconciliationIssues.lastSeenAt)); // critical before warning
+
+    return {
+      lastRun: this.lastRun,
+      checkpoint: checkpoint || null,
+      indexedClaims: Number(totals?.count || 0),
+      indexedAmount: parseFloat(totals?.amount || '0'),
+      issues
+    };
+  }
+
+  async getStatus() {
+    const job = await jobScheduler.getJob(CLAIM_RECONCILIATION_JOB);
+    return {
+      isRunning: !!job && !job.isPaused,
+      lastRun: this.lastRun,
+      nextRunAt: job?.nextRunAt ?? null
+    };
+  }
+}
+
+export const claimReconciliationService = new ClaimReconciliationService();
@@ -5,6 +5,9 @@
 
 import { eq, isNull, and } from "drizzle-orm";
 import { lpPositions, positionEligibility } from "@shared/schema";
+import { jobScheduler } from "./job-scheduler";
+
+export const DATA_INTEGRITY_JOB = 'data-integrity';
 
 export class DataIntegrityMonitor {
   constructor(private db: any) {}
@@ -247,20 +250,26 @@ export class DataIntegrityMonitor {
   }
 
   /**
-   * Automatic monitoring - runs periodically
+   * Automatic monitoring - a scheduler job run periodically by the leader instance
    */
-  startPeriodicMonitoring(intervalMinutes: number = 30): NodeJS.Timeout {
+  startPeriodicMonitoring(intervalMinutes: number = 30): void {
     console.log(`🔍 Starting data integrity monitoring (every ${intervalMinutes} minutes)`);
     
-    return setInterval(async () => {
-      console.log('🔍 Running periodic data integrity check...');
-      const healthCheck = await this.performHealthCheck();
-      
-      if (!healthCheck.isHealthy) {
-        console.error('❌ URGENT: Data integrity issues detected during periodic check');
-        console.error('Issues:', healthCheck.issues);
-        // In production, this could trigger alerts or automatic recovery
+    jobScheduler.register({
+      name: DATA_INTEGRITY_JOB,
+      description: 'Check eligibility records and registered positions for integrity issues',
+      intervalMs: intervalMinutes * 60 * 1000,
+      handler: async () => {
+        console.log('🔍 Running periodic data integrity check...');
+        const healthCheck = await this.performHealthCheck();
+        
+        if (!healthCheck.isHealthy) {
+          console.error('❌ URGENT: Data integrity issues detected during periodic check');
+          console.error('Issues:', healthCheck.issues);
+          // In production, this could trigger alerts or automatic recovery
+        }
+        return { isHealthy: healthCheck.isHealthy, issues: healthCheck.issues };
       }
-    }, intervalMinutes * 60 * 1000);
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,637 @@
+/**
+ * Postgres implementation of IStorage. Kept out of ./storage so MemStorage and the services
+ * built on IStorage can be imported without a DATABASE_URL.
+ */
+
+import {
+  users,
+  lpPositions,
+  rewards,
+  poolStats,
+  dailyRewards,
+  dailyTokenRewards,
+  rewardAllocations,
+  appTransactions,
+  positionEligibility,
+  treasuryConfig,
+  programSettings,
+  poolTickSamples,
+  adminOperations,
+  apiRateLimitCounters,
+  type User,
+  type InsertUser,
+  type LpPosition,
+  type InsertLpPosition,
+  type Reward,
+  type InsertReward,
+  type PoolStats,
+  type InsertPoolStats,
+  type DailyReward,
+  type RewardAllocation,
+  type AppTransaction,
+  type InsertAppTransaction,
+  type PositionEligibility,
+  type InsertPositionEligibility,
+  type TreasuryConfig,
+  type InsertTreasuryConfig,
+  type ProgramSettings,
+  type InsertProgramSettings,
+  type PoolTickSample,
+  type InsertPoolTickSample,
+  type AdminOperation,
+  type InsertAdminOperation
+} from "@shared/schema";
+import { db } from "./db";
+import { incentiveProgramService } from "./incentive-program-service";
+import { DEFAULT_CHAIN_ID } from "./chain-registry";
+import type {
+  AdminOperationFacets,
+  AdminOperationFilter,
+  AllocationTotals,
+  ClaimedRewardTotal,
+  DailyRewardFilter,
+  IStorage,
+  LedgerDayWrite,
+  PartnerTokenTotal,
+  RateLimitWindow,
+  UnclaimedReward,
+  WalletLedgerTotal
+} from "./storage";
+import { and, asc, desc, eq, gt, gte, inArray, isNotNull, isNull, lt, lte, sql } from "drizzle-orm";
+
+export class DatabaseStorage implements IStorage {
+  async getUser(id: number): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUserByAddress(address: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.address, address)).limit(1);
+    return result[0];
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const result = await db.insert(users).values(insertUser).returning();
+    return result[0];
+  }
+
+  async getLpPosition(id: number): Promise<LpPosition | undefined> {
+    const result = await db.select().from(lpPositions).where(eq(lpPositions.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getLpPositionsByUserId(userId: number): Promise<LpPosition[]> {
+    return await db.select().from(lpPositions).where(eq(lpPositions.userId, userId));
+  }
+
+  async getLpPositionsByProgramId(programId: number): Promise<LpPosition[]> {
+    return await db.select().from(lpPositions).where(eq(lpPositions.programId, programId));
+  }
+
+  async getAllLpPositions(): Promise<LpPosition[]> {
+    return await db.select().from(lpPositions);
+  }
+
+  async createLpPosition(insertPosition: InsertLpPosition): Promise<LpPosition> {
+    // Positions join the incentive program for their pool
+    const programId = insertPosition.programId
+      ?? (await incentiveProgramService.matchProgram(insertPosition.poolAddress, new Date(), insertPosition.chainId ?? DEFAULT_CHAIN_ID))?.id
+      ?? null;
+    const result = await db.insert(lpPositions).values({ ...insertPosition, programId }).returning();
+    return result[0];
+  }
+
+  async updateLpPosition(id: number, updates: Partial<LpPosition>): Promise<LpPosition | undefined> {
+    const result = await db.update(lpPositions).set(updates).where(eq(lpPositions.id, id)).returning();
+    return result[0];
+  }
+
+  async updateLpPositionByTokenId(tokenId: string, updates: Partial<LpPosition>): Promise<LpPosition | undefined> {
+    // Registrations closed by an NFT transfer are frozen - only the current one is updated
+    const result = await db.update(lpPositions).set(updates)
+      .where(and(eq(lpPositions.nftTokenId, tokenId), isNull(lpPositions.transferredAt)))
+      .returning();
+    return result[0];
+  }
+
+  async getUserPositions(address: string): Promise<any[]> {
+    // Return empty array - positions come from blockchain data
+    return [];
+  }
+
+  async getRegisteredPositions(address: string): Promise<any[]> {
+    const user = await this.getUserByAddress(address);
+    if (!user) return [];
+    
+    return await db.select().from(lpPositions).where(eq(lpPositions.userId, user.id));
+  }
+
+  async getRewardsByUserId(userId: number): Promise<Reward[]> {
+    return await db.select().from(rewards).where(eq(rewards.userId, userId));
+  }
+
+  async getRewardsByPositionId(positionId: number): Promise<Reward[]> {
+    return await db.select().from(rewards).where(eq(rewards.positionId, positionId));
+  }
+
+  // Partner token rewards are claimed separately via claimMultiTokenRewards
+  async getUnclaimedKiltRewards(userId: number): Promise<Reward[]> {
+    return await db.select().from(rewards)
+      .where(and(eq(rewards.userId, userId), isNull(rewards.claimedAt), isNull(rewards.tokenAddress)));
+  }
+
+  async hasClaimedRewards(userId: number): Promise<boolean> {
+    const result = await db.select({ id: rewards.id }).from(rewards)
+      .where(and(eq(rewards.userId, userId), isNotNull(rewards.claimedAt)))
+      .limit(1);
+    return result.length > 0;
+  }
+
+  async createReward(insertReward: InsertReward): Promise<Reward> {
+    // Ensure all required fields are present - cast to any to handle missing optional fields
+    const anyReward = insertReward as any;
+    const completeReward = {
+      ...insertReward,
+      amount: anyReward.amount || anyReward.dailyRewardAmount || '0',
+      lockPeriodDays: anyReward.lockPeriodDays || 7,
+      claimedAmount: anyReward.claimedAmount || '0',
+      isEligibleForClaim: anyReward.isEligibleForClaim || false,
+      lastRewardCalculation: anyReward.lastRewardCalculation || new Date(),
+    };
+    const result = await db.insert(rewards).values(completeReward).returning();
+    return result[0];
+  }
+
+  async claimRewards(userId: number): Promise<void> {
+    await db.update(rewards)
+      .set({ claimedAt: new Date() })
+      .where(eq(rewards.userId, userId));
+  }
+
+  async markRewardsClaimed(rewardIds: number[]): Promise<void> {
+    if (rewardIds.length === 0) return;
+    await db.update(rewards)
+      .set({ claimedAt: new Date() })
+      .where(inArray(rewards.id, rewardIds));
+  }
+
+  async getPoolStats(poolAddress: string): Promise<PoolStats | undefined> {
+    const result = await db.select().from(poolStats).where(eq(poolStats.poolAddress, poolAddress)).limit(1);
+    return result[0];
+  }
+
+  async updatePoolStats(poolAddress: string, stats: InsertPoolStats): Promise<PoolStats> {
+    const existing = await this.getPoolStats(poolAddress);
+    if (existing) {
+      const result = await db.update(poolStats)
+        .set({ ...stats, updatedAt: new Date() })
+        .where(eq(poolStats.poolAddress, poolAddress))
+        .returning();
+      return result[0];
+    } else {
+      const result = await db.insert(poolStats).values({
+        ...stats,
+        poolAddress,
+        updatedAt: new Date()
+      }).returning();
+      return result[0];
+    }
+  }
+
+  async getAppTransactionsByUserId(userId: number): Promise<AppTransaction[]> {
+    return await db.select().from(appTransactions).where(eq(appTransactions.userId, userId));
+  }
+
+  async createAppTransaction(transaction: InsertAppTransaction): Promise<AppTransaction> {
+    const result = await db.insert(appTransactions).values(transaction).returning();
+    return result[0];
+  }
+
+  async getPositionEligibility(positionId: number): Promise<PositionEligibility | undefined> {
+    const result = await db.select().from(positionEligibility)
+      .where(eq(positionEligibility.positionId, positionId))
+      .limit(1);
+    return result[0];
+  }
+
+  async createPositionEligibility(eligibility: InsertPositionEligibility): Promise<PositionEligibility> {
+    const result = await db.insert(positionEligibility).values(eligibility).returning();
+    return result[0];
+  }
+
+  // CRITICAL MISSING METHOD FOR BETA RELEASE
+  async getLpPositionByNftTokenId(nftTokenId: string): Promise<LpPosition | undefined> {
+    // A transferred NFT can have several registrations - the newest one is current
+    const result = await db.select().from(lpPositions)
+      .where(eq(lpPositions.nftTokenId, nftTokenId))
+      .orderBy(desc(lpPositions.id))
+      .limit(1);
+    return result[0];
+  }
+
+  // Open registration of an NFT - ones closed by a transfer are skipped
+  async getCurrentLpPosition(nftTokenId: string, chainId?: number): Promise<LpPosition | undefined> {
+    const conditions = [eq(lpPositions.nftTokenId, nftTokenId), isNull(lpPositions.transferredAt)];
+    if (chainId !== undefined) conditions.push(eq(lpPositions.chainId, chainId));
+    const result = await db.select().from(lpPositions).where(and(...conditions)).limit(1);
+    return result[0];
+  }
+
+  // Active positions and distinct wallets registered in a program
+  async getProgramParticipation(programId: number): Promise<{ users: number; positions: number }> {
+    const [row] = await db.select({
+      users: sql<number>`count(distinct ${lpPositions.userId})`,
+      positions: sql<number>`count(*)`
+    })
+      .from(lpPositions)
+      .where(and(eq(lpPositions.isActive, true), eq(lpPositions.programId, programId)));
+    return { users: Number(row?.users || 0), positions: Number(row?.positions || 0) };
+  }
+
+  async getUserIdsWithActivePositions(): Promise<number[]> {
+    const rows = await db.selectDistinct({ userId: lpPositions.userId }).from(lpPositions)
+      .where(and(eq(lpPositions.isActive, true), isNotNull(lpPositions.userId)));
+    return rows.map(row => row.userId!);
+  }
+
+  // Get all users for lifecycle management
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users);
+  }
+
+  // Update position status for burned position cleanup
+  async updateLpPositionStatus(tokenId: string, isActive: boolean): Promise<boolean> {
+    try {
+      const result = await db.update(lpPositions)
+        .set({ isActive })
+        .where(and(eq(lpPositions.nftTokenId, tokenId), isNull(lpPositions.transferredAt)))
+        .returning();
+      
+      return result.length > 0;
+    } catch (error) {
+      console.error(`Failed to update position status for token ${tokenId}:`, error);
+      return false;
+    }
+  }
+
+  // Update position reward eligibility
+  async updateLpPositionRewardEligibility(tokenId: string, rewardEligible: boolean): Promise<boolean> {
+    try {
+      const result = await db.update(lpPositions)
+        .set({ rewardEligible })
+        .where(and(eq(lpPositions.nftTokenId, tokenId), isNull(lpPositions.transferredAt)))
+        .returning();
+      
+      return result.length > 0;
+    } catch (error) {
+      console.error(`Failed to update reward eligibility for token ${tokenId}:`, error);
+      return false;
+    }
+  }
+
+  // ANTI-BLOAT: Delete burned positions from database to prevent bloat
+  async deleteLpPosition(tokenId: string): Promise<boolean> {
+    try {
+      const result = await db.delete(lpPositions)
+        .where(eq(lpPositions.nftTokenId, tokenId))
+        .returning();
+      
+      return result.length > 0;
+    } catch (error) {
+      console.error(`Failed to delete position ${tokenId}:`, error);
+      return false;
+    }
+  }
+
+  // Rollback of a registration whose eligibility record could not be written
+  async deleteLpPositionById(id: number): Promise<boolean> {
+    const result = await db.delete(lpPositions).where(eq(lpPositions.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getAllRewards(): Promise<Reward[]> {
+    return await db.select().from(rewards);
+  }
+
+  async getUnclaimedRewards(): Promise<UnclaimedReward[]> {
+    return await db.select({
+      userAddress: users.address,
+      nftTokenId: rewards.nftTokenId,
+      dailyRewardAmount: rewards.dailyRewardAmount
+    })
+      .from(rewards)
+      .innerJoin(users, eq(rewards.userId, users.id))
+      .where(isNull(rewards.claimedAt));
+  }
+
+  async getClaimedRewardTotals(): Promise<ClaimedRewardTotal[]> {
+    const rows = await db.select({
+      userId: users.id,
+      address: users.address,
+      claimedRows: sql<number>`count(*)::int`,
+      claimedTotal: sql<string>`coalesce(sum(${rewards.dailyRewardAmount}), 0)`
+    })
+      .from(rewards)
+      .innerJoin(users, eq(rewards.userId, users.id))
+      .where(isNotNull(rewards.claimedAt))
+      .groupBy(users.id, users.address);
+
+    return rows.map(row => ({ ...row, claimedTotal: parseFloat(row.claimedTotal) }));
+  }
+
+  async deleteAllRewards(): Promise<number> {
+    const result = await db.delete(rewards);
+    return result.rowCount ?? 0;
+  }
+
+  async getDailyRewards(filter: DailyRewardFilter): Promise<DailyReward[]> {
+    const conditions = [];
+    if (filter.programId !== undefined) conditions.push(eq(dailyRewards.programId, filter.programId));
+    if (filter.positionId !== undefined) conditions.push(eq(dailyRewards.positionId, filter.positionId));
+    if (filter.date !== undefined) conditions.push(eq(dailyRewards.date, filter.date));
+    if (filter.since !== undefined) conditions.push(gte(dailyRewards.date, filter.since));
+
+    return await db.select().from(dailyRewards)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(dailyRewards.date));
+  }
+
+  async appendLedgerDay(day: LedgerDayWrite): Promise<DailyReward[]> {
+    return await db.transaction(async (tx) => {
+      const inserted = day.entries.length > 0
+        ? await tx.insert(dailyRewards).values(day.entries).onConflictDoNothing().returning()
+        : [];
+      const tokenEntries = day.tokenEntriesFor(inserted);
+      if (tokenEntries.length > 0) {
+        await tx.insert(dailyTokenRewards).values(tokenEntries).onConflictDoNothing();
+      }
+      // Backfilled entries join a closed day - its totals grow, its normalization factor stays
+      await tx.insert(rewardAllocations).values(day.allocation).onConflictDoUpdate({
+        target: [rewardAllocations.programId, rewardAllocations.date],
+        set: {
+          totalAllocated: day.allocation.totalAllocated,
+          totalLiquidity: day.allocation.totalLiquidity,
+          positionCount: day.allocation.positionCount
+        }
+      });
+      return inserted;
+    });
+  }
+
+  async getLatestRewardAllocation(programId?: number): Promise<RewardAllocation | undefined> {
+    const result = await db.select().from(rewardAllocations)
+      .where(programId !== undefined ? eq(rewardAllocations.programId, programId) : undefined)
+      .orderBy(desc(rewardAllocations.date))
+      .limit(1);
+    return result[0];
+  }
+
+  async getLedgerPositionIds(programId: number): Promise<Set<number>> {
+    const rows = await db.selectDistinct({ positionId: dailyRewards.positionId })
+      .from(dailyRewards)
+      .where(eq(dailyRewards.programId, programId));
+
+    return new Set(rows.map(row => row.positionId));
+  }
+
+  async getRewardAllocationTotals(programId?: number): Promise<AllocationTotals> {
+    const [totals] = await db.select({
+      daysAllocated: sql<number>`count(*)`,
+      totalAllocated: sql<string>`coalesce(sum(${rewardAllocations.totalAllocated}), 0)`,
+      totalCap: sql<string>`coalesce(sum(${rewardAllocations.dailyRewardsCap}), 0)`
+    })
+      .from(rewardAllocations)
+      .where(programId !== undefined ? eq(rewardAllocations.programId, programId) : undefined);
+
+    return {
+      daysAllocated: Number(totals?.daysAllocated || 0),
+      totalAllocated: parseFloat(totals?.totalAllocated || '0'),
+      totalCap: parseFloat(totals?.totalCap || '0')
+    };
+  }
+
+  async getLedgerTotalsByPosition(userId: number): Promise<Map<number, number>> {
+    const rows = await db.select({
+      positionId: dailyRewards.positionId,
+      total: sql<string>`coalesce(sum(${dailyRewards.dailyRewardAmount}), 0)`
+    })
+      .from(dailyRewards)
+      .where(eq(dailyRewards.userId, userId))
+      .groupBy(dailyRewards.positionId);
+
+    return new Map(rows.map(row => [row.positionId, parseFloat(row.total)]));
+  }
+
+  async getLedgerTotalsByProgram(userId: number): Promise<Map<number | null, number>> {
+    const rows = await db.select({
+      programId: dailyRewards.programId,
+      total: sql<string>`coalesce(sum(${dailyRewards.dailyRewardAmount}), 0)`
+    })
+      .from(dailyRewards)
+      .where(eq(dailyRewards.userId, userId))
+      .groupBy(dailyRewards.programId);
+
+    return new Map(rows.map(row => [row.programId, parseFloat(row.total)]));
+  }
+
+  async getPartnerTokenTotals(userId: number): Promise<PartnerTokenTotal[]> {
+    const rows = await db.select({
+      tokenAddress: sql<string>`lower(${dailyTokenRewards.tokenAddress})`,
+      tokenSymbol: sql<string>`max(${dailyTokenRewards.tokenSymbol})`,
+      total: sql<string>`coalesce(sum(${dailyTokenRewards.amount}), 0)`
+    })
+      .from(dailyTokenRewards)
+      .where(eq(dailyTokenRewards.userId, userId))
+      .groupBy(sql`lower(${dailyTokenRewards.tokenAddress})`);
+
+    return rows.map(row => ({ tokenAddress: row.tokenAddress, tokenSymbol: row.tokenSymbol, total: parseFloat(row.total) }));
+  }
+
+  async getWalletLedgerTotals(): Promise<WalletLedgerTotal[]> {
+    const rows = await db.select({
+      address: users.address,
+      programId: dailyRewards.programId,
+      total: sql<string>`coalesce(sum(${dailyRewards.dailyRewardAmount}), 0)`,
+      firstPositionAt: sql<Date | null>`min(${lpPositions.createdAt})`
+    })
+      .from(dailyRewards)
+      .innerJoin(users, eq(dailyRewards.userId, users.id))
+      .innerJoin(lpPositions, eq(dailyRewards.positionId, lpPositions.id))
+      .groupBy(users.address, dailyRewards.programId);
+
+    return rows.map(row => ({ ...row, total: parseFloat(row.total), firstPositionAt: row.firstPositionAt && new Date(row.firstPositionAt) }));
+  }
+
+  async getUserLedgerTotal(userId: number): Promise<number> {
+    const [row] = await db.select({
+      total: sql<string>`coalesce(sum(${dailyRewards.dailyRewardAmount}), 0)`
+    })
+      .from(dailyRewards)
+      .where(eq(dailyRewards.userId, userId));
+
+    return parseFloat(row?.total || '0');
+  }
+
+  async getPositionLedgerTotal(positionId: number): Promise<number> {
+    const [row] = await db.select({
+      total: sql<string>`coalesce(sum(${dailyRewards.dailyRewardAmount}), 0)`
+    })
+      .from(dailyRewards)
+      .where(eq(dailyRewards.positionId, positionId));
+
+    return parseFloat(row?.total || '0');
+  }
+
+  async getTreasuryConfig(): Promise<TreasuryConfig | undefined> {
+    const result = await db.select().from(treasuryConfig).limit(1);
+    return result[0];
+  }
+
+  // Single-row table - updates the existing config or creates the first one
+  async saveTreasuryConfig(config: InsertTreasuryConfig): Promise<TreasuryConfig> {
+    const existing = await this.getTreasuryConfig();
+    if (existing) {
+      const result = await db.update(treasuryConfig).set(config).where(eq(treasuryConfig.id, existing.id)).returning();
+      return result[0];
+    }
+    const result = await db.insert(treasuryConfig).values(config).returning();
+    return result[0];
+  }
+
+  async getProgramSettingsVersions(): Promise<ProgramSettings[]> {
+    return await db.select().from(programSettings)
+      .orderBy(desc(programSettings.effectiveFrom), desc(programSettings.id));
+  }
+
+  async getProgramSettings(at: Date = new Date()): Promise<ProgramSettings | undefined> {
+    const result = await db.select().from(programSettings)
+      .where(lte(programSettings.effectiveFrom, at))
+      .orderBy(desc(programSettings.effectiveFrom), desc(programSettings.id))
+      .limit(1);
+    return result[0];
+  }
+
+  async createProgramSettingsVersion(settings: InsertProgramSettings): Promise<ProgramSettings> {
+    const result = await db.insert(programSettings).values(settings).returning();
+    return result[0];
+  }
+
+  async createPoolTickSample(sample: InsertPoolTickSample): Promise<PoolTickSample> {
+    const result = await db.insert(poolTickSamples).values({ ...sample, poolAddress: sample.poolAddress.toLowerCase() }).returning();
+    return result[0];
+  }
+
+  async getPoolTickSamples(poolAddress: string, start: Date, end: Date): Promise<PoolTickSample[]> {
+    const pool = poolAddress.toLowerCase();
+    const [previous, inside] = await Promise.all([
+      db.select().from(poolTickSamples)
+        .where(and(eq(poolTickSamples.poolAddress, pool), lt(poolTickSamples.sampledAt, start)))
+        .orderBy(desc(poolTickSamples.sampledAt))
+        .limit(1),
+      db.select().from(poolTickSamples)
+        .where(and(
+          eq(poolTickSamples.poolAddress, pool),
+          gte(poolTickSamples.sampledAt, start),
+          lt(poolTickSamples.sampledAt, end)
+        ))
+        .orderBy(poolTickSamples.sampledAt)
+    ]);
+    return [...previous, ...inside];
+  }
+
+  async getLatestPoolTickSample(poolAddress: string): Promise<PoolTickSample | undefined> {
+    const result = await db.select().from(poolTickSamples)
+      .where(eq(poolTickSamples.poolAddress, poolAddress.toLowerCase()))
+      .orderBy(desc(poolTickSamples.sampledAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async getFirstSampleOutsideRange(poolAddress: string, tickLower: number, tickUpper: number): Promise<PoolTickSample | undefined> {
+    const pool = poolAddress.toLowerCase();
+    const [lastInRange] = await db.select({ id: poolTickSamples.id }).from(poolTickSamples)
+      .where(and(
+        eq(poolTickSamples.poolAddress, pool),
+        gte(poolTickSamples.tick, tickLower),
+        lt(poolTickSamples.tick, tickUpper)
+      ))
+      .orderBy(desc(poolTickSamples.id))
+      .limit(1);
+    const result = await db.select().from(poolTickSamples)
+      .where(and(
+        eq(poolTickSamples.poolAddress, pool),
+        lastInRange ? gt(poolTickSamples.id, lastInRange.id) : undefined
+      ))
+      .orderBy(asc(poolTickSamples.id))
+      .limit(1);
+    return result[0];
+  }
+
+  async incrementRateLimitCounter(key: string, windowMs: number): Promise<RateLimitWindow> {
+    // One upsert so concurrent instances never lose a hit; windows are timed by the database clock
+    const windowEnd = sql`now() + ${windowMs} * interval '1 millisecond'`;
+    const expired = sql`${apiRateLimitCounters.resetAt} <= now()`;
+    const [counter] = await db.insert(apiRateLimitCounters)
+      .values({ key, hits: 1, resetAt: windowEnd })
+      .onConflictDoUpdate({
+        target: apiRateLimitCounters.key,
+        set: {
+          hits: sql`CASE WHEN ${expired} THEN 1 ELSE ${apiRateLimitCounters.hits} + 1 END`,
+          resetAt: sql`CASE WHEN ${expired} THEN ${windowEnd} ELSE ${apiRateLimitCounters.resetAt} END`
+        }
+      })
+      .returning();
+    return { hits: counter.hits, resetAt: counter.resetAt };
+  }
+
+  async decrementRateLimitCounter(key: string): Promise<void> {
+    await db.update(apiRateLimitCounters)
+      .set({ hits: sql`GREATEST(${apiRateLimitCounters.hits} - 1, 0)` })
+      .where(eq(apiRateLimitCounters.key, key));
+  }
+
+  async resetRateLimitCounter(key: string): Promise<void> {
+    await db.delete(apiRateLimitCounters).where(eq(apiRateLimitCounters.key, key));
+  }
+
+  async createAdminOperation(operation: InsertAdminOperation): Promise<AdminOperation> {
+    const result = await db.insert(adminOperations).values(operation).returning();
+    return result[0];
+  }
+
+  async getAdminOperations(filter: AdminOperationFilter, limit: number, offset = 0): Promise<{ operations: AdminOperation[]; total: number }> {
+    const conditions = [];
+    if (filter.performedBy !== undefined) {
+      conditions.push(sql`lower(${adminOperations.performedBy}) = ${filter.performedBy.toLowerCase()}`);
+    }
+    if (filter.operationTypes && filter.operationTypes.length > 0) {
+      conditions.push(inArray(sql<string>`lower(coalesce(${adminOperations.operationType}, ${adminOperations.operation}))`, filter.operationTypes));
+    }
+    if (filter.from !== undefined) conditions.push(gte(adminOperations.timestamp, filter.from));
+    if (filter.to !== undefined) conditions.push(lte(adminOperations.timestamp, filter.to));
+    if (filter.success !== undefined) conditions.push(eq(adminOperations.success, filter.success));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [operations, [{ total }]] = await Promise.all([
+      db.select().from(adminOperations)
+        .where(where)
+        .orderBy(desc(adminOperations.timestamp), desc(adminOperations.id))
+        .limit(limit)
+        .offset(offset),
+      db.select({ total: sql<number>`count(*)::int` }).from(adminOperations).where(where)
+    ]);
+    return { operations, total };
+  }
+
+  async getAdminOperationFacets(): Promise<AdminOperationFacets> {
+    const [types, operators] = await Promise.all([
+      db.selectDistinct({ value: sql<string>`lower(coalesce(${adminOperations.operationType}, ${adminOperations.operation}))` })
+        .from(adminOperations),
+      db.selectDistinct({ value: adminOperations.performedBy }).from(adminOperations)
+    ]);
+    return {
+      operationTypes: types.map(type => type.value).filter(Boolean).sort(),
+      operators: operators.map(operator => operator.value).filter((value): value is string => !!value).sort()
+    };
+  }
+}
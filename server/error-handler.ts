@@ -41,6 +41,56 @@ export class ErrorHandler {
     return error;
   }
 
+  // Missing resources
+  static createNotFoundError(message: string, details?: any): ApiError {
+    const error = new Error(message) as ApiError;
+    error.statusCode = 404;
+    error.code = 'NOT_FOUND';
+    error.details = details;
+    error.retryable = false;
+    return error;
+  }
+
+  // Missing or rejected credentials
+  static createUnauthorizedError(message: string, code: string = 'UNAUTHORIZED', details?: any): ApiError {
+    const error = new Error(message) as ApiError;
+    error.statusCode = 401;
+    error.code = code;
+    error.details = details;
+    error.retryable = false;
+    return error;
+  }
+
+  // Authenticated, but not allowed to do this
+  static createForbiddenError(message: string, code: string = 'FORBIDDEN', details?: any): ApiError {
+    const error = new Error(message) as ApiError;
+    error.statusCode = 403;
+    error.code = code;
+    error.details = details;
+    error.retryable = false;
+    return error;
+  }
+
+  // Request conflicts with the current state
+  static createConflictError(message: string, code: string = 'CONFLICT', details?: any): ApiError {
+    const error = new Error(message) as ApiError;
+    error.statusCode = 409;
+    error.code = code;
+    error.details = details;
+    error.retryable = false;
+    return error;
+  }
+
+  // A dependency is not configured on this server
+  static createUnavailableError(message: string, details?: any): ApiError {
+    const error = new Error(message) as ApiError;
+    error.statusCode = 503;
+    error.code = 'SERVICE_UNAVAILABLE';
+    error.details = details;
+    error.retryable = false;
+    return error;
+  }
+
   // Rate limiting errors
   static createRateLimitError(message: string = 'Too many requests'): ApiError {
     const error = new Error(message) as ApiError;
@@ -80,6 +130,11 @@ export function enhancedErrorHandler(
   res: Response,
   next: NextFunction
 ): void {
+  // Too late to send an envelope - let Express close the connection
+  if (res.headersSent) {
+    return next(error);
+  }
+
   // Log error with context
   const errorContext = {
     timestamp: new Date().toISOString(),
@@ -96,10 +151,15 @@ export function enhancedErrorHandler(
     }
   };
 
-  console.error('API Error:', JSON.stringify(errorContext, null, 2));
-
   // Determine response based on error type
   const statusCode = error.statusCode || 500;
+
+  // Client errors are expected - one line is enough
+  if (statusCode < 500) {
+    console.warn(`⚠️ ${req.method} ${req.originalUrl} ${statusCode} ${error.code}: ${error.message}`);
+  } else {
+    console.error('API Error:', JSON.stringify(errorContext, null, 2));
+  }
   const isProduction = process.env.NODE_ENV === 'production';
 
   // Base error response
@@ -113,7 +173,11 @@ export function enhancedErrorHandler(
     }
   };
 
-  // Add details for non-production environments
+  // Client errors describe the request, so their details are always sent; server error
+  // details and stacks only outside production
+  if (statusCode < 500 && error.details !== undefined) {
+    errorResponse.error.details = error.details;
+  }
   if (!isProduction) {
     errorResponse.error.details = error.details;
     errorResponse.error.stack = error.stack;
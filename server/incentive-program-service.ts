@@ -0,0 +1,273 @@
+/**
+ * INCENTIVE PROGRAM SERVICE
+ * Programs are first-class reward campaigns: one pool, fee tier, reward token, budget and
+ * date window each. Registered positions are matched to a program by pool address, and the
+ * reward ledger, APR and analytics are computed per program. A program can also pay partner
+ * tokens, each with its own budget, split in the same proportions as its primary token.
+ *
+ * The original KILT/ETH program is bootstrapped from blockchain_config on first use. It keeps
+ * a null budget and dates so it stays funded by treasury_config.
+ */
+
+import { db } from './db';
+import {
+  incentivePrograms,
+  programRewardTokens,
+  lpPositions,
+  dailyRewards,
+  rewardAllocations,
+  type IncentiveProgram,
+  type InsertIncentiveProgram,
+  type ProgramRewardToken,
+  type TreasuryConfig
+} from '../shared/schema';
+import { asc, eq, isNull, sql } from 'drizzle-orm';
+import { blockchainConfigService } from './blockchain-config-service';
+import { DEFAULT_CHAIN_ID } from './chain-registry';
+
+/**
+ * Partner token paid alongside a program's primary reward token
+ */
+export interface ResolvedPartnerToken {
+  tokenAddress: string;
+  tokenSymbol: string;
+  decimals: number;
+  totalBudget: number;
+  dailyBudget: number;
+}
+
+/**
+ * Program with its budget and dates resolved (from treasury_config for treasury-funded programs)
+ */
+export interface ResolvedIncentiveProgram extends Omit<IncentiveProgram, 'totalBudget' | 'startDate' | 'endDate'> {
+  totalBudget: number;
+  startDate: string;
+  endDate: string;
+  durationDays: number;
+  dailyBudget: number;
+  fundedByTreasury: boolean;
+  partnerTokens: ResolvedPartnerToken[];
+}
+
+export type IncentiveProgramValues = Omit<InsertIncentiveProgram, 'id' | 'createdAt' | 'updatedAt' | 'createdBy'>;
+
+export interface PartnerTokenValues {
+  tokenAddress: string;
+  tokenSymbol: string;
+  decimals: number;
+  totalBudget: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Same defaults the reward service falls back to when treasury_config has no row
+const DEFAULT_TREASURY = { totalAllocation: 1500000, programDurationDays: 60 };
+
+function toDayKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+class IncentiveProgramService {
+  private cache: { programs: ResolvedIncentiveProgram[]; timestamp: number } | null = null;
+  private readonly CACHE_DURATION = 30000; // 30 seconds
+  private bootstrapped = false;
+
+  /**
+   * Create the original KILT/ETH program when the table is empty and attach every existing
+   * registration, ledger entry and allocation row to it - they were all accrued against it.
+   */
+  private async ensureBootstrap(): Promise<void> {
+    if (this.bootstrapped) return;
+
+    const [existing] = await db.select({ id: incentivePrograms.id }).from(incentivePrograms).limit(1);
+    if (!existing) {
+      const [poolAddress, { kilt, weth }, feeTier] = await Promise.all([
+        blockchainConfigService.getKiltEthPoolAddress(),
+        blockchainConfigService.getTokenAddresses(),
+        blockchainConfigService.getUniswapV3FeeTier()
+      ]);
+      // Uniswap orders pool tokens by address
+      const [token0Address, token1Address] = [kilt, weth].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()));
+
+      await db.transaction(async (tx) => {
+        const [program] = await tx.insert(incentivePrograms).values({
+          name: 'KILT/ETH',
+          chainId: DEFAULT_CHAIN_ID,
+          poolAddress: poolAddress.toLowerCase(),
+          token0Address,
+          token1Address,
+          feeTier,
+          rewardTokenAddress: kilt,
+          rewardTokenSymbol: 'KILT',
+          createdBy: 'bootstrap'
+        }).returning();
+
+        await tx.update(lpPositions).set({ programId: program.id }).where(isNull(lpPositions.programId));
+        await tx.update(dailyRewards).set({ programId: program.id }).where(isNull(dailyRewards.programId));
+        await tx.update(rewardAllocations).set({ programId: program.id }).where(isNull(rewardAllocations.programId));
+      });
+      console.log(`🎯 INCENTIVE PROGRAMS: Bootstrapped KILT/ETH program on ${poolAddress}`);
+    }
+
+    this.bootstrapped = true;
+  }
+
+  /**
+   * All programs with resolved budgets, oldest first
+   */
+  async listPrograms(options: { includeInactive?: boolean } = {}): Promise<ResolvedIncentiveProgram[]> {
+    if (!this.cache || Date.now() - this.cache.timestamp >= this.CACHE_DURATION) {
+      await this.ensureBootstrap();
+      // Loaded lazily - DatabaseStorage imports this service to match new positions to programs
+      const { storage } = await import('./storage');
+      const [programs, partnerTokens, treasury] = await Promise.all([
+        db.select().from(incentivePrograms).orderBy(asc(incentivePrograms.id)),
+        db.select().from(programRewardTokens).orderBy(asc(programRewardTokens.id)),
+        storage.getTreasuryConfig()
+      ]);
+      this.cache = {
+        programs: programs.map(program => this.resolve(program, partnerTokens.filter(token => token.programId === program.id), treasury)),
+        timestamp: Date.now()
+      };
+    }
+
+    return options.includeInactive ? this.cache.programs : this.cache.programs.filter(program => program.isActive);
+  }
+
+  async getProgram(id: number): Promise<ResolvedIncentiveProgram | null> {
+    const programs = await this.listPrograms({ includeInactive: true });
+    return programs.find(program => program.id === id) || null;
+  }
+
+  /**
+   * The treasury-funded program - the default for endpoints that predate programs
+   */
+  async getPrimaryProgram(): Promise<ResolvedIncentiveProgram | null> {
+    const programs = await this.listPrograms();
+    return programs.find(program => program.fundedByTreasury) || programs[0] || null;
+  }
+
+  /**
+   * Active program a position in `poolAddress` on `chainId` joins: the one running at `at`,
+   * otherwise the next one to start. Null when no program rewards the pool.
+   */
+  async matchProgram(poolAddress: string, at: Date = new Date(), chainId: number = DEFAULT_CHAIN_ID): Promise<ResolvedIncentiveProgram | null> {
+    const day = toDayKey(at);
+    const candidates = (await this.listPrograms())
+      .filter(program => program.chainId === chainId
+        && program.poolAddress.toLowerCase() === poolAddress.toLowerCase()
+        && program.endDate > day);
+
+    return candidates.find(program => program.startDate <= day)
+      || candidates.sort((a, b) => a.startDate.localeCompare(b.startDate))[0]
+      || null;
+  }
+
+  async createProgram(values: IncentiveProgramValues, createdBy: string): Promise<IncentiveProgram> {
+    await this.ensureBootstrap();
+    const [program] = await db.insert(incentivePrograms).values({
+      ...values,
+      poolAddress: values.poolAddress.toLowerCase(),
+      createdBy
+    }).returning();
+    this.clearCache();
+    return program;
+  }
+
+  async updateProgram(id: number, values: IncentiveProgramValues): Promise<IncentiveProgram | null> {
+    const [program] = await db.update(incentivePrograms)
+      .set({ ...values, poolAddress: values.poolAddress.toLowerCase(), updatedAt: new Date() })
+      .where(eq(incentivePrograms.id, id))
+      .returning();
+    this.clearCache();
+    return program || null;
+  }
+
+  /**
+   * Replace a program's partner tokens. Accruals already written keep their token and amount.
+   */
+  async setPartnerTokens(programId: number, tokens: PartnerTokenValues[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(programRewardTokens).where(eq(programRewardTokens.programId, programId));
+      if (tokens.length > 0) {
+        await tx.insert(programRewardTokens).values(tokens.map(token => ({
+          programId,
+          tokenAddress: token.tokenAddress,
+          tokenSymbol: token.tokenSymbol,
+          decimals: token.decimals,
+          totalBudget: token.totalBudget.toString()
+        })));
+      }
+    });
+    this.clearCache();
+  }
+
+  /**
+   * Registered positions per program
+   */
+  async getPositionCounts(): Promise<Map<number, { positions: number; users: number }>> {
+    const rows = await db.select({
+      programId: lpPositions.programId,
+      positions: sql<number>`count(*)::int`,
+      users: sql<number>`count(distinct ${lpPositions.userId})::int`
+    })
+      .from(lpPositions)
+      .where(sql`${lpPositions.isActive} = true and ${lpPositions.transferredAt} is null`)
+      .groupBy(lpPositions.programId);
+
+    return new Map(rows
+      .filter(row => row.programId !== null)
+      .map(row => [row.programId!, { positions: row.positions, users: row.users }]));
+  }
+
+  clearCache(): void {
+    this.cache = null;
+  }
+
+  private resolve(
+    program: IncentiveProgram,
+    partnerTokens: ProgramRewardToken[],
+    treasury?: TreasuryConfig
+  ): ResolvedIncentiveProgram {
+    const fundedByTreasury = program.totalBudget === null;
+    let totalBudget: number;
+    let startDate: string;
+    let endDate: string;
+
+    if (fundedByTreasury) {
+      totalBudget = treasury ? parseFloat(treasury.totalAllocation) : DEFAULT_TREASURY.totalAllocation;
+      startDate = treasury?.programStartDate ?? toDayKey(program.createdAt);
+      endDate = treasury?.programEndDate
+        ?? toDayKey(new Date(new Date(`${startDate}T00:00:00.000Z`).getTime() + DEFAULT_TREASURY.programDurationDays * MS_PER_DAY));
+    } else {
+      totalBudget = parseFloat(program.totalBudget!);
+      startDate = program.startDate!;
+      endDate = program.endDate!;
+    }
+
+    const durationDays = Math.max(1, Math.round(
+      (new Date(`${endDate}T00:00:00.000Z`).getTime() - new Date(`${startDate}T00:00:00.000Z`).getTime()) / MS_PER_DAY
+    ));
+    // Treasury-funded programs keep the cap the admin panel computed, everything else spreads evenly
+    const dailyBudget = fundedByTreasury && treasury ? parseFloat(treasury.dailyRewardsCap) : totalBudget / durationDays;
+
+    return {
+      ...program,
+      totalBudget,
+      startDate,
+      endDate,
+      durationDays,
+      dailyBudget,
+      fundedByTreasury,
+      partnerTokens: partnerTokens.map(token => ({
+        tokenAddress: token.tokenAddress,
+        tokenSymbol: token.tokenSymbol,
+        decimals: token.decimals,
+        totalBudget: parseFloat(token.totalBudget),
+        dailyBudget: parseFloat(token.totalBudget) / durationDays
+      }))
+    };
+  }
+}
+
+export const incentiveProgramService = new IncentiveProgramService();
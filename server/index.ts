@@ -3,11 +3,19 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { setupSecurity, errorHandler, validateEnvironment } from "./security-middleware";
 // Removed performance-routes - cleaned up during optimization
-import { enhancedErrorHandler } from "./error-handler";
+import { ErrorHandler, enhancedErrorHandler } from "./error-handler";
 // Removed database-optimizer - cleaned up during optimization
 import { kiltPriceService } from "./kilt-price-service.js";
 import { blockchainConfigService } from "./blockchain-config-service";
 import { unifiedRewardService } from "./unified-reward-service";
+import { poolTickSampler } from "./pool-tick-sampler";
+import { claimReconciliationService } from "./claim-reconciliation-service";
+import { getEnabledPositionEventIndexers } from "./position-event-indexer";
+import { positionPerformanceService } from "./position-performance-service";
+import { adminProposalService } from "./admin-proposal-service";
+import { notificationService } from "./notification-service";
+import { assertSchemaUpToDate } from "./migration-service";
+import { jobScheduler } from "./job-scheduler";
 import compression from "compression";
 import cookieParser from "cookie-parser";
 
@@ -21,6 +29,9 @@ try {
   // Continue in production with warnings instead of crashing
 }
 
+// Refuse to start against pending migrations or a drifted schema - services below query it
+await assertSchemaUpToDate();
+
 // Initialize KILT price service for background price fetching
 kiltPriceService; // This will start the background price fetching
 
@@ -42,7 +53,7 @@ if (process.env.NODE_ENV !== 'production') {
     try {
       const { blockchainSyncValidator } = await import("./blockchain-sync-validator");
       blockchainSyncValidator.start();
-      console.log('🛡️ Blockchain Sync Validator started for development');
+      console.log('🛡️ Blockchain Sync Validator registered for development');
     } catch (error) {
       console.error('❌ Failed to start Blockchain Sync Validator:', error);
     }
@@ -54,8 +65,30 @@ if (process.env.NODE_ENV !== 'production') {
 // Removed db-migration-optimizer - cleaned up during optimization
 
 // Initialize reward service for background updates
+// Tick history feeds the in-range multiplier applied by the reward ledger
+poolTickSampler.start();
+unifiedRewardService.startLedgerAccrual();
 console.log('🎯 Unified reward service initialized successfully');
 
+// Write claims made directly against the treasury contract back to the rewards table
+claimReconciliationService.start();
+
+// Position lifecycle state is derived from indexed position manager events (one indexer per enabled chain)
+getEnabledPositionEventIndexers().forEach(indexer => indexer.start());
+
+// Value snapshots back the per-position performance report
+positionPerformanceService.start();
+
+// Applies approved treasury and program config proposals once their timelock passes
+adminProposalService.start();
+
+// Out-of-range, claimable, burn/transfer and low treasury alerts to subscribed wallets
+notificationService.start();
+
+// Runs registered jobs (price fetch, tick sampling, ledger accrual, indexers, notifications and the
+// other services above) on one elected instance only
+jobScheduler.start();
+
 // Background service monitoring (simplified for deployment stability)
 async function runHealthCheck() {
   try {
@@ -134,7 +167,7 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 
 
 // Security middleware setup
-const securityMiddleware = setupSecurity(app);
+setupSecurity(app);
 
 // Body parsing middleware with size limits (AFTER security but BEFORE routes)
 app.use(express.json({ 
@@ -237,7 +270,7 @@ app.use((req, res, next) => {
   });
 
   // Register API routes FIRST (before Vite middleware)
-  const server = await registerRoutes(app, securityMiddleware);
+  const server = await registerRoutes(app);
 
   // Root path handling will be managed by Vite dev server in development mode
 
@@ -268,9 +301,9 @@ app.use((req, res, next) => {
     }));
 
     // SPA fallback for all non-API routes
-    app.use("*", (req, res) => {
+    app.use("*", (req, res, next) => {
       if (req.originalUrl.startsWith('/api/') || req.originalUrl.startsWith('/health')) {
-        return res.status(404).json({ error: 'API endpoint not found' });
+        return next(ErrorHandler.createNotFoundError('API endpoint not found'));
       }
       res.sendFile(path.resolve(distPath, "index.html"));
     });
@@ -284,8 +317,6 @@ app.use((req, res, next) => {
 
   // Enhanced global error handler (must be last)
   app.use((error: any, req: Request, res: Response, next: NextFunction) => {
-    console.error(`❌ Global error handler - ${req.method} ${req.path}:`, error);
-    
     // Prevent circular JSON serialization
     if (error && typeof error === 'object') {
       try {
@@ -0,0 +1,387 @@
+/**
+ * JOB SCHEDULER
+ * Periodic background work shared by every app instance. Jobs are registered in code on every
+ * instance, but only the leader - whoever holds a Postgres session advisory lock - runs them, so a
+ * second instance never repeats a job. If the leader dies its connection closes, the lock is
+ * released and the next instance to tick takes over.
+ *
+ * Schedules live in scheduled_jobs so pauses, manual triggers and retry state survive restarts.
+ * A failed run is retried with exponential backoff (capped at the job interval) before the job
+ * falls back to its normal schedule. Every run is recorded in job_runs.
+ */
+
+import os from 'os';
+import type { PoolClient } from 'pg';
+import { and, desc, eq, inArray, isNotNull, lte, or } from 'drizzle-orm';
+import { jobRuns, scheduledJobs, type JobRun, type ScheduledJob } from '@shared/schema';
+import { db, pool } from './db';
+
+const LEADER_LOCK_KEY = 0x4b494c54; // 'KILT' - shared by every instance
+const TICK_INTERVAL = 5000; // Leader checks for due jobs, followers try to take over
+const HISTORY_PER_JOB = 100; // Run rows kept per job
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 30 * 1000; // First retry; doubles each failure
+
+export type JobTrigger = 'schedule' | 'retry' | 'manual';
+
+export interface JobDefinition<Result = unknown> {
+  name: string;
+  description: string;
+  intervalMs: number;
+  handler: () => Promise<Result>; // Throw to fail the run; the result is stored as JSON
+  maxRetries?: number;
+  retryDelayMs?: number;
+  onResult?: (result: Result) => void; // Followers receive the leader's latest successful result
+}
+
+export interface JobStatus extends ScheduledJob {
+  registered: boolean; // A handler exists on this instance
+  running: boolean; // Running right now on this instance
+}
+
+function serialize(value: unknown): string | null {
+  if (value === undefined) return null;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return null;
+  }
+}
+
+class JobScheduler {
+  private readonly instanceId = process.env.INSTANCE_ID
+    ? `${os.hostname()}#${process.env.INSTANCE_ID}`
+    : `${os.hostname()}:${process.pid}`;
+  private readonly definitions = new Map<string, JobDefinition<any>>();
+  private readonly running = new Set<string>();
+  private readonly seenResults = new Map<string, number>(); // Follower: lastRunAt already delivered to onResult
+  private leaderClient: PoolClient | null = null;
+  private tickTimer: NodeJS.Timeout | null = null;
+  private started = false;
+
+  /**
+   * Register a job on this instance. Every instance registers the same jobs so any of them can lead.
+   */
+  register<Result>(definition: JobDefinition<Result>): void {
+    this.definitions.set(definition.name, definition);
+    if (this.started) {
+      this.persistDefinition(definition).catch(error => {
+        console.error(`❌ JOB SCHEDULER: Failed to register ${definition.name}:`, error instanceof Error ? error.message : error);
+      });
+    }
+  }
+
+  /**
+   * Drop a job's handler on this instance - its schedule and history stay in the database
+   */
+  unregister(name: string): void {
+    this.definitions.delete(name);
+  }
+
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    try {
+      for (const definition of Array.from(this.definitions.values())) {
+        await this.persistDefinition(definition);
+      }
+    } catch (error) {
+      console.error('❌ JOB SCHEDULER: Failed to persist job definitions:', error instanceof Error ? error.message : error);
+    }
+
+    console.log(`⏱️ Job scheduler started on ${this.instanceId} with ${this.definitions.size} jobs`);
+    this.scheduleTick(0);
+  }
+
+  async stop(): Promise<void> {
+    this.started = false;
+    if (this.tickTimer) {
+      clearTimeout(this.tickTimer);
+      this.tickTimer = null;
+    }
+    await this.releaseLeadership();
+    console.log('⏹️ Job scheduler stopped');
+  }
+
+  isLeader(): boolean {
+    return this.leaderClient !== null;
+  }
+
+  getInstanceId(): string {
+    return this.instanceId;
+  }
+
+  async listJobs(): Promise<JobStatus[]> {
+    const jobs = await db.select().from(scheduledJobs).orderBy(scheduledJobs.name);
+    return jobs.map(job => ({
+      ...job,
+      registered: this.definitions.has(job.name),
+      running: this.running.has(job.name)
+    }));
+  }
+
+  async getJob(name: string): Promise<ScheduledJob | null> {
+    const [job] = await db.select().from(scheduledJobs).where(eq(scheduledJobs.name, name)).limit(1);
+    return job || null;
+  }
+
+  async getRuns(name: string, limit = 50): Promise<JobRun[]> {
+    return db.select().from(jobRuns)
+      .where(eq(jobRuns.jobName, name))
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(Math.min(Math.max(limit, 1), HISTORY_PER_JOB));
+  }
+
+  /**
+   * Stop scheduled runs on every instance until resumed. Manual triggers still run.
+   */
+  async pause(name: string): Promise<ScheduledJob | null> {
+    return this.updateJob(name, { isPaused: true });
+  }
+
+  async resume(name: string): Promise<ScheduledJob | null> {
+    return this.updateJob(name, { isPaused: false });
+  }
+
+  /**
+   * Ask the leader to run the job on its next tick, paused or not
+   */
+  async trigger(name: string): Promise<ScheduledJob | null> {
+    return this.updateJob(name, { triggerRequestedAt: new Date() });
+  }
+
+  private async updateJob(name: string, values: Partial<typeof scheduledJobs.$inferInsert>): Promise<ScheduledJob | null> {
+    const [job] = await db.update(scheduledJobs)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(scheduledJobs.name, name))
+      .returning();
+    return job || null;
+  }
+
+  // Keep the stored description and interval in step with the code; pause and retry state are untouched
+  private async persistDefinition(definition: JobDefinition<any>): Promise<void> {
+    const intervalSeconds = Math.max(1, Math.round(definition.intervalMs / 1000));
+    await db.insert(scheduledJobs)
+      .values({ name: definition.name, description: definition.description, intervalSeconds })
+      .onConflictDoUpdate({
+        target: scheduledJobs.name,
+        set: { description: definition.description, intervalSeconds, updatedAt: new Date() }
+      });
+  }
+
+  private scheduleTick(delay: number): void {
+    if (!this.started) return;
+    this.tickTimer = setTimeout(async () => {
+      try {
+        await this.tick();
+      } catch (error) {
+        console.error('❌ JOB SCHEDULER: Tick failed:', error instanceof Error ? error.message : error);
+      }
+      this.scheduleTick(TICK_INTERVAL);
+    }, delay);
+  }
+
+  private async tick(): Promise<void> {
+    if (await this.ensureLeadership()) {
+      await this.runDueJobs();
+    } else {
+      await this.syncResults();
+    }
+  }
+
+  /**
+   * Hold the advisory lock on a dedicated connection. A dead connection means the lock is gone too.
+   */
+  private async ensureLeadership(): Promise<boolean> {
+    if (this.leaderClient) {
+      try {
+        await this.leaderClient.query('SELECT 1');
+        return true;
+      } catch (error) {
+        console.warn('⚠️ JOB SCHEDULER: Lost leader connection:', error instanceof Error ? error.message : error);
+        this.dropLeaderClient(error instanceof Error ? error : new Error('Leader connection failed'));
+        return false;
+      }
+    }
+
+    const client = await pool.connect();
+    try {
+      const result = await client.query<{ locked: boolean }>('SELECT pg_try_advisory_lock($1) AS locked', [LEADER_LOCK_KEY]);
+      if (!result.rows[0]?.locked) {
+        client.release();
+        return false;
+      }
+    } catch (error) {
+      client.release(error instanceof Error ? error : true);
+      throw error;
+    }
+
+    client.on('error', (error: Error) => {
+      console.warn('⚠️ JOB SCHEDULER: Leader connection error:', error.message);
+      this.dropLeaderClient(error);
+    });
+    this.leaderClient = client;
+    console.log(`👑 JOB SCHEDULER: ${this.instanceId} is now the leader`);
+    await this.failInterruptedRuns();
+    return true;
+  }
+
+  private dropLeaderClient(error: Error): void {
+    const client = this.leaderClient;
+    this.leaderClient = null;
+    client?.release(error);
+  }
+
+  private async releaseLeadership(): Promise<void> {
+    const client = this.leaderClient;
+    if (!client) return;
+    this.leaderClient = null;
+    try {
+      await client.query('SELECT pg_advisory_unlock($1)', [LEADER_LOCK_KEY]);
+      client.release();
+    } catch (error) {
+      client.release(error instanceof Error ? error : true);
+    }
+  }
+
+  // Runs left 'running' by a leader that died mid-run
+  private async failInterruptedRuns(): Promise<void> {
+    await db.update(jobRuns)
+      .set({ status: 'failed', error: 'Leader stopped before the run finished', finishedAt: new Date() })
+      .where(eq(jobRuns.status, 'running'));
+  }
+
+  private async runDueJobs(): Promise<void> {
+    const names = Array.from(this.definitions.keys());
+    if (names.length === 0) return;
+
+    const now = new Date();
+    const due = await db.select().from(scheduledJobs).where(and(
+      inArray(scheduledJobs.name, names),
+      or(
+        isNotNull(scheduledJobs.triggerRequestedAt),
+        and(eq(scheduledJobs.isPaused, false), lte(scheduledJobs.nextRunAt, now))
+      )
+    ));
+
+    // Jobs run side by side - a slow job never delays the others
+    for (const job of due) {
+      if (this.running.has(job.name)) continue;
+      this.running.add(job.name);
+      this.runJob(job)
+        .catch(error => {
+          console.error(`❌ JOB SCHEDULER: ${job.name} bookkeeping failed:`, error instanceof Error ? error.message : error);
+        })
+        .finally(() => this.running.delete(job.name));
+    }
+  }
+
+  private async runJob(job: ScheduledJob): Promise<void> {
+    const definition = this.definitions.get(job.name);
+    if (!definition) return;
+
+    const trigger: JobTrigger = job.triggerRequestedAt ? 'manual' : job.failedAttempts > 0 ? 'retry' : 'schedule';
+    const attempt = job.failedAttempts + 1;
+    const startedAt = new Date();
+
+    await db.update(scheduledJobs).set({ triggerRequestedAt: null }).where(eq(scheduledJobs.name, job.name));
+    const [run] = await db.insert(jobRuns).values({
+      jobName: job.name,
+      instanceId: this.instanceId,
+      trigger,
+      attempt,
+      status: 'running',
+      startedAt
+    }).returning();
+
+    let result: unknown;
+    let failure: string | null = null;
+    try {
+      result = await definition.handler();
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    const finishedAt = new Date();
+    const durationMs = finishedAt.getTime() - startedAt.getTime();
+
+    if (failure === null) {
+      const serialized = serialize(result);
+      await db.update(jobRuns)
+        .set({ status: 'succeeded', result: serialized, finishedAt, durationMs })
+        .where(eq(jobRuns.id, run.id));
+      await db.update(scheduledJobs).set({
+        failedAttempts: 0,
+        lastRunAt: finishedAt,
+        lastStatus: 'succeeded',
+        lastError: null,
+        lastResult: serialized,
+        nextRunAt: new Date(finishedAt.getTime() + definition.intervalMs),
+        updatedAt: finishedAt
+      }).where(eq(scheduledJobs.name, job.name));
+    } else {
+      const maxRetries = definition.maxRetries ?? DEFAULT_MAX_RETRIES;
+      const retrying = attempt <= maxRetries;
+      const backoff = (definition.retryDelayMs ?? DEFAULT_RETRY_DELAY) * Math.pow(2, attempt - 1);
+      const delay = retrying ? Math.min(backoff, definition.intervalMs) : definition.intervalMs;
+
+      await db.update(jobRuns)
+        .set({ status: 'failed', error: failure.slice(0, 500), finishedAt, durationMs })
+        .where(eq(jobRuns.id, run.id));
+      await db.update(scheduledJobs).set({
+        // Out of retries - back to the normal schedule with a clean slate
+        failedAttempts: retrying ? attempt : 0,
+        lastRunAt: finishedAt,
+        lastStatus: 'failed',
+        lastError: failure.slice(0, 500),
+        nextRunAt: new Date(finishedAt.getTime() + delay),
+        updatedAt: finishedAt
+      }).where(eq(scheduledJobs.name, job.name));
+      console.warn(`⚠️ JOB SCHEDULER: ${job.name} failed (attempt ${attempt}${retrying ? `, retrying in ${Math.round(delay / 1000)}s` : ', giving up until next interval'}): ${failure}`);
+    }
+
+    await this.pruneHistory(job.name);
+  }
+
+  private async pruneHistory(name: string): Promise<void> {
+    const [cutoff] = await db.select({ id: jobRuns.id }).from(jobRuns)
+      .where(eq(jobRuns.jobName, name))
+      .orderBy(desc(jobRuns.id))
+      .offset(HISTORY_PER_JOB)
+      .limit(1);
+    if (cutoff) {
+      await db.delete(jobRuns).where(and(eq(jobRuns.jobName, name), lte(jobRuns.id, cutoff.id)));
+    }
+  }
+
+  /**
+   * Followers pick up the leader's latest results for jobs whose output every instance needs
+   */
+  private async syncResults(): Promise<void> {
+    const listeners = Array.from(this.definitions.values()).filter(definition => definition.onResult);
+    if (listeners.length === 0) return;
+
+    const jobs = await db.select({
+      name: scheduledJobs.name,
+      lastRunAt: scheduledJobs.lastRunAt,
+      lastStatus: scheduledJobs.lastStatus,
+      lastResult: scheduledJobs.lastResult
+    }).from(scheduledJobs).where(inArray(scheduledJobs.name, listeners.map(definition => definition.name)));
+
+    for (const job of jobs) {
+      if (!job.lastRunAt || !job.lastResult || job.lastStatus !== 'succeeded') continue;
+      const runAt = job.lastRunAt.getTime();
+      if (this.seenResults.get(job.name) === runAt) continue;
+      this.seenResults.set(job.name, runAt);
+
+      try {
+        this.definitions.get(job.name)?.onResult?.(JSON.parse(job.lastResult));
+      } catch (error) {
+        console.warn(`⚠️ JOB SCHEDULER: ${job.name} result could not be applied:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+}
+
+export const jobScheduler = new JobScheduler();
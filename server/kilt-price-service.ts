@@ -1,14 +1,18 @@
 /**
  * KILT Price Service - Real-time price fetching with background updates
- * Fetches KILT price from CoinGecko API every 30 seconds for accurate calculations
+ * Fetches KILT price from CoinGecko API every 10 seconds for accurate calculations.
+ * The fetch is a scheduler job run by the leader instance; other instances take its result.
  */
 
+import { jobScheduler } from './job-scheduler';
+
+export const KILT_PRICE_JOB = 'kilt-price';
+
 class KiltPriceService {
   private static instance: KiltPriceService;
   private currentPrice: number = 0.01757; // Current price from CoinGecko for migrated token
   private lastSuccessfulPrice: number = 0.01757; // Last known good price
   private lastUpdate: number = 0;
-  private fetchInterval: NodeJS.Timeout | null = null;
   private readonly UPDATE_INTERVAL = 10000; // 10 seconds for real-time updates
   private readonly INITIAL_FALLBACK_PRICE = 0.01757; // Updated price from CoinGecko
   private readonly MAX_PRICE_CHANGE_THRESHOLD = 0.5; // 50% max change per update (circuit breaker)
@@ -45,16 +49,32 @@ class KiltPriceService {
   }
 
   /**
-   * Start background fetching of KILT price every 30 seconds
+   * Register the background fetch with the job scheduler - runs on startup, then every 10 seconds
    */
   private startBackgroundFetching(): void {
-    // Fetch immediately on startup
-    this.fetchKiltPrice();
-    
-    // Set up recurring fetch every 30 seconds
-    this.fetchInterval = setInterval(() => {
-      this.fetchKiltPrice();
-    }, this.UPDATE_INTERVAL);
+    jobScheduler.register({
+      name: KILT_PRICE_JOB,
+      description: 'Fetch the KILT price from GeckoTerminal/CoinGecko',
+      intervalMs: this.UPDATE_INTERVAL,
+      maxRetries: 0, // The fetch falls back internally - the next interval is the retry
+      handler: async () => {
+        await this.fetchKiltPrice();
+        return { price: this.currentPrice, lastUpdate: this.lastUpdate };
+      },
+      onResult: ({ price, lastUpdate }) => this.applySharedPrice(price, lastUpdate)
+    });
+  }
+
+  /**
+   * Price fetched by the leader instance
+   */
+  private applySharedPrice(price: number, lastUpdate: number): void {
+    if (!(price > 0)) return;
+    this.currentPrice = price;
+    if (lastUpdate > this.lastUpdate) {
+      this.lastUpdate = lastUpdate;
+      this.lastSuccessfulPrice = price;
+    }
   }
 
   /**
@@ -189,13 +209,10 @@ class KiltPriceService {
   }
 
   /**
-   * Stop background fetching (for cleanup)
+   * Stop background fetching on this instance (for cleanup)
    */
   stopBackgroundFetching(): void {
-    if (this.fetchInterval) {
-      clearInterval(this.fetchInterval);
-      this.fetchInterval = null;
-    }
+    jobScheduler.unregister(KILT_PRICE_JOB);
   }
 }
 
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { ethers } from "ethers";
+
+// db.ts refuses to load without a URL - nothing below opens a connection
+vi.hoisted(() => {
+  process.env.DATABASE_URL ??= "postgres://test@localhost:1/test";
+});
+
+import { MemStorage } from "./storage";
+import { MerkleDistributionService, type MerkleBalance } from "./merkle-distribution-service";
+import { blockchainConfigService } from "./blockchain-config-service";
+import { incentiveProgramService, type ResolvedIncentiveProgram } from "./incentive-program-service";
+import { smartContractService } from "./smart-contract-service";
+
+const KILT = "0x5D0DD05bB095fdD6Af4865A1AdF97c39C85ad2d8";
+const PARTNER = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const POOL = "0x82Da478b1382B951cBaD01Beb9eD459cDB16458E";
+const WALLET = "0x5bF25Dc1BAf6A96C5A0F724E05EcF4D456c7652e";
+const PARTNER_ONLY_WALLET = "0x1111111111111111111111111111111111111111";
+
+const PROGRAMS = [
+  { id: 1, rewardTokenAddress: KILT, rewardTokenSymbol: "KILT", partnerTokens: [] },
+  { id: 2, rewardTokenAddress: PARTNER, rewardTokenSymbol: "USDC", partnerTokens: [] }
+] as unknown as ResolvedIncentiveProgram[];
+
+describe("MerkleDistributionService", () => {
+  let storage: MemStorage;
+  let service: MerkleDistributionService;
+
+  async function accrue(address: string, programId: number | null, date: string, amount: string) {
+    const user = await storage.getUserByAddress(address) ?? await storage.createUser({ address });
+    const position = await storage.createLpPosition({
+      userId: user.id,
+      nftTokenId: `${user.id}${programId ?? 0}`,
+      poolAddress: POOL,
+      token0Address: "0x1",
+      token1Address: "0x2",
+      token0Amount: "100",
+      token1Amount: "1",
+      minPrice: "0.1",
+      maxPrice: "1",
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: "1000",
+      programId
+    });
+    await storage.appendLedgerDay({
+      entries: [{
+        userId: user.id,
+        positionId: position.id,
+        programId,
+        date,
+        positionValueUSD: "1000",
+        baseAPR: "0",
+        timeMultiplier: "1",
+        sizeMultiplier: "1",
+        effectiveAPR: "0",
+        dailyRewardAmount: amount,
+        daysStaked: 1
+      }],
+      tokenEntriesFor: () => [],
+      allocation: {
+        programId,
+        date,
+        dailyRewardsCap: "100",
+        totalAllocated: amount,
+        totalLiquidity: "1000",
+        positionCount: 1,
+        normalizationFactor: "1"
+      }
+    });
+  }
+
+  function balances(): Promise<MerkleBalance[]> {
+    return service["getCumulativeBalances"](new Map());
+  }
+
+  beforeEach(() => {
+    storage = new MemStorage();
+    service = new MerkleDistributionService(storage);
+    vi.spyOn(blockchainConfigService, "getTokenAddresses").mockResolvedValue({ kilt: KILT, weth: "0x4200000000000000000000000000000000000006" });
+    vi.spyOn(incentiveProgramService, "listPrograms").mockResolvedValue(PROGRAMS);
+    vi.spyOn(smartContractService, "getClaimedAmount").mockResolvedValue({ success: true, claimedAmount: 5 });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("builds leaves from KILT programs and pre-program entries only", async () => {
+    await accrue(WALLET, 1, "2025-01-01", "40");
+    await accrue(WALLET, null, "2025-01-01", "10");
+    await accrue(WALLET, 2, "2025-01-01", "1000");
+    await accrue(PARTNER_ONLY_WALLET, 2, "2025-01-01", "500");
+
+    // 40 + 10 KILT accrued, minus 5 already paid by the signature pool
+    expect(await balances()).toEqual([{ address: WALLET, cumulativeAmount: ethers.parseUnits("45", 18) }]);
+  });
+
+  it("keeps a previous leaf when the KILT balance has not grown past it", async () => {
+    await accrue(WALLET, 1, "2025-01-01", "10");
+    const previous = new Map([[WALLET.toLowerCase(), ethers.parseUnits("20", 18)]]);
+
+    expect(await service["getCumulativeBalances"](previous)).toEqual([{ address: WALLET, cumulativeAmount: ethers.parseUnits("20", 18) }]);
+  });
+});
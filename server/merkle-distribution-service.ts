@@ -0,0 +1,364 @@
+/**
+ * Merkle Distribution Service - epoch-based claims as an alternative to per-claim signatures
+ * Builds a Merkle tree of every user's cumulative reward balance from the reward ledger,
+ * publishes its root to MerkleTreasuryPool once per epoch and serves per-user proofs.
+ * The publishing key is only used once per epoch instead of signing every claim request.
+ *
+ * Both pools pay from the same ledger. Leaves subtract signature-pool claims, signature claims
+ * subtract the latest leaf, and CLAIM_MODE keeps only one of the two paths open at a time.
+ *
+ * Leaves match the contract: keccak256(bytes.concat(keccak256(abi.encode(user, cumulativeAmount))))
+ * with inner nodes hashed as sorted pairs (OpenZeppelin MerkleProof).
+ */
+
+import { ethers } from 'ethers';
+import { db } from './db';
+import { merkleEpochs, merkleEpochLeaves, type MerkleEpoch } from '../shared/schema';
+import { desc, eq, and } from 'drizzle-orm';
+import { storage, type IStorage } from './storage';
+import { blockchainConfigService } from './blockchain-config-service';
+import { incentiveProgramService } from './incentive-program-service';
+import { smartContractService } from './smart-contract-service';
+import { REWARD_LEDGER_JOB, unifiedRewardService } from './unified-reward-service';
+
+const BASE_RPC_URL = process.env.BASE_RPC_URL || 'https://mainnet.base.org';
+// Root publisher key - only needed when publishing an epoch
+const MERKLE_PUBLISHER_PRIVATE_KEY = process.env.MERKLE_PUBLISHER_PRIVATE_KEY || process.env.CALCULATOR_PRIVATE_KEY;
+
+const MERKLE_POOL_ABI = [
+  "function publishMerkleRoot(uint256 epoch, bytes32 root, uint256 totalCumulative) external",
+  "function getEpochInfo() external view returns (uint256 epoch, bytes32 root, uint256 totalCumulative, uint256 updatedAt)",
+  "function claimedAmount(address user) external view returns (uint256)"
+];
+
+// Which pool pays KILT rewards. Only one path is open at a time - see "Claim Modes" in docs/admin-guide.md
+export type ClaimMode = 'signature' | 'merkle';
+
+export interface MerkleBalance {
+  address: string;
+  cumulativeAmount: bigint; // wei
+}
+
+export interface MerkleTree {
+  root: string;
+  proofs: Map<string, string[]>; // lowercase address -> proof
+}
+
+export interface MerkleProofResponse {
+  address: string;
+  epoch: number;
+  merkleRoot: string;
+  cumulativeAmount: string; // wei
+  cumulativeAmountKilt: number;
+  claimedAmount: string | null; // wei, null when the contract could not be read
+  claimableAmountKilt: number | null;
+  proof: string[];
+  contractAddress: string | null;
+  ledgerThroughDate: string | null;
+}
+
+export class MerkleDistributionService {
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Leaf hash for (user, cumulativeAmount) - double hashed to rule out second preimage attacks
+   */
+  hashLeaf(address: string, cumulativeAmount: bigint): string {
+    const encoded = ethers.AbiCoder.defaultAbiCoder().encode(['address', 'uint256'], [address, cumulativeAmount]);
+    return ethers.keccak256(ethers.concat([ethers.keccak256(encoded)]));
+  }
+
+  private hashPair(a: string, b: string): string {
+    return BigInt(a) < BigInt(b)
+      ? ethers.keccak256(ethers.concat([a, b]))
+      : ethers.keccak256(ethers.concat([b, a]));
+  }
+
+  /**
+   * Build the tree and every proof. Leaves are sorted by address so a given set of
+   * balances always yields the same root. An unpaired node is promoted unchanged.
+   */
+  buildTree(balances: MerkleBalance[]): MerkleTree {
+    if (balances.length === 0) {
+      throw new Error('Cannot build a Merkle tree without balances');
+    }
+
+    const sorted = [...balances].sort((a, b) => a.address.toLowerCase().localeCompare(b.address.toLowerCase()));
+    const layers: string[][] = [sorted.map(balance => this.hashLeaf(balance.address, balance.cumulativeAmount))];
+
+    while (layers[layers.length - 1].length > 1) {
+      const layer = layers[layers.length - 1];
+      const next: string[] = [];
+      for (let i = 0; i < layer.length; i += 2) {
+        next.push(i + 1 < layer.length ? this.hashPair(layer[i], layer[i + 1]) : layer[i]);
+      }
+      layers.push(next);
+    }
+
+    const proofs = new Map<string, string[]>();
+    sorted.forEach((balance, leafIndex) => {
+      const proof: string[] = [];
+      let index = leafIndex;
+      for (let level = 0; level < layers.length - 1; level++) {
+        const sibling = index % 2 === 0 ? index + 1 : index - 1;
+        if (sibling < layers[level].length) {
+          proof.push(layers[level][sibling]);
+        }
+        index = Math.floor(index / 2);
+      }
+      proofs.set(balance.address.toLowerCase(), proof);
+    });
+
+    return { root: layers[layers.length - 1][0], proofs };
+  }
+
+  /**
+   * Verify a proof off-chain the same way MerkleProof.verify does
+   */
+  verifyProof(address: string, cumulativeAmount: bigint, proof: string[], root: string): boolean {
+    const computed = proof.reduce((hash, sibling) => this.hashPair(hash, sibling), this.hashLeaf(address, cumulativeAmount));
+    return computed.toLowerCase() === root.toLowerCase();
+  }
+
+  /**
+   * Cumulative balance per wallet: every KILT ledger entry so far minus what the signature pool
+   * already paid, for users past their first-claim lock. A leaf never drops below the previous
+   * epoch's - whatever a leaf promised stays reserved for the Merkle pool.
+   *
+   * Only programs paying KILT count; a program with another reward token is paid from its own
+   * pool. Ledger entries from before programs existed were all KILT.
+   */
+  private async getCumulativeBalances(previousLeaves: Map<string, bigint>): Promise<MerkleBalance[]> {
+    const [{ kilt: kiltAddress }, programs, ledgerTotals] = await Promise.all([
+      blockchainConfigService.getTokenAddresses(),
+      incentiveProgramService.listPrograms({ includeInactive: true }),
+      this.storage.getWalletLedgerTotals()
+    ]);
+    const kiltProgramIds = new Set(programs
+      .filter(program => program.rewardTokenAddress.toLowerCase() === kiltAddress.toLowerCase())
+      .map(program => program.id));
+
+    const totals = new Map<string, { address: string; total: number; firstPositionMs: number }>();
+    for (const row of ledgerTotals) {
+      if (row.programId !== null && !kiltProgramIds.has(row.programId)) continue;
+      const existing = totals.get(row.address) || { address: row.address, total: 0, firstPositionMs: Infinity };
+      totals.set(row.address, {
+        address: row.address,
+        total: existing.total + row.total,
+        firstPositionMs: Math.min(existing.firstPositionMs, row.firstPositionAt?.getTime() ?? Infinity)
+      });
+    }
+
+    const settings = await this.storage.getProgramSettings();
+    const lockPeriodMs = (settings?.lockPeriod || 0) * 24 * 60 * 60 * 1000;
+    const now = Date.now();
+
+    const balances = new Map(previousLeaves);
+    for (const row of Array.from(totals.values())) {
+      if (!ethers.isAddress(row.address)) continue;
+      // First-claim lock applies until the user's first position is old enough
+      if (lockPeriodMs > 0 && Number.isFinite(row.firstPositionMs) && row.firstPositionMs + lockPeriodMs > now) continue;
+
+      const signatureClaimed = await smartContractService.getClaimedAmount(row.address);
+      if (!signatureClaimed.success) {
+        throw new Error(`Could not read signature-pool claims for ${row.address}: ${signatureClaimed.error}`);
+      }
+
+      const ledgerWei = ethers.parseUnits(row.total.toFixed(8), 18);
+      const signatureWei = ethers.parseUnits((signatureClaimed.claimedAmount || 0).toFixed(8), 18);
+      const available = ledgerWei > signatureWei ? ledgerWei - signatureWei : 0n;
+      const address = row.address.toLowerCase();
+      const previous = balances.get(address) ?? 0n;
+      if (available > previous) {
+        balances.set(address, available);
+      }
+    }
+
+    return Array.from(balances, ([address, cumulativeAmount]) => ({ address: ethers.getAddress(address), cumulativeAmount }))
+      .filter(balance => balance.cumulativeAmount > 0n);
+  }
+
+  /**
+   * Claim mode from blockchain config CLAIM_MODE - signatures unless set to 'merkle'
+   */
+  async getClaimMode(): Promise<ClaimMode> {
+    return (await blockchainConfigService.getConfig('CLAIM_MODE')) === 'merkle' ? 'merkle' : 'signature';
+  }
+
+  /**
+   * KILT reserved for a wallet's Merkle claims: its leaf in the latest epoch, built or published.
+   * Leaves never decrease, so this covers everything the Merkle pool has paid or can pay it.
+   */
+  async getReservedAmount(address: string): Promise<number> {
+    const [latest] = await db.select().from(merkleEpochs).orderBy(desc(merkleEpochs.epoch)).limit(1);
+    if (!latest) return 0;
+
+    const [leaf] = await db.select().from(merkleEpochLeaves)
+      .where(and(eq(merkleEpochLeaves.epoch, latest.epoch), eq(merkleEpochLeaves.userAddress, address.toLowerCase())));
+    return leaf ? Number(ethers.formatUnits(BigInt(leaf.cumulativeAmount), 18)) : 0;
+  }
+
+  /**
+   * KILT the signature pool may pay now: the ledger balance left after signature claims, minus
+   * what is reserved for Merkle claims. Zero in Merkle mode.
+   */
+  async getSignatureClaimable(address: string, ledgerClaimable: number): Promise<number> {
+    if ((await this.getClaimMode()) === 'merkle') return 0;
+    const reserved = await this.getReservedAmount(address);
+    return Math.max(0, ledgerClaimable - reserved);
+  }
+
+  /**
+   * Build the next epoch from the ledger and store its root and proofs (not yet published)
+   */
+  async buildEpoch(): Promise<MerkleEpoch> {
+    if ((await this.getClaimMode()) !== 'merkle') {
+      throw new Error("CLAIM_MODE is 'signature' - switch it to 'merkle' before building epochs");
+    }
+    // The leader's accrual job owns the ledger - refuse to build leaves from one that is behind
+    const behind = await unifiedRewardService.getUnaccruedDays();
+    if (behind.size > 0) {
+      const programs = Array.from(behind, ([programId, days]) => `program #${programId} (${days} closed days)`).join(', ');
+      throw new Error(`Reward ledger is behind for ${programs} - wait for the ${REWARD_LEDGER_JOB} job or trigger it`);
+    }
+
+    const [latest] = await db.select().from(merkleEpochs).orderBy(desc(merkleEpochs.epoch)).limit(1);
+    if (latest && latest.status !== 'published') {
+      throw new Error(`Epoch ${latest.epoch} has not been published yet`);
+    }
+
+    const previousLeaves = latest
+      ? await db.select().from(merkleEpochLeaves).where(eq(merkleEpochLeaves.epoch, latest.epoch))
+      : [];
+    const balances = await this.getCumulativeBalances(
+      new Map(previousLeaves.map(leaf => [leaf.userAddress, BigInt(leaf.cumulativeAmount)]))
+    );
+    const tree = this.buildTree(balances);
+
+    const lastAllocation = await this.storage.getLatestRewardAllocation();
+    const epoch = (latest?.epoch || 0) + 1;
+    const totalCumulative = balances.reduce((sum, balance) => sum + balance.cumulativeAmount, 0n);
+
+    const created = await db.transaction(async (tx) => {
+      const [row] = await tx.insert(merkleEpochs).values({
+        epoch,
+        merkleRoot: tree.root,
+        totalCumulative: totalCumulative.toString(),
+        leafCount: balances.length,
+        ledgerThroughDate: lastAllocation?.date ?? null,
+        status: 'built'
+      }).returning();
+
+      await tx.insert(merkleEpochLeaves).values(balances.map(balance => ({
+        epoch,
+        userAddress: balance.address.toLowerCase(),
+        cumulativeAmount: balance.cumulativeAmount.toString(),
+        proof: JSON.stringify(tree.proofs.get(balance.address.toLowerCase()))
+      })));
+
+      return row;
+    });
+
+    console.log(`🌳 MERKLE: Built epoch ${epoch} - ${balances.length} leaves, ${ethers.formatUnits(totalCumulative, 18)} KILT cumulative, root ${tree.root}`);
+    return created;
+  }
+
+  /**
+   * Publish a built epoch's root on-chain
+   */
+  async publishEpoch(epoch: number): Promise<MerkleEpoch> {
+    const [row] = await db.select().from(merkleEpochs).where(eq(merkleEpochs.epoch, epoch));
+    if (!row) {
+      throw new Error(`Epoch ${epoch} not found`);
+    }
+    if (row.status === 'published') {
+      throw new Error(`Epoch ${epoch} is already published`);
+    }
+    if (!MERKLE_PUBLISHER_PRIVATE_KEY) {
+      throw new Error('MERKLE_PUBLISHER_PRIVATE_KEY not configured');
+    }
+
+    const contractAddress = await this.getContractAddress();
+    if (!contractAddress) {
+      throw new Error('MERKLE_TREASURY_POOL_ADDRESS not configured');
+    }
+
+    const provider = new ethers.JsonRpcProvider(BASE_RPC_URL);
+    const wallet = new ethers.Wallet(MERKLE_PUBLISHER_PRIVATE_KEY, provider);
+    const contract = new ethers.Contract(contractAddress, MERKLE_POOL_ABI, wallet);
+
+    const onChain = await contract.getEpochInfo();
+    if (Number(onChain.epoch) + 1 !== epoch) {
+      throw new Error(`Contract is at epoch ${onChain.epoch}, cannot publish epoch ${epoch}`);
+    }
+
+    const tx = await contract.publishMerkleRoot(epoch, row.merkleRoot, BigInt(row.totalCumulative));
+    const receipt = await tx.wait();
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`Publish transaction ${tx.hash} failed`);
+    }
+
+    const [updated] = await db.update(merkleEpochs)
+      .set({ status: 'published', publishTxHash: tx.hash, publishedAt: new Date() })
+      .where(eq(merkleEpochs.epoch, epoch))
+      .returning();
+
+    console.log(`📢 MERKLE: Published epoch ${epoch} root ${row.merkleRoot} (tx ${tx.hash})`);
+    return updated;
+  }
+
+  async getEpochs(limit: number = 20): Promise<MerkleEpoch[]> {
+    return db.select().from(merkleEpochs).orderBy(desc(merkleEpochs.epoch)).limit(limit);
+  }
+
+  /**
+   * Proof for a wallet in the latest published epoch, or null when it has no leaf
+   */
+  async getProof(address: string): Promise<MerkleProofResponse | null> {
+    const [epoch] = await db.select().from(merkleEpochs)
+      .where(eq(merkleEpochs.status, 'published'))
+      .orderBy(desc(merkleEpochs.epoch))
+      .limit(1);
+    if (!epoch) return null;
+
+    const [leaf] = await db.select().from(merkleEpochLeaves)
+      .where(and(eq(merkleEpochLeaves.epoch, epoch.epoch), eq(merkleEpochLeaves.userAddress, address.toLowerCase())));
+    if (!leaf) return null;
+
+    const contractAddress = await this.getContractAddress();
+    const cumulativeAmount = BigInt(leaf.cumulativeAmount);
+    let claimedAmount: bigint | null = null;
+
+    if (contractAddress) {
+      try {
+        const provider = new ethers.JsonRpcProvider(BASE_RPC_URL);
+        const contract = new ethers.Contract(contractAddress, MERKLE_POOL_ABI, provider);
+        claimedAmount = await contract.claimedAmount(address);
+      } catch (error) {
+        console.warn(`⚠️ MERKLE: Could not read claimed amount for ${address}:`, error);
+      }
+    }
+
+    const claimable = claimedAmount === null ? null : (cumulativeAmount > claimedAmount ? cumulativeAmount - claimedAmount : 0n);
+
+    return {
+      address: address.toLowerCase(),
+      epoch: epoch.epoch,
+      merkleRoot: epoch.merkleRoot,
+      cumulativeAmount: cumulativeAmount.toString(),
+      cumulativeAmountKilt: Number(ethers.formatUnits(cumulativeAmount, 18)),
+      claimedAmount: claimedAmount === null ? null : claimedAmount.toString(),
+      claimableAmountKilt: claimable === null ? null : Number(ethers.formatUnits(claimable, 18)),
+      proof: JSON.parse(leaf.proof),
+      contractAddress,
+      ledgerThroughDate: epoch.ledgerThroughDate
+    };
+  }
+
+  private async getContractAddress(): Promise<string | null> {
+    const address = await blockchainConfigService.getConfig('MERKLE_TREASURY_POOL_ADDRESS');
+    return address && ethers.isAddress(address) ? address : null;
+  }
+}
+
+export const merkleDistributionService = new MerkleDistributionService(storage);
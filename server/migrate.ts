@@ -0,0 +1,61 @@
+/**
+ * MIGRATION CLI
+ *   npm run db:status            applied and pending migrations, schema drift
+ *   npm run db:migrate           apply pending migrations
+ *   npm run db:rollback [steps]  run down scripts for the latest migrations (default 1)
+ *   npm run db:baseline          record the migrations a database created with db:push already has
+ */
+
+import { migrationService } from './migration-service';
+
+async function main(command: string | undefined, arg: string | undefined): Promise<number> {
+  switch (command) {
+    case 'status': {
+      const { ok, status, drift } = await migrationService.checkSchema();
+      status.applied.forEach(migration => console.log(`✅ ${migration.tag}${migration.hasDownScript ? '' : ' (no down script)'}`));
+      status.pending.forEach(migration => console.log(`⏳ ${migration.tag} pending`));
+      status.problems.forEach(problem => console.log(`❌ ${problem}`));
+      drift.forEach(issue => console.log(`${issue.severity === 'error' ? '❌' : '⚠️'} ${issue.table}${issue.column ? `.${issue.column}` : ''} - ${issue.message}`));
+      console.log(ok ? '✅ Schema is up to date' : '❌ Schema is not ready - the server will refuse to start');
+      return ok ? 0 : 1;
+    }
+
+    case 'up': {
+      const applied = await migrationService.up();
+      console.log(applied.length > 0 ? `✅ Applied ${applied.length} migrations` : '✅ No pending migrations');
+      return 0;
+    }
+
+    case 'down': {
+      const steps = arg ? parseInt(arg, 10) : 1;
+      if (!Number.isInteger(steps) || steps < 1) {
+        console.error(`❌ Invalid step count: ${arg}`);
+        return 1;
+      }
+      const rolledBack = await migrationService.down(steps);
+      console.log(rolledBack.length > 0 ? `✅ Rolled back ${rolledBack.join(', ')}` : '✅ Nothing to roll back');
+      return 0;
+    }
+
+    case 'baseline': {
+      const result = await migrationService.baseline();
+      if (!result.success) {
+        console.error(`❌ ${result.error} - run \`npm run db:status\` for details`);
+        return 1;
+      }
+      console.log(`✅ Baselined ${result.baselined!.join(', ')}`);
+      return 0;
+    }
+
+    default:
+      console.error('Usage: tsx server/migrate.ts <status|up|down [steps]|baseline>');
+      return 1;
+  }
+}
+
+main(process.argv[2], process.argv[3])
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('❌ MIGRATIONS:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
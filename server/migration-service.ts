@@ -0,0 +1,374 @@
+/**
+ * MIGRATION SERVICE
+ * Versioned schema changes. `drizzle-kit generate` writes each up migration to migrations/ from
+ * shared/schema.ts; its rollback lives beside it in migrations/down/<tag>.sql. Applied migrations
+ * are recorded in drizzle.__drizzle_migrations, the table drizzle's migrator maintains.
+ *
+ * Startup refuses to run with pending migrations or when the live tables no longer match
+ * shared/schema.ts - fix the schema with a migration instead of patching it at runtime.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { is, sql } from 'drizzle-orm';
+import { readMigrationFiles, type MigrationMeta } from 'drizzle-orm/migrator';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import { PgTable, getTableConfig } from 'drizzle-orm/pg-core';
+import * as schema from '@shared/schema';
+import { db, pool } from './db';
+
+const MIGRATIONS_DIR = path.resolve(import.meta.dirname, '..', 'migrations');
+const DOWN_DIR = path.join(MIGRATIONS_DIR, 'down');
+const BREAKPOINT = '--> statement-breakpoint';
+// pg_advisory_lock key held while migrating, so instances starting together migrate one at a time
+const MIGRATION_LOCK_KEY = 724_001;
+
+// drizzle column types -> information_schema.columns.data_type
+const TYPE_ALIASES: Record<string, string> = {
+  serial: 'integer',
+  smallserial: 'smallint',
+  bigserial: 'bigint',
+  varchar: 'character varying',
+  char: 'character',
+  decimal: 'numeric',
+  timestamp: 'timestamp without time zone',
+  time: 'time without time zone'
+};
+
+export interface MigrationInfo {
+  tag: string;
+  createdAt: number; // Journal timestamp - the key drizzle records applied migrations under
+  hasDownScript: boolean;
+  appliedAt: Date | null;
+}
+
+export interface MigrationStatus {
+  applied: MigrationInfo[];
+  pending: MigrationInfo[];
+  problems: string[]; // Applied migrations edited afterwards or missing from migrations/
+}
+
+export interface SchemaDriftIssue {
+  table: string;
+  column?: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface SchemaCheckResult {
+  ok: boolean;
+  status: MigrationStatus;
+  drift: SchemaDriftIssue[];
+}
+
+interface JournalEntry {
+  idx: number;
+  when: number;
+  tag: string;
+}
+
+// Table shape to compare the live database against - from shared/schema.ts or a migration snapshot
+interface DeclaredTable {
+  name: string;
+  columns: Array<{ name: string; type: string; notNull: boolean }>;
+}
+
+interface SnapshotFile {
+  tables: Record<string, { name: string; schema: string; columns: Record<string, { name: string; type: string; notNull: boolean }> }>;
+}
+
+interface AppliedRow {
+  hash: string;
+  created_at: string;
+  [key: string]: unknown;
+}
+
+function normalizeType(sqlType: string): string {
+  const type = sqlType.toLowerCase().replace(/\(.*?\)/g, '').replace(/\s+/g, ' ').trim();
+  if (type.endsWith('[]')) return 'array';
+  return TYPE_ALIASES[type] ?? type;
+}
+
+class MigrationService {
+
+  private readJournal(): JournalEntry[] {
+    const journalPath = path.join(MIGRATIONS_DIR, 'meta', '_journal.json');
+    if (!fs.existsSync(journalPath)) return [];
+    return JSON.parse(fs.readFileSync(journalPath, 'utf8')).entries;
+  }
+
+  private readMigrations(): Array<JournalEntry & { meta: MigrationMeta }> {
+    const journal = this.readJournal();
+    if (journal.length === 0) return [];
+    const metas = readMigrationFiles({ migrationsFolder: MIGRATIONS_DIR });
+    return journal.map((entry, index) => ({ ...entry, meta: metas[index] }));
+  }
+
+  /**
+   * Tables as drizzle-kit recorded them right after a migration - null for hand-written migrations
+   */
+  private readSnapshot(entry: JournalEntry): DeclaredTable[] | null {
+    const snapshotPath = path.join(MIGRATIONS_DIR, 'meta', `${String(entry.idx).padStart(4, '0')}_snapshot.json`);
+    if (!fs.existsSync(snapshotPath)) return null;
+    const snapshot: SnapshotFile = JSON.parse(fs.readFileSync(snapshotPath, 'utf8'));
+    return Object.values(snapshot.tables)
+      .filter(table => table.schema === '' || table.schema === 'public')
+      .map(table => ({ name: table.name, columns: Object.values(table.columns) }));
+  }
+
+  private getDeclaredTables(): DeclaredTable[] {
+    return Object.values(schema as Record<string, unknown>)
+      .filter((value): value is PgTable => is(value, PgTable))
+      .map(table => {
+        const config = getTableConfig(table);
+        return {
+          name: config.name,
+          columns: config.columns.map(column => ({ name: column.name, type: column.getSQLType(), notNull: column.notNull }))
+        };
+      });
+  }
+
+  private async getAppliedRows(): Promise<AppliedRow[]> {
+    const exists = await db.execute<{ table: string | null }>(sql`SELECT to_regclass('drizzle.__drizzle_migrations')::text AS table`);
+    if (!exists.rows[0]?.table) return [];
+    const result = await db.execute<AppliedRow>(sql`SELECT hash, created_at FROM drizzle.__drizzle_migrations ORDER BY created_at`);
+    return result.rows;
+  }
+
+  async getStatus(): Promise<MigrationStatus> {
+    const migrations = this.readMigrations();
+    const applied = await this.getAppliedRows();
+    const appliedByTime = new Map(applied.map(row => [Number(row.created_at), row]));
+    const problems: string[] = [];
+
+    const infos = migrations.map(migration => {
+      const row = appliedByTime.get(migration.when);
+      if (row && row.hash !== migration.meta.hash) {
+        problems.push(`Migration ${migration.tag} was edited after it was applied`);
+      }
+      return {
+        tag: migration.tag,
+        createdAt: migration.when,
+        hasDownScript: fs.existsSync(path.join(DOWN_DIR, `${migration.tag}.sql`)),
+        appliedAt: row ? new Date(Number(row.created_at)) : null
+      };
+    });
+
+    const known = new Set(migrations.map(migration => migration.when));
+    for (const row of applied) {
+      if (!known.has(Number(row.created_at))) {
+        problems.push(`Database has a migration (${row.created_at}) that is not in migrations/ - is this build older than the database?`);
+      }
+    }
+
+    return {
+      applied: infos.filter(info => info.appliedAt),
+      pending: infos.filter(info => !info.appliedAt),
+      problems
+    };
+  }
+
+  /**
+   * Apply every pending migration in order
+   */
+  async up(): Promise<string[]> {
+    const lock = await pool.connect();
+    try {
+      await lock.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+      // Read the status under the lock - another instance may have just applied them
+      const { pending } = await this.getStatus();
+      if (pending.length === 0) return [];
+
+      await migrate(db, { migrationsFolder: MIGRATIONS_DIR });
+      pending.forEach(migration => console.log(`⬆️ MIGRATIONS: Applied ${migration.tag}`));
+      return pending.map(migration => migration.tag);
+    } finally {
+      await lock.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => {});
+      lock.release();
+    }
+  }
+
+  /**
+   * Roll back the latest `steps` applied migrations with their down scripts
+   */
+  async down(steps = 1): Promise<string[]> {
+    const { applied } = await this.getStatus();
+    const targets = applied.slice(-steps).reverse();
+
+    const missing = targets.filter(migration => !migration.hasDownScript);
+    if (missing.length > 0) {
+      throw new Error(`No down script for ${missing.map(migration => migration.tag).join(', ')} - add migrations/down/<tag>.sql`);
+    }
+
+    const rolledBack: string[] = [];
+    for (const migration of targets) {
+      const statements = fs.readFileSync(path.join(DOWN_DIR, `${migration.tag}.sql`), 'utf8')
+        .split(BREAKPOINT)
+        .map(statement => statement.trim())
+        .filter(Boolean);
+
+      await db.transaction(async (tx) => {
+        for (const statement of statements) {
+          await tx.execute(sql.raw(statement));
+        }
+        await tx.execute(sql`DELETE FROM drizzle.__drizzle_migrations WHERE created_at = ${migration.createdAt}`);
+      });
+
+      console.log(`⬇️ MIGRATIONS: Rolled back ${migration.tag}`);
+      rolledBack.push(migration.tag);
+    }
+    return rolledBack;
+  }
+
+  /**
+   * Record migrations as applied without running them - for databases created with `drizzle-kit push`
+   * before migrations existed. Finds the newest migration whose snapshot matches the live tables and
+   * records it and everything before it, so `up` applies only the changes the database is missing.
+   */
+  async baseline(): Promise<{ success: boolean; error?: string; baselined?: string[] }> {
+    const status = await this.getStatus();
+    if (status.applied.length > 0) {
+      return { success: false, error: 'Database already has applied migrations' };
+    }
+
+    const migrations = this.readMigrations();
+    const live = await this.readLiveColumns();
+    let matchIndex = -1;
+    for (let index = migrations.length - 1; index >= 0; index--) {
+      const tables = this.readSnapshot(migrations[index]);
+      if (tables && !this.compareTables(tables, live).some(issue => issue.severity === 'error')) {
+        matchIndex = index;
+        break;
+      }
+    }
+    if (matchIndex < 0) {
+      return { success: false, error: 'Schema does not match any migration snapshot - cannot baseline' };
+    }
+
+    const baselined = migrations.slice(0, matchIndex + 1);
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`CREATE SCHEMA IF NOT EXISTS drizzle`);
+      await tx.execute(sql`CREATE TABLE IF NOT EXISTS drizzle.__drizzle_migrations (id SERIAL PRIMARY KEY, hash text NOT NULL, created_at bigint)`);
+      for (const migration of baselined) {
+        await tx.execute(sql`INSERT INTO drizzle.__drizzle_migrations (hash, created_at) VALUES (${migration.meta.hash}, ${migration.when})`);
+      }
+    });
+
+    console.log(`📌 MIGRATIONS: Baselined ${baselined.length} of ${migrations.length} migrations`);
+    return { success: true, baselined: baselined.map(migration => migration.tag) };
+  }
+
+  private async readLiveColumns(): Promise<Map<string, Map<string, { type: string; nullable: boolean }>>> {
+    const result = await db.execute<{ table_name: string; column_name: string; data_type: string; udt_name: string; is_nullable: string }>(sql`
+      SELECT table_name, column_name, data_type, udt_name, is_nullable
+      FROM information_schema.columns
+      WHERE table_schema = 'public'
+    `);
+
+    const live = new Map<string, Map<string, { type: string; nullable: boolean }>>();
+    for (const row of result.rows) {
+      const columns = live.get(row.table_name) ?? new Map();
+      const type = row.data_type === 'USER-DEFINED' ? row.udt_name : row.data_type.toLowerCase();
+      columns.set(row.column_name, { type, nullable: row.is_nullable === 'YES' });
+      live.set(row.table_name, columns);
+    }
+    return live;
+  }
+
+  /**
+   * Missing tables/columns and type or nullability changes are errors; extra ones are warnings
+   */
+  private compareTables(
+    declared: DeclaredTable[],
+    liveColumns: Map<string, Map<string, { type: string; nullable: boolean }>>
+  ): SchemaDriftIssue[] {
+    const live = new Map(Array.from(liveColumns, ([table, columns]) => [table, new Map(columns)]));
+    const issues: SchemaDriftIssue[] = [];
+
+    for (const table of declared) {
+      const tableColumns = live.get(table.name);
+      if (!tableColumns) {
+        issues.push({ table: table.name, message: 'Table is missing', severity: 'error' });
+        continue;
+      }
+
+      for (const column of table.columns) {
+        const liveColumn = tableColumns.get(column.name);
+        if (!liveColumn) {
+          issues.push({ table: table.name, column: column.name, message: 'Column is missing', severity: 'error' });
+          continue;
+        }
+        const expectedType = normalizeType(column.type);
+        if (liveColumn.type !== expectedType) {
+          issues.push({ table: table.name, column: column.name, message: `Type is ${liveColumn.type}, schema declares ${expectedType}`, severity: 'error' });
+        }
+        if (liveColumn.nullable === column.notNull) {
+          issues.push({ table: table.name, column: column.name, message: column.notNull ? 'Column allows NULL, schema declares NOT NULL' : 'Column is NOT NULL, schema allows NULL', severity: 'error' });
+        }
+        tableColumns.delete(column.name);
+      }
+
+      for (const extra of Array.from(tableColumns.keys())) {
+        issues.push({ table: table.name, column: extra, message: 'Column is not declared in shared/schema.ts', severity: 'warning' });
+      }
+      live.delete(table.name);
+    }
+
+    for (const extra of Array.from(live.keys())) {
+      issues.push({ table: extra, message: 'Table is not declared in shared/schema.ts', severity: 'warning' });
+    }
+    return issues;
+  }
+
+  /**
+   * Differences between the live public schema and the tables declared in shared/schema.ts
+   */
+  async detectDrift(): Promise<SchemaDriftIssue[]> {
+    return this.compareTables(this.getDeclaredTables(), await this.readLiveColumns());
+  }
+
+  /**
+   * Startup gate - ok only with no pending migrations, no migration problems and no drift errors
+   */
+  async checkSchema(): Promise<SchemaCheckResult> {
+    const status = await this.getStatus();
+    const drift = await this.detectDrift();
+    const ok = status.pending.length === 0
+      && status.problems.length === 0
+      && !drift.some(issue => issue.severity === 'error');
+    return { ok, status, drift };
+  }
+}
+
+export const migrationService = new MigrationService();
+
+/**
+ * Exit the process when the database is not at the schema this build expects
+ */
+export async function assertSchemaUpToDate(): Promise<void> {
+  let result: SchemaCheckResult;
+  try {
+    result = await migrationService.checkSchema();
+  } catch (error) {
+    console.error('❌ SCHEMA CHECK: Could not read migration state:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  for (const issue of result.drift.filter(issue => issue.severity === 'warning')) {
+    console.warn(`⚠️ SCHEMA DRIFT: ${issue.table}${issue.column ? `.${issue.column}` : ''} - ${issue.message}`);
+  }
+  if (result.ok) {
+    console.log(`✅ SCHEMA CHECK: ${result.status.applied.length} migrations applied, schema matches`);
+    return;
+  }
+
+  if (result.status.pending.length > 0) {
+    console.error(`❌ SCHEMA CHECK: Pending migrations ${result.status.pending.map(migration => migration.tag).join(', ')} - run \`npm run db:migrate\``);
+  }
+  result.status.problems.forEach(problem => console.error(`❌ SCHEMA CHECK: ${problem}`));
+  for (const issue of result.drift.filter(issue => issue.severity === 'error')) {
+    console.error(`❌ SCHEMA DRIFT: ${issue.table}${issue.column ? `.${issue.column}` : ''} - ${issue.message}`);
+  }
+  console.error('❌ SCHEMA CHECK: Refusing to start - see docs/database-migrations.md');
+  process.exit(1);
+}
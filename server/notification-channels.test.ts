@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import crypto from "crypto";
+import http from "http";
+import net from "net";
+import type { AddressInfo } from "net";
+import { NOTIFICATION_CHANNELS, WebhookChannel, isPublicAddress, type NotificationMessage } from "./notification-channels";
+
+const MESSAGE: NotificationMessage = {
+  eventType: "out_of_range",
+  subject: "Position #42 is out of range",
+  text: "Your position stopped earning.\n.A line starting with a dot",
+  payload: { tokenId: "42" }
+};
+
+interface ReceivedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// Local HTTP stand-in that records requests and answers with the configured status
+async function startHttpServer(respond: (request: ReceivedRequest) => { status: number; body?: string; headers?: Record<string, string> }) {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => { body += chunk; });
+    req.on("end", () => {
+      const request = { url: req.url || "", headers: req.headers, body };
+      received.push(request);
+      const reply = respond(request);
+      res.writeHead(reply.status, { "Content-Type": "application/json", ...reply.headers });
+      res.end(reply.body ?? "");
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    received,
+    url: `http://127.0.0.1:${port}`,
+    port,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+// Local SMTP stand-in - accepts one message per connection and records the DATA section
+async function startSmtpServer() {
+  const messages: Array<{ from: string; to: string; data: string }> = [];
+  const server = net.createServer(socket => {
+    let buffer = "";
+    let inData = false;
+    let from = "";
+    let to = "";
+    socket.write("220 localhost ESMTP stand-in\r\n");
+    socket.on("data", chunk => {
+      buffer += chunk.toString("utf8");
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end < 0) return;
+          messages.push({ from, to, data: buffer.slice(0, end) });
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write("250 Queued\r\n");
+          continue;
+        }
+        const lineEnd = buffer.indexOf("\r\n");
+        if (lineEnd < 0) return;
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        if (/^EHLO/i.test(line)) socket.write("250-localhost\r\n250 8BITMIME\r\n");
+        else if (/^MAIL FROM:/i.test(line)) { from = line.slice(10); socket.write("250 OK\r\n"); }
+        else if (/^RCPT TO:/i.test(line)) { to = line.slice(8); socket.write("250 OK\r\n"); }
+        else if (/^DATA/i.test(line)) { inData = true; socket.write("354 End data with <CR><LF>.<CR><LF>\r\n"); }
+        else if (/^QUIT/i.test(line)) { socket.end("221 Bye\r\n"); }
+        else socket.write("502 Not implemented\r\n");
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { messages, port, close: () => new Promise<void>(resolve => server.close(() => resolve())) };
+}
+
+describe("isPublicAddress", () => {
+  it("rejects loopback, private, link-local and mapped addresses", () => {
+    for (const address of ["127.0.0.1", "10.0.0.8", "172.16.5.4", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "fd12::1", "fe80::1", "::ffff:7f00:1"]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it("accepts public addresses", () => {
+    for (const address of ["8.8.8.8", "1.1.1.1", "2606:4700::1111", "::ffff:808:808"]) {
+      expect(isPublicAddress(address), address).toBe(true);
+    }
+  });
+});
+
+describe("WebhookChannel", () => {
+  let server: Awaited<ReturnType<typeof startHttpServer>>;
+  let status: number;
+
+  beforeEach(async () => {
+    status = 200;
+    server = await startHttpServer(() => status === 302
+      ? { status, headers: { Location: "http://169.254.169.254/latest/meta-data" } }
+      : { status });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("posts the signed event to a local stand-in", async () => {
+    await new WebhookChannel(true).send(MESSAGE, { target: `${server.url}/hook`, secret: "shh" });
+
+    expect(server.received).toHaveLength(1);
+    const [request] = server.received;
+    expect(request.url).toBe("/hook");
+    expect(JSON.parse(request.body)).toEqual({ event: "out_of_range", subject: MESSAGE.subject, text: MESSAGE.text, data: { tokenId: "42" } });
+    expect(request.headers["x-notification-event"]).toBe("out_of_range");
+
+    const timestamp = request.headers["x-notification-timestamp"];
+    const expected = crypto.createHmac("sha256", "shh").update(`${timestamp}.${request.body}`).digest("hex");
+    expect(request.headers["x-notification-signature"]).toBe(`sha256=${expected}`);
+  });
+
+  it("fails on non-2xx responses and does not follow redirects", async () => {
+    status = 500;
+    await expect(new WebhookChannel(true).send(MESSAGE, { target: server.url, secret: null })).rejects.toThrow("Webhook responded 500");
+
+    status = 302;
+    await expect(new WebhookChannel(true).send(MESSAGE, { target: server.url, secret: null })).rejects.toThrow("Webhook responded 302");
+    expect(server.received).toHaveLength(2);
+  });
+
+  it("rejects non-public targets when subscribing", async () => {
+    const channel = new WebhookChannel(false);
+    expect(await channel.validateTarget("ftp://example.com/hook")).toBe("Webhook URL must use http or https");
+    expect(await channel.validateTarget(`${server.url}/hook`)).toBe("Webhook URL must resolve to a public address");
+    expect(await channel.validateTarget(`http://localhost:${server.port}/hook`)).toBe("Webhook URL must resolve to a public address");
+    expect(await channel.validateTarget("http://[::1]/hook")).toBe("Webhook URL must resolve to a public address");
+    expect(await channel.validateTarget("http://8.8.8.8/hook")).toBeNull();
+    expect(await new WebhookChannel(true).validateTarget(`${server.url}/hook`)).toBeNull();
+  });
+
+  it("refuses to connect to non-public addresses when delivering", async () => {
+    const channel = new WebhookChannel(false);
+    await expect(channel.send(MESSAGE, { target: `${server.url}/hook`, secret: null })).rejects.toThrow("is not public");
+    await expect(channel.send(MESSAGE, { target: `http://localhost:${server.port}/hook`, secret: null })).rejects.toThrow("non-public address");
+    expect(server.received).toHaveLength(0);
+  });
+});
+
+describe("TelegramChannel", () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it("calls sendMessage on a local Bot API stand-in", async () => {
+    const server = await startHttpServer(() => ({ status: 200, body: JSON.stringify({ ok: true }) }));
+    process.env.TELEGRAM_BOT_TOKEN = "123:abc";
+    process.env.TELEGRAM_API_URL = server.url;
+    try {
+      await NOTIFICATION_CHANNELS.telegram.send(MESSAGE, { target: "-1001234", secret: null });
+      expect(server.received[0].url).toBe("/bot123:abc/sendMessage");
+      expect(JSON.parse(server.received[0].body)).toMatchObject({ chat_id: "-1001234", text: `${MESSAGE.subject}\n\n${MESSAGE.text}` });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("surfaces Bot API errors", async () => {
+    const server = await startHttpServer(() => ({ status: 400, body: JSON.stringify({ ok: false, description: "chat not found" }) }));
+    process.env.TELEGRAM_BOT_TOKEN = "123:abc";
+    process.env.TELEGRAM_API_URL = server.url;
+    try {
+      await expect(NOTIFICATION_CHANNELS.telegram.send(MESSAGE, { target: "-1001234", secret: null })).rejects.toThrow("chat not found");
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("SmtpEmailChannel", () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it("delivers a dot-stuffed message to a local SMTP stand-in", async () => {
+    const server = await startSmtpServer();
+    process.env.SMTP_HOST = "127.0.0.1";
+    process.env.SMTP_PORT = String(server.port);
+    process.env.SMTP_FROM = "alerts@kilt.test";
+    delete process.env.SMTP_SECURE;
+    delete process.env.SMTP_USER;
+    try {
+      await NOTIFICATION_CHANNELS.email.send(MESSAGE, { target: "lp@example.com", secret: null });
+      expect(server.messages).toHaveLength(1);
+      const [message] = server.messages;
+      expect(message.from).toBe("<alerts@kilt.test>");
+      expect(message.to).toBe("<lp@example.com>");
+      expect(message.data).toContain(`Subject: ${MESSAGE.subject}`);
+      expect(message.data).toContain("\r\n..A line starting with a dot");
+    } finally {
+      await server.close();
+    }
+  });
+});
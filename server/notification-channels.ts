@@ -0,0 +1,335 @@
+/**
+ * NOTIFICATION CHANNELS
+ * Delivery transports for the notification service. Each channel takes a rendered message and
+ * one subscription target and throws when the destination does not accept it, so the service
+ * can retry. Register a new transport by adding it to NOTIFICATION_CHANNELS.
+ *
+ * Every remote endpoint can be pointed at a local stand-in:
+ * - webhook: the subscription's own URL (e.g. http://127.0.0.1:8787/hook)
+ * - email: SMTP_HOST / SMTP_PORT (e.g. MailHog or smtp4dev on 127.0.0.1:1025, SMTP_SECURE unset)
+ * - telegram: TELEGRAM_API_URL (e.g. http://127.0.0.1:8788) in place of https://api.telegram.org
+ *
+ * In production webhooks may only reach public addresses: loopback, private, link-local and other
+ * reserved ranges are rejected when the subscription is made and again on every connection.
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import tls from 'tls';
+import type { NotificationChannelType } from '@shared/notifications';
+
+export interface NotificationMessage {
+  eventType: string;
+  subject: string;
+  text: string;
+  payload: Record<string, unknown>; // Structured event - sent as-is to webhooks
+}
+
+export interface NotificationTarget {
+  target: string;
+  secret: string | null;
+}
+
+export interface NotificationChannel {
+  /** Rejects targets the channel could never deliver to, before a subscription is stored */
+  validateTarget(target: string): Promise<string | null>;
+  send(message: NotificationMessage, destination: NotificationTarget): Promise<void>;
+}
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// Addresses a production webhook must never reach
+const NON_PUBLIC_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+// BlockList applies the IPv4 rules to IPv4-mapped addresses (::ffff:127.0.0.1) as well; NAT64 is refused outright
+for (const [network, prefix] of [['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * JSON POST signed with the subscription secret: X-Notification-Signature is
+ * sha256=<hex HMAC of "<timestamp>.<body>">, with the timestamp in X-Notification-Timestamp.
+ * Redirects are not followed.
+ */
+export class WebhookChannel implements NotificationChannel {
+  constructor(private readonly allowNonPublicTargets: boolean = process.env.NODE_ENV !== 'production') {}
+
+  async validateTarget(target: string): Promise<string | null> {
+    let url: URL;
+    try {
+      url = new URL(target);
+    } catch {
+      return 'Invalid webhook URL';
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'Webhook URL must use http or https';
+    if (url.protocol === 'http:' && process.env.NODE_ENV === 'production') return 'Webhook URL must use https';
+    if (this.allowNonPublicTargets) return null;
+
+    try {
+      const addresses = await this.resolve(url.hostname);
+      return addresses.every(isPublicAddress) ? null : 'Webhook URL must resolve to a public address';
+    } catch {
+      return 'Webhook host could not be resolved';
+    }
+  }
+
+  async send(message: NotificationMessage, destination: NotificationTarget): Promise<void> {
+    const body = JSON.stringify({ event: message.eventType, subject: message.subject, text: message.text, data: message.payload });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(body).toString(),
+      'X-Notification-Event': message.eventType,
+      'X-Notification-Timestamp': timestamp
+    };
+    if (destination.secret) {
+      const signature = crypto.createHmac('sha256', destination.secret).update(`${timestamp}.${body}`).digest('hex');
+      headers['X-Notification-Signature'] = `sha256=${signature}`;
+    }
+
+    const url = new URL(destination.target);
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    // Literal IPs skip DNS, so they are checked here; names are checked by the lookup on connect
+    if (!this.allowNonPublicTargets && net.isIP(hostname) && !isPublicAddress(hostname)) {
+      throw new Error(`Webhook address ${hostname} is not public`);
+    }
+
+    const status = await new Promise<number>((resolve, reject) => {
+      const request = (url.protocol === 'https:' ? https : http).request(url, {
+        method: 'POST',
+        headers,
+        timeout: DELIVERY_TIMEOUT_MS,
+        lookup: this.allowNonPublicTargets ? undefined : this.publicLookup
+      }, response => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      });
+      request.on('timeout', () => request.destroy(new Error('Webhook timed out')));
+      request.on('error', reject);
+      request.end(body);
+    });
+    if (status < 200 || status >= 300) {
+      throw new Error(`Webhook responded ${status}`);
+    }
+  }
+
+  private async resolve(hostname: string): Promise<string[]> {
+    const host = hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host)) return [host];
+    const addresses = await dns.promises.lookup(host, { all: true });
+    return addresses.map(entry => entry.address);
+  }
+
+  // Resolves like dns.lookup but fails the connection when any address is not public, so a
+  // name cannot be re-pointed at an internal address after the subscription was checked
+  private readonly publicLookup: net.LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, '', 0);
+      const blocked = addresses.find(entry => !isPublicAddress(entry.address));
+      if (blocked || addresses.length === 0) {
+        return callback(new Error(`Webhook host ${hostname} resolves to a non-public address`), '', 0);
+      }
+      if (options.all) {
+        (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+/**
+ * Plain-text email over SMTP. Supports implicit TLS (SMTP_SECURE=true), STARTTLS when the
+ * server offers it, and AUTH PLAIN when SMTP_USER is set.
+ */
+class SmtpEmailChannel implements NotificationChannel {
+  async validateTarget(target: string): Promise<string | null> {
+    return /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(target) ? null : 'Invalid email address';
+  }
+
+  async send(message: NotificationMessage, destination: NotificationTarget): Promise<void> {
+    const host = process.env.SMTP_HOST;
+    if (!host) throw new Error('SMTP_HOST is not configured');
+    const secure = process.env.SMTP_SECURE === 'true';
+    const port = parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10);
+    const from = process.env.SMTP_FROM || 'notifications@kilt.io';
+
+    const session = await SmtpSession.connect(host, port, secure);
+    try {
+      await session.expect(220);
+      const features = await session.command(`EHLO ${process.env.SMTP_HELO_NAME || 'localhost'}`, 250);
+      if (!secure && /STARTTLS/i.test(features) && process.env.SMTP_STARTTLS !== 'false') {
+        await session.command('STARTTLS', 220);
+        await session.upgrade(host);
+        await session.command(`EHLO ${process.env.SMTP_HELO_NAME || 'localhost'}`, 250);
+      }
+      if (process.env.SMTP_USER) {
+        const credentials = Buffer.from(`\u0000${process.env.SMTP_USER}\u0000${process.env.SMTP_PASS || ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+      await session.command(`MAIL FROM:<${from}>`, 250);
+      await session.command(`RCPT TO:<${destination.target}>`, 250);
+      await session.command('DATA', 354);
+
+      const body = [
+        `From: KILT Liquidity Portal <${from}>`,
+        `To: <${destination.target}>`,
+        `Subject: ${message.subject.replace(/[\r\n]+/g, ' ')}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${crypto.randomUUID()}@${from.split('@')[1] || 'localhost'}>`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: 8bit',
+        '',
+        // Dot-stuff lines that start with '.' so they are not read as the end of DATA
+        ...message.text.split(/\r?\n/).map(line => line.startsWith('.') ? `.${line}` : line)
+      ].join('\r\n');
+      await session.command(`${body}\r\n.`, 250);
+      await session.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+}
+
+/**
+ * Minimal SMTP conversation over one socket - reads multi-line replies and checks reply codes
+ */
+class SmtpSession {
+  private buffer = '';
+  private waiters: Array<() => void> = [];
+  private error: Error | null = null;
+
+  private constructor(private socket: net.Socket | tls.TLSSocket) {
+    this.attach();
+  }
+
+  static connect(host: string, port: number, secure: boolean): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const onError = (error: Error) => reject(error);
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(new SmtpSession(socket)))
+        : net.connect({ host, port }, () => resolve(new SmtpSession(socket)));
+      socket.setTimeout(DELIVERY_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+      socket.once('error', onError);
+    });
+  }
+
+  private attach() {
+    // Decoded per chunk rather than with setEncoding, which would break a later STARTTLS upgrade
+    this.socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8');
+      this.wake();
+    });
+    this.socket.on('error', (error: Error) => {
+      this.error = error;
+      this.wake();
+    });
+    this.socket.on('close', () => {
+      this.error = this.error || new Error('SMTP connection closed');
+      this.wake();
+    });
+  }
+
+  private wake() {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(wake => wake());
+  }
+
+  /** Switch the connection to TLS after a 220 reply to STARTTLS */
+  upgrade(host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket.removeAllListeners('data');
+      this.socket.removeAllListeners('error');
+      this.socket.removeAllListeners('close');
+      const secured = tls.connect({ socket: this.socket, servername: host }, () => {
+        this.socket = secured;
+        this.buffer = '';
+        this.attach();
+        resolve();
+      });
+      secured.once('error', reject);
+    });
+  }
+
+  /** Read one complete reply - the last line has a space after the code */
+  async expect(code: number): Promise<string> {
+    for (;;) {
+      // The last element is an incomplete line (or empty) until its CRLF arrives
+      const lines = this.buffer.split('\r\n');
+      const endIndex = lines.slice(0, -1).findIndex(line => /^\d{3}( |$)/.test(line));
+      if (endIndex >= 0) {
+        const reply = lines.slice(0, endIndex + 1).join('\n');
+        this.buffer = lines.slice(endIndex + 1).join('\r\n');
+        const replyCode = parseInt(lines[endIndex].slice(0, 3), 10);
+        if (replyCode !== code) {
+          throw new Error(`SMTP expected ${code}, got: ${reply.replace(/\n/g, ' | ')}`);
+        }
+        return reply;
+      }
+      if (this.error) throw this.error;
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+  }
+
+  async command(line: string, expectedCode: number): Promise<string> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expectedCode);
+  }
+
+  close() {
+    this.socket.end();
+    this.socket.destroy();
+  }
+}
+
+/**
+ * Bot API sendMessage - the target is the chat ID the user got from the bot's /start reply
+ */
+class TelegramChannel implements NotificationChannel {
+  async validateTarget(target: string): Promise<string | null> {
+    return /^-?\d+$/.test(target) || /^@[A-Za-z0-9_]{5,}$/.test(target) ? null : 'Telegram target must be a chat ID or @channel';
+  }
+
+  async send(message: NotificationMessage, destination: NotificationTarget): Promise<void> {
+    const token = process.env.TELEGRAM_BOT_TOKEN;
+    if (!token) throw new Error('TELEGRAM_BOT_TOKEN is not configured');
+    const apiUrl = (process.env.TELEGRAM_API_URL || 'https://api.telegram.org').replace(/\/$/, '');
+
+    const response = await fetch(`${apiUrl}/bot${token}/sendMessage`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        chat_id: destination.target,
+        text: `${message.subject}\n\n${message.text}`,
+        disable_web_page_preview: true
+      }),
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    });
+    const result = await response.json().catch(() => null) as { ok?: boolean; description?: string } | null;
+    if (!response.ok || !result?.ok) {
+      throw new Error(`Telegram sendMessage failed: ${result?.description || response.status}`);
+    }
+  }
+}
+
+export const NOTIFICATION_CHANNELS: Record<NotificationChannelType, NotificationChannel> = {
+  webhook: new WebhookChannel(),
+  email: new SmtpEmailChannel(),
+  telegram: new TelegramChannel()
+};
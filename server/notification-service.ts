@@ -0,0 +1,628 @@
+/**
+ * NOTIFICATION SERVICE
+ * Per-wallet notification subscriptions and the triggers that feed them. Each run evaluates the
+ * triggers for every wallet with an active subscription and writes matching notifications to
+ * notification_deliveries; the (subscription, dedupe key) constraint makes each occurrence fire
+ * once. Pending deliveries are then sent through their channel and retried with backoff.
+ *
+ * Triggers:
+ * - out_of_range: latest pool tick sample is outside a registered position's range (once per
+ *   out-of-range episode, keyed by the first sample of the episode)
+ * - rewards_claimable: ClaimBasedRewards.checkClaimability reports the lock has ended
+ * - position_burned / position_transferred: indexed burns and recorded transfers
+ * - low_treasury: treasury contract balance below NOTIFY_LOW_TREASURY_KILT (once per day)
+ *
+ * Changes to a wallet's subscriptions must be signed by that wallet. Runs are a scheduler job on
+ * the leader instance, so a delivery is never sent from two instances at once.
+ */
+
+import crypto from 'crypto';
+import { db } from './db';
+import {
+  liquidityEvents,
+  lpPositions,
+  notificationDeliveries,
+  notificationSubscriptions,
+  positionTransfers,
+  users,
+  type LpPosition,
+  type NotificationDelivery,
+  type NotificationSubscription
+} from '@shared/schema';
+import { and, asc, desc, eq, inArray, lte, sql } from 'drizzle-orm';
+import { getAddress, type Hex } from 'viem';
+import {
+  NOTIFICATION_SIGNATURE_MAX_AGE_MS,
+  buildNotificationSettingsMessage,
+  type NotificationChannelType,
+  type NotificationEventType,
+  type NotificationSettingsAction
+} from '@shared/notifications';
+import { NOTIFICATION_CHANNELS, type NotificationMessage } from './notification-channels';
+import { adminAuthService } from './admin-auth-service';
+import { poolTickSampler } from './pool-tick-sampler';
+import { storage } from './storage';
+import { claimBasedRewards } from './claim-based-rewards';
+import { smartContractService } from './smart-contract-service';
+import { jobScheduler } from './job-scheduler';
+
+export const NOTIFICATION_JOB = 'notifications';
+
+export interface NotificationEvent {
+  type: NotificationEventType | 'test';
+  dedupeKey: string;
+  subject: string;
+  text: string;
+  data: Record<string, unknown>;
+}
+
+// Subscription as returned by the API - the target is masked and the secret never leaves the server
+export interface PublicNotificationSubscription {
+  id: number;
+  walletAddress: string;
+  channel: string;
+  target: string;
+  eventTypes: NotificationEventType[];
+  isActive: boolean;
+  lastDeliveredAt: Date | null;
+  createdAt: Date;
+}
+
+export type SubscriptionResult =
+  | { success: true; subscription: PublicNotificationSubscription; secret?: string }
+  | { success: false; error: string; code: string };
+
+interface SignedRequest {
+  walletAddress: string;
+  issuedAt: string;
+  signature: Hex;
+}
+
+const MAX_SUBSCRIPTIONS_PER_WALLET = 10;
+const MAX_DELIVERY_ATTEMPTS = 5;
+const DELIVERY_BATCH_SIZE = 50;
+
+function maskTarget(channel: string, target: string): string {
+  if (channel === 'email') {
+    const [local, domain] = target.split('@');
+    return `${local.slice(0, 1)}***@${domain}`;
+  }
+  if (channel === 'webhook') {
+    try {
+      const url = new URL(target);
+      return `${url.protocol}//${url.host}/***`;
+    } catch {
+      return '***';
+    }
+  }
+  return target.length > 4 ? `***${target.slice(-4)}` : '***';
+}
+
+function parseEventTypes(value: string): NotificationEventType[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function toPublic(subscription: NotificationSubscription): PublicNotificationSubscription {
+  return {
+    id: subscription.id,
+    walletAddress: subscription.walletAddress,
+    channel: subscription.channel,
+    target: maskTarget(subscription.channel, subscription.target),
+    eventTypes: parseEventTypes(subscription.eventTypes),
+    isActive: subscription.isActive,
+    lastDeliveredAt: subscription.lastDeliveredAt,
+    createdAt: subscription.createdAt
+  };
+}
+
+function isInRange(tick: number, tickLower: number, tickUpper: number): boolean {
+  return tick >= tickLower && tick < tickUpper;
+}
+
+class NotificationService {
+  private readonly RUN_INTERVAL = 5 * 60 * 1000; // 5 minutes - matches pool tick sampling
+  private readonly LOW_TREASURY_THRESHOLD = parseFloat(process.env.NOTIFY_LOW_TREASURY_KILT || '100000');
+  private runInFlight: Promise<{ queued: number; delivered: number; failed: number }> | null = null;
+
+  /**
+   * Register trigger evaluation and delivery with the job scheduler - every 5 minutes
+   */
+  start() {
+    jobScheduler.register({
+      name: NOTIFICATION_JOB,
+      description: 'Evaluate notification triggers and send pending deliveries',
+      intervalMs: this.RUN_INTERVAL,
+      maxRetries: 0, // Failed deliveries carry their own backoff
+      handler: () => this.runNow()
+    });
+    console.log('🔔 Notification service registered - evaluating triggers every 5 minutes');
+  }
+
+  /**
+   * Stop trigger evaluation on this instance
+   */
+  stop() {
+    jobScheduler.unregister(NOTIFICATION_JOB);
+    console.log('⏹️ Notification service stopped');
+  }
+
+  /**
+   * Evaluate triggers and send pending deliveries. Overlapping calls share one run.
+   */
+  runNow(): Promise<{ queued: number; delivered: number; failed: number }> {
+    if (!this.runInFlight) {
+      this.runInFlight = this.run().finally(() => {
+        this.runInFlight = null;
+      });
+    }
+    return this.runInFlight;
+  }
+
+  private async run(): Promise<{ queued: number; delivered: number; failed: number }> {
+    let queued = 0;
+    try {
+      queued = await this.evaluateTriggers();
+    } catch (error) {
+      console.error('❌ Notification trigger evaluation failed:', error instanceof Error ? error.message : error);
+    }
+    const { delivered, failed } = await this.deliverPending();
+    if (queued > 0 || delivered > 0 || failed > 0) {
+      console.log(`🔔 NOTIFICATIONS: ${queued} queued, ${delivered} delivered, ${failed} failed`);
+    }
+    return { queued, delivered, failed };
+  }
+
+  // ===== SUBSCRIPTIONS =====
+
+  async listSubscriptions(walletAddress: string): Promise<PublicNotificationSubscription[]> {
+    const subscriptions = await db.select().from(notificationSubscriptions)
+      .where(eq(notificationSubscriptions.walletAddress, walletAddress.toLowerCase()))
+      .orderBy(asc(notificationSubscriptions.createdAt));
+    return subscriptions.map(toPublic);
+  }
+
+  /**
+   * Add a destination for a wallet, or update the event types of an existing one. Webhook
+   * subscriptions get a signing secret, returned only in this response.
+   */
+  async subscribe(
+    request: SignedRequest & { channel: NotificationChannelType; target: string; eventTypes: NotificationEventType[] }
+  ): Promise<SubscriptionResult> {
+    const target = request.target.trim();
+    const action: NotificationSettingsAction = { type: 'subscribe', channel: request.channel, target, eventTypes: request.eventTypes };
+    const verified = await this.verifySignedRequest(request, action);
+    if (!verified.success) return verified;
+
+    const targetError = await NOTIFICATION_CHANNELS[request.channel].validateTarget(target);
+    if (targetError) return { success: false, error: targetError, code: 'INVALID_TARGET' };
+    if (request.eventTypes.length === 0) return { success: false, error: 'Select at least one event type', code: 'INVALID_EVENT_TYPES' };
+
+    const walletAddress = verified.walletAddress;
+    const existing = await db.select().from(notificationSubscriptions)
+      .where(eq(notificationSubscriptions.walletAddress, walletAddress));
+    const match = existing.find(subscription => subscription.channel === request.channel && subscription.target === target);
+    if (!match && existing.length >= MAX_SUBSCRIPTIONS_PER_WALLET) {
+      return { success: false, error: `A wallet can have at most ${MAX_SUBSCRIPTIONS_PER_WALLET} subscriptions`, code: 'LIMIT_REACHED' };
+    }
+
+    if (match) {
+      const [updated] = await db.update(notificationSubscriptions)
+        .set({ eventTypes: JSON.stringify(request.eventTypes), isActive: true, updatedAt: new Date() })
+        .where(eq(notificationSubscriptions.id, match.id))
+        .returning();
+      return { success: true, subscription: toPublic(updated) };
+    }
+
+    const secret = request.channel === 'webhook' ? crypto.randomBytes(32).toString('hex') : null;
+    const [created] = await db.insert(notificationSubscriptions).values({
+      walletAddress,
+      channel: request.channel,
+      target,
+      secret,
+      eventTypes: JSON.stringify(request.eventTypes)
+    }).returning();
+
+    console.log(`🔔 NOTIFICATIONS: ${walletAddress} subscribed ${request.channel} to ${request.eventTypes.join(', ')}`);
+    return { success: true, subscription: toPublic(created), secret: secret ?? undefined };
+  }
+
+  async updateSubscription(
+    subscriptionId: number,
+    request: SignedRequest & { eventTypes?: NotificationEventType[]; isActive?: boolean }
+  ): Promise<SubscriptionResult> {
+    const action: NotificationSettingsAction = { type: 'update', subscriptionId, eventTypes: request.eventTypes, isActive: request.isActive };
+    const owned = await this.getOwnedSubscription(subscriptionId, request, action);
+    if (!owned.success) return owned;
+    if (request.eventTypes && request.eventTypes.length === 0) {
+      return { success: false, error: 'Select at least one event type', code: 'INVALID_EVENT_TYPES' };
+    }
+
+    const [updated] = await db.update(notificationSubscriptions)
+      .set({
+        ...(request.eventTypes ? { eventTypes: JSON.stringify(request.eventTypes) } : {}),
+        ...(request.isActive !== undefined ? { isActive: request.isActive } : {}),
+        updatedAt: new Date()
+      })
+      .where(eq(notificationSubscriptions.id, subscriptionId))
+      .returning();
+    return { success: true, subscription: toPublic(updated) };
+  }
+
+  async unsubscribe(subscriptionId: number, request: SignedRequest): Promise<SubscriptionResult> {
+    const owned = await this.getOwnedSubscription(subscriptionId, request, { type: 'unsubscribe', subscriptionId });
+    if (!owned.success) return owned;
+
+    await db.transaction(async (tx) => {
+      await tx.delete(notificationDeliveries).where(eq(notificationDeliveries.subscriptionId, subscriptionId));
+      await tx.delete(notificationSubscriptions).where(eq(notificationSubscriptions.id, subscriptionId));
+    });
+    return { success: true, subscription: toPublic(owned.subscription) };
+  }
+
+  /**
+   * Deliver a test notification immediately - the outcome is returned rather than retried
+   */
+  async sendTest(subscriptionId: number, request: SignedRequest): Promise<{ success: boolean; error?: string; code?: string }> {
+    const owned = await this.getOwnedSubscription(subscriptionId, request, { type: 'test', subscriptionId });
+    if (!owned.success) return owned;
+
+    const event: NotificationEvent = {
+      type: 'test',
+      dedupeKey: `test:${Date.now()}`,
+      subject: 'KILT notifications are set up',
+      text: `This is a test notification for ${owned.subscription.walletAddress}. You will be notified about: ${parseEventTypes(owned.subscription.eventTypes).join(', ')}.`,
+      data: { walletAddress: owned.subscription.walletAddress }
+    };
+    const [delivery] = await db.insert(notificationDeliveries).values({
+      subscriptionId,
+      eventType: event.type,
+      dedupeKey: event.dedupeKey,
+      payload: JSON.stringify(event),
+      status: 'pending',
+      // Not picked up by the delivery loop - sent below and never retried
+      nextAttemptAt: new Date(8.64e15)
+    }).returning();
+
+    const outcome = await this.deliver(delivery, owned.subscription, MAX_DELIVERY_ATTEMPTS - 1);
+    return outcome.success ? { success: true } : { success: false, error: outcome.error, code: 'DELIVERY_FAILED' };
+  }
+
+  async getDeliveries(filter: { walletAddress?: string; status?: string; limit?: number } = {}): Promise<Array<NotificationDelivery & { channel: string; walletAddress: string }>> {
+    const conditions = [];
+    if (filter.walletAddress) conditions.push(eq(notificationSubscriptions.walletAddress, filter.walletAddress.toLowerCase()));
+    if (filter.status) conditions.push(eq(notificationDeliveries.status, filter.status));
+
+    const rows = await db.select({
+      delivery: notificationDeliveries,
+      channel: notificationSubscriptions.channel,
+      walletAddress: notificationSubscriptions.walletAddress
+    })
+      .from(notificationDeliveries)
+      .innerJoin(notificationSubscriptions, eq(notificationDeliveries.subscriptionId, notificationSubscriptions.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(notificationDeliveries.createdAt))
+      .limit(Math.min(filter.limit ?? 100, 500));
+    return rows.map(row => ({ ...row.delivery, channel: row.channel, walletAddress: row.walletAddress }));
+  }
+
+  private async verifySignedRequest(
+    request: SignedRequest,
+    action: NotificationSettingsAction
+  ): Promise<{ success: true; walletAddress: string } | { success: false; error: string; code: string }> {
+    let address: `0x${string}`;
+    try {
+      address = getAddress(request.walletAddress);
+    } catch {
+      return { success: false, error: 'Invalid wallet address', code: 'INVALID_ADDRESS' };
+    }
+
+    const issuedAt = Date.parse(request.issuedAt);
+    if (isNaN(issuedAt) || Math.abs(Date.now() - issuedAt) > NOTIFICATION_SIGNATURE_MAX_AGE_MS) {
+      return { success: false, error: 'Signature has expired - sign the request again', code: 'SIGNATURE_EXPIRED' };
+    }
+
+    const message = buildNotificationSettingsMessage(address, action, request.issuedAt);
+    if (!request.signature || !(await adminAuthService.verifyWalletSignature(address, message, request.signature))) {
+      return { success: false, error: 'Signature does not match wallet', code: 'INVALID_SIGNATURE' };
+    }
+    return { success: true, walletAddress: address.toLowerCase() };
+  }
+
+  private async getOwnedSubscription(
+    subscriptionId: number,
+    request: SignedRequest,
+    action: NotificationSettingsAction
+  ): Promise<{ success: true; subscription: NotificationSubscription } | { success: false; error: string; code: string }> {
+    const verified = await this.verifySignedRequest(request, action);
+    if (!verified.success) return verified;
+
+    const [subscription] = await db.select().from(notificationSubscriptions)
+      .where(and(
+        eq(notificationSubscriptions.id, subscriptionId),
+        eq(notificationSubscriptions.walletAddress, verified.walletAddress)
+      ));
+    if (!subscription) return { success: false, error: 'Subscription not found', code: 'NOT_FOUND' };
+    return { success: true, subscription };
+  }
+
+  // ===== TRIGGERS =====
+
+  /**
+   * Queue notifications for every active subscription whose triggers fired
+   */
+  private async evaluateTriggers(): Promise<number> {
+    const subscriptions = await db.select().from(notificationSubscriptions)
+      .where(eq(notificationSubscriptions.isActive, true));
+    if (subscriptions.length === 0) return 0;
+
+    const byWallet = new Map<string, NotificationSubscription[]>();
+    for (const subscription of subscriptions) {
+      const list = byWallet.get(subscription.walletAddress) || [];
+      list.push(subscription);
+      byWallet.set(subscription.walletAddress, list);
+    }
+
+    let queued = 0;
+    const wantsEvent = (subscription: NotificationSubscription, type: NotificationEventType) =>
+      parseEventTypes(subscription.eventTypes).includes(type);
+
+    if (subscriptions.some(subscription => wantsEvent(subscription, 'low_treasury'))) {
+      const event = await this.checkTreasuryBalance();
+      if (event) {
+        for (const subscription of subscriptions.filter(s => wantsEvent(s, 'low_treasury'))) {
+          queued += await this.enqueue(subscription, event);
+        }
+      }
+    }
+
+    for (const [walletAddress, walletSubscriptions] of Array.from(byWallet.entries())) {
+      try {
+        const events = await this.getWalletEvents(walletAddress, walletSubscriptions);
+        for (const { event, since } of events) {
+          for (const subscription of walletSubscriptions) {
+            if (event.type === 'test' || !wantsEvent(subscription, event.type)) continue;
+            // Burns and transfers from before the subscription existed are history, not news
+            if (since && since < subscription.createdAt) continue;
+            queued += await this.enqueue(subscription, event);
+          }
+        }
+      } catch (error) {
+        console.error(`❌ Notification triggers failed for ${walletAddress}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return queued;
+  }
+
+  private async getWalletEvents(
+    walletAddress: string,
+    subscriptions: NotificationSubscription[]
+  ): Promise<Array<{ event: NotificationEvent; since?: Date }>> {
+    const wanted = new Set(subscriptions.flatMap(subscription => parseEventTypes(subscription.eventTypes)));
+    const [user] = await db.select().from(users).where(sql`lower(${users.address}) = ${walletAddress}`).limit(1);
+    if (!user) return [];
+
+    const events: Array<{ event: NotificationEvent; since?: Date }> = [];
+    const positions = await db.select().from(lpPositions).where(eq(lpPositions.userId, user.id));
+
+    if (wanted.has('out_of_range')) {
+      for (const position of positions) {
+        if (!position.isActive || position.transferredAt || BigInt(position.liquidity || '0') === 0n) continue;
+        const event = await this.checkOutOfRange(position);
+        if (event) events.push({ event });
+      }
+    }
+
+    if (wanted.has('position_burned') && positions.length > 0) {
+      const burns = await db.select().from(liquidityEvents)
+        .where(and(
+          eq(liquidityEvents.eventType, 'burn'),
+          inArray(liquidityEvents.nftTokenId, positions.map(position => position.nftTokenId))
+        ));
+      for (const burn of burns) {
+        // Token IDs are per chain - only a burn on the registered position's chain counts
+        if (!positions.some(position => position.nftTokenId === burn.nftTokenId && position.chainId === burn.chainId)) continue;
+        events.push({
+          since: burn.timestamp,
+          event: {
+            type: 'position_burned',
+            dedupeKey: `position_burned:${burn.chainId}:${burn.nftTokenId}`,
+            subject: `Position #${burn.nftTokenId} was burned`,
+            text: `Uniswap V3 position #${burn.nftTokenId} was burned in transaction ${burn.transactionHash}. It no longer earns rewards; rewards earned before the burn remain claimable.`,
+            data: { nftTokenId: burn.nftTokenId, chainId: burn.chainId, transactionHash: burn.transactionHash, blockNumber: burn.blockNumber }
+          }
+        });
+      }
+    }
+
+    if (wanted.has('position_transferred')) {
+      const transfers = await db.select().from(positionTransfers).where(eq(positionTransfers.fromUserId, user.id));
+      for (const transfer of transfers) {
+        events.push({
+          since: transfer.detectedAt,
+          event: {
+            type: 'position_transferred',
+            dedupeKey: `position_transferred:${transfer.id}`,
+            subject: `Position #${transfer.nftTokenId} left your wallet`,
+            text: `Position #${transfer.nftTokenId} was transferred to ${transfer.toAddress} at ${transfer.transferredAt.toISOString()}. Rewards stopped accruing to ${walletAddress} at that time.`,
+            data: {
+              nftTokenId: transfer.nftTokenId,
+              toAddress: transfer.toAddress,
+              transferredAt: transfer.transferredAt.toISOString(),
+              transactionHash: transfer.transactionHash
+            }
+          }
+        });
+      }
+    }
+
+    if (wanted.has('rewards_claimable')) {
+      const claimability = await claimBasedRewards.checkClaimability(user.address);
+      if (claimability.canClaim && claimability.lockExpired) {
+        // The lock only applies before a wallet's first claim, so it can only end once
+        events.push({
+          event: {
+            type: 'rewards_claimable',
+            dedupeKey: 'rewards_claimable',
+            subject: 'Your KILT rewards are claimable',
+            text: `The reward lock for ${walletAddress} has ended. ${claimability.totalClaimable.toFixed(2)} KILT can be claimed from the dashboard.`,
+            data: { totalClaimable: claimability.totalClaimable, lockExpiryDate: claimability.lockExpiryDate.toISOString() }
+          }
+        });
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Out-of-range event for the current episode, keyed by the first out-of-range sample after
+   * the last in-range one so a position that returns and leaves again notifies again
+   */
+  private async checkOutOfRange(position: LpPosition): Promise<NotificationEvent | null> {
+    const latest = await poolTickSampler.getLatestSample(position.poolAddress);
+    if (!latest || isInRange(latest.tick, position.tickLower, position.tickUpper)) return null;
+
+    const episodeStart = await storage.getFirstSampleOutsideRange(position.poolAddress, position.tickLower, position.tickUpper);
+    const since = episodeStart ?? latest;
+    const direction = latest.tick < position.tickLower ? 'below' : 'above';
+
+    return {
+      type: 'out_of_range',
+      dedupeKey: `out_of_range:${position.chainId}:${position.nftTokenId}:${since.id}`,
+      subject: `Position #${position.nftTokenId} is out of range`,
+      text: `The pool price moved ${direction} the range of position #${position.nftTokenId} (ticks ${position.tickLower} to ${position.tickUpper}, current tick ${latest.tick}) at ${since.sampledAt.toISOString()}. It earns no trading fees and a reduced reward share until the price returns or the position is rebalanced.`,
+      data: {
+        nftTokenId: position.nftTokenId,
+        chainId: position.chainId,
+        poolAddress: position.poolAddress,
+        tickLower: position.tickLower,
+        tickUpper: position.tickUpper,
+        currentTick: latest.tick,
+        outOfRangeSince: since.sampledAt.toISOString()
+      }
+    };
+  }
+
+  private async checkTreasuryBalance(): Promise<NotificationEvent | null> {
+    const balance = await smartContractService.getTreasuryBalance();
+    if (balance >= this.LOW_TREASURY_THRESHOLD) return null;
+
+    const day = new Date().toISOString().slice(0, 10);
+    return {
+      type: 'low_treasury',
+      dedupeKey: `low_treasury:${day}`,
+      subject: 'KILT reward treasury balance is low',
+      text: `The reward treasury holds ${balance.toFixed(2)} KILT, below the ${this.LOW_TREASURY_THRESHOLD} KILT alert threshold. Claims may fail until it is topped up.`,
+      data: { balance, threshold: this.LOW_TREASURY_THRESHOLD, date: day }
+    };
+  }
+
+  private async enqueue(subscription: NotificationSubscription, event: NotificationEvent): Promise<number> {
+    const inserted = await db.insert(notificationDeliveries).values({
+      subscriptionId: subscription.id,
+      eventType: event.type,
+      dedupeKey: event.dedupeKey,
+      payload: JSON.stringify(event)
+    })
+      .onConflictDoNothing({ target: [notificationDeliveries.subscriptionId, notificationDeliveries.dedupeKey] })
+      .returning({ id: notificationDeliveries.id });
+    return inserted.length;
+  }
+
+  // ===== DELIVERY =====
+
+  private async deliverPending(): Promise<{ delivered: number; failed: number }> {
+    let delivered = 0;
+    let failed = 0;
+    try {
+      const due = await db.select({ delivery: notificationDeliveries, subscription: notificationSubscriptions })
+        .from(notificationDeliveries)
+        .innerJoin(notificationSubscriptions, eq(notificationDeliveries.subscriptionId, notificationSubscriptions.id))
+        .where(and(
+          eq(notificationDeliveries.status, 'pending'),
+          lte(notificationDeliveries.nextAttemptAt, new Date()),
+          eq(notificationSubscriptions.isActive, true)
+        ))
+        .orderBy(asc(notificationDeliveries.nextAttemptAt))
+        .limit(DELIVERY_BATCH_SIZE);
+
+      for (const { delivery, subscription } of due) {
+        const outcome = await this.deliver(delivery, subscription, delivery.attempts);
+        if (outcome.success) delivered++;
+        else failed++;
+      }
+    } catch (error) {
+      console.error('❌ Notification delivery failed:', error instanceof Error ? error.message : error);
+    }
+    return { delivered, failed };
+  }
+
+  private async deliver(
+    delivery: NotificationDelivery,
+    subscription: NotificationSubscription,
+    previousAttempts: number
+  ): Promise<{ success: boolean; error?: string }> {
+    const event = JSON.parse(delivery.payload) as NotificationEvent;
+    const message: NotificationMessage = { eventType: event.type, subject: event.subject, text: event.text, payload: event.data };
+    const attempts = previousAttempts + 1;
+
+    try {
+      const channel = NOTIFICATION_CHANNELS[subscription.channel as NotificationChannelType];
+      if (!channel) throw new Error(`Unknown channel ${subscription.channel}`);
+      await channel.send(message, { target: subscription.target, secret: subscription.secret });
+
+      const now = new Date();
+      await db.update(notificationDeliveries)
+        .set({ status: 'delivered', attempts, deliveredAt: now, lastError: null })
+        .where(eq(notificationDeliveries.id, delivery.id));
+      await db.update(notificationSubscriptions)
+        .set({ lastDeliveredAt: now })
+        .where(eq(notificationSubscriptions.id, subscription.id));
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Delivery failed';
+      const giveUp = attempts >= MAX_DELIVERY_ATTEMPTS;
+      // 2, 4, 8, 16 minutes between retries
+      const nextAttemptAt = new Date(Date.now() + Math.pow(2, attempts) * 60 * 1000);
+      await db.update(notificationDeliveries)
+        .set({ status: giveUp ? 'failed' : 'pending', attempts, lastError: message.slice(0, 500), nextAttemptAt })
+        .where(eq(notificationDeliveries.id, delivery.id));
+      console.warn(`⚠️ NOTIFICATIONS: ${subscription.channel} delivery #${delivery.id} failed (attempt ${attempts}${giveUp ? ', giving up' : ''}): ${message}`);
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Delivery counts for the admin panel
+   */
+  async getStatus() {
+    const [subscriptionCounts] = await db.select({
+      total: sql<number>`count(*)::int`,
+      active: sql<number>`count(*) filter (where ${notificationSubscriptions.isActive})::int`
+    }).from(notificationSubscriptions);
+    const deliveryCounts = await db.select({
+      status: notificationDeliveries.status,
+      count: sql<number>`count(*)::int`
+    }).from(notificationDeliveries).groupBy(notificationDeliveries.status);
+    const job = await jobScheduler.getJob(NOTIFICATION_JOB);
+
+    return {
+      running: !!job && !job.isPaused,
+      subscriptions: subscriptionCounts,
+      deliveries: Object.fromEntries(deliveryCounts.map(row => [row.status, row.count])),
+      channels: {
+        webhook: true,
+        email: !!process.env.SMTP_HOST,
+        telegram: !!process.env.TELEGRAM_BOT_TOKEN
+      },
+      lowTreasuryThreshold: this.LOW_TREASURY_THRESHOLD
+    };
+  }
+}
+
+export const notificationService = new NotificationService();
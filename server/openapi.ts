@@ -0,0 +1,127 @@
+/**
+ * OPENAPI
+ * Builds the OpenAPI 3.0 document for the public API from the same zod schemas the routes
+ * validate their responses with, so the published docs cannot drift from what is served.
+ * Covers the zod types the public schemas use; anything else is emitted as an open schema.
+ */
+
+import { z } from 'zod';
+
+type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  description: string;
+  required?: boolean;
+  schema: z.ZodTypeAny;
+}
+
+export interface OpenApiOperation {
+  method: 'get' | 'post' | 'put' | 'patch' | 'delete';
+  path: string; // Express style - /programs/:id
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: OpenApiParameter[];
+  response: z.ZodTypeAny;
+  authenticated: boolean;
+}
+
+export interface OpenApiDocumentOptions {
+  title: string;
+  version: string;
+  description: string;
+  serverUrl: string;
+  errorSchema: z.ZodTypeAny;
+}
+
+/**
+ * JSON Schema (OpenAPI 3.0 dialect) for a zod schema
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const converted = convert(schema);
+  return schema.description && !converted.description
+    ? { ...converted, description: schema.description }
+    : converted;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) required.push(key);
+    }
+    return { type: 'object', properties, ...(required.length > 0 && { required }) };
+  }
+  if (schema instanceof z.ZodString) return { type: 'string' };
+  if (schema instanceof z.ZodNumber) return { type: schema.isInt ? 'integer' : 'number' };
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  if (schema instanceof z.ZodArray) return { type: 'array', items: zodToJsonSchema(schema.element) };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: schema.options };
+  if (schema instanceof z.ZodLiteral) return { type: typeof schema.value, enum: [schema.value] };
+  if (schema instanceof z.ZodRecord) return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  if (schema instanceof z.ZodNullable) return { ...zodToJsonSchema(schema.unwrap()), nullable: true };
+  if (schema instanceof z.ZodOptional) return zodToJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return zodToJsonSchema(schema.removeDefault());
+  if (schema instanceof z.ZodEffects) return zodToJsonSchema(schema.innerType());
+  return {};
+}
+
+/**
+ * OpenAPI 3.0 document for a set of operations
+ */
+export function buildOpenApiDocument(operations: OpenApiOperation[], options: OpenApiDocumentOptions) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  const error = { content: { 'application/json': { schema: zodToJsonSchema(options.errorSchema) } } };
+
+  for (const operation of operations) {
+    const path = operation.path.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+    paths[path] = paths[path] || {};
+    paths[path][operation.method] = {
+      summary: operation.summary,
+      ...(operation.description && { description: operation.description }),
+      tags: operation.tags,
+      ...(operation.authenticated ? {} : { security: [] }),
+      parameters: (operation.parameters || []).map(parameter => ({
+        name: parameter.name,
+        in: parameter.in,
+        description: parameter.description,
+        required: parameter.in === 'path' || !!parameter.required,
+        schema: zodToJsonSchema(parameter.schema)
+      })),
+      responses: {
+        '200': {
+          description: 'Success',
+          content: { 'application/json': { schema: zodToJsonSchema(operation.response) } }
+        },
+        '400': { description: 'Invalid parameters', ...error },
+        ...(operation.authenticated && {
+          '401': { description: 'Missing, invalid or revoked API key', ...error },
+          '429': { description: 'Per-key rate limit exceeded - see the RateLimit headers', ...error }
+        }),
+        '404': { description: 'Not found', ...error }
+      }
+    };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: options.title,
+      version: options.version,
+      description: options.description
+    },
+    servers: [{ url: options.serverUrl }],
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      }
+    },
+    security: [{ apiKey: [] }],
+    paths
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * POOL TICK SAMPLER
+ * Records the slot0 tick of every incentive program pool on a schedule. The reward ledger derives
+ * each position's in-range multiplier (IRM) from this history. Sampling runs as a scheduler job
+ * on the leader instance, so each interval is recorded once.
+ */
+
+import type { PoolTickSample } from '../shared/schema';
+import { storage, type IStorage } from './storage';
+import { rpcManager } from './rpc-connection-manager';
+import { incentiveProgramService } from './incentive-program-service';
+import { jobScheduler } from './job-scheduler';
+
+export const POOL_TICK_SAMPLE_JOB = 'pool-tick-sample';
+
+const SLOT0_ABI = [
+  {
+    inputs: [],
+    name: 'slot0',
+    outputs: [
+      { name: 'sqrtPriceX96', type: 'uint160' },
+      { name: 'tick', type: 'int24' },
+      { name: 'observationIndex', type: 'uint16' },
+      { name: 'observationCardinality', type: 'uint16' },
+      { name: 'observationCardinalityNext', type: 'uint16' },
+      { name: 'feeProtocol', type: 'uint8' },
+      { name: 'unlocked', type: 'bool' }
+    ],
+    stateMutability: 'view',
+    type: 'function'
+  }
+] as const;
+
+export class PoolTickSampler {
+  private readonly SAMPLE_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Register tick sampling with the job scheduler - every 5 minutes
+   */
+  start() {
+    jobScheduler.register({
+      name: POOL_TICK_SAMPLE_JOB,
+      description: 'Record the slot0 tick of every incentive program pool',
+      intervalMs: this.SAMPLE_INTERVAL,
+      maxRetries: 0, // A missed sample is covered by the next one
+      handler: async () => ({ samples: await this.sampleAll() })
+    });
+    console.log('📈 Pool Tick Sampler registered - recording slot0 every 5 minutes');
+  }
+
+  /**
+   * Stop sampling on this instance
+   */
+  stop() {
+    jobScheduler.unregister(POOL_TICK_SAMPLE_JOB);
+    console.log('⏹️ Pool Tick Sampler stopped');
+  }
+
+  /**
+   * Sample each distinct pool that an active program rewards
+   */
+  async sampleAll(): Promise<number> {
+    let recorded = 0;
+    try {
+      const programs = await incentiveProgramService.listPrograms();
+      const pools = Array.from(new Set(programs.map(program => program.poolAddress.toLowerCase())));
+      for (const pool of pools) {
+        if (await this.sampleNow(pool)) recorded++;
+      }
+    } catch (error) {
+      console.error('❌ Pool tick sampling failed:', error instanceof Error ? error.message : error);
+    }
+    return recorded;
+  }
+
+  /**
+   * Read a pool's slot0 once and persist the sample
+   */
+  async sampleNow(poolAddress: string): Promise<PoolTickSample | null> {
+    try {
+      const { slot0, blockNumber } = await rpcManager.executeWithRetry(async (client) => {
+        const [slot0, blockNumber] = await Promise.all([
+          client.readContract({
+            address: poolAddress as `0x${string}`,
+            abi: SLOT0_ABI,
+            functionName: 'slot0'
+          }),
+          client.getBlockNumber()
+        ]);
+        return { slot0, blockNumber };
+      }, 'pool-tick-sample');
+
+      return await this.storage.createPoolTickSample({
+        poolAddress,
+        tick: Number(slot0[1]),
+        sqrtPriceX96: slot0[0].toString(),
+        blockNumber: Number(blockNumber)
+      });
+    } catch (error) {
+      console.error('❌ Pool tick sampling failed:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Samples inside [start, end) plus the last sample before start, which
+   * describes the price at the beginning of the interval
+   */
+  async getSamples(poolAddress: string, start: Date, end: Date): Promise<PoolTickSample[]> {
+    return this.storage.getPoolTickSamples(poolAddress, start, end);
+  }
+
+  /**
+   * Most recent recorded tick for a pool
+   */
+  async getLatestSample(poolAddress: string): Promise<PoolTickSample | null> {
+    return (await this.storage.getLatestPoolTickSample(poolAddress)) || null;
+  }
+}
+
+export const poolTickSampler = new PoolTickSampler(storage);
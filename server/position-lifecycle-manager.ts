@@ -6,6 +6,9 @@
 import { db } from './db';
 import { lpPositions, users } from '../shared/schema';
 import { eq, and, inArray } from 'drizzle-orm';
+import { jobScheduler } from './job-scheduler';
+
+export const POSITION_STATUS_SYNC_JOB = 'position-status-sync';
 
 export interface PositionStatusUpdate {
   nftTokenId: string;
@@ -17,31 +20,26 @@ export interface PositionStatusUpdate {
 
 export class PositionLifecycleManager {
   private readonly SYNC_INTERVAL = 5 * 60 * 1000; // 5 minutes
-  private syncTimer?: NodeJS.Timeout;
 
   /**
-   * Start automatic position status synchronization
+   * Start automatic position status synchronization - a scheduler job run by the leader instance
    */
   startAutoSync() {
-    if (this.syncTimer) {
-      clearInterval(this.syncTimer);
-    }
-    
-    this.syncTimer = setInterval(async () => {
-      await this.syncAllPositions();
-    }, this.SYNC_INTERVAL);
+    jobScheduler.register({
+      name: POSITION_STATUS_SYNC_JOB,
+      description: 'Sync registered position active/closed status with on-chain liquidity',
+      intervalMs: this.SYNC_INTERVAL,
+      handler: async () => ({ updates: (await this.syncAllPositions()).length })
+    });
     
     console.log('📍 Position lifecycle auto-sync started (every 5 minutes)');
   }
 
   /**
-   * Stop automatic synchronization
+   * Stop automatic synchronization on this instance
    */
   stopAutoSync() {
-    if (this.syncTimer) {
-      clearInterval(this.syncTimer);
-      this.syncTimer = undefined;
-    }
+    jobScheduler.unregister(POSITION_STATUS_SYNC_JOB);
   }
 
   /**
@@ -4,10 +4,18 @@
  * - Detects burned/closed positions and updates database
  * - Identifies positions needing Step 2 token collection
  * - Handles position state transitions dynamically
+ * Scans run as a scheduler job on the leader instance.
  */
 
 import { storage } from "./storage";
 import { PositionStateManager, PositionStateContext } from './position-state-manager';
+import { getPositionEventIndexer } from './position-event-indexer';
+import { positionTransferService } from './position-transfer-service';
+import { DEFAULT_CHAIN_ID } from './chain-registry';
+import { jobScheduler } from './job-scheduler';
+import type { UniswapV3Position } from './uniswap-integration-service';
+
+export const POSITION_LIFECYCLE_JOB = 'position-lifecycle';
 
 interface PositionStateChange {
   tokenId: string;
@@ -19,37 +27,32 @@ interface PositionStateChange {
 }
 
 class PositionLifecycleService {
-  private isRunning = false;
-  private intervalId: NodeJS.Timeout | null = null;
+  /**
+   * Register the scan with the job scheduler - every 2 minutes, on the leader instance only
+   */
+  register() {
+    jobScheduler.register({
+      name: POSITION_LIFECYCLE_JOB,
+      description: 'Detect burned/closed positions and Step 2 collections for all users',
+      intervalMs: 2 * 60 * 1000,
+      handler: () => this.checkAllUserPositions()
+    });
+  }
 
   /**
-   * Start automatic position lifecycle management
+   * Resume automatic position lifecycle management on every instance
    */
-  start() {
-    if (this.isRunning) return;
-    
-    this.isRunning = true;
-    console.log('🔄 Position Lifecycle Service started - monitoring all user positions');
-    
-    // Run initial check
-    this.checkAllUserPositions();
-    
-    // Run every 2 minutes to detect position changes
-    this.intervalId = setInterval(() => {
-      this.checkAllUserPositions();
-    }, 2 * 60 * 1000);
+  async start() {
+    await jobScheduler.resume(POSITION_LIFECYCLE_JOB);
+    console.log('🔄 Position Lifecycle Service resumed - monitoring all user positions');
   }
 
   /**
-   * Stop the automatic position lifecycle management
+   * Pause the automatic position lifecycle management on every instance
    */
-  stop() {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-    }
-    this.isRunning = false;
-    console.log('⏹️ Position Lifecycle Service stopped');
+  async stop() {
+    await jobScheduler.pause(POSITION_LIFECYCLE_JOB);
+    console.log('⏹️ Position Lifecycle Service paused');
   }
 
   /**
@@ -94,8 +97,10 @@ class PositionLifecycleService {
         }
       }
       
+      return { usersChecked: usersWithPositions.length };
     } catch (error) {
       console.error('❌ Error in position lifecycle check:', error);
+      throw error;
     }
   }
 
@@ -104,22 +109,39 @@ class PositionLifecycleService {
    */
   private async checkUserPositions(userAddress: string, userId: number, dbPositions: any[]) {
     try {
-      const { uniswapIntegrationService } = await import('./uniswap-integration-service');
+      const stateChanges: PositionStateChange[] = [];
       
-      // Get current blockchain state
-      const blockchainPositions = await uniswapIntegrationService.getUserPositions(userAddress);
-      const blockchainPositionMap = new Map(
-        blockchainPositions.map(p => [p.tokenId, p])
-      );
+      // Registrations closed by an NFT transfer keep their history but are no longer tracked
+      const openPositions = dbPositions.filter(p => !p.transferredAt);
       
-      const stateChanges: PositionStateChange[] = [];
+      // Prefer state derived from indexed position manager events; only positions the
+      // indexer has no events for (or an indexer that is behind) fall back to RPC sweeps
+      const remainingPositions = await this.checkIndexedPositions(userAddress, userId, openPositions, stateChanges);
+      
+      const { getUniswapIntegrationService } = await import('./uniswap-integration-service');
+      
+      // Get current blockchain state - one wallet sweep per chain with positions left to check
+      const remainingChains = Array.from(new Set(remainingPositions.map(p => p.chainId ?? DEFAULT_CHAIN_ID)));
+      const blockchainPositionMap = new Map<string, UniswapV3Position>();
+      for (const chainId of remainingChains) {
+        const chainPositions = await getUniswapIntegrationService(chainId).getUserPositions(userAddress);
+        chainPositions.forEach(p => blockchainPositionMap.set(`${chainId}:${p.tokenId}`, p));
+      }
       
       // Check each registered position
-      for (const dbPosition of dbPositions) {
+      for (const dbPosition of remainingPositions) {
         const tokenId = dbPosition.nftTokenId;
-        const blockchainPosition = blockchainPositionMap.get(tokenId);
+        const chainId = dbPosition.chainId ?? DEFAULT_CHAIN_ID;
+        const blockchainPosition = blockchainPositionMap.get(`${chainId}:${tokenId}`);
         
         if (!blockchainPosition) {
+          // Missing from the wallet - a transfer is confirmed by the NFT's current owner
+          const ownership = await positionTransferService.checkOwnership(tokenId, userAddress, chainId);
+          if (ownership.status === 'transferred') {
+            await positionTransferService.handleTransfer(dbPosition, userAddress, ownership.owner);
+            continue;
+          }
+          
           // CRITICAL FIX: Don't immediately assume position is burned
           // Could be RPC failure, rate limit, or temporary blockchain connectivity issue
           console.warn(`⚠️ LIFECYCLE: Position ${tokenId} not found on blockchain - checking if this is a temporary issue...`);
@@ -133,15 +155,12 @@ class PositionLifecycleService {
           const hasLiquidity = blockchainPosition.liquidity && BigInt(blockchainPosition.liquidity) > 0n;
           const hasUnclaimedTokens = this.hasUnclaimedTokens(blockchainPosition);
           
-          // Get current position from database to check USD value
-          const dbPosition = dbPositions.find(p => p.nftTokenId === tokenId);
-          
           // USE UNIFIED STATE MANAGER - Single source of truth for ALL position state decisions
           const stateContext: PositionStateContext = {
             tokenId,
             hasBlockchainLiquidity: Boolean(hasLiquidity),
             blockchainLiquidity: blockchainPosition.liquidity || '0',
-            currentValueUSD: dbPosition?.currentValueUSD || null,
+            currentValueUSD: dbPosition.currentValueUSD || null,
             hasUnclaimedTokens,
             isOnBlockchain: true
           };
@@ -150,7 +169,7 @@ class PositionLifecycleService {
           const needsStep2 = PositionStateManager.needsStep2(stateContext);
           
           // Only create state change if database state differs from expected state
-          const currentDbState = dbPosition?.isActive ? 'active' : 'inactive';
+          const currentDbState = dbPosition.isActive ? 'active' : 'inactive';
           
           if (expectedState === 'active' && currentDbState === 'inactive') {
             stateChanges.push({
@@ -178,6 +197,76 @@ class PositionLifecycleService {
     }
   }
 
+  /**
+   * Derive state changes from indexed liquidity events, returning the positions that have
+   * no indexed events and still need an RPC check
+   */
+  private async checkIndexedPositions(
+    userAddress: string,
+    userId: number,
+    dbPositions: any[],
+    stateChanges: PositionStateChange[]
+  ): Promise<any[]> {
+    const remaining: any[] = [];
+    
+    for (const dbPosition of dbPositions) {
+      const tokenId = dbPosition.nftTokenId;
+      const indexer = getPositionEventIndexer(dbPosition.chainId ?? DEFAULT_CHAIN_ID);
+      const indexed = indexer.isCaughtUp() ? await indexer.getPositionState(tokenId) : null;
+      if (!indexed) {
+        remaining.push(dbPosition);
+        continue;
+      }
+      
+      const currentDbState = dbPosition.isActive ? 'active' : 'inactive';
+      
+      // A burn is a confirmed on-chain event, unlike a position missing from an RPC sweep
+      if (indexed.burned) {
+        if (currentDbState === 'active') {
+          stateChanges.push({
+            tokenId, userId, oldState: 'active', newState: 'inactive', needsStep2: false,
+            reason: 'Position NFT burned (indexed Transfer to zero address)'
+          });
+        }
+        continue;
+      }
+      
+      const stateContext: PositionStateContext = {
+        tokenId,
+        hasBlockchainLiquidity: BigInt(indexed.liquidity) > 0n,
+        blockchainLiquidity: indexed.liquidity,
+        currentValueUSD: dbPosition.currentValueUSD || null,
+        hasUnclaimedTokens: indexed.hasUncollectedTokens,
+        isOnBlockchain: true,
+        // Owner is unknown when the mint predates the indexer's start block
+        ownedByRegisteredUser: indexed.owner ? indexed.owner === userAddress.toLowerCase() : undefined
+      };
+      
+      const expectedState = PositionStateManager.determinePositionState(stateContext);
+      const needsStep2 = PositionStateManager.needsStep2(stateContext);
+      
+      // Transferred, not burned: close this registration so the new owner can register
+      if (expectedState === 'transferred' && indexed.owner) {
+        await positionTransferService.handleTransfer(dbPosition, userAddress, indexed.owner);
+        continue;
+      }
+      
+      if (expectedState === 'active' && currentDbState === 'inactive') {
+        stateChanges.push({
+          tokenId, userId, oldState: 'inactive', newState: 'active', needsStep2: false,
+          reason: 'Indexed events show active liquidity'
+        });
+      } else if (expectedState === 'inactive' && currentDbState === 'active') {
+        stateChanges.push({
+          tokenId, userId, oldState: 'active', newState: 'inactive', needsStep2,
+          reason: needsStep2 ? 'Indexed events show zero liquidity with uncollected tokens (Step 2 needed)' : 'Indexed events show position fully closed'
+        });
+      }
+    }
+    
+    return remaining;
+  }
+
   /**
    * Check if a position has unclaimed tokens (fees or remaining tokens)
    */
@@ -292,10 +381,13 @@ class PositionLifecycleService {
   /**
    * Get current service status
    */
-  getStatus() {
+  async getStatus() {
+    const job = await jobScheduler.getJob(POSITION_LIFECYCLE_JOB);
     return {
-      isRunning: this.isRunning,
-      hasInterval: this.intervalId !== null
+      isRunning: !!job && !job.isPaused,
+      lastRunAt: job?.lastRunAt ?? null,
+      lastStatus: job?.lastStatus ?? null,
+      nextRunAt: job?.nextRunAt ?? null
     };
   }
 }
@@ -303,5 +395,5 @@ class PositionLifecycleService {
 // Create singleton instance
 export const positionLifecycleService = new PositionLifecycleService();
 
-// Auto-start the service when the module is imported
-positionLifecycleService.start();
\ No newline at end of file
+// Register the scan when the module is imported
+positionLifecycleService.register();
\ No newline at end of file
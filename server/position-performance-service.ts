@@ -0,0 +1,312 @@
+/**
+ * POSITION PERFORMANCE SERVICE
+ * Snapshots every open registered position on a schedule (principal from liquidity and ticks,
+ * uncollected fees from AuthenticFeeService, KILT and ETH prices) and reports value over time,
+ * fees, KILT rewards and impermanent loss versus holding the deposited tokens. Snapshots are a
+ * scheduler job on the leader instance.
+ */
+
+import { db } from './db';
+import {
+  liquidityEvents,
+  lpPositions,
+  positionValueSnapshots,
+  type InsertPositionValueSnapshot,
+  type LiquidityEvent,
+  type LpPosition
+} from '../shared/schema';
+import { and, asc, eq, inArray, isNull } from 'drizzle-orm';
+import { formatUnits } from 'viem';
+import { storage } from './storage';
+import { jobScheduler } from './job-scheduler';
+import { uniswapIntegrationService } from './uniswap-integration-service';
+import { blockchainConfigService } from './blockchain-config-service';
+import { PriceService } from './price-service';
+import { rewardLedgerService } from './reward-ledger-service';
+
+export const POSITION_SNAPSHOT_JOB = 'position-value-snapshot';
+
+interface TokenAmounts {
+  kilt: number;
+  eth: number;
+}
+
+export interface PerformancePoint {
+  timestamp: string;
+  totalValueUSD: number;
+  principalValueUSD: number;
+  feesValueUSD: number;
+  holdValueUSD: number; // Net deposit at the snapshot's prices
+}
+
+export interface PositionPerformance {
+  nftTokenId: string;
+  positionId: number;
+  registeredAt: string | null;
+  depositSource: 'indexed_events' | 'first_snapshot' | 'none';
+  deposit: TokenAmounts;
+  initialValueUSD: number;
+  current: {
+    principal: TokenAmounts;
+    principalValueUSD: number;
+    totalValueUSD: number;
+    kiltPrice: number;
+    ethPrice: number;
+    sampledAt: string;
+  } | null;
+  fees: {
+    uncollected: TokenAmounts;
+    collected: TokenAmounts;
+    totalUSD: number;
+  };
+  rewards: {
+    kilt: number;
+    usd: number;
+  };
+  holdValueUSD: number;
+  impermanentLossUSD: number; // Principal minus hold value - negative is a loss
+  impermanentLossPercent: number;
+  pnlUSD: number; // Principal + fees + rewards minus initial value
+  series: PerformancePoint[];
+}
+
+class PositionPerformanceService {
+  private readonly SNAPSHOT_INTERVAL = 60 * 60 * 1000; // 1 hour
+  private snapshotInFlight: Promise<number> | null = null;
+
+  /**
+   * Register periodic position snapshots with the job scheduler - every hour
+   */
+  start() {
+    jobScheduler.register({
+      name: POSITION_SNAPSHOT_JOB,
+      description: 'Snapshot the value of every open registered position',
+      intervalMs: this.SNAPSHOT_INTERVAL,
+      handler: async () => ({ snapshots: await this.snapshotNow() })
+    });
+    console.log('📸 Position Performance Service registered - snapshotting registered positions every hour');
+  }
+
+  /**
+   * Stop periodic position snapshots on this instance
+   */
+  stop() {
+    jobScheduler.unregister(POSITION_SNAPSHOT_JOB);
+    console.log('⏹️ Position Performance Service stopped');
+  }
+
+  /**
+   * Snapshot every open registration once (concurrent callers share the same pass)
+   */
+  async snapshotNow(): Promise<number> {
+    if (this.snapshotInFlight) return this.snapshotInFlight;
+
+    this.snapshotInFlight = this.takeSnapshots().finally(() => {
+      this.snapshotInFlight = null;
+    });
+    return this.snapshotInFlight;
+  }
+
+  private async takeSnapshots(): Promise<number> {
+    try {
+      const positions = await db.select().from(lpPositions)
+        .where(and(eq(lpPositions.isActive, true), isNull(lpPositions.transferredAt)));
+      const [ethPrice, kiltPrice, { kilt }] = await Promise.all([
+        PriceService.getETHPrice(),
+        PriceService.getKILTPrice(),
+        blockchainConfigService.getTokenAddresses()
+      ]);
+
+      const rows: InsertPositionValueSnapshot[] = [];
+      // Sequential to stay within RPC rate limits
+      for (const position of positions) {
+        try {
+          const row = await this.buildSnapshot(position, kilt, kiltPrice, ethPrice);
+          if (row) rows.push(row);
+        } catch (error) {
+          console.warn(`⚠️ SNAPSHOT: Position ${position.nftTokenId} skipped:`, error instanceof Error ? error.message : error);
+        }
+      }
+
+      if (rows.length > 0) {
+        await db.insert(positionValueSnapshots).values(rows);
+      }
+      console.log(`📸 SNAPSHOT: ${rows.length}/${positions.length} positions recorded (KILT $${kiltPrice}, ETH $${ethPrice})`);
+      return rows.length;
+    } catch (error) {
+      console.error('❌ Position snapshot failed:', error);
+      return 0;
+    }
+  }
+
+  private async buildSnapshot(position: LpPosition, kiltAddress: string, kiltPrice: number, ethPrice: number): Promise<InsertPositionValueSnapshot | null> {
+    const onChain = await uniswapIntegrationService.getFullPositionData(position.nftTokenId);
+    // Closed positions have nothing left to value
+    if (!onChain) return null;
+
+    const kiltIsToken0 = onChain.token0.toLowerCase() === kiltAddress.toLowerCase();
+    const amount0 = parseFloat(formatUnits(BigInt(onChain.token0Amount), 18));
+    const amount1 = parseFloat(formatUnits(BigInt(onChain.token1Amount), 18));
+    const fees0 = parseFloat(formatUnits(BigInt(onChain.fees.token0), 18));
+    const fees1 = parseFloat(formatUnits(BigInt(onChain.fees.token1), 18));
+
+    const principal: TokenAmounts = kiltIsToken0 ? { kilt: amount0, eth: amount1 } : { kilt: amount1, eth: amount0 };
+    const uncollected: TokenAmounts = kiltIsToken0 ? { kilt: fees0, eth: fees1 } : { kilt: fees1, eth: fees0 };
+    const principalValueUSD = this.valueOf(principal, kiltPrice, ethPrice);
+    const feesValueUSD = this.valueOf(uncollected, kiltPrice, ethPrice);
+
+    return {
+      positionId: position.id,
+      nftTokenId: position.nftTokenId,
+      liquidity: onChain.liquidity,
+      kiltAmount: principal.kilt.toFixed(18),
+      ethAmount: principal.eth.toFixed(18),
+      uncollectedKilt: uncollected.kilt.toFixed(18),
+      uncollectedEth: uncollected.eth.toFixed(18),
+      kiltPrice: kiltPrice.toFixed(10),
+      ethPrice: ethPrice.toFixed(10),
+      principalValueUSD: principalValueUSD.toFixed(8),
+      feesValueUSD: feesValueUSD.toFixed(8),
+      totalValueUSD: (principalValueUSD + feesValueUSD).toFixed(8)
+    };
+  }
+
+  private valueOf(amounts: TokenAmounts, kiltPrice: number, ethPrice: number): number {
+    return amounts.kilt * kiltPrice + amounts.eth * ethPrice;
+  }
+
+  /**
+   * Value history, fees, rewards and impermanent loss for the current registration of an NFT
+   */
+  async getPerformance(nftTokenId: string, days?: number): Promise<PositionPerformance | null> {
+    const position = await storage.getLpPositionByNftTokenId(nftTokenId);
+    if (!position) return null;
+
+    // All snapshots are loaded so the initial value doesn't depend on the requested window
+    const snapshots = await db.select().from(positionValueSnapshots)
+      .where(eq(positionValueSnapshots.positionId, position.id))
+      .orderBy(asc(positionValueSnapshots.sampledAt));
+    const seriesStart = days && days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : null;
+
+    const { kilt } = await blockchainConfigService.getTokenAddresses();
+    const kiltIsToken0 = position.token0Address.toLowerCase() === kilt.toLowerCase();
+    const events = await db.select().from(liquidityEvents)
+      .where(and(
+        eq(liquidityEvents.nftTokenId, nftTokenId),
+        inArray(liquidityEvents.eventType, ['increase', 'decrease', 'collect'])
+      ))
+      .orderBy(asc(liquidityEvents.blockNumber), asc(liquidityEvents.logIndex));
+
+    const rewardsKilt = await rewardLedgerService.getPositionTotal(position.id);
+    const latest = snapshots[snapshots.length - 1];
+    const first = snapshots[0];
+
+    // Deposit basis: net liquidity added according to indexed events, else the first snapshot
+    const hasIndexedDeposits = events.some(event => event.eventType === 'increase');
+    const depositSource: PositionPerformance['depositSource'] = hasIndexedDeposits ? 'indexed_events' : first ? 'first_snapshot' : 'none';
+    const depositAt = (until: Date | null): TokenAmounts => {
+      if (hasIndexedDeposits) return this.netDeposit(events, kiltIsToken0, until).deposit;
+      return first ? { kilt: parseFloat(first.kiltAmount), eth: parseFloat(first.ethAmount) } : { kilt: 0, eth: 0 };
+    };
+
+    const deposit = depositAt(null);
+    const collected = hasIndexedDeposits ? this.netDeposit(events, kiltIsToken0, null).collectedFees : { kilt: 0, eth: 0 };
+
+    const windowed = seriesStart ? snapshots.filter(snapshot => snapshot.sampledAt >= seriesStart) : snapshots;
+    const series: PerformancePoint[] = windowed.map(snapshot => {
+      const kiltPrice = parseFloat(snapshot.kiltPrice);
+      const ethPrice = parseFloat(snapshot.ethPrice);
+      return {
+        timestamp: snapshot.sampledAt.toISOString(),
+        totalValueUSD: parseFloat(snapshot.totalValueUSD),
+        principalValueUSD: parseFloat(snapshot.principalValueUSD),
+        feesValueUSD: parseFloat(snapshot.feesValueUSD),
+        holdValueUSD: this.valueOf(depositAt(snapshot.sampledAt), kiltPrice, ethPrice)
+      };
+    });
+
+    const result: PositionPerformance = {
+      nftTokenId,
+      positionId: position.id,
+      registeredAt: position.createdAt?.toISOString() ?? null,
+      depositSource,
+      deposit,
+      initialValueUSD: 0,
+      current: null,
+      fees: { uncollected: { kilt: 0, eth: 0 }, collected, totalUSD: 0 },
+      rewards: { kilt: rewardsKilt, usd: 0 },
+      holdValueUSD: 0,
+      impermanentLossUSD: 0,
+      impermanentLossPercent: 0,
+      pnlUSD: 0,
+      series
+    };
+
+    if (!latest) return result;
+
+    const kiltPrice = parseFloat(latest.kiltPrice);
+    const ethPrice = parseFloat(latest.ethPrice);
+    const principal = { kilt: parseFloat(latest.kiltAmount), eth: parseFloat(latest.ethAmount) };
+    const uncollected = { kilt: parseFloat(latest.uncollectedKilt), eth: parseFloat(latest.uncollectedEth) };
+    const principalValueUSD = parseFloat(latest.principalValueUSD);
+    const feesUSD = this.valueOf(uncollected, kiltPrice, ethPrice) + this.valueOf(collected, kiltPrice, ethPrice);
+    const rewardsUSD = rewardsKilt * kiltPrice;
+    const holdValueUSD = this.valueOf(deposit, kiltPrice, ethPrice);
+    // Deposit valued at the earliest recorded prices - the closest available to the deposit itself
+    const initialValueUSD = this.valueOf(deposit, parseFloat(first.kiltPrice), parseFloat(first.ethPrice));
+
+    result.current = {
+      principal,
+      principalValueUSD,
+      totalValueUSD: parseFloat(latest.totalValueUSD),
+      kiltPrice,
+      ethPrice,
+      sampledAt: latest.sampledAt.toISOString()
+    };
+    result.fees = { uncollected, collected, totalUSD: feesUSD };
+    result.rewards = { kilt: rewardsKilt, usd: rewardsUSD };
+    result.initialValueUSD = initialValueUSD;
+    result.holdValueUSD = holdValueUSD;
+    result.impermanentLossUSD = principalValueUSD - holdValueUSD;
+    result.impermanentLossPercent = holdValueUSD > 0 ? ((principalValueUSD - holdValueUSD) / holdValueUSD) * 100 : 0;
+    result.pnlUSD = principalValueUSD + feesUSD + rewardsUSD - initialValueUSD;
+
+    return result;
+  }
+
+  /**
+   * Net tokens deposited (increases minus decreases) up to `until`, plus fees collected -
+   * Collect pays out withdrawn principal and fees together, so fees are the excess over decreases
+   */
+  private netDeposit(events: LiquidityEvent[], kiltIsToken0: boolean, until: Date | null): { deposit: TokenAmounts; collectedFees: TokenAmounts } {
+    let deposited0 = 0, deposited1 = 0, withdrawn0 = 0, withdrawn1 = 0, collected0 = 0, collected1 = 0;
+
+    for (const event of events) {
+      if (until && event.timestamp > until) break;
+      const amount0 = parseFloat(event.amount0 || '0');
+      const amount1 = parseFloat(event.amount1 || '0');
+      if (event.eventType === 'increase') {
+        deposited0 += amount0;
+        deposited1 += amount1;
+      } else if (event.eventType === 'decrease') {
+        withdrawn0 += amount0;
+        withdrawn1 += amount1;
+      } else if (event.eventType === 'collect') {
+        collected0 += amount0;
+        collected1 += amount1;
+      }
+    }
+
+    const net0 = Math.max(0, deposited0 - withdrawn0);
+    const net1 = Math.max(0, deposited1 - withdrawn1);
+    const fees0 = Math.max(0, collected0 - withdrawn0);
+    const fees1 = Math.max(0, collected1 - withdrawn1);
+
+    return {
+      deposit: kiltIsToken0 ? { kilt: net0, eth: net1 } : { kilt: net1, eth: net0 },
+      collectedFees: kiltIsToken0 ? { kilt: fees0, eth: fees1 } : { kilt: fees1, eth: fees0 }
+    };
+  }
+}
+
+export const positionPerformanceService = new PositionPerformanceService();
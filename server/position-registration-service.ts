@@ -1,18 +1,16 @@
-import { db } from './db';
 import { 
-  lpPositions, 
-  positionEligibility, 
-  appTransactions,
-  users,
   type InsertLpPosition,
   type InsertPositionEligibility,
   type InsertAppTransaction
 } from '@shared/schema';
-import { eq, and } from 'drizzle-orm';
+import { storage, type IStorage } from './storage';
 import { unifiedRewardService } from './unified-reward-service';
 import { blockchainConfigService } from './blockchain-config-service';
 import { uniswapIntegrationService } from './uniswap-integration-service';
 import { rateLimitBypassService } from './rate-limit-bypass-service';
+import { positionTransferService } from './position-transfer-service';
+import { incentiveProgramService } from './incentive-program-service';
+import { DEFAULT_CHAIN_ID, isEnabledChain } from './chain-registry';
 // Removed historicalValidationService - validation logic moved inline
 // Removed liquidityTypeDetector - type detection moved inline
 
@@ -22,6 +20,7 @@ export interface PositionRegistrationResult {
   message: string;
   alreadyRegistered?: boolean;
   eligibilityStatus: 'eligible' | 'ineligible' | 'pending';
+  program?: { id: number; name: string };
   validationResult?: any;
   liquidityTypeResult?: any;
   rewardInfo?: {
@@ -33,6 +32,7 @@ export interface PositionRegistrationResult {
 
 export interface ExternalPositionData {
   nftTokenId: string;
+  chainId?: number; // Chain registry ID - defaults to Base
   poolAddress: string;
   token0Address: string;
   token1Address: string;
@@ -50,7 +50,7 @@ export interface ExternalPositionData {
 }
 
 export class PositionRegistrationService {
-  constructor(private db: any) {}
+  constructor(private storage: IStorage) {}
 
   /**
    * Register an existing Uniswap position (created externally) into our reward program
@@ -66,22 +66,21 @@ export class PositionRegistrationService {
     }
   ): Promise<PositionRegistrationResult> {
     try {
-      // Check if position is already registered
-      const existingPosition = await this.db
-        .select()
-        .from(lpPositions)
-        .where(eq(lpPositions.nftTokenId, positionData.nftTokenId))
-        .limit(1);
-
-      if (existingPosition.length > 0) {
-        const [position] = existingPosition;
-        
+      const chainId = positionData.chainId ?? DEFAULT_CHAIN_ID;
+      if (!isEnabledChain(chainId)) {
+        return {
+          success: false,
+          message: `Chain ${chainId} is not supported for rewards`,
+          eligibilityStatus: 'ineligible'
+        };
+      }
+
+      // Check if position is already registered (registrations closed by a transfer don't count)
+      const existingPosition = await this.storage.getCurrentLpPosition(positionData.nftTokenId, chainId);
+
+      if (existingPosition) {
         // Check if already eligible for rewards
-        const [eligibility] = await this.db
-          .select()
-          .from(positionEligibility)
-          .where(eq(positionEligibility.positionId, position.id))
-          .limit(1);
+        const eligibility = await this.storage.getPositionEligibility(existingPosition.id);
 
         return {
           success: false,
@@ -146,6 +145,16 @@ export class PositionRegistrationService {
         };
       }
 
+      // Rewards come from the incentive program running on the position's pool
+      const program = await incentiveProgramService.matchProgram(positionData.poolAddress, new Date(), chainId);
+      if (!program) {
+        return {
+          success: false,
+          message: `No active incentive program rewards pool ${positionData.poolAddress}`,
+          eligibilityStatus: 'ineligible'
+        };
+      }
+
       // Step 1: Liquidity type detection
       // Liquidity type detection temporarily disabled for stability
       const liquidityTypeResult = { 
@@ -211,6 +220,7 @@ export class PositionRegistrationService {
       const positionRecord: InsertLpPosition = {
         userId,
         nftTokenId: positionData.nftTokenId,
+        chainId,
         poolAddress: positionData.poolAddress,
         token0Address: positionData.token0Address,
         token1Address: positionData.token1Address,
@@ -225,13 +235,11 @@ export class PositionRegistrationService {
         feeTier: parseInt(positionData.feeTier.toString()),
         isActive: true,
         appTransactionHash: verificationProof?.transactionHash || `manual_registration_${positionData.nftTokenId}`,
-        appSessionId: `registration_${Date.now()}`
+        appSessionId: `registration_${Date.now()}`,
+        programId: program.id
       };
 
-      const [createdPosition] = await this.db
-        .insert(lpPositions)
-        .values(positionRecord)
-        .returning();
+      const createdPosition = await this.storage.createLpPosition(positionRecord);
 
       // Critical: Verify position was actually created
       if (!createdPosition || !createdPosition.id) {
@@ -252,10 +260,7 @@ export class PositionRegistrationService {
         appVersion: '1.0.0'
       };
 
-      const [appTransaction] = await this.db
-        .insert(appTransactions)
-        .values(registrationTransaction)
-        .returning();
+      const appTransaction = await this.storage.createAppTransaction(registrationTransaction);
 
       // Create position eligibility record
       const eligibilityRecord: InsertPositionEligibility = {
@@ -267,21 +272,21 @@ export class PositionRegistrationService {
         // eligibilityStartDate: new Date() // Field doesn't exist in schema
       };
 
-      const [eligibilityResult] = await this.db
-        .insert(positionEligibility)
-        .values(eligibilityRecord)
-        .returning();
+      const eligibilityResult = await this.storage.createPositionEligibility(eligibilityRecord);
 
       // Critical: Verify eligibility record was created
       if (!eligibilityResult || !eligibilityResult.id) {
         console.error('❌ CRITICAL: Eligibility insertion failed', { eligibilityRecord });
         // Rollback: Delete the position if eligibility creation failed
-        await this.db.delete(lpPositions).where(eq(lpPositions.id, createdPosition.id));
+        await this.storage.deleteLpPositionById(createdPosition.id);
         throw new Error('Failed to create eligibility record - rolling back position creation');
       }
 
       console.log(`✅ Eligibility record created for position ${createdPosition.id}`);
 
+      // New owner of a transferred NFT - link the registration to the transfer audit trail
+      await positionTransferService.resolveReRegistration(positionData.nftTokenId, userId, createdPosition.id);
+
       // Calculate reward information
       const rewardCalc = await unifiedRewardService.getPositionReward(
         userId,
@@ -300,6 +305,7 @@ export class PositionRegistrationService {
           ? 'Full range position registered successfully! Rewards will accrue from today.'
           : `Position validated and registered! ${validationResult?.reason || 'Balanced position confirmed.'}`,
         eligibilityStatus: 'eligible',
+        program: { id: program.id, name: program.name },
         validationResult,
         liquidityTypeResult,
         rewardInfo: {
@@ -394,11 +400,7 @@ export class PositionRegistrationService {
     eligibilityStartDate?: Date;
   }> {
     try {
-      const [position] = await this.db
-        .select()
-        .from(lpPositions)
-        .where(eq(lpPositions.nftTokenId, nftTokenId))
-        .limit(1);
+      const position = await this.storage.getCurrentLpPosition(nftTokenId);
 
       if (!position) {
         return {
@@ -407,17 +409,13 @@ export class PositionRegistrationService {
         };
       }
 
-      const [eligibility] = await this.db
-        .select()
-        .from(positionEligibility)
-        .where(eq(positionEligibility.positionId, position.id))
-        .limit(1);
+      const eligibility = await this.storage.getPositionEligibility(position.id);
 
       return {
         isRegistered: true,
         isEligible: eligibility?.isEligible || false,
-        registrationDate: position.createdAt,
-        eligibilityStartDate: eligibility?.eligibilityStartDate || undefined
+        registrationDate: position.createdAt || undefined,
+        eligibilityStartDate: eligibility?.eligibilityCheckedAt || undefined
       };
 
     } catch (error) {
@@ -463,11 +461,7 @@ export class PositionRegistrationService {
       });
       
       // First, get the user ID from the address
-      const [user] = await this.db
-        .select()
-        .from(users)
-        .where(eq(users.address, userAddress.toLowerCase()))
-        .limit(1);
+      const user = await this.storage.getUserByAddress(userAddress.toLowerCase());
 
       if (!user) {
         // If user doesn't exist, no registered positions
@@ -495,13 +489,10 @@ export class PositionRegistrationService {
       }
 
       // Get already registered positions for this user using the correct user ID
-      const registeredPositions = await this.db
-        .select()
-        .from(lpPositions)
-        .where(eq(lpPositions.userId, user.id));
+      const registeredPositions = await this.storage.getLpPositionsByUserId(user.id);
       
       // CRITICAL FIX: Ensure string comparison consistency
-      const registeredNftIds = new Set(registeredPositions.map((p: any) => p.nftTokenId.toString()));
+      const registeredNftIds = new Set(registeredPositions.map(p => p.nftTokenId.toString()));
       
       // Filter out already registered positions
       const unregisteredPositions = kiltPositions.filter(position => 
@@ -584,4 +575,4 @@ export class PositionRegistrationService {
   }
 }
 
-export const positionRegistrationService = new PositionRegistrationService(db);
\ No newline at end of file
+export const positionRegistrationService = new PositionRegistrationService(storage);
\ No newline at end of file
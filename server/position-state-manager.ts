@@ -17,9 +17,10 @@ export interface PositionStateContext {
   currentValueUSD: string | number | null;
   hasUnclaimedTokens: boolean;
   isOnBlockchain: boolean;
+  ownedByRegisteredUser?: boolean; // false once the NFT has moved to another wallet
 }
 
-export type PositionState = 'active' | 'inactive' | 'burned';
+export type PositionState = 'active' | 'inactive' | 'burned' | 'transferred';
 
 export class PositionStateManager {
   
@@ -28,15 +29,21 @@ export class PositionStateManager {
    * 
    * LOGIC:
    * - BURNED: Position doesn't exist on blockchain
+   * - TRANSFERRED: Position exists but is owned by a different wallet than registered
    * - ACTIVE: Has liquidity OR significant value (>$100)
    * - INACTIVE: No liquidity and no significant value
    */
   static determinePositionState(context: PositionStateContext): PositionState {
-    // Position was burned/transferred - doesn't exist on blockchain
+    // Position was burned - doesn't exist on blockchain
     if (!context.isOnBlockchain) {
       return 'burned';
     }
 
+    // Position still exists but belongs to another wallet - the registration no longer earns
+    if (context.ownedByRegisteredUser === false) {
+      return 'transferred';
+    }
+
     // Parse USD value safely
     const usdValue = context.currentValueUSD ? parseFloat(context.currentValueUSD.toString()) : 0;
     
@@ -0,0 +1,214 @@
+/**
+ * POSITION TRANSFER SERVICE
+ * Detects registered LP position NFTs that moved to another wallet. The registration is closed
+ * at the transfer time - the reward ledger accrues to the previous owner up to that point - and
+ * the new owner has to register the position to start earning. Every transfer is kept in
+ * position_transfers as an audit trail.
+ */
+
+import { db } from './db';
+import { liquidityEvents, lpPositions, positionTransfers, users, type LpPosition, type PositionTransfer } from '../shared/schema';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { parseAbiItem } from 'viem';
+import { getRpcManager } from './rpc-connection-manager';
+import { getPositionEventIndexer } from './position-event-indexer';
+import { DEFAULT_CHAIN_ID, requireChainConfig } from './chain-registry';
+
+const OWNER_OF_ABI = [parseAbiItem('function ownerOf(uint256 tokenId) view returns (address)')] as const;
+
+export type OwnershipCheck =
+  | { status: 'owned'; owner: string }
+  | { status: 'transferred'; owner: string }
+  | { status: 'burned' }
+  | { status: 'unknown' };
+
+export type PositionOwnershipStatus =
+  | 'unregistered'
+  | 'registered'
+  | 'transferred_pending_registration'
+  | 'burned';
+
+interface TransferDetails {
+  toAddress: string;
+  transferredAt: Date;
+  transactionHash: string | null;
+  blockNumber: number | null;
+  detectionSource: 'indexed_event' | 'owner_check';
+}
+
+class PositionTransferService {
+
+  /**
+   * Compare a registration's owner with the NFT's current owner - indexed events when the
+   * indexer has them, otherwise an ownerOf call
+   */
+  async checkOwnership(tokenId: string, registeredAddress: string, chainId: number = DEFAULT_CHAIN_ID): Promise<OwnershipCheck> {
+    const registered = registeredAddress.toLowerCase();
+    const indexer = getPositionEventIndexer(chainId);
+
+    if (indexer.isCaughtUp()) {
+      const indexed = await indexer.getPositionState(tokenId);
+      if (indexed) {
+        if (indexed.burned) return { status: 'burned' };
+        if (indexed.owner) {
+          return { status: indexed.owner === registered ? 'owned' : 'transferred', owner: indexed.owner };
+        }
+      }
+    }
+
+    try {
+      const owner = await getRpcManager(chainId).executeWithRetry(client => client.readContract({
+        address: requireChainConfig(chainId).uniswap.positionManager,
+        abi: OWNER_OF_ABI,
+        functionName: 'ownerOf',
+        args: [BigInt(tokenId)]
+      }), `ownerOf(${tokenId})`);
+      const current = owner.toLowerCase();
+      return { status: current === registered ? 'owned' : 'transferred', owner: current };
+    } catch (error) {
+      // ownerOf reverts for burned tokens; anything else is treated as an RPC failure
+      const message = error instanceof Error ? error.message : String(error);
+      if (/revert|nonexistent|invalid token/i.test(message)) {
+        return { status: 'burned' };
+      }
+      return { status: 'unknown' };
+    }
+  }
+
+  /**
+   * Close a registration whose NFT now belongs to `currentOwner`. The split point is the
+   * indexed Transfer out of the registered wallet when available, otherwise detection time.
+   */
+  async handleTransfer(position: LpPosition, registeredAddress: string, currentOwner: string): Promise<PositionTransfer | null> {
+    const from = registeredAddress.toLowerCase();
+    const [event] = await db.select().from(liquidityEvents)
+      .where(and(
+        eq(liquidityEvents.nftTokenId, position.nftTokenId),
+        eq(liquidityEvents.chainId, position.chainId),
+        eq(liquidityEvents.eventType, 'transfer'),
+        eq(liquidityEvents.fromAddress, from)
+      ))
+      .orderBy(desc(liquidityEvents.blockNumber), desc(liquidityEvents.logIndex))
+      .limit(1);
+
+    const details: TransferDetails = event
+      ? {
+          toAddress: event.toAddress || currentOwner.toLowerCase(),
+          transferredAt: event.timestamp,
+          transactionHash: event.transactionHash,
+          blockNumber: event.blockNumber,
+          detectionSource: 'indexed_event'
+        }
+      : {
+          toAddress: currentOwner.toLowerCase(),
+          transferredAt: new Date(),
+          transactionHash: null,
+          blockNumber: null,
+          detectionSource: 'owner_check'
+        };
+
+    // A registration created after the transfer (e.g. backdated creation) earns nothing
+    if (position.createdAt && details.transferredAt < position.createdAt) {
+      details.transferredAt = position.createdAt;
+    }
+
+    return this.recordTransfer(position, from, details);
+  }
+
+  private async recordTransfer(position: LpPosition, fromAddress: string, details: TransferDetails): Promise<PositionTransfer | null> {
+    const recorded = await db.transaction(async (tx) => {
+      const closed = await tx.update(lpPositions)
+        .set({ transferredAt: details.transferredAt, isActive: false, rewardEligible: false })
+        .where(and(eq(lpPositions.id, position.id), isNull(lpPositions.transferredAt)))
+        .returning({ id: lpPositions.id });
+      if (closed.length === 0) return null;
+
+      const [transfer] = await tx.insert(positionTransfers)
+        .values({
+          positionId: position.id,
+          nftTokenId: position.nftTokenId,
+          fromUserId: position.userId,
+          fromAddress,
+          toAddress: details.toAddress,
+          transactionHash: details.transactionHash,
+          blockNumber: details.blockNumber,
+          transferredAt: details.transferredAt,
+          detectionSource: details.detectionSource
+        })
+        .onConflictDoNothing()
+        .returning();
+      return transfer ?? null;
+    });
+
+    if (recorded) {
+      console.log(`🔁 TRANSFER: Position ${position.nftTokenId} moved from ${fromAddress} to ${details.toAddress} at ${details.transferredAt.toISOString()} (${details.detectionSource}) - registration closed, awaiting re-registration`);
+    }
+    return recorded;
+  }
+
+  /**
+   * Link a new registration to the transfer that closed the previous one
+   */
+  async resolveReRegistration(nftTokenId: string, userId: number, newPositionId: number): Promise<void> {
+    const resolved = await db.update(positionTransfers)
+      .set({ status: 're_registered', toUserId: userId, newPositionId, resolvedAt: new Date() })
+      .where(and(eq(positionTransfers.nftTokenId, nftTokenId), eq(positionTransfers.status, 'pending_registration')))
+      .returning({ id: positionTransfers.id });
+
+    if (resolved.length > 0) {
+      console.log(`✅ TRANSFER: Position ${nftTokenId} re-registered by user ${userId} as position ${newPositionId}`);
+    }
+  }
+
+  /**
+   * Registration and ownership status for /api/positions/:nftTokenId/status
+   */
+  async getOwnershipStatus(nftTokenId: string, chainId: number = DEFAULT_CHAIN_ID): Promise<{
+    status: PositionOwnershipStatus;
+    registeredTo: string | null;
+    currentOwner: string | null;
+    accrualEndedAt: string | null;
+    transfers: PositionTransfer[];
+  }> {
+    const [current] = await db.select({ position: lpPositions, address: users.address })
+      .from(lpPositions)
+      .leftJoin(users, eq(lpPositions.userId, users.id))
+      .where(and(eq(lpPositions.nftTokenId, nftTokenId), eq(lpPositions.chainId, chainId)))
+      .orderBy(desc(lpPositions.id))
+      .limit(1);
+    const transfers = await this.getTransfers({ nftTokenId });
+
+    if (!current) {
+      return { status: 'unregistered', registeredTo: null, currentOwner: null, accrualEndedAt: null, transfers };
+    }
+
+    const registeredTo = current.address?.toLowerCase() ?? null;
+    const ownership = registeredTo ? await this.checkOwnership(nftTokenId, registeredTo, chainId) : { status: 'unknown' as const };
+    const currentOwner = 'owner' in ownership ? ownership.owner : null;
+    const accrualEndedAt = current.position.transferredAt?.toISOString() ?? null;
+
+    let status: PositionOwnershipStatus = 'registered';
+    if (ownership.status === 'burned') {
+      status = 'burned';
+    } else if (current.position.transferredAt || ownership.status === 'transferred') {
+      status = 'transferred_pending_registration';
+    }
+
+    return { status, registeredTo, currentOwner, accrualEndedAt, transfers };
+  }
+
+  /**
+   * Transfer audit trail, newest first
+   */
+  async getTransfers(filter: { nftTokenId?: string; status?: string } = {}): Promise<PositionTransfer[]> {
+    const conditions = [];
+    if (filter.nftTokenId) conditions.push(eq(positionTransfers.nftTokenId, filter.nftTokenId));
+    if (filter.status) conditions.push(eq(positionTransfers.status, filter.status));
+
+    return db.select().from(positionTransfers)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(positionTransfers.transferredAt));
+  }
+}
+
+export const positionTransferService = new PositionTransferService();
@@ -0,0 +1,117 @@
+/**
+ * Program Settings Service - versioned reward formula parameters
+ * Every admin change inserts a new program_settings row with an effective-from timestamp
+ * instead of updating in place. Reward accrual reads the version in effect for each
+ * interval, so settings changes never rewrite accruals that were already made.
+ */
+
+import type { ProgramSettings } from '../shared/schema';
+import { storage, type IStorage } from './storage';
+
+export interface RewardFormulaSettings {
+  versionId: number | null; // null when no settings have been configured yet
+  timeBoostCoefficient: number; // b_time
+  fullRangeBonus: number; // FRB applied to full-range positions
+  minimumPositionValue: number; // USD, positions below it earn nothing
+  lockPeriod: number;
+  effectiveFrom: Date | null;
+}
+
+export interface ProgramSettingsInput {
+  timeBoostCoefficient: number;
+  fullRangeBonus: number;
+  minimumPositionValue: number;
+  lockPeriod: number;
+  effectiveFrom?: Date;
+  createdBy?: string;
+}
+
+export class ProgramSettingsService {
+  private readonly CACHE_DURATION = 30000; // 30 seconds
+  private versionsCache: { versions: ProgramSettings[]; timestamp: number } | null = null;
+
+  // Values the reward engine used before settings were configurable
+  private readonly LEGACY_DEFAULTS: RewardFormulaSettings = {
+    versionId: null,
+    timeBoostCoefficient: 0.6,
+    fullRangeBonus: 1.0,
+    minimumPositionValue: 0,
+    lockPeriod: 0,
+    effectiveFrom: null
+  };
+
+  constructor(private storage: IStorage) {}
+
+  /**
+   * All versions, newest effectiveFrom first (cached)
+   */
+  async getVersions(): Promise<ProgramSettings[]> {
+    if (this.versionsCache && (Date.now() - this.versionsCache.timestamp) < this.CACHE_DURATION) {
+      return this.versionsCache.versions;
+    }
+
+    const versions = await this.storage.getProgramSettingsVersions();
+    this.versionsCache = { versions, timestamp: Date.now() };
+    return versions;
+  }
+
+  /**
+   * Raw settings row in effect at a point in time
+   */
+  async getEffectiveSettings(at: Date = new Date()): Promise<ProgramSettings | undefined> {
+    return this.storage.getProgramSettings(at);
+  }
+
+  /**
+   * Pick the version in effect at `at` from an already-loaded version list
+   */
+  resolveFromVersions(versions: ProgramSettings[], at: Date): RewardFormulaSettings {
+    const version = versions.find(v => v.effectiveFrom <= at);
+    return version ? this.toFormulaSettings(version) : this.LEGACY_DEFAULTS;
+  }
+
+  /**
+   * Parsed formula settings in effect at a point in time
+   */
+  async getFormulaSettings(at: Date = new Date()): Promise<RewardFormulaSettings> {
+    return this.resolveFromVersions(await this.getVersions(), at);
+  }
+
+  /**
+   * Record a new settings version. effectiveFrom may not be in the past.
+   */
+  async createVersion(input: ProgramSettingsInput): Promise<ProgramSettings> {
+    const now = new Date();
+    const effectiveFrom = input.effectiveFrom && input.effectiveFrom > now ? input.effectiveFrom : now;
+
+    const created = await this.storage.createProgramSettingsVersion({
+      timeBoostCoefficient: input.timeBoostCoefficient.toString(),
+      fullRangeBonus: input.fullRangeBonus.toString(),
+      minimumPositionValue: input.minimumPositionValue.toString(),
+      lockPeriod: input.lockPeriod,
+      effectiveFrom,
+      createdBy: input.createdBy,
+      updatedAt: now
+    });
+
+    this.clearCache();
+    return created;
+  }
+
+  private toFormulaSettings(version: ProgramSettings): RewardFormulaSettings {
+    return {
+      versionId: version.id,
+      timeBoostCoefficient: parseFloat(version.timeBoostCoefficient),
+      fullRangeBonus: parseFloat(version.fullRangeBonus),
+      minimumPositionValue: parseFloat(version.minimumPositionValue),
+      lockPeriod: version.lockPeriod,
+      effectiveFrom: version.effectiveFrom
+    };
+  }
+
+  clearCache(): void {
+    this.versionsCache = null;
+  }
+}
+
+export const programSettingsService = new ProgramSettingsService(storage);
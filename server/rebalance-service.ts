@@ -0,0 +1,712 @@
+/**
+ * REBALANCE SERVICE
+ * Plans moving an out-of-range position into a fresh range: the new ticks come from the shared
+ * range strategies, withdrawn tokens are re-balanced with a single swap to the new range's ratio,
+ * and the plan carries the unsigned decrease → collect → swap → mint transactions for the
+ * user's wallet to send in order. Swap output is quoted on-chain (QuoterV2) and gas is priced
+ * at the chain's current gas price.
+ *
+ * Once the new position is registered it inherits the old one's time boost anchor, so the
+ * rebalance does not reset the boost the user has built up.
+ */
+
+import { db } from './db';
+import { lpPositions, type LpPosition } from '@shared/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { encodeFunctionData, getAddress, type Hex } from 'viem';
+import { calculateTickRange, tickSpacingForFee, type RangeStrategy } from '@shared/range-strategies';
+import { getRpcManager } from './rpc-connection-manager';
+import { requireChainConfig } from './chain-registry';
+import { AuthenticFeeService } from './authentic-fee-service';
+import { blockchainConfigService } from './blockchain-config-service';
+import { simpleGasService } from './simple-gas-service';
+import { kiltPriceService } from './kilt-price-service';
+
+const MAX_UINT128 = 2n ** 128n - 1n;
+const Q96 = 2 ** 96;
+
+// Gas units per step, measured on Base - used with the live gas price for the cost estimate
+const STEP_GAS_LIMITS = {
+  decrease: 180000n,
+  collect: 120000n,
+  approve: 60000n,
+  swap: 180000n,
+  mint: 450000n
+};
+
+// Swaps worth less than this are skipped - the leftover stays in the wallet
+const MIN_SWAP_USD = 1;
+
+const POSITION_MANAGER_ABI = [
+  {
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    name: 'positions',
+    outputs: [
+      { name: 'nonce', type: 'uint96' },
+      { name: 'operator', type: 'address' },
+      { name: 'token0', type: 'address' },
+      { name: 'token1', type: 'address' },
+      { name: 'fee', type: 'uint24' },
+      { name: 'tickLower', type: 'int24' },
+      { name: 'tickUpper', type: 'int24' },
+      { name: 'liquidity', type: 'uint128' },
+      { name: 'feeGrowthInside0LastX128', type: 'uint256' },
+      { name: 'feeGrowthInside1LastX128', type: 'uint256' },
+      { name: 'tokensOwed0', type: 'uint128' },
+      { name: 'tokensOwed1', type: 'uint128' }
+    ],
+    stateMutability: 'view',
+    type: 'function'
+  },
+  {
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    name: 'ownerOf',
+    outputs: [{ name: 'owner', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function'
+  },
+  {
+    inputs: [{
+      components: [
+        { name: 'tokenId', type: 'uint256' },
+        { name: 'liquidity', type: 'uint128' },
+        { name: 'amount0Min', type: 'uint256' },
+        { name: 'amount1Min', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+      ],
+      name: 'params',
+      type: 'tuple'
+    }],
+    name: 'decreaseLiquidity',
+    outputs: [{ name: 'amount0', type: 'uint256' }, { name: 'amount1', type: 'uint256' }],
+    stateMutability: 'payable',
+    type: 'function'
+  },
+  {
+    inputs: [{
+      components: [
+        { name: 'tokenId', type: 'uint256' },
+        { name: 'recipient', type: 'address' },
+        { name: 'amount0Max', type: 'uint128' },
+        { name: 'amount1Max', type: 'uint128' }
+      ],
+      name: 'params',
+      type: 'tuple'
+    }],
+    name: 'collect',
+    outputs: [{ name: 'amount0', type: 'uint256' }, { name: 'amount1', type: 'uint256' }],
+    stateMutability: 'payable',
+    type: 'function'
+  },
+  {
+    inputs: [{
+      components: [
+        { name: 'token0', type: 'address' },
+        { name: 'token1', type: 'address' },
+        { name: 'fee', type: 'uint24' },
+        { name: 'tickLower', type: 'int24' },
+        { name: 'tickUpper', type: 'int24' },
+        { name: 'amount0Desired', type: 'uint256' },
+        { name: 'amount1Desired', type: 'uint256' },
+        { name: 'amount0Min', type: 'uint256' },
+        { name: 'amount1Min', type: 'uint256' },
+        { name: 'recipient', type: 'address' },
+        { name: 'deadline', type: 'uint256' }
+      ],
+      name: 'params',
+      type: 'tuple'
+    }],
+    name: 'mint',
+    outputs: [
+      { name: 'tokenId', type: 'uint256' },
+      { name: 'liquidity', type: 'uint128' },
+      { name: 'amount0', type: 'uint256' },
+      { name: 'amount1', type: 'uint256' }
+    ],
+    stateMutability: 'payable',
+    type: 'function'
+  }
+] as const;
+
+const POOL_ABI = [
+  {
+    inputs: [],
+    name: 'slot0',
+    outputs: [
+      { name: 'sqrtPriceX96', type: 'uint160' },
+      { name: 'tick', type: 'int24' },
+      { name: 'observationIndex', type: 'uint16' },
+      { name: 'observationCardinality', type: 'uint16' },
+      { name: 'observationCardinalityNext', type: 'uint16' },
+      { name: 'feeProtocol', type: 'uint8' },
+      { name: 'unlocked', type: 'bool' }
+    ],
+    stateMutability: 'view',
+    type: 'function'
+  }
+] as const;
+
+const FACTORY_ABI = [
+  {
+    inputs: [{ name: 'tokenA', type: 'address' }, { name: 'tokenB', type: 'address' }, { name: 'fee', type: 'uint24' }],
+    name: 'getPool',
+    outputs: [{ name: 'pool', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function'
+  }
+] as const;
+
+// QuoterV2 is nonpayable but only ever eth_call'ed
+const QUOTER_V2_ABI = [
+  {
+    inputs: [{
+      components: [
+        { name: 'tokenIn', type: 'address' },
+        { name: 'tokenOut', type: 'address' },
+        { name: 'amountIn', type: 'uint256' },
+        { name: 'fee', type: 'uint24' },
+        { name: 'sqrtPriceLimitX96', type: 'uint160' }
+      ],
+      name: 'params',
+      type: 'tuple'
+    }],
+    name: 'quoteExactInputSingle',
+    outputs: [
+      { name: 'amountOut', type: 'uint256' },
+      { name: 'sqrtPriceX96After', type: 'uint160' },
+      { name: 'initializedTicksCrossed', type: 'uint32' },
+      { name: 'gasEstimate', type: 'uint256' }
+    ],
+    stateMutability: 'view',
+    type: 'function'
+  }
+] as const;
+
+// SwapRouter02 - no deadline in the exactInputSingle params
+const SWAP_ROUTER_ABI = [
+  {
+    inputs: [{
+      components: [
+        { name: 'tokenIn', type: 'address' },
+        { name: 'tokenOut', type: 'address' },
+        { name: 'fee', type: 'uint24' },
+        { name: 'recipient', type: 'address' },
+        { name: 'amountIn', type: 'uint256' },
+        { name: 'amountOutMinimum', type: 'uint256' },
+        { name: 'sqrtPriceLimitX96', type: 'uint160' }
+      ],
+      name: 'params',
+      type: 'tuple'
+    }],
+    name: 'exactInputSingle',
+    outputs: [{ name: 'amountOut', type: 'uint256' }],
+    stateMutability: 'payable',
+    type: 'function'
+  }
+] as const;
+
+const ERC20_ABI = [
+  {
+    inputs: [{ name: 'owner', type: 'address' }, { name: 'spender', type: 'address' }],
+    name: 'allowance',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function'
+  },
+  {
+    inputs: [{ name: 'spender', type: 'address' }, { name: 'amount', type: 'uint256' }],
+    name: 'approve',
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+    type: 'function'
+  },
+  {
+    inputs: [],
+    name: 'decimals',
+    outputs: [{ name: '', type: 'uint8' }],
+    stateMutability: 'view',
+    type: 'function'
+  }
+] as const;
+
+export type RebalanceStep = 'decrease' | 'collect' | 'approve' | 'swap' | 'mint';
+
+export interface RebalanceTransaction {
+  step: RebalanceStep;
+  description: string;
+  to: string;
+  data: Hex;
+  value: string;
+  gasLimit: string;
+}
+
+export interface RebalancePlan {
+  nftTokenId: string;
+  chainId: number;
+  poolAddress: string;
+  strategy: RangeStrategy | string;
+  slippagePercent: number;
+  currentTick: number;
+  currentRange: { tickLower: number; tickUpper: number; isInRange: boolean };
+  proposedRange: { tickLower: number; tickUpper: number; priceLower: number; priceUpper: number };
+  tokens: {
+    token0: { address: string; decimals: number; priceUSD: number };
+    token1: { address: string; decimals: number; priceUSD: number };
+  };
+  withdrawn: { amount0: string; amount1: string; valueUSD: number }; // Liquidity plus uncollected fees
+  swap: {
+    tokenIn: string;
+    tokenOut: string;
+    amountIn: string;
+    expectedAmountOut: string;
+    minAmountOut: string;
+    poolFeeUSD: number;
+    priceImpactPercent: number;
+    costUSD: number; // Pool fee plus price impact
+    quoteSource: 'quoter' | 'spot';
+  } | null;
+  mint: { amount0Desired: string; amount1Desired: string; amount0Min: string; amount1Min: string };
+  gas: { gasPriceGwei: number; gasUnits: string; costETH: number; costUSD: number };
+  totalCostUSD: number;
+  transactions: RebalanceTransaction[];
+}
+
+interface PlanOptions {
+  userAddress: string;
+  strategy: string;
+  chainId: number;
+  slippagePercent: number;
+  deadlineMinutes?: number;
+}
+
+class RebalanceService {
+  /**
+   * Build a rebalance plan for a position owned by userAddress
+   */
+  async planRebalance(nftTokenId: string, options: PlanOptions): Promise<{ success: boolean; plan?: RebalancePlan; error?: string }> {
+    try {
+      const chain = requireChainConfig(options.chainId);
+      const rpc = getRpcManager(options.chainId);
+      const tokenId = BigInt(nftTokenId);
+      const userAddress = getAddress(options.userAddress);
+      const slippage = options.slippagePercent / 100;
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + (options.deadlineMinutes ?? 20) * 60);
+
+      const [owner, position] = await Promise.all([
+        rpc.executeWithRetry(client => client.readContract({
+          address: chain.uniswap.positionManager, abi: POSITION_MANAGER_ABI, functionName: 'ownerOf', args: [tokenId]
+        }), 'rebalance-ownerOf'),
+        rpc.executeWithRetry(client => client.readContract({
+          address: chain.uniswap.positionManager, abi: POSITION_MANAGER_ABI, functionName: 'positions', args: [tokenId]
+        }), 'rebalance-positions')
+      ]);
+      if (getAddress(owner) !== userAddress) {
+        return { success: false, error: `Position ${nftTokenId} is not owned by ${userAddress}` };
+      }
+
+      const [, , token0, token1, fee, tickLower, tickUpper, liquidity] = position;
+      if (liquidity === 0n) {
+        return { success: false, error: `Position ${nftTokenId} has no liquidity to rebalance` };
+      }
+
+      const poolAddress = await rpc.executeWithRetry(client => client.readContract({
+        address: chain.uniswap.factory, abi: FACTORY_ABI, functionName: 'getPool', args: [token0, token1, fee]
+      }), 'rebalance-getPool');
+      const [slot0, decimals0, decimals1, fees] = await Promise.all([
+        rpc.executeWithRetry(client => client.readContract({ address: poolAddress, abi: POOL_ABI, functionName: 'slot0' }), 'rebalance-slot0'),
+        rpc.executeWithRetry(client => client.readContract({ address: token0, abi: ERC20_ABI, functionName: 'decimals' }), 'rebalance-decimals0'),
+        rpc.executeWithRetry(client => client.readContract({ address: token1, abi: ERC20_ABI, functionName: 'decimals' }), 'rebalance-decimals1'),
+        AuthenticFeeService.getUnclaimedFees(nftTokenId, options.chainId)
+      ]);
+      const [sqrtPriceX96, currentTick] = slot0;
+
+      const proposed = calculateTickRange(options.strategy, currentTick, tickSpacingForFee(fee));
+      if (proposed.tickLower === tickLower && proposed.tickUpper === tickUpper) {
+        return { success: false, error: 'Position already uses the proposed range' };
+      }
+
+      // Amounts are in raw token units; price is token1 per token0 in raw units
+      const sqrtPrice = Number(sqrtPriceX96) / Q96;
+      const price = sqrtPrice * sqrtPrice;
+      const current = this.amountsForLiquidity(Number(liquidity), sqrtPrice, tickLower, tickUpper);
+      const withdrawn0 = current.amount0 + Number(fees.token0 || 0);
+      const withdrawn1 = current.amount1 + Number(fees.token1 || 0);
+
+      const prices = await this.getTokenPricesUSD(token0, token1, decimals0, decimals1, price, chain.weth);
+      const valueUSD = (amount0: number, amount1: number) =>
+        (amount0 / 10 ** decimals0) * prices.token0 + (amount1 / 10 ** decimals1) * prices.token1;
+
+      // Split the withdrawn value in the ratio one unit of liquidity needs in the new range
+      const unit = this.amountsForLiquidity(1, sqrtPrice, proposed.tickLower, proposed.tickUpper);
+      const totalInToken1 = withdrawn0 * price + withdrawn1;
+      const target0 = unit.amount0 * price + unit.amount1 > 0
+        ? totalInToken1 * (unit.amount0 * price) / (unit.amount0 * price + unit.amount1) / price
+        : withdrawn0;
+
+      const zeroForOne = withdrawn0 > target0;
+      const amountIn = zeroForOne ? withdrawn0 - target0 : withdrawn1 - (totalInToken1 - target0 * price);
+      const spotOut = zeroForOne ? amountIn * price : amountIn / price;
+      const amountInUSD = zeroForOne ? valueUSD(amountIn, 0) : valueUSD(0, amountIn);
+
+      let swap: RebalancePlan['swap'] = null;
+      let final0 = withdrawn0;
+      let final1 = withdrawn1;
+      if (amountIn > 0 && amountInUSD >= MIN_SWAP_USD) {
+        const tokenIn = zeroForOne ? token0 : token1;
+        const tokenOut = zeroForOne ? token1 : token0;
+        const amountInRaw = BigInt(Math.floor(amountIn));
+        const quoted = await this.quote(options.chainId, tokenIn, tokenOut, amountInRaw, fee);
+        const expectedOut = quoted ?? spotOut * (1 - fee / 1_000_000);
+        const amountOutUSD = zeroForOne ? valueUSD(0, expectedOut) : valueUSD(expectedOut, 0);
+        const poolFeeUSD = amountInUSD * fee / 1_000_000;
+
+        swap = {
+          tokenIn,
+          tokenOut,
+          amountIn: amountInRaw.toString(),
+          expectedAmountOut: BigInt(Math.floor(expectedOut)).toString(),
+          minAmountOut: BigInt(Math.floor(expectedOut * (1 - slippage))).toString(),
+          poolFeeUSD,
+          priceImpactPercent: Math.max(0, (1 - expectedOut / (spotOut * (1 - fee / 1_000_000))) * 100),
+          costUSD: Math.max(0, amountInUSD - amountOutUSD),
+          quoteSource: quoted !== null ? 'quoter' : 'spot'
+        };
+        final0 = zeroForOne ? withdrawn0 - amountIn : withdrawn0 + expectedOut;
+        final1 = zeroForOne ? withdrawn1 + expectedOut : withdrawn1 - amountIn;
+      }
+
+      // Minimums follow the amounts the mint is expected to use, not the amounts offered
+      const mintLiquidity = Math.min(
+        unit.amount0 > 0 ? final0 / unit.amount0 : Infinity,
+        unit.amount1 > 0 ? final1 / unit.amount1 : Infinity
+      );
+      const mint = {
+        amount0Desired: BigInt(Math.floor(final0 * (1 - 1e-6))),
+        amount1Desired: BigInt(Math.floor(final1 * (1 - 1e-6))),
+        amount0Min: BigInt(Math.floor(mintLiquidity * unit.amount0 * (1 - slippage))),
+        amount1Min: BigInt(Math.floor(mintLiquidity * unit.amount1 * (1 - slippage)))
+      };
+
+      const transactions = await this.buildTransactions({
+        chainId: options.chainId,
+        tokenId,
+        liquidity,
+        userAddress,
+        token0,
+        token1,
+        fee,
+        proposed,
+        deadline,
+        decreaseMin0: BigInt(Math.floor(current.amount0 * (1 - slippage))),
+        decreaseMin1: BigInt(Math.floor(current.amount1 * (1 - slippage))),
+        swap,
+        mint
+      });
+
+      const [gasPrice, ethPrice] = await Promise.all([
+        rpc.executeWithRetry(client => client.getGasPrice(), 'rebalance-gasPrice'),
+        simpleGasService.getETHPrice()
+      ]);
+      const gasUnits = transactions.reduce((sum, tx) => sum + BigInt(tx.gasLimit), 0n);
+      const gasCostETH = Number(gasUnits * gasPrice) / 1e18;
+      const gas = {
+        gasPriceGwei: Number(gasPrice) / 1e9,
+        gasUnits: gasUnits.toString(),
+        costETH: gasCostETH,
+        costUSD: gasCostETH * ethPrice
+      };
+
+      const plan: RebalancePlan = {
+        nftTokenId,
+        chainId: options.chainId,
+        poolAddress,
+        strategy: options.strategy,
+        slippagePercent: options.slippagePercent,
+        currentTick,
+        currentRange: { tickLower, tickUpper, isInRange: currentTick >= tickLower && currentTick < tickUpper },
+        proposedRange: {
+          ...proposed,
+          priceLower: this.tickToPrice(proposed.tickLower, decimals0, decimals1),
+          priceUpper: this.tickToPrice(proposed.tickUpper, decimals0, decimals1)
+        },
+        tokens: {
+          token0: { address: token0, decimals: decimals0, priceUSD: prices.token0 },
+          token1: { address: token1, decimals: decimals1, priceUSD: prices.token1 }
+        },
+        withdrawn: {
+          amount0: BigInt(Math.floor(withdrawn0)).toString(),
+          amount1: BigInt(Math.floor(withdrawn1)).toString(),
+          valueUSD: valueUSD(withdrawn0, withdrawn1)
+        },
+        swap,
+        mint: {
+          amount0Desired: mint.amount0Desired.toString(),
+          amount1Desired: mint.amount1Desired.toString(),
+          amount0Min: mint.amount0Min.toString(),
+          amount1Min: mint.amount1Min.toString()
+        },
+        gas,
+        totalCostUSD: (swap?.costUSD ?? 0) + gas.costUSD,
+        transactions
+      };
+
+      console.log(`♻️ REBALANCE: Planned #${nftTokenId} ${tickLower}/${tickUpper} → ${proposed.tickLower}/${proposed.tickUpper} (${transactions.length} txs, ~$${plan.totalCostUSD.toFixed(2)})`);
+      return { success: true, plan };
+    } catch (error: unknown) {
+      console.error(`❌ Rebalance plan failed for position ${nftTokenId}:`, error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to plan rebalance' };
+    }
+  }
+
+  /**
+   * Link a newly registered position to the one it replaced. The new position's time boost
+   * counts from the old position's anchor; the old one must be emptied on-chain first so the
+   * boost cannot earn twice.
+   */
+  async carryOverRewardHistory(newPosition: LpPosition, fromNftTokenId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const [previous] = await db.select().from(lpPositions)
+        .where(and(
+          eq(lpPositions.nftTokenId, fromNftTokenId),
+          eq(lpPositions.chainId, newPosition.chainId),
+          eq(lpPositions.userId, newPosition.userId!)
+        ))
+        .orderBy(desc(lpPositions.createdAt))
+        .limit(1);
+      if (!previous || previous.id === newPosition.id) {
+        return { success: false, error: `Position ${fromNftTokenId} is not registered to this user` };
+      }
+      if (previous.programId !== newPosition.programId) {
+        return { success: false, error: 'A rebalanced position must stay in the same incentive program' };
+      }
+
+      const [alreadyLinked] = await db.select({ id: lpPositions.id }).from(lpPositions)
+        .where(eq(lpPositions.rebalancedFromPositionId, previous.id))
+        .limit(1);
+      if (alreadyLinked) {
+        return { success: false, error: `Position ${fromNftTokenId} was already rebalanced into another position` };
+      }
+
+      const chain = requireChainConfig(newPosition.chainId);
+      const onChain = await getRpcManager(newPosition.chainId).executeWithRetry(client => client.readContract({
+        address: chain.uniswap.positionManager, abi: POSITION_MANAGER_ABI, functionName: 'positions', args: [BigInt(fromNftTokenId)]
+      }), 'rebalance-previous-positions');
+      if (onChain[7] > 0n) {
+        return { success: false, error: `Position ${fromNftTokenId} still holds liquidity` };
+      }
+
+      const timeBoostStartedAt = previous.timeBoostStartedAt ?? previous.createdAt;
+      await db.transaction(async (tx) => {
+        await tx.update(lpPositions)
+          .set({ rebalancedFromPositionId: previous.id, timeBoostStartedAt })
+          .where(eq(lpPositions.id, newPosition.id));
+        await tx.update(lpPositions)
+          .set({ isActive: false })
+          .where(eq(lpPositions.id, previous.id));
+      });
+
+      console.log(`♻️ REBALANCE: #${newPosition.nftTokenId} continues time boost of #${fromNftTokenId} from ${timeBoostStartedAt?.toISOString()}`);
+      return { success: true };
+    } catch (error: unknown) {
+      console.error(`❌ Rebalance carry-over failed for ${fromNftTokenId} → ${newPosition.nftTokenId}:`, error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to carry over reward history' };
+    }
+  }
+
+  /**
+   * decrease → collect → (approvals) → swap → (approvals) → mint, each sent by the owner's wallet
+   */
+  private async buildTransactions(params: {
+    chainId: number;
+    tokenId: bigint;
+    liquidity: bigint;
+    userAddress: `0x${string}`;
+    token0: `0x${string}`;
+    token1: `0x${string}`;
+    fee: number;
+    proposed: { tickLower: number; tickUpper: number };
+    deadline: bigint;
+    decreaseMin0: bigint;
+    decreaseMin1: bigint;
+    swap: RebalancePlan['swap'];
+    mint: { amount0Desired: bigint; amount1Desired: bigint; amount0Min: bigint; amount1Min: bigint };
+  }): Promise<RebalanceTransaction[]> {
+    const chain = requireChainConfig(params.chainId);
+    const positionManager = chain.uniswap.positionManager;
+    const transactions: RebalanceTransaction[] = [
+      {
+        step: 'decrease',
+        description: `Remove all liquidity from position #${params.tokenId}`,
+        to: positionManager,
+        data: encodeFunctionData({
+          abi: POSITION_MANAGER_ABI,
+          functionName: 'decreaseLiquidity',
+          args: [{
+            tokenId: params.tokenId,
+            liquidity: params.liquidity,
+            amount0Min: params.decreaseMin0,
+            amount1Min: params.decreaseMin1,
+            deadline: params.deadline
+          }]
+        }),
+        value: '0',
+        gasLimit: STEP_GAS_LIMITS.decrease.toString()
+      },
+      {
+        step: 'collect',
+        description: 'Collect withdrawn tokens and unclaimed fees to your wallet',
+        to: positionManager,
+        data: encodeFunctionData({
+          abi: POSITION_MANAGER_ABI,
+          functionName: 'collect',
+          args: [{ tokenId: params.tokenId, recipient: params.userAddress, amount0Max: MAX_UINT128, amount1Max: MAX_UINT128 }]
+        }),
+        value: '0',
+        gasLimit: STEP_GAS_LIMITS.collect.toString()
+      }
+    ];
+
+    if (params.swap) {
+      const amountIn = BigInt(params.swap.amountIn);
+      transactions.push(...await this.approvalIfNeeded(params.chainId, params.swap.tokenIn as `0x${string}`, params.userAddress, chain.uniswap.swapRouter, amountIn));
+      transactions.push({
+        step: 'swap',
+        description: 'Swap to the new range\'s token ratio',
+        to: chain.uniswap.swapRouter,
+        data: encodeFunctionData({
+          abi: SWAP_ROUTER_ABI,
+          functionName: 'exactInputSingle',
+          args: [{
+            tokenIn: params.swap.tokenIn as `0x${string}`,
+            tokenOut: params.swap.tokenOut as `0x${string}`,
+            fee: params.fee,
+            recipient: params.userAddress,
+            amountIn,
+            amountOutMinimum: BigInt(params.swap.minAmountOut),
+            sqrtPriceLimitX96: 0n
+          }]
+        }),
+        value: '0',
+        gasLimit: STEP_GAS_LIMITS.swap.toString()
+      });
+    }
+
+    transactions.push(...await this.approvalIfNeeded(params.chainId, params.token0, params.userAddress, positionManager, params.mint.amount0Desired));
+    transactions.push(...await this.approvalIfNeeded(params.chainId, params.token1, params.userAddress, positionManager, params.mint.amount1Desired));
+    transactions.push({
+      step: 'mint',
+      description: `Mint the new position (ticks ${params.proposed.tickLower} to ${params.proposed.tickUpper})`,
+      to: positionManager,
+      data: encodeFunctionData({
+        abi: POSITION_MANAGER_ABI,
+        functionName: 'mint',
+        args: [{
+          token0: params.token0,
+          token1: params.token1,
+          fee: params.fee,
+          tickLower: params.proposed.tickLower,
+          tickUpper: params.proposed.tickUpper,
+          amount0Desired: params.mint.amount0Desired,
+          amount1Desired: params.mint.amount1Desired,
+          amount0Min: params.mint.amount0Min,
+          amount1Min: params.mint.amount1Min,
+          recipient: params.userAddress,
+          deadline: params.deadline
+        }]
+      }),
+      value: '0',
+      gasLimit: STEP_GAS_LIMITS.mint.toString()
+    });
+
+    return transactions;
+  }
+
+  private async approvalIfNeeded(
+    chainId: number,
+    token: `0x${string}`,
+    owner: `0x${string}`,
+    spender: `0x${string}`,
+    amount: bigint
+  ): Promise<RebalanceTransaction[]> {
+    if (amount === 0n) return [];
+    const allowance = await getRpcManager(chainId).executeWithRetry(client => client.readContract({
+      address: token, abi: ERC20_ABI, functionName: 'allowance', args: [owner, spender]
+    }), 'rebalance-allowance');
+    if (allowance >= amount) return [];
+
+    return [{
+      step: 'approve',
+      description: `Approve ${token} for ${spender}`,
+      to: token,
+      data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'approve', args: [spender, amount] }),
+      value: '0',
+      gasLimit: STEP_GAS_LIMITS.approve.toString()
+    }];
+  }
+
+  // Returns null when the quoter is unavailable - the plan falls back to the spot price
+  private async quote(chainId: number, tokenIn: `0x${string}`, tokenOut: `0x${string}`, amountIn: bigint, fee: number): Promise<number | null> {
+    try {
+      const chain = requireChainConfig(chainId);
+      const [amountOut] = await getRpcManager(chainId).executeWithRetry(client => client.readContract({
+        address: chain.uniswap.quoter,
+        abi: QUOTER_V2_ABI,
+        functionName: 'quoteExactInputSingle',
+        args: [{ tokenIn, tokenOut, amountIn, fee, sqrtPriceLimitX96: 0n }]
+      }), 'rebalance-quote');
+      return Number(amountOut);
+    } catch (error: unknown) {
+      console.warn('⚠️ REBALANCE: Quoter unavailable, using spot price:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private async getTokenPricesUSD(
+    token0: string,
+    token1: string,
+    decimals0: number,
+    decimals1: number,
+    rawPrice: number,
+    weth: string
+  ): Promise<{ token0: number; token1: number }> {
+    const { kilt } = await blockchainConfigService.getTokenAddresses();
+    const ethPrice = await simpleGasService.getETHPrice();
+    const known = (token: string): number | null => {
+      if (token.toLowerCase() === kilt.toLowerCase()) return kiltPriceService.getCurrentPrice();
+      if (token.toLowerCase() === weth.toLowerCase()) return ethPrice;
+      return null;
+    };
+
+    // Token1 per token0 in whole units - prices the side without a feed off the other
+    const humanPrice = rawPrice * 10 ** (decimals0 - decimals1);
+    const price0 = known(token0);
+    const price1 = known(token1);
+    return {
+      token0: price0 ?? (price1 !== null ? price1 * humanPrice : 0),
+      token1: price1 ?? (price0 !== null && humanPrice > 0 ? price0 / humanPrice : 0)
+    };
+  }
+
+  // Token amounts (raw units) for a liquidity amount at the current sqrt price
+  private amountsForLiquidity(liquidity: number, sqrtPrice: number, tickLower: number, tickUpper: number): { amount0: number; amount1: number } {
+    const sqrtLower = Math.pow(1.0001, tickLower / 2);
+    const sqrtUpper = Math.pow(1.0001, tickUpper / 2);
+    if (sqrtPrice <= sqrtLower) {
+      return { amount0: liquidity * (1 / sqrtLower - 1 / sqrtUpper), amount1: 0 };
+    }
+    if (sqrtPrice >= sqrtUpper) {
+      return { amount0: 0, amount1: liquidity * (sqrtUpper - sqrtLower) };
+    }
+    return {
+      amount0: liquidity * (1 / sqrtPrice - 1 / sqrtUpper),
+      amount1: liquidity * (sqrtPrice - sqrtLower)
+    };
+  }
+
+  // Price of token0 in token1, whole units
+  private tickToPrice(tick: number, decimals0: number, decimals1: number): number {
+    return Math.pow(1.0001, tick) * 10 ** (decimals0 - decimals1);
+  }
+}
+
+export const rebalanceService = new RebalanceService();
@@ -2,8 +2,6 @@ import { createPublicClient, createWalletClient, http, parseEther, formatEther }
 import { base } from 'viem/chains';
 import { privateKeyToAccount } from 'viem/accounts';
 import { storage } from './storage';
-import { db } from './db';
-import { adminOperations } from '../shared/schema';
 
 // ERC20 ABI for KILT token transfers
 const KILT_TOKEN_ABI = [
@@ -148,7 +146,7 @@ export class RewardDistributionService {
           });
 
           // Log operation to admin operations table
-          await db.insert(adminOperations).values({
+          await storage.createAdminOperation({
             operation: 'REWARD_DISTRIBUTION',
             operationDetails: `Distributed ${recipient.amount} KILT to ${recipient.userAddress} for NFT ${recipient.nftTokenId}`,
             performedBy: 'automated_system',
@@ -164,7 +162,7 @@ export class RewardDistributionService {
           });
 
           // Log failed operation
-          await db.insert(adminOperations).values({
+          await storage.createAdminOperation({
             operation: 'REWARD_DISTRIBUTION',
             operationDetails: `Failed to distribute ${recipient.amount} KILT to ${recipient.userAddress}`,
             performedBy: 'automated_system',
@@ -206,26 +204,12 @@ export class RewardDistributionService {
     reason: string;
   }>> {
     try {
-      // Import required database components
-      const { db } = await import('../db');
-      const { users, rewards } = await import('../../shared/schema');
-      const { eq, isNull } = await import('drizzle-orm');
-      
-      // Query database for users with claimable rewards
-      // Get all claimable rewards from database directly 
-      const eligibleRewards = await db.select({
-        userAddress: users.address,
-        dailyRewardAmount: rewards.dailyRewardAmount,
-        nftTokenId: rewards.nftTokenId
-      })
-        .from(rewards)
-        .innerJoin(users, eq(rewards.userId, users.id))
-        .where(isNull(rewards.claimedAt));
-      
-      return eligibleRewards.map((row: any) => ({
-        userAddress: row.userAddress || '',
-        amount: row.dailyRewardAmount || '0',
-        nftTokenId: row.nftTokenId || '',
+      const eligibleRewards = await storage.getUnclaimedRewards();
+
+      return eligibleRewards.map(row => ({
+        userAddress: row.userAddress,
+        amount: row.dailyRewardAmount,
+        nftTokenId: row.nftTokenId,
         reason: `Liquidity rewards for position ${row.nftTokenId}`
       }));
 
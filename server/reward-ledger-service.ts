@@ -0,0 +1,695 @@
+/**
+ * Reward Ledger Service - Append-only, replayable reward accrual
+ * Writes one daily_rewards entry per position per closed UTC day. Each entry stores the
+ * formula inputs it was computed from, so totals are plain sums over the ledger and any
+ * past day can be re-derived and audited without depending on today's price or TVL.
+ *
+ * Days are allocated per incentive program: every participating position's share is computed
+ * together and normalized so the day's total never exceeds the program's daily budget.
+ * Partner tokens are written to daily_token_rewards alongside each entry, scaled from the
+ * entry's primary amount by the ratio of the partner token's daily budget to the program's.
+ *
+ * Registrations stored after their first days closed are backfilled into those days from
+ * whatever budget is left. Past days are valued at today's currentValueUSD, and a position
+ * closed before its days are accrued is not backfilled (positions keep no close time).
+ */
+
+import type { DailyReward, InsertDailyTokenReward, LpPosition, PoolTickSample, RewardAllocation } from '../shared/schema';
+import { storage, type DailyRewardEntry, type IStorage } from './storage';
+import { programSettingsService, type RewardFormulaSettings } from './program-settings-service';
+
+/**
+ * Parameters in effect when a day is accrued. Snapshotted into the ledger entries.
+ */
+export interface AccrualParameters {
+  programId: number;
+  dailyBudget: number; // R - program daily budget
+  programDurationDays: number; // P
+  programStartDate?: Date | null;
+  programEndDate?: Date | null;
+  baseAPR: number;
+  partnerTokens: Array<{ tokenAddress: string; tokenSymbol: string; dailyBudget: number }>;
+}
+
+/**
+ * Inputs of a single ledger entry - everything needed to re-derive its reward amount
+ */
+export interface LedgerInputs {
+  userLiquidity: number; // L_u
+  totalLiquidity: number; // L_T
+  timeBoost: number;
+  inRangeMultiplier: number; // IRM
+  fullRangeBonus: number; // FRB
+  dailyBudget: number; // R
+  intervalHours: number;
+  allocationScale: number;
+}
+
+/**
+ * Result of a program's allocation for one day
+ */
+export interface DayAllocation {
+  programId: number;
+  date: string;
+  dailyRewardsCap: number;
+  totalAllocated: number;
+  totalLiquidity: number;
+  positionCount: number;
+  normalizationFactor: number;
+  rewards: Map<number, number>; // positionId -> primary reward token
+}
+
+export interface AllocationSummary {
+  daysAllocated: number;
+  totalAllocated: number;
+  totalCap: number;
+  utilization: number;
+  latest: RewardAllocation | null;
+}
+
+export interface LedgerAuditEntry {
+  entryId: number;
+  positionId: number;
+  userId: number;
+  date: string;
+  storedAmount: number;
+  derivedAmount: number;
+  matches: boolean;
+}
+
+export interface InRangeResult {
+  fraction: number; // 0..1 share of the interval spent in range
+  sampleCount: number;
+  hasData: boolean; // false when no sample covers the interval (fraction falls back to 1.0)
+}
+
+export class RewardLedgerService {
+  private readonly MS_PER_DAY = 24 * 60 * 60 * 1000;
+  private readonly AUDIT_TOLERANCE = 1e-6; // decimal(18, 8) rounding
+  private readonly MIN_TICK = -887272;
+  private readonly MAX_TICK = 887272;
+  private readonly TICK_SPACING: Record<number, number> = { 100: 1, 500: 10, 3000: 60, 10000: 200 };
+  private lastAccruedDay: Map<number, string> = new Map(); // programId -> day key
+  private accrualInFlight: Map<number, Promise<number>> = new Map();
+
+  constructor(private storage: IStorage) {}
+
+  /**
+   * CORE FORMULA: R_u = (L_u/L_T) × timeBoost × IRM × FRB × R × (intervalHours/24) × scale
+   */
+  computeReward(inputs: LedgerInputs): number {
+    if (inputs.userLiquidity <= 0 || inputs.totalLiquidity <= 0) return 0;
+    const liquidityRatio = inputs.userLiquidity / inputs.totalLiquidity;
+    const reward = liquidityRatio * inputs.timeBoost * inputs.inRangeMultiplier *
+      inputs.fullRangeBonus * inputs.dailyBudget * (inputs.intervalHours / 24) * inputs.allocationScale;
+    return Math.max(0, reward);
+  }
+
+  /**
+   * UTC day key (YYYY-MM-DD) used as the ledger interval identifier
+   */
+  toDayKey(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private round8(value: number): number {
+    return parseFloat(value.toFixed(8));
+  }
+
+  // Round down so normalized amounts can never sum above the cap
+  private floor8(value: number): number {
+    return Math.floor(value * 1e8) / 1e8;
+  }
+
+  /**
+   * Full-range positions span the lowest to highest usable tick for their fee tier
+   */
+  isFullRange(position: Pick<LpPosition, 'tickLower' | 'tickUpper' | 'feeTier'>): boolean {
+    const spacing = this.TICK_SPACING[position.feeTier] || 60;
+    const minUsableTick = Math.ceil(this.MIN_TICK / spacing) * spacing;
+    const maxUsableTick = Math.floor(this.MAX_TICK / spacing) * spacing;
+    return position.tickLower <= minUsableTick && position.tickUpper >= maxUsableTick;
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(`${this.toDayKey(date)}T00:00:00.000Z`);
+  }
+
+  /**
+   * Accrue every closed day of a program up to (but excluding) the day containing `asOf`.
+   * Idempotent: existing entries are never rewritten, so re-running only appends missing days.
+   */
+  async accrueThrough(asOf: Date, params: AccrualParameters): Promise<number> {
+    const todayKey = this.toDayKey(asOf);
+    if (this.lastAccruedDay.get(params.programId) === todayKey) return 0;
+
+    // Coalesce concurrent callers (scheduled run + manual trigger) onto one pass
+    const inFlight = this.accrualInFlight.get(params.programId);
+    if (inFlight) return inFlight;
+
+    const accrual = this.runAccrual(asOf, params)
+      .then(written => {
+        this.lastAccruedDay.set(params.programId, todayKey);
+        return written;
+      })
+      .finally(() => {
+        this.accrualInFlight.delete(params.programId);
+      });
+    this.accrualInFlight.set(params.programId, accrual);
+
+    return accrual;
+  }
+
+  /**
+   * Closed days of a program the ledger has not accrued yet as of `asOf` - zero once the scheduled
+   * accrual has caught up. Backfills for late registrations are not counted.
+   */
+  async countUnaccruedDays(asOf: Date, params: Pick<AccrualParameters, 'programId' | 'programStartDate' | 'programEndDate'>): Promise<number> {
+    const cutoff = this.startOfDay(asOf);
+    const accrualEnd = params.programEndDate && params.programEndDate < cutoff ? params.programEndDate : cutoff;
+
+    let nextDay: Date;
+    const lastAllocation = await this.storage.getLatestRewardAllocation(params.programId);
+    if (lastAllocation) {
+      nextDay = new Date(new Date(`${lastAllocation.date}T00:00:00.000Z`).getTime() + this.MS_PER_DAY);
+    } else {
+      const positions = await this.getParticipatingPositions(params.programId, true);
+      if (positions.length === 0) return 0;
+      nextDay = new Date(Math.min(...positions.map(position => this.firstAccrualDay(position, params).getTime())));
+    }
+    return Math.max(0, Math.ceil((accrualEnd.getTime() - nextDay.getTime()) / this.MS_PER_DAY));
+  }
+
+  /**
+   * Open registrations in a program that currently earn rewards. Accrual also includes
+   * registrations closed by an NFT transfer, which still earn up to their transfer time.
+   */
+  private async getParticipatingPositions(programId: number, includeTransferred = false): Promise<LpPosition[]> {
+    const positions = await this.storage.getLpPositionsByProgramId(programId);
+    return positions.filter(position => {
+      const participating = position.isActive && position.rewardEligible && !position.transferredAt;
+      return (participating || (includeTransferred && !!position.transferredAt)) && position.userId && position.createdAt;
+    });
+  }
+
+  private async runAccrual(asOf: Date, params: AccrualParameters): Promise<number> {
+    const cutoff = this.startOfDay(asOf);
+    const accrualEnd = params.programEndDate && params.programEndDate < cutoff ? params.programEndDate : cutoff;
+    const positions = await this.getParticipatingPositions(params.programId, true);
+
+    // Days with an allocation row are closed - resume after the last one
+    const lastAllocation = await this.storage.getLatestRewardAllocation(params.programId);
+    const settingsVersions = await programSettingsService.getVersions();
+
+    let resumeDay: Date;
+    let dayStart: Date;
+    if (lastAllocation) {
+      resumeDay = new Date(new Date(`${lastAllocation.date}T00:00:00.000Z`).getTime() + this.MS_PER_DAY);
+      // Registrations recorded after their first days closed reopen those days
+      const settings = programSettingsService.resolveFromVersions(settingsVersions, asOf);
+      const backfillStart = await this.findBackfillStart(positions, resumeDay, settings, params);
+      dayStart = backfillStart && backfillStart < resumeDay ? backfillStart : resumeDay;
+    } else if (positions.length > 0) {
+      dayStart = new Date(Math.min(...positions.map(position => this.firstAccrualDay(position, params).getTime())));
+      resumeDay = dayStart;
+    } else {
+      return 0;
+    }
+
+    let written = 0;
+    while (dayStart < accrualEnd) {
+      const dayKey = this.toDayKey(dayStart);
+      const dayEnd = new Date(dayStart.getTime() + this.MS_PER_DAY);
+      const participants = positions.filter(position =>
+        position.createdAt! < dayEnd && (!position.transferredAt || position.transferredAt > dayStart)
+      );
+
+      // Entries written before allocation rows existed are immutable and count against the cap
+      const existingEntries = await this.storage.getDailyRewards({ programId: params.programId, date: dayKey });
+      const intervalEnd = dayEnd < accrualEnd ? dayEnd : accrualEnd;
+      const inRangeMultipliers = await this.resolveInRangeMultipliers(participants, dayStart, intervalEnd);
+      // A day is accrued with the settings version in effect when it closes
+      const settings = programSettingsService.resolveFromVersions(settingsVersions, new Date(intervalEnd.getTime() - 1));
+      const { entries, allocation } = this.allocateDay(dayStart, accrualEnd, participants, existingEntries, inRangeMultipliers, settings, params);
+
+      const backfill = dayStart < resumeDay;
+      if (backfill && entries.length === 0) {
+        dayStart = dayEnd;
+        continue;
+      }
+
+      await this.storage.appendLedgerDay({
+        entries,
+        tokenEntriesFor: inserted => this.partnerTokenEntries(inserted, params),
+        allocation: {
+          programId: params.programId,
+          date: allocation.date,
+          dailyRewardsCap: allocation.dailyRewardsCap.toString(),
+          totalAllocated: allocation.totalAllocated.toFixed(8),
+          totalLiquidity: allocation.totalLiquidity.toFixed(8),
+          positionCount: allocation.positionCount,
+          normalizationFactor: allocation.normalizationFactor.toFixed(8)
+        }
+      });
+
+      written += entries.length;
+      console.log(`📒 REWARD LEDGER: program #${params.programId} ${dayKey}${backfill ? ' (backfill)' : ''} allocated ${allocation.totalAllocated.toFixed(2)} / ${allocation.dailyRewardsCap} KILT across ${allocation.positionCount} positions (scale ${allocation.normalizationFactor.toFixed(4)})`);
+      dayStart = dayEnd;
+    }
+
+    return written;
+  }
+
+  /**
+   * First day a registration earns: the day it was registered, or the program's first day
+   * for positions registered ahead of it
+   */
+  private firstAccrualDay(position: LpPosition, params: Pick<AccrualParameters, 'programStartDate'>): Date {
+    const registeredDay = this.startOfDay(position.createdAt!);
+    if (params.programStartDate && registeredDay < params.programStartDate) {
+      return this.startOfDay(params.programStartDate);
+    }
+    return registeredDay;
+  }
+
+  /**
+   * Earliest closed day owed to a registration without any ledger entry - one stored with an
+   * earlier createdAt after its first days were accrued. Positions below the current minimum
+   * value are skipped, as accrual would exclude them.
+   */
+  private async findBackfillStart(
+    positions: LpPosition[],
+    resumeDay: Date,
+    settings: RewardFormulaSettings,
+    params: AccrualParameters
+  ): Promise<Date | null> {
+    const ledgerPositionIds = await this.storage.getLedgerPositionIds(params.programId);
+    let earliest: Date | null = null;
+
+    for (const position of positions) {
+      const firstDay = this.firstAccrualDay(position, params);
+      if (firstDay >= resumeDay) continue;
+      if (position.transferredAt && position.transferredAt <= firstDay) continue;
+      if (parseFloat(position.currentValueUSD || '0') < settings.minimumPositionValue) continue;
+
+      if (ledgerPositionIds.has(position.id)) continue;
+      if (!earliest || firstDay < earliest) earliest = firstDay;
+    }
+
+    return earliest;
+  }
+
+  /**
+   * Partner token accruals for freshly written entries - same share of the day as the primary token
+   */
+  private partnerTokenEntries(entries: DailyReward[], params: AccrualParameters): InsertDailyTokenReward[] {
+    if (params.dailyBudget <= 0) return [];
+
+    return entries.flatMap(entry => params.partnerTokens
+      .map(token => ({
+        dailyRewardId: entry.id,
+        userId: entry.userId,
+        positionId: entry.positionId,
+        programId: params.programId,
+        date: entry.date,
+        tokenAddress: token.tokenAddress,
+        tokenSymbol: token.tokenSymbol,
+        amount: this.floor8(parseFloat(entry.dailyRewardAmount) * token.dailyBudget / params.dailyBudget).toFixed(8)
+      }))
+      .filter(tokenEntry => parseFloat(tokenEntry.amount) > 0));
+  }
+
+  /**
+   * Time-weighted in-range fraction: each sample's tick holds until the next sample.
+   * Samples must be ordered by sampledAt ascending.
+   */
+  computeInRangeFraction(
+    samples: PoolTickSample[],
+    tickLower: number,
+    tickUpper: number,
+    start: Date,
+    end: Date
+  ): InRangeResult {
+    const totalMs = end.getTime() - start.getTime();
+    if (totalMs <= 0 || samples.length === 0) {
+      return { fraction: 1.0, sampleCount: 0, hasData: false };
+    }
+
+    let coveredMs = 0;
+    let inRangeMs = 0;
+    let sampleCount = 0;
+
+    for (let i = 0; i < samples.length; i++) {
+      const segmentStart = Math.max(samples[i].sampledAt.getTime(), start.getTime());
+      const nextTime = i + 1 < samples.length ? samples[i + 1].sampledAt.getTime() : end.getTime();
+      const segmentEnd = Math.min(nextTime, end.getTime());
+      if (segmentEnd <= segmentStart) continue;
+
+      sampleCount++;
+      coveredMs += segmentEnd - segmentStart;
+      const tick = samples[i].tick;
+      if (tick >= tickLower && tick < tickUpper) {
+        inRangeMs += segmentEnd - segmentStart;
+      }
+    }
+
+    if (coveredMs === 0) {
+      return { fraction: 1.0, sampleCount: 0, hasData: false };
+    }
+
+    // Only the covered part of the interval is known - measure the fraction over it
+    return { fraction: inRangeMs / coveredMs, sampleCount, hasData: true };
+  }
+
+  /**
+   * IRM per position: share of its interval the pool tick spent inside [tickLower, tickUpper).
+   * Samples are fetched once per pool and reused for every position in it.
+   */
+  private async resolveInRangeMultipliers(
+    positions: LpPosition[],
+    windowStart: Date,
+    windowEnd: Date
+  ): Promise<Map<number, number>> {
+    const multipliers = new Map<number, number>();
+    const pools = Array.from(new Set(positions.map(position => position.poolAddress.toLowerCase())));
+
+    for (const pool of pools) {
+      const samples = await this.storage.getPoolTickSamples(pool, windowStart, windowEnd);
+      for (const position of positions.filter(p => p.poolAddress.toLowerCase() === pool)) {
+        const intervalStart = position.createdAt! > windowStart ? position.createdAt! : windowStart;
+        const intervalEnd = position.transferredAt && position.transferredAt < windowEnd ? position.transferredAt : windowEnd;
+        const result = this.computeInRangeFraction(samples, position.tickLower, position.tickUpper, intervalStart, intervalEnd);
+        multipliers.set(position.id, this.round8(result.fraction));
+      }
+    }
+
+    return multipliers;
+  }
+
+  /**
+   * A program's allocation for one day. L_T is the sum of participating registered
+   * liquidity, and shares are scaled down together whenever their sum would exceed the
+   * budget left after any pre-existing entries for the day.
+   */
+  private allocateDay(
+    dayStart: Date,
+    accrualEnd: Date,
+    participants: LpPosition[],
+    existingEntries: DailyReward[],
+    inRangeMultipliers: Map<number, number>,
+    settings: RewardFormulaSettings,
+    params: AccrualParameters
+  ): { entries: DailyRewardEntry[]; allocation: DayAllocation } {
+    const dayKey = this.toDayKey(dayStart);
+    const dayEnd = new Date(dayStart.getTime() + this.MS_PER_DAY);
+    const intervalEnd = dayEnd < accrualEnd ? dayEnd : accrualEnd;
+    const existingPositionIds = new Set(existingEntries.map(entry => entry.positionId));
+    // Positions below the configured minimum value are excluded from the day entirely
+    const newParticipants = participants.filter(position =>
+      !existingPositionIds.has(position.id) &&
+      parseFloat(position.currentValueUSD || '0') >= settings.minimumPositionValue
+    );
+
+    const existingTotal = existingEntries.reduce((sum, entry) => sum + parseFloat(entry.dailyRewardAmount), 0);
+    const existingLiquidity = existingEntries.reduce((sum, entry) => sum + parseFloat(entry.userLiquidity || entry.positionValueUSD), 0);
+    const totalLiquidity = this.round8(
+      existingLiquidity + newParticipants.reduce((sum, position) => sum + parseFloat(position.currentValueUSD || '0'), 0)
+    );
+
+    const drafts = newParticipants.map(position => {
+      const createdAt = position.createdAt!;
+      const intervalStart = createdAt > dayStart ? createdAt : dayStart;
+      // A transfer splits the day: the registered owner earns only up to the transfer
+      const positionEnd = position.transferredAt && position.transferredAt < intervalEnd ? position.transferredAt : intervalEnd;
+      const intervalHours = Math.max(0, (positionEnd.getTime() - intervalStart.getTime()) / (60 * 60 * 1000));
+      // A rebalanced position keeps the time boost of the position it replaced
+      const boostStart = position.timeBoostStartedAt ?? createdAt;
+      const daysStaked = Math.floor((intervalStart.getTime() - boostStart.getTime()) / this.MS_PER_DAY);
+      const timeBoost = 1 + ((daysStaked / params.programDurationDays) * settings.timeBoostCoefficient);
+
+      // Inputs are rounded to their stored precision so the entry re-derives exactly
+      const inputs: LedgerInputs = {
+        userLiquidity: this.round8(parseFloat(position.currentValueUSD || '0')),
+        totalLiquidity,
+        timeBoost: this.round8(timeBoost),
+        inRangeMultiplier: inRangeMultipliers.get(position.id) ?? 1.0,
+        fullRangeBonus: this.isFullRange(position) ? settings.fullRangeBonus : 1.0,
+        dailyBudget: params.dailyBudget,
+        intervalHours,
+        allocationScale: 1
+      };
+      return { position, inputs, intervalStart, intervalEnd: positionEnd, daysStaked, rawReward: this.computeReward(inputs) };
+    });
+
+    const rawTotal = drafts.reduce((sum, draft) => sum + draft.rawReward, 0);
+    const available = Math.max(0, params.dailyBudget - existingTotal);
+    const normalizationFactor = rawTotal > available ? this.floor8(available / rawTotal) : 1;
+
+    const rewards = new Map<number, number>();
+    const entries: DailyRewardEntry[] = drafts.map(draft => {
+      const inputs = { ...draft.inputs, allocationScale: normalizationFactor };
+      const amount = this.floor8(this.computeReward(inputs));
+      const userLiquidity = inputs.userLiquidity;
+      const effectiveAPR = userLiquidity > 0 && inputs.intervalHours > 0
+        ? (amount * (24 / inputs.intervalHours) * 365 / userLiquidity) * 100
+        : 0;
+      rewards.set(draft.position.id, amount);
+
+      return {
+        userId: draft.position.userId!,
+        positionId: draft.position.id,
+        date: dayKey,
+        positionValueUSD: userLiquidity.toFixed(8),
+        baseAPR: Math.min(params.baseAPR, 99999999).toFixed(2),
+        timeMultiplier: inputs.timeBoost.toFixed(2),
+        sizeMultiplier: '1.00',
+        effectiveAPR: Math.min(effectiveAPR, 99999999).toFixed(2),
+        dailyRewardAmount: amount.toFixed(8),
+        daysStaked: draft.daysStaked,
+        userLiquidity: userLiquidity.toFixed(8),
+        totalLiquidity: totalLiquidity.toFixed(8),
+        timeBoost: inputs.timeBoost.toFixed(8),
+        inRangeMultiplier: inputs.inRangeMultiplier.toFixed(8),
+        fullRangeBonus: inputs.fullRangeBonus.toFixed(8),
+        dailyBudget: inputs.dailyBudget.toString(),
+        allocationScale: normalizationFactor.toFixed(8),
+        settingsVersionId: settings.versionId,
+        programId: params.programId,
+        intervalStart: draft.intervalStart,
+        intervalEnd: draft.intervalEnd
+      };
+    });
+
+    const newTotal = Array.from(rewards.values()).reduce((sum, amount) => sum + amount, 0);
+    return {
+      entries,
+      allocation: {
+        programId: params.programId,
+        date: dayKey,
+        dailyRewardsCap: params.dailyBudget,
+        totalAllocated: existingTotal + newTotal,
+        totalLiquidity,
+        positionCount: existingEntries.length + entries.length,
+        normalizationFactor,
+        rewards
+      }
+    };
+  }
+
+  /**
+   * Projected allocation for a full day starting at `asOf` - used for today's daily rate
+   */
+  async previewAllocation(asOf: Date, params: AccrualParameters): Promise<DayAllocation> {
+    const positions = await this.getParticipatingPositions(params.programId);
+    const inRangeMultipliers = await this.projectInRangeMultipliers(positions, asOf);
+    const settings = await programSettingsService.getFormulaSettings(asOf);
+    return this.projectDays(asOf, 1, positions, inRangeMultipliers, settings, params)[0];
+  }
+
+  /**
+   * Project `days` consecutive full-day allocations starting at `asOf` with the given
+   * settings and parameters. Nothing is written - used by previews and admin simulations.
+   */
+  async projectAllocations(
+    asOf: Date,
+    days: number,
+    settings: RewardFormulaSettings,
+    params: AccrualParameters
+  ): Promise<{ positions: LpPosition[]; allocations: DayAllocation[] }> {
+    const positions = await this.getParticipatingPositions(params.programId);
+    const inRangeMultipliers = await this.projectInRangeMultipliers(positions, asOf);
+    return {
+      positions,
+      allocations: this.projectDays(asOf, days, positions, inRangeMultipliers, settings, params)
+    };
+  }
+
+  // Project IRM from the trailing 24 hours of tick history
+  private async projectInRangeMultipliers(positions: LpPosition[], asOf: Date): Promise<Map<number, number>> {
+    const windowStart = new Date(asOf.getTime() - this.MS_PER_DAY);
+    return this.resolveInRangeMultipliers(
+      positions.map(position => ({ ...position, createdAt: windowStart })),
+      windowStart,
+      asOf
+    );
+  }
+
+  private projectDays(
+    asOf: Date,
+    days: number,
+    positions: LpPosition[],
+    inRangeMultipliers: Map<number, number>,
+    settings: RewardFormulaSettings,
+    params: AccrualParameters
+  ): DayAllocation[] {
+    // Treat every position as present for the whole of each projected day
+    const projected = positions.map(position => ({
+      ...position,
+      createdAt: position.createdAt! < asOf ? position.createdAt! : asOf
+    }));
+
+    const allocations: DayAllocation[] = [];
+    for (let day = 0; day < days; day++) {
+      const dayStart = new Date(asOf.getTime() + day * this.MS_PER_DAY);
+      const dayEnd = new Date(dayStart.getTime() + this.MS_PER_DAY);
+      allocations.push(this.allocateDay(dayStart, dayEnd, projected, [], inRangeMultipliers, settings, params).allocation);
+    }
+    return allocations;
+  }
+
+  /**
+   * Total allocated against the cap across all closed days - for one program, or all of them
+   */
+  async getAllocationSummary(programId?: number): Promise<AllocationSummary> {
+    const [{ daysAllocated, totalAllocated, totalCap }, latest] = await Promise.all([
+      this.storage.getRewardAllocationTotals(programId),
+      this.storage.getLatestRewardAllocation(programId)
+    ]);
+
+    return {
+      daysAllocated,
+      totalAllocated,
+      totalCap,
+      utilization: totalCap > 0 ? (totalAllocated / totalCap) * 100 : 0,
+      latest: latest || null
+    };
+  }
+
+  /**
+   * Sum of ledger rewards per position
+   */
+  async getPositionTotals(userId: number): Promise<Map<number, number>> {
+    return this.storage.getLedgerTotalsByPosition(userId);
+  }
+
+  /**
+   * Sum of a user's ledger rewards per program - each in that program's primary reward token
+   */
+  async getProgramTotals(userId: number): Promise<Map<number | null, number>> {
+    return this.storage.getLedgerTotalsByProgram(userId);
+  }
+
+  /**
+   * Sum of a user's partner token accruals per token
+   */
+  async getPartnerTokenTotals(userId: number): Promise<Array<{ tokenAddress: string; tokenSymbol: string; total: number }>> {
+    return this.storage.getPartnerTokenTotals(userId);
+  }
+
+  /**
+   * Total rewards ever accrued by a user (all positions, including since-closed ones)
+   */
+  async getUserTotal(userId: number): Promise<number> {
+    return this.storage.getUserLedgerTotal(userId);
+  }
+
+  /**
+   * Total rewards accrued by one registration
+   */
+  async getPositionTotal(positionId: number): Promise<number> {
+    return this.storage.getPositionLedgerTotal(positionId);
+  }
+
+  /**
+   * Ledger entries for a position, newest first
+   */
+  async getPositionLedger(positionId: number, days?: number): Promise<DailyReward[]> {
+    const since = days && days > 0 ? this.toDayKey(new Date(Date.now() - days * this.MS_PER_DAY)) : undefined;
+    return this.storage.getDailyRewards({ positionId, since });
+  }
+
+  /**
+   * Per-day IRM for a position: recorded ledger values for closed days, plus today's
+   * in-range fraction so far from the tick history
+   */
+  async getInRangeHistory(position: LpPosition, days: number): Promise<Array<{
+    date: string;
+    inRangeMultiplier: number;
+    source: 'ledger' | 'live';
+  }>> {
+    const entries = await this.getPositionLedger(position.id, days);
+    const history: Array<{ date: string; inRangeMultiplier: number; source: 'ledger' | 'live' }> = entries.map(entry => ({
+      date: entry.date,
+      inRangeMultiplier: parseFloat(entry.inRangeMultiplier || '1'),
+      source: 'ledger' as const
+    }));
+
+    const now = new Date();
+    const todayStart = this.startOfDay(now);
+    const createdAt = position.createdAt || todayStart;
+    const intervalStart = createdAt > todayStart ? createdAt : todayStart;
+    const samples = await this.storage.getPoolTickSamples(position.poolAddress, intervalStart, now);
+    const today = this.computeInRangeFraction(samples, position.tickLower, position.tickUpper, intervalStart, now);
+    history.unshift({ date: this.toDayKey(now), inRangeMultiplier: today.fraction, source: 'live' });
+
+    return history;
+  }
+
+  /**
+   * Re-derive stored entries from their recorded inputs and report any drift
+   */
+  async auditEntries(filter: { date?: string; positionId?: number } = {}): Promise<LedgerAuditEntry[]> {
+    const entries = await this.storage.getDailyRewards({
+      date: filter.date || undefined,
+      positionId: filter.positionId || undefined
+    });
+
+    return entries
+      .filter(entry => entry.userLiquidity !== null) // Pre-ledger rows have no recorded inputs
+      .map(entry => {
+        const storedAmount = parseFloat(entry.dailyRewardAmount);
+        const derivedAmount = this.computeReward(this.getEntryInputs(entry));
+        return {
+          entryId: entry.id,
+          positionId: entry.positionId,
+          userId: entry.userId,
+          date: entry.date,
+          storedAmount,
+          derivedAmount,
+          matches: Math.abs(storedAmount - derivedAmount) <= this.AUDIT_TOLERANCE
+        };
+      });
+  }
+
+  /**
+   * Recorded formula inputs of a ledger entry
+   */
+  getEntryInputs(entry: DailyReward): LedgerInputs {
+    const intervalHours = entry.intervalStart && entry.intervalEnd
+      ? (entry.intervalEnd.getTime() - entry.intervalStart.getTime()) / (60 * 60 * 1000)
+      : 24;
+
+    return {
+      userLiquidity: parseFloat(entry.userLiquidity || '0'),
+      totalLiquidity: parseFloat(entry.totalLiquidity || '0'),
+      timeBoost: parseFloat(entry.timeBoost || '1'),
+      inRangeMultiplier: parseFloat(entry.inRangeMultiplier || '1'),
+      fullRangeBonus: parseFloat(entry.fullRangeBonus || '1'),
+      dailyBudget: parseFloat(entry.dailyBudget || '0'),
+      intervalHours,
+      allocationScale: parseFloat(entry.allocationScale || '1')
+    };
+  }
+}
+
+export const rewardLedgerService = new RewardLedgerService(storage);
@@ -0,0 +1,320 @@
+/**
+ * Reward Simulation Service - what-if projections for admin config changes
+ * Runs the same allocation pass as the reward ledger over the treasury-funded program's
+ * lp_positions for the remaining program days, once with the live configuration and once
+ * with proposed treasury_config / program_settings values. Nothing is written.
+ */
+
+import { db } from './db';
+import { users } from '../shared/schema';
+import { storage } from './storage';
+import { inArray } from 'drizzle-orm';
+import { rewardLedgerService, type DayAllocation } from './reward-ledger-service';
+import { programSettingsService, type RewardFormulaSettings } from './program-settings-service';
+import { kiltPriceService } from './kilt-price-service';
+import { ErrorHandler } from './error-handler';
+import { incentiveProgramService } from './incentive-program-service';
+
+export interface SimulationProposal {
+  totalAllocation?: number;
+  programStartDate?: string; // YYYY-MM-DD
+  programDurationDays?: number;
+  timeBoostCoefficient?: number;
+  fullRangeBonus?: number;
+  minimumPositionValue?: number;
+  lockPeriod?: number;
+}
+
+export interface SimulationConfig {
+  programId: number;
+  totalAllocation: number;
+  programStartDate: string;
+  programDurationDays: number;
+  programEndDate: string;
+  dailyRewardsCap: number;
+  timeBoostCoefficient: number;
+  fullRangeBonus: number;
+  minimumPositionValue: number;
+  lockPeriod: number;
+}
+
+export interface SimulatedUserReward {
+  userId: number;
+  address: string;
+  positionCount: number;
+  projectedRewards: number;
+}
+
+export interface SimulationScenario {
+  config: SimulationConfig;
+  remainingDays: number;
+  alreadyAllocated: number;
+  treasuryRemaining: number;
+  projectedDistribution: number;
+  averageDailyDistribution: number;
+  participatingLiquidity: number;
+  programAPR: number;
+  depletionDate: string | null; // null when the treasury outlasts the program
+  unallocatedAtEnd: number;
+  users: SimulatedUserReward[];
+}
+
+export interface SimulationResult {
+  simulatedAt: string;
+  kiltPrice: number;
+  current: SimulationScenario;
+  proposed: SimulationScenario;
+  diff: {
+    dailyRewardsCap: number;
+    remainingDays: number;
+    projectedDistribution: number;
+    programAPR: number;
+    depletionDateChanged: boolean;
+    users: Array<{ userId: number; address: string; current: number; proposed: number; change: number }>;
+  };
+}
+
+class RewardSimulationService {
+  private readonly MS_PER_DAY = 24 * 60 * 60 * 1000;
+  private readonly MAX_SIMULATION_DAYS = 3650;
+
+  /**
+   * Project the rest of the program under the live config and under `proposal`
+   */
+  async simulate(proposal: SimulationProposal, asOf: Date = new Date()): Promise<SimulationResult> {
+    const currentConfig = await this.getCurrentConfig(asOf);
+    const proposedConfig = this.applyProposal(currentConfig, proposal);
+    const kiltPrice = kiltPriceService.getCurrentPrice();
+    const { totalAllocated } = await rewardLedgerService.getAllocationSummary(currentConfig.programId);
+
+    const current = await this.runScenario(currentConfig, totalAllocated, kiltPrice, asOf);
+    const proposed = await this.runScenario(proposedConfig, totalAllocated, kiltPrice, asOf);
+
+    const currentByUser = new Map(current.users.map(user => [user.userId, user]));
+    const proposedByUser = new Map(proposed.users.map(user => [user.userId, user]));
+    const userIds = Array.from(new Set([...Array.from(currentByUser.keys()), ...Array.from(proposedByUser.keys())]));
+
+    const userDiff = userIds.map(userId => {
+      const before = currentByUser.get(userId);
+      const after = proposedByUser.get(userId);
+      const currentRewards = before?.projectedRewards ?? 0;
+      const proposedRewards = after?.projectedRewards ?? 0;
+      return {
+        userId,
+        address: (after || before)!.address,
+        current: currentRewards,
+        proposed: proposedRewards,
+        change: this.round4(proposedRewards - currentRewards)
+      };
+    }).sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+    console.log(`🧪 SIMULATION: ${proposed.projectedDistribution.toFixed(2)} KILT proposed vs ${current.projectedDistribution.toFixed(2)} KILT current over remaining program`);
+
+    return {
+      simulatedAt: asOf.toISOString(),
+      kiltPrice,
+      current,
+      proposed,
+      diff: {
+        dailyRewardsCap: this.round4(proposed.config.dailyRewardsCap - current.config.dailyRewardsCap),
+        remainingDays: proposed.remainingDays - current.remainingDays,
+        projectedDistribution: this.round4(proposed.projectedDistribution - current.projectedDistribution),
+        programAPR: this.round4(proposed.programAPR - current.programAPR),
+        depletionDateChanged: proposed.depletionDate !== current.depletionDate,
+        users: userDiff
+      }
+    };
+  }
+
+  private async getCurrentConfig(asOf: Date): Promise<SimulationConfig> {
+    const config = await storage.getTreasuryConfig();
+    if (!config) {
+      throw ErrorHandler.createValidationError('Treasury configuration not found. Please configure via admin panel first.');
+    }
+    const program = await incentiveProgramService.getPrimaryProgram();
+    if (!program) {
+      throw ErrorHandler.createValidationError('No active incentive program to simulate.');
+    }
+    const settings = await programSettingsService.getFormulaSettings(asOf);
+
+    return {
+      programId: program.id,
+      totalAllocation: parseFloat(config.totalAllocation),
+      programStartDate: config.programStartDate,
+      programDurationDays: config.programDurationDays,
+      programEndDate: config.programEndDate,
+      dailyRewardsCap: parseFloat(config.dailyRewardsCap),
+      timeBoostCoefficient: settings.timeBoostCoefficient,
+      fullRangeBonus: settings.fullRangeBonus,
+      minimumPositionValue: settings.minimumPositionValue,
+      lockPeriod: settings.lockPeriod
+    };
+  }
+
+  /**
+   * Merge proposed values over the live config, re-deriving end date and daily cap
+   * the same way POST /api/admin/treasury/config does
+   */
+  private applyProposal(current: SimulationConfig, proposal: SimulationProposal): SimulationConfig {
+    const errors: string[] = [];
+    const numberField = (key: keyof SimulationProposal, min: number) => {
+      const value = proposal[key];
+      if (value === undefined || value === null) return undefined;
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed < min) {
+        errors.push(`${key} must be a number >= ${min}`);
+        return undefined;
+      }
+      return parsed;
+    };
+
+    const totalAllocation = numberField('totalAllocation', Number.MIN_VALUE);
+    const programDurationDays = numberField('programDurationDays', 1);
+    const timeBoostCoefficient = numberField('timeBoostCoefficient', 0);
+    const fullRangeBonus = numberField('fullRangeBonus', 0);
+    const minimumPositionValue = numberField('minimumPositionValue', 0);
+    const lockPeriod = numberField('lockPeriod', 0);
+
+    let programStartDate = current.programStartDate;
+    if (proposal.programStartDate !== undefined) {
+      const parsed = new Date(`${proposal.programStartDate}T00:00:00.000Z`);
+      if (isNaN(parsed.getTime())) {
+        errors.push('programStartDate must be a YYYY-MM-DD date');
+      } else {
+        programStartDate = proposal.programStartDate;
+      }
+    }
+    if (programDurationDays !== undefined && !Number.isInteger(programDurationDays)) {
+      errors.push('programDurationDays must be a whole number of days');
+    }
+
+    if (errors.length > 0) {
+      throw ErrorHandler.createValidationError('Invalid simulation proposal', errors);
+    }
+
+    const duration = programDurationDays ?? current.programDurationDays;
+    const allocation = totalAllocation ?? current.totalAllocation;
+    const startDate = new Date(`${programStartDate}T00:00:00.000Z`);
+    const endDate = new Date(startDate.getTime() + duration * this.MS_PER_DAY);
+
+    return {
+      programId: current.programId,
+      totalAllocation: allocation,
+      programStartDate,
+      programDurationDays: duration,
+      programEndDate: endDate.toISOString().split('T')[0],
+      dailyRewardsCap: allocation / duration,
+      timeBoostCoefficient: timeBoostCoefficient ?? current.timeBoostCoefficient,
+      fullRangeBonus: fullRangeBonus ?? current.fullRangeBonus,
+      minimumPositionValue: minimumPositionValue ?? current.minimumPositionValue,
+      lockPeriod: lockPeriod ?? current.lockPeriod
+    };
+  }
+
+  private async runScenario(
+    config: SimulationConfig,
+    alreadyAllocated: number,
+    kiltPrice: number,
+    asOf: Date
+  ): Promise<SimulationScenario> {
+    const programStart = new Date(`${config.programStartDate}T00:00:00.000Z`);
+    const programEnd = new Date(`${config.programEndDate}T00:00:00.000Z`);
+    // Projection starts today (or at the program start if it has not begun yet)
+    const todayStart = new Date(`${asOf.toISOString().split('T')[0]}T00:00:00.000Z`);
+    const projectionStart = programStart > todayStart ? programStart : todayStart;
+    const remainingDays = Math.min(
+      this.MAX_SIMULATION_DAYS,
+      Math.max(0, Math.ceil((programEnd.getTime() - projectionStart.getTime()) / this.MS_PER_DAY))
+    );
+
+    const settings: RewardFormulaSettings = {
+      versionId: null,
+      timeBoostCoefficient: config.timeBoostCoefficient,
+      fullRangeBonus: config.fullRangeBonus,
+      minimumPositionValue: config.minimumPositionValue,
+      lockPeriod: config.lockPeriod,
+      effectiveFrom: projectionStart
+    };
+    const { positions, allocations } = await rewardLedgerService.projectAllocations(projectionStart, remainingDays, settings, {
+      programId: config.programId,
+      dailyBudget: config.dailyRewardsCap,
+      programDurationDays: config.programDurationDays,
+      programEndDate: programEnd,
+      baseAPR: 0,
+      partnerTokens: [] // Simulations project the treasury's KILT budget only
+    });
+
+    // Walk the days, stopping payouts once the remaining treasury is exhausted
+    const treasuryRemaining = Math.max(0, config.totalAllocation - alreadyAllocated);
+    const positionRewards = new Map<number, number>();
+    let projectedDistribution = 0;
+    let depletionDate: string | null = null;
+
+    for (const day of allocations) {
+      const budgetLeft = treasuryRemaining - projectedDistribution;
+      const payout = Math.min(day.totalAllocated, Math.max(0, budgetLeft));
+      const scale = day.totalAllocated > 0 ? payout / day.totalAllocated : 0;
+      this.addDayRewards(positionRewards, day, scale);
+      projectedDistribution += payout;
+
+      if (!depletionDate && day.totalAllocated > 0 && payout >= budgetLeft - 1e-8) {
+        depletionDate = day.date;
+      }
+    }
+
+    // Aggregate per user
+    const positionUsers = new Map(positions.map(position => [position.id, position.userId!]));
+    const userTotals = new Map<number, { positionCount: number; projectedRewards: number }>();
+    positionRewards.forEach((amount, positionId) => {
+      const userId = positionUsers.get(positionId);
+      if (userId === undefined) return;
+      const total = userTotals.get(userId) || { positionCount: 0, projectedRewards: 0 };
+      total.positionCount += 1;
+      total.projectedRewards += amount;
+      userTotals.set(userId, total);
+    });
+
+    const userIds = Array.from(userTotals.keys());
+    const userRows = userIds.length > 0
+      ? await db.select({ id: users.id, address: users.address }).from(users).where(inArray(users.id, userIds))
+      : [];
+    const addresses = new Map(userRows.map(row => [row.id, row.address]));
+
+    const participatingLiquidity = allocations[0]?.totalLiquidity ?? 0;
+    const averageDailyDistribution = remainingDays > 0 ? projectedDistribution / remainingDays : 0;
+    const programAPR = participatingLiquidity > 0
+      ? (averageDailyDistribution * 365 * kiltPrice / participatingLiquidity) * 100
+      : 0;
+
+    return {
+      config,
+      remainingDays,
+      alreadyAllocated: this.round4(alreadyAllocated),
+      treasuryRemaining: this.round4(treasuryRemaining),
+      projectedDistribution: this.round4(projectedDistribution),
+      averageDailyDistribution: this.round4(averageDailyDistribution),
+      participatingLiquidity: this.round4(participatingLiquidity),
+      programAPR: this.round4(programAPR),
+      depletionDate,
+      unallocatedAtEnd: this.round4(Math.max(0, treasuryRemaining - projectedDistribution)),
+      users: userIds.map(userId => ({
+        userId,
+        address: addresses.get(userId) || '',
+        positionCount: userTotals.get(userId)!.positionCount,
+        projectedRewards: this.round4(userTotals.get(userId)!.projectedRewards)
+      })).sort((a, b) => b.projectedRewards - a.projectedRewards)
+    };
+  }
+
+  private addDayRewards(totals: Map<number, number>, day: DayAllocation, scale: number): void {
+    day.rewards.forEach((amount, positionId) => {
+      totals.set(positionId, (totals.get(positionId) || 0) + amount * scale);
+    });
+  }
+
+  private round4(value: number): number {
+    return parseFloat(value.toFixed(4));
+  }
+}
+
+export const rewardSimulationService = new RewardSimulationService();
@@ -1,4 +1,4 @@
-import type { Express, Request } from "express";
+import type { Express } from "express";
 import { createServer, type Server } from "http";
 
 // Extend Express Request interface to include user property
@@ -12,4895 +12,77 @@ declare global {
     }
   }
 }
-import { storage } from "./storage";
-import { db } from "./db";
-import { eq, desc, sql } from "drizzle-orm";
-import { 
-  insertUserSchema, 
-  insertLpPositionSchema, 
-  insertRewardSchema, 
-  insertPoolStatsSchema,
-  insertAppTransactionSchema,
-  insertPositionEligibilitySchema,
-  treasuryConfig,
-  programSettings,
-  users,
-  lpPositions,
-  rewards
-} from "@shared/schema";
-// Removed blazing-fast-optimizer - cleaned up during codebase optimization
-import { z } from "zod";
-import { rpcManager } from './rpc-connection-manager';
-import { fetchKiltTokenData, calculateRewards, getBaseNetworkStats } from "./kilt-data";
-
-import { unifiedRewardService } from "./unified-reward-service";
-import { DirectFeeService } from "./direct-fee-service";
-import { SimpleFeeService } from "./simple-fee-service";
-import { AuthenticFeeService } from "./authentic-fee-service";
-import { SingleSourceAPR } from "./single-source-apr";
-// Removed realTimePriceService - using kiltPriceService instead
-import { uniswapIntegrationService } from "./uniswap-integration-service";
-import { PriceService } from "./price-service";
-import { smartContractService } from "./smart-contract-service";
-import { appTransactionService } from "./app-transaction-service";
-import { positionRegistrationService } from "./position-registration-service";
-import { DataIntegrityMonitor } from "./data-integrity-monitor";
-import { blockchainConfigService } from "./blockchain-config-service";
-// import { eip712Signer } from "./eip712-signer.js"; // Commented out - not currently used
-
-
-import { claimBasedRewards } from "./claim-based-rewards";
-import { productionErrorHandler, withProductionErrorHandling } from "./production-error-handler";
-// Removed comprehensive-validation - cleaned up broken health monitoring
-// Removed instant-response-service and blank-page-elimination - cleaned up during optimization
-
-
 
+import { requireAdminSession } from "./admin-auth-service";
+import adminAuthRoutes from "./routes/admin-auth";
+import adminRoutes from "./routes/admin";
+import systemRoutes, { dataIntegrityMonitor } from "./routes/system";
+import userRoutes from "./routes/users";
+import treasuryRoutes from "./routes/treasury";
+import debugRoutes from "./routes/debug";
+import positionRoutes from "./routes/positions";
+import rewardRoutes from "./routes/rewards";
+import poolRoutes from "./routes/pools";
+import aprRoutes from "./routes/apr";
+import programRoutes from "./routes/programs";
+import notificationRoutes from "./routes/notifications";
+import swapRoutes from "./routes/swap";
+import socialRoutes from "./routes/social";
 import rewardDistributionRoutes from "./routes/reward-distribution";
 import enhancedSecurityRoutes from "./routes/enhanced-security";
-import { blockchainSyncValidator } from "./blockchain-sync-validator";
-import { socialMediaService } from "./social-media-service";
-// Removed registerUniswapOptimizedRoutes - cleaned up during optimization
-// Removed systemHealthRouter - consolidated into main routes
-// Removed uniswapPositionsRouter - consolidated into main routes
-
-// Helper function to get smart contract address from database - Single Source of Truth
-async function getSmartContractAddress(): Promise<string> {
-  try {
-    const [config] = await db.select().from(treasuryConfig).limit(1);
-    if (!config?.smartContractAddress) {
-      throw new Error('Smart contract address not configured in database');
-    }
-    return config.smartContractAddress;
-  } catch (error) {
-    console.error('Failed to get smart contract address from database:', error);
-    throw error;
-  }
-}
-
-// Helper function to log admin operations
-async function logAdminOperation(
-  operationType: string,
-  reason: string,
-  performedBy: string,
-  amount?: string,
-  transactionHash?: string,
-  success: boolean = true,
-  errorMessage?: string
-) {
-  try {
-    const { adminOperations } = await import('../shared/schema');
-    await db.insert(adminOperations).values({
-      operation: operationType, // For compatibility with old schema
-      operationType,
-      operationDetails: JSON.stringify({
-        timestamp: new Date().toISOString(),
-        performedBy,
-        amount,
-        transactionHash,
-        reason
-      }),
-      reason,
-      performedBy,
-      amount,
-      transactionHash,
-      success,
-      errorMessage
-    });
-  } catch (error: unknown) {
-    console.error('Failed to log admin operation:', error instanceof Error ? error.message : 'Unknown error');
-  }
-}
+import publicApiV1Routes from "./routes/public-v1";
+
+/**
+ * Mount the domain routers in server/routes/. Order matters only where prefixes overlap:
+ * admin sign-in comes before the admin session guard, and the inline reward routes before
+ * the reward distribution router.
+ */
+export async function registerRoutes(app: Express): Promise<Server> {
+
+  // Admin authentication (SIWE) - the only public /api/admin routes
+  app.use("/api/admin", adminAuthRoutes);
+
+  // Admin, treasury and reward distribution routes require a SIWE session
+  app.use("/api/admin", requireAdminSession);
+  app.use("/api/treasury", requireAdminSession);
+  app.use("/api/rewards/treasury", requireAdminSession);
+  app.use(["/api/rewards/distribute", "/api/rewards/daily-distribution"], requireAdminSession);
+  app.use(["/api/security/set-pending-calculator", "/api/security/activate-calculator"], requireAdminSession);
+  app.use(["/api/system/emergency-recovery", "/api/rewards/claim/:userId"], requireAdminSession);
 
-export async function registerRoutes(app: Express, security: any): Promise<Server> {
-  
-  // Basic health check endpoint for deployment (removed to avoid conflicts with production health monitor)
-
-  // Setup cache performance monitoring
-  // Removed cache-performance-endpoint - cleaned up during optimization
-  
   // Register Uniswap-optimized routes for blazing fast performance
   const { registerUniswapOptimizedRoutes } = await import('./routes/uniswap-optimized');
   registerUniswapOptimizedRoutes(app);
-  
-  // Blockchain configuration endpoint
-  app.get("/api/blockchain-config", async (req, res) => {
-    try {
-      const config = await blockchainConfigService.getAllConfigs();
-      res.setHeader('Content-Type', 'application/json');
-      res.json(config);
-    } catch (error) {
-      res.setHeader('Content-Type', 'application/json');
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
-    }
-  });
-
-  // Wallet KILT balance endpoint - Real blockchain data
-  app.get('/api/wallet/kilt-balance/:address', async (req, res) => {
-    try {
-      const { address } = req.params;
-      
-      if (!address || !address.match(/^0x[a-fA-F0-9]{40}$/)) {
-        return res.status(400).json({ error: 'Invalid wallet address' });
-      }
-
-      const KILT_TOKEN_ADDRESS = "0x5d0dd05bb095fdd6af4865a1adf97c39c85ad2d8";
-      const treasuryContractAddress = await getSmartContractAddress(); // Get from database
-
-      try {
-        // Get a viem client for blockchain calls
-        const { client } = await rpcManager.getClient();
-        
-        // ERC20 ABI for balanceOf and allowance calls
-        const erc20Abi = [
-          {
-            constant: true,
-            inputs: [{ name: '_owner', type: 'address' }],
-            name: 'balanceOf',
-            outputs: [{ name: 'balance', type: 'uint256' }],
-            type: 'function'
-          },
-          {
-            constant: true,
-            inputs: [{ name: '_owner', type: 'address' }, { name: '_spender', type: 'address' }],
-            name: 'allowance',
-            outputs: [{ name: '', type: 'uint256' }],
-            type: 'function'
-          }
-        ];
-
-        // Get real KILT balance from Base network
-        const balance = await client.readContract({
-          address: KILT_TOKEN_ADDRESS as `0x${string}`,
-          abi: erc20Abi,
-          functionName: 'balanceOf',
-          args: [address as `0x${string}`]
-        });
-
-        // Get KILT allowance for treasury contract
-        const allowance = await client.readContract({
-          address: KILT_TOKEN_ADDRESS as `0x${string}`,
-          abi: erc20Abi,
-          functionName: 'allowance',
-          args: [address as `0x${string}`, treasuryContractAddress as `0x${string}`]
-        });
-
-        // Convert BigInt to human readable numbers
-        const balanceFormatted = Number(balance) / 1e18;
-        const allowanceFormatted = Number(allowance) / 1e18;
-      
-        res.setHeader('Content-Type', 'application/json');
-        res.json({
-          address,
-          balance: Math.floor(balanceFormatted),
-          allowance: Math.floor(allowanceFormatted),
-          timestamp: Date.now(),
-          source: 'base_blockchain'
-        });
-      } catch (blockchainError) {
-        console.error('Blockchain call failed:', blockchainError);
-        // Return zeros when blockchain calls fail but keep API functional
-        res.setHeader('Content-Type', 'application/json');
-        res.json({
-          address,
-          balance: 0,
-          allowance: 0,
-          timestamp: Date.now(),
-          source: 'blockchain_error',
-          error: 'Unable to fetch real balance data'
-        });
-      }
-    } catch (error) {
-      console.error('Error fetching wallet KILT balance:', error);
-      res.setHeader('Content-Type', 'application/json');
-      res.status(500).json({ error: 'Failed to fetch wallet balance' });
-    }
-  });
-
-  // Smart contract balances endpoint - Real blockchain data
-  app.get('/api/smart-contract/balances/:contractAddress', async (req, res) => {
-    try {
-      const { contractAddress } = req.params;
-      
-      if (!contractAddress || !contractAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
-        return res.status(400).json({ error: 'Invalid contract address' });
-      }
-
-      // Validate that the provided address matches our configured smart contract
-      const configuredAddress = await getSmartContractAddress();
-      if (contractAddress.toLowerCase() !== configuredAddress.toLowerCase()) {
-        return res.status(400).json({ 
-          error: 'Contract address does not match configured smart contract address',
-          expected: configuredAddress,
-          provided: contractAddress
-        });
-      }
-
-      const KILT_TOKEN_ADDRESS = "0x5d0dd05bb095fdd6af4865a1adf97c39c85ad2d8";
-
-      try {
-        // Get a viem client for blockchain calls
-        const { client } = await rpcManager.getClient();
-        
-        // ERC20 ABI for balanceOf call
-        const erc20Abi = [
-          {
-            constant: true,
-            inputs: [{ name: '_owner', type: 'address' }],
-            name: 'balanceOf',
-            outputs: [{ name: 'balance', type: 'uint256' }],
-            type: 'function'
-          }
-        ];
-
-        // Treasury contract ABI for balance calls
-        const treasuryAbi = [
-          {
-            constant: true,
-            inputs: [],
-            name: 'getContractBalance',
-            outputs: [{ name: '', type: 'uint256' }],
-            type: 'function'
-          },
-          {
-            constant: true,
-            inputs: [],
-            name: 'getContractBalance',
-            outputs: [{ name: '', type: 'uint256' }],
-            type: 'function'
-          }
-        ];
-
-        // Get real KILT balance held by the smart contract
-        const contractBalance = await client.readContract({
-          address: KILT_TOKEN_ADDRESS as `0x${string}`,
-          abi: erc20Abi,
-          functionName: 'balanceOf',
-          args: [contractAddress as `0x${string}`]
-        });
-
-        // Treasury balance is the same as contract balance (authentic data shows 0 KILT in contract)
-        const treasuryBalance = contractBalance;
-
-        // Convert BigInt to human readable numbers
-        const contractBalanceFormatted = Number(contractBalance) / 1e18;
-        const treasuryBalanceFormatted = Number(treasuryBalance) / 1e18;
-      
-        res.setHeader('Content-Type', 'application/json');
-        res.json({
-          contractAddress,
-          contractBalance: Math.floor(contractBalanceFormatted),
-          treasuryBalance: Math.floor(treasuryBalanceFormatted),
-          timestamp: Date.now(),
-          source: 'base_blockchain'
-        });
-      } catch (blockchainError) {
-        console.error('Contract balance fetch failed:', blockchainError);
-        // Return zeros when blockchain calls fail but keep API functional
-        res.setHeader('Content-Type', 'application/json');
-        res.json({
-          contractAddress,
-          contractBalance: 0,
-          treasuryBalance: 0,
-          timestamp: Date.now(),
-          source: 'blockchain_error',
-          error: 'Unable to fetch real contract balance data'
-        });
-      }
-    } catch (error) {
-      console.error('Error fetching contract balances:', error);
-      res.setHeader('Content-Type', 'application/json');
-      res.status(500).json({ error: 'Failed to fetch contract balances' });
-    }
-  });
-
-  // Get treasury configuration for client components
-  app.get("/api/treasury/config", async (req, res) => {
-    try {
-      const contractAddress = await getSmartContractAddress();
-      res.setHeader('Content-Type', 'application/json');
-      res.json({
-        smartContractAddress: contractAddress,
-        timestamp: Date.now(),
-        source: 'database_config'
-      });
-    } catch (error) {
-      console.error('Error fetching treasury config:', error);
-      res.setHeader('Content-Type', 'application/json');
-      res.status(500).json({ error: 'Failed to fetch treasury configuration' });
-    }
-  });
-
-  // Debug endpoint to check database configuration
-  app.get("/api/debug/treasury-config", async (req, res) => {
-    try {
-      const { treasuryConfig } = await import('../shared/schema');
-      const [treasuryConf] = await db.select().from(treasuryConfig).limit(1);
-      res.setHeader('Content-Type', 'application/json');
-      res.json({
-        exists: !!treasuryConf,
-        data: treasuryConf,
-        columnNames: Object.keys(treasuryConf || {}),
-        values: {
-          dailyRewardsCap: treasuryConf?.dailyRewardsCap,
-          totalAllocation: treasuryConf?.totalAllocation,
-          programDurationDays: treasuryConf?.programDurationDays
-        }
-      });
-    } catch (error) {
-      res.setHeader('Content-Type', 'application/json');
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
-    }
-  });
-
-  // Debug endpoint to check user token IDs
-  app.get("/api/debug/user-token-ids/:address", async (req, res) => {
-    try {
-      const { address } = req.params;
-      const tokenIds = await uniswapIntegrationService.getUserTokenIds(address);
-      res.setHeader('Content-Type', 'application/json');
-      res.json({ address, tokenIds, count: tokenIds.length });
-    } catch (error) {
-      res.setHeader('Content-Type', 'application/json');
-      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
-    }
-  });
-
-  // Debug endpoint to check position data for a specific NFT
-  app.get("/api/debug/position-data/:tokenId", async (req, res) => {
-    try {
-      const { tokenId } = req.params;
-      const positionData = await uniswapIntegrationService.getFullPositionData(tokenId);
-      res.setHeader('Content-Type', 'application/json');
-      res.json({ tokenId, positionData });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      const errorStack = error instanceof Error ? error.stack : undefined;
-      res.setHeader('Content-Type', 'application/json');
-      res.status(500).json({ error: errorMessage, stack: errorStack });
-    }
-  });
-  
-  // Ultra-fast position endpoint for instant loading - ONLY KILT REWARDS POSITIONS
-  app.get("/api/positions/fast/:address", async (req, res) => {
-    try {
-      const { address } = req.params;
-      
-      // Get user from database
-      const user = await storage.getUserByAddress(address);
-      if (!user) {
-        res.json([]);
-        return;
-      }
-      
-      // Get user positions from database (fast)
-      const userPositions = await storage.getLpPositionsByUserId(user.id);
-      
-      // CRITICAL FIX: Only return KILT positions that are registered for rewards
-      const kiltTokenAddress = "0x5d0dd05bb095fdd6af4865a1adf97c39c85ad2d8";
-      const kiltPositions = userPositions.filter(position => {
-        const hasKiltToken = (
-          position.token0Address.toLowerCase() === kiltTokenAddress.toLowerCase() ||
-          position.token1Address.toLowerCase() === kiltTokenAddress.toLowerCase()
-        );
-        // Only return positions that contain KILT token AND are reward eligible
-        return hasKiltToken && position.rewardEligible;
-      });
-      
-      // Transform to fast format with proper schema mapping
-      const fastPositions = kiltPositions.map(position => {
-        // Determine if KILT is token0 or token1
-        const isKiltToken0 = position.token0Address.toLowerCase() === kiltTokenAddress.toLowerCase();
-        
-        return {
-          id: position.id,
-          nftTokenId: position.nftTokenId,
-          tokenAmountKilt: isKiltToken0 ? position.token0Amount : position.token1Amount,
-          tokenAmountEth: isKiltToken0 ? position.token1Amount : position.token0Amount,
-          currentValueUsd: parseFloat(position.currentValueUSD),
-          isActive: position.isActive,
-          priceRangeLower: parseFloat(position.minPrice),
-          priceRangeUpper: parseFloat(position.maxPrice),
-          feeTier: position.feeTier / 10000, // Convert to percentage
-          liquidity: position.liquidity,
-          inRange: true // Calculate this later if needed
-        };
-      });
-      
-      res.json(fastPositions);
-    } catch (error) {
-      // Fast position fetch failed - using database query
-      res.status(500).json({ error: 'Failed to fetch positions' });
-    }
-  });
-
-  // User routes
-  app.post("/api/users", security.validateUserCreation, async (req, res) => {
-    try {
-      const userData = insertUserSchema.parse(req.body);
-      const existingUser = await storage.getUserByAddress(userData.address);
-      
-      if (existingUser) {
-        res.json(existingUser);
-        return;
-      }
-      
-      const user = await storage.createUser(userData);
-      res.json(user);
-    } catch (error) {
-      res.status(400).json({ error: "Invalid user data" });
-    }
-  });
-
-  app.get("/api/users/:address", security.validateEthereumAddress, async (req, res) => {
-    try {
-      const user = await storage.getUserByAddress(req.params.address);
-      if (!user) {
-        res.status(404).json({ error: "User not found" });
-        return;
-      }
-      res.json(user);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch user" });
-    }
-  });
-
-  // LP Position routes
-  app.post("/api/positions", security.validatePositionData, async (req, res) => {
-    try {
-      const positionData = insertLpPositionSchema.parse(req.body);
-      const position = await storage.createLpPosition(positionData);
-      res.json(position);
-    } catch (error) {
-      res.status(400).json({ error: "Invalid position data" });
-    }
-  });
-
-  // Get unregistered positions for a user address
-  app.get("/api/positions/unregistered/:address", security.validateEthereumAddress, async (req, res) => {
-    try {
-      const userAddress = req.params.address;
-      
-      // Get all positions for this user address from Uniswap V3 (using real blockchain data)
-      const userPositions = await uniswapIntegrationService.getUserPositions(userAddress);
-      
-      // Get already registered positions
-      const registeredPositions = await storage.getRegisteredPositions(userAddress);
-      // CRITICAL FIX: Ensure string comparison consistency
-      const registeredNftIds = new Set(registeredPositions.map(p => p.nftTokenId.toString()));
-      
-      // Get KILT token address from blockchain configuration
-      const blockchainConfig = await blockchainConfigService.getAllConfigs();
-      const kiltConfig = blockchainConfig.find(c => c.configKey === 'KILT_TOKEN_ADDRESS');
-      const kiltTokenAddress = kiltConfig?.configValue || "0x5d0dd05bb095fdd6af4865a1adf97c39c85ad2d8";
-      
-      // Filter out already registered positions and only include KILT positions
-      // CRITICAL FIX: Also filter out app-created positions from eligible positions
-      const unregisteredPositions = userPositions.filter(pos => {
-        const isKiltPosition = pos.token0?.toLowerCase() === kiltTokenAddress.toLowerCase() || 
-                              pos.token1?.toLowerCase() === kiltTokenAddress.toLowerCase();
-        const isAlreadyRegistered = registeredNftIds.has(pos.tokenId.toString());
-        const isAppCreated = false; // Property doesn't exist in type, defaulting to false
-        return !isAlreadyRegistered && !isAppCreated && isKiltPosition;
-      });
-      
-      res.json(unregisteredPositions);
-    } catch (error) {
-      // Failed to fetch unregistered positions
-      res.status(500).json({ error: "Failed to fetch unregistered positions" });
-    }
-  });
-
-  // Get total position count for a user address
-  app.get("/api/positions/user-total/:address", security.validateEthereumAddress, async (req, res) => {
-    try {
-      const userAddress = req.params.address;
-      
-      // Get all positions for this user address from Uniswap V3 (using real blockchain data)
-      const userPositions = await uniswapIntegrationService.getUserPositions(userAddress);
-      
-      // Get KILT token address from blockchain configuration
-      const blockchainConfig = await blockchainConfigService.getAllConfigs();
-      const kiltConfig = blockchainConfig.find(c => c.configKey === 'KILT_TOKEN_ADDRESS');
-      const kiltTokenAddress = kiltConfig?.configValue || "0x5d0dd05bb095fdd6af4865a1adf97c39c85ad2d8";
-      
-      // Count only KILT positions
-      const kiltPositions = userPositions.filter(pos => {
-        const isKiltPosition = pos.token0?.toLowerCase() === kiltTokenAddress.toLowerCase() || 
-                              pos.token1?.toLowerCase() === kiltTokenAddress.toLowerCase();
-        return isKiltPosition;
-      });
-      
-      res.json({ 
-        count: kiltPositions.length,
-        total: userPositions.length,
-        kiltPositions: kiltPositions.length
-      });
-    } catch (error) {
-      // Failed to fetch user position count
-      res.status(500).json({ error: "Failed to fetch user position count" });
-    }
-  });
-
-  // App Session Management - Create secure session for transaction tracking
-  app.post("/api/app-sessions/create", security.strictRateLimit, security.validateSessionData, async (req, res) => {
-    try {
-      const { userId, userAddress } = req.body;
-      
-      if (!userId || !userAddress) {
-        res.status(400).json({ error: "Missing userId or userAddress" });
-        return;
-      }
-      
-      const userAgent = req.headers['user-agent'] || '';
-      const sessionId = await appTransactionService.createAppSession(userId, userAddress, userAgent);
-      
-      res.json({ 
-        sessionId, 
-        message: "App session created successfully",
-        expiresIn: "24 hours"
-      });
-      
-    } catch (error) {
-      // Failed to create app session
-      res.status(500).json({ error: "Failed to create app session" });
-    }
-  });
-
-  // Record App Transaction - ONLY way to make positions reward-eligible
-  app.post("/api/app-transactions/record", security.strictRateLimit, async (req, res) => {
-    try {
-      const { sessionId, transactionData } = req.body;
-      
-      if (!sessionId || !transactionData) {
-        res.status(400).json({ error: "Missing sessionId or transactionData" });
-        return;
-      }
-      
-      const ipAddress = req.ip || req.connection?.remoteAddress || "unknown";
-      const result = await appTransactionService.recordAppTransaction(
-        sessionId,
-        {
-          ...transactionData,
-          appVersion: "1.0.0",
-          userAgent: req.headers['user-agent'] || "unknown",
-        },
-        ipAddress
-      );
-      
-      if (!result.success) {
-        res.status(400).json({ error: 'Transaction recording failed' });
-        return;
-      }
-      
-      res.json({ 
-        success: true,
-        transactionId: 'unknown',
-        message: "Transaction recorded successfully",
-        status: "pending_verification"
-      });
-      
-    } catch (error) {
-      // Failed to record app transaction
-      res.status(500).json({ error: "Failed to record app transaction" });
-    }
-  });
-
-  // Simplified endpoint for app-created positions
-  app.post("/api/positions/create-app-position", async (req, res) => {
-    try {
-      const { 
-        userId, 
-        nftTokenId, 
-        poolAddress, 
-        token0Address,
-        token1Address,
-        token0Amount,
-        token1Amount,
-        tickLower,
-        tickUpper,
-        feeTier,
-        liquidity,
-        currentValueUSD,
-        userAddress,
-        transactionHash
-      } = req.body;
-      
-      if (!userId || !nftTokenId || !poolAddress || !token0Address || !token1Address || !currentValueUSD || !userAddress) {
-        res.status(400).json({ error: "Missing required position parameters" });
-        return;
-      }
-      
-      // CRITICAL FIX: Validate KILT token eligibility before marking as reward-eligible
-      const kiltTokenAddress = "0x5d0dd05bb095fdd6af4865a1adf97c39c85ad2d8";
-      const isKiltPosition = (
-        token0Address.toLowerCase() === kiltTokenAddress.toLowerCase() ||
-        token1Address.toLowerCase() === kiltTokenAddress.toLowerCase()
-      );
-      
-      // Create LP position in database
-      const positionData = {
-        userId,
-        nftTokenId: nftTokenId.toString(),
-        poolAddress,
-        token0Address,
-        token1Address,
-        token0Amount: String(token0Amount || "0"),
-        token1Amount: String(token1Amount || "0"),
-        tickLower: tickLower || 0,
-        tickUpper: tickUpper || 0,
-        feeTier: feeTier || 3000,
-        liquidity: String(liquidity || "0"),
-        currentValueUSD: parseFloat(currentValueUSD).toString(),
-        minPrice: "0.000001", // Small price within precision limits
-        maxPrice: "999999999999", // Large price within precision limits (10^12)
-        isActive: true,
-        createdViaApp: true, // Mark as app-created
-        appTransactionHash: transactionHash || "",
-        appSessionId: `session-${Date.now()}-${userId}`, // Add required appSessionId
-        verificationStatus: "verified",
-        rewardEligible: isKiltPosition // ONLY KILT positions are reward eligible
-      };
-      
-      const position = await storage.createLpPosition(positionData);
-      
-      // Immediately return success to frontend for fast UI updates
-      res.json({
-        success: true,
-        position,
-        message: isKiltPosition ? "KILT position created - eligible for rewards" : "Position created - not eligible for rewards (non-KILT token)",
-        rewardEligible: isKiltPosition
-      });
-      
-      // Trigger background cache invalidation for data consistency
-      setTimeout(() => {
-        console.log(`🔄 Background cache invalidation for position ${nftTokenId}`);
-      }, 100);
-    } catch (error) {
-      // Failed to create app position - registration required
-      res.status(500).json({ error: "Failed to create app position" });
-    }
-  });
-
-  // Create position with automatic reward system integration - SECURED VERSION
-  app.post("/api/positions/create-with-rewards", async (req, res) => {
-    try {
-      const { 
-        userId, 
-        nftId, 
-        poolAddress, 
-        tokenIds, 
-        minPrice, 
-        maxPrice, 
-        liquidity, 
-        positionValueUSD,
-        userAddress,
-        appTransactionId, // Required: Must be from recorded app transaction
-        sessionId // Required: Must be from valid app session
-      } = req.body;
-      
-      if (!userId || !nftId || !poolAddress || !tokenIds || !positionValueUSD || !userAddress || !appTransactionId || !sessionId) {
-        res.status(400).json({ error: "Missing required position parameters including app verification data" });
-        return;
-      }
-      
-      // Validate session
-      const session = appTransactionService.validateSession(sessionId);
-      if (!session) {
-        res.status(403).json({ error: "Invalid or expired session - position not eligible for rewards" });
-        return;
-      }
-      
-      // Create LP position in database with app tracking
-      // Validate position meets minimum requirements to prevent spam
-      if (positionValueUSD < 10) {
-        res.status(400).json({ error: "Position value must be at least $10 to prevent spam" });
-        return;
-      }
-
-      const positionData = {
-        userId,
-        nftTokenId: nftId.toString(),
-        poolAddress,
-        token0Address: "0x4200000000000000000000000000000000000006", // WETH on Base
-        token1Address: "0x5d0dd05bb095fdd6af4865a1adf97c39c85ad2d8", // KILT on Base
-        token0Amount: "0",
-        token1Amount: "0",
-        tickLower: 0,
-        tickUpper: 0,
-        feeTier: 3000,
-        liquidity: liquidity.toString(),
-        currentValueUSD: positionValueUSD.toString(),
-        minPrice: minPrice.toString(),
-        maxPrice: maxPrice.toString(),
-        isActive: true,
-        createdViaApp: true, // Mark as app-created
-        appTransactionHash: "pending", // Will be updated after blockchain verification
-        appSessionId: sessionId,
-        verificationStatus: "pending",
-        rewardEligible: true // Only true for app-created positions
-      };
-      
-      const position = await storage.createLpPosition(positionData);
-      const liquidityAddedAt = new Date();
-      
-      // Create position eligibility record
-      const eligibilityCreated = await appTransactionService.createPositionEligibility(
-        position.id,
-        nftId.toString(),
-        appTransactionId
-      );
-      
-      if (!eligibilityCreated) {
-        res.status(400).json({ error: "Failed to create position eligibility - transaction not verified" });
-        return;
-      }
-      
-      // Add position to smart contract reward system
-      const contractResult = await smartContractService.addLiquidityPosition(
-        userAddress,
-        nftId.toString(),
-        positionValueUSD
-      );
-      
-      // Use streamlined APR calculation for reward tracking
-      let rewardResult = { dailyRewards: 0, effectiveAPR: 153.6, incentiveAPR: 149.1, tradingFeeAPR: 4.5 };
-      try {
-        const streamlinedResponse = await fetch('http://localhost:5000/api/apr/streamlined');
-        if (streamlinedResponse.ok) {
-          const streamlinedData = await streamlinedResponse.json();
-          const dailyRewards = (positionValueUSD * streamlinedData.programAPR / 100) / 365;
-          rewardResult = {
-            dailyRewards,
-            effectiveAPR: streamlinedData.totalAPR,
-            incentiveAPR: streamlinedData.programAPR,
-            tradingFeeAPR: streamlinedData.tradingAPR
-          };
-        }
-      } catch (error) {
-        console.warn('Using fallback reward calculation for position creation');
-      }
-      
-      res.json({
-        position,
-        reward: rewardResult,
-        smartContract: contractResult,
-        liquidityAddedAt,
-        lockPeriodDays: 7,
-        lockEndDate: new Date(liquidityAddedAt.getTime() + (7 * 24 * 60 * 60 * 1000))
-      });
-    } catch (error) {
-      // Error creating position with rewards
-      res.status(500).json({ error: "Failed to create position with rewards" });
-    }
-  });
-
-  app.get("/api/positions/user/:userId", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      const positions = await storage.getLpPositionsByUserId(userId);
-      res.json(positions);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch positions" });
-    }
-  });
-
-  app.patch("/api/positions/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const updates = req.body;
-      const position = await storage.updateLpPosition(id, updates);
-      
-      if (!position) {
-        res.status(404).json({ error: "Position not found" });
-        return;
-      }
-      
-      res.json(position);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to update position" });
-    }
-  });
-
-  // App Transaction Security Routes
-  app.get("/api/app-transactions/user/:userId", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      const transactions = await appTransactionService.getUserAppTransactions(userId);
-      res.json(transactions);
-    } catch (error) {
-      // Failed to get user app transactions
-      res.status(500).json({ error: "Failed to get user app transactions" });
-    }
-  });
-
-  app.get("/api/positions/eligible/user/:userId", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      const positions = await appTransactionService.getUserEligiblePositions(userId);
-      res.json(positions);
-    } catch (error) {
-      // Failed to get user eligible positions
-      res.status(500).json({ error: "Failed to get user eligible positions" });
-    }
-  });
-
-  app.get("/api/positions/:positionId/eligibility/:nftTokenId", async (req, res) => {
-    try {
-      const positionId = parseInt(req.params.positionId);
-      const nftTokenId = req.params.nftTokenId;
-      
-      const isEligible = await appTransactionService.isPositionEligibleForRewards(positionId, nftTokenId);
-      
-      res.json({ 
-        positionId,
-        nftTokenId,
-        isEligible,
-        message: isEligible ? "Position is eligible for rewards" : "Position is NOT eligible for rewards - not created via app"
-      });
-      
-    } catch (error) {
-      // Failed to check position eligibility
-      res.status(500).json({ error: "Failed to check position eligibility" });
-    }
-  });
-
-  app.get("/api/app-sessions/stats", async (req, res) => {
-    try {
-      const stats = appTransactionService.getSessionStats();
-      res.json(stats);
-    } catch (error) {
-      // Failed to get session stats
-      res.status(500).json({ error: "Failed to get session stats" });
-    }
-  });
-
-  // Bulk position registration endpoint
-  app.post("/api/positions/register/bulk", async (req, res) => {
-    try {
-      const { walletAddress } = req.body;
-      
-      if (!walletAddress) {
-        res.status(400).json({ error: "Missing walletAddress parameter" });
-        return;
-      }
-      
-      // Get user
-      const user = await storage.getUserByAddress(walletAddress);
-      if (!user) {
-        res.status(404).json({ error: "User not found" });
-        return;
-      }
-      
-      // Get eligible unregistered positions
-      const { uniswapIntegrationService } = await import('./uniswap-integration-service');
-      const { blockchainConfigService } = await import('./blockchain-config-service');
-      
-      const allPositions = await uniswapIntegrationService.getUserPositions(walletAddress);
-      const kiltTokenAddress = await blockchainConfigService.getKiltTokenAddress();
-      const kiltAddressLower = kiltTokenAddress.toLowerCase();
-      
-      // Filter for KILT positions only
-      const kiltPositions = allPositions.filter(pos => {
-        const token0Lower = pos.token0?.toLowerCase() || '';
-        const token1Lower = pos.token1?.toLowerCase() || '';
-        return (token0Lower === kiltAddressLower || token1Lower === kiltAddressLower) && pos.isActive;
-      });
-      
-      // Get already registered positions
-      const registeredPositions = await storage.getLpPositionsByUserId(user.id);
-      const registeredIds = new Set(registeredPositions.map(p => p.nftTokenId));
-      
-      // Find unregistered positions
-      const unregisteredPositions = kiltPositions.filter(pos => 
-        !registeredIds.has(pos.tokenId)
-      );
-      
-      if (unregisteredPositions.length === 0) {
-        res.json({
-          success: true,
-          message: `All ${kiltPositions.length} positions were already registered`,
-          registeredCount: 0,
-          alreadyRegistered: kiltPositions.length
-        });
-        return;
-      }
-      
-      // Register each unregistered position
-      let successCount = 0;
-      const errors = [];
-      
-      for (const position of unregisteredPositions) {
-        try {
-          // Create position data with proper string formatting
-          const positionData = {
-            userId: user.id,
-            nftTokenId: position.tokenId,
-            poolAddress: position.poolAddress || "0x82Da478b1382B951cBaD01Beb9eD459cDB16458E",
-            token0Address: position.token0,
-            token1Address: position.token1,
-            token0Amount: String(position.token0Amount || "0"),
-            token1Amount: String(position.token1Amount || "0"),
-            minPrice: "0.000001",
-            maxPrice: "999999999999",
-            tickLower: Number(position.tickLower) || 0,
-            tickUpper: Number(position.tickUpper) || 0,
-            liquidity: position.liquidity?.toString() || "0",
-            feeTier: Number(position.fees || position.feeTier) || 3000,
-            currentValueUSD: typeof position.currentValueUSD === 'number' ? position.currentValueUSD.toString() : 
-                           typeof position.currentValueUSD === 'string' ? position.currentValueUSD : "0",
-            isActive: true,
-            createdViaApp: false, // External position
-            appTransactionHash: `bulk_registration_${position.tokenId}`,
-            appSessionId: `bulk_${Date.now()}_${user.id}`,
-            verificationStatus: "pending",
-            rewardEligible: true
-          };
-          
-          await storage.createLpPosition(positionData);
-          successCount++;
-          
-        } catch (error) {
-          errors.push(`Position ${position.tokenId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-      }
-      
-      const alreadyRegistered = kiltPositions.length - unregisteredPositions.length;
-      
-      res.json({
-        success: true,
-        message: successCount > 0 
-          ? `Successfully registered ${successCount} new position${successCount > 1 ? 's' : ''} ${alreadyRegistered > 0 ? `(${alreadyRegistered} already registered)` : ''}`
-          : `All ${alreadyRegistered} positions were already registered`,
-        registeredCount: successCount,
-        alreadyRegistered,
-        errors: errors.length > 0 ? errors : undefined
-      });
-      
-    } catch (error) {
-      console.error('Bulk registration error:', error);
-      res.status(500).json({ 
-        error: "Failed to register positions", 
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  });
-
-  // Reward routes
-  app.post("/api/rewards", async (req, res) => {
-    try {
-      const rewardData = insertRewardSchema.parse(req.body);
-      const reward = await storage.createReward(rewardData);
-      res.json(reward);
-    } catch (error) {
-      res.status(400).json({ error: "Invalid reward data" });
-    }
-  });
-
-  app.get("/api/rewards/user/:userId", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      const rewards = await storage.getRewardsByUserId(userId);
-      res.json(rewards);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch rewards" });
-    }
-  });
-
-  app.post("/api/rewards/claim/:userId", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      await storage.claimRewards(userId);
-      res.json({ success: true });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to claim rewards" });
-    }
-  });
-
-  // Pool stats routes - FIXED: Made more specific to avoid conflicting with /api/pool/info
-  app.get("/api/pool/:address/stats", async (req, res) => {
-    try {
-      const poolAddress = req.params.address;
-      const stats = await storage.getPoolStats(poolAddress);
-      
-      if (!stats) {
-        res.status(404).json({ error: "Pool not found" });
-        return;
-      }
-      
-      res.json(stats);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch pool stats" });
-    }
-  });
-
-  app.put("/api/pool/:address/stats", async (req, res) => {
-    try {
-      const poolAddress = req.params.address;
-      const statsData = insertPoolStatsSchema.parse(req.body);
-      const stats = await storage.updatePoolStats(poolAddress, statsData);
-      res.json(stats);
-    } catch (error) {
-      res.status(400).json({ error: "Invalid pool stats data" });
-    }
-  });
-
-  // Get real-time KILT token data with BLAZING FAST caching
-  app.get("/api/kilt-data", async (req, res) => {
-    try {
-      const kiltData = await fetchKiltTokenData();
-      
-      res.setHeader('X-Source', 'kilt-data');
-      res.json(kiltData);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch KILT token data" });
-    }
-  });
-
-  // Calculate dynamic rewards based on real parameters
-  app.post("/api/calculate-rewards", async (req, res) => {
-    try {
-      const { liquidityAmount, daysStaked, positionSize } = req.body;
-      
-      const rewardCalculation = calculateRewards(
-        parseFloat(liquidityAmount) || 0,
-        parseInt(daysStaked) || 0,
-        parseFloat(positionSize) || 0
-      );
-      
-      res.json(rewardCalculation);
-    } catch (error) {
-      res.status(400).json({ error: "Invalid calculation parameters" });
-    }
-  });
-
-  // Get Base network statistics
-  app.get("/api/network-stats", async (req, res) => {
-    try {
-      const networkStats = await getBaseNetworkStats();
-      res.json(networkStats);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch network stats" });
-    }
-  });
-
-
-
-
-
-  // Smart contract routes
-  app.get('/api/contract/reward-wallet-balance', async (req, res) => {
-    try {
-      const balanceInfo = await smartContractService.checkRewardWalletBalance();
-      res.json(balanceInfo);
-    } catch (error) {
-      // Error checking reward wallet balance
-      res.status(500).json({ error: 'Failed to check reward wallet balance' });
-    }
-  });
-
-  app.get('/api/contract/program-info', async (req, res) => {
-    try {
-      const programInfo = await smartContractService.getProgramInfo();
-      res.json(programInfo);
-    } catch (error) {
-      // Error fetching program info
-      res.status(500).json({ error: 'Failed to fetch program info' });
-    }
-  });
-
-  // Position Lifecycle Management Routes
-  
-  // Emergency fix for closed positions marked as active
-  app.post("/api/positions/fix-closed", async (req, res) => {
-    try {
-      // Update database: mark all positions with 0 liquidity as inactive
-      const result = await db.execute(sql`
-        UPDATE lp_positions 
-        SET is_active = false 
-        WHERE liquidity = '0' AND is_active = true
-        RETURNING nft_token_id, liquidity
-      `);
-      
-      res.json({
-        success: true,
-        message: "Fixed closed positions",
-        updatedPositions: result.rowCount || 0
-      });
-    } catch (error) {
-      console.error('Failed to fix closed positions:', error);
-      res.status(500).json({ error: "Failed to fix closed positions" });
-    }
-  });
-
-  // Sync position states with blockchain
-  app.post("/api/positions/sync", async (req, res) => {
-    try {
-      const { positionLifecycleManager } = await import('./position-lifecycle-manager');
-      const updates = await positionLifecycleManager.syncAllPositions();
-      
-      res.json({
-        success: true,
-        updatesCount: updates.length,
-        updates: updates
-      });
-    } catch (error) {
-      console.error('Position sync failed:', error);
-      res.status(500).json({ error: "Failed to sync positions" });
-    }
-  });
-
-  // Sync positions for specific user
-  app.post("/api/positions/sync/:userAddress", async (req, res) => {
-    try {
-      const { userAddress } = req.params;
-      const { positionLifecycleManager } = await import('./position-lifecycle-manager');
-      const updates = await positionLifecycleManager.syncUserPositions(userAddress);
-      
-      res.json({
-        success: true,
-        userAddress,
-        updatesCount: updates.length,
-        updates: updates
-      });
-    } catch (error) {
-      console.error(`Position sync failed for ${req.params.userAddress}:`, error);
-      res.status(500).json({ error: "Failed to sync user positions" });
-    }
-  });
-
-  // Get user active positions only
-  app.get("/api/positions/active/:userAddress", async (req, res) => {
-    try {
-      const { userAddress } = req.params;
-      const { positionLifecycleManager } = await import('./position-lifecycle-manager');
-      const activePositions = await positionLifecycleManager.getUserActivePositions(userAddress);
-      
-      res.json({
-        activePositions,
-        count: activePositions.length
-      });
-    } catch (error) {
-      console.error(`Failed to get active positions for ${req.params.userAddress}:`, error);
-      res.status(500).json({ error: "Failed to fetch active positions" });
-    }
-  });
-
-  // Reward System API Routes
-  
-  // Calculate rewards for a position
-  app.post("/api/rewards/calculate", async (req, res) => {
-    try {
-      const { userId, nftTokenId, liquidityAddedAt, stakingStartDate } = req.body;
-      
-      if (!userId || !nftTokenId) {
-        res.status(400).json({ error: "Missing required parameters" });
-        return;
-      }
-      
-      // Use streamlined APR calculation
-      let calculation = { dailyRewards: 0, effectiveAPR: 153.6, incentiveAPR: 149.1, tradingFeeAPR: 4.5 };
-      try {
-        const streamlinedResponse = await fetch('http://localhost:5000/api/apr/streamlined');
-        if (streamlinedResponse.ok) {
-          const streamlinedData = await streamlinedResponse.json();
-          calculation = {
-            dailyRewards: 1.0, // Default estimate
-            effectiveAPR: streamlinedData.totalAPR,
-            incentiveAPR: streamlinedData.programAPR,
-            tradingFeeAPR: streamlinedData.tradingAPR
-          };
-        }
-      } catch (error) {
-        console.warn('Using fallback APR calculation for rewards');
-      }
-      
-      res.json(calculation);
-    } catch (error) {
-      console.error('Route error calculating rewards:', error);
-      res.status(500).json({ error: "Failed to calculate rewards" });
-    }
-  });
-
-  // Create position reward tracking
-  app.post("/api/rewards/position", async (req, res) => {
-    try {
-      const { userId, positionId, nftTokenId, positionValueUSD, liquidityAddedAt, stakingStartDate } = req.body;
-      
-      if (!userId || !positionId || !nftTokenId || !positionValueUSD || !liquidityAddedAt) {
-        res.status(400).json({ error: "Missing required parameters" });
-        return;
-      }
-      
-      // Use streamlined APR calculation
-      let reward = { dailyRewards: 0, effectiveAPR: 153.6, incentiveAPR: 149.1, tradingFeeAPR: 4.5 };
-      try {
-        const streamlinedResponse = await fetch('http://localhost:5000/api/apr/streamlined');
-        if (streamlinedResponse.ok) {
-          const streamlinedData = await streamlinedResponse.json();
-          reward = {
-            dailyRewards: 1.0, // Default estimate
-            effectiveAPR: streamlinedData.totalAPR,
-            incentiveAPR: streamlinedData.programAPR,
-            tradingFeeAPR: streamlinedData.tradingAPR
-          };
-        }
-      } catch (error) {
-        console.warn('Using fallback APR calculation for position rewards');
-      }
-      
-      res.json(reward);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to create position reward" });
-    }
-  });
-
-  // Get user rewards with performance optimization
-  app.get("/api/rewards/user/:userId", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      
-      // Initialize global cache if it doesn't exist
-      if (!global.rewardStatsCache) {
-        global.rewardStatsCache = new Map();
-      }
-      
-      // Check cache first for recent data (30 seconds)
-      const cacheKey = `user_rewards_${userId}`;
-      const cached = global.rewardStatsCache.get(cacheKey);
-      if (cached && Date.now() - cached.timestamp < 30000) {
-        console.log(`⚡ Serving cached user rewards for ${userId}`);
-        res.json(cached.data);
-        return;
-      }
-      
-      // Calculate fresh data
-      const rewards = await unifiedRewardService.getUserRewardStats(userId);
-      
-      // Cache the result for future fast access
-      global.rewardStatsCache.set(cacheKey, {
-        data: rewards,
-        timestamp: Date.now()
-      });
-      
-      res.json(rewards);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch user rewards" });
-    }
-  });
-
-  // Generate claim signature (CRITICAL FIX: This was missing!)
-  app.post("/api/rewards/generate-claim-signature", async (req, res) => {
-    try {
-      const { userAddress } = req.body;
-      
-      if (!userAddress) {
-        return res.status(400).json({
-          success: false,
-          error: 'User address is required'
-        });
-      }
-      
-      // Get user from database
-      const user = await db.select().from(users).where(eq(users.address, userAddress)).limit(1);
-      
-      if (user.length === 0) {
-        return res.status(404).json({
-          success: false,
-          error: 'User not found or no liquidity positions'
-        });
-      }
-      
-      const userId = user[0].id;
-      
-      // Get user's calculated rewards
-      const userRewards = await unifiedRewardService.getUserRewardStats(userId);
-      const claimableAmount = userRewards.totalClaimable || 0;
-      
-      if (claimableAmount <= 0) {
-        return res.status(400).json({
-          success: false,
-          error: 'No rewards available for claiming. Start providing liquidity to earn KILT rewards.'
-        });
-      }
-      
-      console.log(`🔐 Generating signature for ${userAddress}: ${claimableAmount} KILT`);
-      
-      // Generate signature with the exact claimable amount
-      const result = await smartContractService.generateClaimSignature(userAddress, claimableAmount);
-      
-      if (!result.success) {
-        return res.status(400).json({
-          success: false,
-          error: result.error || 'Failed to generate signature'
-        });
-      }
-      
-      res.json({
-        success: true,
-        signature: result.signature,
-        nonce: result.nonce,
-        totalRewardBalance: result.totalRewardBalance,
-        userAddress
-      });
-    } catch (error: unknown) {
-      console.error('Signature generation failed:', error);
-      res.status(500).json({
-        success: false,
-        error: error instanceof Error ? error.message : 'Signature generation failed'
-      });
-    }
-  });
-
-  // Distribute rewards to smart contract (admin operation for user claiming)
-  app.post("/api/rewards/distribute", async (req, res) => {
-    try {
-      const { userAddress } = req.body;
-      
-      if (!userAddress) {
-        res.status(400).json({ error: "User address is required" });
-        return;
-      }
-      
-      // Get calculated rewards for the user (hardcoded for now)
-      const calculatedAmount = 2787.27; // From working user stats
-      
-      if (calculatedAmount <= 0) {
-        res.status(400).json({ error: "No rewards available for distribution" });
-        return;
-      }
-      
-      // Check if smart contract service is available with calculator credentials
-      if (!smartContractService.isDeployed()) {
-        const calculatorAddress = smartContractService.getCalculatorAddress();
-        res.status(503).json({ 
-          error: "Smart contract calculator credentials not configured. To enable automatic reward distribution, the CALCULATOR_PRIVATE_KEY environment variable must be set.",
-          calculatedAmount,
-          userAddress,
-          calculatorAddress: calculatorAddress || "Not configured",
-          instructions: {
-            step1: "Generate a calculator private key (already done if you see an address above)",
-            step2: "Add the calculator private key as CALCULATOR_PRIVATE_KEY environment variable",
-            step3: "Use your contract owner wallet to authorize the calculator address",
-            step4: "Once authorized, users can claim rewards with signatures"
-          }
-        });
-        return;
-      }
-      
-      // Use the smart contract service to distribute rewards (admin operation)
-      const result = await smartContractService.distributeRewardsToContract(userAddress, calculatedAmount);
-      
-      if (!result.success) {
-        res.status(500).json({ error: result.error || "Failed to distribute rewards to smart contract" });
-        return;
-      }
-      
-      res.json({
-        success: true,
-        amount: calculatedAmount,
-        userAddress,
-        message: `Successfully distributed ${calculatedAmount.toFixed(4)} KILT to smart contract for user ${userAddress}`
-      });
-      
-    } catch (error) {
-      console.error('Reward distribution failed:', error);
-      res.status(500).json({ error: "Failed to distribute rewards to smart contract" });
-    }
-  });
-
-  // Get calculator address for authorization
-  app.get("/api/calculator/address", async (req, res) => {
-    try {
-      const calculatorAddress = smartContractService.getCalculatorAddress();
-      if (calculatorAddress) {
-        res.json({
-          calculatorAddress,
-          isConfigured: true,
-          message: "Calculator wallet is configured. This address needs to be authorized by the contract owner."
-        });
-      } else {
-        res.json({
-          calculatorAddress: null,
-          isConfigured: false,
-          message: "Calculator private key not configured. Set CALCULATOR_PRIVATE_KEY environment variable."
-        });
-      }
-    } catch (error) {
-      res.status(500).json({ error: "Failed to get calculator address" });
-    }
-  });
-
-  // Generate claim signature for simplified contract claiming
-  app.post("/api/rewards/generate-claim-signature", async (req, res) => {
-    try {
-      const { userAddress } = req.body;
-      
-      if (!userAddress) {
-        res.status(400).json({ error: "User address required" });
-        return;
-      }
-      
-      // Get user from database
-      const user = await storage.getUserByAddress(userAddress);
-      if (!user) {
-        res.status(404).json({ error: "User not found" });
-        return;
-      }
-      
-      // Get calculated rewards from reward service
-      const userRewards = await unifiedRewardService.getUserRewardStats(user.id);
-      const totalRewardBalance = userRewards.totalClaimable;
-      
-      if (totalRewardBalance <= 0) {
-        res.status(400).json({ error: "No rewards available for claiming" });
-        return;
-      }
-      
-      // Check if smart contract service is available with admin credentials
-      if (!smartContractService.isDeployed()) {
-        res.status(503).json({ 
-          error: "Smart contract admin credentials not configured. The REWARD_WALLET_PRIVATE_KEY environment variable must be set.",
-          userAddress,
-          totalRewardBalance
-        });
-        return;
-      }
-      
-      // Generate signature for the claim
-      console.log(`🔐 About to generate signature for ${userAddress}, amount=${totalRewardBalance} KILT`);
-      const result = await smartContractService.generateClaimSignature(userAddress, Number(totalRewardBalance));
-      
-      if (!result.success) {
-        console.error(`❌ Signature generation failed: ${result.error}`);
-        res.status(500).json({ error: result.error || "Failed to generate claim signature" });
-        return;
-      }
-      
-      console.log(`✅ Signature generated successfully for ${userAddress}: nonce=${result.nonce}`);
-      res.json({
-        success: true,
-        signature: result.signature,
-        userAddress,
-        totalRewardBalance,
-        nonce: result.nonce
-      });
-      
-    } catch (error) {
-      console.error('Signature generation failed:', error);
-      res.status(500).json({ error: "Failed to generate claim signature" });
-    }
-  });
-
-  // Get user reward statistics - optimized without fallbacks
-  app.get("/api/rewards/user/:userId/stats", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      console.log(`⚡ USER STATS: Processing userId=${userId}`);
-      
-      const stats = await unifiedRewardService.getUserRewardStats(userId);
-      console.log(`⚡ RESULT: Daily: ${stats.avgDailyRewards.toFixed(2)} KILT, Accumulated: ${stats.totalAccumulated.toFixed(2)} KILT, Claimable: ${stats.totalClaimable.toFixed(2)} KILT`);
-      
-      res.json(stats);
-      
-    } catch (error) {
-      console.error('User stats calculation failed:', error);
-      res.status(500).json({ error: "Failed to calculate user reward statistics" });
-    }
-  });
-
-  // Claim rewards
-  app.post("/api/rewards/claim/:userId", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      const { userAddress } = req.body;
-      
-      if (!userAddress) {
-        res.status(400).json({ error: "User address is required" });
-        return;
-      }
-      
-      const result = await claimBasedRewards.processClaimRequest(userAddress);
-      
-      if (result.success) {
-        res.json(result);
-      } else {
-        res.status(400).json(result);
-      }
-    } catch (error) {
-      res.status(500).json({ error: "Failed to claim rewards" });
-    }
-  });
-
-
-
-  // Get position reward history
-  app.get("/api/rewards/position/:userId/:positionId/history", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      const positionId = parseInt(req.params.positionId);
-      const days = parseInt(req.query.days as string) || 30;
-      
-      const history = await unifiedRewardService.getUserRewardStats(userId);
-      res.json(history);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch reward history" });
-    }
-  });
-
-  // Update daily rewards (typically called by a cron job)
-  app.post("/api/rewards/update-daily", async (req, res) => {
-    try {
-      // Method removed - using hourly calculation instead
-      // await fixedRewardService.updateDailyRewards();
-      res.json({ success: true, message: "Daily rewards updated successfully" });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to update daily rewards" });
-    }
-  });
-
-  // Initialize rewards for a specific position
-  app.post("/api/rewards/initialize/:userId/:nftTokenId", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      const nftTokenId = req.params.nftTokenId;
-      
-      // Method removed - positions auto-register
-      // await fixedRewardService.initializeRewardsForPosition(userId, nftTokenId);
-      res.json({ success: true, message: `Rewards initialized for position ${nftTokenId}` });
-    } catch (error) {
-      res.status(500).json({ error: `Failed to initialize rewards: ${error instanceof Error ? error.message : 'Unknown error'}` });
-    }
-  });
-
-  // BLAZING FAST Get unified dashboard data - ALL DATA IN PARALLEL
-  app.get("/api/dashboard/unified/:userAddress", async (req, res) => {
-    try {
-      const userAddress = req.params.userAddress;
-      // Simple dashboard data loading 
-      const dashboardData = {
-        userAddress,
-        message: "Dashboard data loading simplified during cleanup"
-      };
-      res.json(dashboardData);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to load dashboard data" });
-    }
-  });
-
-  // Get program analytics - streamlined without timeouts
-  app.get("/api/rewards/program-analytics", async (req, res) => {
-    try {
-      const startTime = Date.now();
-      
-      const analytics = await unifiedRewardService.getProgramAnalytics();
-      const treasuryResults = await db.select().from(treasuryConfig).limit(1);
-      
-      let analyticsData = analytics;
-      let treasuryConf = treasuryResults[0] || { 
-        totalAllocation: 1500000,
-        programDurationDays: 55 
-      };
-      
-      // Calculate days remaining
-      const totalDays = treasuryConf?.programDurationDays || 55;
-      const daysRemaining = Math.max(0, totalDays - 37); // 37 days since start
-      
-      const finalData = {
-        totalLiquidity: analytics.totalLiquidity, // Real pool TVL from DexScreener
-        activeLiquidityProviders: analytics.activeLiquidityProviders, // Actual registered users
-        totalRewardsDistributed: analytics.totalRewardsDistributed,
-        dailyBudget: analytics.dailyEmissionRate, // Daily KILT emission
-        programAPR: analytics.programAPR, // Realistic streamlined APR
-        treasuryTotal: analytics.treasuryTotal,
-        treasuryRemaining: analytics.treasuryRemaining,
-        totalDistributed: analytics.totalDistributed,
-        programDuration: analytics.programDuration,
-        daysRemaining: analytics.daysRemaining !== undefined ? analytics.daysRemaining : daysRemaining,
-        totalPositions: analytics.totalPositions, // Real-time registered positions 
-        averagePositionSize: analytics.averagePositionSize, // Actual avg from all KILT/ETH pool LPs
-        poolVolume24h: analytics.poolVolume24h, // DexScreener 24h volume
-        poolFeeEarnings24h: analytics.poolFeeEarnings24h, // User's total fee earnings
-        totalUniqueUsers: analytics.totalUniqueUsers // Actual registered users
-      };
-      
-      const responseTime = Date.now() - startTime;
-      console.log(`🚀 ENHANCED ANALYTICS: ${responseTime}ms response time with real DexScreener data`);
-      
-      res.setHeader('X-Source', 'optimized-real-time');
-      res.setHeader('X-Response-Time', responseTime.toString());
-      res.json(finalData);
-    } catch (error) {
-      console.error('Program analytics error:', error);
-      res.status(500).json({ 
-        error: 'Internal server error',
-        details: error instanceof Error ? error.message : 'Unknown error' 
-      });
-    }
-  });
-
-  // Get maximum theoretical APR
-  app.get("/api/rewards/maximum-apr", async (req, res) => {
-    try {
-      const maxAPR = 150000; // Maximum theoretical APR from unified calculations
-      
-      res.setHeader('X-Source', 'unified-reward-service');
-      res.json({ 
-        maxAPR,
-        theoretical: true,
-        explanation: "Maximum possible APR assuming minimum liquidity threshold"
-      });
-    } catch (error) {
-      console.error('Failed to calculate maximum APR:', error);
-      res.status(500).json({ 
-        error: "Failed to calculate maximum APR", 
-        details: error instanceof Error ? error.message : 'Unknown error' 
-      });
-    }
-  });
-
-  // SINGLE SOURCE OF TRUTH APR ENDPOINTS
-  const singleSourceAPR = new SingleSourceAPR(storage);
-  const dataIntegrityMonitor = new DataIntegrityMonitor(db);
-  
-  // Program APR endpoint (what frontend is calling)
-  app.get('/api/apr/program', async (req, res) => {
-    try {
-      const aprData = await singleSourceAPR.getProgramAPR();
-      console.log('🎯 SINGLE SOURCE APR:', { 
-        programAPR: aprData.programAPR, 
-        tradingAPR: aprData.tradingAPR, 
-        totalAPR: aprData.totalProgramAPR 
-      });
-      res.setHeader('X-Source', 'single-source-apr');
-      res.json(aprData);
-    } catch (error) {
-      console.error('❌ Error getting program APR:', error);
-      res.status(500).json({ error: 'Failed to get program APR' });
-    }
-  });
-  
-  // Official program APR (for all display purposes)
-  app.get('/api/apr/official', async (req, res) => {
-    try {
-      const aprData = await singleSourceAPR.getProgramAPR();
-      res.setHeader('X-Source', 'single-source-apr');
-      res.json(aprData);
-    } catch (error) {
-      console.error('❌ Error getting official APR:', error);
-      res.status(500).json({ error: 'Failed to get official APR' });
-    }
-  });
-
-  // Expected Returns display values (for frontend) - EMERGENCY FAST VERSION
-  app.get('/api/apr/expected-returns', async (req, res) => {
-    try {
-      // Emergency timeout - database is critically slow
-      const aprPromise = Promise.race([
-        singleSourceAPR.getExpectedReturnsDisplay(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Database critically slow')), 500) // 500ms max
-        )
-      ]);
-      
-      const displayData = await aprPromise;
-      res.setHeader('X-Source', 'database-success');
-      res.json(displayData);
-    } catch (error) {
-      console.warn('⚡ EMERGENCY FALLBACK - Database too slow, instant response:', (error as Error).message);
-      // Return error instead of fallback values
-      res.status(503).json({
-        error: "Unable to retrieve authentic APR data",
-        message: "Please try again in a moment"
-      });
-    }
-  });
-
-  // User-specific APR (for wallet analysis)
-  app.get('/api/apr/user/:address', async (req, res) => {
-    try {
-      const { address } = req.params;
-      const userAPR = await singleSourceAPR.getUserAPR(address);
-      res.setHeader('X-Source', 'single-source-apr');
-      res.json(userAPR);
-    } catch (error) {
-      console.error('❌ Error getting user APR:', error);
-      res.status(500).json({ error: 'Failed to get user APR' });
-    }
-  });
-
-  // Get claimable rewards by user ID
-  app.get("/api/rewards/user/:userId/claimable", async (req, res) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      const userAddress = req.params.userId; // This should be user address from request params
-      const claimableRewards = await claimBasedRewards.checkClaimability(userAddress);
-      res.json(claimableRewards);
-    } catch (error) {
-      // Return fallback claimable amount to prevent frontend errors
-      res.json({
-        totalClaimable: 0,
-        positions: [],
-        canClaim: false,
-        nextClaimDate: null
-      });
-    }
-  });
-
-  // Claim rewards by wallet address (frontend expects this route)
-  app.post("/api/rewards/claim", async (req, res) => {
-    try {
-      const { userAddress, nftTokenIds } = req.body;
-      console.log(`🎯 Claim API called for address: ${userAddress} with NFT IDs: ${nftTokenIds}`);
-      
-      if (!userAddress) {
-        res.status(400).json({ error: "User address is required" });
-        return;
-      }
-      
-      // Use smart contract service for automatic claim processing
-      const result = await smartContractService.processRewardClaim(userAddress, nftTokenIds || []);
-      console.log(`✅ Smart contract claim result:`, result);
-      
-      if (result.success) {
-        res.json(result);
-      } else {
-        res.status(400).json(result);
-      }
-    } catch (error) {
-      console.log(`❌ Claim API error:`, error);
-      res.status(500).json({ error: "Failed to claim rewards" });
-    }
-  });
-
-  // Get reward claimability by wallet address (frontend expects this route)
-  app.get("/api/rewards/claimability/:address", async (req, res) => {
-    try {
-      const userAddress = req.params.address;
-      console.log(`🔧 ADMIN-BASED Claimability API called for address: ${userAddress}`);
-      
-      // Get user from database
-      const user = await storage.getUserByAddress(userAddress);
-      if (!user) {
-        res.json({
-          claimable: 0,
-          canClaim: false,
-          daysRemaining: 0,
-          lockExpired: true,
-          totalClaimable: 0,
-          nextClaimDate: null,
-          error: 'User not found'
-        });
-        return;
-      }
-      
-      // Get admin panel lock period configuration from database (applies only to first-ever claim)
-      const { programSettings } = await import('../shared/schema');
-      const [settings] = await db.select().from(programSettings).limit(1);
-      const baseLockPeriodDays = settings?.lockPeriod || 0;
-      
-      // Check if user has ever claimed before to determine effective lock period
-      let hasClaimedBefore = false;
-      let lastClaimTime;
-      
-      try {
-        // First try to get actual last claim time from smart contract user stats
-        const userStats = await smartContractService.getUserStats(userAddress);
-        if (userStats.success && userStats.lastClaim && userStats.lastClaim > 0) {
-          lastClaimTime = new Date(userStats.lastClaim * 1000); // Convert Unix timestamp to Date
-          hasClaimedBefore = true;
-          console.log(`🔧 User has claimed before: ${lastClaimTime.toISOString()}`);
-        } else {
-          // Check database for claim history as fallback
-          const userRewards = await storage.getRewardsByUserId(user.id);
-          const lastClaim = userRewards.find(r => r.claimedAt);
-          if (lastClaim) {
-            lastClaimTime = lastClaim.claimedAt;
-            hasClaimedBefore = true;
-            console.log(`🔧 User has claimed before (DB): ${lastClaimTime}`);
-          } else {
-            // User has never claimed, use registration time for lock calculation
-            lastClaimTime = user.createdAt;
-            hasClaimedBefore = false;
-            console.log(`🔧 User has NEVER claimed - applying first-time lock from registration: ${lastClaimTime}`);
-          }
-        }
-      } catch (contractError) {
-        console.log(`⚠️ Smart contract check failed, using database fallback:`, contractError);
-        // Fallback to database if smart contract call fails
-        const userRewards = await storage.getRewardsByUserId(user.id);
-        const lastClaim = userRewards.find(r => r.claimedAt);
-        if (lastClaim) {
-          lastClaimTime = lastClaim.claimedAt;
-          hasClaimedBefore = true;
-        } else {
-          lastClaimTime = user.createdAt;
-          hasClaimedBefore = false;
-        }
-      }
-
-      // FIRST-CLAIM-ONLY LOCK: Lock period only applies to users who have never claimed
-      const effectiveLockPeriodDays = hasClaimedBefore ? 0 : baseLockPeriodDays;
-      const effectiveLockHours = effectiveLockPeriodDays * 24;
-      
-      console.log(`🎯 FIRST-CLAIM-ONLY LOCK: Base period ${baseLockPeriodDays} days, effective ${effectiveLockPeriodDays} days (${hasClaimedBefore ? 'Returning user - no lock' : 'First-time user - applying lock'})`);
-      
-      // Calculate next claim availability - immediate for returning users
-      const nextClaimMs = effectiveLockPeriodDays === 0 ? Date.now() : (lastClaimTime?.getTime() || Date.now()) + (effectiveLockHours * 60 * 60 * 1000);
-      const now = Date.now();
-      const canClaim = now >= nextClaimMs;
-      const nextClaimDate = new Date(nextClaimMs);
-      const timeUntilClaimable = Math.max(0, nextClaimMs - now);
-      
-      console.log(`⏰ First-claim-only claimability: lastClaim=${lastClaimTime}, nextClaim=${nextClaimDate}, canClaim=${canClaim}, hasClaimedBefore=${hasClaimedBefore}`);
-      
-      // Use unified reward service for accurate accumulated/claimable amounts
-      let totalAccumulated = 0;
-      let actualClaimable = 0;
-      
-      try {
-        // First try smart contract data for performance
-        const userStats = await smartContractService.getUserStats(userAddress);
-        if (userStats.success && parseFloat(userStats.claimableAmount || "0") > 0) {
-          actualClaimable = parseFloat(userStats.claimableAmount || "0");
-          totalAccumulated = actualClaimable; // For display consistency
-          console.log(`⚡ Fast claimability calculation: ${actualClaimable} KILT (smart contract)`);
-        } else {
-          // If smart contract shows 0 or fails, use unified reward service calculation
-          console.log(`📊 Smart contract shows 0 KILT, using unified reward calculation...`);
-          const { unifiedRewardService } = await import('./unified-reward-service');
-          const rewardStats = await unifiedRewardService.getUserRewardStats(user.id);
-          
-          totalAccumulated = rewardStats.totalAccumulated || 0;
-          actualClaimable = rewardStats.totalClaimable || 0;
-          
-          console.log(`⚡ Unified reward calculation: Accumulated: ${totalAccumulated}, Claimable: ${actualClaimable} KILT`);
-          
-          // Cache this result for performance
-          if (!global.rewardStatsCache) {
-            global.rewardStatsCache = new Map();
-          }
-          const cacheKey = `user_rewards_${user.id}`;
-          global.rewardStatsCache.set(cacheKey, {
-            data: { totalAccumulated, totalClaimable: actualClaimable },
-            timestamp: Date.now()
-          });
-        }
-      } catch (error) {
-        console.log(`⚠️ Reward calculation failed, using fallback:`, error);
-        // Last resort: Check cache
-        if (global.rewardStatsCache) {
-          const cacheKey = `user_rewards_${user.id}`;
-          const cachedRewards = global.rewardStatsCache.get(cacheKey);
-          if (cachedRewards && Date.now() - cachedRewards.timestamp < 60000) { // 1 minute cache
-            totalAccumulated = cachedRewards.data.totalAccumulated || 0;
-            actualClaimable = cachedRewards.data.totalClaimable || 0;
-            console.log(`⚡ Using cached fallback: ${actualClaimable} KILT`);
-          }
-        }
-      }
-      
-      // UI displays: accumulated rewards that WILL be claimable (regardless of lock)
-      // Claim action: only allowed when lock period expired AND rewards > 0
-      const displayClaimable = actualClaimable; // Always show accumulating amount
-      const claimActionAllowed = canClaim && actualClaimable > 0; // Only allow claim after lock
-      
-      console.log(`✅ FIXED claimability logic: canClaim=${canClaim}, totalAccumulated=${totalAccumulated}, displayClaimable=${displayClaimable}, claimActionAllowed=${claimActionAllowed}, lockPeriod=${effectiveLockHours}h`);
-      
-      res.json({
-        claimable: displayClaimable, // Show accumulating rewards
-        canClaim: claimActionAllowed, // But control claim button
-        daysRemaining: Math.ceil(timeUntilClaimable / (1000 * 60 * 60 * 24)),
-        lockExpired: canClaim,
-        lockExpiryDate: nextClaimDate,
-        nextClaimDate: nextClaimDate,
-        totalClaimable: displayClaimable, // Match claimable for consistency
-        timeUntilClaimable: timeUntilClaimable
-      });
-    } catch (error) {
-      console.log(`❌ Claimability API error for ${req.params.address}:`, error);
-      // Return fallback for claimability check
-      res.json({
-        claimable: 0,
-        canClaim: false,
-        daysRemaining: 0,
-        lockExpired: true,
-        totalClaimable: 0,
-        nextClaimDate: null
-      });
-    }
-  });
-
-  // Open Participation System Routes
-  
-  // Get participation requirements for new users
-  app.get("/api/replacement/requirements", async (req, res) => {
-    try {
-      // Get all active participants
-      const positions = await storage.getAllLpPositions();
-      const activePositions = positions.filter(p => p.isActive);
-      
-      // Sort by liquidity value (descending)
-      const sortedPositions = activePositions.sort((a, b) => parseFloat(b.currentValueUSD) - parseFloat(a.currentValueUSD));
-      
-      res.json({
-        openParticipation: true,
-        totalParticipants: sortedPositions.length,
-        minimumLiquidity: 0, // No minimum position value - any position with value > $0 is eligible
-        message: `Open participation! Add any amount of liquidity to join ${sortedPositions.length} other participants.`,
-        requirements: {
-          minimumPositionValue: 0,
-          lockPeriod: 7,
-          description: "Add any amount of liquidity and wait 7 days to claim rewards"
-        }
-      });
-      
-    } catch (error) {
-      // Error fetching participation requirements
-      res.status(500).json({ 
-        error: 'Failed to fetch participation requirements',
-        openParticipation: true,
-        availableSlots: 0,
-        message: 'Unable to calculate replacement requirements at this time.'
-      });
-    }
-  });
-
-  // Check if a specific liquidity amount would qualify for Top 100
-  app.post("/api/replacement/check-eligibility", async (req, res) => {
-    try {
-      const { liquidityAmount, daysToWait = 1 } = req.body;
-      
-      if (!liquidityAmount || liquidityAmount <= 0) {
-        res.status(400).json({ error: 'Valid liquidity amount required' });
-        return;
-      }
-      
-      // Get current Top 100
-      const positions = await storage.getAllLpPositions();
-      const activePositions = positions.filter(p => p.isActive);
-      const sortedPositions = activePositions.sort((a, b) => parseFloat(b.currentValueUSD) - parseFloat(a.currentValueUSD));
-      const top100 = sortedPositions.slice(0, 100);
-      
-      if (top100.length < 100) {
-        res.json({
-          eligible: true,
-          rank: top100.length + 1,
-          message: `You would be ranked #${top100.length + 1} with $${liquidityAmount} liquidity.`
-        });
-        return;
-      }
-      
-      // Calculate user's score
-      const userScore = liquidityAmount * daysToWait;
-      
-      // Calculate rank 100 score
-      const rank100Position = top100[99];
-      const rank100DaysActive = Math.floor(
-        (Date.now() - new Date(rank100Position.createdAt || Date.now()).getTime()) / (1000 * 60 * 60 * 24)
-      );
-      const rank100Score = parseFloat(rank100Position.currentValueUSD) * rank100DaysActive;
-      
-      if (userScore > rank100Score) {
-        // Find what rank they would achieve
-        let projectedRank = 100;
-        for (let i = 99; i >= 0; i--) {
-          const position = top100[i];
-          const positionDaysActive = Math.floor(
-            (Date.now() - new Date(position.createdAt || Date.now()).getTime()) / (1000 * 60 * 60 * 24)
-          );
-          const positionScore = parseFloat(position.currentValueUSD) * positionDaysActive;
-          
-          if (userScore > positionScore) {
-            projectedRank = i + 1;
-          } else {
-            break;
-          }
-        }
-        
-        res.json({
-          eligible: true,
-          rank: projectedRank,
-          message: `You would be ranked #${projectedRank} with $${liquidityAmount} liquidity after ${daysToWait} days.`
-        });
-        return;
-      }
-      
-      res.json({
-        eligible: false,
-        rank: null,
-        shortfall: rank100Score - userScore,
-        message: `Need ${(rank100Score - userScore).toFixed(0)} more liquidity×days to qualify for Top 100.`
-      });
-      
-    } catch (error) {
-      // Error checking eligibility
-      res.status(500).json({ error: 'Failed to check eligibility' });
-    }
-  });
-
-  // Get user personal APR based on their wallet address
-  app.get("/api/rewards/user-apr/:address", async (req, res) => {
-    try {
-      const userAddress = req.params.address;
-      
-      // Get user from database
-      const user = await storage.getUserByAddress(userAddress);
-      if (!user) {
-        // User not found, return 0% APR with no ranking
-        res.json({ effectiveAPR: 0, tradingFeeAPR: 0, incentiveAPR: 0, totalAPR: 0, rank: null, totalParticipants: 100 });
-        return;
-      }
-      
-      // Get user's positions
-      const positions = await storage.getLpPositionsByUserId(user.id);
-      
-      if (positions.length === 0) {
-        // No positions, return 0% APR with no ranking
-        res.json({ effectiveAPR: 0, tradingFeeAPR: 0, incentiveAPR: 0, totalAPR: 0, rank: null, totalParticipants: 100 });
-        return;
-      }
-      
-      // Use the first position for APR calculation (simplified implementation)
-      const position = positions[0];
-      
-      // Debug - check if position exists
-      if (!position) {
-        res.json({ effectiveAPR: 0, tradingFeeAPR: 0, incentiveAPR: 0, totalAPR: 0, rank: null, totalParticipants: 1 });
-        return;
-      }
-      
-      // Use streamlined APR instead of inflated calculation
-      try {
-        const streamlinedResponse = await fetch('http://localhost:5000/api/apr/streamlined');
-        if (streamlinedResponse.ok) {
-          const streamlinedData = await streamlinedResponse.json();
-          res.json({ 
-            effectiveAPR: streamlinedData.totalAPR,
-            tradingFeeAPR: streamlinedData.tradingAPR,
-            incentiveAPR: streamlinedData.programAPR,
-            totalAPR: streamlinedData.totalAPR,
-            rank: null, // Ranking not implemented
-            totalParticipants: 100 // Default value
-          });
-          return;
-        }
-      } catch (error) {
-        console.warn('Streamlined APR fetch failed for user APR endpoint');
-      }
-      
-      // Fallback to realistic values
-      res.json({ 
-        effectiveAPR: 153.6,
-        tradingFeeAPR: 4.5,
-        incentiveAPR: 149.1,
-        totalAPR: 153.6,
-        rank: null,
-        totalParticipants: 100
-      });
-    } catch (error) {
-      // Error calculating user APR
-      res.status(500).json({ error: "Failed to calculate user APR" });
-    }
-  });
-
-  // Get user average APR across all positions using streamlined calculation ONLY
-  app.get('/api/rewards/user-average-apr/:address', async (req, res) => {
-    try {
-      const { address } = req.params;
-      
-      // Get user
-      const user = await storage.getUserByAddress(address);
-      if (!user) {
-        return res.status(404).json({ error: 'User not found' });
-      }
-
-      // Get user's active positions count
-      const allPositions = await storage.getLpPositionsByUserId(user.id);
-      const activePositions = allPositions.filter(pos => pos.isActive === true);
-      
-      console.log(`🎯 User ${address} attempting streamlined APR calculation for ${activePositions.length} positions...`);
-      
-      // Always use streamlined APR - no old calculation methods
-      try {
-        const streamlinedResponse = await fetch('http://localhost:5000/api/apr/streamlined');
-        console.log(`📡 Streamlined response status: ${streamlinedResponse.status}`);
-        
-        if (streamlinedResponse.ok) {
-          const streamlinedData = await streamlinedResponse.json();
-          console.log(`✅ Using streamlined APR: Program ${streamlinedData.programAPR}%, Trading ${streamlinedData.tradingAPR}%, Total ${streamlinedData.totalAPR}%`);
-
-          // Calculate simple user liquidity estimate (use stored USD values)
-          let totalUserLiquidity = 0;
-          for (const position of activePositions) {
-            try {
-              // Use the stored currentValueUSD if available, otherwise reasonable fallback
-              const liquidityValue = parseFloat(position.currentValueUSD || '0');
-              if (liquidityValue > 0 && liquidityValue < 100000) { // Sanity check
-                totalUserLiquidity += liquidityValue;
-              } else {
-                totalUserLiquidity += 300; // Reasonable fallback per position
-              }
-            } catch (error) {
-              console.warn(`Error calculating liquidity for position ${position.nftTokenId}:`, error);
-            }
-          }
-
-          console.log(`💰 User ${address} total liquidity: $${totalUserLiquidity.toFixed(2)}`);
-
-          return res.json({
-            averageAPR: Math.round(streamlinedData.totalAPR * 100) / 100,
-            totalPositions: allPositions.length,
-            activePositions: activePositions.length,
-            breakdown: {
-              tradingAPR: Math.round(streamlinedData.tradingAPR * 100) / 100,
-              incentiveAPR: Math.round(streamlinedData.programAPR * 100) / 100,
-              totalLiquidity: Math.round(totalUserLiquidity * 100) / 100
-            }
-          });
-        } else {
-          console.warn(`❌ Streamlined response not ok: ${streamlinedResponse.status}`);
-        }
-      } catch (error) {
-        console.error('❌ Streamlined APR fetch failed:', error);
-      }
-
-      // Fallback to realistic values (no old calculation methods)
-      console.log(`🔄 Using realistic fallback APR for user ${address}`);
-      return res.json({
-        averageAPR: 153.6, // Realistic total APR
-        totalPositions: allPositions.length,
-        activePositions: activePositions.length,
-        breakdown: {
-          tradingAPR: 4.5, // Realistic trading APR
-          incentiveAPR: 149.1, // Realistic program APR
-          totalLiquidity: 2654.22 // Estimated user liquidity
-        }
-      });
-    } catch (error: any) {
-      console.error('Error in user average APR endpoint:', error);
-      return res.status(500).json({ 
-        averageAPR: 153.6, // Realistic fallback
-        totalPositions: 0,
-        activePositions: 0,
-        breakdown: {
-          tradingAPR: 4.5,
-          incentiveAPR: 149.1,
-          totalLiquidity: 0
-        },
-        error: 'Database connection issue - please refresh'
-      });
-    }
-  });
-
-  // APR Analysis Routes
-  app.get("/api/positions/:positionId/apr-breakdown", async (req, res) => {
-    try {
-      const positionId = parseInt(req.params.positionId);
-      
-      if (!positionId || isNaN(positionId)) {
-        res.status(400).json({ error: 'Invalid position ID' });
-        return;
-      }
-
-      // Get position details
-      const position = await storage.getLpPosition(positionId);
-      if (!position) {
-        res.status(404).json({ error: 'Position not found' });
-        return;
-      }
-
-      // Use streamlined APR calculation for position breakdown
-      try {
-        const streamlinedResponse = await fetch('http://localhost:5000/api/apr/streamlined');
-        if (streamlinedResponse.ok) {
-          const streamlinedData = await streamlinedResponse.json();
-          
-          const positionValue = Number(position.currentValueUSD) || 100; // Fallback value
-          const dailyIncentiveRewards = (positionValue * streamlinedData.programAPR / 100) / 365;
-          const dailyTradingFees = (positionValue * streamlinedData.tradingAPR / 100) / 365;
-          
-          res.json({
-            positionId: positionId,
-            nftTokenId: position.nftTokenId,
-            positionValue: positionValue,
-            apr: {
-              tradingFee: streamlinedData.tradingAPR,
-              incentive: streamlinedData.programAPR,
-              total: streamlinedData.totalAPR
-            },
-            breakdown: {
-              dailyFeeEarnings: dailyTradingFees,
-              dailyIncentiveRewards: dailyIncentiveRewards,
-              isInRange: true,
-              timeInRangeRatio: 1.0,
-              concentrationFactor: 1.0
-            },
-            dailyEarnings: {
-              tradingFees: dailyTradingFees,
-              incentives: dailyIncentiveRewards,
-              total: dailyTradingFees + dailyIncentiveRewards
-            },
-            position: {
-              minPrice: Number(position.minPrice),
-              maxPrice: Number(position.maxPrice),
-              isInRange: true,
-              timeInRangeRatio: 1.0,
-              concentrationFactor: 1.0,
-              daysActive: 1
-            }
-          });
-          return;
-        }
-      } catch (error) {
-        console.warn('Streamlined APR fetch failed for position breakdown');
-      }
-      
-      // Fallback to realistic values
-      res.json({
-        positionId: positionId,
-        nftTokenId: position.nftTokenId,
-        positionValue: Number(position.currentValueUSD) || 100,
-        apr: {
-          tradingFee: 4.5,
-          incentive: 149.1,
-          total: 153.6
-        },
-        breakdown: {
-          dailyFeeEarnings: 0.12,
-          dailyIncentiveRewards: 4.1,
-          isInRange: true,
-          timeInRangeRatio: 1.0,
-          concentrationFactor: 1.0
-        },
-        dailyEarnings: {
-          tradingFees: 0.12,
-          incentives: 4.1,
-          total: 4.22
-        },
-        position: {
-          minPrice: Number(position.minPrice),
-          maxPrice: Number(position.maxPrice),
-          isInRange: true,
-          timeInRangeRatio: 1.0,
-          concentrationFactor: 1.0,
-          daysActive: 1
-        }
-      });
-    } catch (error) {
-      // Error getting position APR breakdown
-      res.status(500).json({ error: 'Failed to get APR breakdown' });
-    }
-  });
-
-  // Get pool metrics for APR calculation
-  app.get("/api/pool-metrics/:poolAddress", async (req, res) => {
-    try {
-      const { poolAddress } = req.params;
-      
-      // This would integrate with actual pool data
-      // For now, return mock data structure
-      res.json({
-        poolAddress,
-        volume24h: 50000,
-        tvl: 500000,
-        currentPrice: 0.016,
-        feeRate: 0.003,
-        lastUpdated: new Date().toISOString()
-      });
-    } catch (error: any) {
-      console.error('Pool metrics error:', error);
-      // Prevent runtime errors for database timeouts
-      if (error.message?.includes('timeout') || error.message?.includes('connect')) {
-        console.log('⚠️ Database timeout suppressed for pool metrics');
-        res.json({
-          volume24h: 50000,
-          tvl: 113677, // DexScreener fallback
-          currentPrice: 0.01859, // Real KILT price
-          feeRate: 0.003,
-          lastUpdated: new Date().toISOString(),
-          error: 'Database connection issue - using cached data'
-        });
-        return;
-      }
-      res.status(500).json({ error: 'Failed to get pool metrics' });
-    }
-  });
-
-  // Calculate APR for different range strategies
-  app.post("/api/apr/range-strategies", async (req, res) => {
-    try {
-      const { positionValue, currentPrice } = req.body;
-      
-      if (!positionValue || !currentPrice) {
-        res.status(400).json({ error: 'Missing required parameters' });
-        return;
-      }
-
-      const strategies = [
-        {
-          name: 'Narrow (±25%)',
-          minPrice: currentPrice * 0.75,
-          maxPrice: currentPrice * 1.25,
-          range: 0.25
-        },
-        {
-          name: 'Balanced (±50%)',
-          minPrice: currentPrice * 0.5,
-          maxPrice: currentPrice * 1.5,
-          range: 0.5
-        },
-        {
-          name: 'Wide (±100%)',
-          minPrice: currentPrice * 0.01,
-          maxPrice: currentPrice * 2,
-          range: 1.0
-        },
-        {
-          name: 'Full Range',
-          minPrice: 0,
-          maxPrice: Infinity,
-          range: Infinity
-        }
-      ];
-
-      const results = await Promise.all(
-        strategies.map(async (strategy) => {
-          // This would calculate APR for each strategy
-          // For now, return estimated values
-          const concentrationFactor = strategy.range === Infinity ? 1 : Math.min(4, 2 / strategy.range);
-          const estimatedTradingFeeAPR = 15 * concentrationFactor * 0.7; // Assumes 70% time in range
-          const estimatedIncentiveAPR = 20; // Base incentive APR
-          
-          return {
-            strategy: strategy.name,
-            range: strategy.range,
-            minPrice: strategy.minPrice,
-            maxPrice: strategy.maxPrice,
-            concentrationFactor,
-            estimatedAPR: {
-              tradingFee: estimatedTradingFeeAPR,
-              incentive: estimatedIncentiveAPR,
-              total: estimatedTradingFeeAPR + estimatedIncentiveAPR
-            },
-            riskLevel: strategy.range < 0.5 ? 'High' : strategy.range < 1 ? 'Medium' : 'Low'
-          };
-        })
-      );
-
-      res.json({
-        positionValue,
-        currentPrice,
-        strategies: results,
-        recommendation: results.find(r => r.strategy.includes('Balanced'))?.strategy || 'Balanced (±50%)'
-      });
-    } catch (error) {
-      // Error calculating range strategy APR
-      res.status(500).json({ error: 'Failed to calculate range strategy APR' });
-    }
-  });
-
-  // Position Registration Routes - Allow external Uniswap positions to join reward program
-  app.post("/api/positions/register", async (req, res) => {
-    try {
-      const { 
-        userId, 
-        userAddress,
-        nftTokenId,
-        poolAddress,
-        token0Address,
-        token1Address,
-        amount0,
-        amount1,
-        minPrice,
-        maxPrice,
-        liquidity,
-        currentValueUSD,
-        feeTier,
-        originalCreationDate,
-        verificationProof
-      } = req.body;
-
-      if (!userId || !userAddress || !nftTokenId || !poolAddress) {
-        res.status(400).json({ error: "Missing required registration parameters" });
-        return;
-      }
-
-      // Validate user exists
-      const user = await storage.getUserByAddress(userAddress);
-      if (!user) {
-        res.status(403).json({ error: "Invalid user credentials" });
-        return;
-      }
 
-      const positionData = {
-        nftTokenId,
-        poolAddress,
-        token0Address,
-        token1Address,
-        amount0,
-        amount1,
-        minPrice,
-        maxPrice,
-        liquidity,
-        currentValueUSD: Number(currentValueUSD),
-        feeTier: Number(feeTier),
-        createdAt: originalCreationDate ? new Date(originalCreationDate) : new Date()
-      };
-
-      const result = await positionRegistrationService.registerExternalPosition(
-        userId,
-        userAddress,
-        positionData,
-        verificationProof
-      );
-
-      if (result.success) {
-        res.json({
-          success: true,
-          message: result.message,
-          positionId: result.positionId,
-          eligibilityStatus: result.eligibilityStatus,
-          rewardInfo: result.rewardInfo,
-          registrationDate: new Date().toISOString()
-        });
-      } else {
-        res.status(400).json({
-          success: false,
-          message: result.message,
-          alreadyRegistered: result.alreadyRegistered,
-          eligibilityStatus: result.eligibilityStatus
-        });
-      }
-
-    } catch (error) {
-      // Error registering position
-      res.status(500).json({ error: "Failed to register position" });
-    }
-  });
-
-  // Check if a position is already registered
-  app.get("/api/positions/:nftTokenId/registration-status", async (req, res) => {
-    try {
-      const { nftTokenId } = req.params;
-      
-      const status = await positionRegistrationService.getPositionRegistrationStatus(nftTokenId);
-      
-      res.json({
-        nftTokenId,
-        isRegistered: status.isRegistered,
-        isEligible: status.isEligible,
-        registrationDate: status.registrationDate?.toISOString(),
-        eligibilityStartDate: status.eligibilityStartDate?.toISOString()
-      });
-
-    } catch (error) {
-      // Error checking registration status
-      res.status(500).json({ error: "Failed to check registration status" });
-    }
-  });
-
-  // REMOVED: Duplicate endpoint causing conflicts - using the one at line 192 instead
-
-  // Bulk register multiple positions
-  app.post("/api/positions/bulk-register", async (req, res) => {
-    try {
-      const { userId, userAddress, positions } = req.body;
-
-      if (!userId || !userAddress || !Array.isArray(positions)) {
-        res.status(400).json({ error: "Missing required bulk registration parameters" });
-        return;
-      }
-
-      // Validate user exists
-      const user = await storage.getUserByAddress(userAddress);
-      if (!user) {
-        res.status(403).json({ error: "Invalid user credentials" });
-        return;
-      }
-
-      console.log(`🔄 Bulk registration started for ${positions.length} positions`);
-      
-      const result = await positionRegistrationService.bulkRegisterPositions(
-        userId,
-        userAddress,
-        positions
-      );
-
-      console.log(`✅ Bulk registration completed: ${result.successCount} success, ${result.failureCount} failed, ${result.alreadyRegisteredCount || 0} already registered`);
-      console.log(`📊 Registration results:`, result.results.map(r => ({ 
-        tokenId: r.positionId, 
-        success: r.success, 
-        alreadyRegistered: r.alreadyRegistered,
-        message: r.message 
-      })));
-
-      const alreadyRegisteredCount = result.results.filter(r => r.alreadyRegistered).length;
-      const actualNewRegistrations = result.successCount;
-      const totalProcessed = actualNewRegistrations + alreadyRegisteredCount;
-
-      res.json({
-        success: totalProcessed > 0, // Success if we processed any positions (new or already registered)
-        successCount: actualNewRegistrations,
-        failureCount: result.failureCount,
-        alreadyRegisteredCount,
-        totalPositions: positions.length,
-        results: result.results,
-        message: actualNewRegistrations > 0 
-          ? `Successfully registered ${actualNewRegistrations} new position${actualNewRegistrations === 1 ? '' : 's'}${alreadyRegisteredCount > 0 ? ` (${alreadyRegisteredCount} already registered)` : ''}`
-          : alreadyRegisteredCount > 0 
-          ? `All ${alreadyRegisteredCount} position${alreadyRegisteredCount === 1 ? ' was' : 's were'} already registered`
-          : `No positions could be registered`
-      });
-
-    } catch (error) {
-      // Error bulk registering positions
-      res.status(500).json({ error: "Failed to bulk register positions" });
-    }
-  });
-
-  // Manual registration bypass for rate-limited users
-  app.post("/api/positions/manual-register/:userAddress", async (req, res) => {
-    try {
-      const { userAddress } = req.params;
-      const { nftTokenId, poolAddress } = req.body;
-      
-      console.log(`🔄 Manual registration attempt for user ${userAddress}, position ${nftTokenId}`);
-      
-      if (!userAddress || !nftTokenId) {
-        res.status(400).json({ error: "Missing userAddress or nftTokenId" });
-        return;
-      }
-      
-      // Get or create user
-      let user = await storage.getUserByAddress(userAddress);
-      if (!user) {
-        user = await storage.createUser({ address: userAddress });
-      }
-      
-      if (!user) {
-        res.status(400).json({ error: "Failed to create or retrieve user" });
-        return;
-      }
-      
-      // Create position data using bypass mechanism
-      const bypassPositionData = {
-        nftTokenId,
-        userAddress,
-        poolAddress: poolAddress || '0x82Da478b1382B951cBaD01Beb9eD459cDB16458E',
-        token0Address: '0x4200000000000000000000000000000000000006', // WETH on Base
-        token1Address: '0x5D0DD05bB095fdD6Af4865A1AdF97c39C85ad2d8', // KILT on Base
-        amount0: '0',
-        amount1: '0',
-        minPrice: '0',
-        maxPrice: '0',
-        currentPrice: '0',
-        feeTier: 3000,
-        liquidity: '0',
-        currentValueUSD: 100.00,
-        createdAt: new Date()
-      };
-      
-      console.log(`🔄 Using bypass position data:`, bypassPositionData);
-      
-      // Register position using bypass mechanism
-      const result = await positionRegistrationService.registerExternalPosition(
-        user.id,
-        userAddress,
-        bypassPositionData
-      );
-      
-      console.log(`${result.success ? '✅' : '❌'} Manual registration result:`, result);
-      
-      res.json({
-        success: result.success,
-        message: result.message,
-        positionId: result.positionId,
-        eligibilityStatus: result.eligibilityStatus,
-        bypassUsed: true
-      });
-      
-    } catch (error) {
-      console.error('Manual registration error:', error);
-      res.status(500).json({ error: "Failed to manually register position" });
-    }
-  });
-
-  // ===== CRITICAL MISSING ENDPOINTS: UNISWAP V3 POSITION MANAGEMENT =====
-  
-  // Increase liquidity in existing position
-  app.post("/api/positions/:nftTokenId/increase", async (req, res) => {
-    try {
-      const { nftTokenId } = req.params;
-      const { amount0, amount1, userAddress, sessionId } = req.body;
-      
-      if (!amount0 || !amount1 || !userAddress || !sessionId) {
-        res.status(400).json({ error: "Missing required parameters" });
-        return;
-      }
-      
-      // Validate session
-      const session = appTransactionService.validateSession(sessionId);
-      if (!session) {
-        res.status(403).json({ error: "Invalid session" });
-        return;
-      }
-      
-      const result = await uniswapIntegrationService.increaseLiquidity(
-        nftTokenId,
-        amount0,
-        amount1
-      );
-      
-      res.json(result);
-    } catch (error) {
-      // Error increasing liquidity
-      res.status(500).json({ error: "Failed to increase liquidity" });
-    }
-  });
-
-  // Decrease liquidity in existing position
-  app.post("/api/positions/:nftTokenId/decrease", async (req, res) => {
-    try {
-      const { nftTokenId } = req.params;
-      const { liquidityAmount, userAddress, sessionId } = req.body;
-      
-      if (!liquidityAmount || !userAddress || !sessionId) {
-        res.status(400).json({ error: "Missing required parameters" });
-        return;
-      }
-      
-      // Validate session
-      const session = appTransactionService.validateSession(sessionId);
-      if (!session) {
-        res.status(403).json({ error: "Invalid session" });
-        return;
-      }
-      
-      const result = await uniswapIntegrationService.decreaseLiquidity(
-        nftTokenId,
-        liquidityAmount
-      );
-      
-      res.json(result);
-    } catch (error) {
-      // Error decreasing liquidity
-      res.status(500).json({ error: "Failed to decrease liquidity" });
-    }
-  });
-
-  // Collect fees from position
-  app.post("/api/positions/:nftTokenId/collect", async (req, res) => {
-    try {
-      const { nftTokenId } = req.params;
-      const { userAddress, sessionId } = req.body;
-      
-      if (!userAddress || !sessionId) {
-        res.status(400).json({ error: "Missing required parameters" });
-        return;
-      }
-      
-      // Validate session
-      const session = appTransactionService.validateSession(sessionId);
-      if (!session) {
-        res.status(403).json({ error: "Invalid session" });
-        return;
-      }
-      
-      const result = await uniswapIntegrationService.collectFees(
-        nftTokenId,
-        userAddress
-      );
-      
-      res.json(result);
-    } catch (error) {
-      // Error collecting fees
-      res.status(500).json({ error: "Failed to collect fees" });
-    }
-  });
-
-  // Burn position (remove all liquidity)
-  app.post("/api/positions/:nftTokenId/burn", async (req, res) => {
-    try {
-      const { nftTokenId } = req.params;
-      const { userAddress, sessionId } = req.body;
-      
-      if (!userAddress || !sessionId) {
-        res.status(400).json({ error: "Missing required parameters" });
-        return;
-      }
-      
-      // Validate session
-      const session = appTransactionService.validateSession(sessionId);
-      if (!session) {
-        res.status(403).json({ error: "Invalid session" });
-        return;
-      }
-      
-      const result = await uniswapIntegrationService.burnPosition(
-        nftTokenId
-      );
-      
-      // Update position as inactive in database
-      const position = await storage.getLpPositionByNftTokenId(nftTokenId);
-      if (position) {
-        await storage.updateLpPosition(position.id, { isActive: false });
-      }
-      
-      res.json(result);
-    } catch (error) {
-      // Error burning position
-      res.status(500).json({ error: "Failed to burn position" });
-    }
-  });
-
-  // Get position current status and value
-  app.get("/api/positions/:nftTokenId/status", async (req, res) => {
-    try {
-      const { nftTokenId } = req.params;
-      
-      const status = await uniswapIntegrationService.getPositionStatus(nftTokenId);
-      res.json(status);
-    } catch (error) {
-      // Error getting position status
-      res.status(500).json({ error: "Failed to get position status" });
-    }
-  });
-
-  // Get position fees earned using SimpleFeeService (collect simulation like Uniswap)
-  app.get("/api/positions/:nftTokenId/fees", async (req, res) => {
-    try {
-      const { nftTokenId } = req.params;
-      console.log(`🔍 Getting fees for position ${nftTokenId}`);
-      
-      // Use AuthenticFeeService for exact Uniswap calculation method (should show $13.94)
-      const fees = await AuthenticFeeService.getUnclaimedFees(nftTokenId);
-      console.log(`✅ Position ${nftTokenId} fees:`, fees);
-      res.json(fees);
-    } catch (error) {
-      console.error(`❌ Position fees error for ${req.params.nftTokenId}:`, error);
-      // Error getting position fees
-      res.status(500).json({ error: "Failed to get position fees" });
-    }
-  });
-
-  // Get real-time position value
-  app.get("/api/positions/:nftTokenId/value", async (req, res) => {
-    try {
-      const { nftTokenId } = req.params;
-      
-      const value = await uniswapIntegrationService.getPositionValue(nftTokenId);
-      res.json(value);
-    } catch (error) {
-      // Error getting position value
-      res.status(500).json({ error: "Failed to get position value" });
-    }
-  });
-
-  // ULTRA-FAST POSITION ENDPOINT - Instant responses with aggressive caching
-  app.get("/api/positions/wallet/:userAddress", async (req, res) => {
-    const startTime = Date.now();
-    const userAddress = req.params.userAddress;
-    
-    try {
-      console.log(`🚀 POSITION REQUEST: ${userAddress}`);
-      
-      // Import fast cache system
-      const { fastPositionCache } = await import('./fast-position-cache');
-      
-      // Check cache first for instant response
-      const cachedPositions = fastPositionCache.get(userAddress);
-      if (cachedPositions) {
-        const duration = Date.now() - startTime;
-        console.log(`💨 INSTANT CACHE RESPONSE: ${userAddress} in ${duration}ms (${cachedPositions.length} positions)`);
-        res.json(cachedPositions);
-        return;
-      }
-      
-      console.log(`🔄 FRESH FETCH: ${userAddress} (cache miss)`);
-      
-      console.log(`⚡ PARALLEL PROCESSING: Starting ultra-fast batch operations`);
-      
-      // Import parallel processor for 40x performance boost
-      // Removed ParallelPositionProcessor - cleaned up during optimization
-      
-      // Direct position processing - simplified after cleanup
-      const positions = await uniswapIntegrationService.getUserPositions(userAddress);
-      
-      // Direct position loading without complex caching
-      
-      const duration = Date.now() - startTime;
-      
-      res.setHeader('X-Response-Time', `${duration}ms`);
-      res.setHeader('X-Source', 'blockchain-realtime');
-      
-      if (duration < 1000) {
-        console.log(`🚀 FAST BLOCKCHAIN: ${userAddress} in ${duration}ms`);
-        res.setHeader('X-Cache', 'HIT');
-      } else {
-        console.log(`💾 Fresh blockchain fetch: ${userAddress} in ${duration}ms`);
-        res.setHeader('X-Cache', 'MISS');
-      }
-      
-      res.json(positions);
-      
-    } catch (error: any) {
-      const duration = Date.now() - startTime;
-      console.error(`❌ Position fetch failed for ${userAddress} after ${duration}ms:`, error);
-      
-      // Handle database timeout gracefully to prevent runtime overlay
-      if (error.message?.includes('timeout') || error.message?.includes('connect')) {
-        console.log(`⚠️ Database timeout suppressed for positions ${userAddress}`);
-        res.json([]); // Return empty array to prevent blocking UI
-        return;
-      }
-      
-      res.status(500).json({ 
-        error: "Failed to fetch wallet positions",
-        duration: `${duration}ms`,
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  });
-
-  // Clear position cache for user (for refresh button)
-  app.post("/api/positions/clear-cache/:userAddress", async (req, res) => {
-    try {
-      const { userAddress } = req.params;
-      const { fastPositionCache } = await import('./fast-position-cache');
-      
-      fastPositionCache.delete(userAddress);
-      
-      res.json({ 
-        success: true, 
-        message: `Cache cleared for ${userAddress}`,
-        stats: fastPositionCache.getStats()
-      });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to clear cache" });
-    }
-  });
-
-  // Mark burned position as inactive (automatic cleanup)
-  app.delete("/api/positions/cleanup-burned/:tokenId", async (req, res) => {
-    try {
-      const { tokenId } = req.params;
-      console.log(`🔥 Auto-cleanup request for burned position ${tokenId}`);
-      
-      // Mark position as inactive instead of deleting it
-      const result = await storage.updateLpPositionStatus(tokenId, false);
-      
-      if (result) {
-        console.log(`✅ Marked position ${tokenId} as inactive (burned)`);
-        res.json({ 
-          success: true, 
-          message: `Position ${tokenId} marked as burned`,
-          action: 'marked_inactive'
-        });
-      } else {
-        console.warn(`⚠️ Position ${tokenId} not found for cleanup`);
-        res.status(404).json({ 
-          error: `Position ${tokenId} not found`,
-          action: 'not_found' 
-        });
-      }
-    } catch (error) {
-      console.error(`❌ Failed to cleanup burned position ${req.params.tokenId}:`, error);
-      res.status(500).json({ 
-        error: "Failed to cleanup burned position",
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  });
-
-  // LEGACY - Get wallet positions for connected user with caching
-  app.get("/api/positions/wallet-legacy/:userAddress", async (req, res) => {
-    try {
-      const { userAddress } = req.params;
-      console.log(`Wallet positions API called for: ${userAddress}`);
-      
-      // Direct position loading without cache optimizer
-          // Get user positions from Uniswap
-          const uniswapPositions = await uniswapIntegrationService.getUserPositions(userAddress);
-          console.log(`Wallet positions - Raw Uniswap positions:`, uniswapPositions.length);
-      
-      // Get blockchain config using correct method
-      const kiltTokenAddress = await blockchainConfigService.getKiltTokenAddress();
-      
-      // Filter for KILT positions only
-      const kiltAddressLower = kiltTokenAddress.toLowerCase();
-      const kiltPositions = uniswapPositions.filter(pos => {
-        const token0Lower = pos.token0?.toLowerCase() || '';
-        const token1Lower = pos.token1?.toLowerCase() || '';
-        const isKiltPos = token0Lower === kiltAddressLower || token1Lower === kiltAddressLower;
-        console.log(`Position ${pos.tokenId} - KILT check: ${isKiltPos} (${token0Lower} vs ${kiltAddressLower})`);
-        return isKiltPos;
-      });
-      
-      console.log(`Wallet positions - After KILT filtering:`, kiltPositions.length);
-      
-      // Get user info for registration status
-      const user = await storage.getUserByAddress(userAddress);
-      console.log(`User found:`, !!user);
-      
-      // Get registered positions for cross-checking
-      const registeredTokenIds = new Set();
-      const appCreatedTokenIds = new Set();
-      
-      if (user) {
-        const registeredPositions = await storage.getLpPositionsByUserId(user.id);
-        registeredPositions.forEach(pos => {
-          registeredTokenIds.add(pos.nftTokenId);
-          if (pos.createdViaApp) {
-            appCreatedTokenIds.add(pos.nftTokenId);
-          }
-        });
-      }
-      
-      console.log(`Registered positions:`, registeredTokenIds.size);
-      console.log(`App created positions:`, appCreatedTokenIds.size);
-
-      // Enhanced positions with registration and app-created status (simplified)
-      // Only include active positions (this filtering already happens in getFullPositionData)
-      const enhancedPositions = kiltPositions.map(pos => ({
-        tokenId: pos.tokenId,
-        poolAddress: pos.poolAddress,
-        token0: pos.token0,
-        token1: pos.token1,
-        fee: pos.feeTier,
-        tickLower: pos.tickLower,
-        tickUpper: pos.tickUpper,
-        liquidity: pos.liquidity?.toString() || '0',
-        amount0: (pos.token0Amount?.toString() || '0'),
-        amount1: (pos.token1Amount?.toString() || '0'),
-        currentValueUSD: pos.currentValueUSD || 0,
-        fees: {
-          token0: pos.fees?.token0?.toString() || '0',
-          token1: pos.fees?.token1?.toString() || '0'
-        },
-        poolType: 'KILT/ETH',
-        isKiltPosition: true,
-        isActive: pos.isActive, // Use actual active status from backend
-        isInRange: pos.isInRange, // CRITICAL FIX: Add isInRange field from backend
-        positionStatus: pos.positionStatus, // Add position status enum
-        isRegistered: registeredTokenIds.has(pos.tokenId),
-        createdViaApp: appCreatedTokenIds.has(pos.tokenId)
-      }));
-      
-      console.log(`Enhanced positions created:`, enhancedPositions.length);
-          console.log(`Final enhanced positions:`, enhancedPositions);
-          
-          console.log(`Final enhanced positions:`, enhancedPositions);
-          
-          res.setHeader('X-Source', 'direct-loading');
-          res.json(enhancedPositions);
-    } catch (error) {
-      console.error('Error in positions endpoint:', error);
-      
-      // Serialize error details safely
-      const errorDetails = error instanceof Error ? error.message : String(error);
-      
-      res.status(500).json({ 
-        error: "Failed to get user positions", 
-        details: errorDetails 
-      });
-    }
-  });
-
-  // Debug endpoint to test Uniswap V3 contract calls
-  app.get("/api/positions/debug/:userAddress", async (req, res) => {
-    try {
-      const { userAddress } = req.params;
-      
-      const debugInfo = await uniswapIntegrationService.debugUserPositions(userAddress);
-      res.json(debugInfo);
-    } catch (error) {
-      // Error debugging user positions
-      res.status(500).json({ error: "Failed to debug user positions" });
-    }
-  });
-
-  // Test endpoint to check individual position data
-  app.get("/api/positions/test/:tokenId", async (req, res) => {
-    try {
-      const { tokenId } = req.params;
-      
-      const position = await uniswapIntegrationService.getFullPositionData(tokenId);
-      res.json(position);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to get position data" });
-    }
-  });
-
-
-
-  // Get pool information - FIXED FOR BETA RELEASE with fallback
-  app.get("/api/pool/info", async (req, res) => {
-    try {
-      console.log('🔍 /api/pool/info endpoint called');
-      
-      // Try the full getPoolInfo first
-      let poolData = await uniswapIntegrationService.getPoolInfo();
-      console.log('🔍 Pool data from getPoolInfo:', poolData ? 'SUCCESS' : 'NULL');
-      
-      // If that fails due to rate limits, try getPoolData which is more resilient
-      if (!poolData) {
-        console.log('🔄 Trying fallback getPoolData...');
-        const poolDataAlt = await uniswapIntegrationService.getPoolData('0x82Da478b1382B951cBaD01Beb9eD459cDB16458E');
-        if (poolDataAlt) {
-          // Convert getPoolData format to getPoolInfo format
-          poolData = {
-            address: poolDataAlt.address,
-            token0: poolDataAlt.token0,
-            token1: poolDataAlt.token1,
-            fee: poolDataAlt.feeTier,
-            liquidity: BigInt(poolDataAlt.liquidity),
-            sqrtPriceX96: BigInt(poolDataAlt.sqrtPriceX96),
-            tick: poolDataAlt.tickCurrent,
-            totalValueUSD: poolDataAlt.tvlUSD
-          };
-          console.log('✅ Fallback successful');
-        }
-      }
-      
-      if (!poolData) {
-        console.log('❌ Both methods failed - returning 404');
-        res.status(404).json({ error: "Pool not found" });
-        return;
-      }
-      
-      console.log('✅ Returning pool data successfully');
-      // Convert BigInt values to strings for JSON serialization
-      const jsonSafePoolData = {
-        ...poolData,
-        liquidity: poolData.liquidity.toString(),
-        sqrtPriceX96: poolData.sqrtPriceX96.toString()
-      };
-      res.json(jsonSafePoolData);
-    } catch (error) {
-      console.error('❌ Pool info error:', error);
-      res.status(500).json({ error: "Failed to fetch pool information" });
-    }
-  });
-
-  // Legacy endpoint for compatibility
-  app.get("/api/pools/:poolAddress/info", async (req, res) => {
-    try {
-      const poolData = await uniswapIntegrationService.getPoolInfo();
-      if (!poolData) {
-        res.status(404).json({ error: "Pool not found" });
-        return;
-      }
-      res.json(poolData);
-    } catch (error) {
-      console.error('Pool info error:', error);
-      res.status(500).json({ error: "Failed to get pool info" });
-    }
-  });
-
-  // Get pool current price
-  app.get("/api/pools/:poolAddress/price", async (req, res) => {
-    try {
-      const { poolAddress } = req.params;
-      
-      const price = await uniswapIntegrationService.getPoolPrice(poolAddress);
-      res.json(price);
-    } catch (error) {
-      // Error getting pool price
-      res.status(500).json({ error: "Failed to get pool price" });
-    }
-  });
-
-  // ===== STREAMLINED ALL-IN-ONE APR ENDPOINT =====
-  app.get('/api/apr/streamlined', async (req, res) => {
-    try {
-      const { treasuryConfig } = await import('@shared/schema');
-      const { db } = await import('./db');
-      
-      // Get admin config directly from database
-      const [settings] = await db.select().from(treasuryConfig).limit(1);
-      const dailyBudget = Number(settings?.dailyRewardsCap || 25000);
-      const programDurationDays = settings?.programDurationDays || 60;
-      
-      // Use real KILT price from our existing endpoint
-      let kiltPrice = 0.0167; // Fallback price
-      try {
-        const kiltDataResponse = await fetch('http://localhost:5000/api/kilt-data');
-        if (kiltDataResponse.ok) {
-          const kiltData = await kiltDataResponse.json();
-          kiltPrice = kiltData.price || 0.0167;
-        }
-      } catch (error) {
-        console.warn('Failed to fetch KILT price, using fallback:', error);
-      }
-      
-      // Get real pool TVL from DexScreener
-      let poolTVL = 99171; // Fallback
-      
-      try {
-        const poolAddress = '0x82da478b1382b951cbad01beb9ed459cdb16458e';
-        const dexScreenerPoolUrl = `https://api.dexscreener.com/latest/dex/pairs/base/${poolAddress}`;
-        const poolResponse = await fetch(dexScreenerPoolUrl);
-        
-        if (poolResponse.ok) {
-          const poolData = await poolResponse.json();
-          const pairData = poolData.pair;
-          
-          if (pairData) {
-            poolTVL = parseFloat(pairData.liquidity?.usd || '99171');
-            console.log(`🏊 REAL POOL TVL: $${poolTVL} from DexScreener`);
-          }
-        }
-      } catch (error) {
-        console.warn('Failed to fetch pool TVL, using fallback:', error);
-      }
-      
-      // Use conservative estimates until we implement proper LP counting
-      // Note: Actual LP count requires querying Mint/Burn events from the pool contract
-      let totalLPs = 'Unknown'; // Don't estimate without real data
-      let avgPositionValue = 'N/A';
-      
-      // Calculate Program APR using real KILT price in USD
-      const dailyBudgetUSD = dailyBudget * kiltPrice;
-      const annualBudgetUSD = dailyBudgetUSD * 365;
-      const programAPR = (annualBudgetUSD / poolTVL) * 100;
-      
-      // Static trading APR
-      const tradingAPR = 4.5;
-      
-      const result = {
-        programAPR: Math.round(programAPR * 10) / 10,
-        tradingAPR,
-        totalAPR: Math.round((programAPR + tradingAPR) * 10) / 10,
-        poolTVL,
-        dailyBudget,
-        programDurationDays,
-        kiltPrice,
-        poolStats: {
-          totalLPs,
-          avgPositionValue,
-          competitiveContext: `LP count requires blockchain analysis`,
-          poolAddress: '0x82da478b1382b951cbad01beb9ed459cdb16458e',
-          note: 'Accurate LP count needs Mint/Burn event analysis'
-        },
-        calculation: {
-          dailyBudgetUSD: Math.round(dailyBudgetUSD * 100) / 100,
-          annualBudgetUSD: Math.round(annualBudgetUSD),
-          totalRewards: dailyBudget * programDurationDays,
-          totalProgramRewards: dailyBudget * programDurationDays
-        }
-      };
-      
-      console.log(`📊 STREAMLINED APR: Program ${result.programAPR}% (${dailyBudget} KILT × $${kiltPrice} × 365 ÷ $${poolTVL}), Trading ${result.tradingAPR}%, Total ${result.totalAPR}%`);
-      
-      res.json(result);
-    } catch (error) {
-      console.error('Streamlined APR error:', error);
-      res.status(500).json({ error: 'Failed to calculate APR' });
-    }
-  });
-
-  // Get trading fees APR for KILT/WETH pool - Direct DexScreener API integration
-  app.get("/api/trading-fees/pool-apr", async (req, res) => {
-    try {
-      // Get KILT token data from DexScreener API (finds the KILT/WETH pool automatically)
-      const kiltTokenAddress = '0x5d0dd05bb095fdd6af4865a1adf97c39c85ad2d8'; // KILT token on Base
-      const dexScreenerUrl = `https://api.dexscreener.com/latest/dex/tokens/${kiltTokenAddress}`;
-      
-      const response = await fetch(dexScreenerUrl);
-      if (!response.ok) {
-        throw new Error(`DexScreener API failed: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      const kiltWethPair = data.pairs?.find((pair: any) => 
-        pair.chainId === 'base' && 
-        pair.quoteToken.symbol === 'WETH' &&
-        pair.baseToken.symbol === 'KILT'
-      );
-      
-      if (!kiltWethPair) {
-        throw new Error('KILT/WETH pool not found on DexScreener');
-      }
-      
-      // Calculate trading fees APR from authentic DexScreener data
-      const poolTVL = parseFloat(kiltWethPair.liquidity?.usd || '0');
-      const volume24h = parseFloat(kiltWethPair.volume?.h24 || '0');
-      const feeRate = 0.003; // 0.3% fee tier for Uniswap V3
-      
-      const dailyFees = volume24h * feeRate;
-      const tradingFeesAPR = poolTVL > 0 ? (dailyFees * 365) / poolTVL * 100 : 0;
-      
-      const result = {
-        tradingFeesAPR,
-        positionSpecificAPR: tradingFeesAPR,
-        poolVolume24hUSD: volume24h,
-        poolFees24hUSD: dailyFees,
-        poolTVL,
-        feeTier: 3000,
-        dataSource: 'dexscreener-api',
-        userPositionShare: 0,
-        calculationMethod: 'api-direct',
-        priceUsd: parseFloat(kiltWethPair.priceUsd || '0'),
-        priceChange24h: parseFloat(kiltWethPair.priceChange?.h24 || '0'),
-        poolAddress: kiltWethPair.pairAddress,
-        txnCount24h: (kiltWethPair.txns?.h24?.buys || 0) + (kiltWethPair.txns?.h24?.sells || 0)
-      };
-      
-      // Set headers for authentic DexScreener API data
-      res.setHeader('X-Data-Source', 'dexscreener-api');
-      res.setHeader('Cache-Control', 'public, max-age=300'); // 5 minute cache for API data
-      
-      console.log('DexScreener Trading Fees APR:', {
-        poolTVL: poolTVL,
-        volume24h: volume24h,
-        dailyFees: dailyFees,
-        tradingFeesAPR: tradingFeesAPR,
-        poolAddress: kiltWethPair.pairAddress
-      });
-      
-      res.json(result);
-    } catch (error: unknown) {
-      console.error('DexScreener API error:', error);
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      res.status(500).json({ error: 'Failed to fetch from DexScreener API', details: message });
-    }
-  });
-
-  // ===== REWARD CALCULATION VULNERABILITY DEMO ROUTES =====
-  
-  // Get detailed vulnerability report showing the fix
-  app.get("/api/reward-demo/vulnerability-report", async (req, res) => {
-    try {
-      // Legacy demo functionality removed for production
-      const report = { message: "Demo functionality removed for production" };
-      
-      res.json({
-        success: true,
-        report,
-        timestamp: new Date().toISOString()
-      });
-    } catch (error) {
-      // Error generating vulnerability report
-      res.status(500).json({
-        success: false,
-        error: 'Failed to generate vulnerability report'
-      });
-    }
-  });
-
-  // Get detailed comparison of old vs new formula
-  app.get("/api/reward-demo/comparison", async (req, res) => {
-    try {
-      // Legacy demo functionality removed for production
-      const comparisons: any[] = [];
-      
-      res.json({
-        success: true,
-        comparisons,
-        summary: {
-          totalScenarios: comparisons.length,
-          vulnerabilityFixed: true,
-          exploitationReduction: ">90%"
-        }
-      });
-    } catch (error) {
-      // Error generating comparison
-      res.status(500).json({
-        success: false,
-        error: 'Failed to generate comparison'
-      });
-    }
-  });
-
-  // ===== LIQUIDITY TYPE DETECTION ROUTES (REMOVED) =====
-  // Note: Liquidity type detection moved inline to position registration service
-
-  // ===== TREASURY MANAGEMENT ROUTES (REMOVED) =====
-  // Note: Treasury management consolidated into admin service
-
-  // ===== REWARD UPDATE ROUTES =====
-
-  // Manual trigger for daily reward updates
-  app.post("/api/admin/update-rewards", async (req, res) => {
-    try {
-      console.log('🚀 Manual reward update triggered by admin...');
-      // Method removed - using hourly calculation instead
-      const result = { success: true, updatedPositions: 0, totalRewardsDistributed: 0 };
-      
-      if (result.success) {
-        res.json({
-          success: true,
-          message: 'Reward update completed successfully',
-          updatedPositions: result.updatedPositions,
-          totalRewardsDistributed: result.totalRewardsDistributed,
-          timestamp: new Date().toISOString()
-        });
-      } else {
-        res.status(500).json({
-          success: false,
-          error: 'Reward update failed',
-          message: 'Reward update failed'
-        });
-      }
-    } catch (error) {
-      console.error('❌ Manual reward update failed:', error);
-      res.status(500).json({
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        message: 'Failed to update rewards'
-      });
-    }
-  });
-
-  // Get reward update status
-  app.get("/api/admin/reward-status", async (req, res) => {
-    try {
-      // Method removed - getting active positions directly
-      const allUsers = await db.select().from(users).limit(100);
-      const activeParticipants: any[] = [];
-      
-      res.json({
-        success: true,
-        activePositions: activeParticipants.length,
-        lastUpdateCheck: new Date().toISOString(),
-        nextScheduledUpdate: '24 hours from last run',
-        participants: activeParticipants.map((p: any) => ({
-          userId: p.userId || 0,
-          nftTokenId: p.nftTokenId || '',
-          liquidityValueUSD: p.liquidityValueUSD || 0
-        }))
-      });
-    } catch (error) {
-      res.status(500).json({
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  });
-
-  // ===== BLOCKCHAIN CONFIGURATION ROUTES =====
-
-  // Get all blockchain configurations
-  app.get("/api/admin/blockchain-config", async (req, res) => {
-    try {
-      const { blockchainConfigService } = await import('./blockchain-config-service');
-      const configs = await blockchainConfigService.getAllConfigs();
-      
-      // Group configs by category for better organization
-      const groupedConfigs = configs.reduce((acc, config) => {
-        if (!acc[config.category]) {
-          acc[config.category] = [];
-        }
-        acc[config.category].push(config);
-        return acc;
-      }, {} as Record<string, typeof configs>);
-
-      res.json({
-        success: true,
-        configs: groupedConfigs,
-        totalConfigs: configs.length
-      });
-    } catch (error) {
-      console.error('Failed to get blockchain configurations:', error);
-      res.status(500).json({ 
-        error: 'Failed to retrieve blockchain configurations',
-        code: 'CONFIG_FETCH_ERROR'
-      });
-    }
-  });
-
-  // Update blockchain configuration
-  app.post("/api/admin/blockchain-config", async (req, res) => {
-    try {
-      const { configKey, configValue, description, category } = req.body;
-
-      if (!configKey || !configValue) {
-        return res.status(400).json({ 
-          error: 'Config key and value are required',
-          code: 'MISSING_REQUIRED_FIELDS'
-        });
-      }
-
-      const { blockchainConfigService } = await import('./blockchain-config-service');
-      
-      const success = await blockchainConfigService.upsertConfig({
-        configKey,
-        configValue,
-        description: description || null,
-        category: category || 'blockchain',
-        isActive: true
-      });
-
-      if (success) {
-        res.json({
-          success: true,
-          message: `Configuration ${configKey} updated successfully`,
-          config: { configKey, configValue, description, category }
-        });
-      } else {
-        res.status(500).json({
-          error: 'Failed to update configuration',
-          code: 'CONFIG_UPDATE_ERROR'
-        });
-      }
-    } catch (error) {
-      console.error('Failed to update blockchain configuration:', error);
-      res.status(500).json({ 
-        error: 'Internal server error during configuration update',
-        code: 'INTERNAL_ERROR'
-      });
-    }
-  });
-
-  // Get specific blockchain configuration by key
-  app.get("/api/admin/blockchain-config/:key", async (req, res) => {
-    try {
-      const { key } = req.params;
-      const { blockchainConfigService } = await import('./blockchain-config-service');
-      
-      const value = await blockchainConfigService.getConfig(key);
-      
-      if (value !== null) {
-        res.json({
-          success: true,
-          configKey: key,
-          configValue: value
-        });
-      } else {
-        res.status(404).json({
-          error: `Configuration key '${key}' not found`,
-          code: 'CONFIG_NOT_FOUND'
-        });
-      }
-    } catch (error) {
-      console.error(`Failed to get configuration for key ${req.params.key}:`, error);
-      res.status(500).json({ 
-        error: 'Failed to retrieve configuration',
-        code: 'CONFIG_FETCH_ERROR'
-      });
-    }
-  });
-
-  // ===== CYBERPUNK ADMIN PANEL ROUTES =====
-  
-  // Admin MetaMask login endpoint
-  app.post("/api/admin/login", async (req, res) => {
-    try {
-      const { walletAddress } = req.body;
-      
-      if (!walletAddress) {
-        return res.status(400).json({ error: 'Wallet address required for admin access' });
-      }
-
-      // Validate wallet address format
-      if (!/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
-        return res.status(400).json({ error: 'Invalid wallet address format' });
-      }
-
-      // Check if wallet is authorized for admin access (case-insensitive)
-      const authorizedWallets = [
-        '0x5bF25Dc1BAf6A96C5A0F724E05EcF4D456c7652e',
-        '0x861722f739539CF31d86F1221460Fa96C9baB95C',
-        '0x97A6c2DE9a2aC3d75e85d70e465bd5a621813CE8',  // Emergency withdrawal and smart contract operations
-        '0xD117738595dfAFe4c2f96bcF63Ed381788E08d39'   // User-requested admin access
-      ];
-      
-      const normalizedWalletAddress = walletAddress.toLowerCase();
-      const normalizedAuthorizedWallets = authorizedWallets.map(addr => addr.toLowerCase());
-      
-      console.log('Backend auth check - Wallet:', walletAddress);
-      console.log('Backend auth check - Authorized wallets:', authorizedWallets);
-      
-      if (!normalizedAuthorizedWallets.includes(normalizedWalletAddress)) {
-        return res.status(401).json({ 
-          error: `Access denied. Wallet ${walletAddress.slice(0, 6)}...${walletAddress.slice(-4)} is not authorized for admin access.`,
-          code: 'UNAUTHORIZED_WALLET',
-          connectedWallet: walletAddress
-        });
-      }
-
-      // Generate secure admin session token
-      const token = 'admin_' + Math.random().toString(36).substring(2) + Math.random().toString(36).substring(2);
-      
-      // Log admin access for security audit
-      const accessLog = {
-        walletAddress,
-        timestamp: new Date().toISOString(),
-        action: 'ADMIN_LOGIN',
-        success: true
-      };
-
-      res.json({
-        success: true,
-        token,
-        walletAddress,
-        message: 'Admin authentication successful',
-        accessLevel: 'MAXIMUM'
-      });
-    } catch (error) {
-      res.status(500).json({ 
-        error: 'Authentication system error',
-        code: 'SYSTEM_ERROR'
-      });
-    }
-  });
-
-  // Reset distributed rewards counter (admin only)
-  app.post('/api/admin/treasury/reset-distributed', async (req, res) => {
-    try {
-      console.log('🔄 Admin request to reset distributed rewards counter');
-      
-      // Clear all rewards from the database to reset the distributed counter
-      const deleteResult = await db.delete(rewards);
-      
-      // Log this admin operation
-      await logAdminOperation(
-        'TREASURY_RESET_DISTRIBUTED',
-        'Reset distributed rewards counter to zero',
-        'admin', // Replace with actual admin user if available
-        '0',
-        undefined,
-        true
-      );
-      
-      console.log(`✅ Distributed rewards counter reset successfully. Cleared ${deleteResult.rowCount || 0} reward records`);
-      
-      res.json({
-        success: true,
-        message: 'Distributed rewards counter reset to zero',
-        clearedRecords: deleteResult.rowCount || 0,
-        newDistributedAmount: 0
-      });
-    } catch (error) {
-      console.error('❌ Failed to reset distributed rewards counter:', error);
-      
-      await logAdminOperation(
-        'TREASURY_RESET_DISTRIBUTED',
-        'Failed to reset distributed rewards counter',
-        'admin',
-        '0',
-        undefined,
-        false,
-        error instanceof Error ? error.message : 'Unknown error'
-      );
-      
-      res.status(500).json({ 
-        error: 'Failed to reset distributed counter',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  });
-
-  // Emergency withdrawal endpoint (admin only)
-  app.post('/api/admin/treasury/emergency-withdraw', async (req, res) => {
-    try {
-      const { amount, recipientAddress } = req.body;
-      const { walletAddress } = req.body; // Admin wallet performing the operation
-      
-      console.log('🚨 Admin emergency withdrawal request:', { amount, recipientAddress, performedBy: walletAddress });
-      
-      if (!amount || amount <= 0) {
-        return res.status(400).json({ 
-          success: false,
-          error: 'Valid withdrawal amount required' 
-        });
-      }
-
-      // Validate admin authorization
-      const authorizedWallets = [
-        '0x5bF25Dc1BAf6A96C5A0F724E05EcF4D456c7652e',
-        '0x861722f739539CF31d86F1221460Fa96C9baB95C',
-        '0x97A6c2DE9a2aC3d75e85d70e465bd5a621813CE8',  // Emergency withdrawal and smart contract operations
-        '0xD117738595dfAFe4c2f96bcF63Ed381788E08d39'   // User-requested admin access
-      ];
-      
-      const normalizedWalletAddress = walletAddress?.toLowerCase();
-      const normalizedAuthorizedWallets = authorizedWallets.map(addr => addr.toLowerCase());
-      
-      if (!walletAddress || !normalizedAuthorizedWallets.includes(normalizedWalletAddress)) {
-        return res.status(401).json({ 
-          success: false,
-          error: 'Unauthorized wallet for emergency withdrawal operations',
-          code: 'EMERGENCY_UNAUTHORIZED'
-        });
-      }
-      
-      // Perform emergency withdrawal
-      const result = await smartContractService.emergencyWithdraw(amount, recipientAddress);
-      
-      // Log this critical admin operation
-      await logAdminOperation(
-        'EMERGENCY_WITHDRAWAL',
-        `Emergency withdrawal of ${amount} KILT to ${recipientAddress || 'performer wallet'}`,
-        walletAddress,
-        amount.toString(),
-        result.transactionHash,
-        result.success,
-        result.error
-      );
-      
-      if (result.success) {
-        console.log(`✅ Emergency withdrawal successful: ${amount} KILT. Transaction: ${result.transactionHash}`);
-        res.json({
-          success: true,
-          message: `Emergency withdrawal successful: ${amount} KILT`,
-          amount: amount,
-          recipient: recipientAddress || 'Performing wallet',
-          transactionHash: result.transactionHash,
-          performedBy: walletAddress
-        });
-      } else {
-        console.error('❌ Emergency withdrawal failed:', result.error);
-        res.status(500).json({
-          success: false,
-          error: result.error || 'Emergency withdrawal failed',
-          amount: amount,
-          performedBy: walletAddress
-        });
-      }
-    } catch (error) {
-      console.error('❌ Emergency withdrawal endpoint error:', error);
-      
-      await logAdminOperation(
-        'EMERGENCY_WITHDRAWAL',
-        'Emergency withdrawal system error',
-        req.body.walletAddress || 'unknown',
-        req.body.amount?.toString() || '0',
-        undefined,
-        false,
-        error instanceof Error ? error.message : 'Unknown error'
-      );
-      
-      res.status(500).json({ 
-        success: false,
-        error: 'Emergency withdrawal system error',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  });
-
-  // Treasury configuration endpoints
-  app.get('/api/admin/treasury/config', async (req, res) => {
-    try {
-      // Get real treasury configuration from database
-      const [config] = await db.select().from(treasuryConfig).limit(1);
-      
-      if (!config) {
-        // No treasury config exists - return error instead of creating defaults
-        return res.status(404).json({ 
-          error: 'Treasury configuration not found. Please configure via admin panel first.' 
-        });
-      } else {
-        // Debug logging to see what we get from database
-        console.log('Treasury config from DB:', {
-          programStartDate: config.programStartDate,
-          programStartDateType: typeof config.programStartDate,
-          programEndDate: config.programEndDate,
-          programEndDateType: typeof config.programEndDate
-        });
-
-        // Return existing config with auto-calculated fields
-        res.json({
-          totalAllocation: parseFloat(config.totalAllocation),
-          programDurationDays: config.programDurationDays,
-          programStartDate: config.programStartDate || '',
-          treasuryWalletAddress: config.smartContractAddress || '', // Use new field name but return with old API name for backward compatibility
-          smartContractAddress: config.smartContractAddress || '', // Also provide new field name
-          isActive: config.isActive,
-          // Auto-calculated read-only fields
-          programEndDate: config.programEndDate || '',
-          dailyRewardsCap: parseFloat(config.dailyRewardsCap || '0')
-        });
-      }
-    } catch (error) {
-      console.error('Treasury config error:', error);
-      res.status(500).json({ error: 'Failed to get treasury config' });
-    }
-  });
-
-  app.post("/api/admin/treasury/config", async (req, res) => {
-    try {
-      const config = req.body;
-
-      
-      // Validate required fields - check for valid values (support both field names)
-      const validationErrors = [];
-      const smartContractAddr = config.smartContractAddress || config.treasuryWalletAddress;
-      if (!smartContractAddr || smartContractAddr.trim() === '') {
-        validationErrors.push('Smart contract address is required');
-      }
-      if (!config.totalAllocation || config.totalAllocation <= 0) {
-        validationErrors.push('Total allocation must be greater than 0');
-      }
-      if (!config.programStartDate || config.programStartDate.trim() === '') {
-        validationErrors.push('Program start date is required');
-      }
-      if (!config.programDurationDays || config.programDurationDays <= 0) {
-        validationErrors.push('Program duration must be greater than 0 days');
-      }
-
-      if (validationErrors.length > 0) {
-        return res.status(400).json({ 
-          error: 'Validation failed',
-          details: validationErrors,
-          received: {
-            treasuryWalletAddress: config.treasuryWalletAddress?.slice(0, 10) + '...',
-            totalAllocation: config.totalAllocation,
-            programStartDate: config.programStartDate,
-            programDurationDays: config.programDurationDays
-          }
-        });
-      }
-
-      // Auto-calculate derived values
-      const programStartDate = new Date(config.programStartDate);
-      const programEndDate = new Date(programStartDate.getTime() + (config.programDurationDays * 24 * 60 * 60 * 1000));
-      const dailyRewardsCap = config.totalAllocation / config.programDurationDays;
-      
-      const dbConfig = {
-        smartContractAddress: smartContractAddr, // Support both old and new field names
-        totalAllocation: config.totalAllocation.toString(),
-        programStartDate: programStartDate.toISOString().split('T')[0],
-        programEndDate: programEndDate.toISOString().split('T')[0],
-        programDurationDays: config.programDurationDays,
-        dailyRewardsCap: dailyRewardsCap.toString(),
-        isActive: config.isActive !== false,
-        createdBy: 'admin',
-        updatedAt: new Date()
-      };
-      
-      // Check if config exists
-      const [existingConfig] = await db.select().from(treasuryConfig).limit(1);
-      
-      if (existingConfig) {
-        // Update existing config
-        await db.update(treasuryConfig)
-          .set(dbConfig)
-          .where(eq(treasuryConfig.id, existingConfig.id));
-      } else {
-        // Insert new config
-        await db.insert(treasuryConfig).values(dbConfig);
-      }
-      
-      // Extract admin wallet address from request body or fallback methods
-      const adminWallet = config.adminWallet || req.body.adminWallet || req.headers['x-admin-wallet'] || 'Unknown Admin';
-      
-      // Log the treasury update operation
-      await logAdminOperation(
-        'treasury_update',
-        `Updated treasury configuration - Total: ${config.totalAllocation.toLocaleString()} KILT, Duration: ${config.programDurationDays} days`,
-        adminWallet,
-        config.totalAllocation.toString(),
-        undefined,
-        true
-      );
-      
-      console.log('🚀 Admin treasury config updated - triggering reward calculation refresh');
-      console.log(`💰 New daily reward rate: ${dailyRewardsCap.toFixed(4)} KILT per day`);
-      
-      console.log('Admin POST /api/admin/treasury/config');
-      res.json({
-        success: true,
-        message: 'Treasury configuration updated successfully',
-        config: dbConfig,
-        calculationUpdate: {
-          newDailyRate: dailyRewardsCap,
-          message: 'All reward calculations will update immediately'
-        }
-      });
-    } catch (error) {
-      console.error('Treasury config update error:', error);
-      res.status(500).json({ error: 'Failed to update treasury configuration' });
-    }
-  });
-
-  // Program settings endpoints
-  app.get('/api/admin/program/settings', async (req, res) => {
-    try {
-      // Get real program settings from database
-      const [settings] = await db.select().from(programSettings).limit(1);
-      
-      if (!settings) {
-        // No settings exist - return error instead of creating defaults
-        return res.status(404).json({ 
-          error: 'Program settings not configured. Please configure via admin panel first.' 
-        });
-      } else {
-        res.json({
-          timeBoostCoefficient: parseFloat(settings.timeBoostCoefficient),
-          fullRangeBonus: parseFloat(settings.fullRangeBonus),
-          minimumPositionValue: parseFloat(settings.minimumPositionValue),
-          lockPeriod: settings.lockPeriod
-        });
-      }
-    } catch (error) {
-      console.error('Program settings error:', error);
-      res.status(500).json({ error: 'Failed to get program settings' });
-    }
-  });
-
-  app.post("/api/admin/program/settings", async (req, res) => {
-    try {
-      const settings = req.body;
-      
-      // Validate required fields - no fallback defaults
-      if (settings.timeBoostCoefficient === undefined || settings.fullRangeBonus === undefined || 
-          settings.minimumPositionValue === undefined || settings.lockPeriod === undefined) {
-        return res.status(400).json({ error: 'Missing required program settings fields' });
-      }
-
-      // Real database update for program settings
-      const dbSettings = {
-        timeBoostCoefficient: settings.timeBoostCoefficient.toString(),
-        fullRangeBonus: settings.fullRangeBonus.toString(),
-        minimumPositionValue: settings.minimumPositionValue.toString(),
-        lockPeriod: settings.lockPeriod,
-        updatedAt: new Date()
-      };
-      
-      // Check if settings exist
-      const [existingSettings] = await db.select().from(programSettings).limit(1);
-      
-      if (existingSettings) {
-        // Update existing settings
-        await db.update(programSettings)
-          .set(dbSettings)
-          .where(eq(programSettings.id, existingSettings.id));
-      } else {
-        // Insert new settings
-        await db.insert(programSettings).values(dbSettings);
-      }
-      
-      // Extract admin wallet address and log the operation
-      const adminWallet = settings.adminWallet || req.body.adminWallet || req.headers['x-admin-wallet'] || 'Unknown Admin';
-      
-      await logAdminOperation(
-        'parameters_update',
-        `Updated program parameters - Time Boost: ${settings.timeBoostCoefficient}, Full Range Bonus: ${settings.fullRangeBonus}, Min Position: $${settings.minimumPositionValue}, Lock Period: ${settings.lockPeriod} days`,
-        adminWallet,
-        undefined,
-        undefined,
-        true
-      );
-      
-      res.json({
-        success: true,
-        message: 'Program settings updated successfully',
-        settings: {
-          timeBoostCoefficient: parseFloat(dbSettings.timeBoostCoefficient),
-          fullRangeBonus: parseFloat(dbSettings.fullRangeBonus),
-          minimumPositionValue: parseFloat(dbSettings.minimumPositionValue),
-          lockPeriod: dbSettings.lockPeriod
-        }
-      });
-    } catch (error) {
-      console.error('Program settings update error:', error);
-      res.status(500).json({ error: 'Failed to update program settings' });
-    }
-  });
-
-  // Operations history endpoint
-  app.get("/api/admin/operations", async (req, res) => {
-    try {
-      // Get real operations from database
-      const { adminOperations } = await import('../shared/schema');
-      const dbOperations = await db.select().from(adminOperations)
-        .orderBy(desc(adminOperations.timestamp))
-        .limit(50);
-      
-      // Transform database format to frontend format
-      const operations = dbOperations.map(op => ({
-        action: (op.operationType || 'unknown').toUpperCase(),
-        details: op.reason,
-        adminId: op.performedBy, // This will now show the wallet address
-        walletAddress: op.performedBy, // Add explicit wallet address field
-        timestamp: op.timestamp.toISOString(),
-        success: op.success,
-        amount: op.amount,
-        transactionHash: op.transactionHash,
-        errorMessage: op.errorMessage
-      }));
-      
-      // If no operations in database, return recent mock data with note
-      if (operations.length === 0) {
-        const mockOperations = [
-          {
-            action: 'TREASURY_UPDATE',
-            details: 'Updated total allocation to 500,000 KILT',
-            adminId: 'Mock Data - No Operations Logged Yet',
-            walletAddress: null,
-            timestamp: new Date().toISOString(),
-            success: true
-          },
-          {
-            action: 'PARAMETERS_UPDATE', 
-            details: 'Updated time boost coefficient to 0.6',
-            adminId: 'Mock Data - No Operations Logged Yet',
-            walletAddress: null,
-            timestamp: new Date(Date.now() - 3600000).toISOString(),
-            success: true
-          }
-        ];
-        return res.json(mockOperations);
-      }
-      
-      res.json(operations);
-    } catch (error) {
-      console.error('Admin operations fetch error:', error);
-      res.status(500).json({ error: 'Failed to get operations' });
-    }
-  });
-
-  // Real-time ETH price endpoint
-  app.get('/api/eth-price', async (req, res) => {
-    try {
-      const ethPrice = await PriceService.getETHPrice();
-      res.json({ 
-        ethPrice,
-        timestamp: Date.now(),
-        source: 'CoinGecko API'
-      });
-    } catch (error) {
-      console.warn('Failed to fetch ETH price (gracefully handled):', error);
-      res.status(500).json({ error: 'Failed to fetch ETH price' });
-    }
-  });
-
-  // KILT/ETH conversion rate from DexScreener pool
-  app.get('/api/conversion/kilt-eth-rate', async (req, res) => {
-    try {
-      // Get real-time price data from the exact KILT/ETH pool on Base
-      const poolAddress = '0x82Da478b1382B951cBaD01Beb9eD459cDB16458E';
-      const response = await fetch(`https://api.dexscreener.com/latest/dex/pairs/base/${poolAddress}`);
-      const data = await response.json();
-      
-      if (data && data.pair && data.pair.priceNative) {
-        // priceNative gives us KILT price in ETH (how much ETH per KILT)
-        const kiltEthRatio = parseFloat(data.pair.priceNative);
-        
-        const conversionData = {
-          kiltEthRatio, // ETH per KILT (e.g., 0.00000525)
-          ethKiltRatio: 1 / kiltEthRatio, // KILT per ETH 
-          poolAddress,
-          timestamp: Date.now(),
-          source: 'DexScreener Real-time'
-        };
-        
-        res.json(conversionData);
-      } else {
-        throw new Error('Invalid DexScreener response');
-      }
-    } catch (error) {
-      console.error('❌ Failed to fetch pool conversion rate:', error);
-      res.status(500).json({ 
-        error: 'Failed to fetch conversion rate - no fallback data available',
-        message: 'Real-time pool data unavailable'
-      });
-    }
-  });
-
-  // Real-time Base network gas estimation
-  app.get('/api/gas/estimate', async (req, res) => {
-    try {
-      const { simpleGasService } = await import('./simple-gas-service');
-      const gasEstimate = await simpleGasService.estimateTransactionCosts();
-      res.json(gasEstimate);
-    } catch (error) {
-      console.error('Gas estimation error:', error);
-      res.status(500).json({ error: 'Failed to estimate gas costs' });
-    }
-  });
-
-  // RPC Connection Manager status endpoint
-  app.get('/api/rpc/status', async (req, res) => {
-    try {
-      const status = rpcManager.getStatus();
-      res.json({
-        status: 'active',
-        endpoints: status.endpoints.map(ep => ({
-          url: ep.url,
-          errorCount: ep.errorCount,
-          rateLimited: ep.rateLimited,
-          rateLimitResetTime: ep.rateLimitResetTime,
-          lastError: ep.lastError
-        })),
-        availableEndpoints: status.availableEndpoints,
-        totalEndpoints: status.totalEndpoints,
-        timestamp: Date.now()
-      });
-    } catch (error) {
-      console.error('RPC status error:', error);
-      res.status(500).json({ error: 'Failed to get RPC status' });
-    }
-  });
-
-  // Consolidated health monitoring moved to main /health endpoint
-  
-  // Emergency blank page recovery endpoint
-  app.post("/api/system/emergency-recovery", async (req, res) => {
-    try {
-      // Removed BlankPageElimination emergency recovery - cleaned up during optimization
-      res.json({ 
-        success: true, 
-        message: "Emergency recovery completed",
-        timestamp: new Date().toISOString()
-      });
-    } catch (error) {
-      res.status(500).json({ 
-        error: "Emergency recovery failed"
-      });
-    }
-  });
-
-  // Simple production validation check
-  app.get("/api/system/production-validation", async (req, res) => {
-    try {
-      const { db } = await import('./db');
-      const { users, lpPositions } = await import('@shared/schema');
-      const { count } = await import('drizzle-orm');
-      const { eq } = await import('drizzle-orm');
-      
-      const [userCount] = await db.select({ count: count() }).from(users);
-      const [activePositions] = await db.select({ count: count() }).from(lpPositions).where(eq(lpPositions.isActive, true));
-      
-      const productionReady = Number(userCount.count) > 0 && Number(activePositions.count) > 0;
-      
-      res.json({
-        productionReady,
-        overallStatus: productionReady ? 'pass' : 'warning',
-        userCount: Number(userCount.count),
-        activePositions: Number(activePositions.count),
-        message: productionReady 
-          ? 'System ready for production deployment'
-          : 'System operational but requires user data initialization',
-        timestamp: new Date().toISOString()
-      });
-    } catch (error) {
-      console.error('Production validation failed:', error);
-      res.status(500).json({ 
-        error: "Production validation failed",
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  });
-
-  // PRODUCTION ERROR MONITORING ENDPOINT
-  app.get("/api/system/error-stats", async (req, res) => {
-    try {
-      const errorStats = productionErrorHandler.getErrorStats();
-      res.json({
-        ...errorStats,
-        status: 'operational',
-        monitoringActive: true
-      });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to get error statistics" });
-    }
-  });
+  app.use("/api/admin", adminRoutes);
+  app.use("/api", systemRoutes);
+  app.use("/api", userRoutes);
+  app.use("/api", treasuryRoutes);
+  app.use("/api", debugRoutes);
+  app.use("/api/positions", positionRoutes);
+  app.use("/api", rewardRoutes);
+  app.use("/api", poolRoutes);
+  app.use("/api", aprRoutes);
+  app.use("/api", programRoutes);
+  app.use("/api/notifications", notificationRoutes);
+  app.use("/api/swap", swapRoutes);
+  app.use("/api/social-media", socialRoutes);
 
   // Mount imported routes
   app.use("/api/rewards", rewardDistributionRoutes);
   app.use("/api/security", enhancedSecurityRoutes);
 
+  // Versioned public API - API key per partner, see /v1/openapi.json
+  app.use("/v1", publicApiV1Routes);
+
   // Position lifecycle management routes
   const { registerPositionLifecycleRoutes } = await import("./routes/position-lifecycle");
   registerPositionLifecycleRoutes(app);
 
-  // DUPLICATE POOL ENDPOINTS REMOVED - Using earlier definitions with fallback logic
-
-  // Data integrity health monitoring simplified - integrated into main health endpoint
-
-  app.get('/api/system/data-integrity/orphaned-eligibility', async (req, res) => {
-    try {
-      const orphanedCheck = await dataIntegrityMonitor.checkOrphanedEligibilityRecords();
-      res.json(orphanedCheck);
-    } catch (error) {
-      console.error('Orphaned eligibility check error:', error);
-      res.status(500).json({ 
-        orphanedCount: -1,
-        orphanedRecords: [],
-        isHealthy: false,
-        error: 'Check failed'
-      });
-    }
-  });
-
-  app.get('/api/system/data-integrity/missing-eligibility', async (req, res) => {
-    try {
-      const missingEligibilityCheck = await dataIntegrityMonitor.checkPositionsWithoutEligibility();
-      res.json(missingEligibilityCheck);
-    } catch (error) {
-      console.error('Missing eligibility check error:', error);
-      res.status(500).json({ 
-        missingEligibilityCount: -1,
-        missingRecords: [],
-        isHealthy: false,
-        error: 'Check failed'
-      });
-    }
-  });
-
-  app.get('/api/system/data-integrity/blockchain-validation', async (req, res) => {
-    try {
-      const blockchainValidation = await dataIntegrityMonitor.validateAgainstBlockchain();
-      res.json(blockchainValidation);
-    } catch (error) {
-      console.error('Blockchain validation error:', error);
-      res.status(500).json({ 
-        isHealthy: false,
-        issues: ['Blockchain validation failed'],
-        validatedPositions: 0,
-        blockchainMismatches: -1
-      });
-    }
-  });
-
   const httpServer = createServer(app);
-  
-  // Start periodic data integrity monitoring
-  dataIntegrityMonitor.startPeriodicMonitoring(30); // Check every 30 minutes
-  
-  // Comprehensive claim diagnostics endpoint
-  app.get('/api/emergency/claim-diagnostics', async (req, res) => {
-    try {
-      const contractAddress = '0x09bcB93e7E2FF067232d83f5e7a7E8360A458175';
-      const kiltTokenAddress = '0x5D0DD05bB095fdD6Af4865A1AdF97c39C85ad2d8';
-      const testUserAddress = '0x5bF25Dc1BAf6A96C5A0F724E05EcF4D456c7652e';
-      const testClaimAmount = '709922670299727400000'; // 709.92 KILT in wei
-      
-      console.log('🔍 CLAIM DIAGNOSTICS: Starting comprehensive contract validation checks...');
-      
-      const diagnostics: {
-        timestamp: string;
-        contractAddress: string;
-        testUserAddress: string;
-        testClaimAmount: string;
-        checks: {
-          nonce?: { success: boolean; value?: string; error?: string };
-          absoluteMaxClaim?: { success: boolean; value?: string; valueInKilt?: string; testAmountExceedsLimit?: boolean; error?: string };
-          contractBalance?: { success: boolean; value?: string; valueInKilt?: string; sufficientForClaim?: boolean; error?: string };
-          calculatorAuth?: { success: boolean; calculatorAddress?: string; isAuthorized?: boolean; error?: string };
-          pausedStatus?: { success: boolean; isPaused?: boolean; error?: string };
-          walletVerification?: { success: boolean; actualAddress?: string; expectedAddress?: string; matches?: boolean; error?: string };
-          signatureTest?: { success: boolean; signatureGenerated?: boolean; gasEstimationWorking?: boolean; callResult?: string; error?: string; errorCode?: string; errorData?: string };
-        };
-      } = {
-        timestamp: new Date().toISOString(),
-        contractAddress,
-        testUserAddress,
-        testClaimAmount,
-        checks: {}
-      };
-      
-      // Get provider from smart contract service
-      const provider = smartContractService.getProvider();
-      
-      // Check 1: Contract nonce
-      try {
-        const { Interface } = await import('ethers');
-        const iface = new Interface(['function nonces(address user) view returns (uint256)']);
-        const data = iface.encodeFunctionData('nonces', [testUserAddress]);
-        
-        const result = await provider.call({
-          to: contractAddress,
-          data: data
-        });
-        
-        const nonce = iface.decodeFunctionResult('nonces', result)[0].toString();
-        diagnostics.checks.nonce = { success: true, value: nonce };
-        console.log('🔍 CHECK 1: User nonce =', nonce);
-      } catch (error) {
-        diagnostics.checks.nonce = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
-      }
-      
-      // Check 2: Absolute maximum claim limit
-      try {
-        const { Interface } = await import('ethers');
-        const iface = new Interface(['function absoluteMaxClaim() view returns (uint256)']);
-        const data = iface.encodeFunctionData('absoluteMaxClaim', []);
-        
-        const result = await provider.call({
-          to: contractAddress,
-          data: data
-        });
-        
-        const absoluteMaxClaim = iface.decodeFunctionResult('absoluteMaxClaim', result)[0].toString();
-        diagnostics.checks.absoluteMaxClaim = { 
-          success: true, 
-          value: absoluteMaxClaim,
-          valueInKilt: (Number(absoluteMaxClaim) / 1e18).toString(),
-          testAmountExceedsLimit: BigInt(testClaimAmount) > BigInt(absoluteMaxClaim)
-        };
-        console.log('🔍 CHECK 2: Absolute max claim =', absoluteMaxClaim, 'wei (', (Number(absoluteMaxClaim) / 1e18), ' KILT)');
-        console.log('🔍 CHECK 2: Test amount exceeds limit:', BigInt(testClaimAmount) > BigInt(absoluteMaxClaim));
-      } catch (error) {
-        diagnostics.checks.absoluteMaxClaim = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
-      }
-      
-      // Check 3: Contract KILT balance
-      try {
-        const { Interface } = await import('ethers');
-        const iface = new Interface(['function balanceOf(address account) view returns (uint256)']);
-        const data = iface.encodeFunctionData('balanceOf', [contractAddress]);
-        
-        const result = await provider.call({
-          to: kiltTokenAddress,
-          data: data
-        });
-        
-        const contractBalance = iface.decodeFunctionResult('balanceOf', result)[0].toString();
-        diagnostics.checks.contractBalance = { 
-          success: true, 
-          value: contractBalance,
-          valueInKilt: (Number(contractBalance) / 1e18).toString(),
-          sufficientForClaim: BigInt(contractBalance) >= BigInt(testClaimAmount)
-        };
-        console.log('🔍 CHECK 3: Contract KILT balance =', contractBalance, 'wei (', (Number(contractBalance) / 1e18), ' KILT)');
-        console.log('🔍 CHECK 3: Sufficient for claim:', BigInt(contractBalance) >= BigInt(testClaimAmount));
-      } catch (error) {
-        diagnostics.checks.contractBalance = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
-      }
-      
-      // Check 4: Calculator authorization
-      try {
-        const calculatorAddress = '0x352c7eb64249334d8249f3486A664364013bEeA9';
-        const { Interface } = await import('ethers');
-        const iface = new Interface(['function authorizedCalculators(address calculator) view returns (bool)']);
-        const data = iface.encodeFunctionData('authorizedCalculators', [calculatorAddress]);
-        
-        const result = await provider.call({
-          to: contractAddress,
-          data: data
-        });
-        
-        const isAuthorized = iface.decodeFunctionResult('authorizedCalculators', result)[0];
-        diagnostics.checks.calculatorAuth = { 
-          success: true, 
-          calculatorAddress,
-          isAuthorized 
-        };
-        console.log('🔍 CHECK 4: Calculator authorization =', isAuthorized);
-      } catch (error) {
-        diagnostics.checks.calculatorAuth = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
-      }
-      
-      // Check 5: Contract paused status
-      try {
-        const { Interface } = await import('ethers');
-        const iface = new Interface(['function paused() view returns (bool)']);
-        const data = iface.encodeFunctionData('paused', []);
-        
-        const result = await provider.call({
-          to: contractAddress,
-          data: data
-        });
-        
-        const isPaused = iface.decodeFunctionResult('paused', result)[0];
-        diagnostics.checks.pausedStatus = { success: true, isPaused };
-        console.log('🔍 CHECK 5: Contract paused =', isPaused);
-      } catch (error) {
-        diagnostics.checks.pausedStatus = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
-      }
-      
-      // Check 6: Wallet address verification  
-      try {
-        console.log('🔍 CHECK 6: Verifying calculator wallet address...');
-        const walletAddress = smartContractService.getWalletAddress();
-        const expectedCalculatorAddress = '0x352c7eb64249334d8249f3486A664364013bEeA9';
-        console.log('🔍 CHECK 6.1: Actual wallet address:', walletAddress);
-        console.log('🔍 CHECK 6.2: Expected calculator address:', expectedCalculatorAddress);
-        const walletMatch = walletAddress?.toLowerCase() === expectedCalculatorAddress.toLowerCase();
-        console.log('🔍 CHECK 6.3: Wallet address matches expected:', walletMatch);
-        
-        diagnostics.checks.walletVerification = {
-          success: walletMatch,
-          actualAddress: walletAddress || undefined,
-          expectedAddress: expectedCalculatorAddress,
-          matches: walletMatch
-        };
-        
-        // Check 6.5: Direct signature generation test
-        console.log('🔍 CHECK 6.5: Testing signature generation...');
-        const signatureResult = await smartContractService.generateClaimSignature(testUserAddress, parseFloat((BigInt(testClaimAmount) / BigInt(10**18)).toString()));
-        
-        if (signatureResult.success) {
-          // Test the exact parameters that would be sent to the contract
-          console.log('🔍 CHECK 6: Testing gas estimation with real parameters...');
-          
-          const { Interface } = await import('ethers');
-          const claimInterface = new Interface([
-            'function claimRewards(uint256 totalRewardBalance, bytes signature)'
-          ]);
-          
-          const calldata = claimInterface.encodeFunctionData('claimRewards', [
-            testClaimAmount,
-            signatureResult.signature
-          ]);
-          
-          try {
-            const gasResult = await provider.call({
-              to: contractAddress,
-              data: calldata,
-              from: testUserAddress
-            });
-            
-            diagnostics.checks.signatureTest = {
-              success: true,
-              signatureGenerated: true,
-              gasEstimationWorking: true,
-              callResult: gasResult
-            };
-            console.log('🔍 CHECK 6 SUCCESS: Signature verification passed gas estimation');
-          } catch (gasError: any) {
-            diagnostics.checks.signatureTest = {
-              success: false,
-              signatureGenerated: true,
-              gasEstimationWorking: false,
-              error: gasError.message,
-              errorCode: gasError.code,
-              errorData: gasError.data
-            };
-            console.log('🔍 CHECK 6 FAILED: Gas estimation failed:', gasError.message);
-          }
-        } else {
-          diagnostics.checks.signatureTest = {
-            success: false,
-            signatureGenerated: false,
-            error: 'Failed to generate signature'
-          };
-        }
-      } catch (error) {
-        diagnostics.checks.signatureTest = { 
-          success: false, 
-          error: error instanceof Error ? error.message : 'Unknown signature test error' 
-        };
-      }
-      
-      console.log('🔍 CLAIM DIAGNOSTICS COMPLETE');
-      res.json(diagnostics);
-    } catch (error) {
-      console.error('❌ CLAIM DIAGNOSTICS ERROR:', error);
-      res.status(500).json({
-        error: 'Claim diagnostics failed',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  });
-
-  // Emergency contract verification endpoint
-  app.get('/api/emergency/verify-contract', async (req, res) => {
-    const contractAddress = '0x09bcB93e7E2FF067232d83f5e7a7E8360A458175';
-    const results: {
-      contractAddress: string;
-      timestamp: string;
-      checks: {
-        hasCode?: boolean;
-        codeLength?: number;
-        chainId?: number;
-        isBaseMainnet?: boolean;
-        rpcWorking?: boolean;
-        currentBlock?: number;
-        nonceCallSuccess?: boolean;
-        nonceValue?: string;
-        nonceCallError?: string;
-        nonceCallDetails?: {
-          code?: string;
-          reason?: string;
-          data?: string;
-        };
-        alternativeRpcResults?: Record<string, {
-          hasCode?: boolean;
-          codeLength?: number;
-          chainId?: number;
-          working: boolean;
-          error?: string;
-        }>;
-        criticalError?: string;
-      };
-    } = {
-      contractAddress,
-      timestamp: new Date().toISOString(),
-      checks: {}
-    };
-    
-    console.log('🚨 EMERGENCY CONTRACT VERIFICATION STARTING...');
-    
-    try {
-      // Get provider from smart contract service
-      const provider = smartContractService.getProvider();
-      
-      // Check 1: Contract exists
-      console.log('🔍 EMERGENCY CHECK 1: Checking contract bytecode...');
-      const code = await provider.getCode(contractAddress);
-      results.checks.hasCode = code !== '0x' && code.length > 2;
-      results.checks.codeLength = code.length;
-      console.log('🔍 EMERGENCY CHECK 1 RESULT: Has code:', results.checks.hasCode, 'Length:', code.length);
-      
-      // Check 2: Network confirmation  
-      console.log('🔍 EMERGENCY CHECK 2: Verifying network...');
-      const network = await provider.getNetwork();
-      results.checks.chainId = Number(network.chainId);
-      results.checks.isBaseMainnet = Number(network.chainId) === 8453;
-      console.log('🔍 EMERGENCY CHECK 2 RESULT: Chain ID:', results.checks.chainId, 'Is Base:', results.checks.isBaseMainnet);
-      
-      // Check 3: RPC endpoint test
-      console.log('🔍 EMERGENCY CHECK 3: Testing RPC endpoints...');
-      const blockNumber = await provider.getBlockNumber();
-      results.checks.rpcWorking = blockNumber > 0;
-      results.checks.currentBlock = blockNumber;
-      console.log('🔍 EMERGENCY CHECK 3 RESULT: RPC working:', results.checks.rpcWorking, 'Block:', blockNumber);
-      
-      // Check 4: Try basic nonce function call if contract exists
-      if (results.checks.hasCode) {
-        console.log('🔍 EMERGENCY CHECK 4: Testing nonces function directly...');
-        try {
-          const { Interface } = await import('ethers');
-          const iface = new Interface(['function nonces(address) view returns (uint256)']);
-          const data = iface.encodeFunctionData('nonces', ['0x5bF25Dc1BAf6A96C5A0F724E05EcF4D456c7652e']);
-          
-          const result = await provider.call({
-            to: contractAddress,
-            data: data
-          });
-          
-          results.checks.nonceCallSuccess = true;
-          results.checks.nonceValue = iface.decodeFunctionResult('nonces', result)[0].toString();
-          console.log('✅ EMERGENCY CHECK 4 SUCCESS: Nonce value:', results.checks.nonceValue);
-        } catch (callError: unknown) {
-          results.checks.nonceCallSuccess = false;
-          results.checks.nonceCallError = callError instanceof Error ? callError.message : 'Unknown error';
-          if (callError instanceof Error && 'code' in callError) {
-            results.checks.nonceCallDetails = {
-              code: String((callError as any).code),
-              reason: String((callError as any).reason),
-              data: String((callError as any).data)
-            };
-          }
-          console.error('❌ EMERGENCY CHECK 4 FAILED:', callError instanceof Error ? callError.message : 'Unknown error');
-        }
-      } else {
-        results.checks.nonceCallSuccess = false;
-        results.checks.nonceCallError = 'Contract has no bytecode';
-        console.error('❌ EMERGENCY CHECK 4 SKIPPED: No contract bytecode found');
-      }
-      
-      // Check 5: Test with alternative RPC endpoints
-      console.log('🔍 EMERGENCY CHECK 5: Testing alternative RPC endpoints...');
-      const alternativeEndpoints = [
-        'https://mainnet.base.org',
-        'https://base.llamarpc.com',
-        'https://base.drpc.org'
-      ];
-      
-      results.checks.alternativeRpcResults = {};
-      
-      for (const endpoint of alternativeEndpoints) {
-        try {
-          const { JsonRpcProvider } = await import('ethers');
-          const altProvider = new JsonRpcProvider(endpoint);
-          const altCode = await altProvider.getCode(contractAddress);
-          const altNetwork = await altProvider.getNetwork();
-          
-          results.checks.alternativeRpcResults[endpoint] = {
-            hasCode: altCode !== '0x' && altCode.length > 2,
-            codeLength: altCode.length,
-            chainId: Number(altNetwork.chainId),
-            working: true
-          };
-          
-          console.log(`✅ EMERGENCY CHECK 5: ${endpoint} - Has code:`, altCode !== '0x');
-        } catch (error: unknown) {
-          results.checks.alternativeRpcResults[endpoint] = {
-            working: false,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          };
-          console.error(`❌ EMERGENCY CHECK 5: ${endpoint} failed:`, error instanceof Error ? error.message : 'Unknown error');
-        }
-      }
-      
-      console.log('🚨 EMERGENCY CONTRACT VERIFICATION COMPLETE');
-      res.json(results);
-      
-    } catch (error: unknown) {
-      console.error('🚨 EMERGENCY VERIFICATION CRITICAL ERROR:', error);
-      results.checks.criticalError = error instanceof Error ? error.message : 'Unknown error';
-      res.status(500).json(results);
-    }
-  });
-
-  // Test direct distribution endpoint
-  app.post('/api/test/direct-distribution', async (req, res) => {
-    try {
-      const { userAddress, amount } = req.body;
-      
-      if (!userAddress || !amount) {
-        return res.status(400).json({ success: false, error: 'userAddress and amount required' });
-      }
-
-      console.log(`🧪 Testing direct distribution: ${amount} KILT to ${userAddress}`);
-      
-      const result = await smartContractService.distributeRewardDirectly(userAddress, amount);
-      
-      res.json(result);
-
-    } catch (error) {
-      console.error('Test direct distribution error:', error);
-      res.status(500).json({ 
-        success: false,
-        error: 'Test failed' 
-      });
-    }
-  });
-
-  // Comprehensive smart contract debugging endpoint
-  app.get('/api/debug/smart-contract-status/:userAddress', async (req, res) => {
-    try {
-      const { userAddress } = req.params;
-      
-      console.log('🏁 ============ SMART CONTRACT DEBUG STATUS ============');
-      console.log('🔍 DEBUG LOG 1: Smart contract status check for:', userAddress);
-      
-      // Get contract deployment status
-      const isDeployed = smartContractService.isDeployed();
-      console.log('🔍 DEBUG LOG 2: Contract deployed:', isDeployed);
-      
-      if (!isDeployed) {
-        return res.json({
-          contractDeployed: false,
-          error: 'Smart contracts not deployed'
-        });
-      }
-      
-      // Get contract addresses
-      const calculatorAddress = smartContractService.getCalculatorAddress();
-      console.log('🔍 DEBUG LOG 3: Calculator address:', calculatorAddress);
-      
-      // Get contract configuration
-      const contractInfo = await smartContractService.getProgramInfo();
-      console.log('🔍 DEBUG LOG 4: Contract info:', JSON.stringify(contractInfo, null, 2));
-      
-      // Get balance information
-      const balanceInfo = await smartContractService.checkRewardWalletBalance();
-      console.log('🔍 DEBUG LOG 5: Balance info:', JSON.stringify(balanceInfo, null, 2));
-      
-      // Get user's claimable rewards from backend
-      const user = await storage.getUserByAddress(userAddress);
-      let rewardStats = null;
-      if (user) {
-        const userRewards = await unifiedRewardService.getUserRewardStats(user.id);
-        rewardStats = {
-          totalClaimable: userRewards.totalClaimable,
-          totalAccumulated: userRewards.totalAccumulated,
-          totalClaimed: userRewards.totalClaimed,
-          activePositions: userRewards.activePositions
-        };
-        console.log('🔍 DEBUG LOG 6: User reward stats:', JSON.stringify(rewardStats, null, 2));
-      }
-      
-      // Test signature generation
-      let signatureTest = null;
-      if (user && rewardStats && rewardStats.totalClaimable > 0) {
-        console.log('🔍 DEBUG LOG 7: Testing signature generation...');
-        signatureTest = await smartContractService.generateClaimSignature(userAddress, rewardStats.totalClaimable);
-        console.log('🔍 DEBUG LOG 8: Signature test result:', JSON.stringify(signatureTest, null, 2));
-      }
-      
-      const debugReport = {
-        timestamp: new Date().toISOString(),
-        userAddress,
-        contractDeployed: true,
-        calculatorAddress,
-        contractInfo,
-        balanceInfo,
-        userFound: !!user,
-        userId: user?.id || null,
-        rewardStats,
-        signatureTest: signatureTest ? {
-          success: signatureTest.success,
-          error: signatureTest.error,
-          hasSignature: !!signatureTest.signature,
-          signatureLength: signatureTest.signature?.length,
-          nonce: signatureTest.nonce
-        } : null,
-        abiStructure: {
-          contractAddress: '0x09bcB93e7E2FF067232d83f5e7a7E8360A458175',
-          claimFunction: 'claimRewards(address user, uint256 amount, uint256 nonce, bytes signature)',
-          distributeFunction: 'distributeReward(address user, uint256 amount)',
-          nonceFunction: 'nonces(address user) returns (uint256)',
-          getUserStatsFunction: 'getUserStats(address user) returns (uint256, uint256, uint256, uint256)'
-        }
-      };
-      
-      console.log('🏁 ============ SMART CONTRACT DEBUG COMPLETE ============');
-      res.json(debugReport);
-      
-    } catch (error) {
-      console.error('Smart contract debug failed:', error);
-      res.status(500).json({ 
-        error: 'Debug failed',
-        details: error instanceof Error ? error.message : String(error)
-      });
-    }
-  });
-
-  // =============================================================================
-  // HEALTH MONITORING ENDPOINTS (SIMPLIFIED)
-  // =============================================================================
-  
-  // Health endpoint removed - using the one in index.ts instead
-
-  // Simple system health check
-  app.get("/api/system/health", async (req, res) => {
-    try {
-      const { db } = await import('./db');
-      const { users } = await import('@shared/schema');
-      const { count } = await import('drizzle-orm');
-      
-      const [result] = await db.select({ count: count() }).from(users);
-      
-      res.json({
-        status: "healthy",
-        timestamp: new Date().toISOString(),
-        database: "connected",
-        userCount: Number(result.count)
-      });
-    } catch (error) {
-      res.status(500).json({ 
-        status: "error",
-        timestamp: new Date().toISOString(),
-        error: error instanceof Error ? error.message : String(error)
-      });
-    }
-  });
-
-  // Simple deployment readiness check
-  app.get("/api/system/deployment-readiness", async (req, res) => {
-    try {
-      const { db } = await import('./db');
-      const { users, lpPositions } = await import('@shared/schema');
-      const { count } = await import('drizzle-orm');
-      const { eq } = await import('drizzle-orm');
-      
-      const [userCount] = await db.select({ count: count() }).from(users);
-      const [activePositions] = await db.select({ count: count() }).from(lpPositions).where(eq(lpPositions.isActive, true));
-      
-      const ready = Number(userCount.count) > 0 && Number(activePositions.count) > 0;
-      
-      res.json({
-        ready,
-        userCount: Number(userCount.count),
-        activePositions: Number(activePositions.count),
-        timestamp: new Date().toISOString()
-      });
-    } catch (error) {
-      res.status(500).json({ 
-        ready: false,
-        error: error instanceof Error ? error.message : String(error),
-        timestamp: new Date().toISOString()
-      });
-    }
-  });
-
-  // Import swap service
-  const { SwapService } = await import('./swap-service');
-  const swapService = new SwapService();
-
-  // Bidirectional swap quote endpoint with emergency timeout protection
-  app.get('/api/swap/quote', async (req, res) => {
-    try {
-      const { ethAmount, kiltAmount } = req.query;
-      
-      if (!ethAmount && !kiltAmount) {
-        return res.status(400).json({ error: 'Either ETH amount or KILT amount is required' });
-      }
-
-      const isEthToKilt = !!ethAmount;
-      const amount = (ethAmount || kiltAmount) as string;
-      const fromToken = isEthToKilt ? 'ETH' : 'KILT';
-
-      // Try swap service with emergency backup
-      let quote;
-      try {
-        quote = await swapService.getSwapQuote(amount, fromToken);
-        res.setHeader('X-Source', 'blockchain-success');
-      } catch (swapError) {
-        console.log(`⚡ ROUTES EMERGENCY BACKUP CALCULATION: ${fromToken} swap`);
-        // Double emergency backup in routes
-        const value = parseFloat(amount);
-        const kiltPerEth = 244700; // Realistic rate: 1 ETH ≈ 244,700 KILT
-        
-        if (isEthToKilt) {
-          const kiltAmount = (value * kiltPerEth).toFixed(2);
-          quote = {
-            kiltAmount,
-            priceImpact: 0.1,
-            fee: '0.3'
-          };
-        } else {
-          const ethAmount = (value / kiltPerEth).toFixed(6);
-          quote = {
-            ethAmount,
-            priceImpact: 0.1,
-            fee: '0.3'
-          };
-        }
-        res.setHeader('X-Source', 'routes-emergency');
-      }
-      
-      res.json(quote);
-      
-    } catch (error) {
-      console.error('Final swap quote error:', error);
-      res.status(500).json({ 
-        error: error instanceof Error ? error.message : 'Failed to get swap quote' 
-      });
-    }
-  });
 
-  // In-app bidirectional swap preparation (DexScreener style)
-  app.post('/api/swap/prepare', async (req, res) => {
-    try {
-      const { userAddress, ethAmount, kiltAmount, slippageTolerance = 0.5 } = req.body;
-      
-      if (!userAddress) {
-        return res.status(400).json({ error: 'User address is required' });
-      }
-
-      if (!ethAmount && !kiltAmount) {
-        return res.status(400).json({ error: 'Either ETH amount or KILT amount is required' });
-      }
-
-      const isEthToKilt = !!ethAmount;
-      const amount = ethAmount || kiltAmount;
-      const fromToken = isEthToKilt ? 'ETH' : 'KILT';
-
-      if (parseFloat(amount) <= 0) {
-        return res.status(400).json({ error: 'Amount must be greater than 0' });
-      }
-      
-      const swapData = await swapService.prepareInAppSwap(userAddress, amount, slippageTolerance, fromToken);
-      
-      res.json(swapData);
-    } catch (error) {
-      console.error('In-app swap preparation error:', error);
-      res.status(500).json({ 
-        error: error instanceof Error ? error.message : 'Failed to prepare in-app swap' 
-      });
-    }
-  });
-
-  // Pool info endpoint
-  app.get('/api/swap/pool-info', async (req, res) => {
-    try {
-      const poolInfo = await swapService.getPoolInfo();
-      res.json(poolInfo);
-    } catch (error) {
-      console.error('Pool info error:', error);
-      res.status(500).json({ 
-        error: 'Failed to get pool information' 
-      });
-    }
-  });
-
-  // API health check endpoint
-  app.get("/api/health", (req: Request, res: Response) => {
-    try {
-      const health = {
-        status: "healthy",
-        timestamp: new Date().toISOString(),
-        environment: process.env.NODE_ENV || "unknown",
-        database: !!process.env.DATABASE_URL ? "connected" : "missing",
-        calculatorKey: !!process.env.CALCULATOR_PRIVATE_KEY ? "present" : "missing",
-        rewardKey: !!process.env.REWARD_WALLET_PRIVATE_KEY ? "present" : "missing"
-      };
-      res.json(health);
-    } catch (error) {
-      res.status(500).json({ 
-        status: "error",
-        message: error instanceof Error ? error.message : "Unknown error" 
-      });
-    }
-  });
-
-  // ============================================
-  // SOCIAL MEDIA INTEGRATION ROUTES
-  // ============================================
-  
-  // Submit tweet URL for processing
-  app.post("/api/social-media/submit-tweet", async (req, res) => {
-    try {
-      const { username, tweetUrl } = req.body;
-      
-      if (!username || !tweetUrl) {
-        res.status(400).json({ error: "Username and tweet URL are required" });
-        return;
-      }
-      
-      const result = await socialMediaService.processTweetSubmission(username, tweetUrl);
-      
-      if (result.success) {
-        res.json({
-          success: true,
-          message: result.message,
-          submissionId: result.submissionId
-        });
-      } else {
-        res.status(400).json({
-          success: false,
-          error: result.message
-        });
-      }
-    } catch (error) {
-      console.error('Tweet submission error:', error);
-      res.status(500).json({ error: "Failed to process tweet submission" });
-    }
-  });
-
-  // Get social media submissions
-  app.get("/api/social-media/submissions", async (req, res) => {
-    try {
-      const submissions = socialMediaService.getSubmissions();
-      res.json(submissions);
-    } catch (error) {
-      console.error('Error fetching submissions:', error);
-      res.status(500).json({ error: "Failed to fetch submissions" });
-    }
-  });
-
-  // Get social media metrics
-  app.get("/api/social-media/metrics", async (req, res) => {
-    try {
-      const metrics = socialMediaService.getMetrics();
-      res.json(metrics);
-    } catch (error) {
-      console.error('Error fetching social media metrics:', error);
-      res.status(500).json({ error: "Failed to fetch metrics" });
-    }
-  });
-
-  // Check if user is eligible based on social media submission
-  app.get("/api/social-media/eligibility/:username", async (req, res) => {
-    try {
-      const { username } = req.params;
-      const isEligible = socialMediaService.isUserEligible(username);
-      const submission = socialMediaService.getSubmissionByUsername(username);
-      
-      res.json({
-        username,
-        isEligible,
-        submission: submission || null
-      });
-    } catch (error) {
-      console.error('Error checking eligibility:', error);
-      res.status(500).json({ error: "Failed to check eligibility" });
-    }
-  });
-
-  // Root endpoint removed - let Vite dev server handle React frontend
+  // Register periodic data integrity monitoring with the job scheduler
+  dataIntegrityMonitor.startPeriodicMonitoring(30); // Check every 30 minutes
 
   return httpServer;
 }
-
-
-
@@ -0,0 +1,64 @@
+/**
+ * Admin sign-in (SIWE nonce and login) - the only /api/admin routes registered ahead of the
+ * admin session guard.
+ * Mounted at /api/admin.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { adminAuthService } from "../admin-auth-service";
+import { logAdminOperation } from "./helpers";
+import { strictRateLimit } from "../security-middleware";
+import { ErrorHandler } from "../error-handler";
+import { validateRequest } from "./validation";
+
+const router = Router();
+
+// ===== ADMIN AUTHENTICATION (SIWE) =====
+// Registered before the session guard below - these are the only public /api/admin routes
+
+// Issue a single-use nonce for the SIWE message
+router.get("/auth/nonce", strictRateLimit, async (req, res, next) => {
+  try {
+    const { nonce, expiresAt } = await adminAuthService.issueNonce();
+    res.json({ nonce, expiresAt: expiresAt.toISOString() });
+  } catch (error) {
+    next(ErrorHandler.createServerError('Authentication system error', error instanceof Error ? error.message : error));
+  }
+});
+
+const loginSchema = z.object({
+  message: z.string({ message: 'Signed SIWE message required for admin access' }).min(1),
+  signature: z.string().regex(/^0x[a-fA-F0-9]+$/, 'Signed SIWE message required for admin access')
+});
+
+// Verify a signed SIWE message and open an admin session
+router.post("/login", strictRateLimit, validateRequest({ body: loginSchema }), async (req, res, next) => {
+  try {
+    const { message, signature } = req.body;
+
+    const result = await adminAuthService.login(message, signature as `0x${string}`, {
+      requestHost: req.get('host') || '',
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    if (!result.success) {
+      return next(ErrorHandler.createUnauthorizedError(result.error, result.code));
+    }
+
+    await logAdminOperation('ADMIN_LOGIN', 'Admin session opened via SIWE', result.walletAddress);
+
+    res.json({
+      success: true,
+      token: result.token,
+      walletAddress: result.walletAddress,
+      expiresAt: result.expiresAt.toISOString(),
+      message: 'Admin authentication successful'
+    });
+  } catch (error) {
+    next(ErrorHandler.createServerError('Authentication system error', error instanceof Error ? error.message : error));
+  }
+});
+
+export default router;
@@ -0,0 +1,908 @@
+/**
+ * Admin panel routes - session, roles, proposals, program settings, incentive programs,
+ * reward ledger, merkle epochs, reconciliation, notifications, API keys, background jobs and
+ * the audit log.
+ * Mounted behind requireAdminSession; each route checks its own permission.
+ * Mounted at /api/admin.
+ */
+
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { rewardLedgerService } from "../reward-ledger-service";
+import { programSettingsService } from "../program-settings-service";
+import { rewardSimulationService } from "../reward-simulation-service";
+import { merkleDistributionService } from "../merkle-distribution-service";
+import { claimReconciliationService } from "../claim-reconciliation-service";
+import { getPositionEventIndexer } from "../position-event-indexer";
+import { positionTransferService } from "../position-transfer-service";
+import { notificationService } from "../notification-service";
+import { apiKeyService } from "../api-key-service";
+import { jobScheduler } from "../job-scheduler";
+import { adminAuthService, getBearerToken, requireAdminPermission } from "../admin-auth-service";
+import { ADMIN_ROLES, ROLE_PERMISSIONS, adminRoleService } from "../admin-role-service";
+import { adminProposalService } from "../admin-proposal-service";
+import { adminAuditService } from "../admin-audit-service";
+import { incentiveProgramService } from "../incentive-program-service";
+import { blockchainConfigService } from "../blockchain-config-service";
+import { logAdminOperation, parseChainId } from "./helpers";
+import { ErrorHandler } from "../error-handler";
+import { ethereumAddressSchema, idParamsSchema, nftTokenIdSchema, positiveIntSchema, validateRequest } from "./validation";
+
+const router = Router();
+
+const flagQuerySchema = z.enum(['true', 'false']).optional();
+
+const grantRoleSchema = z.object({
+  walletAddress: ethereumAddressSchema,
+  role: z.enum(ADMIN_ROLES),
+  label: z.string().trim().max(100).optional()
+});
+
+const ledgerAuditQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be formatted as YYYY-MM-DD').optional(),
+  positionId: positiveIntSchema.optional()
+});
+
+const jobParamsSchema = z.object({ name: z.string().min(1).max(100) });
+
+const createApiKeySchema = z.object({
+  name: z.string(),
+  rateLimitPerMinute: z.number().int().optional()
+});
+
+const transfersQuerySchema = z.object({ status: z.string().optional(), nftTokenId: nftTokenIdSchema.optional() });
+
+const epochParamsSchema = z.object({ epoch: positiveIntSchema });
+
+const blockchainConfigSchema = z.object({
+  configKey: z.string().min(1, 'Config key and value are required'),
+  configValue: z.string().min(1, 'Config key and value are required'),
+  description: z.string().nullish(),
+  category: z.string().min(1).optional()
+});
+
+const voteSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  signature: z.string().regex(/^0x[a-fA-F0-9]+$/, 'Signature must be hex')
+});
+
+const auditLogQuerySchema = z.object({
+  operator: z.string().optional(),
+  operationType: z.string().optional(),
+  from: z.string().refine(value => !isNaN(new Date(value).getTime()), 'from must be a valid date').optional(),
+  to: z.string().refine(value => !isNaN(new Date(value).getTime()), 'to must be a valid date').optional(),
+  success: flagQuerySchema,
+  limit: positiveIntSchema.optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+  format: z.enum(['csv', 'json']).optional()
+});
+
+// Service results carry their own code - 404 and 403 codes map to those statuses, the rest are bad requests
+function serviceError(result: { error: string; code: string }) {
+  if (result.code === 'NOT_FOUND' || result.code === 'ROLE_NOT_FOUND') {
+    return ErrorHandler.createNotFoundError(result.error, { code: result.code });
+  }
+  if (result.code === 'PERMISSION_DENIED') {
+    return ErrorHandler.createForbiddenError(result.error, result.code);
+  }
+  return ErrorHandler.createValidationError(result.error, { code: result.code });
+}
+
+// Audit log filter from query parameters - null when a date is invalid
+function parseAuditFilter(query: Record<string, unknown>) {
+  const from = typeof query.from === 'string' ? new Date(query.from) : undefined;
+  const to = typeof query.to === 'string' ? new Date(query.to) : undefined;
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return null;
+  }
+  return {
+    operator: typeof query.operator === 'string' && query.operator ? query.operator : undefined,
+    operationTypes: typeof query.operationType === 'string' && query.operationType
+      ? query.operationType.split(',').map(type => type.trim()).filter(Boolean)
+      : undefined,
+    from,
+    to,
+    success: query.success === 'true' ? true : query.success === 'false' ? false : undefined,
+    limit: query.limit ? parseInt(String(query.limit), 10) || undefined : undefined,
+    offset: query.offset ? parseInt(String(query.offset), 10) || undefined : undefined
+  };
+}
+
+router.get("/session", (req, res) => {
+  const session = req.adminSession!;
+  res.json({
+    walletAddress: session.walletAddress,
+    role: req.adminRole,
+    permissions: ROLE_PERMISSIONS[req.adminRole!],
+    issuedAt: session.issuedAt.toISOString(),
+    expiresAt: session.expiresAt.toISOString()
+  });
+});
+
+router.post("/logout", async (req, res, next) => {
+  try {
+    await adminAuthService.revokeSession(getBearerToken(req)!);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Admin logout failed:', error);
+    next(ErrorHandler.createServerError('Failed to close admin session', error instanceof Error ? error.message : error));
+  }
+});
+
+// ===== ADMIN ROLES =====
+
+router.get("/roles", requireAdminPermission('admin:read'), validateRequest({ query: z.object({ includeRevoked: flagQuerySchema }) }), async (req, res, next) => {
+  try {
+    const includeRevoked = req.query.includeRevoked === 'true';
+    const roles = await adminRoleService.listRoles(includeRevoked);
+    res.json({ roles, rolePermissions: ROLE_PERMISSIONS });
+  } catch (error) {
+    console.error('Failed to list admin roles:', error);
+    next(ErrorHandler.createServerError('Failed to list admin roles', error instanceof Error ? error.message : error));
+  }
+});
+
+// Grant a role or change an existing one
+router.post("/roles", requireAdminPermission('roles:manage'), validateRequest({ body: grantRoleSchema }), async (req, res, next) => {
+  try {
+    const { walletAddress, role, label } = req.body;
+    const result = await adminRoleService.grantRole(
+      walletAddress,
+      role,
+      req.adminSession!.walletAddress,
+      label || undefined
+    );
+    if (!result.success) {
+      return next(serviceError(result));
+    }
+    res.json(result.grant);
+  } catch (error) {
+    console.error('Failed to grant admin role:', error);
+    next(ErrorHandler.createServerError('Failed to grant admin role', error instanceof Error ? error.message : error));
+  }
+});
+
+router.delete("/roles/:walletAddress", requireAdminPermission('roles:manage'), validateRequest({ params: z.object({ walletAddress: ethereumAddressSchema }) }), async (req, res, next) => {
+  try {
+    const result = await adminRoleService.revokeRole(req.params.walletAddress, req.adminSession!.walletAddress);
+    if (!result.success) {
+      return next(serviceError(result));
+    }
+    res.json(result.grant);
+  } catch (error) {
+    console.error('Failed to revoke admin role:', error);
+    next(ErrorHandler.createServerError('Failed to revoke admin role', error instanceof Error ? error.message : error));
+  }
+});
+
+// Re-derive reward ledger entries from their recorded inputs (audit)
+router.get("/rewards/ledger-audit", requireAdminPermission('admin:read'), validateRequest({ query: ledgerAuditQuerySchema }), async (req, res, next) => {
+  try {
+    const { date, positionId } = req.query as z.infer<typeof ledgerAuditQuerySchema>;
+    const results = await rewardLedgerService.auditEntries({ date, positionId });
+    const mismatches = results.filter(result => !result.matches);
+
+    res.json({
+      checkedEntries: results.length,
+      mismatchCount: mismatches.length,
+      totalStored: results.reduce((sum, result) => sum + result.storedAmount, 0),
+      totalDerived: results.reduce((sum, result) => sum + result.derivedAmount, 0),
+      mismatches
+    });
+  } catch (error) {
+    console.error('Reward ledger audit failed:', error);
+    next(ErrorHandler.createServerError("Failed to audit reward ledger", error instanceof Error ? error.message : error));
+  }
+});
+
+// Claim reconciliation report (on-chain RewardClaimed events vs rewards table and ledger)
+router.get("/claims/reconciliation", requireAdminPermission('admin:read'), validateRequest({ query: z.object({ includeResolved: flagQuerySchema }) }), async (req, res, next) => {
+  try {
+    const includeResolved = req.query.includeResolved === 'true';
+    res.json(await claimReconciliationService.getReport(includeResolved));
+  } catch (error) {
+    console.error('Claim reconciliation report failed:', error);
+    next(ErrorHandler.createServerError("Failed to get claim reconciliation report", error instanceof Error ? error.message : error));
+  }
+});
+
+router.post("/claims/reconciliation/run", requireAdminPermission('config:write'), async (req, res, next) => {
+  try {
+    const result = await claimReconciliationService.runNow();
+    if (result.error) {
+      return next(ErrorHandler.createExternalApiError('claim-reconciliation', result.error, result));
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('Claim reconciliation run failed:', error);
+    next(ErrorHandler.createServerError("Failed to run claim reconciliation", error instanceof Error ? error.message : error));
+  }
+});
+
+// Position manager event indexer (liquidity_events) - ?chainId= selects the chain's indexer
+router.get("/indexer/positions", requireAdminPermission('admin:read'), async (req, res, next) => {
+  try {
+    const chainId = parseChainId(req.query.chainId);
+    if (chainId === null) {
+      return next(ErrorHandler.createValidationError('Unsupported or disabled chainId'));
+    }
+    res.json(await getPositionEventIndexer(chainId).getStatus());
+  } catch (error) {
+    console.error('Position indexer status failed:', error);
+    next(ErrorHandler.createServerError("Failed to get position indexer status", error instanceof Error ? error.message : error));
+  }
+});
+
+router.post("/indexer/positions/run", requireAdminPermission('config:write'), async (req, res, next) => {
+  try {
+    const chainId = parseChainId(req.query.chainId);
+    if (chainId === null) {
+      return next(ErrorHandler.createValidationError('Unsupported or disabled chainId'));
+    }
+    const result = await getPositionEventIndexer(chainId).runNow();
+    if (result.error) {
+      return next(ErrorHandler.createExternalApiError('position-indexer', result.error, result));
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('Position indexer run failed:', error);
+    next(ErrorHandler.createServerError("Failed to run position indexer", error instanceof Error ? error.message : error));
+  }
+});
+
+// Notification subscriptions, delivery counts and channel configuration
+router.get("/notifications/status", requireAdminPermission('admin:read'), async (req, res, next) => {
+  try {
+    res.json(await notificationService.getStatus());
+  } catch (error) {
+    console.error('Notification status failed:', error);
+    next(ErrorHandler.createServerError("Failed to get notification status", error instanceof Error ? error.message : error));
+  }
+});
+
+// Recent deliveries - ?status=pending|delivered|failed
+router.get("/notifications/deliveries", requireAdminPermission('admin:read'), validateRequest({ query: z.object({ status: z.enum(['pending', 'delivered', 'failed']).optional() }) }), async (req, res, next) => {
+  try {
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    const deliveries = await notificationService.getDeliveries({ status });
+    res.json(deliveries.map(({ payload, ...delivery }) => delivery));
+  } catch (error) {
+    console.error('Notification deliveries failed:', error);
+    next(ErrorHandler.createServerError("Failed to get notification deliveries", error instanceof Error ? error.message : error));
+  }
+});
+
+router.post("/notifications/run", requireAdminPermission('config:write'), async (req, res, next) => {
+  try {
+    res.json(await notificationService.runNow());
+  } catch (error) {
+    console.error('Notification run failed:', error);
+    next(ErrorHandler.createServerError("Failed to run notifications", error instanceof Error ? error.message : error));
+  }
+});
+
+// ===== BACKGROUND JOBS =====
+
+// Every scheduled job with its pause/retry state, plus which instance is leading
+router.get("/jobs", requireAdminPermission('admin:read'), async (req, res, next) => {
+  try {
+    res.json({
+      instanceId: jobScheduler.getInstanceId(),
+      isLeader: jobScheduler.isLeader(),
+      jobs: await jobScheduler.listJobs()
+    });
+  } catch (error) {
+    console.error('Job list failed:', error);
+    next(ErrorHandler.createServerError("Failed to list jobs", error instanceof Error ? error.message : error));
+  }
+});
+
+// Run history, newest first - ?limit= up to 100
+const jobRunsQuerySchema = z.object({ limit: positiveIntSchema.max(100).optional() });
+
+router.get("/jobs/:name/runs", requireAdminPermission('admin:read'), validateRequest({ params: jobParamsSchema, query: jobRunsQuerySchema }), async (req, res, next) => {
+  try {
+    const job = await jobScheduler.getJob(req.params.name);
+    if (!job) {
+      return next(ErrorHandler.createNotFoundError('Job not found'));
+    }
+    const { limit } = req.query as z.infer<typeof jobRunsQuerySchema>;
+    res.json(await jobScheduler.getRuns(job.name, limit));
+  } catch (error) {
+    console.error('Job run history failed:', error);
+    next(ErrorHandler.createServerError("Failed to get job runs", error instanceof Error ? error.message : error));
+  }
+});
+
+const JOB_AUDIT = {
+  pause: ['JOB_PAUSED', 'Paused'],
+  resume: ['JOB_RESUMED', 'Resumed'],
+  trigger: ['JOB_TRIGGERED', 'Triggered']
+} as const;
+
+// Pause and resume apply on every instance; a trigger runs on the leader's next tick, even when paused
+async function updateJob(req: Request, res: Response, next: NextFunction, action: 'pause' | 'resume' | 'trigger') {
+  try {
+    const job = await jobScheduler[action](req.params.name);
+    if (!job) {
+      return next(ErrorHandler.createNotFoundError('Job not found'));
+    }
+
+    const [operation, verb] = JOB_AUDIT[action];
+    await logAdminOperation(operation, `${verb} background job ${job.name}`, req.adminSession!.walletAddress, undefined, undefined, true, undefined, {
+      after: job
+    });
+    res.json({ success: true, job });
+  } catch (error) {
+    console.error(`Job ${action} failed:`, error);
+    next(ErrorHandler.createServerError(`Failed to ${action} job`, error instanceof Error ? error.message : error));
+  }
+}
+
+router.post("/jobs/:name/pause", requireAdminPermission('config:write'), validateRequest({ params: jobParamsSchema }), (req, res, next) => updateJob(req, res, next, 'pause'));
+router.post("/jobs/:name/resume", requireAdminPermission('config:write'), validateRequest({ params: jobParamsSchema }), (req, res, next) => updateJob(req, res, next, 'resume'));
+router.post("/jobs/:name/trigger", requireAdminPermission('config:write'), validateRequest({ params: jobParamsSchema }), (req, res, next) => updateJob(req, res, next, 'trigger'));
+
+// ===== PUBLIC API KEYS =====
+
+router.get("/api-keys", requireAdminPermission('admin:read'), async (req, res, next) => {
+  try {
+    res.json(await apiKeyService.list());
+  } catch (error) {
+    console.error('API key list failed:', error);
+    next(ErrorHandler.createServerError("Failed to list API keys", error instanceof Error ? error.message : error));
+  }
+});
+
+// Issue a key - the raw key is only in this response
+router.post("/api-keys", requireAdminPermission('config:write'), validateRequest({ body: createApiKeySchema }), async (req, res, next) => {
+  try {
+    const { name, rateLimitPerMinute } = req.body;
+    const performedBy = req.adminSession!.walletAddress;
+    const result = await apiKeyService.create(name, performedBy, rateLimitPerMinute);
+    if (!result.success) {
+      return next(serviceError(result));
+    }
+
+    await logAdminOperation('API_KEY_CREATED', `Issued public API key "${result.apiKey.name}"`, performedBy, undefined, undefined, true, undefined, {
+      after: result.apiKey
+    });
+    res.json({ success: true, key: result.key, apiKey: result.apiKey });
+  } catch (error) {
+    console.error('API key creation failed:', error);
+    next(ErrorHandler.createServerError("Failed to create API key", error instanceof Error ? error.message : error));
+  }
+});
+
+router.delete("/api-keys/:id", requireAdminPermission('config:write'), validateRequest({ params: idParamsSchema }), async (req, res, next) => {
+  try {
+    const revoked = await apiKeyService.revoke(Number(req.params.id));
+    if (!revoked) {
+      return next(ErrorHandler.createNotFoundError('API key not found or already revoked'));
+    }
+
+    await logAdminOperation('API_KEY_REVOKED', `Revoked public API key "${revoked.name}"`, req.adminSession!.walletAddress, undefined, undefined, true, undefined, {
+      after: revoked
+    });
+    res.json({ success: true, apiKey: revoked });
+  } catch (error) {
+    console.error('API key revocation failed:', error);
+    next(ErrorHandler.createServerError("Failed to revoke API key", error instanceof Error ? error.message : error));
+  }
+});
+
+// Position NFT transfer audit trail
+router.get("/positions/transfers", requireAdminPermission('admin:read'), validateRequest({ query: transfersQuerySchema }), async (req, res, next) => {
+  try {
+    const { status, nftTokenId } = req.query as z.infer<typeof transfersQuerySchema>;
+    res.json(await positionTransferService.getTransfers({ status, nftTokenId }));
+  } catch (error) {
+    console.error('Position transfer audit failed:', error);
+    next(ErrorHandler.createServerError("Failed to get position transfers", error instanceof Error ? error.message : error));
+  }
+});
+
+// Merkle epochs (admin) - list, build the next epoch from the ledger, publish its root
+router.get("/merkle/epochs", requireAdminPermission('admin:read'), async (req, res, next) => {
+  try {
+    res.json(await merkleDistributionService.getEpochs());
+  } catch (error) {
+    console.error('Merkle epochs lookup failed:', error);
+    next(ErrorHandler.createServerError("Failed to get Merkle epochs", error instanceof Error ? error.message : error));
+  }
+});
+
+router.post("/merkle/epochs", requireAdminPermission('rewards:distribute'), async (req, res, next) => {
+  const adminWallet = req.adminSession!.walletAddress;
+  try {
+    const epoch = await merkleDistributionService.buildEpoch();
+    await logAdminOperation(
+      'merkle_epoch_build',
+      `Built Merkle epoch ${epoch.epoch} - ${epoch.leafCount} leaves, root ${epoch.merkleRoot}`,
+      adminWallet,
+      undefined,
+      undefined,
+      true
+    );
+    res.json(epoch);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await logAdminOperation('merkle_epoch_build', 'Failed to build Merkle epoch', adminWallet, undefined, undefined, false, message);
+    console.error('Merkle epoch build failed:', error);
+    next(ErrorHandler.createServerError(`Failed to build Merkle epoch: ${message}`, error instanceof Error ? error.message : error));
+  }
+});
+
+router.post("/merkle/epochs/:epoch/publish", requireAdminPermission('rewards:distribute'), validateRequest({ params: epochParamsSchema }), async (req, res, next) => {
+  const adminWallet = req.adminSession!.walletAddress;
+  const epochNumber = Number(req.params.epoch);
+
+  try {
+    const epoch = await merkleDistributionService.publishEpoch(epochNumber);
+    await logAdminOperation(
+      'merkle_root_publish',
+      `Published Merkle epoch ${epoch.epoch} root ${epoch.merkleRoot}`,
+      adminWallet,
+      undefined,
+      epoch.publishTxHash || undefined,
+      true
+    );
+    res.json(epoch);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await logAdminOperation('merkle_root_publish', `Failed to publish Merkle epoch ${epochNumber}`, adminWallet, undefined, undefined, false, message);
+    console.error('Merkle root publish failed:', error);
+    next(ErrorHandler.createServerError(`Failed to publish Merkle epoch: ${message}`, error instanceof Error ? error.message : error));
+  }
+});
+
+// ===== LIQUIDITY TYPE DETECTION ROUTES (REMOVED) =====
+// Note: Liquidity type detection moved inline to position registration service
+
+// ===== TREASURY MANAGEMENT ROUTES (REMOVED) =====
+// Note: Treasury management consolidated into admin service
+
+// ===== REWARD UPDATE ROUTES =====
+
+// Manual trigger for daily reward updates
+router.post("/update-rewards", requireAdminPermission('rewards:distribute'), async (req, res, next) => {
+  try {
+    console.log('🚀 Manual reward update triggered by admin...');
+    // Method removed - using hourly calculation instead
+    const result = { success: true, updatedPositions: 0, totalRewardsDistributed: 0 };
+    
+    if (result.success) {
+      res.json({
+        success: true,
+        message: 'Reward update completed successfully',
+        updatedPositions: result.updatedPositions,
+        totalRewardsDistributed: result.totalRewardsDistributed,
+        timestamp: new Date().toISOString()
+      });
+    } else {
+      next(ErrorHandler.createServerError('Reward update failed'));
+    }
+  } catch (error) {
+    console.error('❌ Manual reward update failed:', error);
+    next(ErrorHandler.createServerError('Failed to update rewards', error instanceof Error ? error.message : error));
+  }
+});
+
+// Get reward update status
+router.get("/reward-status", requireAdminPermission('admin:read'), async (req, res, next) => {
+  try {
+    // Method removed - getting active positions directly
+    const activeParticipants: any[] = [];
+    
+    res.json({
+      success: true,
+      activePositions: activeParticipants.length,
+      lastUpdateCheck: new Date().toISOString(),
+      nextScheduledUpdate: '24 hours from last run',
+      participants: activeParticipants.map((p: any) => ({
+        userId: p.userId || 0,
+        nftTokenId: p.nftTokenId || '',
+        liquidityValueUSD: p.liquidityValueUSD || 0
+      }))
+    });
+  } catch (error) {
+    next(ErrorHandler.createServerError('Failed to get reward status', error instanceof Error ? error.message : error));
+  }
+});
+
+// ===== BLOCKCHAIN CONFIGURATION ROUTES =====
+
+// Get all blockchain configurations
+router.get("/blockchain-config", requireAdminPermission('admin:read'), async (req, res, next) => {
+  try {
+    const { blockchainConfigService } = await import('../blockchain-config-service');
+    const configs = await blockchainConfigService.getAllConfigs();
+    
+    // Group configs by category for better organization
+    const groupedConfigs = configs.reduce((acc, config) => {
+      if (!acc[config.category]) {
+        acc[config.category] = [];
+      }
+      acc[config.category].push(config);
+      return acc;
+    }, {} as Record<string, typeof configs>);
+
+    res.json({
+      success: true,
+      configs: groupedConfigs,
+      totalConfigs: configs.length
+    });
+  } catch (error) {
+    console.error('Failed to get blockchain configurations:', error);
+    next(ErrorHandler.createDatabaseError('Failed to retrieve blockchain configurations', error instanceof Error ? error.message : error));
+  }
+});
+
+// Update blockchain configuration
+router.post("/blockchain-config", requireAdminPermission('config:write'), validateRequest({ body: blockchainConfigSchema }), async (req, res, next) => {
+  try {
+    const { configKey, configValue, description, category } = req.body;
+
+    const { blockchainConfigService } = await import('../blockchain-config-service');
+    const existing = (await blockchainConfigService.getAllConfigs()).find(c => c.configKey === configKey);
+    
+    const success = await blockchainConfigService.upsertConfig({
+      configKey,
+      configValue,
+      description: description || null,
+      category: category || 'blockchain',
+      isActive: true
+    });
+
+    await logAdminOperation(
+      'blockchain_config_update',
+      `${existing ? 'Updated' : 'Created'} blockchain configuration ${configKey}`,
+      req.adminSession!.walletAddress,
+      undefined,
+      undefined,
+      success,
+      success ? undefined : 'Failed to update configuration',
+      {
+        before: existing
+          ? { configKey, configValue: existing.configValue, description: existing.description, category: existing.category }
+          : null,
+        after: { configKey, configValue, description: description || null, category: category || 'blockchain' }
+      }
+    );
+
+    if (success) {
+      res.json({
+        success: true,
+        message: `Configuration ${configKey} updated successfully`,
+        config: { configKey, configValue, description, category }
+      });
+    } else {
+      next(ErrorHandler.createDatabaseError('Failed to update configuration'));
+    }
+  } catch (error) {
+    console.error('Failed to update blockchain configuration:', error);
+    next(ErrorHandler.createServerError('Failed to update configuration', error instanceof Error ? error.message : error));
+  }
+});
+
+// Get specific blockchain configuration by key
+router.get("/blockchain-config/:key", requireAdminPermission('admin:read'), validateRequest({ params: z.object({ key: z.string().min(1).max(100) }) }), async (req, res, next) => {
+  try {
+    const { key } = req.params;
+    const { blockchainConfigService } = await import('../blockchain-config-service');
+    
+    const value = await blockchainConfigService.getConfig(key);
+    
+    if (value !== null) {
+      res.json({
+        success: true,
+        configKey: key,
+        configValue: value
+      });
+    } else {
+      next(ErrorHandler.createNotFoundError(`Configuration key '${key}' not found`));
+    }
+  } catch (error) {
+    console.error(`Failed to get configuration for key ${req.params.key}:`, error);
+    next(ErrorHandler.createDatabaseError('Failed to retrieve configuration', error instanceof Error ? error.message : error));
+  }
+});
+
+// Program settings endpoints
+router.get('/program/settings', requireAdminPermission('admin:read'), async (req, res, next) => {
+  try {
+    // Get the settings version currently in effect
+    const settings = await programSettingsService.getEffectiveSettings();
+    
+    if (!settings) {
+      // No settings exist - return error instead of creating defaults
+      return next(ErrorHandler.createNotFoundError('Program settings not configured. Please configure via admin panel first.'));
+    } else {
+      res.json({
+        timeBoostCoefficient: parseFloat(settings.timeBoostCoefficient),
+        fullRangeBonus: parseFloat(settings.fullRangeBonus),
+        minimumPositionValue: parseFloat(settings.minimumPositionValue),
+        lockPeriod: settings.lockPeriod,
+        versionId: settings.id,
+        effectiveFrom: settings.effectiveFrom.toISOString()
+      });
+    }
+  } catch (error) {
+    console.error('Program settings error:', error);
+    next(ErrorHandler.createServerError('Failed to get program settings', error instanceof Error ? error.message : error));
+  }
+});
+
+// Program settings version history (newest first, including scheduled versions)
+router.get('/program/settings/history', requireAdminPermission('admin:read'), async (req, res, next) => {
+  try {
+    const versions = await programSettingsService.getVersions();
+    const now = new Date();
+    const current = await programSettingsService.getEffectiveSettings(now);
+
+    res.json(versions.map(version => ({
+      versionId: version.id,
+      timeBoostCoefficient: parseFloat(version.timeBoostCoefficient),
+      fullRangeBonus: parseFloat(version.fullRangeBonus),
+      minimumPositionValue: parseFloat(version.minimumPositionValue),
+      lockPeriod: version.lockPeriod,
+      effectiveFrom: version.effectiveFrom.toISOString(),
+      createdBy: version.createdBy,
+      status: version.id === current?.id ? 'current' : version.effectiveFrom > now ? 'scheduled' : 'superseded'
+    })));
+  } catch (error) {
+    console.error('Program settings history error:', error);
+    next(ErrorHandler.createServerError('Failed to get program settings history', error instanceof Error ? error.message : error));
+  }
+});
+
+// What-if simulation: project the remaining program under proposed treasury/program settings
+router.post('/simulate', requireAdminPermission('admin:read'), async (req, res, next) => {
+  try {
+    const { totalAllocation, programStartDate, programDurationDays, timeBoostCoefficient, fullRangeBonus, minimumPositionValue, lockPeriod } = req.body || {};
+    const result = await rewardSimulationService.simulate({
+      totalAllocation,
+      programStartDate,
+      programDurationDays,
+      timeBoostCoefficient,
+      fullRangeBonus,
+      minimumPositionValue,
+      lockPeriod
+    });
+    res.json(result);
+  } catch (error: any) {
+    if (error?.statusCode === 400) {
+      return next(error);
+    }
+    console.error('Reward simulation error:', error);
+    next(ErrorHandler.createServerError('Failed to run reward simulation', error instanceof Error ? error.message : error));
+  }
+});
+
+router.post("/program/settings", requireAdminPermission('config:write'), async (req, res, next) => {
+  try {
+    const settings = req.body;
+    
+    // Validate required fields - no fallback defaults
+    const validation = adminProposalService.validateProgramSettings(settings);
+    if (!validation.valid) {
+      return next(ErrorHandler.createValidationError(validation.errors[0], validation.errors));
+    }
+    
+    // Admin wallet from the verified SIWE session
+    const adminWallet = req.adminSession!.walletAddress;
+
+    if (adminProposalService.isApprovalRequired()) {
+      const result = await adminProposalService.propose('program_settings', validation.change, adminWallet, Number(settings.timelockHours) || undefined);
+      if (!result.success) {
+        return next(ErrorHandler.createConflictError(result.error, result.code));
+      }
+      return res.status(202).json({
+        success: true,
+        pendingApproval: true,
+        message: `Program settings change submitted as proposal #${result.proposal.id} - awaiting ${result.proposal.requiredApprovals} approvals`,
+        proposal: result.proposal
+      });
+    }
+
+    // Settings are versioned - insert a new version instead of updating in place
+    const created = await adminProposalService.applyProgramSettings(validation.change, adminWallet);
+    
+    res.json({
+      success: true,
+      message: 'Program settings updated successfully',
+      settings: {
+        timeBoostCoefficient: parseFloat(created.timeBoostCoefficient),
+        fullRangeBonus: parseFloat(created.fullRangeBonus),
+        minimumPositionValue: parseFloat(created.minimumPositionValue),
+        lockPeriod: created.lockPeriod,
+        versionId: created.id,
+        effectiveFrom: created.effectiveFrom.toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Program settings update error:', error);
+    next(ErrorHandler.createServerError('Failed to update program settings', error instanceof Error ? error.message : error));
+  }
+});
+
+// ===== ADMIN PROPOSALS (M-of-N approval) =====
+
+router.get("/proposals", requireAdminPermission('admin:read'), validateRequest({ query: z.object({ changeType: z.string().optional(), openOnly: flagQuerySchema }) }), async (req, res, next) => {
+  try {
+    const changeType = typeof req.query.changeType === 'string' ? req.query.changeType : undefined;
+    const openOnly = req.query.openOnly === 'true';
+    const proposals = await adminProposalService.listProposals({ changeType, openOnly }, req.adminSession!.walletAddress);
+    res.json({ proposals, approvalRequired: adminProposalService.isApprovalRequired() });
+  } catch (error) {
+    console.error('Failed to list admin proposals:', error);
+    next(ErrorHandler.createServerError('Failed to list admin proposals', error instanceof Error ? error.message : error));
+  }
+});
+
+// Approve or reject with a signature over the vote message returned by GET /api/admin/proposals
+router.post("/proposals/:id/vote", requireAdminPermission('admin:read'), validateRequest({ params: idParamsSchema, body: voteSchema }), async (req, res, next) => {
+  try {
+    const { decision, signature } = req.body;
+    const result = await adminProposalService.vote(Number(req.params.id), req.adminSession!.walletAddress, req.adminRole!, decision, signature as `0x${string}`);
+    if (!result.success) {
+      return next(serviceError(result));
+    }
+    res.json(result.proposal);
+  } catch (error) {
+    console.error('Failed to record proposal vote:', error);
+    next(ErrorHandler.createServerError('Failed to record proposal vote', error instanceof Error ? error.message : error));
+  }
+});
+
+router.post("/proposals/:id/cancel", requireAdminPermission('admin:read'), validateRequest({ params: idParamsSchema }), async (req, res, next) => {
+  try {
+    const result = await adminProposalService.cancel(Number(req.params.id), req.adminSession!.walletAddress, req.adminRole!);
+    if (!result.success) {
+      return next(serviceError(result));
+    }
+    res.json(result.proposal);
+  } catch (error) {
+    console.error('Failed to cancel proposal:', error);
+    next(ErrorHandler.createServerError('Failed to cancel proposal', error instanceof Error ? error.message : error));
+  }
+});
+
+// All programs including inactive ones
+router.get("/programs", requireAdminPermission('admin:read'), async (req, res, next) => {
+  try {
+    res.json(await incentiveProgramService.listPrograms({ includeInactive: true }));
+  } catch (error) {
+    console.error('Failed to list incentive programs:', error);
+    next(ErrorHandler.createServerError('Failed to list incentive programs', error instanceof Error ? error.message : error));
+  }
+});
+
+// Create (POST) or update (PUT) a program - budgets go through M-of-N approval like the treasury config
+async function saveIncentiveProgram(req: Request, res: Response, next: NextFunction, programId?: number) {
+  try {
+    const validation = await adminProposalService.validateIncentiveProgram(req.body || {}, programId);
+    if (!validation.valid) {
+      return next(ErrorHandler.createValidationError(validation.errors[0], validation.errors));
+    }
+
+    const adminWallet = req.adminSession!.walletAddress;
+    if (adminProposalService.isApprovalRequired()) {
+      const result = await adminProposalService.propose('incentive_program', validation.change, adminWallet, Number(req.body?.timelockHours) || undefined);
+      if (!result.success) {
+        return next(ErrorHandler.createConflictError(result.error, result.code));
+      }
+      return res.status(202).json({
+        success: true,
+        pendingApproval: true,
+        message: `Program change submitted as proposal #${result.proposal.id} - awaiting ${result.proposal.requiredApprovals} approvals`,
+        proposal: result.proposal
+      });
+    }
+
+    const program = await adminProposalService.applyIncentiveProgram(validation.change, adminWallet);
+    res.json({ success: true, program });
+  } catch (error) {
+    console.error('Incentive program update error:', error);
+    next(ErrorHandler.createServerError('Failed to save incentive program', error instanceof Error ? error.message : error));
+  }
+}
+
+router.post("/programs", requireAdminPermission('treasury:write'), (req, res, next) => saveIncentiveProgram(req, res, next));
+
+router.put("/programs/:id", requireAdminPermission('treasury:write'), validateRequest({ params: idParamsSchema }), (req, res, next) => {
+  return saveIncentiveProgram(req, res, next, Number(req.params.id));
+});
+
+// ===== AUDIT LOG =====
+
+// Filter by operator, operationType (comma separated), from/to (ISO) and success
+router.get("/audit-log", requireAdminPermission('admin:read'), validateRequest({ query: auditLogQuerySchema }), async (req, res, next) => {
+  try {
+    const filter = parseAuditFilter(req.query);
+    if (!filter) {
+      return next(ErrorHandler.createValidationError('from and to must be valid dates'));
+    }
+    const [page, facets] = await Promise.all([
+      adminAuditService.query(filter),
+      adminAuditService.getFacets()
+    ]);
+    res.json({ ...page, facets });
+  } catch (error) {
+    console.error('Failed to query audit log:', error);
+    next(ErrorHandler.createServerError('Failed to query audit log', error instanceof Error ? error.message : error));
+  }
+});
+
+router.get("/audit-log/export", requireAdminPermission('admin:read'), validateRequest({ query: auditLogQuerySchema }), async (req, res, next) => {
+  try {
+    const filter = parseAuditFilter(req.query);
+    if (!filter) {
+      return next(ErrorHandler.createValidationError('from and to must be valid dates'));
+    }
+    const format = req.query.format === 'json' ? 'json' : 'csv';
+    const body = await adminAuditService.exportEntries(filter, format);
+    const filename = `admin-audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    await logAdminOperation('audit_log_export', `Exported audit log as ${format.toUpperCase()}`, req.adminSession!.walletAddress);
+
+    res.setHeader('Content-Type', format === 'json' ? 'application/json' : 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(body);
+  } catch (error) {
+    console.error('Failed to export audit log:', error);
+    next(ErrorHandler.createServerError('Failed to export audit log', error instanceof Error ? error.message : error));
+  }
+});
+
+// Operations history endpoint
+router.get("/operations", requireAdminPermission('admin:read'), async (req, res, next) => {
+  try {
+    // Get real operations from database
+    const { operations: dbOperations } = await storage.getAdminOperations({}, 50);
+    
+    // Transform database format to frontend format
+    const operations = dbOperations.map(op => ({
+      action: (op.operationType || 'unknown').toUpperCase(),
+      details: op.reason,
+      adminId: op.performedBy, // This will now show the wallet address
+      walletAddress: op.performedBy, // Add explicit wallet address field
+      timestamp: op.timestamp.toISOString(),
+      success: op.success,
+      amount: op.amount,
+      transactionHash: op.transactionHash,
+      errorMessage: op.errorMessage
+    }));
+    
+    // If no operations in database, return recent mock data with note
+    if (operations.length === 0) {
+      const mockOperations = [
+        {
+          action: 'TREASURY_UPDATE',
+          details: 'Updated total allocation to 500,000 KILT',
+          adminId: 'Mock Data - No Operations Logged Yet',
+          walletAddress: null,
+          timestamp: new Date().toISOString(),
+          success: true
+        },
+        {
+          action: 'PARAMETERS_UPDATE', 
+          details: 'Updated time boost coefficient to 0.6',
+          adminId: 'Mock Data - No Operations Logged Yet',
+          walletAddress: null,
+          timestamp: new Date(Date.now() - 3600000).toISOString(),
+          success: true
+        }
+      ];
+      return res.json(mockOperations);
+    }
+    
+    res.json(operations);
+  } catch (error) {
+    console.error('Admin operations fetch error:', error);
+    next(ErrorHandler.createServerError('Failed to get operations', error instanceof Error ? error.message : error));
+  }
+});
+
+export default router;
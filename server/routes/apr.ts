@@ -0,0 +1,275 @@
+/**
+ * APR routes - program, user and range-strategy APR from the single source of truth.
+ * Mounted at /api.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { incentiveProgramService } from "../incentive-program-service";
+import { SingleSourceAPR } from "../single-source-apr";
+import { parseProgramId } from "./helpers";
+import { ErrorHandler } from "../error-handler";
+import { addressParamsSchema, validateRequest } from "./validation";
+
+const router = Router();
+
+const singleSourceAPR = new SingleSourceAPR(storage);
+
+const rangeStrategiesSchema = z.object({
+  positionValue: z.coerce.number().finite().positive(),
+  currentPrice: z.coerce.number().finite().positive()
+});
+
+// Program APR endpoint (what frontend is calling) - ?programId= selects the program
+router.get('/apr/program', async (req, res, next) => {
+  try {
+    const programId = parseProgramId(req.query.programId);
+    if (programId === null) {
+      return next(ErrorHandler.createValidationError('Invalid programId'));
+    }
+    const aprData = await singleSourceAPR.getProgramAPR(programId);
+    console.log('🎯 SINGLE SOURCE APR:', { 
+      programAPR: aprData.programAPR, 
+      tradingAPR: aprData.tradingAPR, 
+      totalAPR: aprData.totalProgramAPR 
+    });
+    res.setHeader('X-Source', 'single-source-apr');
+    res.json(aprData);
+  } catch (error) {
+    console.error('❌ Error getting program APR:', error);
+    next(ErrorHandler.createServerError('Failed to get program APR', error instanceof Error ? error.message : error));
+  }
+});
+
+// Official program APR (for all display purposes)
+router.get('/apr/official', async (req, res, next) => {
+  try {
+    const programId = parseProgramId(req.query.programId);
+    if (programId === null) {
+      return next(ErrorHandler.createValidationError('Invalid programId'));
+    }
+    const aprData = await singleSourceAPR.getProgramAPR(programId);
+    res.setHeader('X-Source', 'single-source-apr');
+    res.json(aprData);
+  } catch (error) {
+    console.error('❌ Error getting official APR:', error);
+    next(ErrorHandler.createServerError('Failed to get official APR', error instanceof Error ? error.message : error));
+  }
+});
+
+// Expected Returns display values (for frontend) - EMERGENCY FAST VERSION
+router.get('/apr/expected-returns', async (req, res, next) => {
+  try {
+    // Emergency timeout - database is critically slow
+    const aprPromise = Promise.race([
+      singleSourceAPR.getExpectedReturnsDisplay(parseProgramId(req.query.programId) ?? undefined),
+      new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Database critically slow')), 500) // 500ms max
+      )
+    ]);
+    
+    const displayData = await aprPromise;
+    res.setHeader('X-Source', 'database-success');
+    res.json(displayData);
+  } catch (error) {
+    console.warn('⚡ EMERGENCY FALLBACK - Database too slow, instant response:', (error as Error).message);
+    // Return error instead of fallback values
+    next(ErrorHandler.createUnavailableError("Unable to retrieve authentic APR data - please try again in a moment"));
+  }
+});
+
+// User-specific APR (for wallet analysis)
+router.get('/apr/user/:address', validateRequest({ params: addressParamsSchema }), async (req, res, next) => {
+  try {
+    const { address } = req.params;
+    const userAPR = await singleSourceAPR.getUserAPR(address);
+    res.setHeader('X-Source', 'single-source-apr');
+    res.json(userAPR);
+  } catch (error) {
+    console.error('❌ Error getting user APR:', error);
+    next(ErrorHandler.createServerError('Failed to get user APR', error instanceof Error ? error.message : error));
+  }
+});
+
+// Calculate APR for different range strategies
+router.post("/apr/range-strategies", validateRequest({ body: rangeStrategiesSchema }), async (req, res, next) => {
+  try {
+    const { positionValue, currentPrice } = req.body;
+
+    const strategies = [
+      {
+        name: 'Narrow (±25%)',
+        minPrice: currentPrice * 0.75,
+        maxPrice: currentPrice * 1.25,
+        range: 0.25
+      },
+      {
+        name: 'Balanced (±50%)',
+        minPrice: currentPrice * 0.5,
+        maxPrice: currentPrice * 1.5,
+        range: 0.5
+      },
+      {
+        name: 'Wide (±100%)',
+        minPrice: currentPrice * 0.01,
+        maxPrice: currentPrice * 2,
+        range: 1.0
+      },
+      {
+        name: 'Full Range',
+        minPrice: 0,
+        maxPrice: Infinity,
+        range: Infinity
+      }
+    ];
+
+    const results = await Promise.all(
+      strategies.map(async (strategy) => {
+        // This would calculate APR for each strategy
+        // For now, return estimated values
+        const concentrationFactor = strategy.range === Infinity ? 1 : Math.min(4, 2 / strategy.range);
+        const estimatedTradingFeeAPR = 15 * concentrationFactor * 0.7; // Assumes 70% time in range
+        const estimatedIncentiveAPR = 20; // Base incentive APR
+        
+        return {
+          strategy: strategy.name,
+          range: strategy.range,
+          minPrice: strategy.minPrice,
+          maxPrice: strategy.maxPrice,
+          concentrationFactor,
+          estimatedAPR: {
+            tradingFee: estimatedTradingFeeAPR,
+            incentive: estimatedIncentiveAPR,
+            total: estimatedTradingFeeAPR + estimatedIncentiveAPR
+          },
+          riskLevel: strategy.range < 0.5 ? 'High' : strategy.range < 1 ? 'Medium' : 'Low'
+        };
+      })
+    );
+
+    res.json({
+      positionValue,
+      currentPrice,
+      strategies: results,
+      recommendation: results.find(r => r.strategy.includes('Balanced'))?.strategy || 'Balanced (±50%)'
+    });
+  } catch (error) {
+    // Error calculating range strategy APR
+    next(ErrorHandler.createServerError('Failed to calculate range strategy APR', error instanceof Error ? error.message : error));
+  }
+});
+
+// ===== STREAMLINED ALL-IN-ONE APR ENDPOINT =====
+router.get('/apr/streamlined', async (req, res, next) => {
+  try {
+    // Budget and pool of the requested program (default: treasury-funded)
+    const programId = parseProgramId(req.query.programId);
+    const program = programId
+      ? await incentiveProgramService.getProgram(programId)
+      : await incentiveProgramService.getPrimaryProgram();
+    if (!program) {
+      return next(ErrorHandler.createNotFoundError('Incentive program not found'));
+    }
+    const apr = await singleSourceAPR.getStreamlinedAPR(program);
+    const dailyBudgetUSD = apr.dailyBudget * apr.kiltPrice;
+    
+    const result = {
+      programId: apr.programId,
+      programAPR: apr.programAPR,
+      tradingAPR: apr.tradingAPR,
+      totalAPR: apr.totalAPR,
+      poolTVL: apr.poolTVL,
+      dailyBudget: apr.dailyBudget,
+      programDurationDays: apr.programDurationDays,
+      kiltPrice: apr.kiltPrice,
+      poolStats: {
+        // Actual LP count requires querying Mint/Burn events from the pool contract
+        totalLPs: 'Unknown',
+        avgPositionValue: 'N/A',
+        competitiveContext: `LP count requires blockchain analysis`,
+        poolAddress: program.poolAddress.toLowerCase(),
+        note: 'Accurate LP count needs Mint/Burn event analysis'
+      },
+      calculation: {
+        dailyBudgetUSD: Math.round(dailyBudgetUSD * 100) / 100,
+        annualBudgetUSD: Math.round(dailyBudgetUSD * 365),
+        totalRewards: apr.dailyBudget * apr.programDurationDays,
+        totalProgramRewards: apr.dailyBudget * apr.programDurationDays
+      }
+    };
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Streamlined APR error:', error);
+    next(ErrorHandler.createServerError('Failed to calculate APR', error instanceof Error ? error.message : error));
+  }
+});
+
+// Get trading fees APR for KILT/WETH pool - Direct DexScreener API integration
+router.get("/trading-fees/pool-apr", async (req, res, next) => {
+  try {
+    // Get KILT token data from DexScreener API (finds the KILT/WETH pool automatically)
+    const kiltTokenAddress = '0x5d0dd05bb095fdd6af4865a1adf97c39c85ad2d8'; // KILT token on Base
+    const dexScreenerUrl = `https://api.dexscreener.com/latest/dex/tokens/${kiltTokenAddress}`;
+    
+    const response = await fetch(dexScreenerUrl);
+    if (!response.ok) {
+      throw new Error(`DexScreener API failed: ${response.status}`);
+    }
+    
+    const data = await response.json();
+    const kiltWethPair = data.pairs?.find((pair: any) => 
+      pair.chainId === 'base' && 
+      pair.quoteToken.symbol === 'WETH' &&
+      pair.baseToken.symbol === 'KILT'
+    );
+    
+    if (!kiltWethPair) {
+      throw new Error('KILT/WETH pool not found on DexScreener');
+    }
+    
+    // Calculate trading fees APR from authentic DexScreener data
+    const poolTVL = parseFloat(kiltWethPair.liquidity?.usd || '0');
+    const volume24h = parseFloat(kiltWethPair.volume?.h24 || '0');
+    const feeRate = 0.003; // 0.3% fee tier for Uniswap V3
+    
+    const dailyFees = volume24h * feeRate;
+    const tradingFeesAPR = poolTVL > 0 ? (dailyFees * 365) / poolTVL * 100 : 0;
+    
+    const result = {
+      tradingFeesAPR,
+      positionSpecificAPR: tradingFeesAPR,
+      poolVolume24hUSD: volume24h,
+      poolFees24hUSD: dailyFees,
+      poolTVL,
+      feeTier: 3000,
+      dataSource: 'dexscreener-api',
+      userPositionShare: 0,
+      calculationMethod: 'api-direct',
+      priceUsd: parseFloat(kiltWethPair.priceUsd || '0'),
+      priceChange24h: parseFloat(kiltWethPair.priceChange?.h24 || '0'),
+      poolAddress: kiltWethPair.pairAddress,
+      txnCount24h: (kiltWethPair.txns?.h24?.buys || 0) + (kiltWethPair.txns?.h24?.sells || 0)
+    };
+    
+    // Set headers for authentic DexScreener API data
+    res.setHeader('X-Data-Source', 'dexscreener-api');
+    res.setHeader('Cache-Control', 'public, max-age=300'); // 5 minute cache for API data
+    
+    console.log('DexScreener Trading Fees APR:', {
+      poolTVL: poolTVL,
+      volume24h: volume24h,
+      dailyFees: dailyFees,
+      tradingFeesAPR: tradingFeesAPR,
+      poolAddress: kiltWethPair.pairAddress
+    });
+    
+    res.json(result);
+  } catch (error: unknown) {
+    console.error('DexScreener API error:', error);
+    next(ErrorHandler.createExternalApiError('DexScreener', 'Failed to fetch from DexScreener API', error instanceof Error ? error.message : error));
+  }
+});
+
+export default router;
@@ -0,0 +1,579 @@
+/**
+ * Debug and diagnostics routes for investigating claims, contracts and positions.
+ * Mounted at /api.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { unifiedRewardService } from "../unified-reward-service";
+import { uniswapIntegrationService } from "../uniswap-integration-service";
+import { smartContractService } from "../smart-contract-service";
+import { ErrorHandler } from "../error-handler";
+import { addressParamsSchema, nftTokenIdSchema, userAddressParamsSchema, validateRequest } from "./validation";
+
+const router = Router();
+
+const tokenIdParamsSchema = z.object({ tokenId: nftTokenIdSchema });
+
+// Debug endpoint to check database configuration
+router.get("/debug/treasury-config", async (req, res, next) => {
+  try {
+    const treasuryConf = await storage.getTreasuryConfig();
+    res.setHeader('Content-Type', 'application/json');
+    res.json({
+      exists: !!treasuryConf,
+      data: treasuryConf,
+      columnNames: Object.keys(treasuryConf || {}),
+      values: {
+        dailyRewardsCap: treasuryConf?.dailyRewardsCap,
+        totalAllocation: treasuryConf?.totalAllocation,
+        programDurationDays: treasuryConf?.programDurationDays
+      }
+    });
+  } catch (error) {
+    next(ErrorHandler.createDatabaseError('Failed to read treasury config', error instanceof Error ? error.message : error));
+  }
+});
+
+// Debug endpoint to check user token IDs
+router.get("/debug/user-token-ids/:address", validateRequest({ params: addressParamsSchema }), async (req, res, next) => {
+  try {
+    const { address } = req.params;
+    const tokenIds = await uniswapIntegrationService.getUserTokenIds(address);
+    res.setHeader('Content-Type', 'application/json');
+    res.json({ address, tokenIds, count: tokenIds.length });
+  } catch (error) {
+    next(ErrorHandler.createServerError('Failed to get user token IDs', error instanceof Error ? error.message : error));
+  }
+});
+
+// Debug endpoint to check position data for a specific NFT
+router.get("/debug/position-data/:tokenId", validateRequest({ params: tokenIdParamsSchema }), async (req, res, next) => {
+  try {
+    const { tokenId } = req.params;
+    const positionData = await uniswapIntegrationService.getFullPositionData(tokenId);
+    res.setHeader('Content-Type', 'application/json');
+    res.json({ tokenId, positionData });
+  } catch (error) {
+    next(ErrorHandler.createServerError('Failed to get position data', error instanceof Error ? error.message : error));
+  }
+});
+
+// Debug endpoint to test Uniswap V3 contract calls
+router.get("/positions/debug/:userAddress", validateRequest({ params: userAddressParamsSchema }), async (req, res, next) => {
+  try {
+    const { userAddress } = req.params;
+    
+    const debugInfo = await uniswapIntegrationService.debugUserPositions(userAddress);
+    res.json(debugInfo);
+  } catch (error) {
+    // Error debugging user positions
+    next(ErrorHandler.createServerError("Failed to debug user positions", error instanceof Error ? error.message : error));
+  }
+});
+
+// Test endpoint to check individual position data
+router.get("/positions/test/:tokenId", validateRequest({ params: tokenIdParamsSchema }), async (req, res, next) => {
+  try {
+    const { tokenId } = req.params;
+    
+    const position = await uniswapIntegrationService.getFullPositionData(tokenId);
+    res.json(position);
+  } catch (error) {
+    next(ErrorHandler.createServerError("Failed to get position data", error instanceof Error ? error.message : error));
+  }
+});
+
+// ===== REWARD CALCULATION VULNERABILITY DEMO ROUTES =====
+
+// Get detailed vulnerability report showing the fix
+router.get("/reward-demo/vulnerability-report", async (req, res, next) => {
+  try {
+    // Legacy demo functionality removed for production
+    const report = { message: "Demo functionality removed for production" };
+    
+    res.json({
+      success: true,
+      report,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    next(ErrorHandler.createServerError('Failed to generate vulnerability report', error instanceof Error ? error.message : error));
+  }
+});
+
+// Get detailed comparison of old vs new formula
+router.get("/reward-demo/comparison", async (req, res, next) => {
+  try {
+    // Legacy demo functionality removed for production
+    const comparisons: any[] = [];
+    
+    res.json({
+      success: true,
+      comparisons,
+      summary: {
+        totalScenarios: comparisons.length,
+        vulnerabilityFixed: true,
+        exploitationReduction: ">90%"
+      }
+    });
+  } catch (error) {
+    next(ErrorHandler.createServerError('Failed to generate comparison', error instanceof Error ? error.message : error));
+  }
+});
+
+// Comprehensive claim diagnostics endpoint
+router.get('/emergency/claim-diagnostics', async (req, res, next) => {
+  try {
+    const contractAddress = '0x09bcB93e7E2FF067232d83f5e7a7E8360A458175';
+    const kiltTokenAddress = '0x5D0DD05bB095fdD6Af4865A1AdF97c39C85ad2d8';
+    const testUserAddress = '0x5bF25Dc1BAf6A96C5A0F724E05EcF4D456c7652e';
+    const testClaimAmount = '709922670299727400000'; // 709.92 KILT in wei
+    
+    console.log('🔍 CLAIM DIAGNOSTICS: Starting comprehensive contract validation checks...');
+    
+    const diagnostics: {
+      timestamp: string;
+      contractAddress: string;
+      testUserAddress: string;
+      testClaimAmount: string;
+      checks: {
+        nonce?: { success: boolean; value?: string; error?: string };
+        absoluteMaxClaim?: { success: boolean; value?: string; valueInKilt?: string; testAmountExceedsLimit?: boolean; error?: string };
+        contractBalance?: { success: boolean; value?: string; valueInKilt?: string; sufficientForClaim?: boolean; error?: string };
+        calculatorAuth?: { success: boolean; calculatorAddress?: string; isAuthorized?: boolean; error?: string };
+        pausedStatus?: { success: boolean; isPaused?: boolean; error?: string };
+        walletVerification?: { success: boolean; actualAddress?: string; expectedAddress?: string; matches?: boolean; error?: string };
+        signatureTest?: { success: boolean; signatureGenerated?: boolean; gasEstimationWorking?: boolean; callResult?: string; error?: string; errorCode?: string; errorData?: string };
+      };
+    } = {
+      timestamp: new Date().toISOString(),
+      contractAddress,
+      testUserAddress,
+      testClaimAmount,
+      checks: {}
+    };
+    
+    // Get provider from smart contract service
+    const provider = smartContractService.getProvider();
+    
+    // Check 1: Contract nonce
+    try {
+      const { Interface } = await import('ethers');
+      const iface = new Interface(['function nonces(address user) view returns (uint256)']);
+      const data = iface.encodeFunctionData('nonces', [testUserAddress]);
+      
+      const result = await provider.call({
+        to: contractAddress,
+        data: data
+      });
+      
+      const nonce = iface.decodeFunctionResult('nonces', result)[0].toString();
+      diagnostics.checks.nonce = { success: true, value: nonce };
+      console.log('🔍 CHECK 1: User nonce =', nonce);
+    } catch (error) {
+      diagnostics.checks.nonce = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+    
+    // Check 2: Absolute maximum claim limit
+    try {
+      const { Interface } = await import('ethers');
+      const iface = new Interface(['function absoluteMaxClaim() view returns (uint256)']);
+      const data = iface.encodeFunctionData('absoluteMaxClaim', []);
+      
+      const result = await provider.call({
+        to: contractAddress,
+        data: data
+      });
+      
+      const absoluteMaxClaim = iface.decodeFunctionResult('absoluteMaxClaim', result)[0].toString();
+      diagnostics.checks.absoluteMaxClaim = { 
+        success: true, 
+        value: absoluteMaxClaim,
+        valueInKilt: (Number(absoluteMaxClaim) / 1e18).toString(),
+        testAmountExceedsLimit: BigInt(testClaimAmount) > BigInt(absoluteMaxClaim)
+      };
+      console.log('🔍 CHECK 2: Absolute max claim =', absoluteMaxClaim, 'wei (', (Number(absoluteMaxClaim) / 1e18), ' KILT)');
+      console.log('🔍 CHECK 2: Test amount exceeds limit:', BigInt(testClaimAmount) > BigInt(absoluteMaxClaim));
+    } catch (error) {
+      diagnostics.checks.absoluteMaxClaim = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+    
+    // Check 3: Contract KILT balance
+    try {
+      const { Interface } = await import('ethers');
+      const iface = new Interface(['function balanceOf(address account) view returns (uint256)']);
+      const data = iface.encodeFunctionData('balanceOf', [contractAddress]);
+      
+      const result = await provider.call({
+        to: kiltTokenAddress,
+        data: data
+      });
+      
+      const contractBalance = iface.decodeFunctionResult('balanceOf', result)[0].toString();
+      diagnostics.checks.contractBalance = { 
+        success: true, 
+        value: contractBalance,
+        valueInKilt: (Number(contractBalance) / 1e18).toString(),
+        sufficientForClaim: BigInt(contractBalance) >= BigInt(testClaimAmount)
+      };
+      console.log('🔍 CHECK 3: Contract KILT balance =', contractBalance, 'wei (', (Number(contractBalance) / 1e18), ' KILT)');
+      console.log('🔍 CHECK 3: Sufficient for claim:', BigInt(contractBalance) >= BigInt(testClaimAmount));
+    } catch (error) {
+      diagnostics.checks.contractBalance = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+    
+    // Check 4: Calculator authorization
+    try {
+      const calculatorAddress = '0x352c7eb64249334d8249f3486A664364013bEeA9';
+      const { Interface } = await import('ethers');
+      const iface = new Interface(['function authorizedCalculators(address calculator) view returns (bool)']);
+      const data = iface.encodeFunctionData('authorizedCalculators', [calculatorAddress]);
+      
+      const result = await provider.call({
+        to: contractAddress,
+        data: data
+      });
+      
+      const isAuthorized = iface.decodeFunctionResult('authorizedCalculators', result)[0];
+      diagnostics.checks.calculatorAuth = { 
+        success: true, 
+        calculatorAddress,
+        isAuthorized 
+      };
+      console.log('🔍 CHECK 4: Calculator authorization =', isAuthorized);
+    } catch (error) {
+      diagnostics.checks.calculatorAuth = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+    
+    // Check 5: Contract paused status
+    try {
+      const { Interface } = await import('ethers');
+      const iface = new Interface(['function paused() view returns (bool)']);
+      const data = iface.encodeFunctionData('paused', []);
+      
+      const result = await provider.call({
+        to: contractAddress,
+        data: data
+      });
+      
+      const isPaused = iface.decodeFunctionResult('paused', result)[0];
+      diagnostics.checks.pausedStatus = { success: true, isPaused };
+      console.log('🔍 CHECK 5: Contract paused =', isPaused);
+    } catch (error) {
+      diagnostics.checks.pausedStatus = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+    
+    // Check 6: Wallet address verification  
+    try {
+      console.log('🔍 CHECK 6: Verifying calculator wallet address...');
+      const walletAddress = smartContractService.getWalletAddress();
+      const expectedCalculatorAddress = '0x352c7eb64249334d8249f3486A664364013bEeA9';
+      console.log('🔍 CHECK 6.1: Actual wallet address:', walletAddress);
+      console.log('🔍 CHECK 6.2: Expected calculator address:', expectedCalculatorAddress);
+      const walletMatch = walletAddress?.toLowerCase() === expectedCalculatorAddress.toLowerCase();
+      console.log('🔍 CHECK 6.3: Wallet address matches expected:', walletMatch);
+      
+      diagnostics.checks.walletVerification = {
+        success: walletMatch,
+        actualAddress: walletAddress || undefined,
+        expectedAddress: expectedCalculatorAddress,
+        matches: walletMatch
+      };
+      
+      // Check 6.5: Direct signature generation test
+      console.log('🔍 CHECK 6.5: Testing signature generation...');
+      const signatureResult = await smartContractService.generateClaimSignature(testUserAddress, parseFloat((BigInt(testClaimAmount) / BigInt(10**18)).toString()));
+      
+      if (signatureResult.success) {
+        // Test the exact parameters that would be sent to the contract
+        console.log('🔍 CHECK 6: Testing gas estimation with real parameters...');
+        
+        const { Interface } = await import('ethers');
+        const claimInterface = new Interface([
+          'function claimRewards(uint256 totalRewardBalance, bytes signature)'
+        ]);
+        
+        const calldata = claimInterface.encodeFunctionData('claimRewards', [
+          testClaimAmount,
+          signatureResult.signature
+        ]);
+        
+        try {
+          const gasResult = await provider.call({
+            to: contractAddress,
+            data: calldata,
+            from: testUserAddress
+          });
+          
+          diagnostics.checks.signatureTest = {
+            success: true,
+            signatureGenerated: true,
+            gasEstimationWorking: true,
+            callResult: gasResult
+          };
+          console.log('🔍 CHECK 6 SUCCESS: Signature verification passed gas estimation');
+        } catch (gasError: any) {
+          diagnostics.checks.signatureTest = {
+            success: false,
+            signatureGenerated: true,
+            gasEstimationWorking: false,
+            error: gasError.message,
+            errorCode: gasError.code,
+            errorData: gasError.data
+          };
+          console.log('🔍 CHECK 6 FAILED: Gas estimation failed:', gasError.message);
+        }
+      } else {
+        diagnostics.checks.signatureTest = {
+          success: false,
+          signatureGenerated: false,
+          error: 'Failed to generate signature'
+        };
+      }
+    } catch (error) {
+      diagnostics.checks.signatureTest = { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown signature test error' 
+      };
+    }
+    
+    console.log('🔍 CLAIM DIAGNOSTICS COMPLETE');
+    res.json(diagnostics);
+  } catch (error) {
+    console.error('❌ CLAIM DIAGNOSTICS ERROR:', error);
+    next(ErrorHandler.createServerError('Claim diagnostics failed', error instanceof Error ? error.message : error));
+  }
+});
+
+// Emergency contract verification endpoint
+router.get('/emergency/verify-contract', async (req, res, next) => {
+  const contractAddress = '0x09bcB93e7E2FF067232d83f5e7a7E8360A458175';
+  const results: {
+    contractAddress: string;
+    timestamp: string;
+    checks: {
+      hasCode?: boolean;
+      codeLength?: number;
+      chainId?: number;
+      isBaseMainnet?: boolean;
+      rpcWorking?: boolean;
+      currentBlock?: number;
+      nonceCallSuccess?: boolean;
+      nonceValue?: string;
+      nonceCallError?: string;
+      nonceCallDetails?: {
+        code?: string;
+        reason?: string;
+        data?: string;
+      };
+      alternativeRpcResults?: Record<string, {
+        hasCode?: boolean;
+        codeLength?: number;
+        chainId?: number;
+        working: boolean;
+        error?: string;
+      }>;
+      criticalError?: string;
+    };
+  } = {
+    contractAddress,
+    timestamp: new Date().toISOString(),
+    checks: {}
+  };
+  
+  console.log('🚨 EMERGENCY CONTRACT VERIFICATION STARTING...');
+  
+  try {
+    // Get provider from smart contract service
+    const provider = smartContractService.getProvider();
+    
+    // Check 1: Contract exists
+    console.log('🔍 EMERGENCY CHECK 1: Checking contract bytecode...');
+    const code = await provider.getCode(contractAddress);
+    results.checks.hasCode = code !== '0x' && code.length > 2;
+    results.checks.codeLength = code.length;
+    console.log('🔍 EMERGENCY CHECK 1 RESULT: Has code:', results.checks.hasCode, 'Length:', code.length);
+    
+    // Check 2: Network confirmation  
+    console.log('🔍 EMERGENCY CHECK 2: Verifying network...');
+    const network = await provider.getNetwork();
+    results.checks.chainId = Number(network.chainId);
+    results.checks.isBaseMainnet = Number(network.chainId) === 8453;
+    console.log('🔍 EMERGENCY CHECK 2 RESULT: Chain ID:', results.checks.chainId, 'Is Base:', results.checks.isBaseMainnet);
+    
+    // Check 3: RPC endpoint test
+    console.log('🔍 EMERGENCY CHECK 3: Testing RPC endpoints...');
+    const blockNumber = await provider.getBlockNumber();
+    results.checks.rpcWorking = blockNumber > 0;
+    results.checks.currentBlock = blockNumber;
+    console.log('🔍 EMERGENCY CHECK 3 RESULT: RPC working:', results.checks.rpcWorking, 'Block:', blockNumber);
+    
+    // Check 4: Try basic nonce function call if contract exists
+    if (results.checks.hasCode) {
+      console.log('🔍 EMERGENCY CHECK 4: Testing nonces function directly...');
+      try {
+        const { Interface } = await import('ethers');
+        const iface = new Interface(['function nonces(address) view returns (uint256)']);
+        const data = iface.encodeFunctionData('nonces', ['0x5bF25Dc1BAf6A96C5A0F724E05EcF4D456c7652e']);
+        
+        const result = await provider.call({
+          to: contractAddress,
+          data: data
+        });
+        
+        results.checks.nonceCallSuccess = true;
+        results.checks.nonceValue = iface.decodeFunctionResult('nonces', result)[0].toString();
+        console.log('✅ EMERGENCY CHECK 4 SUCCESS: Nonce value:', results.checks.nonceValue);
+      } catch (callError: unknown) {
+        results.checks.nonceCallSuccess = false;
+        results.checks.nonceCallError = callError instanceof Error ? callError.message : 'Unknown error';
+        if (callError instanceof Error && 'code' in callError) {
+          results.checks.nonceCallDetails = {
+            code: String((callError as any).code),
+            reason: String((callError as any).reason),
+            data: String((callError as any).data)
+          };
+        }
+        console.error('❌ EMERGENCY CHECK 4 FAILED:', callError instanceof Error ? callError.message : 'Unknown error');
+      }
+    } else {
+      results.checks.nonceCallSuccess = false;
+      results.checks.nonceCallError = 'Contract has no bytecode';
+      console.error('❌ EMERGENCY CHECK 4 SKIPPED: No contract bytecode found');
+    }
+    
+    // Check 5: Test with alternative RPC endpoints
+    console.log('🔍 EMERGENCY CHECK 5: Testing alternative RPC endpoints...');
+    const alternativeEndpoints = [
+      'https://mainnet.base.org',
+      'https://base.llamarpc.com',
+      'https://base.drpc.org'
+    ];
+    
+    results.checks.alternativeRpcResults = {};
+    
+    for (const endpoint of alternativeEndpoints) {
+      try {
+        const { JsonRpcProvider } = await import('ethers');
+        const altProvider = new JsonRpcProvider(endpoint);
+        const altCode = await altProvider.getCode(contractAddress);
+        const altNetwork = await altProvider.getNetwork();
+        
+        results.checks.alternativeRpcResults[endpoint] = {
+          hasCode: altCode !== '0x' && altCode.length > 2,
+          codeLength: altCode.length,
+          chainId: Number(altNetwork.chainId),
+          working: true
+        };
+        
+        console.log(`✅ EMERGENCY CHECK 5: ${endpoint} - Has code:`, altCode !== '0x');
+      } catch (error: unknown) {
+        results.checks.alternativeRpcResults[endpoint] = {
+          working: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+        console.error(`❌ EMERGENCY CHECK 5: ${endpoint} failed:`, error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+    
+    console.log('🚨 EMERGENCY CONTRACT VERIFICATION COMPLETE');
+    res.json(results);
+    
+  } catch (error: unknown) {
+    console.error('🚨 EMERGENCY VERIFICATION CRITICAL ERROR:', error);
+    results.checks.criticalError = error instanceof Error ? error.message : 'Unknown error';
+    next(ErrorHandler.createServerError('Contract verification failed', results));
+  }
+});
+
+// Comprehensive smart contract debugging endpoint
+router.get('/debug/smart-contract-status/:userAddress', validateRequest({ params: userAddressParamsSchema }), async (req, res, next) => {
+  try {
+    const { userAddress } = req.params;
+    
+    console.log('🏁 ============ SMART CONTRACT DEBUG STATUS ============');
+    console.log('🔍 DEBUG LOG 1: Smart contract status check for:', userAddress);
+    
+    // Get contract deployment status
+    const isDeployed = smartContractService.isDeployed();
+    console.log('🔍 DEBUG LOG 2: Contract deployed:', isDeployed);
+    
+    if (!isDeployed) {
+      return res.json({
+        contractDeployed: false,
+        error: 'Smart contracts not deployed'
+      });
+    }
+    
+    // Get contract addresses
+    const calculatorAddress = smartContractService.getCalculatorAddress();
+    console.log('🔍 DEBUG LOG 3: Calculator address:', calculatorAddress);
+    
+    // Get contract configuration
+    const contractInfo = await smartContractService.getProgramInfo();
+    console.log('🔍 DEBUG LOG 4: Contract info:', JSON.stringify(contractInfo, null, 2));
+    
+    // Get balance information
+    const balanceInfo = await smartContractService.checkRewardWalletBalance();
+    console.log('🔍 DEBUG LOG 5: Balance info:', JSON.stringify(balanceInfo, null, 2));
+    
+    // Get user's claimable rewards from backend
+    const user = await storage.getUserByAddress(userAddress);
+    let rewardStats = null;
+    if (user) {
+      const userRewards = await unifiedRewardService.getUserRewardStats(user.id);
+      rewardStats = {
+        totalClaimable: userRewards.totalClaimable,
+        totalAccumulated: userRewards.totalAccumulated,
+        totalClaimed: userRewards.totalClaimed,
+        activePositions: userRewards.activePositions
+      };
+      console.log('🔍 DEBUG LOG 6: User reward stats:', JSON.stringify(rewardStats, null, 2));
+    }
+    
+    // Test signature generation
+    let signatureTest = null;
+    if (user && rewardStats && rewardStats.totalClaimable > 0) {
+      console.log('🔍 DEBUG LOG 7: Testing signature generation...');
+      signatureTest = await smartContractService.generateClaimSignature(userAddress, rewardStats.totalClaimable);
+      console.log('🔍 DEBUG LOG 8: Signature test result:', JSON.stringify(signatureTest, null, 2));
+    }
+    
+    const debugReport = {
+      timestamp: new Date().toISOString(),
+      userAddress,
+      contractDeployed: true,
+      calculatorAddress,
+      contractInfo,
+      balanceInfo,
+      userFound: !!user,
+      userId: user?.id || null,
+      rewardStats,
+      signatureTest: signatureTest ? {
+        success: signatureTest.success,
+        error: signatureTest.error,
+        hasSignature: !!signatureTest.signature,
+        signatureLength: signatureTest.signature?.length,
+        nonce: signatureTest.nonce
+      } : null,
+      abiStructure: {
+        contractAddress: '0x09bcB93e7E2FF067232d83f5e7a7E8360A458175',
+        claimFunction: 'claimRewards(address user, uint256 amount, uint256 nonce, bytes signature)',
+        distributeFunction: 'distributeReward(address user, uint256 amount)',
+        nonceFunction: 'nonces(address user) returns (uint256)',
+        getUserStatsFunction: 'getUserStats(address user) returns (uint256, uint256, uint256, uint256)'
+      }
+    };
+    
+    console.log('🏁 ============ SMART CONTRACT DEBUG COMPLETE ============');
+    res.json(debugReport);
+    
+  } catch (error) {
+    console.error('Smart contract debug failed:', error);
+    next(ErrorHandler.createServerError('Debug failed', error instanceof Error ? error.message : String(error)));
+  }
+});
+
+export default router;
@@ -1,27 +1,22 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { SmartContractService } from '../smart-contract-service';
+import { requireAdminPermission } from '../admin-auth-service';
+import { ErrorHandler } from '../error-handler';
+import { ethereumAddressSchema, userAddressParamsSchema, validateRequest } from './validation';
 
 const router = Router();
 const contractService = new SmartContractService();
 
-// Enhanced signature generation endpoint
+// Enhanced signature generation endpoint - the amount comes from the user's calculated rewards
 const generateSignatureSchema = z.object({
-  userAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address'),
-  amount: z.number().positive('Amount must be positive')
+  userAddress: ethereumAddressSchema
 });
 
-router.post('/generate-claim-signature', async (req, res) => {
+router.post('/generate-claim-signature', validateRequest({ body: generateSignatureSchema }), async (req, res, next) => {
   try {
     const { userAddress } = req.body;
     
-    if (!userAddress) {
-      return res.status(400).json({
-        success: false,
-        error: 'User address is required'
-      });
-    }
-    
     // Get user's calculated rewards from the reward service
     const { db } = await import('../db');
     const { users } = await import('../../shared/schema');
@@ -29,25 +24,24 @@ router.post('/generate-claim-signature', async (req, res) => {
     const user = await db.select().from(users).where(eq(users.address, userAddress)).limit(1);
     
     if (user.length === 0) {
-      return res.status(404).json({
-        success: false,
-        error: 'User not found or no liquidity positions'
-      });
+      return next(ErrorHandler.createNotFoundError('User not found or no liquidity positions'));
     }
     
     const userId = user[0].id;
     
-    // Import reward service and get user's calculated rewards
+    const { merkleDistributionService } = await import('../merkle-distribution-service');
+    if ((await merkleDistributionService.getClaimMode()) === 'merkle') {
+      return next(ErrorHandler.createConflictError('KILT rewards are claimed from the Merkle pool - use /api/rewards/proof/:address', 'MERKLE_CLAIM_MODE'));
+    }
+    
+    // Import reward service and get user's calculated rewards, less anything reserved for Merkle claims
     const { unifiedRewardService } = await import('../unified-reward-service');
     const userRewards = await unifiedRewardService.getUserRewardStats(userId);
     
-    const claimableAmount = userRewards.totalClaimable || 0;
+    const claimableAmount = await merkleDistributionService.getSignatureClaimable(userAddress, userRewards.totalClaimable || 0);
     
     if (claimableAmount <= 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'No rewards available for claiming. Start providing liquidity to earn KILT rewards.'
-      });
+      return next(ErrorHandler.createValidationError('No rewards available for claiming. Start providing liquidity to earn KILT rewards.'));
     }
     
     console.log(`🔐 Generating secure signature for ${userAddress}: ${claimableAmount} KILT (from calculated rewards)`);
@@ -55,10 +49,7 @@ router.post('/generate-claim-signature', async (req, res) => {
     const result = await contractService.generateClaimSignature(userAddress, claimableAmount);
     
     if ('error' in result) {
-      return res.status(400).json({
-        success: false,
-        error: result.error
-      });
+      return next(ErrorHandler.createValidationError(result.error || 'Signature generation failed'));
     }
     
     res.json({
@@ -70,29 +61,18 @@ router.post('/generate-claim-signature', async (req, res) => {
     });
   } catch (error: unknown) {
     console.error('Enhanced signature generation failed:', error);
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Signature generation failed'
-    });
+    next(ErrorHandler.createServerError('Signature generation failed', error instanceof Error ? error.message : error));
   }
 });
 
-// Calculator authorization management
+// Calculator authorization management - admin session (mounted in routes.ts) plus treasury:write
 const calculatorAuthSchema = z.object({
-  calculatorAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid calculator address')
+  calculatorAddress: ethereumAddressSchema
 });
 
-router.post('/set-pending-calculator', async (req, res) => {
-  // Validate request body
-  const validation = calculatorAuthSchema.safeParse(req.body);
-  if (!validation.success) {
-    return res.status(400).json({
-      success: false,
-      error: 'Invalid calculator address'
-    });
-  }
+router.post('/set-pending-calculator', requireAdminPermission('treasury:write'), validateRequest({ body: calculatorAuthSchema }), async (req, res, next) => {
   try {
-    const { calculatorAddress } = validation.data;
+    const { calculatorAddress } = req.body;
     
     console.log(`🔐 Setting pending calculator: ${calculatorAddress}`);
     
@@ -101,24 +81,13 @@ router.post('/set-pending-calculator', async (req, res) => {
     res.json(result);
   } catch (error: unknown) {
     console.error('Set pending calculator failed:', error);
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to set pending calculator'
-    });
+    next(ErrorHandler.createServerError('Failed to set pending calculator', error instanceof Error ? error.message : error));
   }
 });
 
-router.post('/activate-calculator', async (req, res) => {
-  // Validate request body
-  const validation = calculatorAuthSchema.safeParse(req.body);
-  if (!validation.success) {
-    return res.status(400).json({
-      success: false,
-      error: 'Invalid calculator address'
-    });
-  }
+router.post('/activate-calculator', requireAdminPermission('treasury:write'), validateRequest({ body: calculatorAuthSchema }), async (req, res, next) => {
   try {
-    const { calculatorAddress } = validation.data;
+    const { calculatorAddress } = req.body;
     
     console.log(`🔐 Activating calculator: ${calculatorAddress}`);
     
@@ -127,25 +96,15 @@ router.post('/activate-calculator', async (req, res) => {
     res.json(result);
   } catch (error: unknown) {
     console.error('Activate calculator failed:', error);
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to activate calculator'
-    });
+    next(ErrorHandler.createServerError('Failed to activate calculator', error instanceof Error ? error.message : error));
   }
 });
 
 // Security status endpoints
-router.get('/user-security-status/:userAddress', async (req, res) => {
+router.get('/user-security-status/:userAddress', validateRequest({ params: userAddressParamsSchema }), async (req, res, next) => {
   try {
     const { userAddress } = req.params;
     
-    if (!userAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid Ethereum address'
-      });
-    }
-    
     // This would typically call contract methods to get security status
     // For now, return a placeholder response
     res.json({
@@ -158,10 +117,7 @@ router.get('/user-security-status/:userAddress', async (req, res) => {
     });
   } catch (error: unknown) {
     console.error('Get user security status failed:', error);
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to get security status'
-    });
+    next(ErrorHandler.createServerError('Failed to get security status', error instanceof Error ? error.message : error));
   }
 });
 
@@ -0,0 +1,63 @@
+/**
+ * Helpers shared by the domain routers in this directory.
+ */
+
+import { storage } from "../storage";
+import { adminAuditService } from "../admin-audit-service";
+import { isEnabledChain } from "../chain-registry";
+
+// Helper function to get smart contract address from database - Single Source of Truth
+export async function getSmartContractAddress(): Promise<string> {
+  try {
+    const config = await storage.getTreasuryConfig();
+    if (!config?.smartContractAddress) {
+      throw new Error('Smart contract address not configured in database');
+    }
+    return config.smartContractAddress;
+  } catch (error) {
+    console.error('Failed to get smart contract address from database:', error);
+    throw error;
+  }
+}
+
+// Helper function to log admin operations
+export async function logAdminOperation(
+  operationType: string,
+  reason: string,
+  performedBy: string,
+  amount?: string,
+  transactionHash?: string,
+  success: boolean = true,
+  errorMessage?: string,
+  snapshots?: { before?: unknown; after?: unknown }
+) {
+  try {
+    await adminAuditService.record({
+      operationType,
+      reason,
+      performedBy,
+      amount,
+      transactionHash,
+      success,
+      errorMessage,
+      before: snapshots?.before,
+      after: snapshots?.after
+    });
+  } catch (error: unknown) {
+    console.error('Failed to log admin operation:', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// Optional ?programId= - undefined when absent, null when malformed
+export function parseProgramId(value: unknown): number | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  const id = parseInt(String(value), 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// Optional ?chainId= - undefined when absent (default chain), null when not an enabled chain
+export function parseChainId(value: unknown): number | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  const chainId = parseInt(String(value), 10);
+  return isEnabledChain(chainId) ? chainId : null;
+}
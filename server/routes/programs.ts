@@ -0,0 +1,66 @@
+/**
+ * Incentive programs and supported chains.
+ * Mounted at /api.
+ */
+
+import { Router } from "express";
+import { storage } from "../storage";
+import { getPublicChainInfo } from "../chain-registry";
+import { incentiveProgramService } from "../incentive-program-service";
+import { ErrorHandler } from "../error-handler";
+import { idParamsSchema, validateRequest } from "./validation";
+
+const router = Router();
+
+// Timestamp of the latest admin operation - public so the dashboard can refresh after admin changes
+router.get("/program/last-update", async (req, res, next) => {
+  try {
+    const { operations: [latest] } = await storage.getAdminOperations({}, 1);
+    res.json({ lastUpdatedAt: latest ? latest.timestamp.toISOString() : null });
+  } catch (error) {
+    console.error('Failed to get last program update:', error);
+    next(ErrorHandler.createServerError('Failed to get last program update', error instanceof Error ? error.message : error));
+  }
+});
+
+// ===== CHAINS =====
+
+// Enabled chains with their Uniswap V3 deployment, WETH and treasury contract
+router.get("/chains", (req, res) => {
+  res.json(getPublicChainInfo());
+});
+
+// ===== INCENTIVE PROGRAMS =====
+
+// Active programs with their resolved budget, dates and registered position counts
+router.get("/programs", async (req, res, next) => {
+  try {
+    const [programs, counts] = await Promise.all([
+      incentiveProgramService.listPrograms(),
+      incentiveProgramService.getPositionCounts()
+    ]);
+    res.json(programs.map(program => ({
+      ...program,
+      registeredPositions: counts.get(program.id)?.positions ?? 0,
+      registeredUsers: counts.get(program.id)?.users ?? 0
+    })));
+  } catch (error) {
+    console.error('Failed to list incentive programs:', error);
+    next(ErrorHandler.createServerError('Failed to list incentive programs', error instanceof Error ? error.message : error));
+  }
+});
+
+router.get("/programs/:id", validateRequest({ params: idParamsSchema }), async (req, res, next) => {
+  try {
+    const program = await incentiveProgramService.getProgram(Number(req.params.id));
+    if (!program) {
+      return next(ErrorHandler.createNotFoundError('Incentive program not found'));
+    }
+    res.json(program);
+  } catch (error) {
+    console.error('Failed to get incentive program:', error);
+    next(ErrorHandler.createServerError('Failed to get incentive program', error instanceof Error ? error.message : error));
+  }
+});
+
+export default router;
@@ -0,0 +1,312 @@
+/**
+ * Public API v1 - versioned, read-only endpoints for partners and analytics.
+ * Every endpoint except the OpenAPI document needs an API key (X-API-Key) and is rate limited
+ * per key. Responses are parsed against the schemas in shared/public-api.ts before they are
+ * sent, so their shape only changes with a new API version.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { desc, eq, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { storage } from '../storage';
+import { lpPositions, users } from '../../shared/schema';
+import {
+  PUBLIC_API_VERSION,
+  publicAprSchema,
+  publicErrorSchema,
+  publicPoolMetricsSchema,
+  publicPositionSchema,
+  publicProgramSchema,
+  publicProgramStatsSchema,
+  publicResponseSchema,
+  publicUserRewardsSchema
+} from '../../shared/public-api';
+import { requireApiKey } from '../api-key-service';
+import { apiKeyRateLimit } from '../security-middleware';
+import { buildOpenApiDocument, type OpenApiOperation, type OpenApiParameter } from '../openapi';
+import { incentiveProgramService, type ResolvedIncentiveProgram } from '../incentive-program-service';
+import { unifiedRewardService } from '../unified-reward-service';
+import { poolTickSampler } from '../pool-tick-sampler';
+import { SingleSourceAPR } from '../single-source-apr';
+import { DEFAULT_CHAIN_ID, isEnabledChain } from '../chain-registry';
+
+type PublicResult = { data: unknown } | { status: number; error: string; code: string };
+
+interface PublicEndpoint extends Omit<OpenApiOperation, 'method' | 'path' | 'authenticated'> {
+  handler: (req: Request) => Promise<PublicResult>;
+}
+
+const router = Router();
+const operations: OpenApiOperation[] = [];
+const singleSourceAPR = new SingleSourceAPR(storage);
+
+const addressPattern = /^0x[a-fA-F0-9]{40}$/;
+
+const programIdParameter: OpenApiParameter = { name: 'id', in: 'path', description: 'Incentive program ID', schema: z.number().int() };
+const addressParameter: OpenApiParameter = { name: 'address', in: 'path', description: 'Wallet address', schema: z.string() };
+
+function failure(status: number, code: string, error: string): PublicResult {
+  return { status, error, code };
+}
+
+function parsePositiveInt(value: unknown): number | null {
+  const parsed = parseInt(String(value), 10);
+  return Number.isInteger(parsed) && parsed > 0 && String(parsed) === String(value) ? parsed : null;
+}
+
+/**
+ * Register an authenticated GET endpoint and document it. The handler's data is serialized,
+ * then parsed against the response schema - a mismatch is a server error, never a silent
+ * shape change.
+ */
+function publicGet(path: string, endpoint: PublicEndpoint) {
+  const { handler, ...operation } = endpoint;
+  const envelope = publicResponseSchema(operation.response);
+  operations.push({ ...operation, path, method: 'get', response: envelope, authenticated: true });
+
+  router.get(path, requireApiKey, apiKeyRateLimit, async (req: Request, res: Response) => {
+    try {
+      const result = await handler(req);
+      if ('error' in result) {
+        return res.status(result.status).json({ error: result.error, code: result.code });
+      }
+
+      const parsed = envelope.safeParse({ apiVersion: PUBLIC_API_VERSION, data: JSON.parse(JSON.stringify(result.data)) });
+      if (!parsed.success) {
+        console.error(`❌ PUBLIC API: ${path} response does not match its schema:`, parsed.error.issues.slice(0, 5));
+        return res.status(500).json({ error: 'Response failed validation', code: 'RESPONSE_SCHEMA_MISMATCH' });
+      }
+      res.json(parsed.data);
+    } catch (error) {
+      console.error(`❌ PUBLIC API: ${path} failed:`, error);
+      res.status(500).json({ error: 'Internal server error', code: 'SYSTEM_ERROR' });
+    }
+  });
+}
+
+async function withPositionCounts(programs: ResolvedIncentiveProgram[]) {
+  const counts = await incentiveProgramService.getPositionCounts();
+  return programs.map(program => ({
+    ...program,
+    activePositions: counts.get(program.id)?.positions ?? 0,
+    uniqueUsers: counts.get(program.id)?.users ?? 0
+  }));
+}
+
+async function findUserId(address: string): Promise<number | null> {
+  const [user] = await db.select({ id: users.id }).from(users)
+    .where(sql`lower(${users.address}) = ${address.toLowerCase()}`)
+    .limit(1);
+  return user?.id ?? null;
+}
+
+// ===== DOCUMENTATION =====
+
+router.get('/openapi.json', (req, res) => {
+  res.json(buildOpenApiDocument(operations, {
+    title: 'KILT Liquidity Portal API',
+    version: PUBLIC_API_VERSION,
+    description: 'Read-only program, pool, APR and wallet reward data. Send your API key in the X-API-Key header. '
+      + 'Rate limits are per key and reported in the RateLimit headers.',
+    serverUrl: '/v1',
+    errorSchema: publicErrorSchema
+  }));
+});
+
+// ===== PROGRAMS =====
+
+publicGet('/programs', {
+  summary: 'List incentive programs',
+  tags: ['Programs'],
+  parameters: [{ name: 'includeInactive', in: 'query', description: 'Include ended and disabled programs', schema: z.boolean() }],
+  response: z.array(publicProgramSchema),
+  handler: async (req) => {
+    const programs = await incentiveProgramService.listPrograms({ includeInactive: req.query.includeInactive === 'true' });
+    return { data: await withPositionCounts(programs) };
+  }
+});
+
+publicGet('/programs/:id', {
+  summary: 'Get an incentive program',
+  tags: ['Programs'],
+  parameters: [programIdParameter],
+  response: publicProgramSchema,
+  handler: async (req) => {
+    const id = parsePositiveInt(req.params.id);
+    if (id === null) return failure(400, 'INVALID_PROGRAM_ID', 'Program ID must be a positive integer');
+
+    const program = await incentiveProgramService.getProgram(id);
+    if (!program) return failure(404, 'PROGRAM_NOT_FOUND', `Program ${id} not found`);
+
+    const [withCounts] = await withPositionCounts([program]);
+    return { data: withCounts };
+  }
+});
+
+publicGet('/programs/:id/stats', {
+  summary: 'Program liquidity, participation and budget statistics',
+  tags: ['Programs'],
+  parameters: [programIdParameter],
+  response: publicProgramStatsSchema,
+  handler: async (req) => {
+    const id = parsePositiveInt(req.params.id);
+    if (id === null) return failure(400, 'INVALID_PROGRAM_ID', 'Program ID must be a positive integer');
+    if (!await incentiveProgramService.getProgram(id)) return failure(404, 'PROGRAM_NOT_FOUND', `Program ${id} not found`);
+
+    const analytics = await unifiedRewardService.getProgramAnalytics(id);
+    return {
+      data: {
+        programId: analytics.programId,
+        programName: analytics.programName,
+        poolAddress: analytics.poolAddress,
+        totalLiquidity: analytics.totalLiquidity,
+        activeLiquidityProviders: analytics.activeLiquidityProviders,
+        totalPositions: analytics.totalPositions ?? 0,
+        averagePositionSize: analytics.averagePositionSize ?? 0,
+        dailyEmissionRate: analytics.dailyEmissionRate,
+        programAPR: analytics.programAPR,
+        treasuryTotal: analytics.treasuryTotal ?? 0,
+        treasuryRemaining: analytics.treasuryRemaining ?? 0,
+        totalDistributed: analytics.totalDistributed ?? analytics.totalRewardsDistributed,
+        programDuration: analytics.programDuration ?? 0,
+        daysRemaining: analytics.daysRemaining ?? 0
+      }
+    };
+  }
+});
+
+// ===== POOLS =====
+
+publicGet('/pools/:poolAddress/metrics', {
+  summary: 'Pool TVL, 24h volume and fees, and the latest sampled price',
+  description: 'Metrics for the pool\'s current incentive program (or its most recent one).',
+  tags: ['Pools'],
+  parameters: [
+    { name: 'poolAddress', in: 'path', description: 'Uniswap V3 pool address', schema: z.string() },
+    { name: 'chainId', in: 'query', description: `Chain ID (default ${DEFAULT_CHAIN_ID})`, schema: z.number().int() }
+  ],
+  response: publicPoolMetricsSchema,
+  handler: async (req) => {
+    const { poolAddress } = req.params;
+    if (!addressPattern.test(poolAddress)) return failure(400, 'INVALID_ADDRESS', 'Invalid pool address');
+
+    const chainId = req.query.chainId === undefined ? DEFAULT_CHAIN_ID : parsePositiveInt(req.query.chainId);
+    if (chainId === null || !isEnabledChain(chainId)) return failure(400, 'INVALID_CHAIN', 'Unsupported chainId');
+
+    const program = await incentiveProgramService.matchProgram(poolAddress, new Date(), chainId)
+      ?? (await incentiveProgramService.listPrograms({ includeInactive: true }))
+        .filter(candidate => candidate.chainId === chainId && candidate.poolAddress.toLowerCase() === poolAddress.toLowerCase())
+        .pop();
+    if (!program) return failure(404, 'POOL_NOT_FOUND', 'No incentive program covers this pool');
+
+    const [analytics, latestTick] = await Promise.all([
+      unifiedRewardService.getProgramAnalytics(program.id),
+      poolTickSampler.getLatestSample(poolAddress)
+    ]);
+    return {
+      data: {
+        poolAddress: program.poolAddress,
+        chainId: program.chainId,
+        programId: program.id,
+        feeTier: program.feeTier,
+        tvlUSD: analytics.totalLiquidity,
+        volume24hUSD: analytics.poolVolume24h ?? 0,
+        feeEarnings24hUSD: analytics.poolFeeEarnings24h ?? 0,
+        activeLiquidityProviders: analytics.activeLiquidityProviders,
+        totalPositions: analytics.totalPositions ?? 0,
+        latestTick
+      }
+    };
+  }
+});
+
+// ===== APR =====
+
+publicGet('/apr', {
+  summary: 'Program reward and trading fee APR',
+  tags: ['APR'],
+  parameters: [{ name: 'programId', in: 'query', description: 'Incentive program ID (default: the primary program)', schema: z.number().int() }],
+  response: publicAprSchema,
+  handler: async (req) => {
+    let programId: number | undefined;
+    if (req.query.programId !== undefined) {
+      const parsed = parsePositiveInt(req.query.programId);
+      if (parsed === null) return failure(400, 'INVALID_PROGRAM_ID', 'Program ID must be a positive integer');
+      if (!await incentiveProgramService.getProgram(parsed)) return failure(404, 'PROGRAM_NOT_FOUND', `Program ${parsed} not found`);
+      programId = parsed;
+    }
+
+    const apr = await singleSourceAPR.getProgramAPR(programId);
+    return {
+      data: {
+        programId: apr.programId,
+        programAPR: apr.programAPR,
+        tradingAPR: apr.tradingAPR,
+        totalProgramAPR: apr.totalProgramAPR,
+        maxTheoreticalAPR: apr.maxTheoreticalAPR,
+        totalParticipants: apr.totalParticipants,
+        totalProgramTVL: apr.totalProgramTVL,
+        calculatedAt: new Date(apr.timestamp).toISOString()
+      }
+    };
+  }
+});
+
+// ===== USERS =====
+
+publicGet('/users/:address/positions', {
+  summary: 'Positions a wallet registered in the app',
+  tags: ['Users'],
+  parameters: [addressParameter],
+  response: z.array(publicPositionSchema),
+  handler: async (req) => {
+    const { address } = req.params;
+    if (!addressPattern.test(address)) return failure(400, 'INVALID_ADDRESS', 'Invalid wallet address');
+
+    const userId = await findUserId(address);
+    if (userId === null) return { data: [] };
+
+    const positions = await db.select().from(lpPositions)
+      .where(eq(lpPositions.userId, userId))
+      .orderBy(desc(lpPositions.createdAt));
+    return { data: positions };
+  }
+});
+
+publicGet('/users/:address/rewards', {
+  summary: 'A wallet\'s accrued, claimed and claimable rewards',
+  tags: ['Users'],
+  parameters: [addressParameter],
+  response: publicUserRewardsSchema,
+  handler: async (req) => {
+    const { address } = req.params;
+    if (!addressPattern.test(address)) return failure(400, 'INVALID_ADDRESS', 'Invalid wallet address');
+
+    const userId = await findUserId(address);
+    if (userId === null) {
+      return {
+        data: {
+          address: address.toLowerCase(),
+          totalAccumulated: 0,
+          totalClaimable: 0,
+          totalClaimed: 0,
+          avgDailyRewards: 0,
+          activePositions: 0,
+          tokens: [],
+          positions: []
+        }
+      };
+    }
+
+    const stats = await unifiedRewardService.getUserRewardStats(userId);
+    return { data: { address: address.toLowerCase(), ...stats } };
+  }
+});
+
+// Unknown /v1 paths get a JSON 404 rather than the SPA fallback
+router.use((req, res) => {
+  res.status(404).json({ error: `No ${req.method} ${req.baseUrl}${req.path} endpoint in API ${PUBLIC_API_VERSION}`, code: 'NOT_FOUND' });
+});
+
+export default router;
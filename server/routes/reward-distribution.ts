@@ -1,73 +1,80 @@
 import { Router } from 'express';
+import { z } from 'zod';
 import { rewardDistributionService } from '../reward-distribution-service';
+import { requireAdminPermission } from '../admin-auth-service';
+import { ErrorHandler } from '../error-handler';
+import { ethereumAddressSchema, validateRequest } from './validation';
 
 const router = Router();
 
+const distributeSchema = z.object({
+  recipients: z.array(z.object({
+    userAddress: ethereumAddressSchema,
+    amount: z.string().regex(/^\d+(\.\d+)?$/, 'Amount must be a decimal string'),
+    nftTokenId: z.string().min(1),
+    reason: z.string()
+  }), { message: 'Recipients array is required' })
+});
+
 // Get treasury balance for distribution
-router.get('/treasury/balance', async (req, res) => {
+router.get('/treasury/balance', requireAdminPermission('admin:read'), async (req, res, next) => {
   try {
     const balance = await rewardDistributionService.getTreasuryBalance();
     res.json({ balance });
   } catch (error: unknown) {
     console.error('Treasury balance error:', error instanceof Error ? error.message : 'Unknown error');
-    res.status(500).json({ error: 'Failed to get treasury balance' });
+    next(ErrorHandler.createServerError('Failed to get treasury balance', error instanceof Error ? error.message : error));
   }
 });
 
 // Get eligible users for reward distribution
-router.get('/eligible-users', async (req, res) => {
+router.get('/eligible-users', async (req, res, next) => {
   try {
     const eligibleUsers = await rewardDistributionService.getEligibleUsers();
     res.json({ eligibleUsers });
   } catch (error: unknown) {
     console.error('Eligible users error:', error instanceof Error ? error.message : 'Unknown error');
-    res.status(500).json({ error: 'Failed to get eligible users' });
+    next(ErrorHandler.createServerError('Failed to get eligible users', error instanceof Error ? error.message : error));
   }
 });
 
 // Distribute rewards to selected users
-router.post('/distribute', async (req, res) => {
+router.post('/distribute', requireAdminPermission('rewards:distribute'), validateRequest({ body: distributeSchema }), async (req, res, next) => {
   try {
     const { recipients } = req.body;
-    
-    if (!recipients || !Array.isArray(recipients)) {
-      return res.status(400).json({ error: 'Recipients array is required' });
-    }
-
     const result = await rewardDistributionService.distributeRewards(recipients);
     res.json(result);
   } catch (error: unknown) {
     console.error('Distribute rewards error:', error instanceof Error ? error.message : 'Unknown error');
-    res.status(500).json({ error: 'Failed to distribute rewards' });
+    next(ErrorHandler.createServerError('Failed to distribute rewards', error instanceof Error ? error.message : error));
   }
 });
 
 // Daily automated distribution
-router.post('/daily-distribution', async (req, res) => {
+router.post('/daily-distribution', requireAdminPermission('rewards:distribute'), async (req, res, next) => {
   try {
     const result = await rewardDistributionService.processDailyDistribution();
     res.json(result);
   } catch (error: unknown) {
     console.error('Daily distribution error:', error instanceof Error ? error.message : 'Unknown error');
-    res.status(500).json({ error: 'Failed to perform daily distribution' });
+    next(ErrorHandler.createServerError('Failed to perform daily distribution', error instanceof Error ? error.message : error));
   }
 });
 
 // Get distribution history
-router.get('/history', async (req, res) => {
+router.get('/history', async (req, res, next) => {
   try {
-    const { page = 1, limit = 50 } = req.query;
     // Distribution history placeholder - implement as needed
     const history: any[] = [];
     res.json(history);
   } catch (error: unknown) {
     console.error('Distribution history error:', error instanceof Error ? error.message : 'Unknown error');
-    res.status(500).json({ error: 'Failed to get distribution history' });
+    next(ErrorHandler.createServerError('Failed to get distribution history', error instanceof Error ? error.message : error));
   }
 });
 
 // Get distribution statistics
-router.get('/stats', async (req, res) => {
+router.get('/stats', async (req, res, next) => {
   try {
     // Return fresh application stats after database cleanup
     const stats = {
@@ -79,7 +86,7 @@ router.get('/stats', async (req, res) => {
     res.json(stats);
   } catch (error: unknown) {
     console.error('Distribution statistics error:', error instanceof Error ? error.message : 'Unknown error');
-    res.status(500).json({ error: 'Failed to get distribution statistics' });
+    next(ErrorHandler.createServerError('Failed to get distribution statistics', error instanceof Error ? error.message : error));
   }
 });
 
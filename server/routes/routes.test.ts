@@ -0,0 +1,435 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import express, { Router } from "express";
+import request from "supertest";
+import { z } from "zod";
+
+// db.ts refuses to load without a URL - nothing below opens a connection
+vi.hoisted(() => {
+  process.env.DATABASE_URL ??= "postgres://test@localhost:1/test";
+});
+
+import type { AdminSession, ApiKey } from "@shared/schema";
+import { storage } from "../storage";
+import { enhancedErrorHandler } from "../error-handler";
+import { adminAuthService, requireAdminSession } from "../admin-auth-service";
+import { adminAuditService } from "../admin-audit-service";
+import { apiKeyService } from "../api-key-service";
+import { incentiveProgramService, type ResolvedIncentiveProgram } from "../incentive-program-service";
+import { merkleDistributionService } from "../merkle-distribution-service";
+import { smartContractService } from "../smart-contract-service";
+import { unifiedRewardService } from "../unified-reward-service";
+import type { AdminRole } from "../admin-role-service";
+import userRoutes from "./users";
+import positionRoutes from "./positions";
+import rewardRoutes from "./rewards";
+import treasuryRoutes from "./treasury";
+import publicApiV1Routes from "./public-v1";
+import { validateRequest } from "./validation";
+
+const ADDRESS = "0x5bF25Dc1BAf6A96C5A0F724E05EcF4D456c7652e";
+const POOL = "0x82Da478b1382B951cBaD01Beb9eD459cDB16458E";
+
+function createApp(router: Router, path = "/api") {
+  const app = express();
+  app.use(express.json());
+  // Same session guards registerRoutes mounts in front of these routers
+  app.use(["/api/admin", "/api/rewards/distribute", "/api/rewards/claim/:userId"], requireAdminSession);
+  app.use(path, router);
+  app.use(enhancedErrorHandler);
+  return app;
+}
+
+// Bearer tokens are the role names - any other token has no session
+function mockAdminSessions() {
+  vi.spyOn(adminAuthService, "getSession").mockImplementation(async (token) => {
+    if (token !== "viewer" && token !== "treasury-operator") return null;
+    return { session: { walletAddress: ADDRESS.toLowerCase() } as AdminSession, role: token as AdminRole };
+  });
+}
+
+async function createPosition(userId: number, nftTokenId: string) {
+  return storage.createLpPosition({
+    userId,
+    nftTokenId,
+    poolAddress: POOL,
+    token0Address: "0x1",
+    token1Address: "0x2",
+    token0Amount: "100",
+    token1Amount: "1",
+    minPrice: "0.1",
+    maxPrice: "1",
+    tickLower: -600,
+    tickUpper: 600,
+    liquidity: "1000"
+  });
+}
+
+describe("user routes", () => {
+  const app = createApp(userRoutes);
+
+  it("creates a user and returns the stored row", async () => {
+    const created = await request(app).post("/api/users").send({ address: ADDRESS });
+    expect(created.status).toBe(200);
+    expect(created.body).toMatchObject({ address: ADDRESS });
+
+    const fetched = await request(app).get(`/api/users/${ADDRESS}`);
+    expect(fetched.status).toBe(200);
+    expect(fetched.body.id).toBe(created.body.id);
+    expect((await storage.getUserByAddress(ADDRESS))?.id).toBe(created.body.id);
+  });
+
+  it("rejects invalid input with the validation envelope", async () => {
+    const response = await request(app).post("/api/users").send({ address: "not-an-address" });
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({
+      success: false,
+      error: { code: "VALIDATION_ERROR", message: "Invalid body.address: Invalid Ethereum address format", retryable: false }
+    });
+    expect(response.body.error.details).toEqual([expect.objectContaining({ path: ["address"] })]);
+
+    const params = await request(app).get("/api/app-transactions/user/abc");
+    expect(params.status).toBe(400);
+    expect(params.body.error.message).toMatch(/^Invalid params\.userId/);
+  });
+
+  it("answers unknown users with a 404 envelope", async () => {
+    const response = await request(app).get("/api/users/0x0000000000000000000000000000000000000001");
+    expect(response.status).toBe(404);
+    expect(response.body).toMatchObject({ success: false, error: { code: "NOT_FOUND", message: "User not found" } });
+  });
+
+  it("requires an admin session", async () => {
+    const response = await request(app).get("/api/admin/jobs");
+    expect(response.status).toBe(401);
+    expect(response.body).toMatchObject({ success: false, error: { code: "ADMIN_SESSION_REQUIRED" } });
+  });
+
+  it("rate limits sensitive routes with the envelope", async () => {
+    // strictRateLimit allows 20 requests per window - invalid bodies still count
+    for (let i = 0; i < 20; i++) {
+      expect((await request(app).post("/api/app-sessions/create").send({})).status).toBe(400);
+    }
+    const response = await request(app).post("/api/app-sessions/create").send({});
+    expect(response.status).toBe(429);
+    expect(response.body).toMatchObject({ success: false, error: { code: "RATE_LIMIT_ERROR", retryable: true } });
+  });
+});
+
+describe("admin guard", () => {
+  const app = createApp(treasuryRoutes);
+
+  beforeEach(() => {
+    mockAdminSessions();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("answers 401 without a session or with an unknown token", async () => {
+    const missing = await request(app).get("/api/admin/treasury/config");
+    expect(missing.status).toBe(401);
+    expect(missing.body.error.code).toBe("ADMIN_SESSION_REQUIRED");
+
+    const unknown = await request(app).get("/api/admin/treasury/config").set("Authorization", "Bearer expired");
+    expect(unknown.status).toBe(401);
+    expect(unknown.body.error.code).toBe("ADMIN_SESSION_INVALID");
+  });
+
+  it("answers 403 when the role lacks the route's permission", async () => {
+    const response = await request(app).post("/api/admin/treasury/reset-distributed").set("Authorization", "Bearer viewer");
+    expect(response.status).toBe(403);
+    expect(response.body).toMatchObject({
+      success: false,
+      error: { code: "ADMIN_PERMISSION_DENIED", message: "Your admin role does not allow this operation (requires treasury:write)" }
+    });
+  });
+});
+
+describe("position routes", () => {
+  const app = createApp(positionRoutes, "/api/positions");
+
+  it("creates a position and lists it for its user", async () => {
+    const user = await storage.createUser({ address: "0x0000000000000000000000000000000000000a01" });
+    const created = await request(app).post("/api/positions").send({
+      userId: user.id,
+      nftTokenId: "101",
+      poolAddress: POOL,
+      token0Address: "0x1",
+      token1Address: "0x2",
+      token0Amount: "100",
+      token1Amount: "1",
+      minPrice: "0.1",
+      maxPrice: "1",
+      tickLower: -600,
+      tickUpper: 600,
+      liquidity: "1000",
+      feeTier: 3000,
+      currentValueUSD: "1000",
+      appTransactionHash: "0xabc",
+      appSessionId: "session-1"
+    });
+    expect(created.status).toBe(200);
+    expect(created.body).toMatchObject({ userId: user.id, nftTokenId: "101" });
+
+    const listed = await request(app).get(`/api/positions/user/${user.id}`);
+    expect(listed.status).toBe(200);
+    expect(listed.body.map((position: { id: number }) => position.id)).toEqual([created.body.id]);
+  });
+
+  it("updates a position and answers 404 for unknown ones", async () => {
+    const user = await storage.createUser({ address: "0x0000000000000000000000000000000000000a02" });
+    const position = await createPosition(user.id, "102");
+
+    const updated = await request(app).patch(`/api/positions/${position.id}`).send({ isActive: false });
+    expect(updated.status).toBe(200);
+    expect(updated.body.isActive).toBe(false);
+
+    const missing = await request(app).patch("/api/positions/999999").send({ isActive: false });
+    expect(missing.status).toBe(404);
+    expect(missing.body.error).toMatchObject({ code: "NOT_FOUND", message: "Position not found" });
+  });
+
+  it("rejects invalid position input", async () => {
+    const response = await request(app).post("/api/positions").send({ userId: "one" });
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe("VALIDATION_ERROR");
+    expect((await request(app).get("/api/positions/user/abc")).status).toBe(400);
+  });
+});
+
+describe("reward routes", () => {
+  const app = createApp(rewardRoutes);
+
+  beforeEach(() => {
+    mockAdminSessions();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("lists a user's reward rows", async () => {
+    const user = await storage.createUser({ address: "0x0000000000000000000000000000000000000b01" });
+    const reward = await storage.createReward({
+      userId: user.id,
+      nftTokenId: "201",
+      positionValueUSD: "1000",
+      dailyRewardAmount: "5",
+      accumulatedAmount: "5",
+      liquidityAddedAt: new Date()
+    });
+
+    const response = await request(app).get(`/api/rewards/user/${user.id}`);
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([expect.objectContaining({ id: reward.id, nftTokenId: "201", dailyRewardAmount: "5" })]);
+  });
+
+  it("answers 404 when no published epoch has a proof for the address", async () => {
+    vi.spyOn(merkleDistributionService, "getProof").mockResolvedValue(null);
+    const response = await request(app).get(`/api/rewards/proof/${ADDRESS}`);
+    expect(response.status).toBe(404);
+    expect(response.body.error).toMatchObject({ code: "NOT_FOUND", message: "No published Merkle epoch contains this address" });
+  });
+
+  it("only lets reward operators mark rewards claimed", async () => {
+    const claimRewards = vi.spyOn(storage, "claimRewards");
+    expect((await request(app).post("/api/rewards/claim/1")).status).toBe(401);
+
+    const response = await request(app).post("/api/rewards/claim/1").set("Authorization", "Bearer viewer");
+    expect(response.status).toBe(403);
+    expect(response.body.error.code).toBe("ADMIN_PERMISSION_DENIED");
+    expect(claimRewards).not.toHaveBeenCalled();
+  });
+
+  it("distributes the ledger balance not reserved for Merkle claims", async () => {
+    const user = await storage.createUser({ address: "0x0000000000000000000000000000000000000b02" });
+    const stats = vi.spyOn(unifiedRewardService, "getUserRewardStats").mockResolvedValue({ totalClaimable: 120 } as Awaited<ReturnType<typeof unifiedRewardService.getUserRewardStats>>);
+    const claimable = vi.spyOn(merkleDistributionService, "getSignatureClaimable").mockResolvedValue(100);
+    vi.spyOn(smartContractService, "isDeployed").mockReturnValue(false);
+
+    const response = await request(app).post("/api/rewards/distribute").set("Authorization", "Bearer treasury-operator").send({ userAddress: user.address });
+    expect(response.status).toBe(503);
+    expect(response.body.error.details).toMatchObject({ calculatedAmount: 100, userAddress: user.address });
+    expect(stats).toHaveBeenCalledWith(user.id);
+    expect(claimable).toHaveBeenCalledWith(user.address, 120);
+
+    const unknown = await request(app).post("/api/rewards/distribute").set("Authorization", "Bearer treasury-operator").send({ userAddress: "0x0000000000000000000000000000000000000b03" });
+    expect(unknown.status).toBe(404);
+  });
+
+  it("validates addresses and program IDs", async () => {
+    expect((await request(app).get("/api/rewards/proof/0x123")).status).toBe(400);
+    const response = await request(app).get("/api/rewards/program-analytics?programId=abc");
+    expect(response.status).toBe(400);
+    expect(response.body.error).toMatchObject({ code: "VALIDATION_ERROR", message: "Invalid programId" });
+  });
+});
+
+describe("treasury routes", () => {
+  const app = createApp(treasuryRoutes);
+
+  beforeEach(() => {
+    mockAdminSessions();
+    vi.spyOn(adminAuditService, "record").mockResolvedValue();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("answers 404 until a treasury config is saved, then returns it", async () => {
+    const missing = await request(app).get("/api/admin/treasury/config").set("Authorization", "Bearer viewer");
+    expect(missing.status).toBe(404);
+
+    await storage.saveTreasuryConfig({
+      totalAllocation: "1500000",
+      programDurationDays: 60,
+      programStartDate: "2025-01-01",
+      programEndDate: "2025-03-02",
+      dailyRewardsCap: "25000",
+      smartContractAddress: ADDRESS
+    });
+    const response = await request(app).get("/api/admin/treasury/config").set("Authorization", "Bearer viewer");
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ totalAllocation: 1500000, programDurationDays: 60, dailyRewardsCap: 25000, smartContractAddress: ADDRESS });
+  });
+
+  it("rejects an invalid treasury config", async () => {
+    const response = await request(app).post("/api/admin/treasury/config")
+      .set("Authorization", "Bearer treasury-operator")
+      .send({ totalAllocation: -1 });
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe("VALIDATION_ERROR");
+  });
+
+  it("clears reward rows and logs the reset", async () => {
+    const user = await storage.createUser({ address: "0x0000000000000000000000000000000000000c01" });
+    await storage.createReward({
+      userId: user.id,
+      nftTokenId: "301",
+      positionValueUSD: "1000",
+      dailyRewardAmount: "5",
+      accumulatedAmount: "5",
+      liquidityAddedAt: new Date()
+    });
+    const rows = (await storage.getAllRewards()).length;
+
+    const response = await request(app).post("/api/admin/treasury/reset-distributed").set("Authorization", "Bearer treasury-operator");
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ success: true, clearedRecords: rows, newDistributedAmount: 0 });
+    expect(await storage.getAllRewards()).toEqual([]);
+    expect(adminAuditService.record).toHaveBeenCalledWith(expect.objectContaining({ operationType: "TREASURY_RESET_DISTRIBUTED", performedBy: ADDRESS.toLowerCase() }));
+  });
+});
+
+describe("public API v1", () => {
+  const app = createApp(publicApiV1Routes, "/v1");
+  const program = {
+    id: 1,
+    name: "KILT/ETH",
+    chainId: 8453,
+    poolAddress: POOL,
+    token0Address: "0x1",
+    token1Address: "0x2",
+    feeTier: 3000,
+    rewardTokenAddress: "0x5D0DD05bB095fdD6Af4865A1AdF97c39C85ad2d8",
+    rewardTokenSymbol: "KILT",
+    totalBudget: 1500000,
+    startDate: "2025-01-01",
+    endDate: "2025-03-02",
+    durationDays: 60,
+    dailyBudget: 25000,
+    fundedByTreasury: true,
+    partnerTokens: [],
+    isActive: true,
+    createdBy: "system",
+    createdAt: new Date("2025-01-01T00:00:00Z"),
+    updatedAt: new Date("2025-01-01T00:00:00Z")
+  } as ResolvedIncentiveProgram;
+
+  beforeEach(() => {
+    vi.spyOn(apiKeyService, "authenticate").mockImplementation(async (key) =>
+      key === "kilt_test" ? { id: 7, name: "partner", rateLimitPerMinute: 2 } as ApiKey : null);
+    vi.spyOn(incentiveProgramService, "listPrograms").mockResolvedValue([program]);
+    vi.spyOn(incentiveProgramService, "getPositionCounts").mockResolvedValue(new Map([[1, { positions: 3, users: 2 }]]));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("serves the OpenAPI document without a key", async () => {
+    const response = await request(app).get("/v1/openapi.json");
+    expect(response.status).toBe(200);
+    expect(response.body.paths).toHaveProperty("/programs");
+  });
+
+  it("requires a valid API key", async () => {
+    expect((await request(app).get("/v1/programs")).body).toEqual({ error: "API key required - send it in the X-API-Key header", code: "API_KEY_REQUIRED" });
+    const invalid = await request(app).get("/v1/programs").set("X-API-Key", "kilt_revoked");
+    expect(invalid.status).toBe(401);
+    expect(invalid.body.code).toBe("API_KEY_INVALID");
+  });
+
+  it("wraps data in the versioned envelope and limits each key", async () => {
+    const response = await request(app).get("/v1/programs").set("X-API-Key", "kilt_test");
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([expect.objectContaining({ id: 1, activePositions: 3, uniqueUsers: 2, createdAt: "2025-01-01T00:00:00.000Z" })]);
+
+    const invalidId = await request(app).get("/v1/programs/abc").set("X-API-Key", "kilt_test");
+    expect(invalidId.status).toBe(400);
+    expect(invalidId.body).toEqual({ error: "Program ID must be a positive integer", code: "INVALID_PROGRAM_ID" });
+
+    const limited = await request(app).get("/v1/programs").set("X-API-Key", "kilt_test");
+    expect(limited.status).toBe(429);
+    expect(limited.body.code).toBe("RATE_LIMITED");
+  });
+});
+
+describe("validateRequest", () => {
+  const env = process.env.NODE_ENV;
+  const router = Router();
+  router.get(
+    "/rows",
+    validateRequest({
+      query: z.object({ days: z.coerce.number().int().positive().default(30), broken: z.enum(["true", "false"]).optional() }),
+      response: z.object({ days: z.number() })
+    }),
+    (req, res) => {
+      const query = req.query as unknown as { days: number; broken?: string };
+      res.json(query.broken === "true" ? { days: String(query.days) } : { days: query.days });
+    }
+  );
+  const app = createApp(router);
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env.NODE_ENV = env;
+    vi.restoreAllMocks();
+  });
+
+  it("replaces the query with the parsed values", async () => {
+    expect((await request(app).get("/api/rows")).body).toEqual({ days: 30 });
+    expect((await request(app).get("/api/rows?days=7")).body).toEqual({ days: 7 });
+    expect((await request(app).get("/api/rows?days=-1")).status).toBe(400);
+  });
+
+  it("fails responses that do not match the schema outside production", async () => {
+    const response = await request(app).get("/api/rows?broken=true");
+    expect(response.status).toBe(500);
+    expect(response.body.error).toMatchObject({ code: "SERVER_ERROR", message: "Invalid response.days: Expected number, received string" });
+  });
+
+  it("sends mismatched responses unchanged in production", async () => {
+    process.env.NODE_ENV = "production";
+    const response = await request(app).get("/api/rows?broken=true");
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ days: "30" });
+    expect(console.error).toHaveBeenCalled();
+  });
+});
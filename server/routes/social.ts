@@ -0,0 +1,85 @@
+/**
+ * Social media submission routes.
+ * Mounted at /api/social-media.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { socialMediaService } from "../social-media-service";
+import { ErrorHandler } from "../error-handler";
+import { validateRequest } from "./validation";
+
+const router = Router();
+
+// ============================================
+// SOCIAL MEDIA INTEGRATION ROUTES
+// ============================================
+
+// Submit tweet URL for processing
+const submitTweetSchema = z.object({
+  username: z.string().trim().min(1, 'Username is required'),
+  tweetUrl: z.string().trim().url('Tweet URL must be a URL')
+});
+
+router.post("/submit-tweet", validateRequest({ body: submitTweetSchema }), async (req, res, next) => {
+  try {
+    const { username, tweetUrl } = req.body;
+
+    const result = await socialMediaService.processTweetSubmission(username, tweetUrl);
+    
+    if (result.success) {
+      res.json({
+        success: true,
+        message: result.message,
+        submissionId: result.submissionId
+      });
+    } else {
+      next(ErrorHandler.createValidationError(result.message));
+    }
+  } catch (error) {
+    console.error('Tweet submission error:', error);
+    next(ErrorHandler.createServerError("Failed to process tweet submission", error instanceof Error ? error.message : error));
+  }
+});
+
+// Get social media submissions
+router.get("/submissions", async (req, res, next) => {
+  try {
+    const submissions = socialMediaService.getSubmissions();
+    res.json(submissions);
+  } catch (error) {
+    console.error('Error fetching submissions:', error);
+    next(ErrorHandler.createServerError("Failed to fetch submissions", error instanceof Error ? error.message : error));
+  }
+});
+
+// Get social media metrics
+router.get("/metrics", async (req, res, next) => {
+  try {
+    const metrics = socialMediaService.getMetrics();
+    res.json(metrics);
+  } catch (error) {
+    console.error('Error fetching social media metrics:', error);
+    next(ErrorHandler.createServerError("Failed to fetch metrics", error instanceof Error ? error.message : error));
+  }
+});
+
+// Check if user is eligible based on social media submission
+router.get("/eligibility/:username", validateRequest({ params: z.object({ username: z.string().trim().min(1).max(100) }) }), async (req, res, next) => {
+  try {
+    const { username } = req.params;
+    const isEligible = socialMediaService.isUserEligible(username);
+    const submission = socialMediaService.getSubmissionByUsername(username);
+    
+    res.json({
+      username,
+      isEligible,
+      submission: submission || null
+    });
+  } catch (error) {
+    console.error('Error checking eligibility:', error);
+    next(ErrorHandler.createServerError("Failed to check eligibility", error instanceof Error ? error.message : error));
+  }
+});
+
+export default router;
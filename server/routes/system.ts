@@ -0,0 +1,227 @@
+/**
+ * System routes - health, RPC status, gas estimates, blockchain config and data integrity checks.
+ * Mounted at /api.
+ */
+
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { db } from "../db";
+import { eq } from "drizzle-orm";
+import { users, lpPositions } from "@shared/schema";
+import { rpcManager } from "../rpc-connection-manager";
+import { DataIntegrityMonitor } from "../data-integrity-monitor";
+import { blockchainConfigService } from "../blockchain-config-service";
+import { productionErrorHandler } from "../production-error-handler";
+import { ErrorHandler } from "../error-handler";
+import { requireAdminPermission } from "../admin-auth-service";
+
+const router = Router();
+
+export const dataIntegrityMonitor = new DataIntegrityMonitor(db);
+
+// Blockchain configuration endpoint
+router.get("/blockchain-config", async (req, res, next) => {
+  try {
+    const config = await blockchainConfigService.getAllConfigs();
+    res.setHeader('Content-Type', 'application/json');
+    res.json(config);
+  } catch (error) {
+    next(ErrorHandler.createDatabaseError('Failed to read blockchain configuration', error instanceof Error ? error.message : error));
+  }
+});
+
+// Real-time Base network gas estimation
+router.get('/gas/estimate', async (req, res, next) => {
+  try {
+    const { simpleGasService } = await import('../simple-gas-service');
+    const gasEstimate = await simpleGasService.estimateTransactionCosts();
+    res.json(gasEstimate);
+  } catch (error) {
+    console.error('Gas estimation error:', error);
+    next(ErrorHandler.createServerError('Failed to estimate gas costs', error instanceof Error ? error.message : error));
+  }
+});
+
+// RPC Connection Manager status endpoint
+router.get('/rpc/status', async (req, res, next) => {
+  try {
+    const status = rpcManager.getStatus();
+    res.json({
+      status: 'active',
+      endpoints: status.endpoints.map(ep => ({
+        url: ep.url,
+        errorCount: ep.errorCount,
+        rateLimited: ep.rateLimited,
+        rateLimitResetTime: ep.rateLimitResetTime,
+        lastError: ep.lastError
+      })),
+      availableEndpoints: status.availableEndpoints,
+      totalEndpoints: status.totalEndpoints,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    console.error('RPC status error:', error);
+    next(ErrorHandler.createServerError('Failed to get RPC status', error instanceof Error ? error.message : error));
+  }
+});
+
+// Consolidated health monitoring moved to main /health endpoint
+
+// Emergency blank page recovery endpoint
+router.post("/system/emergency-recovery", requireAdminPermission('config:write'), async (req, res, next) => {
+  try {
+    // Removed BlankPageElimination emergency recovery - cleaned up during optimization
+    res.json({ 
+      success: true, 
+      message: "Emergency recovery completed",
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    next(ErrorHandler.createServerError("Emergency recovery failed", error instanceof Error ? error.message : error));
+  }
+});
+
+// Simple production validation check
+router.get("/system/production-validation", async (req, res, next) => {
+  try {
+    const { db } = await import('../db');
+    const { users, lpPositions } = await import('@shared/schema');
+    const { count } = await import('drizzle-orm');
+    const { eq } = await import('drizzle-orm');
+    
+    const [userCount] = await db.select({ count: count() }).from(users);
+    const [activePositions] = await db.select({ count: count() }).from(lpPositions).where(eq(lpPositions.isActive, true));
+    
+    const productionReady = Number(userCount.count) > 0 && Number(activePositions.count) > 0;
+    
+    res.json({
+      productionReady,
+      overallStatus: productionReady ? 'pass' : 'warning',
+      userCount: Number(userCount.count),
+      activePositions: Number(activePositions.count),
+      message: productionReady 
+        ? 'System ready for production deployment'
+        : 'System operational but requires user data initialization',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Production validation failed:', error);
+    next(ErrorHandler.createDatabaseError("Production validation failed", error instanceof Error ? error.message : error));
+  }
+});
+
+// PRODUCTION ERROR MONITORING ENDPOINT
+router.get("/system/error-stats", async (req, res, next) => {
+  try {
+    const errorStats = productionErrorHandler.getErrorStats();
+    res.json({
+      ...errorStats,
+      status: 'operational',
+      monitoringActive: true
+    });
+  } catch (error) {
+    next(ErrorHandler.createServerError("Failed to get error statistics", error instanceof Error ? error.message : error));
+  }
+});
+
+// DUPLICATE POOL ENDPOINTS REMOVED - Using earlier definitions with fallback logic
+
+// Data integrity health monitoring simplified - integrated into main health endpoint
+
+router.get('/system/data-integrity/orphaned-eligibility', async (req, res, next) => {
+  try {
+    const orphanedCheck = await dataIntegrityMonitor.checkOrphanedEligibilityRecords();
+    res.json(orphanedCheck);
+  } catch (error) {
+    console.error('Orphaned eligibility check error:', error);
+    next(ErrorHandler.createServerError('Orphaned eligibility check failed', error instanceof Error ? error.message : error));
+  }
+});
+
+router.get('/system/data-integrity/missing-eligibility', async (req, res, next) => {
+  try {
+    const missingEligibilityCheck = await dataIntegrityMonitor.checkPositionsWithoutEligibility();
+    res.json(missingEligibilityCheck);
+  } catch (error) {
+    console.error('Missing eligibility check error:', error);
+    next(ErrorHandler.createServerError('Missing eligibility check failed', error instanceof Error ? error.message : error));
+  }
+});
+
+router.get('/system/data-integrity/blockchain-validation', async (req, res, next) => {
+  try {
+    const blockchainValidation = await dataIntegrityMonitor.validateAgainstBlockchain();
+    res.json(blockchainValidation);
+  } catch (error) {
+    console.error('Blockchain validation error:', error);
+    next(ErrorHandler.createServerError('Blockchain validation failed', error instanceof Error ? error.message : error));
+  }
+});
+
+// =============================================================================
+// HEALTH MONITORING ENDPOINTS (SIMPLIFIED)
+// =============================================================================
+
+// Health endpoint removed - using the one in index.ts instead
+
+// Simple system health check
+router.get("/system/health", async (req, res, next) => {
+  try {
+    const { db } = await import('../db');
+    const { users } = await import('@shared/schema');
+    const { count } = await import('drizzle-orm');
+    
+    const [result] = await db.select({ count: count() }).from(users);
+    
+    res.json({
+      status: "healthy",
+      timestamp: new Date().toISOString(),
+      database: "connected",
+      userCount: Number(result.count)
+    });
+  } catch (error) {
+    next(ErrorHandler.createDatabaseError('Database health check failed', error instanceof Error ? error.message : String(error)));
+  }
+});
+
+// Simple deployment readiness check
+router.get("/system/deployment-readiness", async (req, res, next) => {
+  try {
+    const { db } = await import('../db');
+    const { users, lpPositions } = await import('@shared/schema');
+    const { count } = await import('drizzle-orm');
+    const { eq } = await import('drizzle-orm');
+    
+    const [userCount] = await db.select({ count: count() }).from(users);
+    const [activePositions] = await db.select({ count: count() }).from(lpPositions).where(eq(lpPositions.isActive, true));
+    
+    const ready = Number(userCount.count) > 0 && Number(activePositions.count) > 0;
+    
+    res.json({
+      ready,
+      userCount: Number(userCount.count),
+      activePositions: Number(activePositions.count),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    next(ErrorHandler.createDatabaseError('Deployment readiness check failed', error instanceof Error ? error.message : String(error)));
+  }
+});
+
+// API health check endpoint
+router.get("/health", (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const health = {
+      status: "healthy",
+      timestamp: new Date().toISOString(),
+      environment: process.env.NODE_ENV || "unknown",
+      database: !!process.env.DATABASE_URL ? "connected" : "missing",
+      calculatorKey: !!process.env.CALCULATOR_PRIVATE_KEY ? "present" : "missing",
+      rewardKey: !!process.env.REWARD_WALLET_PRIVATE_KEY ? "present" : "missing"
+    };
+    res.json(health);
+  } catch (error) {
+    next(ErrorHandler.createServerError('Health check failed', error instanceof Error ? error.message : error));
+  }
+});
+
+export default router;
@@ -0,0 +1,356 @@
+/**
+ * Treasury and reward contract routes - treasury configuration, contract balances and the
+ * admin treasury operations.
+ * Mounted at /api.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { rpcManager } from "../rpc-connection-manager";
+import { requireAdminPermission } from "../admin-auth-service";
+import { adminProposalService } from "../admin-proposal-service";
+import { smartContractService } from "../smart-contract-service";
+import { getSmartContractAddress, logAdminOperation } from "./helpers";
+import { ErrorHandler } from "../error-handler";
+import { ethereumAddressSchema, validateRequest } from "./validation";
+
+const router = Router();
+
+const emergencyWithdrawSchema = z.object({
+  amount: z.coerce.number().finite().positive('Valid withdrawal amount required'),
+  recipientAddress: ethereumAddressSchema.optional()
+});
+
+// Smart contract balances endpoint - Real blockchain data
+router.get('/smart-contract/balances/:contractAddress', validateRequest({ params: z.object({ contractAddress: ethereumAddressSchema }) }), async (req, res, next) => {
+  try {
+    const { contractAddress } = req.params;
+
+    // Validate that the provided address matches our configured smart contract
+    const configuredAddress = await getSmartContractAddress();
+    if (contractAddress.toLowerCase() !== configuredAddress.toLowerCase()) {
+      return next(ErrorHandler.createValidationError('Contract address does not match configured smart contract address', {
+        expected: configuredAddress,
+        provided: contractAddress
+      }));
+    }
+
+    const KILT_TOKEN_ADDRESS = "0x5d0dd05bb095fdd6af4865a1adf97c39c85ad2d8";
+
+    try {
+      // Get a viem client for blockchain calls
+      const { client } = await rpcManager.getClient();
+      
+      // ERC20 ABI for balanceOf call
+      const erc20Abi = [
+        {
+          constant: true,
+          inputs: [{ name: '_owner', type: 'address' }],
+          name: 'balanceOf',
+          outputs: [{ name: 'balance', type: 'uint256' }],
+          type: 'function'
+        }
+      ];
+
+      // Treasury contract ABI for balance calls
+      const treasuryAbi = [
+        {
+          constant: true,
+          inputs: [],
+          name: 'getContractBalance',
+          outputs: [{ name: '', type: 'uint256' }],
+          type: 'function'
+        },
+        {
+          constant: true,
+          inputs: [],
+          name: 'getContractBalance',
+          outputs: [{ name: '', type: 'uint256' }],
+          type: 'function'
+        }
+      ];
+
+      // Get real KILT balance held by the smart contract
+      const contractBalance = await client.readContract({
+        address: KILT_TOKEN_ADDRESS as `0x${string}`,
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [contractAddress as `0x${string}`]
+      });
+
+      // Treasury balance is the same as contract balance (authentic data shows 0 KILT in contract)
+      const treasuryBalance = contractBalance;
+
+      // Convert BigInt to human readable numbers
+      const contractBalanceFormatted = Number(contractBalance) / 1e18;
+      const treasuryBalanceFormatted = Number(treasuryBalance) / 1e18;
+    
+      res.setHeader('Content-Type', 'application/json');
+      res.json({
+        contractAddress,
+        contractBalance: Math.floor(contractBalanceFormatted),
+        treasuryBalance: Math.floor(treasuryBalanceFormatted),
+        timestamp: Date.now(),
+        source: 'base_blockchain'
+      });
+    } catch (blockchainError) {
+      console.error('Contract balance fetch failed:', blockchainError);
+      // Return zeros when blockchain calls fail but keep API functional
+      res.setHeader('Content-Type', 'application/json');
+      res.json({
+        contractAddress,
+        contractBalance: 0,
+        treasuryBalance: 0,
+        timestamp: Date.now(),
+        source: 'blockchain_error',
+        error: 'Unable to fetch real contract balance data'
+      });
+    }
+  } catch (error) {
+    console.error('Error fetching contract balances:', error);
+    res.setHeader('Content-Type', 'application/json');
+    next(ErrorHandler.createServerError('Failed to fetch contract balances', error instanceof Error ? error.message : error));
+  }
+});
+
+// Get treasury configuration for client components
+router.get("/treasury/config", requireAdminPermission('admin:read'), async (req, res, next) => {
+  try {
+    const contractAddress = await getSmartContractAddress();
+    res.setHeader('Content-Type', 'application/json');
+    res.json({
+      smartContractAddress: contractAddress,
+      timestamp: Date.now(),
+      source: 'database_config'
+    });
+  } catch (error) {
+    console.error('Error fetching treasury config:', error);
+    res.setHeader('Content-Type', 'application/json');
+    next(ErrorHandler.createServerError('Failed to fetch treasury configuration', error instanceof Error ? error.message : error));
+  }
+});
+
+// Smart contract routes
+router.get('/contract/reward-wallet-balance', async (req, res, next) => {
+  try {
+    const balanceInfo = await smartContractService.checkRewardWalletBalance();
+    res.json(balanceInfo);
+  } catch (error) {
+    // Error checking reward wallet balance
+    next(ErrorHandler.createServerError('Failed to check reward wallet balance', error instanceof Error ? error.message : error));
+  }
+});
+
+router.get('/contract/program-info', async (req, res, next) => {
+  try {
+    const programInfo = await smartContractService.getProgramInfo();
+    res.json(programInfo);
+  } catch (error) {
+    // Error fetching program info
+    next(ErrorHandler.createServerError('Failed to fetch program info', error instanceof Error ? error.message : error));
+  }
+});
+
+// Get calculator address for authorization
+router.get("/calculator/address", async (req, res, next) => {
+  try {
+    const calculatorAddress = smartContractService.getCalculatorAddress();
+    if (calculatorAddress) {
+      res.json({
+        calculatorAddress,
+        isConfigured: true,
+        message: "Calculator wallet is configured. This address needs to be authorized by the contract owner."
+      });
+    } else {
+      res.json({
+        calculatorAddress: null,
+        isConfigured: false,
+        message: "Calculator private key not configured. Set CALCULATOR_PRIVATE_KEY environment variable."
+      });
+    }
+  } catch (error) {
+    next(ErrorHandler.createServerError("Failed to get calculator address", error instanceof Error ? error.message : error));
+  }
+});
+
+// ===== CYBERPUNK ADMIN PANEL ROUTES =====
+
+// Reset distributed rewards counter (admin only)
+router.post('/admin/treasury/reset-distributed', requireAdminPermission('treasury:write'), async (req, res, next) => {
+  try {
+    console.log('🔄 Admin request to reset distributed rewards counter');
+    
+    // Clear all rewards from the database to reset the distributed counter
+    const clearedRecords = await storage.deleteAllRewards();
+    
+    // Log this admin operation
+    await logAdminOperation(
+      'TREASURY_RESET_DISTRIBUTED',
+      'Reset distributed rewards counter to zero',
+      req.adminSession!.walletAddress,
+      '0',
+      undefined,
+      true
+    );
+    
+    console.log(`✅ Distributed rewards counter reset successfully. Cleared ${clearedRecords} reward records`);
+    
+    res.json({
+      success: true,
+      message: 'Distributed rewards counter reset to zero',
+      clearedRecords,
+      newDistributedAmount: 0
+    });
+  } catch (error) {
+    console.error('❌ Failed to reset distributed rewards counter:', error);
+    
+    await logAdminOperation(
+      'TREASURY_RESET_DISTRIBUTED',
+      'Failed to reset distributed rewards counter',
+      req.adminSession!.walletAddress,
+      '0',
+      undefined,
+      false,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+    
+    next(ErrorHandler.createDatabaseError('Failed to reset distributed counter', error instanceof Error ? error.message : error));
+  }
+});
+
+// Emergency withdrawal endpoint (admin only)
+router.post('/admin/treasury/emergency-withdraw', requireAdminPermission('treasury:write'), validateRequest({ body: emergencyWithdrawSchema }), async (req, res, next) => {
+  try {
+    const { amount, recipientAddress } = req.body;
+    const walletAddress = req.adminSession!.walletAddress; // Admin wallet performing the operation
+    
+    console.log('🚨 Admin emergency withdrawal request:', { amount, recipientAddress, performedBy: walletAddress });
+
+    // Perform emergency withdrawal
+    const result = await smartContractService.emergencyWithdraw(amount, recipientAddress);
+    
+    // Log this critical admin operation
+    await logAdminOperation(
+      'EMERGENCY_WITHDRAWAL',
+      `Emergency withdrawal of ${amount} KILT to ${recipientAddress || 'performer wallet'}`,
+      walletAddress,
+      amount.toString(),
+      result.transactionHash,
+      result.success,
+      result.error
+    );
+    
+    if (result.success) {
+      console.log(`✅ Emergency withdrawal successful: ${amount} KILT. Transaction: ${result.transactionHash}`);
+      res.json({
+        success: true,
+        message: `Emergency withdrawal successful: ${amount} KILT`,
+        amount: amount,
+        recipient: recipientAddress || 'Performing wallet',
+        transactionHash: result.transactionHash,
+        performedBy: walletAddress
+      });
+    } else {
+      console.error('❌ Emergency withdrawal failed:', result.error);
+      next(ErrorHandler.createServerError(result.error || 'Emergency withdrawal failed', { amount, performedBy: walletAddress }));
+    }
+  } catch (error) {
+    console.error('❌ Emergency withdrawal endpoint error:', error);
+    
+    await logAdminOperation(
+      'EMERGENCY_WITHDRAWAL',
+      'Emergency withdrawal system error',
+      req.adminSession!.walletAddress,
+      req.body.amount?.toString() || '0',
+      undefined,
+      false,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+    
+    next(ErrorHandler.createServerError('Emergency withdrawal system error', error instanceof Error ? error.message : error));
+  }
+});
+
+// Treasury configuration endpoints
+router.get('/admin/treasury/config', requireAdminPermission('admin:read'), async (req, res, next) => {
+  try {
+    // Get real treasury configuration from database
+    const config = await storage.getTreasuryConfig();
+    
+    if (!config) {
+      // No treasury config exists - return error instead of creating defaults
+      return next(ErrorHandler.createNotFoundError('Treasury configuration not found. Please configure via admin panel first.'));
+    } else {
+      // Debug logging to see what we get from database
+      console.log('Treasury config from DB:', {
+        programStartDate: config.programStartDate,
+        programStartDateType: typeof config.programStartDate,
+        programEndDate: config.programEndDate,
+        programEndDateType: typeof config.programEndDate
+      });
+
+      // Return existing config with auto-calculated fields
+      res.json({
+        totalAllocation: parseFloat(config.totalAllocation),
+        programDurationDays: config.programDurationDays,
+        programStartDate: config.programStartDate || '',
+        treasuryWalletAddress: config.smartContractAddress || '', // Use new field name but return with old API name for backward compatibility
+        smartContractAddress: config.smartContractAddress || '', // Also provide new field name
+        isActive: config.isActive,
+        // Auto-calculated read-only fields
+        programEndDate: config.programEndDate || '',
+        dailyRewardsCap: parseFloat(config.dailyRewardsCap || '0')
+      });
+    }
+  } catch (error) {
+    console.error('Treasury config error:', error);
+    next(ErrorHandler.createServerError('Failed to get treasury config', error instanceof Error ? error.message : error));
+  }
+});
+
+router.post("/admin/treasury/config", requireAdminPermission('treasury:write'), async (req, res, next) => {
+  try {
+    const config = req.body;
+    const validation = adminProposalService.validateTreasuryConfig(config);
+
+    if (!validation.valid) {
+      return next(ErrorHandler.createValidationError(validation.errors[0], validation.errors));
+    }
+
+    // Admin wallet from the verified SIWE session
+    const adminWallet = req.adminSession!.walletAddress;
+
+    // Allocation changes go through M-of-N approval unless it is disabled
+    if (adminProposalService.isApprovalRequired()) {
+      const result = await adminProposalService.propose('treasury_config', validation.change, adminWallet, Number(config.timelockHours) || undefined);
+      if (!result.success) {
+        return next(ErrorHandler.createConflictError(result.error, result.code));
+      }
+      return res.status(202).json({
+        success: true,
+        pendingApproval: true,
+        message: `Treasury change submitted as proposal #${result.proposal.id} - awaiting ${result.proposal.requiredApprovals} approvals`,
+        proposal: result.proposal
+      });
+    }
+
+    const { config: dbConfig, dailyRewardsCap } = await adminProposalService.applyTreasuryConfig(validation.change, adminWallet);
+    
+    console.log('Admin POST /api/admin/treasury/config');
+    res.json({
+      success: true,
+      message: 'Treasury configuration updated successfully',
+      config: dbConfig,
+      calculationUpdate: {
+        newDailyRate: dailyRewardsCap,
+        message: 'All reward calculations will update immediately'
+      }
+    });
+  } catch (error) {
+    console.error('Treasury config update error:', error);
+    next(ErrorHandler.createServerError('Failed to update treasury configuration', error instanceof Error ? error.message : error));
+  }
+});
+
+export default router;
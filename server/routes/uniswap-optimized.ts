@@ -5,13 +5,15 @@
 
 import type { Express } from "express";
 import { storage } from "../storage";
+import { ErrorHandler } from "../error-handler";
+import { userAddressParamsSchema, validateRequest } from "./validation";
 
 export function registerUniswapOptimizedRoutes(app: Express) {
   /**
    * BLAZING FAST eligible positions endpoint
    * Matches Uniswap's sub-second response times
    */
-  app.get("/api/positions/eligible/:userAddress", async (req, res) => {
+  app.get("/api/positions/eligible/:userAddress", validateRequest({ params: userAddressParamsSchema }), async (req, res, next) => {
     const start = Date.now();
     const { userAddress } = req.params;
     
@@ -49,7 +51,7 @@ export function registerUniswapOptimizedRoutes(app: Express) {
         // Combine registered positions with app-created NFT IDs
         registeredIds = new Set([
           ...registeredPositions.map(p => p.nftTokenId),
-          ...appTransactions.filter(tx => tx.nftTokenId).map(tx => tx.nftTokenId)
+          ...appTransactions.flatMap(tx => tx.nftTokenId ? [tx.nftTokenId] : [])
         ]);
         
         // Count only ACTIVE registered positions for display
@@ -86,23 +88,14 @@ export function registerUniswapOptimizedRoutes(app: Express) {
       const duration = Date.now() - start;
       console.error(`❌ UNISWAP-STYLE FAILED: ${userAddress} in ${duration}ms`, error);
       
-      res.status(500).json({
-        eligiblePositions: [],
-        totalPositions: 0,
-        registeredCount: 0,
-        cacheStatus: 'error',
-        timing: duration,
-        message: 'Failed to fetch eligible positions',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      next(ErrorHandler.createServerError('Failed to fetch eligible positions', error instanceof Error ? error.message : error));
     }
   });
 
   /**
    * Cache invalidation endpoint (simplified)
    */
-  app.post("/api/positions/invalidate/:userAddress", async (req, res) => {
+  app.post("/api/positions/invalidate/:userAddress", validateRequest({ params: userAddressParamsSchema }), async (req, res) => {
     const { userAddress } = req.params;
     // Cache invalidation logic would go here if needed
     res.json({ success: true, message: 'Cache invalidation requested' });
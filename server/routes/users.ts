@@ -0,0 +1,206 @@
+/**
+ * Users, app sessions and app transaction tracking.
+ * Mounted at /api.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { insertUserSchema, selectUserSchema } from "@shared/schema";
+import { rpcManager } from "../rpc-connection-manager";
+import { appTransactionService } from "../app-transaction-service";
+import { getSmartContractAddress } from "./helpers";
+import { strictRateLimit } from "../security-middleware";
+import { ErrorHandler } from "../error-handler";
+import { addressParamsSchema, ethereumAddressSchema, userIdParamsSchema, validateRequest } from "./validation";
+
+const router = Router();
+
+// Wallet KILT balance endpoint - Real blockchain data
+router.get('/wallet/kilt-balance/:address', validateRequest({ params: addressParamsSchema }), async (req, res, next) => {
+  try {
+    const { address } = req.params;
+
+    const KILT_TOKEN_ADDRESS = "0x5d0dd05bb095fdd6af4865a1adf97c39c85ad2d8";
+    const treasuryContractAddress = await getSmartContractAddress(); // Get from database
+
+    try {
+      // Get a viem client for blockchain calls
+      const { client } = await rpcManager.getClient();
+      
+      // ERC20 ABI for balanceOf and allowance calls
+      const erc20Abi = [
+        {
+          constant: true,
+          inputs: [{ name: '_owner', type: 'address' }],
+          name: 'balanceOf',
+          outputs: [{ name: 'balance', type: 'uint256' }],
+          type: 'function'
+        },
+        {
+          constant: true,
+          inputs: [{ name: '_owner', type: 'address' }, { name: '_spender', type: 'address' }],
+          name: 'allowance',
+          outputs: [{ name: '', type: 'uint256' }],
+          type: 'function'
+        }
+      ];
+
+      // Get real KILT balance from Base network
+      const balance = await client.readContract({
+        address: KILT_TOKEN_ADDRESS as `0x${string}`,
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [address as `0x${string}`]
+      });
+
+      // Get KILT allowance for treasury contract
+      const allowance = await client.readContract({
+        address: KILT_TOKEN_ADDRESS as `0x${string}`,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [address as `0x${string}`, treasuryContractAddress as `0x${string}`]
+      });
+
+      // Convert BigInt to human readable numbers
+      const balanceFormatted = Number(balance) / 1e18;
+      const allowanceFormatted = Number(allowance) / 1e18;
+    
+      res.setHeader('Content-Type', 'application/json');
+      res.json({
+        address,
+        balance: Math.floor(balanceFormatted),
+        allowance: Math.floor(allowanceFormatted),
+        timestamp: Date.now(),
+        source: 'base_blockchain'
+      });
+    } catch (blockchainError) {
+      console.error('Blockchain call failed:', blockchainError);
+      // Return zeros when blockchain calls fail but keep API functional
+      res.setHeader('Content-Type', 'application/json');
+      res.json({
+        address,
+        balance: 0,
+        allowance: 0,
+        timestamp: Date.now(),
+        source: 'blockchain_error',
+        error: 'Unable to fetch real balance data'
+      });
+    }
+  } catch (error) {
+    console.error('Error fetching wallet KILT balance:', error);
+    res.setHeader('Content-Type', 'application/json');
+    next(ErrorHandler.createServerError('Failed to fetch wallet balance', error instanceof Error ? error.message : error));
+  }
+});
+
+// User routes
+router.post("/users", validateRequest({ body: insertUserSchema.extend({ address: ethereumAddressSchema }), response: selectUserSchema }), async (req, res, next) => {
+  try {
+    const existingUser = await storage.getUserByAddress(req.body.address);
+    if (existingUser) {
+      res.json(existingUser);
+      return;
+    }
+
+    const user = await storage.createUser(req.body);
+    res.json(user);
+  } catch (error) {
+    next(ErrorHandler.createDatabaseError('Failed to create user', error instanceof Error ? error.message : error));
+  }
+});
+
+router.get("/users/:address", validateRequest({ params: addressParamsSchema, response: selectUserSchema }), async (req, res, next) => {
+  try {
+    const user = await storage.getUserByAddress(req.params.address);
+    if (!user) {
+      return next(ErrorHandler.createNotFoundError('User not found'));
+    }
+    res.json(user);
+  } catch (error) {
+    next(ErrorHandler.createDatabaseError('Failed to fetch user', error instanceof Error ? error.message : error));
+  }
+});
+
+// App Session Management - Create secure session for transaction tracking
+const createAppSessionSchema = z.object({
+  userId: z.coerce.number().int().positive(),
+  userAddress: ethereumAddressSchema
+});
+
+router.post("/app-sessions/create", strictRateLimit, validateRequest({ body: createAppSessionSchema }), async (req, res, next) => {
+  try {
+    const { userId, userAddress } = req.body;
+    const userAgent = req.headers['user-agent'] || '';
+    const sessionId = await appTransactionService.createAppSession(userId, userAddress, userAgent);
+
+    res.json({
+      sessionId,
+      message: "App session created successfully",
+      expiresIn: "24 hours"
+    });
+  } catch (error) {
+    next(ErrorHandler.createServerError('Failed to create app session', error instanceof Error ? error.message : error));
+  }
+});
+
+const recordAppTransactionSchema = z.object({
+  sessionId: z.string().min(1),
+  transactionData: z.record(z.unknown())
+});
+
+// Record App Transaction - ONLY way to make positions reward-eligible
+router.post("/app-transactions/record", strictRateLimit, validateRequest({ body: recordAppTransactionSchema }), async (req, res, next) => {
+  try {
+    const { sessionId, transactionData } = req.body;
+
+    const ipAddress = req.ip || req.connection?.remoteAddress || "unknown";
+    const result = await appTransactionService.recordAppTransaction(
+      sessionId,
+      {
+        ...transactionData,
+        appVersion: "1.0.0",
+        userAgent: req.headers['user-agent'] || "unknown",
+      },
+      ipAddress
+    );
+    
+    if (!result.success) {
+      return next(ErrorHandler.createValidationError('Transaction recording failed'));
+    }
+    
+    res.json({ 
+      success: true,
+      transactionId: 'unknown',
+      message: "Transaction recorded successfully",
+      status: "pending_verification"
+    });
+    
+  } catch (error) {
+    // Failed to record app transaction
+    next(ErrorHandler.createServerError("Failed to record app transaction", error instanceof Error ? error.message : error));
+  }
+});
+
+// App Transaction Security Routes
+router.get("/app-transactions/user/:userId", validateRequest({ params: userIdParamsSchema }), async (req, res, next) => {
+  try {
+    const transactions = await appTransactionService.getUserAppTransactions(Number(req.params.userId));
+    res.json(transactions);
+  } catch (error) {
+    // Failed to get user app transactions
+    next(ErrorHandler.createServerError("Failed to get user app transactions", error instanceof Error ? error.message : error));
+  }
+});
+
+router.get("/app-sessions/stats", async (req, res, next) => {
+  try {
+    const stats = appTransactionService.getSessionStats();
+    res.json(stats);
+  } catch (error) {
+    // Failed to get session stats
+    next(ErrorHandler.createServerError("Failed to get session stats", error instanceof Error ? error.message : error));
+  }
+});
+
+export default router;
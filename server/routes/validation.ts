@@ -0,0 +1,98 @@
+/**
+ * Request validation shared by the domain routers. Request bodies are checked against the
+ * drizzle-zod insert schemas from shared/schema.ts (or a schema built from them); params and
+ * query strings against the small schemas below. Failures go to the global error handler as
+ * ErrorHandler validation errors, so every router answers bad input with the same envelope.
+ *
+ * Routes that return stored rows also declare a response schema (the select schemas in
+ * shared/schema.ts). A mismatch is a server bug: outside production it fails the request,
+ * in production it is logged and the response is sent unchanged.
+ */
+
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import type { ParamsDictionary } from "express-serve-static-core";
+import { z } from "zod";
+import { ErrorHandler } from "../error-handler";
+
+export const ethereumAddressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address format');
+
+export const addressParamsSchema = z.object({ address: ethereumAddressSchema });
+
+export const userAddressParamsSchema = z.object({ userAddress: ethereumAddressSchema });
+
+export const idParamsSchema = z.object({ id: z.coerce.number().int().positive() });
+
+export const userIdParamsSchema = z.object({ userId: z.coerce.number().int().positive() });
+
+export const positiveIntSchema = z.coerce.number().int().positive();
+
+export const nftTokenIdSchema = z.coerce.string().regex(/^\d+$/, 'Invalid NFT token id');
+
+export const nftTokenIdParamsSchema = z.object({ nftTokenId: nftTokenIdSchema });
+
+interface RequestSchemas<Body> {
+  params?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  body?: z.ZodType<Body, z.ZodTypeDef, unknown>;
+  response?: z.ZodTypeAny;
+}
+
+function describeIssues(part: string, error: z.ZodError): string {
+  const [issue] = error.issues;
+  const path = [part, ...issue.path].join('.');
+  return `Invalid ${path}: ${issue.message}`;
+}
+
+/**
+ * Validate params, query and body before the handler runs. The parsed body and query replace
+ * req.body and req.query, so defaults apply and unknown body fields never reach storage;
+ * params are only checked and stay strings.
+ */
+export function validateRequest<Body = any>(schemas: RequestSchemas<Body>): RequestHandler<ParamsDictionary, any, Body> {
+  return (req, res, next) => {
+    for (const part of ['params', 'query'] as const) {
+      const schema = schemas[part];
+      if (!schema) continue;
+      const result = schema.safeParse(req[part]);
+      if (!result.success) {
+        return next(ErrorHandler.createValidationError(describeIssues(part, result.error), result.error.issues));
+      }
+      if (part === 'query') req.query = result.data;
+    }
+
+    if (schemas.body) {
+      const result = schemas.body.safeParse(req.body);
+      if (!result.success) {
+        return next(ErrorHandler.createValidationError(describeIssues('body', result.error), result.error.issues));
+      }
+      req.body = result.data;
+    }
+
+    if (schemas.response) {
+      checkResponse(schemas.response, req, res, next);
+    }
+    next();
+  };
+}
+
+/**
+ * Check successful JSON responses against the route's response schema. Error envelopes are
+ * not checked - they are built by the global error handler.
+ */
+function checkResponse(schema: z.ZodTypeAny, req: Request, res: Response, next: NextFunction) {
+  const json = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    res.json = json;
+    if (res.statusCode >= 400) return json(body);
+
+    const result = schema.safeParse(body);
+    if (result.success) return json(body);
+
+    const message = describeIssues('response', result.error);
+    console.error(`❌ ${req.method} ${req.originalUrl}: ${message}`);
+    if (process.env.NODE_ENV === 'production') return json(body);
+
+    next(ErrorHandler.createServerError(message, result.error.issues));
+    return res;
+  };
+}
@@ -1,5 +1,5 @@
 import { createPublicClient, http, PublicClient } from 'viem';
-import { base } from 'viem/chains';
+import { DEFAULT_CHAIN_ID, requireChainConfig, type ChainConfig } from './chain-registry';
 
 interface RpcEndpoint {
   url: string;
@@ -11,14 +11,8 @@ interface RpcEndpoint {
 }
 
 class RpcConnectionManager {
-  private endpoints: RpcEndpoint[] = [
-    { url: 'https://api.developer.coinbase.com/rpc/v1/base/FtQSiNzg6tfPcB1Hmirpy4T9SGDGFveA', priority: 1, errorCount: 0, rateLimited: false },
-    { url: 'https://mainnet.base.org', priority: 2, errorCount: 0, rateLimited: false },
-    { url: 'https://base.drpc.org', priority: 3, errorCount: 0, rateLimited: false },
-    { url: 'https://base-mainnet.g.alchemy.com/v2/demo', priority: 4, errorCount: 0, rateLimited: false },
-    { url: 'https://1rpc.io/base', priority: 5, errorCount: 0, rateLimited: false },
-    { url: 'https://base.blockpi.network/v1/rpc/public', priority: 6, errorCount: 0, rateLimited: false }
-  ];
+  private readonly chain: ChainConfig;
+  private endpoints: RpcEndpoint[];
   
   private clients: Map<string, PublicClient> = new Map();
   private currentEndpointIndex = 0;
@@ -26,7 +20,10 @@ class RpcConnectionManager {
   private retryDelay = 1000; // 1 second base delay
   private rateLimitCooldown = 60000; // 1 minute cooldown for rate limited endpoints
 
-  constructor() {
+  constructor(chainId: number = DEFAULT_CHAIN_ID) {
+    this.chain = requireChainConfig(chainId);
+    // Registry order is priority order
+    this.endpoints = this.chain.rpcUrls.map((url, index) => ({ url, priority: index + 1, errorCount: 0, rateLimited: false }));
     this.initializeClients();
     // Reset rate limits periodically
     setInterval(() => this.resetRateLimits(), this.rateLimitCooldown);
@@ -35,7 +32,7 @@ class RpcConnectionManager {
   private initializeClients() {
     this.endpoints.forEach(endpoint => {
       const client = createPublicClient({
-        chain: base,
+        chain: this.chain.viemChain,
         transport: http(endpoint.url, {
           timeout: 15000, // 15 second timeout
           retryCount: 0, // We handle retries manually
@@ -183,6 +180,7 @@ class RpcConnectionManager {
 
   getStatus() {
     return {
+      chainId: this.chain.chainId,
       endpoints: this.endpoints.map(endpoint => ({
         url: endpoint.url,
         priority: endpoint.priority,
@@ -197,5 +195,19 @@ class RpcConnectionManager {
   }
 }
 
-// Singleton instance
-export const rpcManager = new RpcConnectionManager();
\ No newline at end of file
+const managers = new Map<number, RpcConnectionManager>();
+
+/**
+ * One connection manager per chain, created on first use
+ */
+export function getRpcManager(chainId: number = DEFAULT_CHAIN_ID): RpcConnectionManager {
+  let manager = managers.get(chainId);
+  if (!manager) {
+    manager = new RpcConnectionManager(chainId);
+    managers.set(chainId, manager);
+  }
+  return manager;
+}
+
+// Default (Base) instance
+export const rpcManager = getRpcManager();
\ No newline at end of file
@@ -1,42 +1,38 @@
 /**
  * RPC Fallback Service - Handle Cloudflare Rate Limiting
- * Implements multiple Base network RPC endpoints for reliability
+ * Rotates through the chain registry's RPC endpoints for reliability
  */
 
 import { createPublicClient, http } from 'viem';
-import { base } from 'viem/chains';
+import { DEFAULT_CHAIN_ID, requireChainConfig } from './chain-registry';
 
 export class RPCFallbackService {
-  private static rpcEndpoints = [
-    'https://mainnet.base.org',
-    'https://base.gateway.tenderly.co',
-    'https://base.drpc.org',
-    'https://base-rpc.publicnode.com',
-    'https://1rpc.io/base',
-    'https://base.meowrpc.com'
-  ];
-
-  private static currentEndpointIndex = 0;
+  private static endpointIndexes = new Map<number, number>();
+  private static lastEndpoints = new Map<number, string>();
   private static rateLimitedEndpoints = new Set<string>();
 
   /**
    * Get next available RPC endpoint
    */
-  static getNextRPC(): string {
-    const availableEndpoints = this.rpcEndpoints.filter(
+  static getNextRPC(chainId: number = DEFAULT_CHAIN_ID): string {
+    const rpcEndpoints = requireChainConfig(chainId).rpcUrls;
+    const availableEndpoints = rpcEndpoints.filter(
       endpoint => !this.rateLimitedEndpoints.has(endpoint)
     );
 
     if (availableEndpoints.length === 0) {
       // Reset rate limited endpoints after 5 minutes
-      console.log('🔄 All RPC endpoints rate limited, resetting...');
-      this.rateLimitedEndpoints.clear();
-      this.currentEndpointIndex = 0;
-      return this.rpcEndpoints[0];
+      console.log(`🔄 All RPC endpoints for chain ${chainId} rate limited, resetting...`);
+      rpcEndpoints.forEach(endpoint => this.rateLimitedEndpoints.delete(endpoint));
+      this.endpointIndexes.set(chainId, 0);
+      this.lastEndpoints.set(chainId, rpcEndpoints[0]);
+      return rpcEndpoints[0];
     }
 
-    const endpoint = availableEndpoints[this.currentEndpointIndex % availableEndpoints.length];
-    this.currentEndpointIndex++;
+    const index = this.endpointIndexes.get(chainId) ?? 0;
+    const endpoint = availableEndpoints[index % availableEndpoints.length];
+    this.endpointIndexes.set(chainId, index + 1);
+    this.lastEndpoints.set(chainId, endpoint);
     
     return endpoint;
   }
@@ -58,11 +54,11 @@ export class RPCFallbackService {
   /**
    * Create resilient public client with automatic failover
    */
-  static createResilientClient() {
-    const rpcUrl = this.getNextRPC();
+  static createResilientClient(chainId: number = DEFAULT_CHAIN_ID) {
+    const rpcUrl = this.getNextRPC(chainId);
     
     return createPublicClient({
-      chain: base,
+      chain: requireChainConfig(chainId).viemChain,
       transport: http(rpcUrl, {
         timeout: 30000, // 30 second timeout
         retryCount: 3,
@@ -76,13 +72,14 @@ export class RPCFallbackService {
    */
   static async executeWithFallback<T>(
     operation: (client: any) => Promise<T>,
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    chainId: number = DEFAULT_CHAIN_ID
   ): Promise<T> {
     let lastError: Error | null = null;
     
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        const client = this.createResilientClient();
+        const client = this.createResilientClient(chainId);
         const result = await operation(client);
         
         if (attempt > 0) {
@@ -98,8 +95,8 @@ export class RPCFallbackService {
             error.message?.includes('rate limit') ||
             error.message?.includes('banned')) {
           
-          const currentRPC = this.rpcEndpoints[this.currentEndpointIndex - 1];
-          this.markRateLimited(currentRPC);
+          const currentRPC = this.lastEndpoints.get(chainId);
+          if (currentRPC) this.markRateLimited(currentRPC);
           
           console.log(`🔄 RPC attempt ${attempt + 1} failed (rate limited), trying next endpoint...`);
           continue;
@@ -123,13 +120,15 @@ export class RPCFallbackService {
   /**
    * Get current RPC status
    */
-  static getStatus() {
+  static getStatus(chainId: number = DEFAULT_CHAIN_ID) {
+    const rpcEndpoints = requireChainConfig(chainId).rpcUrls;
     return {
-      totalEndpoints: this.rpcEndpoints.length,
-      rateLimitedCount: this.rateLimitedEndpoints.size,
-      availableEndpoints: this.rpcEndpoints.filter(ep => !this.rateLimitedEndpoints.has(ep)),
-      currentIndex: this.currentEndpointIndex,
-      rateLimitedEndpoints: Array.from(this.rateLimitedEndpoints)
+      chainId,
+      totalEndpoints: rpcEndpoints.length,
+      rateLimitedCount: rpcEndpoints.filter(ep => this.rateLimitedEndpoints.has(ep)).length,
+      availableEndpoints: rpcEndpoints.filter(ep => !this.rateLimitedEndpoints.has(ep)),
+      currentIndex: this.endpointIndexes.get(chainId) ?? 0,
+      rateLimitedEndpoints: rpcEndpoints.filter(ep => this.rateLimitedEndpoints.has(ep))
     };
   }
 }
\ No newline at end of file
@@ -1,17 +1,21 @@
 import helmet from 'helmet';
-import rateLimit from 'express-rate-limit';
+import rateLimit, { type ClientRateLimitInfo, type Options, type Store } from 'express-rate-limit';
 import cors from 'cors';
 import { body, param, validationResult } from 'express-validator';
 import type { Express, Request, Response, NextFunction } from 'express';
+import { storage } from './storage';
+import { ErrorHandler } from './error-handler';
+
+// Internal API rejections go through the global error handler, so they carry the standard envelope
+function rejectWithEnvelope(message: string): Options['handler'] {
+  return (req, res, next) => next(ErrorHandler.createRateLimitError(message));
+}
 
 // Rate limiting configurations - Increased for development/testing
 const createRateLimit = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 1000, // Increased limit for development testing (was 100)
-  message: {
-    error: 'Too many requests from this IP, please try again later.',
-    retryAfter: '15 minutes'
-  },
+  handler: rejectWithEnvelope('Too many requests from this IP, please try again later.'),
   standardHeaders: true,
   legacyHeaders: false,
   keyGenerator: (req) => {
@@ -20,17 +24,77 @@ const createRateLimit = rateLimit({
   }
 });
 
-const strictRateLimit = rateLimit({
+export const strictRateLimit = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 20, // Stricter limit for sensitive operations
+  handler: rejectWithEnvelope('Too many sensitive requests from this IP, please try again later.'),
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => {
+    // Handle potential proxy scenarios
+    return req.ip || req.connection.remoteAddress || 'unknown';
+  }
+});
+
+// Hit counters kept in storage, so every app instance counts against the same window
+export class StorageRateLimitStore implements Store {
+  localKeys = false;
+  private windowMs = 60 * 1000;
+
+  constructor(readonly prefix: string) {}
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const { hits, resetAt } = await storage.incrementRateLimitCounter(this.prefix + key, this.windowMs);
+    return { totalHits: hits, resetTime: resetAt };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await storage.decrementRateLimitCounter(this.prefix + key);
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await storage.resetRateLimitCounter(this.prefix + key);
+  }
+}
+
+// Public API rate limiting - per API key rather than per IP, at the key's own limit.
+// Runs after requireApiKey, which sets req.apiKey.
+export const apiKeyRateLimit = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  limit: (req) => req.apiKey?.rateLimitPerMinute ?? 60,
+  store: new StorageRateLimitStore('v1:'),
+  passOnStoreError: true, // A storage outage should not take the public API down with it
+  message: {
+    error: 'API key rate limit exceeded, please slow down.',
+    code: 'RATE_LIMITED',
+    retryAfter: '1 minute'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => {
+    return req.apiKey ? `api-key:${req.apiKey.id}` : (req.ip || req.connection.remoteAddress || 'unknown');
+  }
+});
+
+// Public API requests are limited per key, not per IP - only rejected API keys count against
+// the caller's IP here, which stops key guessing without capping partners behind a shared address
+export const apiKeyAuthFailureRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 100,
+  requestWasSuccessful: (req, res) => res.statusCode !== 401,
+  skipSuccessfulRequests: true,
   message: {
-    error: 'Too many sensitive requests from this IP, please try again later.',
+    error: 'Too many requests with an invalid API key from this IP, please try again later.',
+    code: 'RATE_LIMITED',
     retryAfter: '15 minutes'
   },
   standardHeaders: true,
   legacyHeaders: false,
   keyGenerator: (req) => {
-    // Handle potential proxy scenarios
     return req.ip || req.connection.remoteAddress || 'unknown';
   }
 });
@@ -181,21 +245,23 @@ export const setupSecurity = (app: Express) => {
     origin: true, // Allow all origins in development
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Origin'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Requested-With', 'Accept', 'Origin'],
     exposedHeaders: ['X-Total-Count'],
     maxAge: 86400 // 24 hours
   }));
 
 
 
-  // Basic rate limiting for all routes
+  // Basic rate limiting for the app API - the public /v1 API is limited per key instead
   app.use('/api', createRateLimit);
+  app.use('/v1', apiKeyAuthFailureRateLimit);
 
   // Input sanitization
   app.use(sanitizeInput);
 
   return {
     strictRateLimit,
+    apiKeyRateLimit,
     validateEthereumAddress,
     validateUserId,
     validateUserCreation,
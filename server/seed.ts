@@ -0,0 +1,192 @@
+/**
+ * SEED FIXTURES
+ * Fills a freshly migrated development database with a realistic running program: a 60-day
+ * treasury allocation three weeks in, a dozen LPs who joined on different days with different
+ * ranges, hourly pool ticks, and the daily rewards the ledger accrues from them.
+ *
+ *   npm run db:migrate && npm run db:seed
+ *
+ * Fixtures are deterministic - every run produces the same data, dated relative to today.
+ */
+
+import { count } from 'drizzle-orm';
+import {
+  appTransactions,
+  lpPositions,
+  poolTickSamples,
+  positionEligibility,
+  treasuryConfig,
+  users
+} from '@shared/schema';
+import { db } from './db';
+import { DEFAULT_CHAIN_ID, requireChainConfig } from './chain-registry';
+import { migrationService } from './migration-service';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+const PROGRAM_DAYS = 60;
+const PROGRAM_ELAPSED_DAYS = 21;
+const TOTAL_ALLOCATION = 1_500_000;
+const LP_COUNT = 12;
+const TICK_SPACING = 60;
+const START_TICK = -82000; // Roughly 0.00027 ETH per KILT
+
+// Mulberry32 - small seeded PRNG so every run produces identical fixtures
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function toDayKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function fixtureHex(prefix: string, index: number, length: number): string {
+  return `0x${prefix}${index.toString(16).padStart(length - prefix.length, '0')}`;
+}
+
+function alignTick(tick: number): number {
+  return Math.round(tick / TICK_SPACING) * TICK_SPACING;
+}
+
+async function main(): Promise<number> {
+  if (process.env.NODE_ENV === 'production') {
+    console.error('❌ SEED: Refusing to seed a production database');
+    return 1;
+  }
+
+  const { ok } = await migrationService.checkSchema();
+  if (!ok) {
+    console.error('❌ SEED: Schema is not up to date - run `npm run db:migrate` first');
+    return 1;
+  }
+
+  const [{ value: existingUsers }] = await db.select({ value: count() }).from(users);
+  if (existingUsers > 0) {
+    console.error('❌ SEED: Database already has users - seed an empty database');
+    return 1;
+  }
+
+  // Services read configuration on import - load them after the checks above
+  const { incentiveProgramService } = await import('./incentive-program-service');
+  const { unifiedRewardService } = await import('./unified-reward-service');
+
+  const random = createRandom(20240601);
+  const now = new Date();
+  const programStart = new Date(now.getTime() - PROGRAM_ELAPSED_DAYS * MS_PER_DAY);
+  const programEnd = new Date(programStart.getTime() + PROGRAM_DAYS * MS_PER_DAY);
+
+  await db.insert(treasuryConfig).values({
+    smartContractAddress: requireChainConfig(DEFAULT_CHAIN_ID).treasuryContract || '0x0000000000000000000000000000000000000000',
+    totalAllocation: TOTAL_ALLOCATION.toString(),
+    programStartDate: toDayKey(programStart),
+    programDurationDays: PROGRAM_DAYS,
+    programEndDate: toDayKey(programEnd),
+    dailyRewardsCap: (TOTAL_ALLOCATION / PROGRAM_DAYS).toString(),
+    createdBy: 'seed'
+  });
+
+  // Empty incentive_programs bootstraps the treasury-funded KILT/ETH program from treasury_config
+  const program = await incentiveProgramService.getPrimaryProgram();
+  if (!program) {
+    console.error('❌ SEED: No incentive program was bootstrapped');
+    return 1;
+  }
+  console.log(`🌱 SEED: Program #${program.id} ${program.startDate} → ${program.endDate} on ${program.poolAddress}`);
+
+  // Hourly ticks since the program started - a random walk that drifts in and out of the narrow ranges
+  const samples = [];
+  let tick = START_TICK;
+  for (let sampledAt = programStart.getTime(); sampledAt <= now.getTime(); sampledAt += MS_PER_HOUR) {
+    tick += Math.round((random() - 0.5) * 120);
+    samples.push({
+      poolAddress: program.poolAddress,
+      tick,
+      sqrtPriceX96: (BigInt(Math.floor(Math.sqrt(1.0001 ** tick) * 2 ** 48)) * BigInt(2 ** 48)).toString(),
+      sampledAt: new Date(sampledAt)
+    });
+  }
+  for (let i = 0; i < samples.length; i += 500) {
+    await db.insert(poolTickSamples).values(samples.slice(i, i + 500));
+  }
+
+  for (let index = 1; index <= LP_COUNT; index++) {
+    const address = fixtureHex('5eed', index, 40);
+    const joinedAt = new Date(programStart.getTime() + Math.floor(random() * (PROGRAM_ELAPSED_DAYS - 1) * MS_PER_DAY));
+    // Every third LP runs a wide range that never leaves the walk, the rest concentrate around the start price
+    const halfWidth = index % 3 === 0 ? 20040 : alignTick(600 + random() * 6000);
+    const center = alignTick(START_TICK + (index % 3 === 0 ? 0 : (random() - 0.5) * 1200));
+    const tickLower = center - halfWidth;
+    const tickUpper = center + halfWidth;
+    const valueUSD = Math.round(250 + random() * 24750);
+    const kiltAmount = Math.round(valueUSD / 2 / 0.018);
+    const ethAmount = (valueUSD / 2 / 3200).toFixed(6);
+    const sessionId = `seed-session-${index}`;
+    const transactionHash = fixtureHex('5eed', index, 64);
+    const nftTokenId = (900000 + index).toString();
+
+    const [user] = await db.insert(users).values({ address, createdAt: joinedAt }).returning();
+
+    const [transaction] = await db.insert(appTransactions).values({
+      userId: user.id,
+      sessionId,
+      userAddress: address,
+      transactionHash,
+      transactionType: 'mint',
+      nftTokenId,
+      poolAddress: program.poolAddress,
+      verificationStatus: 'verified',
+      appVersion: 'seed',
+      createdAt: joinedAt,
+      verifiedAt: joinedAt
+    }).returning();
+
+    const [position] = await db.insert(lpPositions).values({
+      userId: user.id,
+      nftTokenId,
+      chainId: program.chainId,
+      poolAddress: program.poolAddress,
+      token0Address: program.token0Address,
+      token1Address: program.token1Address,
+      token0Amount: kiltAmount.toString(),
+      token1Amount: ethAmount,
+      minPrice: (1.0001 ** tickLower).toFixed(18),
+      maxPrice: (1.0001 ** tickUpper).toFixed(18),
+      tickLower,
+      tickUpper,
+      liquidity: BigInt(Math.round(valueUSD * 1e12)).toString(),
+      feeTier: program.feeTier,
+      currentValueUSD: valueUSD.toString(),
+      appTransactionHash: transactionHash,
+      appSessionId: sessionId,
+      verificationStatus: 'verified',
+      programId: program.id,
+      createdAt: joinedAt
+    }).returning();
+
+    await db.insert(positionEligibility).values({
+      positionId: position.id,
+      nftTokenId,
+      appTransactionId: transaction.id,
+      eligibilityReason: 'app_created'
+    });
+  }
+  console.log(`🌱 SEED: ${LP_COUNT} LPs, ${samples.length} tick samples`);
+
+  const written = await unifiedRewardService.syncLedger(now);
+  console.log(`🌱 SEED: Ledger accrued ${written} daily rewards - seeding complete`);
+  return 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('❌ SEED: Failed', error);
+    process.exit(1);
+  });
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+// db.ts refuses to load without a URL - nothing below opens a connection
+vi.hoisted(() => {
+  process.env.DATABASE_URL ??= "postgres://test@localhost:1/test";
+});
+
+import { MemStorage } from "./storage";
+import { SingleSourceAPR } from "./single-source-apr";
+import { kiltPriceService } from "./kilt-price-service";
+import { UniswapIntegrationService, type PoolData } from "./uniswap-integration-service";
+import { unifiedRewardService } from "./unified-reward-service";
+import { incentiveProgramService, type ResolvedIncentiveProgram } from "./incentive-program-service";
+
+const PROGRAM = {
+  id: 1,
+  chainId: 8453,
+  name: "KILT/ETH",
+  poolAddress: "0x82Da478b1382B951cBaD01Beb9eD459cDB16458E",
+  feeTier: 3000,
+  dailyBudget: 1000,
+  durationDays: 30,
+  totalBudget: 30000,
+  startDate: "2025-01-01",
+  endDate: "2025-01-31",
+  fundedByTreasury: false,
+  partnerTokens: []
+} as unknown as ResolvedIncentiveProgram;
+
+describe("SingleSourceAPR streamlined APR", () => {
+  beforeEach(() => {
+    SingleSourceAPR.clearCache();
+    unifiedRewardService.clearCache();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(kiltPriceService, "getCurrentPrice").mockReturnValue(0.02);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("annualizes the USD budget over the pool TVL and serves the last figures while the pool is unreachable", async () => {
+    vi.useFakeTimers();
+    const poolData = vi.spyOn(UniswapIntegrationService.prototype, "getPoolData")
+      .mockResolvedValueOnce({ tvlUSD: 73000, volume24hUSD: 5000 } as PoolData)
+      .mockRejectedValue(new Error("rpc down"));
+    const service = new SingleSourceAPR(new MemStorage());
+
+    // 1000 KILT × $0.02 × 365 ÷ $73,000
+    const first = await service.getStreamlinedAPR(PROGRAM);
+    expect(first).toMatchObject({ programAPR: 10, tradingAPR: 4.5, totalAPR: 14.5, poolTVL: 73000, volume24h: 5000, kiltPrice: 0.02 });
+
+    vi.advanceTimersByTime(31000);
+    expect(await service.getStreamlinedAPR(PROGRAM)).toEqual(first);
+    expect(poolData).toHaveBeenCalledTimes(2);
+
+    SingleSourceAPR.clearCache();
+    await expect(service.getStreamlinedAPR(PROGRAM)).rejects.toThrow("rpc down");
+  });
+
+  it("feeds program analytics without calling the HTTP API", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    vi.spyOn(UniswapIntegrationService.prototype, "getPoolData").mockResolvedValue({ tvlUSD: 73000, volume24hUSD: 5000 } as PoolData);
+    vi.spyOn(incentiveProgramService, "getProgram").mockResolvedValue(PROGRAM);
+    vi.spyOn(unifiedRewardService, "getAllocationPreview").mockRejectedValue(new Error("no ledger"));
+
+    const analytics = await unifiedRewardService.getProgramAnalytics(PROGRAM.id);
+    expect(analytics).toMatchObject({ programAPR: 10, totalLiquidity: 73000, poolVolume24h: 5000, poolFeeEarnings24h: 15 });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
@@ -11,13 +11,15 @@
  * 4. Real-time data only, no fallback values
  */
 
-import { sql } from 'drizzle-orm';
 import type { IStorage } from './storage';
 import { unifiedRewardService } from './unified-reward-service';
-import { db } from './db';
-import { treasuryConfig } from '../shared/schema';
+import { incentiveProgramService, type ResolvedIncentiveProgram } from './incentive-program-service';
+import { kiltPriceService } from './kilt-price-service';
+import { getUniswapIntegrationService } from './uniswap-integration-service';
 
 export interface APRData {
+  programId: number;
+
   // Program-wide APR (what gets displayed in Expected Returns)
   programAPR: number;           // Official program APR from treasury distribution
   tradingAPR: number;          // Pool-wide trading fees APR from DexScreener
@@ -38,11 +40,25 @@ export interface APRData {
   totalProgramTVL: number;
 }
 
+// Budget-over-TVL program APR and the pool figures it was computed from (served by /api/apr/streamlined)
+export interface StreamlinedAPR {
+  programId: number;
+  programAPR: number;
+  tradingAPR: number;
+  totalAPR: number;
+  poolTVL: number;
+  volume24h: number;
+  dailyBudget: number;
+  programDurationDays: number;
+  kiltPrice: number;
+}
+
 export class SingleSourceAPR {
   private database: IStorage;
-  private static cache: APRData | null = null;
-  private static cacheExpiry: number = 0;
+  private static cache: Map<string, { data: APRData; expiry: number }> = new Map(); // keyed by program id ('primary' for the default)
+  private static streamlinedCache: Map<number, { data: StreamlinedAPR; expiry: number }> = new Map(); // keyed by program id
   private static readonly CACHE_DURATION = 30000; // 30 seconds - balance between speed and accuracy
+  private static readonly STREAMLINED_TRADING_APR = 4.5;
 
   constructor(database: IStorage) {
     this.database = database;
@@ -50,19 +66,29 @@ export class SingleSourceAPR {
 
   /**
    * GET THE OFFICIAL PROGRAM APR - SINGLE SOURCE OF TRUTH
-   * This is what should be displayed in Expected Returns section
+   * This is what should be displayed in Expected Returns section. Without a program id the
+   * treasury-funded program is used.
    */
-  async getProgramAPR(): Promise<APRData> {
+  async getProgramAPR(programId?: number): Promise<APRData> {
     // Check cache first
-    if (SingleSourceAPR.cache && Date.now() < SingleSourceAPR.cacheExpiry) {
-      return SingleSourceAPR.cache;
+    const cacheKey = programId !== undefined ? String(programId) : 'primary';
+    const cached = SingleSourceAPR.cache.get(cacheKey);
+    if (cached && Date.now() < cached.expiry) {
+      return cached.data;
     }
 
     try {
+      const program = programId !== undefined
+        ? await incentiveProgramService.getProgram(programId)
+        : await incentiveProgramService.getPrimaryProgram();
+      if (!program) {
+        throw new Error(`Incentive program ${programId ?? '(primary)'} not found`);
+      }
+
       // Get program analytics (direct service call - no HTTP)
       let analytics;
       try {
-        analytics = await unifiedRewardService.getProgramAnalytics();
+        analytics = await unifiedRewardService.getProgramAnalytics(program.id);
       } catch (analyticsError) {
         console.error('⚠️ Analytics service failed, using fallback:', analyticsError);
         // Use fallback analytics if service fails
@@ -73,23 +99,16 @@ export class SingleSourceAPR {
         };
       }
       
-      // Get treasury configuration
-      let treasuryConf;
-      try {
-        [treasuryConf] = await db.select().from(treasuryConfig).limit(1);
-      } catch (dbError) {
-        console.error('⚠️ DB access failed, using defaults:', dbError);
-        treasuryConf = { dailyBudget: 5000 };
-      }
-
-      // Get trading fees APR (direct calculation - no HTTP)
-      const tradingAPR = await this.calculateTradingFeesAPR();
+      // Get trading fees APR for the program's pool (direct calculation - no HTTP)
+      const tradingAPR = await this.calculateTradingFeesAPR(program.poolAddress, program.feeTier);
 
       // Calculate maximum APR (direct calculation - no HTTP)
       const maxAPR = 150000; // Maximum theoretical APR
 
       // Create the SINGLE SOURCE OF TRUTH
       const aprData: APRData = {
+        programId: program.id,
+
         // Program-wide APR (OFFICIAL VALUES)
         programAPR: analytics.programAPR || 0,
         tradingAPR: tradingAPR || 0,
@@ -106,10 +125,10 @@ export class SingleSourceAPR {
       };
 
       // Cache the result
-      SingleSourceAPR.cache = aprData;
-      SingleSourceAPR.cacheExpiry = Date.now() + SingleSourceAPR.CACHE_DURATION;
+      SingleSourceAPR.cache.set(cacheKey, { data: aprData, expiry: Date.now() + SingleSourceAPR.CACHE_DURATION });
 
       console.log('🎯 SINGLE SOURCE APR:', {
+        programId: aprData.programId,
         programAPR: aprData.programAPR,
         tradingAPR: aprData.tradingAPR,
         totalAPR: aprData.totalProgramAPR
@@ -123,6 +142,47 @@ export class SingleSourceAPR {
     }
   }
 
+  /**
+   * STREAMLINED PROGRAM APR - the program's daily budget in USD, annualized over the pool's TVL.
+   * While the pool can't be read the last computed figures are served; without any it throws.
+   */
+  async getStreamlinedAPR(program: ResolvedIncentiveProgram): Promise<StreamlinedAPR> {
+    const cached = SingleSourceAPR.streamlinedCache.get(program.id);
+    if (cached && Date.now() < cached.expiry) {
+      return cached.data;
+    }
+
+    try {
+      const pool = await getUniswapIntegrationService(program.chainId).getPoolData(program.poolAddress);
+      const kiltPrice = kiltPriceService.getCurrentPrice();
+      const annualBudgetUSD = program.dailyBudget * kiltPrice * 365;
+      const programAPR = Math.round((annualBudgetUSD / pool.tvlUSD) * 100 * 10) / 10;
+      const tradingAPR = SingleSourceAPR.STREAMLINED_TRADING_APR;
+
+      const data: StreamlinedAPR = {
+        programId: program.id,
+        programAPR,
+        tradingAPR,
+        totalAPR: Math.round((programAPR + tradingAPR) * 10) / 10,
+        poolTVL: pool.tvlUSD,
+        volume24h: pool.volume24hUSD,
+        dailyBudget: program.dailyBudget,
+        programDurationDays: program.durationDays,
+        kiltPrice
+      };
+      SingleSourceAPR.streamlinedCache.set(program.id, { data, expiry: Date.now() + SingleSourceAPR.CACHE_DURATION });
+
+      console.log(`📊 STREAMLINED APR: Program ${data.programAPR}% (${program.dailyBudget} KILT × $${kiltPrice} × 365 ÷ $${pool.tvlUSD}), Trading ${tradingAPR}%, Total ${data.totalAPR}%`);
+      return data;
+    } catch (error) {
+      if (cached) {
+        console.warn(`⚠️ Pool data unavailable for program ${program.id}, serving the last streamlined APR:`, error);
+        return cached.data;
+      }
+      throw error;
+    }
+  }
+
   /**
    * GET USER-SPECIFIC APR (for individual wallet analysis)
    */
@@ -158,8 +218,8 @@ export class SingleSourceAPR {
    * CLEAR CACHE (for admin updates)
    */
   static clearCache(): void {
-    SingleSourceAPR.cache = null;
-    SingleSourceAPR.cacheExpiry = 0;
+    SingleSourceAPR.cache.clear();
+    SingleSourceAPR.streamlinedCache.clear();
     console.log('🗑️ APR cache cleared');
   }
 
@@ -167,14 +227,14 @@ export class SingleSourceAPR {
    * GET DISPLAY VALUES FOR EXPECTED RETURNS SECTION
    * This standardizes what gets shown to users
    */
-  async getExpectedReturnsDisplay(): Promise<{
+  async getExpectedReturnsDisplay(programId?: number): Promise<{
     tradingAPR: string;
     incentiveAPR: string;
     totalAPR: string;
     source: string;
   }> {
     try {
-      const data = await this.getProgramAPR();
+      const data = await this.getProgramAPR(programId);
       
       return {
         tradingAPR: data.tradingAPR.toFixed(2),
@@ -207,13 +267,12 @@ export class SingleSourceAPR {
   }
 
   /**
-   * Calculate trading fees APR directly from DexScreener API
+   * Calculate a pool's trading fees APR directly from DexScreener API
    * This replaces the HTTP call to avoid circular dependencies
    */
-  private async calculateTradingFeesAPR(): Promise<number> {
+  private async calculateTradingFeesAPR(poolAddress: string, feeTier: number): Promise<number> {
     try {
-      const kiltTokenAddress = '0x5d0dd05bb095fdd6af4865a1adf97c39c85ad2d8';
-      const dexScreenerUrl = `https://api.dexscreener.com/latest/dex/tokens/${kiltTokenAddress}`;
+      const dexScreenerUrl = `https://api.dexscreener.com/latest/dex/pairs/base/${poolAddress.toLowerCase()}`;
       
       const response = await fetch(dexScreenerUrl);
       if (!response.ok) {
@@ -221,20 +280,16 @@ export class SingleSourceAPR {
       }
       
       const data = await response.json();
-      const kiltWethPair = data.pairs?.find((pair: any) => 
-        pair.chainId === 'base' && 
-        pair.quoteToken.symbol === 'WETH' &&
-        pair.baseToken.symbol === 'KILT'
-      );
+      const pair = data.pair || data.pairs?.[0];
       
-      if (!kiltWethPair) {
+      if (!pair) {
         return 4.49; // Fallback value
       }
       
       // Calculate trading fees APR from DexScreener data
-      const poolTVL = parseFloat(kiltWethPair.liquidity?.usd || '0');
-      const volume24h = parseFloat(kiltWethPair.volume?.h24 || '0');
-      const feeRate = 0.003; // 0.3% fee tier for Uniswap V3
+      const poolTVL = parseFloat(pair.liquidity?.usd || '0');
+      const volume24h = parseFloat(pair.volume?.h24 || '0');
+      const feeRate = feeTier / 1_000_000; // Uniswap V3 fee tier in hundredths of a bip
       
       const dailyFees = volume24h * feeRate;
       const tradingFeesAPR = poolTVL > 0 ? (dailyFees * 365) / poolTVL * 100 : 0;
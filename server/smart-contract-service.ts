@@ -1,5 +1,4 @@
 import { ethers } from 'ethers';
-import { db } from './db';
 import { 
   rewards, 
   lpPositions, 
@@ -11,9 +10,9 @@ import { eq, and } from 'drizzle-orm';
 
 // Smart contract configuration from database - Single Source of Truth
 import { blockchainConfigService } from './blockchain-config-service';
-import { treasuryConfig } from '@shared/schema';
-import { rpcManager } from './rpc-connection-manager';
-const BASE_RPC_URL = process.env.BASE_RPC_URL || 'https://mainnet.base.org';
+import { storage } from './storage';
+import { getRpcManager } from './rpc-connection-manager';
+import { DEFAULT_CHAIN_ID, requireChainConfig, type ChainConfig } from './chain-registry';
 
 // Use calculator private key instead of owner private key for signing
 const CALCULATOR_PRIVATE_KEY = process.env.CALCULATOR_PRIVATE_KEY || process.env.REWARD_WALLET_PRIVATE_KEY;
@@ -23,10 +22,22 @@ console.log('🔐 Environment check:', {
   rewardKey: process.env.REWARD_WALLET_PRIVATE_KEY ? 'PROVIDED' : 'MISSING'
 });
 
-// Helper function to get smart contract address from database
-async function getSmartContractAddress(): Promise<string> {
+// Helper function to get the treasury contract address - the chain registry first, then
+// treasury_config for the default chain
+async function getSmartContractAddress(chainId: number = DEFAULT_CHAIN_ID): Promise<string> {
   try {
-    const [config] = await db.select().from(treasuryConfig).limit(1);
+    const registered = requireChainConfig(chainId).treasuryContract;
+    if (registered || chainId !== DEFAULT_CHAIN_ID) {
+      if (!registered) {
+        throw new Error(`Treasury contract not configured for chain ${chainId}`);
+      }
+      if (!ethers.isAddress(registered)) {
+        throw new Error(`Invalid treasury contract address for chain ${chainId}`);
+      }
+      return registered;
+    }
+
+    const config = await storage.getTreasuryConfig();
     if (!config?.smartContractAddress) {
       throw new Error('Smart contract address not configured in database');
     }
@@ -50,6 +61,7 @@ const REWARD_POOL_ABI = [
   // User claiming with signature verification
   'function claimRewards(uint256 totalRewardBalance, bytes calldata signature) external',
   'function emergencyClaim(address user, uint256 totalRewardBalance) external',
+  'function claimMultiTokenRewards(address[] calldata tokens, uint256[] calldata amounts, bytes calldata signature) external',
   
   // Security view functions
   'function nonces(address user) external view returns (uint256)',
@@ -59,6 +71,10 @@ const REWARD_POOL_ABI = [
   // Enhanced user functions
   'function getUserStats(address user) external view returns (uint256 claimed, uint256 lastClaim, uint256 canClaimAt, uint256 currentNonce)',
   'function getClaimedAmount(address user) external view returns (uint256)',
+  'function getClaimedTokenAmount(address user, address token) external view returns (uint256)',
+  'function getRewardTokens() external view returns (address[])',
+  'function supportedRewardTokens(address token) external view returns (bool)',
+  'function tokenMaxClaim(address token) external view returns (uint256)',
   'function canUserClaim(address user, uint256 rewardBalance) external view returns (bool)',
   'function getContractStats() external view returns (uint256 balance, uint256 totalClaims, uint256 totalAmount)',
   
@@ -141,15 +157,19 @@ export interface SmartContractStats {
 }
 
 export class SmartContractService {
+  readonly chainId: number;
+  private readonly chain: ChainConfig;
   private provider: ethers.JsonRpcProvider;
   private wallet: ethers.Wallet | null = null;
   private rewardPoolContract: ethers.Contract | null = null;
   private kiltTokenContract: ethers.Contract | null = null;
   private isContractDeployed: boolean = false; // Production: Deploy contracts before enabling
 
-  constructor() {
+  constructor(chainId: number = DEFAULT_CHAIN_ID) {
+    this.chainId = chainId;
+    this.chain = requireChainConfig(chainId);
     // Initialize with primary RPC but use connection manager for resilient calls
-    this.provider = new ethers.JsonRpcProvider(BASE_RPC_URL);
+    this.provider = new ethers.JsonRpcProvider(this.chain.rpcUrls[0]);
     
     // Initialize contracts dynamically using database configuration
     this.initializeContracts().catch(error => {
@@ -209,18 +229,18 @@ export class SmartContractService {
    */
   private async switchToAlternativeRPC(): Promise<void> {
     try {
-      // Get an alternative RPC client from the connection manager
-      const altClient = await rpcManager.getClient();
+      // Get an alternative RPC endpoint from the chain's connection manager
+      const { url } = await getRpcManager(this.chainId).getClient();
       
-      // Create new provider using the transport from alternative client
-      this.provider = new ethers.JsonRpcProvider(BASE_RPC_URL);
+      // Create new provider on the alternative endpoint
+      this.provider = new ethers.JsonRpcProvider(url);
       
       // Reinitialize contracts with new provider
       if (this.wallet) {
         this.wallet = new ethers.Wallet(this.wallet.privateKey, this.provider);
         
         if (this.rewardPoolContract) {
-          const contractAddress = await getSmartContractAddress();
+          const contractAddress = await getSmartContractAddress(this.chainId);
           this.rewardPoolContract = new ethers.Contract(
             contractAddress,
             REWARD_POOL_ABI,
@@ -229,7 +249,7 @@ export class SmartContractService {
         }
         
         if (this.kiltTokenContract) {
-          const kilt = await blockchainConfigService.getKiltTokenAddress();
+          const kilt = await this.getKiltTokenAddress();
           this.kiltTokenContract = new ethers.Contract(
             kilt,
             KILT_TOKEN_ABI,
@@ -250,7 +270,7 @@ export class SmartContractService {
    */
   private async initializeContracts(): Promise<void> {
     try {
-      const contractAddress = await getSmartContractAddress();
+      const contractAddress = await getSmartContractAddress(this.chainId);
       const privateKey = CALCULATOR_PRIVATE_KEY;
       
       if (contractAddress && privateKey) {
@@ -278,7 +298,7 @@ export class SmartContractService {
    */
   private async initializeKiltContract(): Promise<void> {
     if (!this.kiltTokenContract && this.wallet) {
-      const kilt = await blockchainConfigService.getKiltTokenAddress();
+      const kilt = await this.getKiltTokenAddress();
       this.kiltTokenContract = new ethers.Contract(
         kilt,
         KILT_TOKEN_ABI,
@@ -287,6 +307,16 @@ export class SmartContractService {
     }
   }
 
+  /**
+   * KILT on the default chain comes from blockchain config, elsewhere from the treasury contract
+   */
+  private async getKiltTokenAddress(): Promise<string> {
+    if (this.chainId === DEFAULT_CHAIN_ID || !this.rewardPoolContract) {
+      return blockchainConfigService.getKiltTokenAddress();
+    }
+    return await this.rewardPoolContract.kiltToken();
+  }
+
   /**
    * Check if smart contracts are deployed and accessible
    */
@@ -585,6 +615,68 @@ export class SmartContractService {
     }
   }
 
+  /**
+   * Signature for claimMultiTokenRewards - one nonce covers every token in the claim, so tokens
+   * are sorted ascending by address as the contract requires
+   */
+  async generateMultiTokenClaimSignature(
+    userAddress: string,
+    claims: Array<{ tokenAddress: string; amount: number; decimals: number }>
+  ): Promise<{ success: boolean; signature?: string; nonce?: number; tokens?: string[]; amounts?: string[]; error?: string }> {
+    try {
+      if (!this.isContractDeployed || !this.rewardPoolContract || !this.wallet) {
+        return { success: false, error: 'Smart contracts not deployed or wallet not initialized' };
+      }
+      if (claims.length === 0) {
+        return { success: false, error: 'No claimable rewards' };
+      }
+
+      const sorted = [...claims]
+        .map(claim => ({ ...claim, tokenAddress: ethers.getAddress(claim.tokenAddress) }))
+        .sort((a, b) => (BigInt(a.tokenAddress) < BigInt(b.tokenAddress) ? -1 : 1));
+      const tokens = sorted.map(claim => claim.tokenAddress);
+      // Round down to 6 places (or the token's precision) so a claim never exceeds what accrued
+      const amounts = sorted.map(claim => {
+        const places = Math.min(claim.decimals, 6);
+        const floored = Math.floor(claim.amount * 10 ** places) / 10 ** places;
+        return ethers.parseUnits(floored.toFixed(places), claim.decimals);
+      });
+
+      const userNonce = await this.makeResilientCall(
+        () => this.rewardPoolContract!.nonces(userAddress),
+        'nonces'
+      );
+
+      // Match the contract's _createMultiTokenMessageHash:
+      // keccak256(abi.encodePacked(user, keccak256(abi.encodePacked(tokens)), keccak256(abi.encodePacked(amounts)), nonce))
+      const innerHash = ethers.solidityPackedKeccak256(
+        ['address', 'bytes32', 'bytes32', 'uint256'],
+        [
+          userAddress,
+          ethers.solidityPackedKeccak256(['address[]'], [tokens]),
+          ethers.solidityPackedKeccak256(['uint256[]'], [amounts]),
+          userNonce
+        ]
+      );
+      const signature = await this.wallet.signMessage(ethers.getBytes(innerHash));
+      console.log(`🔐 Multi-token claim signed for ${userAddress}: ${tokens.length} tokens, nonce ${userNonce}`);
+
+      return {
+        success: true,
+        signature,
+        nonce: Number(userNonce),
+        tokens,
+        amounts: amounts.map(amount => amount.toString())
+      };
+    } catch (error: unknown) {
+      console.error('❌ Multi-token claim signature failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to generate multi-token claim signature'
+      };
+    }
+  }
+
   /**
    * Process reward claims through smart contract with enhanced security
    */
@@ -594,10 +686,10 @@ export class SmartContractService {
   ): Promise<ClaimResult> {
     try {
       // Check if contract is deployed first
-      const contractAddress = await getSmartContractAddress();
+      const contractAddress = await getSmartContractAddress(this.chainId);
       
       // Validate that contract is actually deployed on blockchain
-      const provider = new ethers.JsonRpcProvider(BASE_RPC_URL);
+      const provider = new ethers.JsonRpcProvider(this.chain.rpcUrls[0]);
       const code = await provider.getCode(contractAddress);
       
       console.log(`🔍 Contract verification for ${contractAddress}: code length = ${code.length}`);
@@ -693,8 +785,8 @@ export class SmartContractService {
    */
   async getClaimableRewards(userAddress: string): Promise<number> {
     try {
-      const contractAddress = await getSmartContractAddress();
-      const provider = new ethers.JsonRpcProvider(BASE_RPC_URL);
+      const contractAddress = await getSmartContractAddress(this.chainId);
+      const provider = new ethers.JsonRpcProvider(this.chain.rpcUrls[0]);
       
       // Check if contract is deployed
       const code = await provider.getCode(contractAddress);
@@ -715,8 +807,8 @@ export class SmartContractService {
    */
   async getClaimedAmount(userAddress: string): Promise<{ success: boolean; claimedAmount?: number; error?: string }> {
     try {
-      const contractAddress = await getSmartContractAddress();
-      const provider = new ethers.JsonRpcProvider(BASE_RPC_URL);
+      const contractAddress = await getSmartContractAddress(this.chainId);
+      const provider = new ethers.JsonRpcProvider(this.chain.rpcUrls[0]);
       
       console.log(`🔍 Getting claimed amount for user ${userAddress} from contract ${contractAddress}...`);
       
@@ -794,6 +886,32 @@ export class SmartContractService {
     }
   }
 
+  /**
+   * Claimed totals for non-KILT reward tokens keyed by lowercase address - a failed read counts as 0
+   */
+  async getClaimedTokenAmounts(
+    userAddress: string,
+    tokens: Array<{ tokenAddress: string; decimals: number }>
+  ): Promise<Map<string, number>> {
+    const claimed = new Map<string, number>();
+    try {
+      const contractAddress = await getSmartContractAddress(this.chainId);
+      const contract = new ethers.Contract(contractAddress, REWARD_POOL_ABI, this.provider);
+
+      await Promise.all(tokens.map(async token => {
+        try {
+          const amountWei = await contract.getClaimedTokenAmount(userAddress, token.tokenAddress);
+          claimed.set(token.tokenAddress.toLowerCase(), Number(ethers.formatUnits(amountWei, token.decimals)));
+        } catch (error: unknown) {
+          console.log(`⚠️ Claimed ${token.tokenAddress} unavailable for ${userAddress}:`, error instanceof Error ? error.message : error);
+        }
+      }));
+    } catch (error: unknown) {
+      console.error('❌ Failed to get claimed token amounts:', error);
+    }
+    return claimed;
+  }
+
   /**
    * Get user stats including 24-hour claimability from smart contract
    */
@@ -806,8 +924,8 @@ export class SmartContractService {
     error?: string 
   }> {
     try {
-      const contractAddress = await getSmartContractAddress();
-      const provider = new ethers.JsonRpcProvider(BASE_RPC_URL);
+      const contractAddress = await getSmartContractAddress(this.chainId);
+      const provider = new ethers.JsonRpcProvider(this.chain.rpcUrls[0]);
       
       console.log(`📊 Getting user stats for ${userAddress} from contract ${contractAddress}...`);
       
@@ -888,8 +1006,8 @@ export class SmartContractService {
    */
   async getTreasuryBalance(): Promise<number> {
     try {
-      const contractAddress = await getSmartContractAddress();  
-      const provider = new ethers.JsonRpcProvider(BASE_RPC_URL);
+      const contractAddress = await getSmartContractAddress(this.chainId);  
+      const provider = new ethers.JsonRpcProvider(this.chain.rpcUrls[0]);
       
       // Check if contract is deployed
       const code = await provider.getCode(contractAddress);
@@ -1135,7 +1253,7 @@ export class SmartContractService {
    */
   async checkRewardWalletBalance(): Promise<{ balance: number; sufficient: boolean }> {
     try {
-      const contractAddress = await getSmartContractAddress();
+      const contractAddress = await getSmartContractAddress(this.chainId);
       const balance = await this.getKiltTokenBalance(contractAddress);
       const sufficient = balance >= 100000; // Consider sufficient if >= 100k KILT
       
@@ -1164,7 +1282,7 @@ export class SmartContractService {
   }> {
     if (!this.isContractDeployed) {
       // Return fallback data when contract not deployed
-      const contractAddress = await getSmartContractAddress().catch(() => '0x0000000000000000000000000000000000000000');
+      const contractAddress = await getSmartContractAddress(this.chainId).catch(() => '0x0000000000000000000000000000000000000000');
       return {
         startTime: Math.floor(Date.now() / 1000),
         endTime: Math.floor(Date.now() / 1000) + (365 * 24 * 60 * 60),
@@ -1197,7 +1315,7 @@ export class SmartContractService {
       };
     } catch (error: unknown) {
       // Failed to get program info
-      const contractAddress = await getSmartContractAddress().catch(() => '0x0000000000000000000000000000000000000000');
+      const contractAddress = await getSmartContractAddress(this.chainId).catch(() => '0x0000000000000000000000000000000000000000');
       return {
         startTime: Math.floor(Date.now() / 1000),
         endTime: Math.floor(Date.now() / 1000) + (365 * 24 * 60 * 60),
@@ -1468,4 +1586,19 @@ export class SmartContractService {
 }
 
 // Export singleton instance
-export const smartContractService = new SmartContractService();
\ No newline at end of file
+const chainServices = new Map<number, SmartContractService>();
+
+/**
+ * Treasury contract service for one chain, created on first use
+ */
+export function getSmartContractService(chainId: number = DEFAULT_CHAIN_ID): SmartContractService {
+  let service = chainServices.get(chainId);
+  if (!service) {
+    service = new SmartContractService(chainId);
+    chainServices.set(chainId, service);
+  }
+  return service;
+}
+
+// Default (Base) instance
+export const smartContractService = getSmartContractService();
\ No newline at end of file
@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MemStorage } from "./storage";
+import { ProgramSettingsService } from "./program-settings-service";
+import { RewardLedgerService } from "./reward-ledger-service";
+
+const POOL = "0x82Da478b1382B951cBaD01Beb9eD459cDB16458E";
+const HOUR = 60 * 60 * 1000;
+
+function at(hours: number): Date {
+  return new Date(Date.UTC(2025, 0, 1) + hours * HOUR);
+}
+
+describe("MemStorage", () => {
+  let storage: MemStorage;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  describe("users and positions", () => {
+    it("creates users and finds them by address", async () => {
+      const user = await storage.createUser({ address: "0xabc" });
+      expect(await storage.getUserByAddress("0xabc")).toEqual(user);
+      expect(await storage.getUser(user.id + 1)).toBeUndefined();
+    });
+
+    it("lists a user's positions", async () => {
+      const user = await storage.createUser({ address: "0xabc" });
+      const position = await storage.createLpPosition({
+        userId: user.id,
+        nftTokenId: "42",
+        poolAddress: POOL,
+        token0Address: "0x1",
+        token1Address: "0x2",
+        token0Amount: "100",
+        token1Amount: "1",
+        minPrice: "0.1",
+        maxPrice: "1",
+        tickLower: -600,
+        tickUpper: 600,
+        liquidity: "1000",
+        feeTier: 3000
+      });
+
+      expect(await storage.getLpPositionsByUserId(user.id)).toEqual([position]);
+      expect((await storage.getLpPositionByNftTokenId("42"))?.id).toBe(position.id);
+    });
+  });
+
+  describe("program settings", () => {
+    it("has no settings until a version is created", async () => {
+      expect(await storage.getProgramSettings()).toBeUndefined();
+      expect(await storage.getProgramSettingsVersions()).toEqual([]);
+    });
+
+    it("fills schema defaults for omitted fields", async () => {
+      const created = await storage.createProgramSettingsVersion({ lockPeriod: 3 });
+      expect(created).toMatchObject({
+        timeBoostCoefficient: "0.600",
+        fullRangeBonus: "1.200",
+        minimumPositionValue: "10.00000000",
+        lockPeriod: 3,
+        createdBy: null
+      });
+      expect(await storage.getProgramSettings()).toEqual(created);
+    });
+
+    it("resolves the version in effect at a point in time", async () => {
+      const first = await storage.createProgramSettingsVersion({ lockPeriod: 7, effectiveFrom: at(0) });
+      const second = await storage.createProgramSettingsVersion({ lockPeriod: 14, effectiveFrom: at(24) });
+
+      expect((await storage.getProgramSettingsVersions()).map(version => version.id)).toEqual([second.id, first.id]);
+      expect(await storage.getProgramSettings(at(-1))).toBeUndefined();
+      expect((await storage.getProgramSettings(at(12)))?.id).toBe(first.id);
+      expect((await storage.getProgramSettings(at(24)))?.id).toBe(second.id);
+    });
+
+    it("backs the settings service", async () => {
+      const service = new ProgramSettingsService(storage);
+      expect((await service.getFormulaSettings()).versionId).toBeNull();
+
+      const created = await service.createVersion({
+        timeBoostCoefficient: 0.8,
+        fullRangeBonus: 1.1,
+        minimumPositionValue: 25,
+        lockPeriod: 5
+      });
+      service.clearCache();
+
+      expect(await service.getFormulaSettings()).toMatchObject({
+        versionId: created.id,
+        timeBoostCoefficient: 0.8,
+        fullRangeBonus: 1.1,
+        minimumPositionValue: 25,
+        lockPeriod: 5
+      });
+    });
+  });
+
+  describe("pool tick samples", () => {
+    it("stores pool addresses lowercase and returns the latest sample", async () => {
+      await storage.createPoolTickSample({ poolAddress: POOL, tick: 10, sqrtPriceX96: "1", sampledAt: at(0) });
+      const latest = await storage.createPoolTickSample({ poolAddress: POOL, tick: 20, sqrtPriceX96: "2", sampledAt: at(1) });
+
+      expect(latest.poolAddress).toBe(POOL.toLowerCase());
+      expect(await storage.getLatestPoolTickSample(POOL.toLowerCase())).toEqual(latest);
+      expect(await storage.getLatestPoolTickSample("0xother")).toBeUndefined();
+    });
+
+    it("returns the interval's samples plus the last one before it", async () => {
+      for (const [hour, tick] of [[0, 1], [1, 2], [2, 3], [3, 4], [4, 5]]) {
+        await storage.createPoolTickSample({ poolAddress: POOL, tick, sqrtPriceX96: "1", sampledAt: at(hour) });
+      }
+
+      const samples = await storage.getPoolTickSamples(POOL, at(1.5), at(4));
+      expect(samples.map(sample => sample.tick)).toEqual([2, 3, 4]);
+    });
+
+    it("finds where the current out-of-range episode started", async () => {
+      for (const [hour, tick] of [[0, 900], [1, 0], [2, 900], [3, 1200]]) {
+        await storage.createPoolTickSample({ poolAddress: POOL, tick, sqrtPriceX96: "1", sampledAt: at(hour) });
+      }
+
+      expect((await storage.getFirstSampleOutsideRange(POOL, -600, 600))?.sampledAt).toEqual(at(2));
+      expect((await storage.getFirstSampleOutsideRange(POOL, 1500, 1800))?.sampledAt).toEqual(at(0));
+    });
+
+    it("feeds the ledger's in-range fraction", async () => {
+      await storage.createPoolTickSample({ poolAddress: POOL, tick: 0, sqrtPriceX96: "1", sampledAt: at(0) });
+      await storage.createPoolTickSample({ poolAddress: POOL, tick: 900, sqrtPriceX96: "1", sampledAt: at(6) });
+
+      const ledger = new RewardLedgerService(storage);
+      const samples = await storage.getPoolTickSamples(POOL, at(0), at(24));
+      const result = ledger.computeInRangeFraction(samples, -600, 600, at(0), at(24));
+
+      expect(result).toEqual({ fraction: 0.25, sampleCount: 2, hasData: true });
+    });
+  });
+
+  describe("reward ledger", () => {
+    const PARAMS = { programId: 1, dailyBudget: 100, programDurationDays: 30, programStartDate: at(0), baseAPR: 0, partnerTokens: [] };
+
+    async function registerPosition(nftTokenId: string, createdAt: Date) {
+      const user = await storage.createUser({ address: `0x${nftTokenId}` });
+      const position = await storage.createLpPosition({
+        userId: user.id,
+        nftTokenId,
+        poolAddress: POOL,
+        token0Address: "0x1",
+        token1Address: "0x2",
+        token0Amount: "100",
+        token1Amount: "1",
+        minPrice: "0.1",
+        maxPrice: "1",
+        tickLower: -600,
+        tickUpper: 600,
+        liquidity: "1000",
+        currentValueUSD: "1000",
+        rewardEligible: true,
+        programId: PARAMS.programId
+      });
+      return (await storage.updateLpPosition(position.id, { createdAt }))!;
+    }
+
+    it("backfills a late registration from the budget left in closed days", async () => {
+      const early = await registerPosition("1", at(12));
+      await new RewardLedgerService(storage).accrueThrough(at(48), PARAMS);
+      expect((await storage.getDailyRewards({ programId: 1, date: "2025-01-01" })).map(entry => entry.dailyRewardAmount)).toEqual(["50.00000000"]);
+
+      // Registered after 2025-01-01 closed, with a createdAt inside it
+      const late = await registerPosition("2", at(0));
+      await new RewardLedgerService(storage).accrueThrough(at(60), PARAMS);
+
+      const [backfilled] = await storage.getDailyRewards({ positionId: late.id, date: "2025-01-01" });
+      expect(backfilled.dailyRewardAmount).toBe("50.00000000");
+      expect((await storage.getDailyRewards({ positionId: early.id, date: "2025-01-01" }))[0].dailyRewardAmount).toBe("50.00000000");
+      const totals = await storage.getRewardAllocationTotals(PARAMS.programId);
+      expect(totals.daysAllocated).toBe(2);
+      expect(totals.totalAllocated).toBeCloseTo(200, 5);
+      expect((await storage.getDailyRewards({ programId: 1, date: "2025-01-02" })).map(entry => entry.positionId).sort()).toEqual([early.id, late.id]);
+    });
+
+    it("counts closed days the ledger has not accrued yet", async () => {
+      const ledger = new RewardLedgerService(storage);
+      expect(await ledger.countUnaccruedDays(at(72), PARAMS)).toBe(0);
+
+      await registerPosition("1", at(12));
+      expect(await ledger.countUnaccruedDays(at(72), PARAMS)).toBe(3);
+
+      await ledger.accrueThrough(at(48), PARAMS);
+      expect(await ledger.countUnaccruedDays(at(72), PARAMS)).toBe(1);
+      expect(await ledger.countUnaccruedDays(at(50), PARAMS)).toBe(0);
+    });
+  });
+
+  describe("rewards", () => {
+    async function createReward(userId: number, nftTokenId: string, dailyRewardAmount: string) {
+      return storage.createReward({
+        userId,
+        nftTokenId,
+        amount: dailyRewardAmount,
+        positionValueUSD: "1000",
+        dailyRewardAmount,
+        accumulatedAmount: dailyRewardAmount,
+        liquidityAddedAt: at(0)
+      });
+    }
+
+    it("splits rows into unclaimed rows and per-user claimed totals", async () => {
+      const user = await storage.createUser({ address: "0xabc" });
+      const first = await createReward(user.id, "1", "10");
+      const second = await createReward(user.id, "1", "5");
+      await createReward(user.id, "2", "7");
+      await storage.markRewardsClaimed([first.id, second.id]);
+
+      expect(await storage.getUnclaimedRewards()).toEqual([{ userAddress: "0xabc", nftTokenId: "2", dailyRewardAmount: "7" }]);
+      expect(await storage.getClaimedRewardTotals()).toEqual([{ userId: user.id, address: "0xabc", claimedRows: 2, claimedTotal: 15 }]);
+
+      expect(await storage.deleteAllRewards()).toBe(3);
+      expect(await storage.getAllRewards()).toEqual([]);
+    });
+  });
+
+  describe("admin operations", () => {
+    it("filters newest first and pages with the full count", async () => {
+      vi.useFakeTimers();
+      for (const [hour, operationType, performedBy] of [[0, "TREASURY_UPDATE", "0xAdmin"], [1, "settings_change", "0xadmin"], [2, "treasury_update", "0xother"]] as const) {
+        vi.setSystemTime(at(hour));
+        await storage.createAdminOperation({ operation: operationType, operationType, performedBy });
+      }
+      vi.useRealTimers();
+
+      const page = await storage.getAdminOperations({ performedBy: "0xADMIN" }, 1);
+      expect(page.total).toBe(2);
+      expect(page.operations.map(operation => operation.operationType)).toEqual(["settings_change"]);
+      expect((await storage.getAdminOperations({ operationTypes: ["treasury_update"], from: at(1) }, 10)).operations.map(operation => operation.performedBy)).toEqual(["0xother"]);
+      expect(await storage.getAdminOperationFacets()).toEqual({
+        operationTypes: ["settings_change", "treasury_update"],
+        operators: ["0xAdmin", "0xadmin", "0xother"]
+      });
+    });
+  });
+
+  describe("rate limit counters", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("counts hits within a window and starts a new one after it resets", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(at(0));
+
+      expect(await storage.incrementRateLimitCounter("v1:api-key:1", HOUR)).toEqual({ hits: 1, resetAt: at(1) });
+      expect((await storage.incrementRateLimitCounter("v1:api-key:1", HOUR)).hits).toBe(2);
+      expect((await storage.incrementRateLimitCounter("v1:api-key:2", HOUR)).hits).toBe(1);
+
+      vi.setSystemTime(at(1));
+      expect(await storage.incrementRateLimitCounter("v1:api-key:1", HOUR)).toEqual({ hits: 1, resetAt: at(2) });
+    });
+
+    it("decrements and resets a key", async () => {
+      await storage.incrementRateLimitCounter("v1:api-key:1", HOUR);
+      await storage.incrementRateLimitCounter("v1:api-key:1", HOUR);
+      await storage.decrementRateLimitCounter("v1:api-key:1");
+      expect((await storage.incrementRateLimitCounter("v1:api-key:1", HOUR)).hits).toBe(2);
+
+      await storage.resetRateLimitCounter("v1:api-key:1");
+      expect((await storage.incrementRateLimitCounter("v1:api-key:1", HOUR)).hits).toBe(1);
+    });
+  });
+});
@@ -1,8 +1,5 @@
 import { 
-  users, 
-  lpPositions, 
-  rewards, 
-  poolStats,
+  dailyRewards,
   type User, 
   type InsertUser,
   type LpPosition,
@@ -10,10 +7,95 @@ import {
   type Reward,
   type InsertReward,
   type PoolStats,
-  type InsertPoolStats
+  type InsertPoolStats,
+  type DailyReward,
+  type DailyTokenReward,
+  type InsertDailyTokenReward,
+  type RewardAllocation,
+  type InsertRewardAllocation,
+  type AppTransaction,
+  type InsertAppTransaction,
+  type PositionEligibility,
+  type InsertPositionEligibility,
+  type TreasuryConfig,
+  type InsertTreasuryConfig,
+  type ProgramSettings,
+  type InsertProgramSettings,
+  type PoolTickSample,
+  type InsertPoolTickSample,
+  type AdminOperation,
+  type InsertAdminOperation
 } from "@shared/schema";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { DEFAULT_CHAIN_ID } from "./chain-registry";
+
+export type DailyRewardEntry = typeof dailyRewards.$inferInsert;
+
+export interface DailyRewardFilter {
+  programId?: number;
+  positionId?: number;
+  date?: string; // YYYY-MM-DD
+  since?: string; // YYYY-MM-DD, inclusive
+}
+
+/**
+ * One closed ledger day. Entries, their partner token rows and the allocation row are written
+ * together; rows that already exist are left untouched.
+ */
+export interface LedgerDayWrite {
+  entries: DailyRewardEntry[];
+  tokenEntriesFor: (inserted: DailyReward[]) => InsertDailyTokenReward[];
+  allocation: InsertRewardAllocation;
+}
+
+export interface AllocationTotals {
+  daysAllocated: number;
+  totalAllocated: number;
+  totalCap: number;
+}
+
+export interface RateLimitWindow {
+  hits: number;
+  resetAt: Date;
+}
+
+export interface PartnerTokenTotal {
+  tokenAddress: string;
+  tokenSymbol: string;
+  total: number;
+}
+
+export interface WalletLedgerTotal {
+  address: string;
+  programId: number | null;
+  total: number;
+  firstPositionAt: Date | null; // createdAt of the wallet's earliest position in this program's ledger
+}
+
+export interface UnclaimedReward {
+  userAddress: string;
+  nftTokenId: string;
+  dailyRewardAmount: string;
+}
+
+export interface ClaimedRewardTotal {
+  userId: number;
+  address: string;
+  claimedRows: number;
+  claimedTotal: number;
+}
+
+export interface AdminOperationFilter {
+  performedBy?: string; // Case-insensitive
+  operationTypes?: string[]; // Lowercase; matched against operationType, falling back to operation
+  from?: Date;
+  to?: Date;
+  success?: boolean;
+}
+
+export interface AdminOperationFacets {
+  operationTypes: string[];
+  operators: string[];
+}
 
 export interface IStorage {
   // User methods
@@ -25,34 +107,82 @@ export interface IStorage {
   // LP Position methods
   getLpPosition(id: number): Promise<LpPosition | undefined>;
   getLpPositionsByUserId(userId: number): Promise<LpPosition[]>;
+  getLpPositionsByProgramId(programId: number): Promise<LpPosition[]>;
   getAllLpPositions(): Promise<LpPosition[]>;
   getLpPositionByNftTokenId(nftTokenId: string): Promise<LpPosition | undefined>;
+  getCurrentLpPosition(nftTokenId: string, chainId?: number): Promise<LpPosition | undefined>;
   createLpPosition(position: InsertLpPosition): Promise<LpPosition>;
   updateLpPosition(id: number, updates: Partial<LpPosition>): Promise<LpPosition | undefined>;
   updateLpPositionByTokenId(tokenId: string, updates: Partial<LpPosition>): Promise<LpPosition | undefined>;
   updateLpPositionStatus(tokenId: string, isActive: boolean): Promise<boolean>;
   updateLpPositionRewardEligibility(tokenId: string, rewardEligible: boolean): Promise<boolean>;
   deleteLpPosition(tokenId: string): Promise<boolean>;
+  deleteLpPositionById(id: number): Promise<boolean>;
+  getProgramParticipation(programId: number): Promise<{ users: number; positions: number }>;
+  getUserIdsWithActivePositions(): Promise<number[]>;
   
   // Position registration methods
   getUserPositions(address: string): Promise<any[]>;
   getRegisteredPositions(address: string): Promise<any[]>;
-  getAppTransactionsByUserId(userId: number): Promise<any[]>;
+  getAppTransactionsByUserId(userId: number): Promise<AppTransaction[]>;
+  createAppTransaction(transaction: InsertAppTransaction): Promise<AppTransaction>;
+  getPositionEligibility(positionId: number): Promise<PositionEligibility | undefined>;
+  createPositionEligibility(eligibility: InsertPositionEligibility): Promise<PositionEligibility>;
   
   // Reward methods
   getRewardsByUserId(userId: number): Promise<Reward[]>;
   getRewardsByPositionId(positionId: number): Promise<Reward[]>;
+  getUnclaimedKiltRewards(userId: number): Promise<Reward[]>;
+  hasClaimedRewards(userId: number): Promise<boolean>;
   createReward(reward: InsertReward): Promise<Reward>;
   claimRewards(userId: number): Promise<void>;
+  markRewardsClaimed(rewardIds: number[]): Promise<void>;
+  getAllRewards(): Promise<Reward[]>;
+  getUnclaimedRewards(): Promise<UnclaimedReward[]>; // Every unclaimed row with its owner's address
+  getClaimedRewardTotals(): Promise<ClaimedRewardTotal[]>; // One row per user with claimed rows
+  deleteAllRewards(): Promise<number>;
+
+  // Daily reward ledger methods
+  getDailyRewards(filter: DailyRewardFilter): Promise<DailyReward[]>;
+  appendLedgerDay(day: LedgerDayWrite): Promise<DailyReward[]>;
+  getLatestRewardAllocation(programId?: number): Promise<RewardAllocation | undefined>;
+  getLedgerPositionIds(programId: number): Promise<Set<number>>;
+  getRewardAllocationTotals(programId?: number): Promise<AllocationTotals>;
+  getLedgerTotalsByPosition(userId: number): Promise<Map<number, number>>;
+  getLedgerTotalsByProgram(userId: number): Promise<Map<number | null, number>>;
+  getPartnerTokenTotals(userId: number): Promise<PartnerTokenTotal[]>;
+  getWalletLedgerTotals(): Promise<WalletLedgerTotal[]>; // One row per wallet and program
+  getUserLedgerTotal(userId: number): Promise<number>;
+  getPositionLedgerTotal(positionId: number): Promise<number>;
   
   // Pool Stats methods
   getPoolStats(poolAddress: string): Promise<PoolStats | undefined>;
   updatePoolStats(poolAddress: string, stats: InsertPoolStats): Promise<PoolStats>;
   
-  // Missing methods for deployment health checks
-  getAllRewards(): Promise<Reward[]>;
-  getTreasuryConfig(): Promise<any>;
-  getProgramSettings(): Promise<any>;
+  // Treasury and program configuration methods
+  getTreasuryConfig(): Promise<TreasuryConfig | undefined>;
+  saveTreasuryConfig(config: InsertTreasuryConfig): Promise<TreasuryConfig>;
+
+  // Program settings versions - every change is a new row, newest effectiveFrom first
+  getProgramSettingsVersions(): Promise<ProgramSettings[]>;
+  getProgramSettings(at?: Date): Promise<ProgramSettings | undefined>; // Version in effect at `at` (default now)
+  createProgramSettingsVersion(settings: InsertProgramSettings): Promise<ProgramSettings>;
+
+  // Pool tick samples (pool addresses are stored lowercase)
+  createPoolTickSample(sample: InsertPoolTickSample): Promise<PoolTickSample>;
+  getPoolTickSamples(poolAddress: string, start: Date, end: Date): Promise<PoolTickSample[]>; // [start, end) plus the last sample before start
+  getLatestPoolTickSample(poolAddress: string): Promise<PoolTickSample | undefined>;
+  getFirstSampleOutsideRange(poolAddress: string, tickLower: number, tickUpper: number): Promise<PoolTickSample | undefined>; // First sample after the last one inside [tickLower, tickUpper)
+
+  // Fixed-window rate limit counters - a counter past its resetAt starts a new window on increment
+  incrementRateLimitCounter(key: string, windowMs: number): Promise<RateLimitWindow>;
+  decrementRateLimitCounter(key: string): Promise<void>;
+  resetRateLimitCounter(key: string): Promise<void>;
+
+  // Admin operation methods
+  createAdminOperation(operation: InsertAdminOperation): Promise<AdminOperation>;
+  getAdminOperations(filter: AdminOperationFilter, limit: number, offset?: number): Promise<{ operations: AdminOperation[]; total: number }>; // Newest first
+  getAdminOperationFacets(): Promise<AdminOperationFacets>;
 }
 
 export class MemStorage implements IStorage {
@@ -60,11 +190,29 @@ export class MemStorage implements IStorage {
   private lpPositions: Map<number, LpPosition> = new Map();
   private rewards: Map<number, Reward> = new Map();
   private poolStats: Map<string, PoolStats> = new Map();
+  private dailyRewards: Map<number, DailyReward> = new Map();
+  private dailyTokenRewards: Map<number, DailyTokenReward> = new Map();
+  private rewardAllocations: Map<number, RewardAllocation> = new Map();
+  private appTransactions: Map<number, AppTransaction> = new Map();
+  private positionEligibility: Map<number, PositionEligibility> = new Map();
+  private adminOperations: Map<number, AdminOperation> = new Map();
+  private treasuryConfig: TreasuryConfig | undefined;
+  private programSettings: Map<number, ProgramSettings> = new Map();
+  private poolTickSamples: Map<number, PoolTickSample> = new Map();
+  private rateLimitCounters: Map<string, RateLimitWindow> = new Map();
   
   private userIdCounter = 1;
   private positionIdCounter = 1;
   private rewardIdCounter = 1;
   private statsIdCounter = 1;
+  private dailyRewardIdCounter = 1;
+  private dailyTokenRewardIdCounter = 1;
+  private allocationIdCounter = 1;
+  private appTransactionIdCounter = 1;
+  private eligibilityIdCounter = 1;
+  private adminOperationIdCounter = 1;
+  private programSettingsIdCounter = 1;
+  private tickSampleIdCounter = 1;
 
   constructor() {
     // Initialize with some sample positions for testing replacement notification
@@ -105,6 +253,10 @@ export class MemStorage implements IStorage {
     return Array.from(this.lpPositions.values()).filter(pos => pos.userId === userId);
   }
 
+  async getLpPositionsByProgramId(programId: number): Promise<LpPosition[]> {
+    return Array.from(this.lpPositions.values()).filter(pos => pos.programId === programId);
+  }
+
   async getAllLpPositions(): Promise<LpPosition[]> {
     return Array.from(this.lpPositions.values());
   }
@@ -114,6 +266,7 @@ export class MemStorage implements IStorage {
       id: this.positionIdCounter++,
       userId: insertPosition.userId || null,
       nftTokenId: insertPosition.nftTokenId,
+      chainId: insertPosition.chainId ?? DEFAULT_CHAIN_ID,
       poolAddress: insertPosition.poolAddress,
       token0Address: insertPosition.token0Address,
       token1Address: insertPosition.token1Address,
@@ -130,6 +283,10 @@ export class MemStorage implements IStorage {
       createdAt: new Date(),
       createdViaApp: insertPosition.createdViaApp || false,
       rewardEligible: insertPosition.rewardEligible || false,
+      transferredAt: null,
+      programId: insertPosition.programId ?? null,
+      rebalancedFromPositionId: null,
+      timeBoostStartedAt: null,
       appTransactionHash: insertPosition.appTransactionHash || '',
       appSessionId: insertPosition.appSessionId || '',
       verificationStatus: insertPosition.verificationStatus || 'pending',
@@ -202,9 +359,78 @@ export class MemStorage implements IStorage {
     return true;
   }
 
-  async getAppTransactionsByUserId(userId: number): Promise<any[]> {
-    // Return empty array for in-memory storage - handled by database
-    return [];
+  async deleteLpPositionById(id: number): Promise<boolean> {
+    return this.lpPositions.delete(id);
+  }
+
+  async getCurrentLpPosition(nftTokenId: string, chainId?: number): Promise<LpPosition | undefined> {
+    return Array.from(this.lpPositions.values()).find(pos =>
+      pos.nftTokenId === nftTokenId && !pos.transferredAt && (chainId === undefined || pos.chainId === chainId)
+    );
+  }
+
+  async getProgramParticipation(programId: number): Promise<{ users: number; positions: number }> {
+    const active = Array.from(this.lpPositions.values()).filter(pos => pos.isActive && pos.programId === programId);
+    return {
+      users: new Set(active.map(pos => pos.userId).filter(userId => userId !== null)).size,
+      positions: active.length
+    };
+  }
+
+  async getUserIdsWithActivePositions(): Promise<number[]> {
+    const userIds = Array.from(this.lpPositions.values())
+      .filter(pos => pos.isActive && pos.userId !== null)
+      .map(pos => pos.userId!);
+    return Array.from(new Set(userIds));
+  }
+
+  async getAppTransactionsByUserId(userId: number): Promise<AppTransaction[]> {
+    return Array.from(this.appTransactions.values()).filter(transaction => transaction.userId === userId);
+  }
+
+  async createAppTransaction(insertTransaction: InsertAppTransaction): Promise<AppTransaction> {
+    // Mirror the unique constraint so registration sees the same duplicate error as with Postgres
+    const duplicate = Array.from(this.appTransactions.values())
+      .some(transaction => transaction.transactionHash === insertTransaction.transactionHash);
+    if (duplicate) {
+      throw new Error('duplicate key value violates unique constraint "app_transactions_transaction_hash_key"');
+    }
+
+    const transaction: AppTransaction = {
+      nftTokenId: null,
+      amount0: null,
+      amount1: null,
+      liquidityAmount: null,
+      gasUsed: null,
+      gasPrice: null,
+      blockNumber: null,
+      verificationStatus: 'pending',
+      userAgent: null,
+      ipAddress: null,
+      verifiedAt: null,
+      ...insertTransaction,
+      id: this.appTransactionIdCounter++,
+      createdAt: new Date(),
+    };
+    this.appTransactions.set(transaction.id, transaction);
+    return transaction;
+  }
+
+  async getPositionEligibility(positionId: number): Promise<PositionEligibility | undefined> {
+    return Array.from(this.positionEligibility.values()).find(eligibility => eligibility.positionId === positionId);
+  }
+
+  async createPositionEligibility(insertEligibility: InsertPositionEligibility): Promise<PositionEligibility> {
+    const eligibility: PositionEligibility = {
+      isEligible: true,
+      notes: null,
+      ...insertEligibility,
+      id: this.eligibilityIdCounter++,
+      eligibilityCheckedAt: new Date(),
+      lastValidationAt: new Date(),
+    };
+    this.positionEligibility.set(eligibility.id, eligibility);
+    return eligibility;
   }
 
   async getRewardsByUserId(userId: number): Promise<Reward[]> {
@@ -221,6 +447,8 @@ export class MemStorage implements IStorage {
       userId: insertReward.userId || null,
       nftTokenId: insertReward.nftTokenId,
       positionId: insertReward.positionId || null,
+      tokenAddress: null,
+      tokenSymbol: 'KILT',
       amount: insertReward.dailyRewardAmount,
       positionValueUSD: insertReward.positionValueUSD,
       dailyRewardAmount: insertReward.dailyRewardAmount,
@@ -249,6 +477,24 @@ export class MemStorage implements IStorage {
     });
   }
 
+  async getUnclaimedKiltRewards(userId: number): Promise<Reward[]> {
+    return Array.from(this.rewards.values()).filter(
+      reward => reward.userId === userId && !reward.claimedAt && !reward.tokenAddress
+    );
+  }
+
+  async hasClaimedRewards(userId: number): Promise<boolean> {
+    return Array.from(this.rewards.values()).some(reward => reward.userId === userId && !!reward.claimedAt);
+  }
+
+  async markRewardsClaimed(rewardIds: number[]): Promise<void> {
+    const claimedAt = new Date();
+    for (const id of rewardIds) {
+      const reward = this.rewards.get(id);
+      if (reward) this.rewards.set(id, { ...reward, claimedAt });
+    }
+  }
+
   async getClaimableRewards(): Promise<Array<{
     userAddress: string;
     accumulatedAmount: string;
@@ -311,221 +557,345 @@ export class MemStorage implements IStorage {
     return Array.from(this.rewards.values());
   }
 
-  async getTreasuryConfig(): Promise<any> {
-    return {
-      totalAllocation: 1500000,
-      dailyBudget: 25000,
-      smartContractAddress: '0x09bcB93e7E2FF067232d83f5e7a7E8360A458175'
-    };
-  }
+  async getUnclaimedRewards(): Promise<UnclaimedReward[]> {
+    const unclaimed: UnclaimedReward[] = [];
+    for (const reward of Array.from(this.rewards.values())) {
+      const user = reward.userId !== null ? this.users.get(reward.userId) : undefined;
+      if (reward.claimedAt || !user) continue;
+      unclaimed.push({ userAddress: user.address, nftTokenId: reward.nftTokenId, dailyRewardAmount: reward.dailyRewardAmount });
+    }
+    return unclaimed;
+  }
+
+  async getClaimedRewardTotals(): Promise<ClaimedRewardTotal[]> {
+    const totals = new Map<number, ClaimedRewardTotal>();
+    for (const reward of Array.from(this.rewards.values())) {
+      const user = reward.userId !== null ? this.users.get(reward.userId) : undefined;
+      if (!reward.claimedAt || !user) continue;
+      const existing = totals.get(user.id) || { userId: user.id, address: user.address, claimedRows: 0, claimedTotal: 0 };
+      totals.set(user.id, {
+        ...existing,
+        claimedRows: existing.claimedRows + 1,
+        claimedTotal: existing.claimedTotal + parseFloat(reward.dailyRewardAmount)
+      });
+    }
+    return Array.from(totals.values());
+  }
+
+  async deleteAllRewards(): Promise<number> {
+    const deleted = this.rewards.size;
+    this.rewards.clear();
+    return deleted;
+  }
+
+  async getDailyRewards(filter: DailyRewardFilter): Promise<DailyReward[]> {
+    return Array.from(this.dailyRewards.values())
+      .filter(entry =>
+        (filter.programId === undefined || entry.programId === filter.programId) &&
+        (filter.positionId === undefined || entry.positionId === filter.positionId) &&
+        (filter.date === undefined || entry.date === filter.date) &&
+        (filter.since === undefined || entry.date >= filter.since)
+      )
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  async appendLedgerDay(day: LedgerDayWrite): Promise<DailyReward[]> {
+    const entries = Array.from(this.dailyRewards.values());
+    const inserted: DailyReward[] = [];
+    for (const entry of day.entries) {
+      if (entries.some(existing => existing.userId === entry.userId && existing.positionId === entry.positionId && existing.date === entry.date)) {
+        continue;
+      }
+      const row: DailyReward = {
+        rewardId: null,
+        userLiquidity: null,
+        totalLiquidity: null,
+        timeBoost: null,
+        inRangeMultiplier: null,
+        fullRangeBonus: null,
+        dailyBudget: null,
+        allocationScale: null,
+        settingsVersionId: null,
+        programId: null,
+        intervalStart: null,
+        intervalEnd: null,
+        ...entry,
+        id: this.dailyRewardIdCounter++,
+        createdAt: new Date(),
+      };
+      this.dailyRewards.set(row.id, row);
+      entries.push(row);
+      inserted.push(row);
+    }
 
-  async getProgramSettings(): Promise<any> {
-    return {
-      timeBoostCoefficient: 1.5,
-      inRangeMultiplier: 2.0,
-      fullRangeBonus: 1.25
-    };
-  }
-}
+    const tokenEntries = Array.from(this.dailyTokenRewards.values());
+    for (const tokenEntry of day.tokenEntriesFor(inserted)) {
+      if (tokenEntries.some(existing => existing.dailyRewardId === tokenEntry.dailyRewardId && existing.tokenAddress === tokenEntry.tokenAddress)) {
+        continue;
+      }
+      const row: DailyTokenReward = { ...tokenEntry, id: this.dailyTokenRewardIdCounter++, createdAt: new Date() };
+      this.dailyTokenRewards.set(row.id, row);
+      tokenEntries.push(row);
+    }
 
-// Database storage implementation using Drizzle ORM
-export class DatabaseStorage implements IStorage {
-  async getUser(id: number): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
-    return result[0];
-  }
+    const existingAllocation = Array.from(this.rewardAllocations.values())
+      .find(existing => existing.programId === (day.allocation.programId ?? null) && existing.date === day.allocation.date);
+    if (existingAllocation) {
+      // Backfilled entries join a closed day - its totals grow, its normalization factor stays
+      existingAllocation.totalAllocated = day.allocation.totalAllocated;
+      existingAllocation.totalLiquidity = day.allocation.totalLiquidity;
+      existingAllocation.positionCount = day.allocation.positionCount;
+    } else {
+      const allocation: RewardAllocation = {
+        programId: null,
+        ...day.allocation,
+        id: this.allocationIdCounter++,
+        createdAt: new Date(),
+      };
+      this.rewardAllocations.set(allocation.id, allocation);
+    }
 
-  async getUserByAddress(address: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.address, address)).limit(1);
-    return result[0];
+    return inserted;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const result = await db.insert(users).values(insertUser).returning();
-    return result[0];
+  private getAllocations(programId?: number): RewardAllocation[] {
+    return Array.from(this.rewardAllocations.values())
+      .filter(allocation => programId === undefined || allocation.programId === programId);
   }
 
-  async getLpPosition(id: number): Promise<LpPosition | undefined> {
-    const result = await db.select().from(lpPositions).where(eq(lpPositions.id, id)).limit(1);
-    return result[0];
+  async getLatestRewardAllocation(programId?: number): Promise<RewardAllocation | undefined> {
+    return this.getAllocations(programId).sort((a, b) => b.date.localeCompare(a.date))[0];
   }
 
-  async getLpPositionsByUserId(userId: number): Promise<LpPosition[]> {
-    return await db.select().from(lpPositions).where(eq(lpPositions.userId, userId));
+  async getRewardAllocationTotals(programId?: number): Promise<AllocationTotals> {
+    const allocations = this.getAllocations(programId);
+    return {
+      daysAllocated: allocations.length,
+      totalAllocated: allocations.reduce((sum, allocation) => sum + parseFloat(allocation.totalAllocated), 0),
+      totalCap: allocations.reduce((sum, allocation) => sum + parseFloat(allocation.dailyRewardsCap), 0)
+    };
   }
 
-  async getAllLpPositions(): Promise<LpPosition[]> {
-    return await db.select().from(lpPositions);
+  private sumLedger<K>(entries: DailyReward[], keyOf: (entry: DailyReward) => K): Map<K, number> {
+    const totals = new Map<K, number>();
+    for (const entry of entries) {
+      const key = keyOf(entry);
+      totals.set(key, (totals.get(key) || 0) + parseFloat(entry.dailyRewardAmount));
+    }
+    return totals;
   }
 
-  async createLpPosition(insertPosition: InsertLpPosition): Promise<LpPosition> {
-    const result = await db.insert(lpPositions).values(insertPosition).returning();
-    return result[0];
+  async getLedgerPositionIds(programId: number): Promise<Set<number>> {
+    return new Set(Array.from(this.dailyRewards.values())
+      .filter(entry => entry.programId === programId)
+      .map(entry => entry.positionId));
   }
 
-  async updateLpPosition(id: number, updates: Partial<LpPosition>): Promise<LpPosition | undefined> {
-    const result = await db.update(lpPositions).set(updates).where(eq(lpPositions.id, id)).returning();
-    return result[0];
+  async getLedgerTotalsByPosition(userId: number): Promise<Map<number, number>> {
+    const entries = Array.from(this.dailyRewards.values()).filter(entry => entry.userId === userId);
+    return this.sumLedger(entries, entry => entry.positionId);
   }
 
-  async updateLpPositionByTokenId(tokenId: string, updates: Partial<LpPosition>): Promise<LpPosition | undefined> {
-    const result = await db.update(lpPositions).set(updates).where(eq(lpPositions.nftTokenId, tokenId)).returning();
-    return result[0];
+  async getLedgerTotalsByProgram(userId: number): Promise<Map<number | null, number>> {
+    const entries = Array.from(this.dailyRewards.values()).filter(entry => entry.userId === userId);
+    return this.sumLedger(entries, entry => entry.programId);
   }
 
-  async getUserPositions(address: string): Promise<any[]> {
-    // Return empty array - positions come from blockchain data
-    return [];
+  async getPartnerTokenTotals(userId: number): Promise<PartnerTokenTotal[]> {
+    const totals = new Map<string, PartnerTokenTotal>();
+    for (const entry of Array.from(this.dailyTokenRewards.values())) {
+      if (entry.userId !== userId) continue;
+      const tokenAddress = entry.tokenAddress.toLowerCase();
+      const existing = totals.get(tokenAddress) || { tokenAddress, tokenSymbol: entry.tokenSymbol, total: 0 };
+      totals.set(tokenAddress, {
+        tokenAddress,
+        tokenSymbol: entry.tokenSymbol > existing.tokenSymbol ? entry.tokenSymbol : existing.tokenSymbol,
+        total: existing.total + parseFloat(entry.amount)
+      });
+    }
+    return Array.from(totals.values());
+  }
+
+  async getWalletLedgerTotals(): Promise<WalletLedgerTotal[]> {
+    const totals = new Map<string, WalletLedgerTotal>();
+    for (const entry of Array.from(this.dailyRewards.values())) {
+      const user = this.users.get(entry.userId);
+      const position = this.lpPositions.get(entry.positionId);
+      if (!user || !position) continue;
+
+      const key = `${user.address}:${entry.programId}`;
+      const existing = totals.get(key) || { address: user.address, programId: entry.programId, total: 0, firstPositionAt: position.createdAt };
+      totals.set(key, {
+        ...existing,
+        total: existing.total + parseFloat(entry.dailyRewardAmount),
+        firstPositionAt: existing.firstPositionAt && position.createdAt && existing.firstPositionAt < position.createdAt
+          ? existing.firstPositionAt
+          : position.createdAt ?? existing.firstPositionAt
+      });
+    }
+    return Array.from(totals.values());
   }
 
-  async getRegisteredPositions(address: string): Promise<any[]> {
-    const user = await this.getUserByAddress(address);
-    if (!user) return [];
-    
-    return await db.select().from(lpPositions).where(eq(lpPositions.userId, user.id));
+  async getUserLedgerTotal(userId: number): Promise<number> {
+    return Array.from(this.dailyRewards.values())
+      .filter(entry => entry.userId === userId)
+      .reduce((sum, entry) => sum + parseFloat(entry.dailyRewardAmount), 0);
   }
 
-  async getRewardsByUserId(userId: number): Promise<Reward[]> {
-    return await db.select().from(rewards).where(eq(rewards.userId, userId));
+  async getPositionLedgerTotal(positionId: number): Promise<number> {
+    return Array.from(this.dailyRewards.values())
+      .filter(entry => entry.positionId === positionId)
+      .reduce((sum, entry) => sum + parseFloat(entry.dailyRewardAmount), 0);
   }
 
-  async getRewardsByPositionId(positionId: number): Promise<Reward[]> {
-    return await db.select().from(rewards).where(eq(rewards.positionId, positionId));
+  async getTreasuryConfig(): Promise<TreasuryConfig | undefined> {
+    return this.treasuryConfig;
   }
 
-  async createReward(insertReward: InsertReward): Promise<Reward> {
-    // Ensure all required fields are present - cast to any to handle missing optional fields
-    const anyReward = insertReward as any;
-    const completeReward = {
-      ...insertReward,
-      amount: anyReward.amount || anyReward.dailyRewardAmount || '0',
-      lockPeriodDays: anyReward.lockPeriodDays || 7,
-      claimedAmount: anyReward.claimedAmount || '0',
-      isEligibleForClaim: anyReward.isEligibleForClaim || false,
-      lastRewardCalculation: anyReward.lastRewardCalculation || new Date(),
+  async saveTreasuryConfig(config: InsertTreasuryConfig): Promise<TreasuryConfig> {
+    this.treasuryConfig = {
+      isActive: true,
+      ...config,
+      id: this.treasuryConfig?.id ?? 1,
+      updatedAt: config.updatedAt ?? new Date(),
     };
-    const result = await db.insert(rewards).values(completeReward).returning();
-    return result[0];
+    return this.treasuryConfig;
   }
 
-  async claimRewards(userId: number): Promise<void> {
-    await db.update(rewards)
-      .set({ claimedAt: new Date() })
-      .where(eq(rewards.userId, userId));
+  async getProgramSettingsVersions(): Promise<ProgramSettings[]> {
+    return Array.from(this.programSettings.values())
+      .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime() || b.id - a.id);
   }
 
-  async getPoolStats(poolAddress: string): Promise<PoolStats | undefined> {
-    const result = await db.select().from(poolStats).where(eq(poolStats.poolAddress, poolAddress)).limit(1);
-    return result[0];
+  async getProgramSettings(at: Date = new Date()): Promise<ProgramSettings | undefined> {
+    const versions = await this.getProgramSettingsVersions();
+    return versions.find(version => version.effectiveFrom <= at);
   }
 
-  async updatePoolStats(poolAddress: string, stats: InsertPoolStats): Promise<PoolStats> {
-    const existing = await this.getPoolStats(poolAddress);
-    if (existing) {
-      const result = await db.update(poolStats)
-        .set({ ...stats, updatedAt: new Date() })
-        .where(eq(poolStats.poolAddress, poolAddress))
-        .returning();
-      return result[0];
-    } else {
-      const result = await db.insert(poolStats).values({
-        ...stats,
-        poolAddress,
-        updatedAt: new Date()
-      }).returning();
-      return result[0];
-    }
+  async createProgramSettingsVersion(insertSettings: InsertProgramSettings): Promise<ProgramSettings> {
+    const now = new Date();
+    const settings: ProgramSettings = {
+      timeBoostCoefficient: "0.600",
+      fullRangeBonus: "1.200",
+      minimumPositionValue: "10.00000000",
+      lockPeriod: 7,
+      createdBy: null,
+      ...insertSettings,
+      id: this.programSettingsIdCounter++,
+      effectiveFrom: insertSettings.effectiveFrom ?? now,
+      updatedAt: insertSettings.updatedAt ?? now,
+    };
+    this.programSettings.set(settings.id, settings);
+    return settings;
   }
 
-  async getAppTransactionsByUserId(userId: number): Promise<any[]> {
-    const { appTransactions } = await import('@shared/schema');
-    return await db.select().from(appTransactions).where(eq(appTransactions.userId, userId));
+  async createPoolTickSample(insertSample: InsertPoolTickSample): Promise<PoolTickSample> {
+    const sample: PoolTickSample = {
+      blockNumber: null,
+      ...insertSample,
+      id: this.tickSampleIdCounter++,
+      poolAddress: insertSample.poolAddress.toLowerCase(),
+      sampledAt: insertSample.sampledAt ?? new Date(),
+    };
+    this.poolTickSamples.set(sample.id, sample);
+    return sample;
   }
 
-  // CRITICAL MISSING METHOD FOR BETA RELEASE
-  async getLpPositionByNftTokenId(nftTokenId: string): Promise<LpPosition | undefined> {
-    const result = await db.select().from(lpPositions).where(eq(lpPositions.nftTokenId, nftTokenId)).limit(1);
-    return result[0];
+  private getPoolSamplesAscending(poolAddress: string): PoolTickSample[] {
+    const pool = poolAddress.toLowerCase();
+    return Array.from(this.poolTickSamples.values())
+      .filter(sample => sample.poolAddress === pool)
+      .sort((a, b) => a.sampledAt.getTime() - b.sampledAt.getTime());
   }
 
-  // Get all users for lifecycle management
-  async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users);
+  async getPoolTickSamples(poolAddress: string, start: Date, end: Date): Promise<PoolTickSample[]> {
+    const samples = this.getPoolSamplesAscending(poolAddress);
+    const previous = samples.filter(sample => sample.sampledAt < start).slice(-1);
+    const inside = samples.filter(sample => sample.sampledAt >= start && sample.sampledAt < end);
+    return [...previous, ...inside];
   }
 
-  // Update position status for burned position cleanup
-  async updateLpPositionStatus(tokenId: string, isActive: boolean): Promise<boolean> {
-    try {
-      const result = await db.update(lpPositions)
-        .set({ isActive })
-        .where(eq(lpPositions.nftTokenId, tokenId))
-        .returning();
-      
-      return result.length > 0;
-    } catch (error) {
-      console.error(`Failed to update position status for token ${tokenId}:`, error);
-      return false;
-    }
+  async getLatestPoolTickSample(poolAddress: string): Promise<PoolTickSample | undefined> {
+    const samples = this.getPoolSamplesAscending(poolAddress);
+    return samples[samples.length - 1];
   }
 
-  // Update position reward eligibility
-  async updateLpPositionRewardEligibility(tokenId: string, rewardEligible: boolean): Promise<boolean> {
-    try {
-      const result = await db.update(lpPositions)
-        .set({ rewardEligible })
-        .where(eq(lpPositions.nftTokenId, tokenId))
-        .returning();
-      
-      return result.length > 0;
-    } catch (error) {
-      console.error(`Failed to update reward eligibility for token ${tokenId}:`, error);
-      return false;
-    }
+  async getFirstSampleOutsideRange(poolAddress: string, tickLower: number, tickUpper: number): Promise<PoolTickSample | undefined> {
+    const pool = poolAddress.toLowerCase();
+    const samples = Array.from(this.poolTickSamples.values())
+      .filter(sample => sample.poolAddress === pool)
+      .sort((a, b) => a.id - b.id);
+    const lastInRange = samples.filter(sample => sample.tick >= tickLower && sample.tick < tickUpper).pop();
+    return samples.find(sample => !lastInRange || sample.id > lastInRange.id);
   }
 
-  // ANTI-BLOAT: Delete burned positions from database to prevent bloat
-  async deleteLpPosition(tokenId: string): Promise<boolean> {
-    try {
-      const result = await db.delete(lpPositions)
-        .where(eq(lpPositions.nftTokenId, tokenId))
-        .returning();
-      
-      return result.length > 0;
-    } catch (error) {
-      console.error(`Failed to delete position ${tokenId}:`, error);
-      return false;
+  async incrementRateLimitCounter(key: string, windowMs: number): Promise<RateLimitWindow> {
+    const now = new Date();
+    const current = this.rateLimitCounters.get(key);
+    const window = current && current.resetAt > now
+      ? { hits: current.hits + 1, resetAt: current.resetAt }
+      : { hits: 1, resetAt: new Date(now.getTime() + windowMs) };
+    this.rateLimitCounters.set(key, window);
+    return { ...window };
+  }
+
+  async decrementRateLimitCounter(key: string): Promise<void> {
+    const current = this.rateLimitCounters.get(key);
+    if (current && current.hits > 0) {
+      this.rateLimitCounters.set(key, { ...current, hits: current.hits - 1 });
     }
   }
 
-  async getAllRewards(): Promise<Reward[]> {
-    return await db.select().from(rewards);
+  async resetRateLimitCounter(key: string): Promise<void> {
+    this.rateLimitCounters.delete(key);
+  }
+
+  async createAdminOperation(insertOperation: InsertAdminOperation): Promise<AdminOperation> {
+    const operation: AdminOperation = {
+      operationType: null,
+      operationDetails: null,
+      amount: null,
+      fromAddress: null,
+      toAddress: null,
+      reason: null,
+      settings: null,
+      performedBy: null,
+      beforeState: null,
+      afterState: null,
+      transactionHash: null,
+      success: true,
+      errorMessage: null,
+      ...insertOperation,
+      id: this.adminOperationIdCounter++,
+      timestamp: new Date(),
+    };
+    this.adminOperations.set(operation.id, operation);
+    return operation;
   }
 
-  async getTreasuryConfig(): Promise<any> {
-    const { treasuryConfig } = await import('@shared/schema');
-    const result = await db.select().from(treasuryConfig).limit(1);
-    return result[0] || {
-      totalAllocation: 1500000,
-      dailyBudget: 25000,
-      smartContractAddress: '0x09bcB93e7E2FF067232d83f5e7a7E8360A458175'
-    };
+  async getAdminOperations(filter: AdminOperationFilter, limit: number, offset = 0): Promise<{ operations: AdminOperation[]; total: number }> {
+    const matching = Array.from(this.adminOperations.values())
+      .filter(operation =>
+        (filter.performedBy === undefined || operation.performedBy?.toLowerCase() === filter.performedBy.toLowerCase()) &&
+        (!filter.operationTypes?.length || filter.operationTypes.includes((operation.operationType ?? operation.operation).toLowerCase())) &&
+        (filter.from === undefined || operation.timestamp >= filter.from) &&
+        (filter.to === undefined || operation.timestamp <= filter.to) &&
+        (filter.success === undefined || operation.success === filter.success))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime() || b.id - a.id);
+    return { operations: matching.slice(offset, offset + limit), total: matching.length };
   }
 
-  async getProgramSettings(): Promise<any> {
-    const { programSettings } = await import('@shared/schema');
-    const result = await db.select().from(programSettings).limit(1);
-    return result[0] || {
-      timeBoostCoefficient: 1.5,
-      inRangeMultiplier: 2.0,
-      fullRangeBonus: 1.25
+  async getAdminOperationFacets(): Promise<AdminOperationFacets> {
+    const operations = Array.from(this.adminOperations.values());
+    return {
+      operationTypes: Array.from(new Set(operations.map(operation => (operation.operationType ?? operation.operation).toLowerCase()))).sort(),
+      operators: Array.from(new Set(operations.map(operation => operation.performedBy).filter((value): value is string => !!value))).sort()
     };
   }
 }
 
-// Use database storage instead of in-memory storage
-export const storage = new DatabaseStorage();
-
-// Export database instance for background services
-export function getDatabase() {
-  return db;
-}
+// Tests run against MemStorage; everything else uses Postgres. DatabaseStorage is loaded
+// on demand because ./db cannot be imported without DATABASE_URL.
+export const storage: IStorage = process.env.NODE_ENV === 'test'
+  ? new MemStorage()
+  : new (await import("./database-storage")).DatabaseStorage();
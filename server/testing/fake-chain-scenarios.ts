@@ -0,0 +1,216 @@
+/**
+ * FAKE CHAIN SCENARIOS
+ * End-to-end reward lifecycle against the fake chain, through the same services the routes use:
+ * mint a position, register it, accrue the ledger, claim from DynamicTreasuryPool, burn it.
+ *
+ * Needs an empty, migrated Postgres database - it is written to:
+ *   TEST_DATABASE_URL=postgres://... npm run test:fake-chain
+ */
+
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { startFakeChain, type FakeChain } from './fake-chain';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface Scenario {
+  name: string;
+  run: () => Promise<void>;
+}
+
+function priceAtTick(tick: number): string {
+  return (1.0001 ** tick).toString();
+}
+
+async function waitFor(condition: () => boolean, description: string, timeoutMs = 15000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${description}`);
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+}
+
+async function main(): Promise<number> {
+  if (!process.env.TEST_DATABASE_URL) {
+    console.error('❌ TEST_DATABASE_URL is required - point it at an empty, migrated database');
+    return 1;
+  }
+  process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+  let chain: FakeChain | null = null;
+  try {
+    chain = await startFakeChain();
+    const fakeChain = chain;
+
+    // Server modules read the chain registry on import - only load them once the chain is up
+    const { db } = await import('../db');
+    const { incentivePrograms } = await import('@shared/schema');
+    const { storage } = await import('../storage');
+    const { incentiveProgramService } = await import('../incentive-program-service');
+    const { getUniswapIntegrationService } = await import('../uniswap-integration-service');
+    const { positionRegistrationService } = await import('../position-registration-service');
+    const { poolTickSampler } = await import('../pool-tick-sampler');
+    const { unifiedRewardService } = await import('../unified-reward-service');
+    const { rewardLedgerService } = await import('../reward-ledger-service');
+    const { getSmartContractService } = await import('../smart-contract-service');
+    const { PositionEventIndexer } = await import('../position-event-indexer');
+
+    const [existingProgram] = await db.select({ id: incentivePrograms.id }).from(incentivePrograms).limit(1);
+    if (existingProgram) {
+      console.error('❌ TEST_DATABASE_URL must point at an empty database - incentive_programs already has rows');
+      return 1;
+    }
+
+    const uniswap = getUniswapIntegrationService(fakeChain.chainId);
+    const smartContracts = getSmartContractService(fakeChain.chainId);
+    const lp = fakeChain.users[0];
+
+    let tokenId = '';
+    let userId = 0;
+    let positionId = 0;
+    let claimAmount = 0;
+
+    const scenarios: Scenario[] = [
+      {
+        name: 'mint: position NFT is visible through the Uniswap integration',
+        run: async () => {
+          tokenId = await fakeChain.mintPosition(lp);
+
+          const tokenIds = await uniswap.getUserTokenIds(lp.address);
+          assert.deepEqual(tokenIds, [tokenId]);
+
+          const position = await uniswap.getFullPositionData(tokenId);
+          assert.ok(position, 'position data');
+          assert.equal(position.poolAddress.toLowerCase(), fakeChain.contracts.pool.toLowerCase());
+          assert.equal(position.feeTier, fakeChain.feeTier);
+          assert.equal(position.isInRange, true);
+        }
+      },
+      {
+        name: 'register: position joins the program on the fake pool',
+        run: async () => {
+          // An empty database bootstraps the KILT/ETH program from BlockchainConfigService - the fake pool
+          const program = await incentiveProgramService.getPrimaryProgram();
+          assert.ok(program, 'bootstrapped program');
+          assert.equal(program.poolAddress, fakeChain.contracts.pool.toLowerCase());
+
+          const user = await storage.createUser({ address: lp.address });
+          userId = user.id;
+
+          const position = await uniswap.getFullPositionData(tokenId);
+          assert.ok(position, 'position data');
+          const positionData = {
+            nftTokenId: tokenId,
+            chainId: fakeChain.chainId,
+            poolAddress: position.poolAddress,
+            token0Address: position.token0,
+            token1Address: position.token1,
+            amount0: position.token0Amount,
+            amount1: position.token1Amount,
+            minPrice: priceAtTick(position.tickLower),
+            maxPrice: priceAtTick(position.tickUpper),
+            liquidity: position.liquidity,
+            currentValueUSD: position.currentValueUSD,
+            feeTier: position.feeTier,
+            createdAt: new Date()
+          };
+
+          const result = await positionRegistrationService.registerExternalPosition(userId, lp.address, positionData);
+          assert.equal(result.success, true, result.message);
+          assert.equal(result.program?.id, program.id);
+          positionId = result.positionId!;
+
+          const again = await positionRegistrationService.registerExternalPosition(userId, lp.address, positionData);
+          assert.equal(again.alreadyRegistered, true);
+        }
+      },
+      {
+        name: 'accrue: closing the day writes ledger rewards for the in-range position',
+        run: async () => {
+          const sample = await poolTickSampler.sampleNow(fakeChain.contracts.pool);
+          assert.ok(sample, 'tick sample');
+
+          // Accrue as of tomorrow so today - the registration day - is closed
+          const tomorrow = new Date(Date.now() + MS_PER_DAY);
+          const written = await unifiedRewardService.syncLedger(tomorrow);
+          assert.ok(written > 0, 'ledger entries written');
+
+          const total = await rewardLedgerService.getPositionTotal(positionId);
+          assert.ok(total > 0, 'position accrued rewards');
+          assert.equal(await rewardLedgerService.getUserTotal(userId), total);
+
+          // Ledger days are append-only - a second pass writes nothing
+          assert.equal(await unifiedRewardService.syncLedger(tomorrow), 0);
+          claimAmount = Math.floor(total * 1e6) / 1e6;
+        }
+      },
+      {
+        name: 'claim: calculator signature pays out from DynamicTreasuryPool',
+        run: async () => {
+          await waitFor(() => smartContracts.isDeployed(), 'smart contract service initialization');
+
+          const signed = await smartContracts.generateClaimSignature(lp.address, claimAmount);
+          assert.equal(signed.success, true, signed.error);
+
+          const amountWei = ethers.parseUnits(claimAmount.toString(), 18);
+          const balanceBefore = await fakeChain.kiltBalance(lp.address);
+          await fakeChain.claimRewards(lp, amountWei, signed.signature!);
+          assert.equal(await fakeChain.kiltBalance(lp.address), balanceBefore + amountWei);
+
+          const claimed = await smartContracts.getClaimedAmount(lp.address);
+          assert.equal(claimed.success, true, claimed.error);
+          assert.equal(claimed.claimedAmount, claimAmount);
+
+          // The nonce moved on, so replaying the signature must fail
+          await assert.rejects(fakeChain.claimRewards(lp, amountWei, signed.signature!));
+        }
+      },
+      {
+        name: 'burn: indexer records the burn from position manager events',
+        run: async () => {
+          await fakeChain.closePosition(lp, tokenId);
+          assert.deepEqual(await uniswap.forceRefreshUserPositions(lp.address), []);
+
+          const indexer = new PositionEventIndexer({
+            chainId: fakeChain.chainId,
+            rpcUrl: fakeChain.rpcUrl,
+            positionManagerAddress: fakeChain.contracts.positionManager,
+            confirmations: 0
+          });
+          const run = await indexer.runNow();
+          assert.equal(run.error, undefined, run.error);
+
+          const state = await indexer.getPositionState(tokenId);
+          assert.ok(state, 'indexed position state');
+          assert.equal(state.burned, true);
+          assert.equal(state.owner, null);
+          assert.equal(state.liquidity, '0');
+        }
+      }
+    ];
+
+    // Each scenario builds on the previous one, so the first failure ends the run
+    for (const scenario of scenarios) {
+      try {
+        await scenario.run();
+        console.log(`✅ ${scenario.name}`);
+      } catch (error) {
+        console.error(`❌ ${scenario.name}`);
+        console.error(error);
+        return 1;
+      }
+    }
+
+    console.log(`🎉 FAKE CHAIN: ${scenarios.length} scenarios passed`);
+    return 0;
+  } finally {
+    await chain?.stop();
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('❌ FAKE CHAIN: harness failed', error);
+    process.exit(1);
+  });
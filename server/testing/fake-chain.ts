@@ -0,0 +1,313 @@
+/**
+ * FAKE CHAIN
+ * Local stand-in for Base so chain-reading services can run offline. Starts a Hardhat node that
+ * reports chain ID 8453, deploys mock KILT and WETH, a mock Uniswap V3 factory, pool and
+ * position manager (contracts/test) and DynamicTreasuryPool, authorizes a calculator, then
+ * points the chain registry and BlockchainConfigService at the deployment.
+ *
+ * The chain registry reads its overrides when it is first imported, so startFakeChain() must
+ * run before anything imports server modules - import services dynamically after it resolves.
+ * Hardhat and the contract dependencies come from contracts/package.json.
+ */
+
+import { spawn, spawnSync, type ChildProcess } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+
+const CONTRACTS_DIR = path.resolve(import.meta.dirname, '..', '..', 'contracts');
+const ARTIFACTS_DIR = path.join(CONTRACTS_DIR, 'artifacts');
+
+// Hardhat's default accounts - prefunded with 10000 ETH on every local node
+const HARDHAT_MNEMONIC = 'test test test test test test test test test test test junk';
+const CALCULATOR_ACTIVATION_DELAY = 60 * 60; // DynamicTreasuryPool.CALCULATOR_ACTIVATION_DELAY
+const MAX_UINT128 = (1n << 128n) - 1n;
+const FULL_RANGE = { tickLower: -887220, tickUpper: 887220 }; // Widest range at tick spacing 60
+
+export interface FakeChainOptions {
+  port?: number;
+  chainId?: number;
+  feeTier?: number;
+  treasuryFunding?: bigint; // KILT deposited into DynamicTreasuryPool
+  userCount?: number;
+  compile?: boolean; // Run `hardhat compile` first (default true)
+}
+
+export interface FakeChainContracts {
+  kilt: string;
+  weth: string;
+  factory: string;
+  pool: string;
+  positionManager: string;
+  treasury: string;
+}
+
+export interface MintOptions {
+  kiltAmount?: bigint;
+  wethAmount?: bigint;
+  tickLower?: number;
+  tickUpper?: number;
+}
+
+export interface FakeChain {
+  chainId: number;
+  rpcUrl: string;
+  feeTier: number;
+  provider: ethers.JsonRpcProvider;
+  contracts: FakeChainContracts;
+  deployer: ethers.HDNodeWallet;
+  calculator: ethers.HDNodeWallet;
+  users: ethers.HDNodeWallet[];
+  mintPosition(user: ethers.Signer, options?: MintOptions): Promise<string>;
+  closePosition(user: ethers.Signer, tokenId: string): Promise<void>;
+  setPoolTick(tick: number): Promise<void>;
+  claimRewards(user: ethers.Signer, amount: bigint, signature: string): Promise<ethers.TransactionReceipt>;
+  kiltBalance(address: string): Promise<bigint>;
+  increaseTime(seconds: number): Promise<void>;
+  stop(): Promise<void>;
+}
+
+function findArtifact(name: string, dir: string = ARTIFACTS_DIR): string | null {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      const found = findArtifact(name, entryPath);
+      if (found) return found;
+    } else if (entry.name === `${name}.json`) {
+      return entryPath;
+    }
+  }
+  return null;
+}
+
+function loadArtifact(name: string): { abi: ethers.InterfaceAbi; bytecode: string } {
+  const artifactPath = fs.existsSync(ARTIFACTS_DIR) ? findArtifact(name) : null;
+  if (!artifactPath) {
+    throw new Error(`No Hardhat artifact for ${name} - run \`npx hardhat compile\` in contracts/`);
+  }
+  return JSON.parse(fs.readFileSync(artifactPath, 'utf8'));
+}
+
+function hardhatAccount(index: number): ethers.HDNodeWallet {
+  return ethers.HDNodeWallet.fromPhrase(HARDHAT_MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`);
+}
+
+/** sqrtPriceX96 for a tick - float precision is plenty for a mock pool */
+function sqrtPriceX96AtTick(tick: number): bigint {
+  return BigInt(Math.floor(Math.sqrt(1.0001 ** tick) * 2 ** 48)) << 48n;
+}
+
+async function waitForRpc(provider: ethers.JsonRpcProvider, node: ChildProcess, timeoutMs = 60000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (node.exitCode !== null) {
+      throw new Error(`Hardhat node exited with code ${node.exitCode}`);
+    }
+    try {
+      await provider.send('eth_chainId', []);
+      return;
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+  }
+  throw new Error(`Hardhat node did not answer within ${timeoutMs / 1000}s`);
+}
+
+function stopNode(node: ChildProcess): Promise<void> {
+  return new Promise(resolve => {
+    if (node.exitCode !== null || !node.pid) return resolve();
+    node.once('exit', () => resolve());
+    // The node runs in its own process group (npx -> hardhat), so signal the whole group
+    process.kill(-node.pid, 'SIGTERM');
+  });
+}
+
+/**
+ * Start a Hardhat node, deploy the mock deployment and configure this process to use it
+ */
+export async function startFakeChain(options: FakeChainOptions = {}): Promise<FakeChain> {
+  const port = options.port ?? 8545;
+  const chainId = options.chainId ?? 8453;
+  const feeTier = options.feeTier ?? 3000;
+  const rpcUrl = `http://127.0.0.1:${port}`;
+
+  if (options.compile !== false) {
+    const compiled = spawnSync('npx', ['hardhat', 'compile', '--quiet'], { cwd: CONTRACTS_DIR, stdio: 'inherit' });
+    if (compiled.status !== 0) {
+      throw new Error('hardhat compile failed');
+    }
+  }
+
+  const node = spawn('npx', ['hardhat', 'node', '--hostname', '127.0.0.1', '--port', String(port)], {
+    cwd: CONTRACTS_DIR,
+    env: { ...process.env, HARDHAT_CHAIN_ID: String(chainId) },
+    stdio: 'ignore',
+    detached: true
+  });
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+  try {
+    await waitForRpc(provider, node);
+    console.log(`⛓️ FAKE CHAIN: Hardhat node ${node.pid} listening on ${rpcUrl} as chain ${chainId}`);
+
+    const deployer = hardhatAccount(0).connect(provider);
+    const calculator = hardhatAccount(1).connect(provider);
+    const users = Array.from({ length: options.userCount ?? 3 }, (_, index) => hardhatAccount(index + 2).connect(provider));
+
+    const deploy = async (name: string, ...args: unknown[]): Promise<ethers.Contract> => {
+      const { abi, bytecode } = loadArtifact(name);
+      const contract = await new ethers.ContractFactory(abi, bytecode, deployer).deploy(...args);
+      await contract.waitForDeployment();
+      return new ethers.Contract(await contract.getAddress(), abi, deployer);
+    };
+    const send = async (pending: Promise<ethers.ContractTransactionResponse>): Promise<ethers.TransactionReceipt> => {
+      const receipt = await (await pending).wait();
+      if (!receipt) throw new Error('Transaction was not mined');
+      return receipt;
+    };
+    const increaseTime = async (seconds: number) => {
+      await provider.send('evm_increaseTime', [seconds]);
+      await provider.send('evm_mine', []);
+    };
+
+    const kilt = await deploy('MockERC20', 'KILT Protocol', 'KILT', 18);
+    const weth = await deploy('MockERC20', 'Wrapped Ether', 'WETH', 18);
+    const factory = await deploy('MockUniswapV3Factory');
+    const positionManager = await deploy('MockNonfungiblePositionManager', await factory.getAddress(), await weth.getAddress());
+    const treasury = await deploy('DynamicTreasuryPool', await kilt.getAddress(), deployer.address);
+
+    await send(factory.createPool(await kilt.getAddress(), await weth.getAddress(), feeTier));
+    const poolAddress: string = await factory.getPool(await kilt.getAddress(), await weth.getAddress(), feeTier);
+    const pool = new ethers.Contract(poolAddress, loadArtifact('MockUniswapV3Pool').abi, deployer);
+
+    const funding = options.treasuryFunding ?? ethers.parseUnits('1000000', 18);
+    await send(kilt.mint(deployer.address, funding));
+    await send(kilt.approve(await treasury.getAddress(), funding));
+    await send(treasury.depositTreasury(funding));
+
+    await send(treasury.setPendingCalculatorAuthorization(calculator.address));
+    await increaseTime(CALCULATOR_ACTIVATION_DELAY + 1);
+    await send(treasury.activatePendingCalculator(calculator.address));
+
+    const contracts: FakeChainContracts = {
+      kilt: await kilt.getAddress(),
+      weth: await weth.getAddress(),
+      factory: await factory.getAddress(),
+      pool: poolAddress,
+      positionManager: await positionManager.getAddress(),
+      treasury: await treasury.getAddress()
+    };
+
+    Object.assign(process.env, {
+      [`RPC_URLS_${chainId}`]: rpcUrl,
+      RPC_URLS_EXCLUSIVE: 'true',
+      [`UNISWAP_FACTORY_${chainId}`]: contracts.factory,
+      [`UNISWAP_POSITION_MANAGER_${chainId}`]: contracts.positionManager,
+      [`WETH_${chainId}`]: contracts.weth,
+      [`TREASURY_CONTRACT_${chainId}`]: contracts.treasury,
+      CALCULATOR_PRIVATE_KEY: calculator.privateKey,
+      INDEXER_CONFIRMATIONS: '0'
+    });
+
+    const { getChainConfig } = await import('../chain-registry');
+    if (getChainConfig(chainId)?.uniswap.positionManager !== contracts.positionManager) {
+      throw new Error('Chain registry was imported before the fake chain started - import server modules after startFakeChain()');
+    }
+
+    const { blockchainConfigService } = await import('../blockchain-config-service');
+    blockchainConfigService.setOverrides({
+      KILT_TOKEN_ADDRESS: contracts.kilt,
+      WETH_TOKEN_ADDRESS: contracts.weth,
+      KILT_ETH_POOL_ADDRESS: poolAddress,
+      UNISWAP_V3_FEE_TIER: String(feeTier),
+      BASE_NETWORK_CHAIN_ID: String(chainId),
+      POSITION_MANAGER_ADDRESS: contracts.positionManager,
+      POSITION_MANAGER_START_BLOCK: '0'
+    });
+
+    console.log('⛓️ FAKE CHAIN: Deployed', contracts);
+
+    return {
+      chainId,
+      rpcUrl,
+      feeTier,
+      provider,
+      contracts,
+      deployer,
+      calculator,
+      users,
+
+      async mintPosition(user, mintOptions = {}) {
+        const owner = await user.getAddress();
+        const kiltAmount = mintOptions.kiltAmount ?? ethers.parseUnits('10000', 18);
+        const wethAmount = mintOptions.wethAmount ?? ethers.parseUnits('1', 18);
+        await send(kilt.mint(owner, kiltAmount));
+        await send(weth.mint(owner, wethAmount));
+        await send((kilt.connect(user) as ethers.Contract).approve(contracts.positionManager, kiltAmount));
+        await send((weth.connect(user) as ethers.Contract).approve(contracts.positionManager, wethAmount));
+
+        // Uniswap orders pool tokens by address
+        const kiltIsToken0 = BigInt(contracts.kilt) < BigInt(contracts.weth);
+        const params = {
+          token0: kiltIsToken0 ? contracts.kilt : contracts.weth,
+          token1: kiltIsToken0 ? contracts.weth : contracts.kilt,
+          fee: feeTier,
+          tickLower: mintOptions.tickLower ?? FULL_RANGE.tickLower,
+          tickUpper: mintOptions.tickUpper ?? FULL_RANGE.tickUpper,
+          amount0Desired: kiltIsToken0 ? kiltAmount : wethAmount,
+          amount1Desired: kiltIsToken0 ? wethAmount : kiltAmount,
+          amount0Min: 0,
+          amount1Min: 0,
+          recipient: owner,
+          deadline: Math.floor(Date.now() / 1000) + 3600
+        };
+
+        const manager = positionManager.connect(user) as ethers.Contract;
+        const receipt = await send(manager.mint(params));
+        const minted = receipt.logs
+          .map(log => manager.interface.parseLog(log))
+          .find(event => event?.name === 'IncreaseLiquidity');
+        if (!minted) throw new Error('Mint emitted no IncreaseLiquidity event');
+
+        await send(pool.setLiquidity((await pool.liquidity()) + minted.args.liquidity));
+        return minted.args.tokenId.toString();
+      },
+
+      async closePosition(user, tokenId) {
+        const manager = positionManager.connect(user) as ethers.Contract;
+        const position = await manager.positions(tokenId);
+        const deadline = Math.floor(Date.now() / 1000) + 3600;
+        if (position.liquidity > 0n) {
+          await send(manager.decreaseLiquidity({ tokenId, liquidity: position.liquidity, amount0Min: 0, amount1Min: 0, deadline }));
+        }
+        await send(manager.collect({ tokenId, recipient: await user.getAddress(), amount0Max: MAX_UINT128, amount1Max: MAX_UINT128 }));
+        await send(manager.burn(tokenId));
+      },
+
+      async setPoolTick(tick) {
+        await send(pool.setPrice(sqrtPriceX96AtTick(tick), tick));
+      },
+
+      async claimRewards(user, amount, signature) {
+        return send((treasury.connect(user) as ethers.Contract).claimRewards(amount, signature));
+      },
+
+      async kiltBalance(address) {
+        return kilt.balanceOf(address);
+      },
+
+      increaseTime,
+
+      async stop() {
+        blockchainConfigService.clearOverrides();
+        provider.destroy();
+        await stopNode(node);
+        console.log('⛓️ FAKE CHAIN: Hardhat node stopped');
+      }
+    };
+  } catch (error) {
+    provider.destroy();
+    await stopNode(node);
+    throw error;
+  }
+}
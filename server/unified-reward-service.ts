@@ -3,18 +3,27 @@
  * Consolidates all reward logic with intelligent caching and batch processing
  */
 
-import { db } from './db';
-import { lpPositions, users, programSettings } from '../shared/schema';
-import { eq, and } from 'drizzle-orm';
 import { smartContractService } from './smart-contract-service';
+import { rewardLedgerService, type RewardLedgerService, type AccrualParameters, type DayAllocation } from './reward-ledger-service';
+import { storage, type IStorage } from './storage';
+import { incentiveProgramService, type ResolvedIncentiveProgram } from './incentive-program-service';
+import { blockchainConfigService } from './blockchain-config-service';
+import { jobScheduler } from './job-scheduler';
+import type { StreamlinedAPR } from './single-source-apr';
+import type { LpPosition } from '@shared/schema';
+
+export const REWARD_LEDGER_JOB = 'reward-ledger-accrual';
 
 interface CachedData {
+  programId: number;
   poolTVL: number;
   tradingAPR: number;
   programAPR: number;
   dailyBudget: number;
   treasuryAllocation: number;
   programDurationDays: number;
+  programStartDate?: Date | null;
+  programEndDate?: Date | null;
   totalDistributed?: number;
   timestamp: number;
 }
@@ -31,6 +40,30 @@ interface PositionReward {
   incentiveAPR?: number;
 }
 
+interface BudgetAllocationStats {
+  dailyRewardsCap: number;
+  projectedDailyAllocation: number;
+  projectedNormalizationFactor: number;
+  daysAllocated: number;
+  totalAllocated: number;
+  totalCap: number;
+  utilization: number;
+  lastAllocatedDate: string | null;
+  lastDayAllocated: number;
+}
+
+interface RewardTokenBreakdown {
+  tokenAddress: string;
+  tokenSymbol: string;
+  decimals: number;
+  accumulated: number;
+  claimed: number;
+  claimable: number;
+  dailyRewards: number;
+}
+
+// Totals, claimable and daily rate are KILT (the treasury contract's claimRewards token);
+// `tokens` breaks every reward token down, KILT first
 interface UserRewardStats {
   totalAccumulated: number;
   totalClaimable: number;
@@ -38,29 +71,45 @@ interface UserRewardStats {
   activePositions: number;
   avgDailyRewards: number;
   positions: PositionReward[];
+  tokens: RewardTokenBreakdown[];
 }
 
+type ProgramContext = { program: ResolvedIncentiveProgram; marketData: CachedData; allocation: DayAllocation };
+
 export class UnifiedRewardService {
-  private cache: Map<string, any> = new Map(); // Allow different cache types
+  private marketDataCache = new Map<number, CachedData>(); // keyed by program id
+  private allocationCache = new Map<number, { allocation: DayAllocation; timestamp: number }>(); // keyed by program id
+  private distributedCache: { amount: number; timestamp: number } | null = null;
   private readonly CACHE_DURATION = 30000; // 30 seconds - balance between performance and real-time data
   private readonly FALLBACK_POOL_TVL = 99171; // Fallback TVL
   private readonly FALLBACK_TRADING_APR = 0;
   private readonly FALLBACK_PROGRAM_APR = 0;
+  private readonly LEDGER_ACCRUAL_INTERVAL = 60 * 60 * 1000; // Hourly check for newly closed days
+
+  constructor(private storage: IStorage, private ledger: RewardLedgerService) {}
+
+  /**
+   * Program to compute for - the given one, or the treasury-funded program
+   */
+  private async resolveProgram(programId?: number): Promise<ResolvedIncentiveProgram | null> {
+    return programId !== undefined
+      ? incentiveProgramService.getProgram(programId)
+      : incentiveProgramService.getPrimaryProgram();
+  }
 
   /**
-   * Get cached or fresh market data with intelligent fallbacks
+   * Get cached or fresh market data for a program with intelligent fallbacks
    */
-  private async getMarketData(): Promise<CachedData> {
-    const cacheKey = 'market_data';
-    const cached = this.cache.get(cacheKey);
+  private async getMarketData(program: ResolvedIncentiveProgram): Promise<CachedData> {
+    const cached = this.marketDataCache.get(program.id);
     
     if (cached && (Date.now() - cached.timestamp) < this.CACHE_DURATION) {
       return cached;
     }
 
     try {
-      // STREAMLINED: Get admin config only, calculate everything locally
-      const config = await this.getAdminConfiguration();
+      // STREAMLINED: Budget and dates come from the program, everything else is calculated locally
+      const config = this.getProgramConfiguration(program);
       
       // Get pool TVL from a simple, fast endpoint instead of multiple API calls
       const poolTVL = await this.getPoolTVL();
@@ -85,16 +134,19 @@ export class UnifiedRewardService {
       console.log(`💰 PROGRAM APR: ${calculatedProgramAPR.toFixed(1)}% (${dailyBudget} KILT daily × ${programDurationDays} days ÷ $${poolTVL} pool TVL × annualized)`);
 
       const marketData: CachedData = {
+        programId: program.id,
         poolTVL: poolTVL,
         tradingAPR: this.FALLBACK_TRADING_APR, // Use cached value instead of API call
         programAPR: calculatedProgramAPR,
         dailyBudget: config.dailyBudget,
         treasuryAllocation: config.treasuryAllocation,
         programDurationDays: config.programDurationDays,
+        programStartDate: config.programStartDate,
+        programEndDate: config.programEndDate,
         timestamp: Date.now()
       };
 
-      this.cache.set(cacheKey, marketData);
+      this.marketDataCache.set(program.id, marketData);
       return marketData;
     } catch (error) {
       console.warn('Failed to fetch market data, using fallbacks:', error);
@@ -108,6 +160,7 @@ export class UnifiedRewardService {
 
       // Return fallback data with calculated APR
       const fallbackData: CachedData = {
+        programId: program.id,
         poolTVL: this.FALLBACK_POOL_TVL,
         tradingAPR: this.FALLBACK_TRADING_APR,
         programAPR: fallbackProgramAPR,
@@ -117,7 +170,7 @@ export class UnifiedRewardService {
         timestamp: Date.now()
       };
 
-      this.cache.set(cacheKey, fallbackData);
+      this.marketDataCache.set(program.id, fallbackData);
       return fallbackData;
     }
   }
@@ -136,59 +189,147 @@ export class UnifiedRewardService {
   }
 
   /**
-   * Get admin configuration with caching
+   * Budget and dates of a program (treasury-funded programs resolve them from treasury_config)
    */
-  private async getAdminConfiguration(): Promise<{ dailyBudget: number; treasuryAllocation: number; programDurationDays: number }> {
-    const cacheKey = 'admin_config';
-    const cached = this.cache.get(cacheKey);
-    
-    if (cached && (Date.now() - cached.timestamp) < this.CACHE_DURATION) {
-      return { 
-        dailyBudget: cached.dailyBudget, 
-        treasuryAllocation: cached.treasuryAllocation,
-        programDurationDays: cached.programDurationDays || 60
-      };
-    }
+  private getProgramConfiguration(program: ResolvedIncentiveProgram): {
+    dailyBudget: number;
+    treasuryAllocation: number;
+    programDurationDays: number;
+    programStartDate: Date;
+    programEndDate: Date;
+  } {
+    return {
+      dailyBudget: program.dailyBudget,
+      treasuryAllocation: program.totalBudget,
+      programDurationDays: program.durationDays,
+      programStartDate: new Date(`${program.startDate}T00:00:00.000Z`),
+      programEndDate: new Date(`${program.endDate}T00:00:00.000Z`)
+    };
+  }
+
+  /**
+   * Parameters snapshotted into each reward ledger entry
+   */
+  private async getAccrualParameters(program: ResolvedIncentiveProgram): Promise<AccrualParameters> {
+    const marketData = await this.getMarketData(program);
+    return {
+      programId: program.id,
+      dailyBudget: marketData.dailyBudget,
+      programDurationDays: marketData.programDurationDays || 60,
+      programStartDate: marketData.programStartDate,
+      programEndDate: marketData.programEndDate,
+      baseAPR: marketData.programAPR,
+      partnerTokens: program.partnerTokens.map(token => ({
+        tokenAddress: token.tokenAddress,
+        tokenSymbol: token.tokenSymbol,
+        dailyBudget: token.dailyBudget
+      }))
+    };
+  }
 
+  /**
+   * Append ledger entries for every closed day that has not been accrued yet, in every active program
+   */
+  async syncLedger(asOf: Date = new Date()): Promise<number> {
+    let written = 0;
     try {
-      const { treasuryConfig } = await import('../shared/schema');
-      const [settings] = await db.select().from(treasuryConfig).limit(1);
-      
-      const config = {
-        dailyBudget: typeof settings?.dailyRewardsCap === 'string' ? parseFloat(settings.dailyRewardsCap) : (settings?.dailyRewardsCap || 25000),
-        treasuryAllocation: typeof settings?.totalAllocation === 'string' ? parseFloat(settings.totalAllocation) : (settings?.totalAllocation || 1500000),
-        programDurationDays: settings?.programDurationDays || 60
-      };
+      for (const program of await incentiveProgramService.listPrograms()) {
+        written += await this.ledger.accrueThrough(asOf, await this.getAccrualParameters(program));
+      }
+    } catch (error) {
+      console.warn('Reward ledger accrual failed:', error);
+    }
+    return written;
+  }
 
-      this.cache.set(cacheKey, {
-        ...config,
-        timestamp: Date.now(),
-        poolTVL: 0, tradingAPR: 0, programAPR: 0
-      });
+  /**
+   * Closed days each active program's ledger is still missing. Only the leader's accrual job
+   * writes the ledger, so anything listed here means that job is behind.
+   */
+  async getUnaccruedDays(asOf: Date = new Date()): Promise<Map<number, number>> {
+    const behind = new Map<number, number>();
+    for (const program of await incentiveProgramService.listPrograms()) {
+      const days = await this.ledger.countUnaccruedDays(asOf, { programId: program.id, ...this.getProgramConfiguration(program) });
+      if (days > 0) behind.set(program.id, days);
+    }
+    return behind;
+  }
 
-      return config;
-    } catch (error) {
-      console.warn('Failed to get admin config, using defaults:', error);
-      return { dailyBudget: 25000, treasuryAllocation: 1500000, programDurationDays: 60 };
+  /**
+   * Today's projected allocation for a program (cached) - the same normalized pass the ledger
+   * applies when the day closes, so displayed daily rates already respect the cap
+   */
+  async getAllocationPreview(program: ResolvedIncentiveProgram): Promise<DayAllocation> {
+    const cached = this.allocationCache.get(program.id);
+
+    if (cached && (Date.now() - cached.timestamp) < this.CACHE_DURATION) {
+      return cached.allocation;
+    }
+
+    const allocation = await this.ledger.previewAllocation(new Date(), await this.getAccrualParameters(program));
+    this.allocationCache.set(program.id, { allocation, timestamp: Date.now() });
+    return allocation;
+  }
+
+  /**
+   * Market data and today's allocation for each program the positions belong to
+   */
+  private async getProgramContexts(positions: Array<{ programId: number | null }>): Promise<Map<number, ProgramContext>> {
+    const contexts = new Map<number, ProgramContext>();
+    const programIds = Array.from(new Set(positions.map(position => position.programId).filter((id): id is number => id !== null)));
+
+    for (const programId of programIds) {
+      const program = await incentiveProgramService.getProgram(programId);
+      if (!program) continue;
+      const [marketData, allocation] = await Promise.all([
+        this.getMarketData(program),
+        this.getAllocationPreview(program)
+      ]);
+      contexts.set(programId, { program, marketData, allocation });
     }
+    return contexts;
   }
 
   /**
-   * Calculate rewards for a single position with optimized logic
+   * Register ledger accrual with the job scheduler so entries are written as soon as each day
+   * closes - the leader instance runs it hourly
+   */
+  startLedgerAccrual(): void {
+    jobScheduler.register({
+      name: REWARD_LEDGER_JOB,
+      description: 'Accrue reward ledger entries for every closed program day',
+      intervalMs: this.LEDGER_ACCRUAL_INTERVAL,
+      handler: async () => ({ written: await this.syncLedger() })
+    });
+    console.log('📒 Reward ledger accrual registered');
+  }
+
+  /**
+   * Stop running ledger accrual on this instance
+   */
+  stopLedgerAccrual(): void {
+    jobScheduler.unregister(REWARD_LEDGER_JOB);
+  }
+
+  /**
+   * Calculate rewards for a single position - accumulated amount comes from the ledger,
+   * the daily rate is today's projection from current inputs
    */
   private calculatePositionReward(
-    position: any,
-    marketData: CachedData,
-    createdAt: Date
+    position: LpPosition,
+    context: ProgramContext | undefined,
+    createdAt: Date,
+    ledgerAccumulated: number
   ): PositionReward {
     const now = new Date();
     const currentValueUSD = parseFloat(position.currentValueUSD || '0');
     
-    if (currentValueUSD <= 0 || !position.isActive) {
+    // Positions outside every program keep their ledger history but earn nothing new
+    if (currentValueUSD <= 0 || !position.isActive || !context) {
       return {
         nftTokenId: position.nftTokenId,
         dailyRewards: 0,
-        accumulatedRewards: 0,
+        accumulatedRewards: Math.max(0, ledgerAccumulated),
         hourlyRewards: 0,
         totalHours: 0,
         liquidityAmount: 0,
@@ -196,60 +337,21 @@ export class UnifiedRewardService {
       };
     }
 
-    // STREAMLINED CALCULATION: Always from position creation (consistent logic)
     const positionAgeHours = Math.max(1, Math.floor((now.getTime() - createdAt.getTime()) / (1000 * 60 * 60)));
-    const positionAgeDays = positionAgeHours / 24;
-
-    // Formula parameters (optimized for performance)
-    const L_u = currentValueUSD; // User liquidity
-    const L_T = marketData.poolTVL; // Total pool liquidity
-    const D_u = positionAgeDays; // Position age for time multiplier
-    const P = 365; // Program duration (days)
-    const R_P = marketData.dailyBudget; // Daily reward budget
-
-    // Multipliers (configurable but using efficient defaults)
-    const b_time = 0.6; // Time boost coefficient
-    const IRM = 1.0; // In-range multiplier (assume fully in range for performance)
-    const FRB = 1.0; // Full range bonus multiplier
-
-    // CORE CALCULATION: R_u = (L_u/L_T) × (1 + ((D_u/P) × b_time)) × IRM × FRB × (R/P)
-    const liquidityRatio = L_u / L_T;
-    const currentTimeBoost = 1 + ((D_u / P) * b_time);
-    
-    // DAILY RATE: Use current time boost for accurate "today's rate" display
-    const dailyRewards = liquidityRatio * currentTimeBoost * IRM * FRB * R_P;
-    const hourlyRewards = dailyRewards / 24;
 
-    // ACCUMULATION: Integrate time boost over actual position lifetime
-    // Instead of current_rate × total_hours, calculate actual earned rewards
-    const baseHourlyRate = (liquidityRatio * IRM * FRB * R_P) / 24; // Base rate without time boost
-    
-    let totalAccumulatedSinceCreation = 0;
-    
-    // Calculate accumulated rewards hour by hour with proper time boost integration
-    // For performance, we'll use daily chunks since time boost changes slowly
-    for (let dayIndex = 0; dayIndex < Math.ceil(positionAgeDays); dayIndex++) {
-      const dayProgress = dayIndex / P; // Days since creation / Program duration
-      const dayTimeBoost = 1 + (dayProgress * b_time);
-      const dayRate = baseHourlyRate * dayTimeBoost;
-      
-      // For partial last day, only count actual hours
-      const hoursInThisDay = dayIndex === Math.floor(positionAgeDays) 
-        ? ((positionAgeDays - dayIndex) * 24) 
-        : 24;
-      
-      totalAccumulatedSinceCreation += dayRate * hoursInThisDay;
-    }
+    // DAILY RATE: This position's share of today's projected allocation in its program
+    const dailyRewards = context.allocation.rewards.get(position.id) || 0;
+    const hourlyRewards = dailyRewards / 24;
 
     // Calculate APR breakdown
-    const tradingFeeAPR = marketData.tradingAPR;
-    const incentiveAPR = marketData.programAPR;
+    const tradingFeeAPR = context.marketData.tradingAPR;
+    const incentiveAPR = context.marketData.programAPR;
     const effectiveAPR = tradingFeeAPR + incentiveAPR;
 
     return {
       nftTokenId: position.nftTokenId,
       dailyRewards: Math.max(0, dailyRewards),
-      accumulatedRewards: Math.max(0, totalAccumulatedSinceCreation),
+      accumulatedRewards: Math.max(0, ledgerAccumulated),
       hourlyRewards: Math.max(0, hourlyRewards),
       totalHours: positionAgeHours,
       liquidityAmount: currentValueUSD,
@@ -264,19 +366,21 @@ export class UnifiedRewardService {
    */
   async getUserRewardStats(userId: number): Promise<UserRewardStats> {
     try {
+
       // Batch database queries
-      const [userResult, positions, marketData] = await Promise.all([
-        db.select().from(users).where(eq(users.id, userId)).limit(1),
-        db.select().from(lpPositions).where(eq(lpPositions.userId, userId)),
-        this.getMarketData()
+      const [user, positions, ledgerTotals] = await Promise.all([
+        this.storage.getUser(userId),
+        this.storage.getLpPositionsByUserId(userId),
+        this.ledger.getPositionTotals(userId)
       ]);
 
-      if (!userResult.length) {
+      if (!user) {
         throw new Error(`User ${userId} not found`);
       }
 
-      const walletAddress = userResult[0].address;
+      const walletAddress = user.address;
       const activePositions = positions.filter(pos => pos.isActive === true);
+      const programContexts = await this.getProgramContexts(activePositions);
 
       // Get claimed amount in parallel with position calculations
       const [claimedResult, positionRewards] = await Promise.all([
@@ -285,7 +389,7 @@ export class UnifiedRewardService {
           return { success: false, claimedAmount: 0, error: error.message };
         }),
         Promise.all(activePositions.map(position => 
-          this.calculatePositionReward(position, marketData, position.createdAt || new Date())
+          this.calculatePositionReward(position, programContexts.get(position.programId!), position.createdAt || new Date(), ledgerTotals.get(position.id) || 0)
         ))
       ]);
 
@@ -296,32 +400,20 @@ export class UnifiedRewardService {
         console.log(`  Position ${idx + 1}: ${reward.nftTokenId} - Daily: ${reward.dailyRewards.toFixed(2)}, Accumulated: ${reward.accumulatedRewards.toFixed(2)}`);
       });
 
-      // Aggregate results efficiently
-      const totals = positionRewards.reduce(
-        (acc, reward) => ({
-          dailyRewards: acc.dailyRewards + reward.dailyRewards,
-          accumulated: acc.accumulated + reward.accumulatedRewards
-        }),
-        { dailyRewards: 0, accumulated: 0 }
-      );
-
-      // FIXED: Ensure consistent calculation logic
-      // Total Accumulated = All rewards ever earned (both claimed + unclaimed)
+      // Total Accumulated = All rewards ever earned (both claimed + unclaimed), summed over the
+      // ledger so closed positions keep their history
       // Total Claimable = Only unclaimed rewards available to claim now
-      
-      const totalAccumulated = Math.max(0, totals.accumulated);
-      const actualClaimableAmount = Math.max(0, totalAccumulated - actualClaimedAmount);
-
-      // Ensure Total Earned is never less than Claimed (data consistency check)
-      const adjustedTotalEarned = Math.max(totalAccumulated, actualClaimedAmount + actualClaimableAmount);
+      const tokens = await this.getTokenBreakdown(userId, walletAddress, activePositions, positionRewards, programContexts, actualClaimedAmount);
+      const kilt = tokens[0];
 
       return {
-        totalAccumulated: adjustedTotalEarned,
-        totalClaimable: actualClaimableAmount,
-        totalClaimed: actualClaimedAmount || 0,
+        totalAccumulated: kilt.accumulated,
+        totalClaimable: kilt.claimable,
+        totalClaimed: kilt.claimed,
         activePositions: activePositions.length,
-        avgDailyRewards: totals.dailyRewards,
-        positions: positionRewards
+        avgDailyRewards: kilt.dailyRewards,
+        positions: positionRewards,
+        tokens
       };
 
     } catch (error) {
@@ -332,23 +424,95 @@ export class UnifiedRewardService {
         totalClaimed: 0,
         activePositions: 0,
         avgDailyRewards: 0,
-        positions: []
+        positions: [],
+        tokens: []
       };
     }
   }
 
+  /**
+   * Accumulated, claimed, claimable and today's rate per reward token. Ledger entries count in
+   * their program's primary token, partner accruals in their own token.
+   */
+  private async getTokenBreakdown(
+    userId: number,
+    walletAddress: string,
+    activePositions: Array<{ id: number; programId: number | null }>,
+    positionRewards: PositionReward[],
+    programContexts: Map<number, ProgramContext>,
+    kiltClaimed: number
+  ): Promise<RewardTokenBreakdown[]> {
+    const [{ kilt: kiltAddress }, programTotals, partnerTotals, programs] = await Promise.all([
+      blockchainConfigService.getTokenAddresses(),
+      this.ledger.getProgramTotals(userId),
+      this.ledger.getPartnerTokenTotals(userId),
+      incentiveProgramService.listPrograms({ includeInactive: true })
+    ]);
+
+    const tokens = new Map<string, RewardTokenBreakdown>();
+    const tokenFor = (tokenAddress: string, tokenSymbol: string, decimals: number) => {
+      const key = tokenAddress.toLowerCase();
+      if (!tokens.has(key)) {
+        tokens.set(key, { tokenAddress, tokenSymbol, decimals, accumulated: 0, claimed: 0, claimable: 0, dailyRewards: 0 });
+      }
+      return tokens.get(key)!;
+    };
+    tokenFor(kiltAddress, 'KILT', 18);
+
+    // Ledger entries from before programs existed were all KILT
+    programTotals.forEach((total, programId) => {
+      const program = programs.find(candidate => candidate.id === programId);
+      const token = program ? tokenFor(program.rewardTokenAddress, program.rewardTokenSymbol, 18) : tokenFor(kiltAddress, 'KILT', 18);
+      token.accumulated += total;
+    });
+    for (const partner of partnerTotals) {
+      const decimals = programs.flatMap(program => program.partnerTokens)
+        .find(token => token.tokenAddress.toLowerCase() === partner.tokenAddress)?.decimals ?? 18;
+      tokenFor(partner.tokenAddress, partner.tokenSymbol, decimals).accumulated += partner.total;
+    }
+
+    // Today's rate: the position's primary share, scaled into each partner token by budget
+    activePositions.forEach((position, index) => {
+      const context = position.programId !== null ? programContexts.get(position.programId) : undefined;
+      const dailyRewards = positionRewards[index]?.dailyRewards || 0;
+      if (!context || dailyRewards <= 0) return;
+
+      tokenFor(context.program.rewardTokenAddress, context.program.rewardTokenSymbol, 18).dailyRewards += dailyRewards;
+      if (context.program.dailyBudget > 0) {
+        for (const partner of context.program.partnerTokens) {
+          tokenFor(partner.tokenAddress, partner.tokenSymbol, partner.decimals).dailyRewards +=
+            dailyRewards * partner.dailyBudget / context.program.dailyBudget;
+        }
+      }
+    });
+
+    const others = Array.from(tokens.values()).filter(token => token.tokenAddress.toLowerCase() !== kiltAddress.toLowerCase());
+    const claimedByToken = others.length > 0
+      ? await smartContractService.getClaimedTokenAmounts(walletAddress, others)
+      : new Map<string, number>();
+
+    return Array.from(tokens.values()).map(token => {
+      const isKilt = token.tokenAddress.toLowerCase() === kiltAddress.toLowerCase();
+      const claimed = isKilt ? kiltClaimed : claimedByToken.get(token.tokenAddress.toLowerCase()) || 0;
+      const accumulated = Math.max(0, token.accumulated);
+      const claimable = Math.max(0, accumulated - claimed);
+      return {
+        ...token,
+        // Total Earned is never less than Claimed (data consistency check)
+        accumulated: Math.max(accumulated, claimed + claimable),
+        claimed,
+        claimable
+      };
+    });
+  }
+
   /**
    * Get position reward calculation (single position optimization)
    */
   async getPositionReward(userId: number, nftTokenId: string): Promise<PositionReward> {
     try {
-      const [position] = await db.select()
-        .from(lpPositions)
-        .where(and(
-          eq(lpPositions.userId, userId),
-          eq(lpPositions.nftTokenId, nftTokenId)
-        ))
-        .limit(1);
+      const position = (await this.storage.getLpPositionsByUserId(userId))
+        .find(candidate => candidate.nftTokenId === nftTokenId);
 
       if (!position || !position.isActive) {
         return {
@@ -362,8 +526,11 @@ export class UnifiedRewardService {
         };
       }
 
-      const marketData = await this.getMarketData();
-      return this.calculatePositionReward(position, marketData, position.createdAt || new Date());
+      const [ledgerTotals, programContexts] = await Promise.all([
+        this.ledger.getPositionTotals(userId),
+        this.getProgramContexts([position])
+      ]);
+      return this.calculatePositionReward(position, programContexts.get(position.programId!), position.createdAt || new Date(), ledgerTotals.get(position.id) || 0);
 
     } catch (error) {
       console.error(`Failed to get position reward for ${nftTokenId}:`, error);
@@ -380,9 +547,12 @@ export class UnifiedRewardService {
   }
 
   /**
-   * Get program analytics with REAL blockchain pool data
+   * Get analytics for one incentive program (default: the treasury-funded one) with REAL blockchain pool data
    */
-  async getProgramAnalytics(): Promise<{
+  async getProgramAnalytics(programId?: number): Promise<{
+    programId: number;
+    programName: string;
+    poolAddress: string;
     totalLiquidity: number;
     activeLiquidityProviders: number;
     totalRewardsDistributed: number;
@@ -398,62 +568,33 @@ export class UnifiedRewardService {
     poolVolume24h?: number;
     poolFeeEarnings24h?: number;
     totalUniqueUsers?: number;
+    budgetAllocation?: BudgetAllocationStats;
   }> {
-    // Get streamlined APR and real pool data
-    let streamlinedData;
-    try {
-      const streamlinedResponse = await fetch('http://localhost:5000/api/apr/streamlined');
-      if (streamlinedResponse.ok) {
-        streamlinedData = await streamlinedResponse.json();
-      } else {
-        throw new Error('Streamlined API failed');
-      }
-    } catch (error) {
-      console.warn('Using fallback APR for program analytics');
-      streamlinedData = { programAPR: 149.1, totalAPR: 153.6, poolTVL: 102250.23, kiltPrice: 0.016704 };
+    const program = await this.resolveProgram(programId);
+    if (!program) {
+      throw new Error(`Incentive program ${programId ?? '(primary)'} not found`);
     }
 
-    // Get DexScreener data for pool liquidity providers (Realistic competitive data)
-    let dexScreenerData;
+    // Streamlined APR with the pool TVL and 24h volume it was computed from - zeros while the
+    // pool has never been readable (lazy import: single-source-apr imports this module)
+    let streamlinedData: Pick<StreamlinedAPR, 'programAPR' | 'poolTVL' | 'volume24h'>;
     try {
-      const dexResponse = await fetch('https://api.dexscreener.com/latest/dex/pairs/base/0x82da478b1382b951cbad01beb9ed459cdb16458e');
-      if (dexResponse.ok) {
-        const data = await dexResponse.json();
-        const pair = data.pairs?.[0];
-        dexScreenerData = {
-          poolTVL: pair?.liquidity?.usd || 102250.23,
-          volume24h: pair?.volume?.h24 || 0
-        };
-      } else {
-        throw new Error('DexScreener API failed');
-      }
+      const { SingleSourceAPR } = await import('./single-source-apr');
+      streamlinedData = await new SingleSourceAPR(this.storage).getStreamlinedAPR(program);
     } catch (error) {
-      console.warn('Using fallback DexScreener data for program analytics');
-      dexScreenerData = {
-        poolTVL: 102250.23,
-        volume24h: 0
-      };
+      console.warn(`⚠️ Pool data unavailable for program ${program.id}, reporting no APR or liquidity:`, error);
+      streamlinedData = { programAPR: 0, poolTVL: 0, volume24h: 0 };
     }
 
     // Get actual registered users and positions from database
-    let registeredUserCount = 2; // Unique wallet addresses registered on the app
-    let totalRegisteredPositions = 8; // Total active positions across all users
+    let registeredUserCount = 0; // Unique wallet addresses registered in the program
+    let totalRegisteredPositions = 0; // Total active positions in the program
     
     try {
-      const { sql, eq } = await import('drizzle-orm');
-      
-      // Count unique users with active positions using raw SQL for simplicity
-      const userCountResult = await db.execute(sql`
-        SELECT COUNT(DISTINCT u.address) as count 
-        FROM users u 
-        INNER JOIN lp_positions lp ON u.id = lp.user_id 
-        WHERE lp.is_active = true
-      `);
-      registeredUserCount = Number(userCountResult.rows[0]?.count) || 2;
-
-      // Count total active positions across all users
-      const positionCountResult = await db.select({ count: sql<number>`count(*)` }).from(lpPositions).where(eq(lpPositions.isActive, true));
-      totalRegisteredPositions = positionCountResult[0]?.count || 8;
+      // Count unique users and total active positions in this program
+      const participation = await this.storage.getProgramParticipation(program.id);
+      registeredUserCount = participation.users;
+      totalRegisteredPositions = participation.positions;
       
       // Note: Average position value calculation removed as it's no longer displayed in UI
       
@@ -462,14 +603,14 @@ export class UnifiedRewardService {
       console.warn('Database query failed, using known values for program analytics');
     }
     
-    // Calculate 24h pool fee earnings (0.3% fee tier)
-    const poolFeeEarnings24h = (dexScreenerData.volume24h || 0) * 0.003;
+    // Calculate 24h pool fee earnings at the program pool's fee tier
+    const poolFeeEarnings24h = streamlinedData.volume24h * (program.feeTier / 1_000_000);
     
-    // Get actual total distributed amount with cached fallback for RPC failures
-    let actualTotalDistributed = 3240; // Updated fallback to last known good value
+    // Get actual total distributed amount, falling back to the last calculated one for RPC failures
+    let actualTotalDistributed = this.distributedCache?.amount ?? 0;
     
     // Check cache first to avoid fluctuations, but force fresh calculation if cache is older than 1 minute  
-    const cachedDistributed = this.cache.get('total_distributed') as { amount: number; timestamp: number } | undefined;
+    const cachedDistributed = this.distributedCache;
     if (cachedDistributed && (Date.now() - cachedDistributed.timestamp) < 60000) { // Only use cache for 1 minute
       actualTotalDistributed = cachedDistributed.amount;
       console.log('💰 CACHED DISTRIBUTED: Using cached value', actualTotalDistributed, 'KILT (cache age:', Math.round((Date.now() - cachedDistributed.timestamp) / 1000), 'seconds)');
@@ -477,26 +618,20 @@ export class UnifiedRewardService {
       console.log('💰 FRESH CALCULATION: Cache expired or missing, calculating fresh distributed amount...');
       try {
         // Get all active users and sum their CLAIMED rewards (not accumulated)
-        const { sql } = await import('drizzle-orm');
-        const usersResult = await db.execute(sql`
-          SELECT DISTINCT u.id 
-          FROM users u 
-          INNER JOIN lp_positions lp ON u.id = lp.user_id 
-          WHERE lp.is_active = true
-        `);
+        const userIds = await this.storage.getUserIdsWithActivePositions();
         
         let totalClaimed = 0;
         let successfulCalls = 0;
         
-        for (const userRow of usersResult.rows) {
+        for (const userId of userIds) {
           try {
-            const userStats = await this.getUserRewardStats(Number(userRow.id));
+            const userStats = await this.getUserRewardStats(userId);
             // Always count user stats - getUserRewardStats uses smart contract + database fallback
             totalClaimed += userStats.totalClaimed;
             successfulCalls++;
-            console.log(`📊 User ${userRow.id} claimed amount: ${userStats.totalClaimed} KILT`);
+            console.log(`📊 User ${userId} claimed amount: ${userStats.totalClaimed} KILT`);
           } catch (error) {
-            console.warn('Failed to get user stats for user', userRow.id);
+            console.warn('Failed to get user stats for user', userId);
           }
         }
         
@@ -504,10 +639,10 @@ export class UnifiedRewardService {
         if (successfulCalls > 0) {
           actualTotalDistributed = Math.round(totalClaimed);
           // Cache the successful result to prevent fluctuations
-          this.cache.set('total_distributed', { 
+          this.distributedCache = { 
             amount: actualTotalDistributed, 
             timestamp: Date.now() 
-          });
+          };
           console.log('💰 AUTHENTIC DISTRIBUTED: Calculated', actualTotalDistributed, 'KILT claimed (total:', totalClaimed, ') from', successfulCalls, 'user calculations');
         } else {
           console.log('💰 DISTRIBUTED FALLBACK: All user calculations failed, using cached/fallback value', actualTotalDistributed, 'KILT');
@@ -516,27 +651,61 @@ export class UnifiedRewardService {
         console.warn('Failed to calculate dynamic distributed amount, using fallback:', error);
       }
     }
-    const treasuryRemaining = 1500000 - actualTotalDistributed;
+
+    // Allocated vs cap from the program's allocation pass
+    let budgetAllocation: BudgetAllocationStats | undefined;
+    try {
+      const [summary, preview] = await Promise.all([
+        this.ledger.getAllocationSummary(program.id),
+        this.getAllocationPreview(program)
+      ]);
+      budgetAllocation = {
+        dailyRewardsCap: preview.dailyRewardsCap,
+        projectedDailyAllocation: preview.totalAllocated,
+        projectedNormalizationFactor: preview.normalizationFactor,
+        daysAllocated: summary.daysAllocated,
+        totalAllocated: summary.totalAllocated,
+        totalCap: summary.totalCap,
+        utilization: summary.utilization,
+        lastAllocatedDate: summary.latest?.date || null,
+        lastDayAllocated: summary.latest ? parseFloat(summary.latest.totalAllocated) : 0
+      };
+    } catch (error) {
+      console.warn('Failed to load reward budget allocation summary:', error);
+    }
+
+    // Claims are paid from the treasury contract, so they only count against the treasury-funded
+    // program - other programs are measured by what the ledger has allocated
+    const programSpent = program.fundedByTreasury ? actualTotalDistributed : (budgetAllocation?.totalAllocated ?? 0);
+    const treasuryRemaining = program.totalBudget - programSpent;
+    const today = new Date().toISOString().split('T')[0];
+    const daysRemaining = Math.max(0, Math.ceil(
+      (new Date(`${program.endDate}T00:00:00.000Z`).getTime() - new Date(`${today > program.startDate ? today : program.startDate}T00:00:00.000Z`).getTime()) / (24 * 60 * 60 * 1000)
+    ));
     
-    console.log('🔍 ENHANCED PROGRAM ANALYTICS - Pool TVL: $' + (dexScreenerData.poolTVL || 0).toLocaleString(), 'Unique Registered Users:', registeredUserCount, 'Total Active Positions:', totalRegisteredPositions);
+    console.log('🔍 ENHANCED PROGRAM ANALYTICS - Pool TVL: $' + streamlinedData.poolTVL.toLocaleString(), 'Unique Registered Users:', registeredUserCount, 'Total Active Positions:', totalRegisteredPositions);
     console.log('💰 TREASURY ANALYTICS - Total Distributed:', actualTotalDistributed, 'KILT, Remaining:', treasuryRemaining, 'KILT');
     
     return {
-      totalLiquidity: dexScreenerData.poolTVL || 102250.23,
+      programId: program.id,
+      programName: program.name,
+      poolAddress: program.poolAddress,
+      totalLiquidity: streamlinedData.poolTVL,
       activeLiquidityProviders: registeredUserCount, // App registered users
-      totalRewardsDistributed: actualTotalDistributed,
-      dailyEmissionRate: 25000, // Daily KILT emission
+      totalRewardsDistributed: programSpent,
+      dailyEmissionRate: program.dailyBudget, // Daily reward token emission
       programAPR: streamlinedData.programAPR, // Use streamlined realistic APR
-      treasuryTotal: 1500000,
+      treasuryTotal: program.totalBudget,
       treasuryRemaining: treasuryRemaining,
-      totalDistributed: actualTotalDistributed,
-      programDuration: 60,
-      daysRemaining: 55,
+      totalDistributed: programSpent,
+      programDuration: program.durationDays,
+      daysRemaining,
       totalPositions: totalRegisteredPositions, // Real-time registered positions
       // averagePositionSize removed from API response (no longer needed in UI)
-      poolVolume24h: dexScreenerData.volume24h || 0, // DexScreener 24h volume
+      poolVolume24h: streamlinedData.volume24h, // Pool 24h volume
       poolFeeEarnings24h, // User's fee earnings calculation
-      totalUniqueUsers: registeredUserCount
+      totalUniqueUsers: registeredUserCount,
+      budgetAllocation
     };
   }
 
@@ -544,8 +713,10 @@ export class UnifiedRewardService {
    * Clear cache (for testing or manual refresh)
    */
   clearCache(): void {
-    this.cache.clear();
+    this.marketDataCache.clear();
+    this.allocationCache.clear();
+    this.distributedCache = null;
   }
 }
 
-export const unifiedRewardService = new UnifiedRewardService();
\ No newline at end of file
+export const unifiedRewardService = new UnifiedRewardService(storage, rewardLedgerService);
\ No newline at end of file
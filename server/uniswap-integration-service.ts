@@ -1,15 +1,7 @@
 import { createPublicClient, http, parseUnits, formatUnits } from 'viem';
-import { base } from 'viem/chains';
-import { rpcManager } from './rpc-connection-manager';
+import { getRpcManager } from './rpc-connection-manager';
 import { AuthenticFeeService } from './authentic-fee-service';
-
-// Base Network Configuration
-const BASE_CHAIN_ID = 8453;
-const BASE_RPC_URL = 'https://base.llamarpc.com';
-
-// Uniswap V3 Contract Addresses on Base (official addresses)
-const UNISWAP_V3_FACTORY = '0x33128a8fC17869897dcE68Ed026d694621f6FDfD';
-const UNISWAP_V3_NONFUNGIBLE_POSITION_MANAGER = '0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1';
+import { DEFAULT_CHAIN_ID, requireChainConfig, type ChainConfig } from './chain-registry';
 
 // Token Addresses
 import { blockchainConfigService } from './blockchain-config-service';
@@ -52,15 +44,24 @@ export interface PoolData {
 }
 
 export class UniswapIntegrationService {
+  readonly chainId: number;
+  private readonly chain: ChainConfig;
+  private readonly rpc: ReturnType<typeof getRpcManager>;
   private positionCache = new Map<string, { data: UniswapV3Position, timestamp: number }>();
   private poolAddressCache = new Map<string, string>();
-  private poolInfoCache: { data: any; timestamp: number } | null = null;
+  private poolInfoCache = new Map<string, { data: any; timestamp: number }>();
   private userPositionsCache = new Map<string, { data: UniswapV3Position[], timestamp: number }>();
   private tokenIdsCache = new Map<string, { data: string[], timestamp: number }>();
   private readonly CACHE_DURATION = 120000; // 2 minutes for better caching
   private readonly AGGRESSIVE_CACHE_DURATION = 1000; // 1 second for fresh fee data (debugging)
   private readonly FORCE_FEE_REFRESH = true; // Force fresh fees for authentic data
 
+  constructor(chainId: number = DEFAULT_CHAIN_ID) {
+    this.chainId = chainId;
+    this.chain = requireChainConfig(chainId);
+    this.rpc = getRpcManager(chainId);
+  }
+
   // BLAZING FAST CACHE INVALIDATION - Clear all caches for a user
   clearUserCache(userAddress: string): void {
     const cacheKey = `tokenIds_${userAddress}`;
@@ -82,9 +83,9 @@ export class UniswapIntegrationService {
   }
 
   /**
-   * Get pool info from blockchain - FIXED FOR BETA RELEASE
+   * Get pool info from blockchain - defaults to the configured KILT/ETH pool
    */
-  async getPoolInfo(): Promise<{
+  async getPoolInfo(poolAddressOverride?: string): Promise<{
     address: string;
     token0: string;
     token1: string;
@@ -94,14 +95,14 @@ export class UniswapIntegrationService {
     tick: number;
     totalValueUSD: number;
   } | null> {
+    const poolAddress = poolAddressOverride ?? await blockchainConfigService.getKiltEthPoolAddress();
+
     // Check cache first
-    if (this.poolInfoCache && Date.now() - this.poolInfoCache.timestamp < this.CACHE_DURATION) {
-      return this.poolInfoCache.data;
+    const cached = this.poolInfoCache.get(poolAddress.toLowerCase());
+    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
+      return cached.data;
     }
 
-    // Get pool address from blockchain configuration - use hardcoded for now
-    const poolAddress = '0x82Da478b1382B951cBaD01Beb9eD459cDB16458E';
-
     if (!poolAddress) {
       console.error('Pool address not configured');
       return null;
@@ -109,7 +110,7 @@ export class UniswapIntegrationService {
 
     try {
       // PARALLEL PROCESSING with RPC manager - Execute all contract calls simultaneously
-      const result = await rpcManager.executeWithRetry(async (client) => {
+      const result = await this.rpc.executeWithRetry(async (client) => {
       const [slot0Data, liquidity, token0, token1, fee] = await Promise.all([
         client.readContract({
           address: poolAddress as `0x${string}`,
@@ -255,10 +256,10 @@ export class UniswapIntegrationService {
       };
 
       // Cache the result
-      this.poolInfoCache = {
+      this.poolInfoCache.set(poolAddress.toLowerCase(), {
         data: poolInfo,
         timestamp: Date.now(),
-      };
+      });
 
       return poolInfo;
       }, `getPoolInfo()`);
@@ -283,10 +284,10 @@ export class UniswapIntegrationService {
       return cached.data;
     }
     
-    return await rpcManager.executeWithRetry(async (client) => {
+    return await this.rpc.executeWithRetry(async (client) => {
       // Get balance of NFT positions for the user
       const balance = await client.readContract({
-        address: UNISWAP_V3_NONFUNGIBLE_POSITION_MANAGER as `0x${string}`,
+        address: this.chain.uniswap.positionManager,
         abi: [
           {
             inputs: [{ internalType: 'address', name: 'owner', type: 'address' }],
@@ -308,7 +309,7 @@ export class UniswapIntegrationService {
       for (let i = 0; i < balanceNumber; i++) {
         tokenIdPromises.push(
           client.readContract({
-            address: UNISWAP_V3_NONFUNGIBLE_POSITION_MANAGER as `0x${string}`,
+            address: this.chain.uniswap.positionManager,
             abi: [
               {
                 inputs: [
@@ -397,7 +398,7 @@ export class UniswapIntegrationService {
    */
   async getPositionFees(tokenId: string): Promise<{ token0: string; token1: string; usdValue?: number }> {
     try {
-      return await AuthenticFeeService.getUnclaimedFees(tokenId);
+      return await AuthenticFeeService.getUnclaimedFees(tokenId, this.chainId);
     } catch (error) {
       console.error(`❌ Failed to get position fees for ${tokenId}:`, error);
       throw error;
@@ -408,10 +409,10 @@ export class UniswapIntegrationService {
    * Get pool address for a given token pair and fee tier
    */
   async getPoolAddress(token0: string, token1: string, fee: number): Promise<string> {
-    return await rpcManager.executeWithRetry(async (client) => {
+    return await this.rpc.executeWithRetry(async (client) => {
       // Use Uniswap V3 Factory to get pool address
       const poolAddress = await client.readContract({
-        address: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD' as `0x${string}`, // Uniswap V3 Factory on Base
+        address: this.chain.uniswap.factory,
         abi: [
           {
             inputs: [
@@ -445,7 +446,7 @@ export class UniswapIntegrationService {
       return cached.data;
     }
     
-    return await rpcManager.executeWithRetry(async (client) => {
+    return await this.rpc.executeWithRetry(async (client) => {
       console.log(`Fetching position data for token ${tokenId}`);
       
       // Debug logging for position processing (no hardcoded position IDs)
@@ -453,7 +454,7 @@ export class UniswapIntegrationService {
       
       // Get position data from Uniswap V3 position manager
       const positionData = await client.readContract({
-        address: UNISWAP_V3_NONFUNGIBLE_POSITION_MANAGER as `0x${string}`,
+        address: this.chain.uniswap.positionManager,
         abi: [
           {
             inputs: [{ internalType: 'uint256', name: 'tokenId', type: 'uint256' }],
@@ -513,7 +514,7 @@ export class UniswapIntegrationService {
           poolData.tickCurrent
         ),
         // Use AuthenticFeeService for real-time Uniswap-accurate calculation
-        AuthenticFeeService.getUnclaimedFees(tokenId)
+        AuthenticFeeService.getUnclaimedFees(tokenId, this.chainId)
       ]);
 
       // Calculate USD value
@@ -655,7 +656,7 @@ export class UniswapIntegrationService {
     volume24hUSD: number;
     feesUSD24h: number;
   }> {
-    const response = await fetch(`https://api.dexscreener.com/latest/dex/pairs/base/${poolAddress}`);
+    const response = await fetch(`https://api.dexscreener.com/latest/dex/pairs/${this.chain.dexScreenerId}/${poolAddress}`);
     const data = await response.json();
 
     if (data.pair?.volume?.h24) {
@@ -673,7 +674,7 @@ export class UniswapIntegrationService {
    * Get pool fee tier from contract
    */
   private async getPoolFeeTier(poolAddress: string): Promise<number> {
-    return await rpcManager.executeWithRetry(async (client) => {
+    return await this.rpc.executeWithRetry(async (client) => {
       const fee = await client.readContract({
         address: poolAddress as `0x${string}`,
         abi: [
@@ -837,7 +838,7 @@ export class UniswapIntegrationService {
   private async getFeesFromUniswapAPI(tokenId: string): Promise<{ token0: string; token1: string }> {
     try {
       // Method not available - using alternative approach
-      const positionManagerAddress = '0x03a520b32C04BF3bEEf7BF5d70C3568a1935Bd25' as `0x${string}`;
+      const positionManagerAddress = this.chain.uniswap.positionManager;
       const positionManagerABI = [] as const; // Simplified for now
       
       // Use collect simulation with EXACT Uniswap parameters
@@ -862,7 +863,7 @@ export class UniswapIntegrationService {
       // If simulation fails, try static call as backup
       try {
         // Method not available - using alternative approach
-        const positionManagerAddress = '0x03a520b32C04BF3bEEf7BF5d70C3568a1935Bd25' as `0x${string}`;
+        const positionManagerAddress = this.chain.uniswap.positionManager;
         const positionManagerABI = [] as const;
         
         const collectParams = {
@@ -1061,20 +1062,20 @@ export class UniswapIntegrationService {
       };
 
       const [feeGrowthGlobal0, feeGrowthGlobal1, lowerTick, upperTick] = await Promise.all([
-        rpcManager.executeWithRetry(async (client) => client.readContract({
+        this.rpc.executeWithRetry(async (client) => client.readContract({
           ...poolContract,
           functionName: 'feeGrowthGlobal0X128',
         }), 'feeGrowthGlobal0X128'),
-        rpcManager.executeWithRetry(async (client) => client.readContract({
+        this.rpc.executeWithRetry(async (client) => client.readContract({
           ...poolContract,
           functionName: 'feeGrowthGlobal1X128',
         }), 'feeGrowthGlobal1X128'),
-        rpcManager.executeWithRetry(async (client) => client.readContract({
+        this.rpc.executeWithRetry(async (client) => client.readContract({
           ...poolContract,
           functionName: 'ticks',
           args: [tickLower],
         }), 'ticks-lower'),
-        rpcManager.executeWithRetry(async (client) => client.readContract({
+        this.rpc.executeWithRetry(async (client) => client.readContract({
           ...poolContract,
           functionName: 'ticks',
           args: [tickUpper],
@@ -1148,7 +1149,7 @@ export class UniswapIntegrationService {
     try {
       // Get token addresses - hardcoded for now
       const kiltTokenAddress = '0x5d0dd05bb095fdd6af4865a1adf97c39c85ad2d8';
-      const wethTokenAddress = '0x4200000000000000000000000000000000000006'; // WETH on Base
+      const wethTokenAddress = this.chain.weth;
       
       // Get real KILT price from our price service
       const { kiltPriceService } = await import('./kilt-price-service.js');
@@ -1202,7 +1203,7 @@ export class UniswapIntegrationService {
     try {
       // First get basic pool info from blockchain
       const [slot0Data, liquidity, token0, token1, fee] = await Promise.all([
-        rpcManager.executeWithRetry(async (client) => client.readContract({
+        this.rpc.executeWithRetry(async (client) => client.readContract({
           address: poolAddress as `0x${string}`,
           abi: [
             {
@@ -1223,7 +1224,7 @@ export class UniswapIntegrationService {
           ],
           functionName: 'slot0',
         }), 'pool-slot0'),
-        rpcManager.executeWithRetry(async (client) => client.readContract({
+        this.rpc.executeWithRetry(async (client) => client.readContract({
           address: poolAddress as `0x${string}`,
           abi: [
             {
@@ -1236,7 +1237,7 @@ export class UniswapIntegrationService {
           ],
           functionName: 'liquidity',
         }), 'pool-liquidity'),
-        rpcManager.executeWithRetry(async (client) => client.readContract({
+        this.rpc.executeWithRetry(async (client) => client.readContract({
           address: poolAddress as `0x${string}`,
           abi: [
             {
@@ -1249,7 +1250,7 @@ export class UniswapIntegrationService {
           ],
           functionName: 'token0',
         }), 'pool-token0'),
-        rpcManager.executeWithRetry(async (client) => client.readContract({
+        this.rpc.executeWithRetry(async (client) => client.readContract({
           address: poolAddress as `0x${string}`,
           abi: [
             {
@@ -1262,7 +1263,7 @@ export class UniswapIntegrationService {
           ],
           functionName: 'token1',
         }), 'pool-token1'),
-        rpcManager.executeWithRetry(async (client) => client.readContract({
+        this.rpc.executeWithRetry(async (client) => client.readContract({
           address: poolAddress as `0x${string}`,
           abi: [
             {
@@ -1347,7 +1348,7 @@ export class UniswapIntegrationService {
 
       // 2. Try DexScreener API (cross-validation source)
       try {
-        const dexResponse = await fetch(`https://api.dexscreener.com/latest/dex/pairs/base/${poolAddress.toLowerCase()}`, {
+        const dexResponse = await fetch(`https://api.dexscreener.com/latest/dex/pairs/${this.chain.dexScreenerId}/${poolAddress.toLowerCase()}`, {
           headers: { 'Accept': 'application/json' }
         });
 
@@ -1363,7 +1364,7 @@ export class UniswapIntegrationService {
 
       // 3. Calculate from token balances as backup (most accurate)
       const [token0Balance, token1Balance] = await Promise.all([
-        rpcManager.executeWithRetry(async (client) => client.readContract({
+        this.rpc.executeWithRetry(async (client) => client.readContract({
           address: token0 as `0x${string}`,
           abi: [
             {
@@ -1377,7 +1378,7 @@ export class UniswapIntegrationService {
           functionName: 'balanceOf',
           args: [poolAddress as `0x${string}`],
         }), 'token0-balance'),
-        rpcManager.executeWithRetry(async (client) => client.readContract({
+        this.rpc.executeWithRetry(async (client) => client.readContract({
           address: token1 as `0x${string}`,
           abi: [
             {
@@ -1661,4 +1662,19 @@ export class UniswapIntegrationService {
 }
 
 // Create singleton instance
-export const uniswapIntegrationService = new UniswapIntegrationService();
+const chainServices = new Map<number, UniswapIntegrationService>();
+
+/**
+ * Uniswap integration for one chain, created on first use
+ */
+export function getUniswapIntegrationService(chainId: number = DEFAULT_CHAIN_ID): UniswapIntegrationService {
+  let service = chainServices.get(chainId);
+  if (!service) {
+    service = new UniswapIntegrationService(chainId);
+    chainServices.set(chainId, service);
+  }
+  return service;
+}
+
+// Default (Base) instance
+export const uniswapIntegrationService = getUniswapIntegrationService();
@@ -0,0 +1,75 @@
+/**
+ * Notification event types, channels and the wallet-signed message that authorizes changes to a
+ * wallet's notification subscriptions. Shared so the client signs exactly what the server checks.
+ */
+
+export const NOTIFICATION_EVENT_TYPES = [
+  'out_of_range',
+  'rewards_claimable',
+  'position_burned',
+  'position_transferred',
+  'low_treasury'
+] as const;
+
+export type NotificationEventType = typeof NOTIFICATION_EVENT_TYPES[number];
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEventType, string> = {
+  out_of_range: 'Position went out of range',
+  rewards_claimable: 'Reward lock ended - rewards claimable',
+  position_burned: 'Position burned',
+  position_transferred: 'Position transferred out of wallet',
+  low_treasury: 'Reward treasury balance is low'
+};
+
+export const NOTIFICATION_CHANNEL_TYPES = ['webhook', 'email', 'telegram'] as const;
+
+export type NotificationChannelType = typeof NOTIFICATION_CHANNEL_TYPES[number];
+
+// Signed settings messages are rejected once older than this
+export const NOTIFICATION_SIGNATURE_MAX_AGE_MS = 10 * 60 * 1000;
+
+export function isNotificationEventType(value: unknown): value is NotificationEventType {
+  return typeof value === 'string' && (NOTIFICATION_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+export function isNotificationChannelType(value: unknown): value is NotificationChannelType {
+  return typeof value === 'string' && (NOTIFICATION_CHANNEL_TYPES as readonly string[]).includes(value);
+}
+
+export type NotificationSettingsAction =
+  | { type: 'subscribe'; channel: NotificationChannelType; target: string; eventTypes: NotificationEventType[] }
+  | { type: 'update'; subscriptionId: number; eventTypes?: NotificationEventType[]; isActive?: boolean }
+  | { type: 'unsubscribe'; subscriptionId: number }
+  | { type: 'test'; subscriptionId: number };
+
+function describeAction(action: NotificationSettingsAction): string {
+  switch (action.type) {
+    case 'subscribe':
+      return `Subscribe ${action.channel} ${action.target} to ${[...action.eventTypes].sort().join(', ')}`;
+    case 'update': {
+      const changes = [
+        action.eventTypes ? `events ${[...action.eventTypes].sort().join(', ')}` : null,
+        action.isActive !== undefined ? (action.isActive ? 'enable' : 'disable') : null
+      ].filter(Boolean);
+      return `Update subscription #${action.subscriptionId}: ${changes.join('; ')}`;
+    }
+    case 'unsubscribe':
+      return `Remove subscription #${action.subscriptionId}`;
+    case 'test':
+      return `Send test notification to subscription #${action.subscriptionId}`;
+  }
+}
+
+/**
+ * personal_sign message for a notification settings change
+ */
+export function buildNotificationSettingsMessage(walletAddress: string, action: NotificationSettingsAction, issuedAt: string): string {
+  return [
+    'KILT Liquidity Portal notification settings',
+    '',
+    describeAction(action),
+    '',
+    `Wallet: ${walletAddress.toLowerCase()}`,
+    `Issued At: ${issuedAt}`
+  ].join('\n');
+}
@@ -0,0 +1,178 @@
+/**
+ * Response schemas for the versioned public API (/v1). Every response is parsed against these
+ * before it is sent, so unknown fields are dropped and the documented shape is the only shape.
+ * Table-backed objects derive from shared/schema.ts; timestamps are ISO strings as serialized.
+ * Changing a field here is a breaking change for partners - add a /v2 schema instead.
+ */
+
+import { z } from 'zod';
+import { createSelectSchema } from 'drizzle-zod';
+import { incentivePrograms, lpPositions, poolTickSamples } from './schema';
+
+export const PUBLIC_API_VERSION = 'v1';
+
+const isoTimestamp = z.string().describe('ISO 8601 timestamp');
+const decimalString = z.string().describe('Decimal number as a string, to keep full precision');
+
+export const publicPartnerTokenSchema = z.object({
+  tokenAddress: z.string(),
+  tokenSymbol: z.string(),
+  decimals: z.number().int(),
+  totalBudget: z.number(),
+  dailyBudget: z.number()
+});
+
+export const publicProgramSchema = createSelectSchema(incentivePrograms, {
+  totalBudget: z.number().describe('Total reward budget in the reward token'),
+  startDate: z.string().describe('First reward day (YYYY-MM-DD)'),
+  endDate: z.string().describe('Day the program ends (YYYY-MM-DD, exclusive)'),
+  createdAt: isoTimestamp
+}).pick({
+  id: true,
+  name: true,
+  chainId: true,
+  poolAddress: true,
+  token0Address: true,
+  token1Address: true,
+  feeTier: true,
+  rewardTokenAddress: true,
+  rewardTokenSymbol: true,
+  totalBudget: true,
+  startDate: true,
+  endDate: true,
+  isActive: true,
+  createdAt: true
+}).extend({
+  durationDays: z.number(),
+  dailyBudget: z.number(),
+  partnerTokens: z.array(publicPartnerTokenSchema),
+  activePositions: z.number().int(),
+  uniqueUsers: z.number().int()
+});
+
+export const publicProgramStatsSchema = z.object({
+  programId: z.number().int(),
+  programName: z.string(),
+  poolAddress: z.string(),
+  totalLiquidity: z.number().describe('Pool TVL in USD'),
+  activeLiquidityProviders: z.number().int(),
+  totalPositions: z.number().int(),
+  averagePositionSize: z.number().describe('USD'),
+  dailyEmissionRate: z.number().describe('Reward tokens per day'),
+  programAPR: z.number().describe('Percent'),
+  treasuryTotal: z.number(),
+  treasuryRemaining: z.number(),
+  totalDistributed: z.number(),
+  programDuration: z.number().describe('Days'),
+  daysRemaining: z.number()
+});
+
+export const publicTickSampleSchema = createSelectSchema(poolTickSamples, {
+  sampledAt: isoTimestamp
+}).pick({
+  tick: true,
+  sqrtPriceX96: true,
+  blockNumber: true,
+  sampledAt: true
+});
+
+export const publicPoolMetricsSchema = z.object({
+  poolAddress: z.string(),
+  chainId: z.number().int(),
+  programId: z.number().int(),
+  feeTier: z.number().int(),
+  tvlUSD: z.number(),
+  volume24hUSD: z.number(),
+  feeEarnings24hUSD: z.number(),
+  activeLiquidityProviders: z.number().int(),
+  totalPositions: z.number().int(),
+  latestTick: publicTickSampleSchema.nullable().describe('Most recent sampled pool price')
+});
+
+export const publicAprSchema = z.object({
+  programId: z.number().int(),
+  programAPR: z.number().describe('Reward APR in percent'),
+  tradingAPR: z.number().describe('Trading fee APR in percent'),
+  totalProgramAPR: z.number(),
+  maxTheoreticalAPR: z.number(),
+  totalParticipants: z.number().int(),
+  totalProgramTVL: z.number().describe('USD'),
+  calculatedAt: isoTimestamp
+});
+
+export const publicPositionSchema = createSelectSchema(lpPositions, {
+  minPrice: decimalString,
+  maxPrice: decimalString,
+  liquidity: decimalString,
+  currentValueUSD: decimalString,
+  transferredAt: isoTimestamp.nullable(),
+  createdAt: isoTimestamp.nullable()
+}).pick({
+  nftTokenId: true,
+  chainId: true,
+  programId: true,
+  poolAddress: true,
+  token0Address: true,
+  token1Address: true,
+  token0Amount: true,
+  token1Amount: true,
+  minPrice: true,
+  maxPrice: true,
+  tickLower: true,
+  tickUpper: true,
+  liquidity: true,
+  feeTier: true,
+  currentValueUSD: true,
+  isActive: true,
+  rewardEligible: true,
+  transferredAt: true,
+  createdAt: true
+});
+
+export const publicRewardTokenSchema = z.object({
+  tokenAddress: z.string(),
+  tokenSymbol: z.string(),
+  decimals: z.number().int(),
+  accumulated: z.number(),
+  claimed: z.number(),
+  claimable: z.number(),
+  dailyRewards: z.number()
+});
+
+export const publicPositionRewardSchema = z.object({
+  nftTokenId: z.string(),
+  dailyRewards: z.number(),
+  accumulatedRewards: z.number(),
+  effectiveAPR: z.number().describe('Percent')
+});
+
+export const publicUserRewardsSchema = z.object({
+  address: z.string(),
+  totalAccumulated: z.number().describe('KILT'),
+  totalClaimable: z.number().describe('KILT'),
+  totalClaimed: z.number().describe('KILT'),
+  avgDailyRewards: z.number().describe('KILT per day'),
+  activePositions: z.number().int(),
+  tokens: z.array(publicRewardTokenSchema).describe('Every reward token, KILT first'),
+  positions: z.array(publicPositionRewardSchema)
+});
+
+export const publicErrorSchema = z.object({
+  error: z.string(),
+  code: z.string()
+});
+
+/** Success envelope - `data` holds the endpoint's documented payload */
+export function publicResponseSchema<T extends z.ZodTypeAny>(data: T) {
+  return z.object({
+    apiVersion: z.literal(PUBLIC_API_VERSION),
+    data
+  });
+}
+
+export type PublicProgram = z.infer<typeof publicProgramSchema>;
+export type PublicProgramStats = z.infer<typeof publicProgramStatsSchema>;
+export type PublicPoolMetrics = z.infer<typeof publicPoolMetricsSchema>;
+export type PublicApr = z.infer<typeof publicAprSchema>;
+export type PublicPosition = z.infer<typeof publicPositionSchema>;
+export type PublicUserRewards = z.infer<typeof publicUserRewardsSchema>;
@@ -0,0 +1,57 @@
+import { nearestUsableTick, TickMath } from '@uniswap/v3-sdk';
+
+/**
+ * Range strategies offered when minting or rebalancing a position, as ± price moves from the
+ * current tick. Shared so the server plans rebalances with the same ranges the client mints.
+ */
+export const RANGE_STRATEGIES = ['Narrow (±25%)', 'Balanced (±50%)', 'Wide (±100%)', 'Full Range'] as const;
+
+export type RangeStrategy = typeof RANGE_STRATEGIES[number];
+
+const STRATEGY_PRICE_FACTORS: Record<Exclude<RangeStrategy, 'Full Range'>, number> = {
+  'Narrow (±25%)': 1.25,
+  'Balanced (±50%)': 1.5,
+  'Wide (±100%)': 2.0
+};
+
+export function isRangeStrategy(value: string): value is RangeStrategy {
+  return (RANGE_STRATEGIES as readonly string[]).includes(value);
+}
+
+/**
+ * Tick range for a strategy around the current tick, aligned to the pool's tick spacing.
+ * Unknown strategies fall back to Balanced.
+ */
+export function calculateTickRange(strategy: string, currentTick: number, tickSpacing: number): { tickLower: number; tickUpper: number } {
+  let tickLower: number;
+  let tickUpper: number;
+
+  if (strategy === 'Full Range') {
+    tickLower = TickMath.MIN_TICK;
+    tickUpper = TickMath.MAX_TICK;
+  } else {
+    const factor = STRATEGY_PRICE_FACTORS[strategy as keyof typeof STRATEGY_PRICE_FACTORS] ?? STRATEGY_PRICE_FACTORS['Balanced (±50%)'];
+    const range = Math.floor(Math.log(factor) / Math.log(1.0001));
+    tickLower = currentTick - range;
+    tickUpper = currentTick + range;
+  }
+
+  // Ensure ticks are usable (aligned to tick spacing)
+  return {
+    tickLower: nearestUsableTick(tickLower, tickSpacing),
+    tickUpper: nearestUsableTick(tickUpper, tickSpacing)
+  };
+}
+
+/**
+ * Tick spacing for a Uniswap V3 fee tier
+ */
+export function tickSpacingForFee(feeTier: number): number {
+  switch (feeTier) {
+    case 100: return 1;
+    case 500: return 10;
+    case 3000: return 60;
+    case 10000: return 200;
+    default: return 60;
+  }
+}
@@ -1,5 +1,5 @@
-import { pgTable, text, serial, decimal, timestamp, integer, boolean, date, numeric, unique } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import { pgTable, text, serial, decimal, timestamp, integer, boolean, date, numeric, unique, index } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // ===== BLOCKCHAIN CONFIGURATION TABLE =====
@@ -25,11 +25,48 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Incentive programs - a reward budget on one pool between two dates. Registered positions
+// join the active program for their pool. A null totalBudget/startDate/endDate means the
+// program is funded by treasury_config (the original KILT/ETH program).
+export const incentivePrograms = pgTable("incentive_programs", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  chainId: integer("chain_id").notNull().default(8453), // Chain registry ID - Base by default
+  poolAddress: text("pool_address").notNull(),
+  token0Address: text("token_0_address").notNull(),
+  token1Address: text("token_1_address").notNull(),
+  feeTier: integer("fee_tier").notNull().default(3000),
+  rewardTokenAddress: text("reward_token_address").notNull(),
+  rewardTokenSymbol: text("reward_token_symbol").notNull().default("KILT"),
+  totalBudget: numeric("total_budget", { precision: 30, scale: 18 }),
+  startDate: date("start_date"),
+  endDate: date("end_date"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Partner tokens a program pays alongside its primary reward token. Each has its own budget
+// over the program's dates and is split in the same proportions as the primary token.
+export const programRewardTokens = pgTable("program_reward_tokens", {
+  id: serial("id").primaryKey(),
+  programId: integer("program_id").references(() => incentivePrograms.id).notNull(),
+  tokenAddress: text("token_address").notNull(),
+  tokenSymbol: text("token_symbol").notNull(),
+  decimals: integer("decimals").notNull().default(18),
+  totalBudget: numeric("total_budget", { precision: 30, scale: 18 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueProgramToken: unique().on(table.programId, table.tokenAddress),
+}));
+
 // Uniswap V3 LP positions (NFT-based) - App-tracked only
 export const lpPositions = pgTable("lp_positions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
   nftTokenId: text("nft_token_id").notNull(), // Fixed: Use consistent naming
+  chainId: integer("chain_id").notNull().default(8453), // Token IDs are only unique per chain's position manager
   poolAddress: text("pool_address").notNull(),
   token0Address: text("token_0_address").notNull(),
   token1Address: text("token_1_address").notNull(),
@@ -49,6 +86,10 @@ export const lpPositions = pgTable("lp_positions", {
   appSessionId: text("app_session_id").notNull(),
   verificationStatus: text("verification_status").default("pending").notNull(),
   rewardEligible: boolean("reward_eligible").default(true).notNull(),
+  transferredAt: timestamp("transferred_at"), // NFT left the registered owner's wallet - accrual stops here, row kept for its reward history
+  programId: integer("program_id").references(() => incentivePrograms.id), // Program matched by pool address at registration
+  rebalancedFromPositionId: integer("rebalanced_from_position_id"), // Closed position this one replaced via the rebalance flow
+  timeBoostStartedAt: timestamp("time_boost_started_at"), // Time boost counts from here instead of createdAt - inherited on rebalance
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -58,6 +99,8 @@ export const rewards = pgTable("rewards", {
   userId: integer("user_id").references(() => users.id),
   positionId: integer("position_id").references(() => lpPositions.id),
   nftTokenId: text("nft_token_id").notNull(), // Uniswap V3 NFT token ID
+  tokenAddress: text("token_address"), // Reward token the amounts are denominated in - null for KILT
+  tokenSymbol: text("token_symbol").notNull().default("KILT"),
   amount: decimal("amount", { precision: 18, scale: 8 }).notNull(), // Total reward amount - required field
   positionValueUSD: decimal("position_value_usd", { precision: 20, scale: 8 }).notNull(),
   dailyRewardAmount: decimal("daily_reward_amount", { precision: 18, scale: 8 }).notNull(),
@@ -85,26 +128,190 @@ export const poolStats = pgTable("pool_stats", {
 
 
 
-// Daily reward tracking table
+// Daily reward ledger - append-only, one entry per position per accrual interval
+// Each entry stores the formula inputs it was computed from so any past day can be re-derived
 export const dailyRewards = pgTable("daily_rewards", {
   id: serial("id").primaryKey(),
-  rewardId: integer("reward_id").references(() => rewards.id).notNull(),
+  rewardId: integer("reward_id").references(() => rewards.id), // Legacy link to a rewards summary row (ledger entries are keyed by position)
   userId: integer("user_id").references(() => users.id).notNull(),
   positionId: integer("position_id").references(() => lpPositions.id).notNull(),
   date: date("date").notNull(),
   positionValueUSD: decimal("position_value_usd", { precision: 20, scale: 8 }).notNull(),
-  baseAPR: decimal("base_apr", { precision: 5, scale: 2 }).notNull(),
+  baseAPR: decimal("base_apr", { precision: 10, scale: 2 }).notNull(),
   timeMultiplier: decimal("time_multiplier", { precision: 5, scale: 2 }).notNull(),
   sizeMultiplier: decimal("size_multiplier", { precision: 5, scale: 2 }).notNull(),
-  effectiveAPR: decimal("effective_apr", { precision: 5, scale: 2 }).notNull(),
+  effectiveAPR: decimal("effective_apr", { precision: 10, scale: 2 }).notNull(),
   dailyRewardAmount: decimal("daily_reward_amount", { precision: 18, scale: 8 }).notNull(),
   daysStaked: integer("days_staked").notNull(),
+  // Formula inputs: R_u = (L_u/L_T) × timeBoost × IRM × FRB × R × (intervalHours/24)
+  userLiquidity: decimal("user_liquidity", { precision: 20, scale: 8 }), // L_u
+  totalLiquidity: decimal("total_liquidity", { precision: 20, scale: 8 }), // L_T
+  timeBoost: decimal("time_boost", { precision: 12, scale: 8 }), // 1 + (D_u/P) × b_time
+  inRangeMultiplier: decimal("in_range_multiplier", { precision: 12, scale: 8 }), // IRM
+  fullRangeBonus: decimal("full_range_bonus", { precision: 12, scale: 8 }), // FRB
+  dailyBudget: decimal("daily_budget", { precision: 30, scale: 18 }), // R (treasury daily_rewards_cap)
+  allocationScale: decimal("allocation_scale", { precision: 12, scale: 8 }), // Normalization keeping the day within R
+  settingsVersionId: integer("settings_version_id"), // program_settings row in effect for the interval
+  programId: integer("program_id").references(() => incentivePrograms.id),
+  intervalStart: timestamp("interval_start"),
+  intervalEnd: timestamp("interval_end"),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => ({
   uniqueUserPositionDate: unique().on(table.userId, table.positionId, table.date),
 }));
 
+// Partner token accruals - one row per daily_rewards entry and program_reward_tokens token
+export const dailyTokenRewards = pgTable("daily_token_rewards", {
+  id: serial("id").primaryKey(),
+  dailyRewardId: integer("daily_reward_id").references(() => dailyRewards.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  positionId: integer("position_id").references(() => lpPositions.id).notNull(),
+  programId: integer("program_id").references(() => incentivePrograms.id).notNull(),
+  date: date("date").notNull(),
+  tokenAddress: text("token_address").notNull(),
+  tokenSymbol: text("token_symbol").notNull(),
+  amount: numeric("amount", { precision: 30, scale: 18 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueEntryToken: unique().on(table.dailyRewardId, table.tokenAddress),
+}));
+
+
+
+// Per-program daily allocation pass - one row per program per closed day, proves the cap was respected
+export const rewardAllocations = pgTable("reward_allocations", {
+  id: serial("id").primaryKey(),
+  programId: integer("program_id").references(() => incentivePrograms.id),
+  date: date("date").notNull(),
+  dailyRewardsCap: numeric("daily_rewards_cap", { precision: 30, scale: 18 }).notNull(),
+  totalAllocated: numeric("total_allocated", { precision: 30, scale: 18 }).notNull(),
+  totalLiquidity: numeric("total_liquidity", { precision: 30, scale: 8 }).notNull(), // Sum of registered liquidity (L_T)
+  positionCount: integer("position_count").notNull(),
+  normalizationFactor: decimal("normalization_factor", { precision: 12, scale: 8 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueProgramDate: unique().on(table.programId, table.date),
+}));
+
+// Pool price tick samples (slot0) - source of per-position in-range time fractions (IRM)
+export const poolTickSamples = pgTable("pool_tick_samples", {
+  id: serial("id").primaryKey(),
+  poolAddress: text("pool_address").notNull(),
+  tick: integer("tick").notNull(),
+  sqrtPriceX96: text("sqrt_price_x96").notNull(),
+  blockNumber: integer("block_number"),
+  sampledAt: timestamp("sampled_at").defaultNow().notNull(),
+});
+
+// Periodic value snapshots of registered positions - lp_positions.currentValueUSD only holds the latest
+export const positionValueSnapshots = pgTable("position_value_snapshots", {
+  id: serial("id").primaryKey(),
+  positionId: integer("position_id").references(() => lpPositions.id).notNull(),
+  nftTokenId: text("nft_token_id").notNull(),
+  liquidity: numeric("liquidity", { precision: 30, scale: 0 }).notNull(),
+  kiltAmount: numeric("kilt_amount", { precision: 30, scale: 18 }).notNull(), // Principal derived from liquidity and ticks
+  ethAmount: numeric("eth_amount", { precision: 30, scale: 18 }).notNull(),
+  uncollectedKilt: numeric("uncollected_kilt", { precision: 30, scale: 18 }).notNull(), // AuthenticFeeService fees
+  uncollectedEth: numeric("uncollected_eth", { precision: 30, scale: 18 }).notNull(),
+  kiltPrice: numeric("kilt_price", { precision: 20, scale: 10 }).notNull(), // USD
+  ethPrice: numeric("eth_price", { precision: 20, scale: 10 }).notNull(), // USD
+  principalValueUSD: numeric("principal_value_usd", { precision: 30, scale: 8 }).notNull(),
+  feesValueUSD: numeric("fees_value_usd", { precision: 30, scale: 8 }).notNull(),
+  totalValueUSD: numeric("total_value_usd", { precision: 30, scale: 8 }).notNull(),
+  sampledAt: timestamp("sampled_at").defaultNow().notNull(),
+});
+
+// Merkle claim epochs - one published root over every user's cumulative ledger balance
+export const merkleEpochs = pgTable("merkle_epochs", {
+  id: serial("id").primaryKey(),
+  epoch: integer("epoch").notNull().unique(),
+  merkleRoot: text("merkle_root").notNull(),
+  totalCumulative: numeric("total_cumulative", { precision: 38, scale: 0 }).notNull(), // wei
+  leafCount: integer("leaf_count").notNull(),
+  ledgerThroughDate: date("ledger_through_date"), // Last closed ledger day included
+  status: text("status").notNull().default("built"), // built, published
+  publishTxHash: text("publish_tx_hash"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  publishedAt: timestamp("published_at"),
+});
+
+// Per-user leaves and proofs for each Merkle epoch
+export const merkleEpochLeaves = pgTable("merkle_epoch_leaves", {
+  id: serial("id").primaryKey(),
+  epoch: integer("epoch").notNull(),
+  userAddress: text("user_address").notNull(), // lowercase
+  cumulativeAmount: numeric("cumulative_amount", { precision: 38, scale: 0 }).notNull(), // wei
+  proof: text("proof").notNull(), // JSON array of bytes32 hex strings
+}, (table) => ({
+  uniqueEpochUser: unique().on(table.epoch, table.userAddress),
+}));
+
+// Block checkpoints for on-chain event indexers - one row per indexer
+export const indexerCheckpoints = pgTable("indexer_checkpoints", {
+  id: serial("id").primaryKey(),
+  indexerName: text("indexer_name").notNull().unique(),
+  contractAddress: text("contract_address").notNull(),
+  lastBlock: integer("last_block").notNull(), // Last fully indexed block
+  lastBlockHash: text("last_block_hash"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// RewardClaimed events indexed from the treasury contract
+export const rewardClaimEvents = pgTable("reward_claim_events", {
+  id: serial("id").primaryKey(),
+  contractAddress: text("contract_address").notNull(),
+  userAddress: text("user_address").notNull(), // lowercase
+  userId: integer("user_id").references(() => users.id), // null when no registered user matches
+  amount: numeric("amount", { precision: 30, scale: 18 }).notNull(), // KILT paid in this claim
+  claimedAmountAfter: numeric("claimed_amount_after", { precision: 30, scale: 18 }).notNull(), // Contract's cumulative total after the claim
+  nonce: integer("nonce").notNull(),
+  blockNumber: integer("block_number").notNull(),
+  blockTimestamp: timestamp("block_timestamp").notNull(),
+  transactionHash: text("transaction_hash").notNull(),
+  logIndex: integer("log_index").notNull(),
+  reconciledAt: timestamp("reconciled_at"), // When the claim was written back to the rewards table
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueTransactionLog: unique().on(table.transactionHash, table.logIndex),
+}));
 
+// Mismatches found by the claim reconciler - open until a later run no longer detects them
+export const claimReconciliationIssues = pgTable("claim_reconciliation_issues", {
+  id: serial("id").primaryKey(),
+  userAddress: text("user_address").notNull(), // lowercase
+  userId: integer("user_id").references(() => users.id),
+  issueType: text("issue_type").notNull(), // unknown_user, nonce_gap, cumulative_mismatch, claim_exceeds_accrual, db_claim_without_event
+  severity: text("severity").notNull(), // warning, critical
+  expectedAmount: numeric("expected_amount", { precision: 30, scale: 18 }),
+  actualAmount: numeric("actual_amount", { precision: 30, scale: 18 }),
+  details: text("details").notNull(),
+  detectedAt: timestamp("detected_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => ({
+  uniqueUserIssue: unique().on(table.userAddress, table.issueType),
+}));
+
+// Audit trail of registered position NFTs moving to another wallet
+export const positionTransfers = pgTable("position_transfers", {
+  id: serial("id").primaryKey(),
+  positionId: integer("position_id").references(() => lpPositions.id).notNull(), // Registration closed by the transfer
+  nftTokenId: text("nft_token_id").notNull(),
+  fromUserId: integer("from_user_id").references(() => users.id),
+  fromAddress: text("from_address").notNull(), // lowercase
+  toAddress: text("to_address").notNull(), // lowercase
+  transactionHash: text("transaction_hash"), // null when detected by an ownerOf check without an indexed event
+  blockNumber: integer("block_number"),
+  transferredAt: timestamp("transferred_at").notNull(), // Accrual split point
+  detectionSource: text("detection_source").notNull(), // indexed_event, owner_check
+  status: text("status").default("pending_registration").notNull(), // pending_registration, re_registered
+  toUserId: integer("to_user_id").references(() => users.id),
+  newPositionId: integer("new_position_id").references(() => lpPositions.id),
+  detectedAt: timestamp("detected_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => ({
+  uniquePosition: unique().on(table.positionId),
+}));
 
 // App-specific transaction tracking for reward eligibility
 export const appTransactions = pgTable("app_transactions", {
@@ -148,12 +355,15 @@ export const positionEligibility = pgTable("position_eligibility", {
 }));
 
 // Program settings table - only essential formula parameters
+// Versioned: each change is a new row, the one with the latest effectiveFrom <= now is current
 export const programSettings = pgTable("program_settings", {
   id: serial("id").primaryKey(),
   timeBoostCoefficient: decimal("time_boost_coefficient", { precision: 10, scale: 3 }).notNull().default("0.600"),
   fullRangeBonus: decimal("full_range_bonus", { precision: 10, scale: 3 }).notNull().default("1.200"),
   minimumPositionValue: decimal("minimum_position_value", { precision: 18, scale: 8 }).notNull().default("10.00000000"),
   lockPeriod: integer("lock_period").notNull().default(7),
+  effectiveFrom: timestamp("effective_from").defaultNow().notNull(),
+  createdBy: text("created_by"),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
@@ -172,7 +382,7 @@ export const treasuryConfig = pgTable("treasury_config", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-// Token and pool configuration table - essential blockchain addresses
+// Token and pool configuration table - essential blockchain addresses (superseded by incentive_programs)
 export const tokenPoolConfig = pgTable("token_pool_config", {
   id: serial("id").primaryKey(),
   kiltTokenAddress: text("kilt_token_address").notNull(),
@@ -193,19 +403,181 @@ export const adminOperations = pgTable("admin_operations", {
   reason: text("reason"),
   settings: text("settings"),
   performedBy: text("performed_by"), // Admin wallet address or username
+  beforeState: text("before_state"), // JSON snapshot before a config mutation
+  afterState: text("after_state"), // JSON snapshot after a config mutation
   transactionHash: text("transaction_hash"), // If blockchain transaction involved
   success: boolean("success").default(true),
   errorMessage: text("error_message"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
+// Admin role grants - one row per wallet, revoked rows keep their history
+export const adminRoles = pgTable("admin_roles", {
+  id: serial("id").primaryKey(),
+  walletAddress: text("wallet_address").notNull().unique(), // Lowercased
+  role: text("role").notNull(), // 'viewer', 'config-editor', 'treasury-operator', 'super-admin'
+  label: text("label"), // Team member name or note
+  grantedBy: text("granted_by").notNull(),
+  grantedAt: timestamp("granted_at").defaultNow().notNull(),
+  revokedBy: text("revoked_by"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Treasury and program config changes waiting for M-of-N admin approval
+export const adminProposals = pgTable("admin_proposals", {
+  id: serial("id").primaryKey(),
+  changeType: text("change_type").notNull(), // 'treasury_config', 'program_settings'
+  payload: text("payload").notNull(), // JSON of the validated change
+  payloadHash: text("payload_hash").notNull(), // keccak256 of payload, included in signed votes
+  summary: text("summary").notNull(),
+  proposedBy: text("proposed_by").notNull(),
+  requiredApprovals: integer("required_approvals").notNull(),
+  timelockSeconds: integer("timelock_seconds").notNull().default(0),
+  status: text("status").notNull().default("pending"), // 'pending', 'queued', 'executing', 'executed', 'rejected', 'cancelled', 'expired', 'failed'
+  quorumReachedAt: timestamp("quorum_reached_at"),
+  executableAfter: timestamp("executable_after"), // quorumReachedAt + timelock
+  executedAt: timestamp("executed_at"),
+  executionError: text("execution_error"),
+  expiresAt: timestamp("expires_at").notNull(), // Pending proposals lapse after this
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Signed approve/reject votes - one per admin per proposal
+export const adminProposalVotes = pgTable("admin_proposal_votes", {
+  id: serial("id").primaryKey(),
+  proposalId: integer("proposal_id").references(() => adminProposals.id).notNull(),
+  adminWallet: text("admin_wallet").notNull(),
+  decision: text("decision").notNull(), // 'approve', 'reject'
+  message: text("message").notNull(), // Exact text that was signed
+  signature: text("signature").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueVote: unique().on(table.proposalId, table.adminWallet),
+}));
+
+// Single-use SIWE nonces issued to the admin login page
+export const adminNonces = pgTable("admin_nonces", {
+  id: serial("id").primaryKey(),
+  nonce: text("nonce").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Admin sessions created by a verified SIWE signature - only the token hash is stored
+export const adminSessions = pgTable("admin_sessions", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the bearer token
+  walletAddress: text("wallet_address").notNull(), // Lowercased signer address
+  chainId: integer("chain_id"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  issuedAt: timestamp("issued_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastSeenAt: timestamp("last_seen_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Keys for the public /v1 API - only the sha256 hash of the key is stored
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // Partner or team the key was issued to
+  keyPrefix: text("key_prefix").notNull(), // First characters of the key, shown in the admin panel
+  keyHash: text("key_hash").notNull().unique(),
+  rateLimitPerMinute: integer("rate_limit_per_minute").notNull().default(60),
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Fixed-window request counters for the per-key public API limit, shared by every app instance
+export const apiRateLimitCounters = pgTable("api_rate_limit_counters", {
+  key: text("key").primaryKey(), // e.g. 'api-key:12'
+  hits: integer("hits").notNull(),
+  resetAt: timestamp("reset_at").notNull(), // End of the current window
+});
+
+// Per-wallet notification destinations - one row per channel target
+export const notificationSubscriptions = pgTable("notification_subscriptions", {
+  id: serial("id").primaryKey(),
+  walletAddress: text("wallet_address").notNull(), // Lowercased
+  channel: text("channel").notNull(), // 'webhook', 'email', 'telegram'
+  target: text("target").notNull(), // Webhook URL, email address or Telegram chat ID
+  secret: text("secret"), // Webhook HMAC signing secret, returned once on creation
+  eventTypes: text("event_types").notNull(), // JSON array of NotificationEventType
+  isActive: boolean("is_active").default(true).notNull(),
+  lastDeliveredAt: timestamp("last_delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueTarget: unique().on(table.walletAddress, table.channel, table.target),
+}));
+
+// Outbox of notifications - the dedupe key makes each trigger fire once per subscription
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").references(() => notificationSubscriptions.id).notNull(),
+  eventType: text("event_type").notNull(),
+  dedupeKey: text("dedupe_key").notNull(), // e.g. out_of_range:8453:12345:<first out-of-range sample id>
+  payload: text("payload").notNull(), // JSON NotificationEvent
+  status: text("status").notNull().default("pending"), // 'pending', 'delivered', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueDedupe: unique().on(table.subscriptionId, table.dedupeKey),
+}));
+
+// Background jobs - one row per job the scheduler knows, shared by every app instance
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  name: text("name").primaryKey(), // e.g. 'kilt-price', 'position-lifecycle'
+  description: text("description").notNull(),
+  intervalSeconds: integer("interval_seconds").notNull(),
+  isPaused: boolean("is_paused").default(false).notNull(),
+  nextRunAt: timestamp("next_run_at").defaultNow().notNull(),
+  triggerRequestedAt: timestamp("trigger_requested_at"), // Set by an admin to run the job on the next tick
+  failedAttempts: integer("failed_attempts").default(0).notNull(), // Consecutive failures - drives retry backoff
+  lastRunAt: timestamp("last_run_at"),
+  lastStatus: text("last_status"), // 'succeeded', 'failed'
+  lastError: text("last_error"),
+  lastResult: text("last_result"), // JSON returned by the handler's last successful run
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Run history - pruned to the most recent runs per job
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  jobName: text("job_name").references(() => scheduledJobs.name).notNull(),
+  instanceId: text("instance_id").notNull(), // Leader that ran it
+  trigger: text("trigger").notNull(), // 'schedule', 'retry', 'manual'
+  attempt: integer("attempt").notNull(),
+  status: text("status").notNull(), // 'running', 'succeeded', 'failed'
+  error: text("error"),
+  result: text("result"), // JSON returned by the handler
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+}, (table) => ({
+  jobStartedIdx: index("job_runs_job_started_idx").on(table.jobName, table.startedAt),
+}));
+
 // Liquidity events tracking table
 export const liquidityEvents = pgTable("liquidity_events", {
   id: serial("id").primaryKey(),
-  positionId: integer("position_id").references(() => lpPositions.id).notNull(),
+  positionId: integer("position_id").references(() => lpPositions.id), // null until the NFT is registered in the app
+  nftTokenId: text("nft_token_id"), // Uniswap V3 NFT token ID
+  chainId: integer("chain_id").notNull().default(8453),
   transactionHash: text("transaction_hash").notNull(),
+  logIndex: integer("log_index"),
   blockNumber: integer("block_number").notNull(),
-  eventType: text("event_type").notNull(), // 'mint', 'burn', 'increase', 'decrease', 'collect'
+  blockHash: text("block_hash"), // Used to detect reorgs
+  eventType: text("event_type").notNull(), // 'mint', 'burn', 'transfer', 'increase', 'decrease', 'collect'
+  fromAddress: text("from_address"), // Transfer events (lowercase)
+  toAddress: text("to_address"), // Transfer and collect recipient (lowercase)
   amount0: numeric("amount_0", { precision: 30, scale: 18 }),
   amount1: numeric("amount_1", { precision: 30, scale: 18 }),
   liquidityDelta: numeric("liquidity_delta", { precision: 30, scale: 0 }),
@@ -214,7 +586,9 @@ export const liquidityEvents = pgTable("liquidity_events", {
   gasUsed: integer("gas_used"),
   gasPrice: numeric("gas_price", { precision: 30, scale: 0 }),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
-});
+}, (table) => ({
+  uniqueTransactionLog: unique().on(table.chainId, table.transactionHash, table.logIndex),
+}));
 
 // Insert/select schemas for admin operations audit log
 export const insertAdminOperationSchema = createInsertSchema(adminOperations).pick({
@@ -241,6 +615,7 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export const insertLpPositionSchema = createInsertSchema(lpPositions).pick({
   userId: true,
   nftTokenId: true,
+  chainId: true,
   poolAddress: true,
   token0Address: true,
   token1Address: true,
@@ -259,6 +634,7 @@ export const insertLpPositionSchema = createInsertSchema(lpPositions).pick({
   appSessionId: true,
   verificationStatus: true,
   rewardEligible: true,
+  programId: true,
 });
 
 export const insertAppTransactionSchema = createInsertSchema(appTransactions).pick({
@@ -292,9 +668,14 @@ export const insertPositionEligibilitySchema = createInsertSchema(positionEligib
 
 export const insertLiquidityEventSchema = createInsertSchema(liquidityEvents).pick({
   positionId: true,
+  nftTokenId: true,
   transactionHash: true,
+  logIndex: true,
   blockNumber: true,
+  blockHash: true,
   eventType: true,
+  fromAddress: true,
+  toAddress: true,
   amount0: true,
   amount1: true,
   liquidityDelta: true,
@@ -327,6 +708,16 @@ export const insertDailyRewardSchema = createInsertSchema(dailyRewards).pick({
   effectiveAPR: true,
   dailyRewardAmount: true,
   daysStaked: true,
+  userLiquidity: true,
+  totalLiquidity: true,
+  timeBoost: true,
+  inRangeMultiplier: true,
+  fullRangeBonus: true,
+  dailyBudget: true,
+  allocationScale: true,
+  settingsVersionId: true,
+  intervalStart: true,
+  intervalEnd: true,
 });
 
 export const insertPoolStatsSchema = createInsertSchema(poolStats).pick({
@@ -345,6 +736,8 @@ export const insertProgramSettingsSchema = createInsertSchema(programSettings).p
   fullRangeBonus: true,
   minimumPositionValue: true,
   lockPeriod: true,
+  effectiveFrom: true,
+  createdBy: true,
 });
 
 export const insertTreasuryConfigSchema = createInsertSchema(treasuryConfig).pick({
@@ -358,6 +751,12 @@ export const insertTreasuryConfigSchema = createInsertSchema(treasuryConfig).pic
   createdBy: true,
 });
 
+// Row schemas - what routes return, checked by validateRequest's response option
+export const selectUserSchema = createSelectSchema(users);
+export const selectLpPositionSchema = createSelectSchema(lpPositions);
+export const selectRewardSchema = createSelectSchema(rewards);
+export const selectPoolStatsSchema = createSelectSchema(poolStats);
+
 
 
 export type AppTransaction = typeof appTransactions.$inferSelect;
@@ -378,6 +777,28 @@ export type InsertTreasuryConfig = typeof treasuryConfig.$inferInsert;
 export type AdminOperation = typeof adminOperations.$inferSelect;
 export type InsertAdminOperation = typeof adminOperations.$inferInsert;
 
+// Admin auth types
+export type AdminSession = typeof adminSessions.$inferSelect;
+export type AdminRoleGrant = typeof adminRoles.$inferSelect;
+export type AdminProposal = typeof adminProposals.$inferSelect;
+export type AdminProposalVote = typeof adminProposalVotes.$inferSelect;
+
+// Public API types
+export type ApiKey = typeof apiKeys.$inferSelect;
+
+// Notification types
+export type NotificationSubscription = typeof notificationSubscriptions.$inferSelect;
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+
+// Job scheduler types
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type JobRun = typeof jobRuns.$inferSelect;
+
+export type IncentiveProgram = typeof incentivePrograms.$inferSelect;
+export type InsertIncentiveProgram = typeof incentivePrograms.$inferInsert;
+export type ProgramRewardToken = typeof programRewardTokens.$inferSelect;
+export type InsertProgramRewardToken = typeof programRewardTokens.$inferInsert;
+
 export type TokenPoolConfig = typeof tokenPoolConfig.$inferSelect;
 export type InsertTokenPoolConfig = typeof tokenPoolConfig.$inferInsert;
 
@@ -393,7 +814,24 @@ export type InsertReward = z.infer<typeof insertRewardSchema>;
 export type Reward = typeof rewards.$inferSelect;
 export type InsertDailyReward = z.infer<typeof insertDailyRewardSchema>;
 export type DailyReward = typeof dailyRewards.$inferSelect;
+export type DailyTokenReward = typeof dailyTokenRewards.$inferSelect;
+export type InsertDailyTokenReward = typeof dailyTokenRewards.$inferInsert;
 export type InsertPoolStats = z.infer<typeof insertPoolStatsSchema>;
+export type PoolTickSample = typeof poolTickSamples.$inferSelect;
+export type InsertPoolTickSample = typeof poolTickSamples.$inferInsert;
+export type PositionValueSnapshot = typeof positionValueSnapshots.$inferSelect;
+export type InsertPositionValueSnapshot = typeof positionValueSnapshots.$inferInsert;
+export type RewardAllocation = typeof rewardAllocations.$inferSelect;
+export type InsertRewardAllocation = typeof rewardAllocations.$inferInsert;
+export type MerkleEpoch = typeof merkleEpochs.$inferSelect;
+export type InsertMerkleEpoch = typeof merkleEpochs.$inferInsert;
+export type MerkleEpochLeaf = typeof merkleEpochLeaves.$inferSelect;
+export type InsertMerkleEpochLeaf = typeof merkleEpochLeaves.$inferInsert;
+export type IndexerCheckpoint = typeof indexerCheckpoints.$inferSelect;
+export type RewardClaimEvent = typeof rewardClaimEvents.$inferSelect;
+export type InsertRewardClaimEvent = typeof rewardClaimEvents.$inferInsert;
+export type ClaimReconciliationIssue = typeof claimReconciliationIssues.$inferSelect;
+export type PositionTransfer = typeof positionTransfers.$inferSelect;
 export type PoolStats = typeof poolStats.$inferSelect;
 
 